@@ -0,0 +1,298 @@
+import * as admin from "firebase-admin";
+import {
+  describeMigrationOp,
+  migrationBatches,
+  planMigrations,
+  schemaVersionOf,
+  type MigrationData,
+  type MigrationOp,
+  type PlannedMigration,
+} from "@/lib/migrations";
+import type { Settings, Site } from "@/shared/types/domain";
+
+// ---------------------------------------------------------------
+// Company data migrations, server side
+//
+// Plans and applies a company's pending migrations (src/lib/migrations)
+// with the Admin SDK, for companies no manager has opened since a
+// release. Same plans, batches and checkpoints as the app's runner in
+// src/features/migrations/company-migrations.ts.
+//
+// From the repository root:
+//   npm run migrate:company -- <companyId> [--dry-run] [--auto-only]
+//
+// Credentials come from GOOGLE_APPLICATION_CREDENTIALS or gcloud
+// application-default login; FIRESTORE_EMULATOR_HOST points it at the
+// emulator.
+// ---------------------------------------------------------------
+
+const PAGE_SIZE = 1000;
+
+type Firestore = admin.firestore.Firestore;
+
+async function readAll<T>(
+  ref: admin.firestore.CollectionReference
+): Promise<T[]> {
+  const rows: T[] = [];
+  let last: admin.firestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let page = ref.orderBy(admin.firestore.FieldPath.documentId()).limit(PAGE_SIZE);
+    if (last) page = page.startAfter(last);
+    const snap = await page.get();
+    rows.push(...snap.docs.map((d) => ({ ...d.data(), id: d.id } as T)));
+    if (snap.size < PAGE_SIZE) return rows;
+    last = snap.docs[snap.docs.length - 1];
+  }
+}
+
+// Directory order, then name for sites saved before order was kept
+const byDirectoryOrder = (a: Site, b: Site) =>
+  (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER) ||
+  a.name.localeCompare(b.name);
+
+/**
+ * settings/main with the site directory merged in, as the app sees it.
+ * The migrations never read private settings.
+ */
+async function loadSettings(db: Firestore, companyId: string) {
+  const company = db.collection("companies").doc(companyId);
+  const [main, sites] = await Promise.all([
+    company.collection("settings").doc("main").get(),
+    readAll<Site>(company.collection("sites")),
+  ]);
+
+  const settings = (main.data() ?? {}) as Settings;
+  // The legacy array is used until the collection has been seeded
+  return sites.length || !settings.sites ?
+    { ...settings, sites: sites.sort(byDirectoryOrder) } :
+    settings;
+}
+
+async function loadMigrationData(
+  db: Firestore,
+  companyId: string
+): Promise<MigrationData> {
+  const col = (name: string) =>
+    db.collection("companies").doc(companyId).collection(name);
+
+  const [
+    settings,
+    schedules,
+    entries,
+    invoices,
+    mileageLogs,
+    otherExpenses,
+    employees,
+    payrollPeriods,
+    overridesSnap,
+  ] = await Promise.all([
+    loadSettings(db, companyId),
+    readAll<MigrationData["schedules"][number]>(col("schedules")),
+    readAll<MigrationData["entries"][number]>(col("timeclock_entries")),
+    readAll<MigrationData["invoices"][number]>(col("invoices")),
+    readAll<MigrationData["mileageLogs"][number]>(col("mileage_logs")),
+    readAll<MigrationData["otherExpenses"][number]>(col("other_expenses")),
+    readAll<MigrationData["employees"][number]>(col("employees")),
+    readAll<MigrationData["payrollPeriods"][number]>(col("payroll_periods")),
+    db.collectionGroup("occurrence_overrides")
+      .where("companyId", "==", companyId)
+      .get(),
+  ]);
+
+  return {
+    settings,
+    schedules,
+    entries,
+    invoices,
+    mileageLogs,
+    otherExpenses,
+    employees,
+    payrollPeriods,
+    occurrenceOverrides: overridesSnap.docs.map(
+      (d) => ({ ...d.data(), id: d.id } as MigrationData["occurrenceOverrides"][number])
+    ),
+  };
+}
+
+// Drops undefined values, which Firestore rejects
+const clean = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Writes settings changes the way the app's settings writer does: the
+ * site directory to the sites collection, the rest to settings/main.
+ */
+async function writeSettings(
+  db: Firestore,
+  companyId: string,
+  changes: Partial<Settings>
+) {
+  const company = db.collection("companies").doc(companyId);
+  const { sites, ...rest } = changes;
+
+  if (Object.keys(rest).length) {
+    await company.collection("settings").doc("main").set(clean(rest), { merge: true });
+  }
+  if (!sites) return;
+
+  const stored = await company.collection("sites").listDocuments();
+  const keep = new Set<string>();
+  const writer = db.bulkWriter();
+
+  sites.forEach((site, order) => {
+    if (!site.id) return;
+    keep.add(site.id);
+    // Alarm codes belong in private/settings, never in the directory
+    const publicSite: Partial<Site> = { ...site, order };
+    delete publicSite.alarmCode;
+    writer.set(company.collection("sites").doc(site.id), clean(publicSite));
+  });
+  stored.filter((ref) => !keep.has(ref.id)).forEach((ref) => writer.delete(ref));
+
+  await writer.close();
+}
+
+function writeOp(
+  batch: admin.firestore.WriteBatch,
+  db: Firestore,
+  companyId: string,
+  op: Exclude<MigrationOp, { type: "settings" }>
+) {
+  const ref = db.doc(`companies/${companyId}/${op.path}`);
+
+  switch (op.type) {
+  case "set":
+    batch.set(ref, clean(op.data));
+    return;
+  case "update":
+    batch.update(ref, {
+      ...clean(op.changes),
+      ...Object.fromEntries(
+        (op.removes ?? []).map((key) => [key, admin.firestore.FieldValue.delete()])
+      ),
+    });
+    return;
+  case "delete":
+    batch.delete(ref);
+    return;
+  }
+}
+
+/**
+ * Writes one planned migration, settings first, then records its
+ * version. Throws on the first failed write; planning again resumes.
+ */
+async function commitMigration(
+  db: Firestore,
+  companyId: string,
+  planned: PlannedMigration
+) {
+  const { migration, changes } = planned;
+  const company = db.collection("companies").doc(companyId);
+  const total = changes.length;
+  let committed = 0;
+
+  const settingsChanges: Partial<Settings> = {};
+  changes.forEach((change) =>
+    change.ops.forEach((op) => {
+      if (op.type === "settings") Object.assign(settingsChanges, op.changes);
+    })
+  );
+  if (Object.keys(settingsChanges).length) {
+    await writeSettings(db, companyId, settingsChanges);
+  }
+
+  for (const group of migrationBatches(changes)) {
+    const batch = db.batch();
+    group.forEach((change) =>
+      change.ops.forEach((op) => {
+        if (op.type !== "settings") writeOp(batch, db, companyId, op);
+      })
+    );
+
+    committed += group.length;
+    batch.set(
+      company,
+      {
+        migration: {
+          version: migration.version,
+          committed,
+          total,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      },
+      { merge: true }
+    );
+    await batch.commit();
+    console.log(`  ${committed}/${total} changes written`);
+  }
+
+  await company.set(
+    {
+      schemaVersion: migration.version,
+      migration: admin.firestore.FieldValue.delete(),
+    },
+    { merge: true }
+  );
+}
+
+function printPlan(planned: PlannedMigration[]) {
+  for (const { migration, changes, warnings } of planned) {
+    console.log(`\n${migration.version}. ${migration.title} (${changes.length} changes)`);
+    for (const change of changes) {
+      console.log(`  ${change.label}`);
+      change.ops.flatMap(describeMigrationOp).forEach((line) => console.log(`    ${line}`));
+    }
+    warnings?.forEach((warning) => console.log(`  ! ${warning}`));
+  }
+}
+
+async function main(argv: string[]) {
+  const companyId = argv.find((arg) => !arg.startsWith("--"));
+  const dryRun = argv.includes("--dry-run");
+  const autoOnly = argv.includes("--auto-only");
+
+  if (!companyId) {
+    console.error("Usage: migrate-company <companyId> [--dry-run] [--auto-only]");
+    process.exitCode = 2;
+    return;
+  }
+
+  admin.initializeApp();
+  const db = admin.firestore();
+
+  const [companySnap, mainSnap] = await Promise.all([
+    db.collection("companies").doc(companyId).get(),
+    db.doc(`companies/${companyId}/settings/main`).get(),
+  ]);
+  if (!companySnap.exists && !mainSnap.exists) {
+    throw new Error(`No company ${companyId}`);
+  }
+
+  const schemaVersion = schemaVersionOf(companySnap.data(), mainSnap.data()?.meta);
+  const planned = planMigrations(
+    await loadMigrationData(db, companyId),
+    schemaVersion,
+    { companyId },
+    { autoOnly }
+  );
+
+  console.log(`Company ${companyId} is at schema version ${schemaVersion}.`);
+  if (!planned.length) {
+    console.log("Nothing to migrate.");
+    return;
+  }
+  printPlan(planned);
+  if (dryRun) return;
+
+  for (const p of planned) {
+    console.log(`\nApplying ${p.migration.version}. ${p.migration.title}`);
+    await commitMigration(db, companyId, p);
+  }
+  console.log(`\nCompany ${companyId} is at schema version ${planned[planned.length - 1].migration.version}.`);
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
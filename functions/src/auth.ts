@@ -0,0 +1,349 @@
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+
+type MemberRole = "owner" | "manager" | "employee";
+
+type SignInWithPinData = {
+  companyId?: string;
+  employeeId?: string;
+  pin?: string;
+};
+
+type SetMemberRoleData = {
+  companyId?: string;
+  uid?: string;
+  role?: MemberRole | null;
+  employeeId?: string | null;
+};
+
+const ROLES: MemberRole[] = ["owner", "manager", "employee"];
+
+const companyRef = (companyId: string) =>
+  admin.firestore().collection("companies").doc(companyId);
+
+async function writeMember(
+  companyId: string,
+  uid: string,
+  role: MemberRole,
+  employeeId: string | null
+) {
+  await admin.auth().setCustomUserClaims(uid, {
+    companyId,
+    role,
+    employeeId,
+  });
+
+  await companyRef(companyId).collection("members").doc(uid).set(
+    {
+      uid,
+      role,
+      employeeId,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
+
+// ---------------------------------------------------------------
+// PIN attempt limits
+//
+// Failed PINs are counted per PIN (each employee's, and the manager
+// PIN) and per company in companies/{companyId}/pin_attempts/{key},
+// which clients cannot read or write. Past the free attempts every
+// further failure locks that counter for twice as long as the last,
+// up to an hour. A PIN's counter clears when it is entered correctly;
+// all counters clear after a day without failures.
+// ---------------------------------------------------------------
+
+type PinAttempts = {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+};
+
+const FREE_PIN_FAILURES = 5;
+const FREE_COMPANY_FAILURES = 20;
+const PIN_LOCK_BASE_MS = 30 * 1000;
+const PIN_LOCK_MAX_MS = 60 * 60 * 1000;
+const PIN_FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const pinAttemptsRef = (companyId: string, key: string) =>
+  companyRef(companyId).collection("pin_attempts").doc(key);
+
+const pinKey = (employeeId?: string) =>
+  employeeId ? `employee_${employeeId}` : "manager";
+
+function lockMs(failures: number, free: number) {
+  if (failures < free) return 0;
+  return Math.min(PIN_LOCK_MAX_MS, PIN_LOCK_BASE_MS * 2 ** (failures - free));
+}
+
+async function assertPinNotLocked(companyId: string, employeeId?: string) {
+  const snaps = await Promise.all([
+    pinAttemptsRef(companyId, pinKey(employeeId)).get(),
+    pinAttemptsRef(companyId, "company").get(),
+  ]);
+
+  const lockedUntil = Math.max(
+    ...snaps.map((snap) => (snap.data() as PinAttempts | undefined)?.lockedUntil ?? 0)
+  );
+  const waitMs = lockedUntil - Date.now();
+  if (waitMs > 0) {
+    const minutes = Math.ceil(waitMs / 60000);
+    throw new HttpsError(
+      "resource-exhausted",
+      `Too many incorrect PINs. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`
+    );
+  }
+}
+
+async function recordPinFailure(companyId: string, employeeId?: string) {
+  const counters = [
+    { ref: pinAttemptsRef(companyId, pinKey(employeeId)), free: FREE_PIN_FAILURES },
+    { ref: pinAttemptsRef(companyId, "company"), free: FREE_COMPANY_FAILURES },
+  ];
+
+  await admin.firestore().runTransaction(async (tx) => {
+    const snaps = await Promise.all(counters.map(({ ref }) => tx.get(ref)));
+    const now = Date.now();
+
+    counters.forEach(({ ref, free }, i) => {
+      const prev = snaps[i].data() as PinAttempts | undefined;
+      const stale = !prev || now - prev.lastFailureAt > PIN_FAILURE_WINDOW_MS;
+      const failures = (stale ? 0 : prev.failures) + 1;
+      const next: PinAttempts = {
+        failures,
+        lastFailureAt: now,
+        lockedUntil: now + lockMs(failures, free),
+      };
+      tx.set(ref, next);
+    });
+  });
+}
+
+const clearPinFailures = (companyId: string, employeeId?: string) =>
+  pinAttemptsRef(companyId, pinKey(employeeId)).delete();
+
+/**
+ * Exchanges a PIN for a company role.
+ *
+ * - With employeeId: checks the employee PIN and grants "employee".
+ *   Owners and managers keep their role only for their own employee
+ *   record (members/{uid}.linkedEmployeeId, set with setMemberRole), so
+ *   a shared device a manager once used never passes it on.
+ * - Without employeeId: checks the manager PIN and grants "manager",
+ *   or "owner" to the company's ownerUid. ownerUid on companies/{id} is
+ *   set with admin access (console or Admin SDK) when the company is
+ *   provisioned; owners then grant roles with setMemberRole.
+ *
+ * PINs are read from the private docs, falling back to the legacy fields
+ * on employees/{id} and settings/main until they have been scrubbed.
+ * Repeated failures lock the PIN, and then the company, for a while.
+ */
+export const signInWithPin = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in first.");
+  }
+
+  const { companyId, employeeId, pin } =
+    (request.data ?? {}) as SignInWithPinData;
+
+  if (!companyId || !pin) {
+    throw new HttpsError(
+      "invalid-argument",
+      "companyId and pin are required."
+    );
+  }
+
+  const company = companyRef(companyId);
+  await assertPinNotLocked(companyId, employeeId);
+
+  if (employeeId) {
+    const [employeeSnap, privateSnap] = await Promise.all([
+      company.collection("employees").doc(employeeId).get(),
+      company.collection("employee_private").doc(employeeId).get(),
+    ]);
+
+    if (!employeeSnap.exists) {
+      throw new HttpsError("not-found", "Employee not found.");
+    }
+
+    const employee = employeeSnap.data() ?? {};
+    if ((employee.status || "active") === "inactive") {
+      throw new HttpsError("permission-denied", "Employee is inactive.");
+    }
+
+    const expected = String(
+      privateSnap.data()?.pin ?? employee.pin ?? ""
+    );
+
+    if (!expected || expected !== String(pin)) {
+      await recordPinFailure(companyId, employeeId);
+      throw new HttpsError("permission-denied", "Incorrect PIN.");
+    }
+    await clearPinFailures(companyId, employeeId);
+
+    // Managers clocking in as themselves keep their manager role.
+    const current = await company.collection("members").doc(uid).get();
+    const currentRole = current.data()?.role as MemberRole | undefined;
+    const ownRecord = current.data()?.linkedEmployeeId === employeeId;
+    const role: MemberRole =
+      ownRecord && (currentRole === "owner" || currentRole === "manager") ?
+        currentRole :
+        "employee";
+
+    await writeMember(companyId, uid, role, employeeId);
+    return { role, employeeId };
+  }
+
+  const [privateSettings, mainSettings] = await Promise.all([
+    company.collection("private").doc("settings").get(),
+    company.collection("settings").doc("main").get(),
+  ]);
+
+  const expected = String(
+    privateSettings.data()?.managerPIN ??
+      mainSettings.data()?.managerPIN ??
+      ""
+  );
+
+  if (!expected || expected !== String(pin)) {
+    await recordPinFailure(companyId);
+    throw new HttpsError("permission-denied", "Incorrect PIN.");
+  }
+  await clearPinFailures(companyId);
+
+  const [companySnap, current] = await Promise.all([
+    company.get(),
+    company.collection("members").doc(uid).get(),
+  ]);
+  const role: MemberRole =
+    companySnap.data()?.ownerUid === uid || current.data()?.role === "owner" ?
+      "owner" :
+      "manager";
+
+  const linkedEmployeeId = current.data()?.linkedEmployeeId ?? null;
+  await writeMember(companyId, uid, role, linkedEmployeeId);
+  return { role, employeeId: linkedEmployeeId };
+});
+
+/**
+ * Owner-only: grant, change or revoke a user's role in the company.
+ * For owners and managers, employeeId is their own employee record.
+ */
+export const setMemberRole = onCall(async (request) => {
+  const { companyId, uid, role, employeeId } =
+    (request.data ?? {}) as SetMemberRoleData;
+
+  if (!companyId || !uid) {
+    throw new HttpsError("invalid-argument", "companyId and uid are required.");
+  }
+
+  const token = request.auth?.token;
+  if (token?.companyId !== companyId || token?.role !== "owner") {
+    throw new HttpsError("permission-denied", "Only owners can change roles.");
+  }
+
+  if (!role) {
+    await admin.auth().setCustomUserClaims(uid, null);
+    await companyRef(companyId).collection("members").doc(uid).delete();
+    return { uid, role: null };
+  }
+
+  if (!ROLES.includes(role)) {
+    throw new HttpsError("invalid-argument", `Unknown role: ${role}`);
+  }
+
+  if (role === "employee" && !employeeId) {
+    throw new HttpsError(
+      "invalid-argument",
+      "employeeId is required for employees."
+    );
+  }
+
+  await writeMember(companyId, uid, role, employeeId ?? null);
+  // An owner's or manager's own employee record, if they have one
+  await companyRef(companyId).collection("members").doc(uid).set(
+    { linkedEmployeeId: role === "employee" ? null : employeeId ?? null },
+    { merge: true }
+  );
+  return { uid, role };
+});
+
+/**
+ * Moves pin and bankInfo off the employee directory doc, which every
+ * signed-in user can read, into employee_private/{employeeId}.
+ */
+export const scrubEmployeePrivateFields = onDocumentWritten(
+  "companies/{companyId}/employees/{employeeId}",
+  async (event) => {
+    const after = event.data?.after;
+    const data = after?.data();
+    if (!after?.exists || !data) return;
+
+    const hasPin = data.pin !== undefined;
+    const hasBankInfo = data.bankInfo !== undefined;
+    if (!hasPin && !hasBankInfo) return;
+
+    const { companyId, employeeId } = event.params;
+    const moved: Record<string, unknown> = {};
+    if (hasPin) moved.pin = data.pin;
+    if (hasBankInfo) moved.bankInfo = data.bankInfo;
+
+    await companyRef(companyId)
+      .collection("employee_private")
+      .doc(employeeId)
+      .set(moved, { merge: true });
+
+    await after.ref.update({
+      pin: admin.firestore.FieldValue.delete(),
+      bankInfo: admin.firestore.FieldValue.delete(),
+    });
+  }
+);
+
+/**
+ * Moves managerPIN and site alarm codes off settings/main into
+ * private/settings (manager-only).
+ */
+export const scrubSettingsPrivateFields = onDocumentWritten(
+  "companies/{companyId}/settings/main",
+  async (event) => {
+    const after = event.data?.after;
+    const data = after?.data();
+    if (!after?.exists || !data) return;
+
+    const sites = Array.isArray(data.sites) ? data.sites : [];
+    const alarmCodes: Record<string, string> = {};
+
+    for (const site of sites) {
+      if (site && site.alarmCode) {
+        alarmCodes[String(site.id || site.name)] = String(site.alarmCode);
+      }
+    }
+
+    const hasManagerPin = data.managerPIN !== undefined;
+    const hasAlarmCodes = Object.keys(alarmCodes).length > 0;
+    if (!hasManagerPin && !hasAlarmCodes) return;
+
+    const moved: Record<string, unknown> = {};
+    if (hasManagerPin) moved.managerPIN = data.managerPIN;
+    if (hasAlarmCodes) moved.siteAlarmCodes = alarmCodes;
+
+    await companyRef(event.params.companyId)
+      .collection("private")
+      .doc("settings")
+      .set(moved, { merge: true });
+
+    await after.ref.update({
+      managerPIN: admin.firestore.FieldValue.delete(),
+      sites: sites.map((site: Record<string, unknown>) => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { alarmCode, ...rest } = site ?? {};
+        return rest;
+      }),
+    });
+  }
+);
@@ -0,0 +1,359 @@
+import * as admin from "firebase-admin";
+import { randomBytes } from "crypto";
+import { onCall, onRequest, HttpsError } from "firebase-functions/v2/https";
+import { type RecurringSchedule } from "./recurrence";
+import { loadOccurrenceOverrides, occurrencesBetween } from "./occurrence-overrides";
+import { findSite, loadSites, scheduleSiteRefs } from "./sites";
+
+// ---------------------------------------------------------------
+// Calendar feeds
+//
+// Subscribable iCalendar feeds of schedule occurrences, one per
+// employee or site. A feed lives at
+// companies/{companyId}/calendar_feeds/{token}; the random doc id is
+// the secret in the URL, so revoking a feed is deleting its doc.
+//
+//   GET /calendarFeed/{companyId}/{token}.ics
+//
+// Events are all-day (schedules have no start time) and carry the site
+// address, entrance method and tasks. Alarm codes are never included.
+// ---------------------------------------------------------------
+
+const PAST_DAYS = 30;
+const FUTURE_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FeedKind = "employee" | "site";
+
+type FeedDoc = {
+  kind: FeedKind;
+  targetId: string;
+  label: string;
+};
+
+type CreateFeedData = {
+  companyId?: string;
+  kind?: FeedKind;
+  targetId?: string;
+};
+
+type SiteDoc = {
+  id?: string;
+  name: string;
+  address?: string;
+  entranceMethod?: string;
+};
+
+type ScheduleDoc = RecurringSchedule & {
+  id: string;
+  siteId?: string;
+  siteIds?: string[];
+  siteName: string;
+  siteNames?: string[];
+  siteGroupName?: string;
+  tasks?: string;
+  note?: string;
+  assignedTo?: string[];
+  assignedEmployeeIds?: string[];
+  assignedTeamId?: string;
+  finishByTime?: string;
+  startTime?: string;
+  windowStart?: string;
+  windowEnd?: string;
+};
+
+type EmployeeDoc = {
+  name?: string;
+  teamId?: string;
+};
+
+const companyRef = (companyId: string) =>
+  admin.firestore().collection("companies").doc(companyId);
+
+const formatDay = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+// ---------------------------------------------------------------
+// Feed management
+// ---------------------------------------------------------------
+
+/**
+ * Returns the feed token for an employee or site, creating it on first
+ * use. Managers can create feeds for anyone; employees only for
+ * themselves.
+ */
+export const createCalendarFeed = onCall(async (request) => {
+  const { companyId, kind, targetId } = (request.data ?? {}) as CreateFeedData;
+  if (!companyId || !targetId || (kind !== "employee" && kind !== "site")) {
+    throw new HttpsError(
+      "invalid-argument",
+      "companyId, kind and targetId are required."
+    );
+  }
+
+  const uid = request.auth?.uid;
+  if (!uid) throw new HttpsError("unauthenticated", "Sign in first.");
+
+  const company = companyRef(companyId);
+  const token = request.auth?.token;
+  const member = token?.companyId === companyId ?
+    { role: token.role, employeeId: token.employeeId } :
+    (await company.collection("members").doc(uid).get()).data();
+
+  const isManager = member?.role === "owner" || member?.role === "manager";
+  const isSelf = kind === "employee" && member?.employeeId === targetId;
+  if (!isManager && !isSelf) {
+    throw new HttpsError(
+      "permission-denied",
+      "You can only create your own calendar feed."
+    );
+  }
+
+  const feeds = company.collection("calendar_feeds");
+  const existing = await feeds
+    .where("kind", "==", kind)
+    .where("targetId", "==", targetId)
+    .limit(1)
+    .get();
+  if (!existing.empty) return { id: existing.docs[0].id };
+
+  let label = targetId;
+  if (kind === "employee") {
+    const employee = await company.collection("employees").doc(targetId).get();
+    if (!employee.exists) throw new HttpsError("not-found", "Employee not found.");
+    label = String(employee.data()?.name || targetId);
+  } else {
+    const site = (await loadSites<SiteDoc>(companyId)).find((s) => s.id === targetId);
+    if (!site) throw new HttpsError("not-found", "Site not found.");
+    label = site.name;
+  }
+
+  const id = randomBytes(24).toString("hex");
+  await feeds.doc(id).set({
+    kind,
+    targetId,
+    label,
+    createdBy: uid,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return { id };
+});
+
+// ---------------------------------------------------------------
+// iCalendar output
+// ---------------------------------------------------------------
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Folds a content line to 75 octets as RFC 5545 requires.
+ */
+function foldLine(line: string) {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const chSize = Buffer.byteLength(ch, "utf8");
+    const limit = parts.length ? 74 : 75; // continuation lines start with a space
+    if (size + chSize > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += chSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const icsDate = (day: string) => day.replace(/-/g, "");
+
+const icsTimestamp = (ms: number) =>
+  new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+function nextDay(day: string) {
+  return formatDay(Date.parse(`${day}T00:00:00Z`) + DAY_MS);
+}
+
+type FeedEvent = {
+  uid: string;
+  day: string;
+  summary: string;
+  location?: string;
+  description: string;
+};
+
+function renderCalendar(name: string, events: FeedEvent[], now: number) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ManageWise//Schedule Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${icsTimestamp(now)}`,
+      `DTSTART;VALUE=DATE:${icsDate(event.day)}`,
+      `DTEND;VALUE=DATE:${icsDate(nextDay(event.day))}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    lines.push(
+      `DESCRIPTION:${escapeText(event.description)}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// ---------------------------------------------------------------
+// Feed contents
+// ---------------------------------------------------------------
+
+function isAssigned(schedule: ScheduleDoc, employeeId: string, employee: EmployeeDoc) {
+  if (schedule.assignedEmployeeIds?.length) {
+    if (schedule.assignedEmployeeIds.includes(employeeId)) return true;
+  } else if (employee.name && schedule.assignedTo?.includes(employee.name)) {
+    return true;
+  }
+  return (
+    !!schedule.assignedTeamId &&
+    !!employee.teamId &&
+    schedule.assignedTeamId === employee.teamId
+  );
+}
+
+function describeVisit(schedule: ScheduleDoc, site: SiteDoc | undefined) {
+  return [
+    site?.address ? `Address: ${site.address}` : "",
+    site?.entranceMethod ? `Entrance: ${site.entranceMethod}` : "",
+    schedule.startTime ? `Start at: ${schedule.startTime}` : "",
+    schedule.windowStart ? `Not before: ${schedule.windowStart}` : "",
+    schedule.windowEnd ? `Done by: ${schedule.windowEnd}` : "",
+    schedule.finishByTime ? `Finish by: ${schedule.finishByTime}` : "",
+    schedule.tasks ? `Tasks:\n${schedule.tasks}` : "",
+    schedule.note ? `Note: ${schedule.note}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Serves a feed. Unknown and revoked tokens get a 404 so the two cannot
+ * be told apart.
+ */
+export const calendarFeed = onRequest(async (req, res) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    res.status(405).send("Method not allowed");
+    return;
+  }
+
+  const [companyId, file] = req.path.split("/").filter(Boolean);
+  const token = (file ?? "").replace(/\.ics$/i, "");
+  if (!companyId || !/^[a-f0-9]{48}$/.test(token)) {
+    res.status(404).send("Not found");
+    return;
+  }
+
+  const company = companyRef(companyId);
+  const feedRef = company.collection("calendar_feeds").doc(token);
+  const feedSnap = await feedRef.get();
+  if (!feedSnap.exists) {
+    res.status(404).send("Not found");
+    return;
+  }
+  const feed = feedSnap.data() as FeedDoc;
+
+  const [settingsSnap, schedulesSnap, overridesBySchedule, employeeSnap] = await Promise.all([
+    company.collection("settings").doc("main").get(),
+    company.collection("schedules").get(),
+    loadOccurrenceOverrides(companyId),
+    feed.kind === "employee" ?
+      company.collection("employees").doc(feed.targetId).get() :
+      Promise.resolve(null),
+  ]);
+
+  const settings = settingsSnap.data() ?? {};
+  const weekStartsOn = Number(settings.weekStartsOn ?? 0);
+  const sites = await loadSites<SiteDoc>(companyId, settings);
+  const employee = (employeeSnap?.data() ?? {}) as EmployeeDoc;
+
+  const now = Date.now();
+  const from = formatDay(now - PAST_DAYS * DAY_MS);
+  const to = formatDay(now + FUTURE_DAYS * DAY_MS);
+
+  const events: FeedEvent[] = [];
+  for (const doc of schedulesSnap.docs) {
+    const schedule = { ...doc.data(), id: doc.id } as ScheduleDoc;
+    if (!schedule.startDate) continue;
+
+    const occurrences = occurrencesBetween(
+      schedule,
+      overridesBySchedule.get(schedule.id) ?? [],
+      from,
+      to,
+      weekStartsOn
+    );
+
+    // Assignment and sites are checked per day, as worked that day
+    for (const { schedule: visit, day, cancelled } of occurrences) {
+      if (cancelled) continue;
+
+      if (feed.kind === "employee" && !isAssigned(visit, feed.targetId, employee)) continue;
+
+      for (const ref of scheduleSiteRefs(visit)) {
+        const site = findSite(sites, ref.siteId, ref.name);
+        if (feed.kind === "site" && site?.id !== feed.targetId) continue;
+
+        const siteName = site?.name ?? ref.name;
+        events.push({
+          uid: `${schedule.id}-${day}-${site?.id ?? siteName}@managewise`
+            .replace(/\s+/g, "-"),
+          day,
+          summary: feed.kind === "employee" ?
+            siteName :
+            `Cleaning: ${siteName}`,
+          location: site?.address,
+          description: describeVisit(visit, site),
+        });
+      }
+    }
+  }
+
+  events.sort((a, b) => a.day.localeCompare(b.day));
+
+  const calendarName = [settings.companyName, feed.label]
+    .filter(Boolean)
+    .join(" – ");
+
+  await feedRef.update({ lastAccessedAt: now }).catch((e) => {
+    console.warn("[calendar-feed] could not record access", e);
+  });
+
+  res.set("Content-Type", "text/calendar; charset=utf-8");
+  res.set("Cache-Control", "private, max-age=900");
+  res.set(
+    "Content-Disposition",
+    `inline; filename="${feed.kind}-schedule.ics"`
+  );
+  res.status(200).send(renderCalendar(calendarName, events, now));
+});
@@ -0,0 +1,301 @@
+import * as admin from "firebase-admin";
+import { onCall, HttpsError, type CallableRequest } from "firebase-functions/v2/https";
+import { loadOccurrenceOverrides, occurrencesBetween } from "./occurrence-overrides";
+import { findSite, loadSites, scheduleSiteRefs } from "./sites";
+
+// ---------------------------------------------------------------
+// Client portal
+//
+// Site contacts sign in with an email link (Firebase Auth). They get
+// no company role or Firestore access; everything they can see is
+// assembled here from the sites whose contact or billing email matches
+// their verified address, and trimmed to client-safe fields.
+// ---------------------------------------------------------------
+
+const UPCOMING_DAYS = 30;
+const HISTORY_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DayOfWeek =
+  | "Sunday"
+  | "Monday"
+  | "Tuesday"
+  | "Wednesday"
+  | "Thursday"
+  | "Friday"
+  | "Saturday";
+
+type SiteDoc = {
+  id: string;
+  name: string;
+  status?: "active" | "inactive";
+  address?: string;
+  contactEmail?: string;
+  billingContactEmail?: string;
+};
+
+type ScheduleDoc = {
+  id: string;
+  siteId?: string;
+  siteIds?: string[];
+  siteName: string;
+  siteNames?: string[];
+  startDate: string;
+  repeatFrequency: string;
+  daysOfWeek?: DayOfWeek[];
+  repeatUntil?: string;
+  exceptionDates?: string[];
+  rrule?: string;
+  rdates?: string[];
+};
+
+type PortalRequestData = { companyId?: string };
+
+type ClientFeedbackData = {
+  companyId?: string;
+  siteId?: string;
+  type?: "complaint" | "compliment";
+  category?: string;
+  notes?: string;
+  scheduleDate?: string;
+};
+
+const companyRef = (companyId: string) =>
+  admin.firestore().collection("companies").doc(companyId);
+
+const normalizeEmail = (email?: string | null) =>
+  (email ?? "").trim().toLowerCase();
+
+// Date-only helpers. Schedules store "YYYY-MM-DD" and are compared as
+// calendar days, so UTC keeps the arithmetic free of DST shifts.
+const parseDay = (day: string) => Date.parse(`${day}T00:00:00Z`);
+const formatDay = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+// Docs from several queries, each once
+const uniqueDocs = (snaps: admin.firestore.QuerySnapshot[]) => [
+  ...new Map(snaps.flatMap((snap) => snap.docs).map((d) => [d.id, d])).values(),
+];
+
+function requireClientEmail(request: CallableRequest<unknown>) {
+  const token = request.auth?.token;
+  const email = normalizeEmail(token?.email);
+
+  if (!request.auth || !email || token?.email_verified !== true) {
+    throw new HttpsError(
+      "unauthenticated",
+      "Open the sign-in link sent to your email."
+    );
+  }
+  return email;
+}
+
+async function loadClientSites(companyId: string, email: string) {
+  const settingsSnap = await companyRef(companyId)
+    .collection("settings")
+    .doc("main")
+    .get();
+
+  const settings = settingsSnap.data() ?? {};
+  const sites = (await loadSites<SiteDoc>(companyId, settings)).filter(
+    (site) =>
+      site.status !== "inactive" &&
+      (normalizeEmail(site.contactEmail) === email ||
+        normalizeEmail(site.billingContactEmail) === email)
+  );
+
+  if (!sites.length) {
+    throw new HttpsError(
+      "permission-denied",
+      "This email is not a contact for any site."
+    );
+  }
+
+  return {
+    companyName: (settings.companyName as string | undefined) ?? "",
+    weekStartsOn: Number(settings.weekStartsOn ?? 0),
+    sites,
+  };
+}
+
+/**
+ * Everything a site contact can see: upcoming visits, completed visits
+ * with arrival/departure times, and invoices with payment status.
+ * Employee locations, notes and pay data are never returned.
+ */
+export const getClientPortal = onCall(async (request) => {
+  const email = requireClientEmail(request);
+  const { companyId } = (request.data ?? {}) as PortalRequestData;
+  if (!companyId) {
+    throw new HttpsError("invalid-argument", "companyId is required.");
+  }
+
+  const company = companyRef(companyId);
+  const { companyName, weekStartsOn, sites } = await loadClientSites(
+    companyId,
+    email
+  );
+  const siteIds = sites.map((s) => s.id).slice(0, 30);
+  const siteNames = sites.map((s) => s.name).slice(0, 30);
+
+  const todayMs = parseDay(formatDay(Date.now()));
+  const historyStartMs = todayMs - HISTORY_DAYS * DAY_MS;
+
+  // Records are matched by siteId; older ones only carry the site name
+  const entriesSince = (field: "siteId" | "site", values: string[]) =>
+    company
+      .collection("timeclock_entries")
+      .where(field, "in", values)
+      .where("ts", ">=", historyStartMs)
+      .get();
+  const invoicesFor = (field: "siteId" | "siteName", values: string[]) =>
+    company.collection("invoices").where(field, "in", values).get();
+
+  const [schedulesSnap, overridesBySchedule, entryDocs, invoiceDocs] = await Promise.all([
+    company.collection("schedules").get(),
+    loadOccurrenceOverrides(companyId),
+    Promise.all([entriesSince("siteId", siteIds), entriesSince("site", siteNames)]).then(
+      uniqueDocs
+    ),
+    Promise.all([invoicesFor("siteId", siteIds), invoicesFor("siteName", siteNames)]).then(
+      uniqueDocs
+    ),
+  ]);
+
+  // Upcoming visits
+  const schedules = schedulesSnap.docs.map(
+    (d) => ({ id: d.id, ...d.data() } as ScheduleDoc)
+  );
+  const upcoming: { scheduleId: string; scheduleDate: string; siteName: string }[] = [];
+  const upcomingFrom = formatDay(todayMs);
+  const upcomingTo = formatDay(todayMs + (UPCOMING_DAYS - 1) * DAY_MS);
+
+  // Moved visits show on their new day; cancelled ones are left out
+  for (const schedule of schedules) {
+    const occurrences = occurrencesBetween(
+      schedule,
+      overridesBySchedule.get(schedule.id) ?? [],
+      upcomingFrom,
+      upcomingTo,
+      weekStartsOn
+    );
+
+    for (const { schedule: visit, day, cancelled } of occurrences) {
+      if (cancelled) continue;
+      for (const ref of scheduleSiteRefs(visit)) {
+        const site = findSite(sites, ref.siteId, ref.name);
+        if (!site) continue;
+        upcoming.push({ scheduleId: schedule.id, scheduleDate: day, siteName: site.name });
+      }
+    }
+  }
+  upcoming.sort((a, b) => a.scheduleDate.localeCompare(b.scheduleDate));
+
+  // Completed visits, one row per site and day
+  const visitsByKey = new Map<
+    string,
+    { siteName: string; date: string; arrivedAt: number; departedAt: number | null }
+  >();
+
+  for (const doc of entryDocs) {
+    const entry = doc.data();
+    const site = findSite(sites, entry.siteId, entry.site);
+    if (typeof entry.ts !== "number" || !site) continue;
+    if (entry.autoCloseReview === "pending") continue;
+
+    const date = entry.scheduleDate || formatDay(entry.ts);
+    const key = `${site.id}|${date}`;
+    const visit = visitsByKey.get(key) ?? {
+      siteName: site.name,
+      date,
+      arrivedAt: Number.POSITIVE_INFINITY,
+      departedAt: null,
+    };
+
+    if (entry.action === "in") {
+      visit.arrivedAt = Math.min(visit.arrivedAt, entry.ts);
+    } else if (entry.action === "out") {
+      visit.departedAt = Math.max(visit.departedAt ?? 0, entry.ts);
+    }
+    visitsByKey.set(key, visit);
+  }
+
+  const visits = [...visitsByKey.values()]
+    .filter((v) => Number.isFinite(v.arrivedAt) && v.departedAt !== null)
+    .sort((a, b) => b.arrivedAt - a.arrivedAt);
+
+  // Invoices (drafts and voided invoices are internal)
+  const invoices = invoiceDocs
+    .map((d) => {
+      const inv = d.data();
+      return {
+        id: d.id,
+        siteName: findSite(sites, inv.siteId, inv.siteName)?.name ?? (inv.siteName as string),
+        invoiceNumber: (inv.invoiceNumber as string) ?? "",
+        date: (inv.date as string) ?? "",
+        dueDate: (inv.dueDate as string) ?? "",
+        total: Number(inv.total ?? 0),
+        status: inv.status as string,
+        paidDate: (inv.paidDate as string | null) ?? null,
+        balanceDue:
+          typeof inv.balanceDue === "number" ?
+            inv.balanceDue :
+            inv.status === "paid" ? 0 : Number(inv.total ?? 0),
+      };
+    })
+    .filter((inv) => ["sent", "partially_paid", "paid"].includes(inv.status))
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  return {
+    companyName,
+    email,
+    sites: sites.map((s) => ({ id: s.id, name: s.name, address: s.address ?? "" })),
+    upcoming,
+    visits,
+    invoices,
+  };
+});
+
+/**
+ * Stores client feedback in the same service_feedbacks collection the
+ * managers' Service Report reads.
+ */
+export const submitClientFeedback = onCall(async (request) => {
+  const email = requireClientEmail(request);
+  const { companyId, siteId, type, category, notes, scheduleDate } =
+    (request.data ?? {}) as ClientFeedbackData;
+
+  if (!companyId || !siteId || (type !== "complaint" && type !== "compliment")) {
+    throw new HttpsError(
+      "invalid-argument",
+      "companyId, siteId and a feedback type are required."
+    );
+  }
+
+  const { sites } = await loadClientSites(companyId, email);
+  const site = sites.find((s) => s.id === siteId);
+  if (!site) {
+    throw new HttpsError("permission-denied", "You cannot leave feedback for this site.");
+  }
+
+  const trimmedNotes = (notes ?? "").trim().slice(0, 2000);
+  const day =
+    scheduleDate && /^\d{4}-\d{2}-\d{2}$/.test(scheduleDate) ?
+      scheduleDate :
+      formatDay(Date.now());
+
+  const ref = await companyRef(companyId).collection("service_feedbacks").add({
+    siteId: site.id,
+    siteName: site.name,
+    scheduleId: null,
+    scheduleDate: day,
+    type,
+    category: (category ?? "").trim().slice(0, 100) || "Other",
+    notes: trimmedNotes,
+    resolved: type === "compliment",
+    source: "client",
+    submittedByEmail: email,
+    createdAt: new Date().toISOString(),
+  });
+
+  return { id: ref.id };
+});
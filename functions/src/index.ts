@@ -33,6 +33,21 @@ admin.initializeApp();
 //   response.send("Hello from Firebase!");
 // });
 //export { sendPayrollConfirmationSms } from "./sendPayrollConfirmationSms";
+export {
+  signInWithPin,
+  setMemberRole,
+  scrubEmployeePrivateFields,
+  scrubSettingsPrivateFields,
+} from "./auth";
+export {
+  flagClockEntrySkew,
+  auditEntryChanges,
+  autoCloseMissedClockOuts,
+} from "./timeclock";
+export { getClientPortal, submitClientFeedback } from "./client-portal";
+export { sendInvoiceEmail, sendOverdueInvoiceReminders } from "./invoice-email";
+export { createCalendarFeed, calendarFeed } from "./calendar-feed";
+export { syncPayrollStatements } from "./payroll-statements";
 export const sendManagerNotificationPush = onDocumentCreated(
   "companies/{companyId}/notifications/{notificationId}",
   async (event) => {
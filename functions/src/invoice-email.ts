@@ -0,0 +1,297 @@
+import * as admin from "firebase-admin";
+import { onCall, HttpsError, type CallableRequest } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { getMailTransport } from "./mail";
+import { findSite, loadSites } from "./sites";
+import {
+  invoiceBalanceDue,
+  renderInvoicePdf,
+  type InvoiceDoc,
+} from "./invoice-pdf";
+
+// ---------------------------------------------------------------
+// Invoice email delivery
+//
+// Invoices go to the site's billingContactEmail with the PDF attached.
+// Every send is appended to the invoice's emailLog. Overdue reminders
+// follow settings/main.invoiceReminders and each day offset is sent at
+// most once per invoice (remindersSent).
+// ---------------------------------------------------------------
+
+type ReminderPolicy = {
+  enabled?: boolean;
+  dayOffsets?: number[];
+  timeZone?: string;
+};
+
+type SiteDoc = {
+  id?: string;
+  name: string;
+  address?: string;
+  billingContactName?: string;
+  billingContactEmail?: string;
+};
+
+type EmailKind = "invoice" | "reminder";
+
+const DEFAULT_TIME_ZONE = "America/New_York";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const companyRef = (companyId: string) =>
+  admin.firestore().collection("companies").doc(companyId);
+
+/**
+ * Calendar date (YYYY-MM-DD) of `ts` in the given time zone.
+ */
+function localDay(ts: number, timeZone: string) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(ts));
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS
+  );
+
+async function requireManager(request: CallableRequest<unknown>, companyId: string) {
+  const uid = request.auth?.uid;
+  const token = request.auth?.token;
+  if (!uid) throw new HttpsError("unauthenticated", "Sign in first.");
+
+  if (token?.companyId === companyId) {
+    if (token.role === "owner" || token.role === "manager") return;
+  } else {
+    // Claims not refreshed yet; same fallback the security rules use
+    const member = await companyRef(companyId).collection("members").doc(uid).get();
+    const role = member.data()?.role;
+    if (role === "owner" || role === "manager") return;
+  }
+
+  throw new HttpsError("permission-denied", "Only managers can email invoices.");
+}
+
+function composeEmail(
+  kind: EmailKind,
+  inv: InvoiceDoc,
+  companyName: string,
+  daysPastDue: number
+) {
+  const balance = `$${invoiceBalanceDue(inv).toFixed(2)}`;
+
+  if (kind === "reminder") {
+    return {
+      subject: `Reminder: invoice ${inv.invoiceNumber} is ${daysPastDue} days past due`,
+      text: [
+        "Hello,",
+        "",
+        `This is a reminder that invoice ${inv.invoiceNumber} for ${inv.siteName} ` +
+          `was due on ${inv.dueDate}. The balance due is ${balance}.`,
+        "",
+        "The invoice is attached. If you have already sent payment, please disregard this message.",
+        "",
+        `Thank you,`,
+        companyName,
+      ].join("\n"),
+    };
+  }
+
+  return {
+    subject: `Invoice ${inv.invoiceNumber} from ${companyName}`,
+    text: [
+      "Hello,",
+      "",
+      `Please find attached invoice ${inv.invoiceNumber} for ${inv.siteName}.`,
+      `Amount due: ${balance}, due by ${inv.dueDate}.`,
+      "",
+      "Thank you for your business,",
+      companyName,
+    ].join("\n"),
+  };
+}
+
+/**
+ * Renders, emails and records one invoice. Returns the address used.
+ */
+async function deliverInvoice(args: {
+  companyId: string;
+  invoiceId: string;
+  kind: EmailKind;
+  today: string;
+  reminderOffset?: number;
+  sentBy?: string;
+}) {
+  const { companyId, invoiceId, kind, today, reminderOffset, sentBy } = args;
+  const company = companyRef(companyId);
+  const invoiceRef = company.collection("invoices").doc(invoiceId);
+
+  const [invoiceSnap, settingsSnap] = await Promise.all([
+    invoiceRef.get(),
+    company.collection("settings").doc("main").get(),
+  ]);
+  if (!invoiceSnap.exists) {
+    throw new HttpsError("not-found", "Invoice not found.");
+  }
+
+  const inv = { ...invoiceSnap.data(), id: invoiceSnap.id } as InvoiceDoc;
+  if (inv.status === "void") {
+    throw new HttpsError("failed-precondition", "Void invoices cannot be sent.");
+  }
+
+  const settings = settingsSnap.data() ?? {};
+  const companyName = String(settings.companyName || "ManageWise");
+  const site = findSite(await loadSites<SiteDoc>(companyId, settings), inv.siteId, inv.siteName);
+  const to = site?.billingContactEmail?.trim();
+  if (!to) {
+    throw new HttpsError(
+      "failed-precondition",
+      `${inv.siteName} has no billing contact email.`
+    );
+  }
+
+  const pdf = await renderInvoicePdf(inv, {
+    companyName,
+    billToName: site?.billingContactName || inv.siteName,
+    billToAddress: site?.address,
+    billToEmail: to,
+  });
+
+  const { subject, text } = composeEmail(
+    kind,
+    inv,
+    companyName,
+    daysBetween(inv.dueDate, today)
+  );
+
+  const { messageId } = await getMailTransport().send({
+    to,
+    subject,
+    text,
+    attachments: [
+      {
+        filename: `invoice-${inv.invoiceNumber}.pdf`,
+        content: pdf,
+        contentType: "application/pdf",
+      },
+    ],
+  });
+
+  const sentAt = new Date().toISOString();
+  const record: Record<string, unknown> = { kind, to, sentAt, messageId };
+  if (reminderOffset !== undefined) record.reminderOffset = reminderOffset;
+  if (sentBy) record.sentBy = sentBy;
+
+  const update: Record<string, unknown> = {
+    emailLog: admin.firestore.FieldValue.arrayUnion(record),
+    lastEmailedAt: sentAt,
+  };
+  if (inv.status === "draft") update.status = "sent";
+  if (reminderOffset !== undefined) {
+    update.remindersSent = admin.firestore.FieldValue.arrayUnion(reminderOffset);
+  }
+  await invoiceRef.update(update);
+
+  return to;
+}
+
+/**
+ * Manager action: email an invoice to the site's billing contact now.
+ * A draft becomes "sent".
+ */
+export const sendInvoiceEmail = onCall(async (request) => {
+  const { companyId, invoiceId } = (request.data ?? {}) as {
+    companyId?: string;
+    invoiceId?: string;
+  };
+  if (!companyId || !invoiceId) {
+    throw new HttpsError("invalid-argument", "companyId and invoiceId are required.");
+  }
+
+  await requireManager(request, companyId);
+
+  const to = await deliverInvoice({
+    companyId,
+    invoiceId,
+    kind: "invoice",
+    today: localDay(Date.now(), DEFAULT_TIME_ZONE),
+    sentBy: request.auth?.uid,
+  });
+  return { to };
+});
+
+/**
+ * The reminder owed today, if any: the largest offset already reached
+ * that is later than every reminder sent so far. Missed offsets are
+ * skipped rather than sent in a burst.
+ */
+function dueReminderOffset(daysPastDue: number, offsets: number[], sent: number[]) {
+  const lastSent = sent.length ? Math.max(...sent) : -Infinity;
+  const reached = offsets.filter((d) => d <= daysPastDue && d > lastSent);
+  return reached.length ? Math.max(...reached) : null;
+}
+
+async function remindCompany(companyId: string, now: number) {
+  const company = companyRef(companyId);
+  const settings = (await company.collection("settings").doc("main").get()).data();
+  const policy = settings?.invoiceReminders as ReminderPolicy | undefined;
+  const offsets = (policy?.dayOffsets ?? []).filter((d) => Number.isFinite(d) && d > 0);
+  if (!policy?.enabled || !offsets.length) return 0;
+
+  const today = localDay(now, policy.timeZone || DEFAULT_TIME_ZONE);
+  const open = await company
+    .collection("invoices")
+    .where("status", "in", ["sent", "partially_paid"])
+    .get();
+
+  let sent = 0;
+  for (const doc of open.docs) {
+    const inv = doc.data() as InvoiceDoc & { remindersSent?: number[] };
+    if (!inv.dueDate || invoiceBalanceDue(inv) <= 0) continue;
+
+    const offset = dueReminderOffset(
+      daysBetween(inv.dueDate, today),
+      offsets,
+      inv.remindersSent ?? []
+    );
+    if (offset === null) continue;
+
+    try {
+      await deliverInvoice({
+        companyId,
+        invoiceId: doc.id,
+        kind: "reminder",
+        today,
+        reminderOffset: offset,
+      });
+      sent++;
+    } catch (e) {
+      // One bad address should not hold up the rest
+      console.error(`[invoice-reminders] ${companyId}/${doc.id} failed`, e);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Daily pass over every company's open invoices.
+ */
+export const sendOverdueInvoiceReminders = onSchedule(
+  { schedule: "every day 09:00", timeZone: DEFAULT_TIME_ZONE },
+  async () => {
+    const now = Date.now();
+    const companies = await admin.firestore().collection("companies").listDocuments();
+
+    for (const company of companies) {
+      try {
+        const sent = await remindCompany(company.id, now);
+        if (sent) console.log(`[invoice-reminders] ${company.id}: sent ${sent}`);
+      } catch (e) {
+        console.error(`[invoice-reminders] ${company.id} failed`, e);
+      }
+    }
+  }
+);
@@ -0,0 +1,178 @@
+import PDFDocument from "pdfkit";
+
+// ---------------------------------------------------------------
+// Invoice PDF
+//
+// Server-side counterpart of exportInvoiceToPDF in the web app: the
+// same sections (header, bill-to, line items, totals, notes) laid out
+// with pdfkit so the result can be attached to an email.
+// ---------------------------------------------------------------
+
+export type InvoiceDoc = {
+  id: string;
+  siteId?: string;
+  siteName: string;
+  invoiceNumber: string;
+  date: string;
+  dueDate: string;
+  serviceStartDate?: string | null;
+  serviceEndDate?: string | null;
+  lineItems?: {
+    description?: string;
+    quantity?: number;
+    unitPrice?: number;
+    total?: number;
+  }[];
+  notes?: string;
+  subtotal?: number;
+  tax?: number;
+  discount?: number;
+  total?: number;
+  status: string;
+  amountPaid?: number;
+  amountCredited?: number;
+  balanceDue?: number;
+};
+
+export type InvoiceParty = {
+  companyName: string;
+  billToName: string;
+  billToAddress?: string;
+  billToEmail?: string;
+};
+
+const money = (n: number | undefined) => `$${Number(n ?? 0).toFixed(2)}`;
+
+/**
+ * What the customer still owes. Invoices saved before the payments
+ * ledger have no balanceDue and are owed in full unless marked paid.
+ */
+export function invoiceBalanceDue(inv: InvoiceDoc) {
+  if (typeof inv.balanceDue === "number") return inv.balanceDue;
+  return inv.status === "paid" ? 0 : Number(inv.total ?? 0);
+}
+
+export function renderInvoicePdf(
+  inv: InvoiceDoc,
+  party: InvoiceParty
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "LETTER", margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const left = doc.page.margins.left;
+    const right = doc.page.width - doc.page.margins.right;
+    const width = right - left;
+
+    // Header
+    doc.font("Helvetica-Bold").fontSize(20).text(party.companyName, left, 50);
+    doc
+      .fontSize(18)
+      .text("INVOICE", left, 50, { width, align: "right" })
+      .font("Helvetica")
+      .fontSize(10)
+      .text(`# ${inv.invoiceNumber}`, { width, align: "right" })
+      .text(`Date: ${inv.date}`, { width, align: "right" })
+      .text(`Due: ${inv.dueDate}`, { width, align: "right" });
+
+    if (inv.serviceStartDate && inv.serviceEndDate) {
+      doc.text(
+        `Service: ${inv.serviceStartDate} – ${inv.serviceEndDate}`,
+        { width, align: "right" }
+      );
+    }
+
+    // Bill to
+    doc.moveDown(2);
+    doc.font("Helvetica-Bold").fontSize(12).text("Bill To", left);
+    doc.font("Helvetica").fontSize(10).text(party.billToName);
+    if (party.billToAddress) doc.text(party.billToAddress);
+    if (party.billToEmail) doc.fillColor("#555").text(party.billToEmail);
+    doc.fillColor("#000");
+
+    // Line items
+    const cols = [
+      { label: "Description", x: left, w: width - 240, align: "left" as const },
+      { label: "Qty", x: right - 240, w: 60, align: "right" as const },
+      { label: "Unit", x: right - 180, w: 80, align: "right" as const },
+      { label: "Line Total", x: right - 100, w: 100, align: "right" as const },
+    ];
+
+    doc.moveDown(2);
+    let y = doc.y;
+    doc.rect(left, y - 4, width, 20).fill("#f3f4f6").fillColor("#000");
+    doc.font("Helvetica-Bold");
+    for (const c of cols) {
+      doc.text(c.label, c.x, y, { width: c.w, align: c.align });
+    }
+    doc.font("Helvetica");
+    y += 22;
+
+    const items = inv.lineItems ?? [];
+    if (!items.length) {
+      doc.fillColor("#555").text("No line items", left, y).fillColor("#000");
+      y += 18;
+    }
+
+    for (const li of items) {
+      const qty = Number(li.quantity ?? 0);
+      const unit = Number(li.unitPrice ?? 0);
+      const lineTotal = Number(li.total ?? qty * unit);
+      const rowHeight = Math.max(
+        doc.heightOfString(li.description ?? "", { width: cols[0].w }),
+        14
+      );
+
+      if (y + rowHeight > doc.page.height - doc.page.margins.bottom - 120) {
+        doc.addPage();
+        y = doc.page.margins.top;
+      }
+
+      doc.text(li.description ?? "", cols[0].x, y, { width: cols[0].w });
+      doc.text(String(qty), cols[1].x, y, { width: cols[1].w, align: "right" });
+      doc.text(money(unit), cols[2].x, y, { width: cols[2].w, align: "right" });
+      doc.text(money(lineTotal), cols[3].x, y, {
+        width: cols[3].w,
+        align: "right",
+      });
+
+      y += rowHeight + 6;
+      doc
+        .moveTo(left, y - 3)
+        .lineTo(right, y - 3)
+        .strokeColor("#e5e7eb")
+        .stroke();
+    }
+
+    // Totals
+    const totalsX = right - 220;
+    const line = (label: string, value: string, bold = false) => {
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+      doc.text(label, totalsX, y, { width: 120 });
+      doc.text(value, totalsX + 120, y, { width: 100, align: "right" });
+      y += 16;
+    };
+
+    y += 10;
+    line("Subtotal", money(inv.subtotal));
+    line("Tax", money(inv.tax));
+    line("Discount", `-${money(inv.discount)}`);
+    line("Total", money(inv.total), true);
+
+    if (inv.amountPaid || inv.amountCredited) {
+      if (inv.amountPaid) line("Payments", `-${money(inv.amountPaid)}`);
+      if (inv.amountCredited) line("Credits", `-${money(inv.amountCredited)}`);
+      line("Balance Due", money(invoiceBalanceDue(inv)), true);
+    }
+
+    if (inv.notes) {
+      doc.font("Helvetica-Bold").text("Notes", left, y + 20);
+      doc.font("Helvetica").fillColor("#555").text(inv.notes, { width });
+    }
+
+    doc.end();
+  });
+}
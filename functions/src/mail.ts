@@ -0,0 +1,90 @@
+import * as nodemailer from "nodemailer";
+
+// ---------------------------------------------------------------
+// Outgoing mail
+//
+// Everything goes through a MailTransport so the sender can be swapped
+// without touching the functions that send. The default is SMTP,
+// configured from the environment (functions/.env, or Secret Manager
+// for SMTP_PASS in production):
+//
+//   SMTP_HOST, SMTP_PORT, SMTP_SECURE ("true" for 465),
+//   SMTP_USER, SMTP_PASS, MAIL_FROM
+//
+// Under the emulator with no SMTP_HOST set, mail goes to a local
+// MailHog (localhost:1025) so nothing leaves the machine; its inbox is
+// at http://localhost:8025.
+// ---------------------------------------------------------------
+
+export type MailAttachment = {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+};
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+  attachments?: MailAttachment[];
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+const DEFAULT_FROM = "ManageWise <no-reply@managewise.local>";
+
+function smtpOptionsFromEnv() {
+  const env = process.env;
+  const emulator = env.FUNCTIONS_EMULATOR === "true";
+
+  if (!env.SMTP_HOST && !emulator) {
+    throw new Error("SMTP_HOST is not configured.");
+  }
+
+  const host = env.SMTP_HOST || "localhost";
+  const port = Number(env.SMTP_PORT || (env.SMTP_HOST ? 587 : 1025));
+
+  return {
+    host,
+    port,
+    secure: env.SMTP_SECURE === "true",
+    auth: env.SMTP_USER ?
+      { user: env.SMTP_USER, pass: env.SMTP_PASS ?? "" } :
+      undefined,
+  };
+}
+
+/**
+ * SMTP transport backed by nodemailer.
+ */
+export function smtpTransport(
+  options = smtpOptionsFromEnv(),
+  from = process.env.MAIL_FROM || DEFAULT_FROM
+): MailTransport {
+  const transporter = nodemailer.createTransport(options);
+
+  return {
+    async send(message) {
+      const info = await transporter.sendMail({ from, ...message });
+      return { messageId: String(info.messageId ?? "") };
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Replaces the transport, e.g. with an in-memory outbox in tests.
+ */
+export function setMailTransport(next: MailTransport | null) {
+  transport = next;
+}
+
+export function getMailTransport(): MailTransport {
+  if (!transport) transport = smtpTransport();
+  return transport;
+}
@@ -0,0 +1,110 @@
+import * as admin from "firebase-admin";
+import {
+  scheduleOccurrences,
+  scheduleOccursOn,
+  type RecurringSchedule,
+} from "./recurrence";
+
+// ---------------------------------------------------------------
+// Occurrence overrides
+//
+// One schedule occurrence can be reassigned, moved, edited or
+// cancelled without touching its series. The change is stored at
+// companies/{companyId}/schedules/{scheduleId}/occurrence_overrides/{date},
+// keyed by the date the series generates. Mirrors
+// src/lib/occurrence-overrides.ts in the web app.
+// ---------------------------------------------------------------
+
+export type OccurrenceOverrideDoc = {
+  scheduleId: string;
+  date: string;
+  changes?: Record<string, unknown>;
+  movedTo?: string | null;
+  cancelled?: boolean;
+  cancelReason?: string;
+};
+
+export type Occurrence<T> = {
+  schedule: T; // with the day's changes applied
+  day: string; // yyyy-MM-dd, the day it is worked
+  cancelled: boolean;
+};
+
+/**
+ * Every override in the company, grouped by schedule id.
+ */
+export async function loadOccurrenceOverrides(companyId: string) {
+  const snap = await admin
+    .firestore()
+    .collectionGroup("occurrence_overrides")
+    .where("companyId", "==", companyId)
+    .get();
+
+  const bySchedule = new Map<string, OccurrenceOverrideDoc[]>();
+  for (const doc of snap.docs) {
+    const override = doc.data() as OccurrenceOverrideDoc;
+    const list = bySchedule.get(override.scheduleId) ?? [];
+    list.push(override);
+    bySchedule.set(override.scheduleId, list);
+  }
+  return bySchedule;
+}
+
+const isMoved = (o: OccurrenceOverrideDoc) =>
+  !!o.movedTo && o.movedTo !== o.date;
+
+function applyOverride<T extends RecurringSchedule>(
+  schedule: T,
+  override: OccurrenceOverrideDoc | undefined
+): T {
+  if (!override?.changes) return schedule;
+  const applied = { ...schedule, ...override.changes } as T & {
+    assignedTeamId?: string;
+  };
+  // An empty team id means the day is assigned to people, not a team;
+  // changes that leave the assignment alone keep the series team
+  if ("assignedTeamId" in override.changes && !override.changes.assignedTeamId) {
+    delete applied.assignedTeamId;
+  }
+  return applied;
+}
+
+/**
+ * A schedule's occurrences worked between `from` and `to` (inclusive),
+ * following moves and applying each day's changes. Cancelled
+ * occurrences are included and flagged.
+ */
+export function occurrencesBetween<T extends RecurringSchedule>(
+  schedule: T,
+  overrides: OccurrenceOverrideDoc[],
+  from: string,
+  to: string,
+  weekStartsOn: number
+): Occurrence<T>[] {
+  const byDate = new Map(overrides.map((o) => [o.date, o] as const));
+  const out: Occurrence<T>[] = [];
+
+  for (const day of scheduleOccurrences(schedule, from, to, weekStartsOn)) {
+    const override = byDate.get(day);
+    if (override && isMoved(override)) continue;
+    out.push({
+      schedule: applyOverride(schedule, override),
+      day,
+      cancelled: !!override?.cancelled,
+    });
+  }
+
+  for (const override of overrides) {
+    if (!isMoved(override)) continue;
+    const day = override.movedTo as string;
+    if (day < from || day > to) continue;
+    if (!scheduleOccursOn(schedule, override.date, weekStartsOn)) continue;
+    out.push({
+      schedule: applyOverride(schedule, override),
+      day,
+      cancelled: !!override.cancelled,
+    });
+  }
+
+  return out.sort((a, b) => a.day.localeCompare(b.day));
+}
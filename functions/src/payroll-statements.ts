@@ -0,0 +1,80 @@
+import * as admin from "firebase-admin";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+
+// ---------------------------------------------------------------
+// Payroll statements
+//
+// A payroll period's lineItems hold every employee's minutes and pay,
+// so periods are manager-only. Each employee reads their own line at
+// companies/{companyId}/payroll_statements/{periodId}__{employeeId},
+// which this trigger keeps in step with the period.
+// ---------------------------------------------------------------
+
+// Period fields copied onto every statement
+const PERIOD_FIELDS = [
+  "startDate",
+  "endDate",
+  "status",
+  "revision",
+  "sentForConfirmationAt",
+  "paidAt",
+] as const;
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
+
+const statementId = (periodId: string, employeeId: string) =>
+  `${periodId}__${employeeId}`;
+
+export const syncPayrollStatements = onDocumentWritten(
+  "companies/{companyId}/payroll_periods/{periodId}",
+  async (event) => {
+    const { companyId, periodId } = event.params;
+    const statements = admin
+      .firestore()
+      .collection("companies")
+      .doc(companyId)
+      .collection("payroll_statements");
+
+    const period = event.data?.after?.data();
+    const lineItems: Record<string, unknown>[] = Array.isArray(period?.lineItems) ?
+      period.lineItems :
+      [];
+
+    const header: Record<string, unknown> = {};
+    for (const field of PERIOD_FIELDS) {
+      if (period?.[field] !== undefined) header[field] = period[field];
+    }
+
+    const writes: ((batch: admin.firestore.WriteBatch) => void)[] = [];
+    const kept = new Set<string>();
+
+    for (const lineItem of lineItems) {
+      const employeeId = lineItem?.employeeId;
+      if (typeof employeeId !== "string" || !employeeId) continue;
+
+      const id = statementId(periodId, employeeId);
+      kept.add(id);
+      writes.push((batch) =>
+        batch.set(statements.doc(id), {
+          ...header,
+          periodId,
+          employeeId,
+          lineItem,
+        })
+      );
+    }
+
+    // Employees dropped from the period, or the whole period deleted
+    const existing = await statements.where("periodId", "==", periodId).get();
+    for (const d of existing.docs) {
+      if (!kept.has(d.id)) writes.push((batch) => batch.delete(d.ref));
+    }
+
+    for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+      const batch = admin.firestore().batch();
+      writes.slice(i, i + BATCH_SIZE).forEach((write) => write(batch));
+      await batch.commit();
+    }
+  }
+);
@@ -0,0 +1,535 @@
+// ---------------------------------------------------------------
+// Schedule recurrence
+//
+// Every schedule is compiled to an RFC 5545 recurrence set:
+//
+//   DTSTART = startDate
+//   RRULE   = the custom rule, or the legacy repeatFrequency translated
+//             (every-3-weeks => FREQ=WEEKLY;INTERVAL=3;WKST=<weekStartsOn>)
+//   RDATE   = rdates (one-off extra visits)
+//   EXDATE  = exceptionDates
+//
+// repeatUntil always ends the series, on top of any UNTIL or COUNT.
+// Dates are calendar days (YYYY-MM-DD) with no time zone.
+//
+// Copy of src/lib/recurrence.ts in the web app, which this package
+// cannot import; keep the two in sync. src/lib/recurrence.test.ts runs
+// both on the same rules and fails when they disagree.
+// ---------------------------------------------------------------
+
+export type RRuleFreq = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export type RRuleByDay = {
+  weekday: number; // 0 = Sunday, same as Date#getDay and weekStartsOn
+  nth?: number; // 2 = second, -1 = last; MONTHLY/YEARLY only
+};
+
+export type RRule = {
+  freq: RRuleFreq;
+  interval: number;
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+  byDay?: RRuleByDay[];
+  byMonthDay?: number[]; // -1 = last day of the month
+  byMonth?: number[]; // 1-12
+  bySetPos?: number[];
+  wkst?: number;
+};
+
+export type Recurrence = {
+  start: string;
+  end?: string;
+  rule: RRule | null;
+  rdates: string[];
+  exdates: Set<string>;
+};
+
+export type RecurringSchedule = {
+  startDate: string;
+  repeatFrequency: string;
+  daysOfWeek?: string[];
+  repeatUntil?: string;
+  exceptionDates?: string[];
+  rrule?: string;
+  rdates?: string[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PERIODS = 50000;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const ISO_DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// ---------------------------------------------------------------
+// Day arithmetic
+// ---------------------------------------------------------------
+
+const dayNum = (y: number, m: number, d: number) => Date.UTC(y, m - 1, d) / DAY_MS;
+
+function toDay(iso: string) {
+  const [y, m, d] = iso.slice(0, 10).split("-").map(Number);
+  return dayNum(y, m, d);
+}
+
+const fromDay = (n: number) => new Date(n * DAY_MS).toISOString().slice(0, 10);
+
+const weekdayOf = (n: number) => (((n + 4) % 7) + 7) % 7; // 1970-01-01 was a Thursday
+
+function ymdOf(n: number) {
+  const d = new Date(n * DAY_MS);
+  return { y: d.getUTCFullYear(), m: d.getUTCMonth() + 1, d: d.getUTCDate() };
+}
+
+const daysInMonth = (y: number, m: number) => new Date(Date.UTC(y, m, 0)).getUTCDate();
+
+const weekStartOf = (n: number, wkst: number) => n - ((weekdayOf(n) - wkst + 7) % 7);
+
+const range = (first: number, length: number) =>
+  Array.from({ length }, (_, i) => first + i);
+
+// ---------------------------------------------------------------
+// RRULE text
+// ---------------------------------------------------------------
+
+function parseIntList(key: string, value: string, min: number, max: number) {
+  return value.split(",").map((v) => {
+    const n = Number(v);
+    if (!Number.isInteger(n) || n === 0 || Math.abs(n) > max || n < min) {
+      throw new Error(`${key} has an invalid value "${v}".`);
+    }
+    return n;
+  });
+}
+
+/**
+ * Parses an RRULE value such as "FREQ=MONTHLY;BYDAY=2TU" (the "RRULE:"
+ * prefix is optional). Only day-level rules are supported; BYHOUR and
+ * friends, BYWEEKNO and BYYEARDAY are rejected rather than ignored.
+ */
+export function parseRRule(text: string): RRule {
+  const body = text.trim().replace(/^RRULE:/i, "");
+  if (!body) throw new Error("The rule is empty.");
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(";")) {
+    if (!part.trim()) continue;
+    const [key, value, ...rest] = part.split("=");
+    if (!key || value === undefined || rest.length) {
+      throw new Error(`"${part}" is not a KEY=VALUE pair.`);
+    }
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+    throw new Error("FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY.");
+  }
+  const rule: RRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+    case "FREQ":
+      break;
+
+    case "INTERVAL": {
+      const n = Number(value);
+      if (!Number.isInteger(n) || n < 1) throw new Error("INTERVAL must be a positive whole number.");
+      rule.interval = n;
+      break;
+    }
+
+    case "COUNT": {
+      const n = Number(value);
+      if (!Number.isInteger(n) || n < 1) throw new Error("COUNT must be a positive whole number.");
+      rule.count = n;
+      break;
+    }
+
+    case "UNTIL": {
+      const m = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+      if (!m) throw new Error("UNTIL must look like 20251231.");
+      rule.until = `${m[1]}-${m[2]}-${m[3]}`;
+      break;
+    }
+
+    case "BYDAY":
+      rule.byDay = value.split(",").map((v) => {
+        const m = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(v);
+        if (!m) throw new Error(`BYDAY has an invalid value "${v}".`);
+        const nth = m[1] ? Number(m[1]) : undefined;
+        if (nth !== undefined && (nth === 0 || Math.abs(nth) > 53)) {
+          throw new Error(`BYDAY has an invalid value "${v}".`);
+        }
+        return { weekday: WEEKDAY_CODES.indexOf(m[2]), nth };
+      });
+      break;
+
+    case "BYMONTHDAY":
+      rule.byMonthDay = parseIntList(key, value, -31, 31);
+      break;
+
+    case "BYMONTH":
+      rule.byMonth = parseIntList(key, value, 1, 12);
+      break;
+
+    case "BYSETPOS":
+      rule.bySetPos = parseIntList(key, value, -366, 366);
+      break;
+
+    case "WKST": {
+      const wkst = WEEKDAY_CODES.indexOf(value);
+      if (wkst < 0) throw new Error(`WKST has an invalid value "${value}".`);
+      rule.wkst = wkst;
+      break;
+    }
+
+    default:
+      throw new Error(`${key} is not supported.`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error("Use either COUNT or UNTIL, not both.");
+  }
+  if (rule.byMonthDay && rule.freq === "WEEKLY") {
+    throw new Error("BYMONTHDAY cannot be used with FREQ=WEEKLY.");
+  }
+  if (
+    rule.byDay?.some((b) => b.nth !== undefined) &&
+    (rule.freq === "DAILY" || rule.freq === "WEEKLY" || rule.byMonthDay)
+  ) {
+    throw new Error("Numbered BYDAY (e.g. 2TU) needs FREQ=MONTHLY or YEARLY without BYMONTHDAY.");
+  }
+  if (rule.bySetPos && !rule.byDay && !rule.byMonthDay && !rule.byMonth) {
+    throw new Error("BYSETPOS needs BYDAY, BYMONTHDAY or BYMONTH.");
+  }
+
+  return rule;
+}
+
+/**
+ * Returns the parse error for a rule, or null when it is valid.
+ */
+export function rruleError(text: string) {
+  try {
+    parseRRule(text);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+export function formatRRule(rule: RRule) {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byDay?.length) {
+    parts.push(
+      `BYDAY=${rule.byDay.map((b) => `${b.nth ?? ""}${WEEKDAY_CODES[b.weekday]}`).join(",")}`
+    );
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  if (rule.wkst !== undefined) parts.push(`WKST=${WEEKDAY_CODES[rule.wkst]}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+// ---------------------------------------------------------------
+// Schedules
+// ---------------------------------------------------------------
+
+const LEGACY_INTERVALS: Record<string, [RRuleFreq, number]> = {
+  weekly: ["WEEKLY", 1],
+  "every-2-weeks": ["WEEKLY", 2],
+  "every-3-weeks": ["WEEKLY", 3],
+  monthly: ["MONTHLY", 1],
+  "every-2-months": ["MONTHLY", 2],
+  quarterly: ["MONTHLY", 3],
+  yearly: ["YEARLY", 1],
+};
+
+/**
+ * The RRULE equivalent of a schedule's repeat settings, or null for a
+ * one-off visit. A weekly schedule with no days selected never occurs,
+ * which is why byDay is kept even when it is empty.
+ */
+export function scheduleRRule(schedule: RecurringSchedule, weekStartsOn: number): RRule | null {
+  if (schedule.repeatFrequency === "custom") {
+    if (!schedule.rrule) return null;
+    const rule = parseRRule(schedule.rrule);
+    return { ...rule, wkst: rule.wkst ?? weekStartsOn };
+  }
+
+  const legacy = LEGACY_INTERVALS[schedule.repeatFrequency];
+  if (!legacy) return null;
+
+  const [freq, interval] = legacy;
+  if (freq !== "WEEKLY") return { freq, interval };
+
+  return {
+    freq,
+    interval,
+    wkst: weekStartsOn,
+    byDay: (schedule.daysOfWeek ?? []).map((day) => ({ weekday: DAY_NAMES.indexOf(day) })),
+  };
+}
+
+const compiled = new WeakMap<object, Map<number, Recurrence>>();
+
+/**
+ * Compiles a schedule into its recurrence set. Results are cached per
+ * schedule object, so pass the same object when checking many dates.
+ * A custom rule that no longer parses leaves only the RDATEs.
+ */
+export function scheduleRecurrence(schedule: RecurringSchedule, weekStartsOn: number): Recurrence {
+  let byWeekStart = compiled.get(schedule);
+  const cached = byWeekStart?.get(weekStartsOn);
+  if (cached) return cached;
+
+  let rule: RRule | null = null;
+  try {
+    rule = scheduleRRule(schedule, weekStartsOn);
+  } catch (e) {
+    console.warn("[recurrence] ignoring invalid rule", schedule.rrule, e);
+  }
+
+  const rdates = (schedule.rdates ?? []).filter((d) => ISO_DAY.test(d));
+  if (!rule && schedule.repeatFrequency === "does-not-repeat") rdates.push(schedule.startDate);
+
+  const recurrence: Recurrence = {
+    start: schedule.startDate,
+    end: [rule?.until, schedule.repeatUntil].filter(Boolean).sort()[0],
+    rule,
+    rdates,
+    exdates: new Set(schedule.exceptionDates ?? []),
+  };
+
+  if (!byWeekStart) {
+    byWeekStart = new Map();
+    compiled.set(schedule, byWeekStart);
+  }
+  byWeekStart.set(weekStartsOn, recurrence);
+  return recurrence;
+}
+
+// ---------------------------------------------------------------
+// Expansion
+// ---------------------------------------------------------------
+
+function applyByDay(scope: number[], byDay: RRuleByDay[]) {
+  const out = new Set<number>();
+  for (const { weekday, nth } of byDay) {
+    const matches = scope.filter((n) => weekdayOf(n) === weekday);
+    if (nth === undefined) {
+      matches.forEach((n) => out.add(n));
+    } else {
+      const hit = matches[nth > 0 ? nth - 1 : matches.length + nth];
+      if (hit !== undefined) out.add(hit);
+    }
+  }
+  return Array.from(out);
+}
+
+function monthCandidates(y: number, m: number, rule: RRule, defaultDay: number) {
+  const length = daysInMonth(y, m);
+  const first = dayNum(y, m, 1);
+
+  if (rule.byMonthDay) {
+    const days = rule.byMonthDay
+      .map((d) => (d > 0 ? d : length + d + 1))
+      .filter((d) => d >= 1 && d <= length)
+      .map((d) => first + d - 1);
+    const byDay = rule.byDay;
+    return byDay ? days.filter((n) => byDay.some((b) => b.weekday === weekdayOf(n))) : days;
+  }
+
+  if (rule.byDay) return applyByDay(range(first, length), rule.byDay);
+
+  // Months without the start's day (e.g. the 31st) are skipped, per RFC 5545
+  return defaultDay <= length ? [first + defaultDay - 1] : [];
+}
+
+type Periods = {
+  startOf: (p: number) => number;
+  indexOf: (n: number) => number;
+  candidates: (p: number) => number[];
+};
+
+function periodsFor(rule: RRule, start: number): Periods {
+  const s = ymdOf(start);
+
+  switch (rule.freq) {
+  case "DAILY":
+    return {
+      startOf: (p) => start + p,
+      indexOf: (n) => n - start,
+      candidates: (p) => {
+        const n = start + p;
+        const { y, m, d } = ymdOf(n);
+        if (rule.byMonth && !rule.byMonth.includes(m)) return [];
+        if (rule.byMonthDay) {
+          const length = daysInMonth(y, m);
+          if (!rule.byMonthDay.some((md) => (md > 0 ? md : length + md + 1) === d)) return [];
+        }
+        if (rule.byDay && !rule.byDay.some((b) => b.weekday === weekdayOf(n))) return [];
+        return [n];
+      },
+    };
+
+  case "WEEKLY": {
+    const wkst = rule.wkst ?? 1;
+    const firstWeek = weekStartOf(start, wkst);
+    return {
+      startOf: (p) => firstWeek + p * 7,
+      indexOf: (n) => Math.floor((weekStartOf(n, wkst) - firstWeek) / 7),
+      candidates: (p) => {
+        const week = range(firstWeek + p * 7, 7);
+        const byDay = rule.byDay;
+        const days = byDay
+          ? week.filter((n) => byDay.some((b) => b.weekday === weekdayOf(n)))
+          : week.filter((n) => weekdayOf(n) === weekdayOf(start));
+        return rule.byMonth ? days.filter((n) => rule.byMonth!.includes(ymdOf(n).m)) : days;
+      },
+    };
+  }
+
+  case "MONTHLY": {
+    const firstMonth = s.y * 12 + (s.m - 1);
+    return {
+      startOf: (p) => {
+        const idx = firstMonth + p;
+        return dayNum(Math.floor(idx / 12), (idx % 12) + 1, 1);
+      },
+      indexOf: (n) => {
+        const { y, m } = ymdOf(n);
+        return y * 12 + (m - 1) - firstMonth;
+      },
+      candidates: (p) => {
+        const idx = firstMonth + p;
+        const y = Math.floor(idx / 12);
+        const m = (idx % 12) + 1;
+        if (rule.byMonth && !rule.byMonth.includes(m)) return [];
+        return monthCandidates(y, m, rule, s.d);
+      },
+    };
+  }
+
+  case "YEARLY":
+    return {
+      startOf: (p) => dayNum(s.y + p, 1, 1),
+      indexOf: (n) => ymdOf(n).y - s.y,
+      candidates: (p) => {
+        const y = s.y + p;
+        if (rule.byMonth) {
+          return rule.byMonth.flatMap((m) => monthCandidates(y, m, rule, s.d));
+        }
+        if (rule.byMonthDay) {
+          return range(1, 12).flatMap((m) => monthCandidates(y, m, rule, s.d));
+        }
+        if (rule.byDay) {
+          const first = dayNum(y, 1, 1);
+          return applyByDay(range(first, dayNum(y + 1, 1, 1) - first), rule.byDay);
+        }
+        return s.d <= daysInMonth(y, s.m) ? [dayNum(y, s.m, s.d)] : [];
+      },
+    };
+  }
+}
+
+function applySetPos(days: number[], bySetPos?: number[]) {
+  const sorted = Array.from(new Set(days)).sort((a, b) => a - b);
+  if (!bySetPos) return sorted;
+  const picked = bySetPos
+    .map((pos) => sorted[pos > 0 ? pos - 1 : sorted.length + pos])
+    .filter((n): n is number => n !== undefined);
+  return Array.from(new Set(picked)).sort((a, b) => a - b);
+}
+
+/**
+ * All occurrence dates (YYYY-MM-DD, ascending) between `from` and `to`
+ * inclusive.
+ *
+ * As in most iCalendar implementations, DTSTART only counts when it
+ * matches the rule: a weekly Mon/Wed schedule starting on a Tuesday
+ * first occurs on the Wednesday.
+ */
+export function expandRecurrence(rec: Recurrence, from: string, to: string): string[] {
+  if (!rec.start || !ISO_DAY.test(rec.start)) return [];
+
+  const endDay = rec.end ? toDay(rec.end) : Infinity;
+  const fromDay_ = toDay(from);
+  const toDay_ = Math.min(toDay(to), endDay);
+  const out = new Set<string>();
+
+  const { rule } = rec;
+  if (rule && toDay_ >= fromDay_) {
+    const start = toDay(rec.start);
+    const periods = periodsFor(rule, start);
+
+    // COUNT has to be counted from the first period; otherwise jump ahead
+    let p = 0;
+    if (rule.count === undefined) {
+      const first = periods.indexOf(Math.max(fromDay_, start));
+      p = Math.max(0, Math.ceil(first / rule.interval) * rule.interval);
+    }
+
+    let seen = 0;
+    for (let i = 0; i < MAX_PERIODS && periods.startOf(p) <= toDay_; i++, p += rule.interval) {
+      for (const n of applySetPos(periods.candidates(p), rule.bySetPos)) {
+        if (n < start || n > endDay) continue;
+        seen++;
+        if (rule.count !== undefined && seen > rule.count) break;
+        if (n >= fromDay_ && n <= toDay_) out.add(fromDay(n));
+      }
+      if (rule.count !== undefined && seen >= rule.count) break;
+    }
+  }
+
+  for (const d of rec.rdates) {
+    if (d >= from && d <= to && (!rec.end || d <= rec.end)) out.add(d);
+  }
+
+  return Array.from(out)
+    .filter((d) => !rec.exdates.has(d))
+    .sort();
+}
+
+export function scheduleOccursOn(schedule: RecurringSchedule, day: string, weekStartsOn: number) {
+  return expandRecurrence(scheduleRecurrence(schedule, weekStartsOn), day, day).length > 0;
+}
+
+export function scheduleOccurrences(
+  schedule: RecurringSchedule,
+  from: string,
+  to: string,
+  weekStartsOn: number
+) {
+  return expandRecurrence(scheduleRecurrence(schedule, weekStartsOn), from, to);
+}
+
+/**
+ * The next `limit` occurrences on or after `from`, looking at most
+ * `horizonDays` ahead.
+ */
+export function nextOccurrences(
+  schedule: RecurringSchedule,
+  from: string,
+  limit: number,
+  weekStartsOn: number,
+  horizonDays = 5 * 366
+) {
+  const to = fromDay(toDay(from) + horizonDays);
+  return scheduleOccurrences(schedule, from, to, weekStartsOn).slice(0, limit);
+}
@@ -0,0 +1,69 @@
+import * as admin from "firebase-admin";
+
+// ---------------------------------------------------------------
+// Site directory
+//
+// Sites live at companies/{companyId}/sites/{siteId}. Companies that
+// have not been opened by a manager since the move still keep them
+// as a `sites` array on settings/main, so that is the fallback.
+// Mirrors src/lib/cloud-settings.ts in the web app.
+// ---------------------------------------------------------------
+
+/**
+ * The company's sites in directory order. Pass settings/main when it
+ * has already been read to skip a second read.
+ */
+export async function loadSites<T extends { id?: string; name: string }>(
+  companyId: string,
+  settings?: Record<string, any>
+): Promise<T[]> {
+  const company = admin.firestore().collection("companies").doc(companyId);
+  const snap = await company.collection("sites").get();
+
+  if (!snap.empty) {
+    return snap.docs
+      .map((d) => ({ ...(d.data() as T & { order?: number }), id: d.id }))
+      .sort(
+        (a, b) =>
+          (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER) ||
+          a.name.localeCompare(b.name)
+      );
+  }
+
+  const legacy = settings ?? (await company.collection("settings").doc("main").get()).data();
+  return Array.isArray(legacy?.sites) ? (legacy.sites as T[]) : [];
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * The site a record points at: by siteId, else by name for records
+ * written before the siteId backfill.
+ */
+export function findSite<T extends { id?: string; name: string }>(
+  sites: T[],
+  siteId?: string | null,
+  name?: string | null
+): T | undefined {
+  const byId = siteId ? sites.find((s) => s.id === siteId) : undefined;
+  if (byId) return byId;
+  return name ? sites.find((s) => nameKey(s.name) === nameKey(name)) : undefined;
+}
+
+export type ScheduleSiteRef = { siteId?: string; name: string };
+
+/**
+ * Every site a schedule visits. Grouped schedules pair siteIds with
+ * siteNames by position.
+ */
+export function scheduleSiteRefs(schedule: {
+  siteId?: string;
+  siteIds?: string[];
+  siteName: string;
+  siteNames?: string[];
+}): ScheduleSiteRef[] {
+  if (schedule.siteNames?.length) {
+    return schedule.siteNames.map((name, i) => ({ siteId: schedule.siteIds?.[i], name }));
+  }
+  return [{ siteId: schedule.siteId, name: schedule.siteName }];
+}
@@ -0,0 +1,365 @@
+import * as admin from "firebase-admin";
+import {
+  onDocumentCreated,
+  onDocumentWrittenWithAuthContext,
+} from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { loadSites } from "./sites";
+
+// Device clocks further than this from server time are flagged for review.
+const CLOCK_SKEW_LIMIT_MS = 5 * 60 * 1000;
+
+/**
+ * Compares the device clock reported by the offline outbox (`syncedAt`)
+ * with the server commit time. A large gap means the captured `ts` cannot
+ * be trusted, so the entry is flagged for the manager.
+ */
+export const flagClockEntrySkew = onDocumentCreated(
+  "companies/{companyId}/timeclock_entries/{entryId}",
+  async (event) => {
+    const snap = event.data;
+    const data = snap?.data();
+    if (!snap || !data || typeof data.syncedAt !== "number") return;
+
+    const serverMs = snap.createTime.toMillis();
+    const clockSkewMs = serverMs - data.syncedAt;
+
+    // A captured time later than the server's "now" is always suspect.
+    const futureTs =
+      typeof data.ts === "number" && data.ts - serverMs > CLOCK_SKEW_LIMIT_MS;
+
+    const timeFlagged =
+      Math.abs(clockSkewMs) > CLOCK_SKEW_LIMIT_MS || futureTs;
+
+    await snap.ref.update({ clockSkewMs, timeFlagged });
+  }
+);
+
+// ---------------------------------------------------------------
+// Audit of entry edits made without an audit row
+// ---------------------------------------------------------------
+
+// Mirrors AUDITED_FIELDS in src/lib/entry-audit.ts in the web app.
+const AUDITED_FIELDS = [
+  "employee",
+  "employeeId",
+  "action",
+  "ts",
+  "siteId",
+  "site",
+  "note",
+  "lat",
+  "lng",
+  "scheduleId",
+  "scheduleDate",
+  "autoCloseReview",
+];
+
+const pickFields = (data: admin.firestore.DocumentData, keys: string[]) =>
+  Object.fromEntries(keys.map((key) => [key, data[key] ?? null]));
+
+/**
+ * Manager edits write their own audit row in the same batch and stamp
+ * the entry with its id (`lastAuditId`). Any other change to an audited
+ * field, or a delete with no audit row, is recorded here so the history
+ * cannot be skipped by writing the entry alone.
+ */
+export const auditEntryChanges = onDocumentWrittenWithAuthContext(
+  "companies/{companyId}/timeclock_entries/{entryId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    // New entries are clock-ins and outs, not edits.
+    if (!before) return;
+
+    const { companyId, entryId } = event.params;
+    const audits = admin
+      .firestore()
+      .collection("companies")
+      .doc(companyId)
+      .collection("timeclock_audit");
+
+    if (after) {
+      if (after.lastAuditId && after.lastAuditId !== before.lastAuditId) return;
+    } else {
+      const logged = await audits
+        .where("entryId", "==", entryId)
+        .where("change", "==", "delete")
+        .limit(1)
+        .get();
+      if (!logged.empty) return;
+    }
+
+    const changed = after
+      ? AUDITED_FIELDS.filter((key) => (before[key] ?? null) !== (after[key] ?? null))
+      : AUDITED_FIELDS.filter((key) => before[key] !== undefined);
+    if (after && !changed.length) return;
+
+    // Writes from the app carry the member uid; the rest are server jobs.
+    const byMember = event.authType !== "system" && event.authType !== "service_account";
+    const ref = audits.doc();
+    await ref.set({
+      id: ref.id,
+      entryId,
+      employeeId: before.employeeId ?? "",
+      employeeName: before.employee ?? "",
+      change: after ? "update" : "delete",
+      before: pickFields(before, changed),
+      after: after ? pickFields(after, changed) : null,
+      reason: null,
+      changedByUid: byMember ? event.authId ?? null : null,
+      changedByLabel: byMember ? "Unlogged edit" : "System",
+      correctionRequestId: null,
+      changedAt: Date.now(),
+    });
+  }
+);
+
+// ---------------------------------------------------------------
+// Missed clock-out auto-close
+// ---------------------------------------------------------------
+
+type AutoCloseReason = "estimate" | "fixed-hour" | "clocked-in-elsewhere";
+
+type AutoClosePolicy = {
+  enabled?: boolean;
+  estimateMultiplier?: number;
+  fallbackMaxMinutes?: number;
+  fixedHour?: number | null;
+  closeOnClockInElsewhere?: boolean;
+  timeZone?: string;
+};
+
+type ClockEntry = {
+  id: string;
+  employee?: string;
+  employeeId?: string;
+  action: "in" | "out";
+  ts: number;
+  site?: string;
+  siteId?: string;
+  scheduleId?: string | null;
+  scheduleDate?: string | null;
+};
+
+// Open shifts older than this are left alone; they need a manual fix.
+const AUTO_CLOSE_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_TIME_ZONE = "America/New_York";
+
+const norm = (s?: string) => (s || "").trim().toLowerCase();
+
+// Same site by id; entries from before the siteId backfill by name
+const sameSite = (a: ClockEntry, b: ClockEntry) =>
+  a.siteId && b.siteId ? a.siteId === b.siteId : norm(a.site) === norm(b.site);
+
+/**
+ * Pairs IN/OUT entries the same way groupSessions() does on the client
+ * and returns the INs that are still open, together with any later IN
+ * by the same employee at a different site.
+ */
+function findOpenShifts(entries: ClockEntry[]) {
+  const sorted = [...entries].sort((a, b) => a.ts - b.ts);
+  const openByEmployee = new Map<string, ClockEntry[]>();
+  const laterInElsewhere = new Map<string, ClockEntry>();
+
+  for (const e of sorted) {
+    const empKey = norm(e.employeeId || e.employee);
+    if (!empKey) continue;
+
+    const open = openByEmployee.get(empKey) ?? [];
+
+    if (e.action === "in") {
+      for (const other of open) {
+        if (!sameSite(other, e) && !laterInElsewhere.has(other.id)) {
+          laterInElsewhere.set(other.id, e);
+        }
+      }
+      openByEmployee.set(empKey, [...open, e]);
+      continue;
+    }
+
+    let match = open.find((o) => sameSite(o, e));
+    if (!match && open.length === 1) match = open[0];
+    if (match) {
+      openByEmployee.set(empKey, open.filter((o) => o !== match));
+    }
+  }
+
+  const openIns = [...openByEmployee.values()].flat();
+  return { openIns, laterInElsewhere };
+}
+
+/**
+ * First instant after `fromTs` at which the wall clock in `timeZone`
+ * reads `hour`:00.
+ */
+function nextLocalHour(fromTs: number, hour: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  });
+
+  const step = 15 * 60 * 1000;
+  let ts = Math.ceil((fromTs + 1) / step) * step;
+
+  for (let i = 0; i < 4 * 48; i++, ts += step) {
+    const p = parts.formatToParts(new Date(ts));
+    const h = Number(p.find((x) => x.type === "hour")?.value);
+    const m = Number(p.find((x) => x.type === "minute")?.value);
+    if (h === hour && m === 0) return ts;
+  }
+
+  return null;
+}
+
+function autoCloseDeadline(
+  entry: ClockEntry,
+  policy: AutoClosePolicy,
+  estimateBySite: Map<string, number>,
+  laterIn: ClockEntry | undefined
+): { ts: number; reason: AutoCloseReason } | null {
+  const candidates: { ts: number; reason: AutoCloseReason }[] = [];
+
+  const multiplier = Number(policy.estimateMultiplier ?? 0);
+  if (multiplier > 0) {
+    const estimate =
+      (entry.siteId ? estimateBySite.get(entry.siteId) : undefined) ??
+      estimateBySite.get(norm(entry.site)) ??
+      0;
+    const minutes =
+      estimate > 0 ? estimate * multiplier : Number(policy.fallbackMaxMinutes ?? 0);
+    if (minutes > 0) {
+      candidates.push({ ts: entry.ts + minutes * 60000, reason: "estimate" });
+    }
+  }
+
+  if (typeof policy.fixedHour === "number") {
+    const ts = nextLocalHour(
+      entry.ts,
+      policy.fixedHour,
+      policy.timeZone || DEFAULT_TIME_ZONE
+    );
+    if (ts) candidates.push({ ts, reason: "fixed-hour" });
+  }
+
+  if (policy.closeOnClockInElsewhere && laterIn) {
+    candidates.push({ ts: laterIn.ts, reason: "clocked-in-elsewhere" });
+  }
+
+  if (!candidates.length) return null;
+  return candidates.reduce((a, b) => (b.ts < a.ts ? b : a));
+}
+
+const REASON_LABELS: Record<AutoCloseReason, string> = {
+  "estimate": "shift ran past its expected length",
+  "fixed-hour": "shift was still open at the daily cut-off",
+  "clocked-in-elsewhere": "employee clocked in at another site",
+};
+
+async function autoCloseCompany(companyId: string, now: number) {
+  const company = admin.firestore().collection("companies").doc(companyId);
+  const settings = (await company.collection("settings").doc("main").get()).data();
+  const policy = settings?.autoClosePolicy as AutoClosePolicy | undefined;
+  if (!policy?.enabled) return 0;
+
+  // Keyed by site id and by name, for entries that only carry a name
+  const estimateBySite = new Map<string, number>();
+  for (const site of await loadSites<{
+    id?: string;
+    name: string;
+    estimatedWorkMinutes?: number;
+  }>(companyId, settings)) {
+    if (site?.name && Number(site.estimatedWorkMinutes) > 0) {
+      if (site.id) estimateBySite.set(site.id, Number(site.estimatedWorkMinutes));
+      estimateBySite.set(norm(site.name), Number(site.estimatedWorkMinutes));
+    }
+  }
+
+  const snap = await company
+    .collection("timeclock_entries")
+    .where("ts", ">=", now - AUTO_CLOSE_LOOKBACK_MS)
+    .get();
+
+  const entries = snap.docs.map((d) => ({ id: d.id, ...d.data() } as ClockEntry));
+  const { openIns, laterInElsewhere } = findOpenShifts(entries);
+
+  let closed = 0;
+
+  for (const entry of openIns) {
+    const deadline = autoCloseDeadline(
+      entry,
+      policy,
+      estimateBySite,
+      laterInElsewhere.get(entry.id)
+    );
+    if (!deadline || deadline.ts > now) continue;
+
+    const outTs = Math.max(deadline.ts, entry.ts);
+    const outRef = company.collection("timeclock_entries").doc(`auto-${entry.id}`);
+
+    try {
+      // create() fails if a previous run already closed this shift.
+      await outRef.create({
+        employee: entry.employee ?? "",
+        employeeId: entry.employeeId ?? "",
+        action: "out",
+        ts: outTs,
+        site: entry.site ?? "",
+        siteId: entry.siteId ?? null,
+        scheduleId: entry.scheduleId ?? null,
+        scheduleDate: entry.scheduleDate ?? null,
+        note: `[AUTO] Closed because the ${REASON_LABELS[deadline.reason]}.`,
+        autoClosed: true,
+        autoCloseReason: deadline.reason,
+        autoCloseReview: "pending",
+        autoClosedInEntryId: entry.id,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (e: unknown) {
+      if ((e as { code?: number })?.code === 6) continue; // ALREADY_EXISTS
+      throw e;
+    }
+
+    await company.collection("notifications").add({
+      type: "clock",
+      action: "out",
+      employeeId: entry.employeeId ?? "",
+      employeeName: entry.employee ?? "",
+      site: entry.site ?? "",
+      ts: outTs,
+      deviceLabel: "Auto-close",
+      title: "Missed clock-out",
+      message: `${entry.employee || "An employee"} was clocked out of ${
+        entry.site || "their site"
+      } automatically. Review it before running payroll.`,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      read: false,
+    });
+
+    closed++;
+  }
+
+  return closed;
+}
+
+/**
+ * Closes shifts whose employee forgot to clock out, following
+ * settings/main.autoClosePolicy. Each auto-closed OUT is marked
+ * autoCloseReview: "pending" and stays out of payroll until a manager
+ * approves or corrects it.
+ */
+export const autoCloseMissedClockOuts = onSchedule("every 15 minutes", async () => {
+  const now = Date.now();
+  const companies = await admin.firestore().collection("companies").listDocuments();
+
+  for (const company of companies) {
+    try {
+      const closed = await autoCloseCompany(company.id, now);
+      if (closed) console.log(`[auto-close] ${company.id}: closed ${closed} shift(s)`);
+    } catch (e) {
+      console.error(`[auto-close] ${company.id} failed`, e);
+    }
+  }
+});
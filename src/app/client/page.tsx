@@ -0,0 +1,163 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { onAuthStateChanged } from "firebase/auth";
+import { auth } from "@/firebase/client";
+import { useCompany } from "@/providers/CompanyProvider";
+import { useToast } from "@/hooks/use-toast";
+import type { ClientPortalData } from "@/shared/types/domain";
+import {
+  completeClientPortalSignIn,
+  fetchClientPortal,
+  sendClientPortalLink,
+  signOutClientPortal,
+  submitClientFeedback,
+  type ClientFeedbackInput,
+} from "@/lib/client-portal";
+import { ClientPortalView } from "@/components/timewise/client-portal-view";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+type PortalState =
+  | { status: "loading" }
+  | { status: "signed-out"; error?: string }
+  | { status: "link-sent"; email: string }
+  | { status: "ready"; data: ClientPortalData };
+
+export default function ClientPortalPage() {
+  const { companyId } = useCompany();
+  const { toast } = useToast();
+  const [state, setState] = useState<PortalState>({ status: "loading" });
+  const [email, setEmail] = useState("");
+  const [sending, setSending] = useState(false);
+
+  const loadPortal = useCallback(async () => {
+    setState({ status: "loading" });
+    try {
+      const data = await fetchClientPortal(companyId);
+      setState({ status: "ready", data });
+    } catch (err: any) {
+      await signOutClientPortal();
+      setState({ status: "signed-out", error: err?.message || "Could not load your portal." });
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    let unsub: (() => void) | undefined;
+
+    completeClientPortalSignIn(() => window.prompt("Confirm your email address"))
+      .catch((err: any) => {
+        setState({ status: "signed-out", error: err?.message || "That sign-in link is invalid or expired." });
+      })
+      .finally(() => {
+        unsub = onAuthStateChanged(auth, (user) => {
+          // Staff devices keep an anonymous session; it grants nothing here.
+          if (user && !user.isAnonymous && user.email) {
+            void loadPortal();
+          } else {
+            setState((prev) => (prev.status === "loading" ? { status: "signed-out" } : prev));
+          }
+        });
+      });
+
+    return () => unsub?.();
+  }, [loadPortal]);
+
+  const handleSendLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    setSending(true);
+    try {
+      await sendClientPortalLink(email);
+      setState({ status: "link-sent", email: email.trim() });
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Could not send link", description: err?.message });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSubmitFeedback = async (input: ClientFeedbackInput) => {
+    try {
+      await submitClientFeedback(companyId, input);
+      toast({ title: "Thank you", description: "Your feedback was sent to our team." });
+      return true;
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Could not send feedback", description: err?.message });
+      return false;
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOutClientPortal();
+    setState({ status: "signed-out" });
+  };
+
+  if (state.status === "loading") {
+    return (
+      <main className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </main>
+    );
+  }
+
+  if (state.status === "ready") {
+    return (
+      <main className="min-h-screen">
+        <ClientPortalView
+          data={state.data}
+          onSubmitFeedback={handleSubmitFeedback}
+          onSignOut={handleSignOut}
+        />
+      </main>
+    );
+  }
+
+  return (
+    <main className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Client Portal</CardTitle>
+          <CardDescription>
+            View your cleaning schedule, visit history and invoices.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {state.status === "link-sent" ? (
+            <div className="space-y-3 text-sm">
+              <p>
+                We sent a sign-in link to <span className="font-medium">{state.email}</span>. Open it on
+                this device to continue.
+              </p>
+              <Button variant="outline" onClick={() => setState({ status: "signed-out" })}>
+                Use a different email
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSendLink} className="space-y-4">
+              {state.error && <p className="text-sm text-destructive">{state.error}</p>}
+              <div className="space-y-2">
+                <Label htmlFor="client-email">Email</Label>
+                <Input
+                  id="client-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@company.com"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={sending}>
+                {sending ? "Sending..." : "Email me a sign-in link"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -3,9 +3,7 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { getDeviceLabel } from "@/lib/device-info";
 import {
-  onSnapshot,
   query,
-  orderBy,
   serverTimestamp,
   addDoc,
   updateDoc,
@@ -16,6 +14,8 @@ import {
   writeBatch,
   getDoc,
   getDocs,
+  arrayUnion,
+  deleteField,
   type DocumentReference,
   type DocumentData,
 } from "firebase/firestore";
@@ -30,6 +30,7 @@ import type {
   MileageLog,
   Employee,
   Invoice,
+  InvoicePayment,
   OtherExpense,
   PayrollPeriod,
   PayrollConfirmation,
@@ -37,26 +38,20 @@ import type {
   AiEntry,
   EmployeeUpdateRequest,
   Session,
-  ManagerNotification,
   ServiceFeedback,
+  EmployeePrivate,
+  TimeCorrectionRequest,
+  TimeOffRequest,
+  ShiftSwap,
+  OccurrenceOverride,
+  EntryAuditRecord,
+  VisitChecklist,
+  ChecklistCheck,
+  VisitPhoto,
 } from "@/shared/types/domain";
 
-import {
-  loadLocalEntries,
-  saveLocalEntries,
-  loadLocalSchedules,
-  saveLocalSchedules,
-  loadLocalMileageLogs,
-  saveLocalMileageLogs,
-  loadLocalEmployees,
-  saveLocalEmployees,
-  loadLocalInvoices,
-  saveLocalInvoices,
-  loadLocalOtherExpenses,
-  saveLocalOtherExpenses,
-  loadLocalPayrollPeriods,
-  saveLocalPayrollPeriods,
-} from "@/lib/storage";
+import { saveLocalInvoices } from "@/lib/storage";
+import { replaceLocalRows } from "@/lib/repositories";
 
 import { groupSessions, uuid, haversineDistance } from "@/lib/time-utils";
 import { useToast } from "@/hooks/use-toast";
@@ -82,7 +77,45 @@ import { useSettings } from "@/features/settings/hooks/useSettings";
 import { withComputed } from "@/lib/invoice-math";
 import { computeJobProfitability } from "@/lib/job-profitability";
 import { cleanForFirestore } from "@/lib/firestore-utils";
-import { addDays } from "date-fns";
+import {
+  NO_ACCESS,
+  isManagerRole,
+  dropMemberAccess,
+  readMemberAccess,
+  signInWithPin,
+  splitEmployeePrivate,
+  writeEmployeePrivate,
+  mergeEmployeePrivate,
+  type MemberAccess,
+} from "@/lib/member-auth";
+import {
+  enqueueClockEntry,
+  flushClockOutbox,
+  listClockOutbox,
+  mergePendingEntries,
+  type OutboxEntry,
+  type OutboxFlushResult,
+} from "@/lib/clock-outbox";
+import { buildEntryAudit } from "@/lib/entry-audit";
+import { instantiateVisitChecklist, visitChecklistId } from "@/lib/checklists";
+import { deleteVisitPhotoFile } from "@/features/visit-photos/visit-photos";
+import { handOffAssignment, swapHandoffs } from "@/lib/shift-swaps";
+import { applyOccurrenceOverride, occurrenceOverrideOn } from "@/lib/occurrence-overrides";
+import { entryAtSite, resolveSite, scheduleSiteRefs, scheduleVisitsSite, siteKey } from "@/lib/site-index";
+import { useMigrations } from "@/features/migrations/hooks/useMigrations";
+import { useCompanyBackup } from "@/features/backup/hooks/useCompanyBackup";
+import { companyDataScope, type DataView } from "@/features/company-data/data-scope";
+import { useCompanyInvoices } from "@/features/company-data/hooks/useCompanyInvoices";
+import { useEmployees } from "@/features/company-data/hooks/useEmployees";
+import { useEntries } from "@/features/company-data/hooks/useEntries";
+import { useEntryAudits } from "@/features/company-data/hooks/useEntryAudits";
+import { useExpenses } from "@/features/company-data/hooks/useExpenses";
+import { usePayrollPeriods } from "@/features/company-data/hooks/usePayrollPeriods";
+import { useRequests } from "@/features/company-data/hooks/useRequests";
+import { useSchedules } from "@/features/company-data/hooks/useSchedules";
+import { useServiceFeedbacks } from "@/features/company-data/hooks/useServiceFeedbacks";
+import { useVisitRecords } from "@/features/company-data/hooks/useVisitRecords";
+import { addDays, subDays } from "date-fns";
 
 function sessionMinutesOnDay(s: Session, day: Date, nowTs: number = Date.now()): number {
   const inTs = s.in?.ts ?? 0;
@@ -124,25 +157,138 @@ async function writeThenVerify<T extends DocumentData>(
 
 export default function TimeWisePage() {
   const { settings, updateSettings, cloudReady, authReady, user } = useSettings();
-  const { engine, setEngine } = useEngine();
+  const { engine, setEngine, repos } = useEngine();
   const { toast } = useToast();
-const [notifications, setNotifications] = useState<ManagerNotification[]>([]);
 const [splashStep, setSplashStep] = useState<"intro" | "choose-role" | "role-loading" | "done">("intro");
 const [selectedRole, setSelectedRole] = useState<"employee" | "manager" | null>(null);
 
+  // Cloud role from custom claims (see functions/src/auth.ts)
+  const [memberAccess, setMemberAccess] = useState<MemberAccess>(NO_ACCESS);
+
+  const companyId = useMemo(() => getCompanyId(settings), [settings.companyId]);
+
   // --- Core data state ---
-  const schedulesHydratedRef = useRef(false);
+  // Views opened this session; data only they show loads on first open
+  const [openedViews, setOpenedViews] = useState<ReadonlySet<DataView>>(() => new Set());
+  const openView = useCallback(
+    (view: string) =>
+      setOpenedViews((prev) =>
+        prev.has(view as DataView) ? prev : new Set([...prev, view as DataView])
+      ),
+    []
+  );
+
+  const handleSnapshotError = useCallback(
+    (collectionName: string, error: any) => {
+      const code = error?.code || "";
+      const msg = String(error?.message || "");
+
+      console.error(`[Firestore] onSnapshot error (${collectionName})`, { code, msg, error });
+
+      const looksPerm =
+        /permission-denied|insufficient/i.test(code) ||
+        /Missing or insufficient permissions/i.test(msg);
+
+      if (looksPerm) {
+        errorEmitter.emit(
+          "permission-error",
+          new FirestorePermissionError({
+            path: `companies/${companyId}/${collectionName}`,
+            operation: "list",
+          })
+        );
+        toast({
+          variant: "destructive",
+          title: `Cloud permissions error on ${collectionName}`,
+          description: `Check Firestore rules & companyId: ${companyId}.`,
+          duration: 10000,
+        });
+        return;
+      }
+
+      toast({
+        variant: "destructive",
+        title: `Firestore listener failed on ${collectionName}`,
+        description: `${code || "unknown"}: ${msg || "Unknown error"}`,
+        duration: 10000,
+      });
+    },
+    [companyId, toast]
+  );
+
+  const dataScope = companyDataScope({
+    engine,
+    repos,
+    companyId,
+    ready: cloudReady && authReady && !!user?.uid,
+    access: memberAccess,
+    openedViews,
+    onError: handleSnapshotError,
+  });
+
+  // Entries back to here at least, for the manager views that ask (useEntries)
+  const [entriesFrom, setEntriesFrom] = useState<string>();
+  const needEntriesFrom = useCallback(
+    (date: string) => setEntriesFrom((prev) => (prev && prev <= date ? prev : date)),
+    []
+  );
+
+  const {
+    directory: employeeDirectory,
+    privates: employeePrivates,
+    loaded: employeesLoaded,
+  } = useEmployees(dataScope);
+  const { entries: syncedEntries, loaded: entriesLoaded } = useEntries(dataScope, {
+    from: entriesFrom,
+  });
+  const {
+    payrollPeriods,
+    payrollConfirmations,
+    setPayrollConfirmations,
+    loaded: payrollLoaded,
+  } = usePayrollPeriods(dataScope);
+  const {
+    schedules,
+    occurrenceOverrides,
+    setOccurrenceOverrides,
+    loaded: schedulesLoaded,
+  } = useSchedules(dataScope);
+  const {
+    employeeUpdateRequests,
+    setEmployeeUpdateRequests,
+    timeCorrectionRequests,
+    setTimeCorrectionRequests,
+    timeOffRequests,
+    setTimeOffRequests,
+    shiftSwaps,
+    setShiftSwaps,
+  } = useRequests(dataScope);
+  const { visitChecklists, setVisitChecklists, visitPhotos, setVisitPhotos } =
+    useVisitRecords(dataScope);
+  const { entryAudits } = useEntryAudits(dataScope);
+  const { mileageLogs, otherExpenses, loaded: expensesLoaded } = useExpenses(dataScope);
+  const { invoices, setInvoices, invoicePayments } = useCompanyInvoices(dataScope);
+  const { serviceFeedbacks, loaded: feedbacksLoaded } = useServiceFeedbacks(dataScope);
+
   const sitesHydratedRef = useRef(false);
-  const [entries, setEntries] = useState<Entry[]>([]);
-  const [schedules, setSchedules] = useState<CleaningSchedule[]>([]);
-  const [mileageLogs, setMileageLogs] = useState<MileageLog[]>([]);
-  const [otherExpenses, setOtherExpenses] = useState<OtherExpense[]>([]);
-  const [employees, setEmployees] = useState<Employee[]>([]);
-  const [invoices, setInvoices] = useState<Invoice[]>([]);
-  const [payrollPeriods, setPayrollPeriods] = useState<PayrollPeriod[]>([]);
-  const [payrollConfirmations, setPayrollConfirmations] = useState<PayrollConfirmation[]>([]);
-  const [employeeUpdateRequests, setEmployeeUpdateRequests] = useState<EmployeeUpdateRequest[]>([]);
-  const [serviceFeedbacks, setServiceFeedbacks] = useState<ServiceFeedback[]>([]);
+  const [pendingEntries, setPendingEntries] = useState<OutboxEntry[]>([]);
+  const entries = useMemo(
+    () => mergePendingEntries(syncedEntries, pendingEntries),
+    [syncedEntries, pendingEntries]
+  );
+  const employees = useMemo(
+    () => mergeEmployeePrivate(employeeDirectory, employeePrivates),
+    [employeeDirectory, employeePrivates]
+  );
+
+  // Who makes manager edits, for the audit trail: their name when the
+  // member is also an employee, else their role and uid
+  const changedByLabel = useMemo(() => {
+    const name = employees.find((e) => e.id === memberAccess.employeeId)?.name;
+    if (name) return name;
+    const role = memberAccess.role === "owner" ? "Owner" : "Manager";
+    return user?.uid ? `${role} ${user.uid}` : role;
+  }, [employees, memberAccess, user]);
 
   // UI state
   const [tab, setTab] = useState<"employee" | "manager">("employee");
@@ -150,6 +296,10 @@ const [selectedRole, setSelectedRole] = useState<"employee" | "manager" | null>(
   // Logged-in employee state
   const [loggedInEmployee, setLoggedInEmployee] = useState<Employee | null>(null);
 
+  useEffect(() => {
+    if (tab === "employee" && loggedInEmployee) openView("employee");
+  }, [tab, loggedInEmployee, openView]);
+
   // GPS state
   const [coord, setCoord] = useState<{ lat: number; lng: number } | null>(null);
   const [isGettingLocation, setIsGettingLocation] = useState(false);
@@ -166,16 +316,22 @@ const [selectedRole, setSelectedRole] = useState<"employee" | "manager" | null>(
   });
   const [search, setSearch] = useState("");
 
+  // The manager view opens on its dashboard, which never reports a tab change
+  useEffect(() => {
+    if (tab === "manager" && unlocked) openView("dashboard");
+  }, [tab, unlocked, openView]);
+
+  // The dashboard reports on fromDate..toDate
+  useEffect(() => {
+    needEntriesFrom(fromDate);
+  }, [fromDate, needEntriesFrom]);
+
   // AI Summary state
   const [isAiSummaryOpen, setIsAiSummaryOpen] = useState(false);
   const [aiSummary, setAiSummary] = useState<string | null>(null);
   const [aiError, setAiError] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
 
-  const didFixSitesRef = useRef(false);
-
-  const companyId = useMemo(() => getCompanyId(settings), [settings.companyId]);
-
   // Keep companyId pinned to env if present (prevents drift)
   useEffect(() => {
     const envId = process.env.NEXT_PUBLIC_COMPANY_ID?.trim();
@@ -184,20 +340,6 @@ const [selectedRole, setSelectedRole] = useState<"employee" | "manager" | null>(
     }
   }, [settings.companyId, updateSettings]);
 
-  // Ensure all sites have a stable ID (run exactly once)
-  useEffect(() => {
-    if (didFixSitesRef.current) return;
-    const sites = settings.sites ?? [];
-    const already = (settings as any)?.meta?.migratedSiteIds;
-    if (!sites.length || !sites.some((s) => !s.id) || already) return;
-
-    didFixSitesRef.current = true;
-    updateSettings((s) => ({
-      ...s,
-      sites: sites.map((site) => (site.id ? site : { ...site, id: uuid() })),
-      meta: { ...(s as any).meta, migratedSiteIds: true },
-    }));
-  }, [settings.sites, updateSettings]);
 useEffect(() => {
   if (splashStep !== "intro") return;
 
@@ -207,17 +349,14 @@ useEffect(() => {
 
   return () => clearTimeout(timer);
 }, [splashStep]);
-  // Load initial data from local storage when in local engine
-  useEffect(() => {
-    if (engine !== "local") return;
-    setEntries(loadLocalEntries());
-    setSchedules(loadLocalSchedules());
-    setMileageLogs(loadLocalMileageLogs());
-    setOtherExpenses(loadLocalOtherExpenses());
-    setEmployees(loadLocalEmployees());
-    setInvoices(loadLocalInvoices());
-    setPayrollPeriods(loadLocalPayrollPeriods());
-  }, [engine]);
+  const localDataLoaded =
+    engine === "local" &&
+    employeesLoaded &&
+    entriesLoaded &&
+    schedulesLoaded &&
+    payrollLoaded &&
+    expensesLoaded &&
+    feedbacksLoaded;
 
   // Persist logged-in employee
   useEffect(() => {
@@ -241,48 +380,30 @@ useEffect(() => {
 
   const onAddServiceFeedbackAction = useCallback(
   async (feedback: Omit<ServiceFeedback, "id">) => {
-    if (engine === "cloud") {
-      const cId = getCompanyId(settings);
-      const newDocRef = doc(collection(db, "companies", cId, "service_feedbacks"));
-
-      const dataToSave: ServiceFeedback = {
-        ...feedback,
-        id: newDocRef.id,
-      };
-
-      try {
-        await setDoc(newDocRef, cleanForFirestore(dataToSave));
-        toast({ title: "Service feedback added" });
-      } catch (e: any) {
-        errorEmitter.emit(
-          "permission-error",
-          new FirestorePermissionError({
-            path: newDocRef.path,
-            operation: "create",
-            requestResourceData: dataToSave,
-          })
-        );
-
-        toast({
-          variant: "destructive",
-          title: "Could not add service feedback",
-          description: e.message || "Check connection and permissions.",
-          duration: 9000,
-        });
-      }
-    } else {
-      setServiceFeedbacks((prev) => [
-        ...prev,
-        {
-          id: uuid(),
-          ...feedback,
-        } as ServiceFeedback,
-      ]);
+    const cId = getCompanyId(settings);
 
+    try {
+      await repos.serviceFeedbacks.create(cId, feedback);
       toast({ title: "Service feedback added" });
+    } catch (e: any) {
+      errorEmitter.emit(
+        "permission-error",
+        new FirestorePermissionError({
+          path: `companies/${cId}/service_feedbacks`,
+          operation: "create",
+          requestResourceData: feedback,
+        })
+      );
+
+      toast({
+        variant: "destructive",
+        title: "Could not add service feedback",
+        description: e.message || "Check connection and permissions.",
+        duration: 9000,
+      });
     }
   },
-  [engine, settings, toast]
+  [repos, settings, toast]
 );
 
 const onUpdateServiceFeedbackAction = useCallback(
@@ -290,326 +411,23 @@ const onUpdateServiceFeedbackAction = useCallback(
     id: string,
     updates: Partial<ServiceFeedback>
   ) => {
-    if (engine === "cloud") {
-      const cId = getCompanyId(settings);
-
-      const docRef = doc(
-        db,
-        "companies",
-        cId,
-        "service_feedbacks",
-        id
-      );
-
-      try {
-        await updateDoc(
-          docRef,
-          cleanForFirestore(updates)
-        );
-
-        toast({
-          title: "Feedback updated",
-        });
-      } catch (e: any) {
-        toast({
-          variant: "destructive",
-          title: "Could not update feedback",
-          description: e.message,
-        });
-      }
-    } else {
-      setServiceFeedbacks((prev) =>
-        prev.map((f) =>
-          f.id === id
-            ? {
-                ...f,
-                ...updates,
-              }
-            : f
-        )
-      );
+    try {
+      await repos.serviceFeedbacks.update(getCompanyId(settings), id, updates);
 
       toast({
         title: "Feedback updated",
       });
-    }
-  },
-  [engine, settings, toast]
-);
-
-  const markNotificationRead = useCallback(
-    async (id: string) => {
-      if (engine !== "cloud") {
-        setNotifications((prev) =>
-          prev.map((n) => (n.id === id ? { ...n, read: true } : n))
-        );
-        return;
-      }
-
-      const cId = getCompanyId(settings);
-      const docRef = doc(db, "companies", cId, "notifications", id);
-
-      try {
-        await updateDoc(docRef, { read: true });
-      } catch (e: any) {
-        toast({
-          variant: "destructive",
-          title: "Could not mark notification read",
-          description: e.message,
-        });
-      }
-    },
-    [engine, settings, toast]
-  );
-
-  const markAllNotificationsRead = useCallback(async () => {
-    if (notifications.length === 0) return;
-
-    if (engine !== "cloud") {
-      setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
-      return;
-    }
-
-    const cId = getCompanyId(settings);
-    const unread = notifications.filter((n) => !n.read);
-    if (unread.length === 0) return;
-
-    try {
-      const batch = writeBatch(db);
-      unread.forEach((n) => {
-        batch.update(doc(db, "companies", cId, "notifications", n.id), {
-          read: true,
-        });
-      });
-      await batch.commit();
     } catch (e: any) {
       toast({
         variant: "destructive",
-        title: "Could not mark all notifications read",
+        title: "Could not update feedback",
         description: e.message,
       });
     }
-  }, [engine, notifications, settings, toast]);
-/**
- * 2) Firestore listener attach function
- * ✅ Must return a CLEANUP FUNCTION (not an array)
- * ✅ NO useEffect inside this function
- */
-const attachFirestoreListeners = useCallback(
-  (cId: string) => {
-    const safeCId = (cId || "")
-      .trim()
-      .toLowerCase()
-      .replace(/\s+/g, "-");
-
-    if (!safeCId) {
-      console.warn("[Firestore] attachFirestoreListeners called with empty companyId");
-      return () => {};
-    }
-
-    const unsubs: Array<() => void> = [];
-    const confirmUnsubs: Array<() => void> = [];
-
-    const resetConfirmListeners = () => {
-      confirmUnsubs.forEach((u) => u());
-      confirmUnsubs.length = 0;
-    };
-
-    const handleSnapshotError =
-      (collectionName: string) =>
-      (error: any) => {
-        const code = error?.code || "";
-        const msg = String(error?.message || "");
-
-        console.error(`[Firestore] onSnapshot error (${collectionName})`, { code, msg, error });
-
-        const looksPerm =
-          /permission-denied|insufficient/i.test(code) ||
-          /Missing or insufficient permissions/i.test(msg);
-
-        if (looksPerm) {
-          errorEmitter.emit(
-            "permission-error",
-            new FirestorePermissionError({
-              path: `companies/${safeCId}/${collectionName}`,
-              operation: "list",
-            })
-          );
-
-          toast({
-            variant: "destructive",
-            title: `Cloud permissions error on ${collectionName}`,
-            description: `Check Firestore rules & companyId: ${safeCId}.`,
-            duration: 10000,
-          });
-          return;
-        }
-
-        toast({
-          variant: "destructive",
-          title: `Firestore listener failed on ${collectionName}`,
-          description: `${code || "unknown"}: ${msg || "Unknown error"}`,
-          duration: 10000,
-        });
-      };
-
-    // ===========================
-    // ✅ PUT ALL onSnapshot LISTENERS HERE
-    // ===========================
-
-    // payroll periods + nested confirmations
-    unsubs.push(
-      onSnapshot(
-        query(collection(db, "companies", safeCId, "payroll_periods"), orderBy("endDate", "desc")),
-        (snap) => {
-          const periods = snap.docs.map((d) => ({ id: d.id, ...d.data() } as PayrollPeriod));
-          setPayrollPeriods(periods);
-
-          resetConfirmListeners();
-
-          for (const p of periods) {
-            const cu = onSnapshot(
-              collection(db, "companies", safeCId, "payroll_periods", p.id, "confirmations"),
-              (confSnap) => {
-                const periodConfirmations = confSnap.docs.map((d) => ({
-                  ...(d.data() as PayrollConfirmation),
-                  id: d.id,
-                  periodId: p.id,
-                }));
-
-                setPayrollConfirmations((prev) => [
-                  ...prev.filter((c) => c.periodId !== p.id),
-                  ...periodConfirmations,
-                ]);
-              },
-              handleSnapshotError(`payroll_periods/${p.id}/confirmations`)
-            );
-            confirmUnsubs.push(cu);
-          }
-        },
-        handleSnapshotError("payroll_periods")
-      )
-    );
-
-    // main collections
-    unsubs.push(
-      onSnapshot(
-        query(collection(db, "companies", safeCId, "timeclock_entries"), orderBy("ts", "asc")),
-        (snap) => setEntries(snap.docs.map((d) => ({ id: d.id, ...d.data() } as Entry))),
-        handleSnapshotError("timeclock_entries")
-      )
-    );
-
-    // ✅ schedules hydration marker
-   
-     const schedulesRef = collection(db, "companies", safeCId, "schedules");
-
-const schedulesQuery =
-  !unlocked && loggedInEmployee?.id
-    ? query(
-        schedulesRef,
-        where("assignedEmployeeIds", "array-contains", loggedInEmployee.id )
-      )
-    : query(schedulesRef);
-
-unsubs.push(
-  onSnapshot(
-    schedulesQuery,
-    (snap) => {
-      schedulesHydratedRef.current = true;
-      setSchedules(
-        snap.docs.map((d) => ({
-          id: d.id,
-          ...d.data(),
-        })) as CleaningSchedule[]
-      );
-    },
-    (err) => {
-      schedulesHydratedRef.current = false;
-      handleSnapshotError("schedules")(err);
-    }
-  )
-);
-
-    unsubs.push(
-      onSnapshot(
-        query(collection(db, "companies", safeCId, "mileage_logs")),
-        (snap) => setMileageLogs(snap.docs.map((d) => ({ id: d.id, ...d.data() } as MileageLog))),
-        handleSnapshotError("mileage_logs")
-      )
-    );
-
-    unsubs.push(
-      onSnapshot(
-        query(collection(db, "companies", safeCId, "other_expenses"), orderBy("date", "desc")),
-        (snap) => setOtherExpenses(snap.docs.map((d) => ({ id: d.id, ...d.data() } as OtherExpense))),
-        handleSnapshotError("other_expenses")
-      )
-    );
-
-    unsubs.push(
-      onSnapshot(
-        query(collection(db, "companies", safeCId, "employees")),
-        (snap) => setEmployees(snap.docs.map((d) => ({ id: d.id, ...d.data() } as Employee))),
-        handleSnapshotError("employees")
-      )
-    );
-
-    unsubs.push(
-      onSnapshot(
-        query(collection(db, "companies", safeCId, "invoices"), orderBy("date", "desc")),
-        (snap) => setInvoices(snap.docs.map((d) => ({ id: d.id, ...d.data() } as Invoice))),
-        handleSnapshotError("invoices")
-      )
-    );
-
-    unsubs.push(
-      onSnapshot(
-        query(collection(db, "companies", safeCId, "employee_update_requests"), orderBy("requestedAt", "desc")),
-        (snap) =>
-          setEmployeeUpdateRequests(
-            snap.docs.map((d) => ({ id: d.id, ...d.data() } as EmployeeUpdateRequest))
-          ),
-        handleSnapshotError("employee_update_requests")
-      )
-    );
-
-    unsubs.push(
-  onSnapshot(
-    query(collection(db, "companies", safeCId, "service_feedbacks"), orderBy("scheduleDate", "desc")),
-    (snap) =>
-      setServiceFeedbacks(
-        snap.docs.map((d) => ({ id: d.id, ...d.data() } as ServiceFeedback))
-      ),
-    handleSnapshotError("service_feedbacks")
-  )
-);
-
-unsubs.push(
-  onSnapshot(
-    query(collection(db, "companies", safeCId, "notifications"), orderBy("createdAt", "desc")),
-    (snap) =>
-      setNotifications(
-        snap.docs.map(
-          (d) =>
-            ({
-              id: d.id,
-              ...d.data(),
-            } as ManagerNotification)
-        )
-      ),
-    handleSnapshotError("notifications")
-  )
-);
- 
-    // ✅ CLEANUP FUNCTION
-    return () => {
-      unsubs.forEach((u) => u());
-      resetConfirmListeners();
-    };
   },
-  [toast]
+  [repos, settings, toast]
 );
+
 // --- DEBUG: verify companyId consistency ---
 useEffect(() => {
   if (engine !== "cloud") return;
@@ -670,19 +488,67 @@ useEffect(() => {
       });
     });
 }, [engine, cloudReady, authReady, user, companyId]);
+
+// --- Company role from ID token claims ---
 useEffect(() => {
-  if (engine !== "cloud") return;
-  if (!cloudReady) return;
-  if (!authReady) return;
-  if (!user?.uid) return;
+  if (engine !== "cloud" || !authReady || !user?.uid) {
+    setMemberAccess(NO_ACCESS);
+    return;
+  }
 
-  const cId = (companyId || "").trim();
-  if (!cId) return;
+  let cancelled = false;
+  readMemberAccess((companyId || "").trim())
+    .then((access) => {
+      if (!cancelled) setMemberAccess(access);
+    })
+    .catch((err) => console.warn("[AUTH] could not read role claims", err));
+
+  return () => {
+    cancelled = true;
+  };
+}, [engine, authReady, user, companyId]);
+
+const verifyEmployeePin = useCallback(
+  async (employee: Employee, pin: string) => {
+    if (engine !== "cloud") return employee.pin === pin;
+
+    const access = await signInWithPin({ companyId, pin, employeeId: employee.id });
+    if (!access) return false;
+
+    setMemberAccess(access);
+    return true;
+  },
+  [engine, companyId]
+);
+
+const verifyManagerPin = useCallback(
+  async (pin: string) => {
+    if (engine !== "cloud") return pin === settings.managerPIN;
+
+    const access = await signInWithPin({ companyId, pin });
+    if (!access || !isManagerRole(access.role)) return false;
+
+    setMemberAccess(access);
+    return true;
+  },
+  [engine, companyId, settings.managerPIN]
+);
 
-  console.log("[APP] Attaching Firestore listeners", { companyId: cId, uid: user.uid });
+// Shared devices drop the role when whoever signed in leaves
+const dropAccess = useCallback(() => {
+  setMemberAccess(NO_ACCESS);
+  if (engine !== "cloud") return;
+  dropMemberAccess().catch((err) => console.warn("[AUTH] could not drop role claims", err));
+}, [engine]);
 
-  return attachFirestoreListeners(cId);
-}, [engine, cloudReady, authReady, user, companyId, attachFirestoreListeners]);
+// Leaving the manager tab locks it; an employee signed in under the
+// manager's role has to sign in again too
+useEffect(() => {
+  if (tab === "manager" || !unlocked) return;
+  setUnlocked(false);
+  setLoggedInEmployee(null);
+  dropAccess();
+}, [tab, unlocked, dropAccess]);
   // --- Auto-cleanup orphaned schedules (cloud + manager only) ---
 useEffect(() => {
   if (engine !== "cloud") return;
@@ -694,13 +560,16 @@ useEffect(() => {
 
   // ✅ DO NOT RUN until BOTH sides are confirmed cloud-loaded
   if (!sitesHydratedRef.current) return;
-  if (!schedulesHydratedRef.current) return;
+  if (!schedulesLoaded) return;
 
   if (!schedules.length) return;
   if (!settings.sites?.length) return;
 
-  const siteNames = new Set((settings.sites ?? []).map((s) => (s.name || "").trim()));
-  const orphaned = schedules.filter((sch) => !siteNames.has((sch.siteName || "").trim()));
+  // By site id, so a renamed site keeps its schedules
+  const sites = settings.sites;
+  const orphaned = schedules.filter(
+    (sch) => !scheduleSiteRefs(sch).some((ref) => resolveSite(sites, ref.siteId, ref.name))
+  );
 
   if (orphaned.length === 0) return;
 
@@ -710,11 +579,11 @@ useEffect(() => {
   );
 
   orphaned.forEach((s) => {
-    deleteDoc(doc(db, "companies", cId, "schedules", s.id)).catch((err) =>
+    repos.schedules.remove(cId, s.id).catch((err) =>
       console.warn("Failed to delete orphaned schedule", s.id, err)
     );
   });
-}, [engine, unlocked, cloudReady, authReady, user, companyId, schedules, settings.sites]);
+}, [engine, repos, unlocked, cloudReady, authReady, user, companyId, schedules, schedulesLoaded, settings.sites]);
 
 
 
@@ -754,15 +623,12 @@ useEffect(() => {
   }, [settings]);
 // --- Derived data ---
 const orderedEntries = useMemo(() => [...entries].sort((a, b) => a.ts - b.ts), [entries]);
-  const unreadNotificationCount = useMemo(
-    () => notifications.filter((n) => !n.read).length,
-    [notifications]
-  );
 // Make TS happy: Session[] is explicit, so `s` is NOT implicit any
 const sessions = useMemo<Session[]>(() => groupSessions(orderedEntries), [orderedEntries]);
 
 /**
- * Map employeeId -> Set(siteName) for currently active sessions
+ * Map employeeId -> Set(siteName) for currently active sessions.
+ * Names are the directory's current ones, so a renamed site still matches.
  */
 const activeByEmployeeSite = useMemo(() => {
   const activeSessions = sessions.filter((s) => s.active && s.in);
@@ -770,7 +636,11 @@ const activeByEmployeeSite = useMemo(() => {
 
   for (const s of activeSessions) {
     const empId = (s.employeeId || "").trim();
-    const siteName = (s.in?.site || "").trim();
+    const siteName = (
+      resolveSite(settings.sites ?? [], s.in?.siteId, s.in?.site)?.name ||
+      s.in?.site ||
+      ""
+    ).trim();
     if (!empId || !siteName) continue;
 
     if (!map.has(empId)) map.set(empId, new Set());
@@ -778,7 +648,7 @@ const activeByEmployeeSite = useMemo(() => {
   }
 
   return map;
-}, [sessions]);
+}, [sessions, settings.sites]);
 
 /**
  * Is employee clocked in? (optionally at a specific site)
@@ -839,7 +709,7 @@ const requestLocation = useCallback((): Promise<{ lat: number; lng: number } | n
 
 
 /**
- * Site status badges for a day (based on sessions)
+ * Site status badges for a day (based on sessions), keyed by siteKey
  */
 const getSiteStatuses = useCallback(
   (forDate: Date): Map<string, SiteStatus> => {
@@ -847,13 +717,11 @@ const getSiteStatuses = useCallback(
     const dayStart = startOfDay(forDate).getTime();
 
     for (const site of settings.sites ?? []) {
-      const siteName = site.name;
+      const key = siteKey(site);
 
       // Only count sessions whose CLOCK-IN started on this day
       const siteSessions = sessions.filter(
-        (s) =>
-          (s.in?.site || s.out?.site) === siteName &&
-          !!s.in
+        (s) => !!s.in && entryAtSite(s.in, site)
       );
 
       const sessionsStartedThisDay = siteSessions.filter((s) => {
@@ -867,13 +735,13 @@ const getSiteStatuses = useCallback(
       });
 
       if (sessionsStartedThisDay.length === 0) {
-        statuses.set(siteName, "incomplete");
+        statuses.set(key, "incomplete");
         continue;
       }
 
       // Find schedule for this site (for this day)
 const scheduleForSite = schedules.find((sch) => {
-  if (sch.siteName !== siteName) return false;
+  if (!scheduleVisitsSite(sch, site)) return false;
 
   const scheduleDate = startOfDay(new Date(sch.startDate)).getTime();
 
@@ -910,11 +778,11 @@ const hasActiveEmployees = activeEmployeeIds.size > 0;
 const hasCompletedEmployees = completedEmployeeIds.size > 0;
 
 if (hasActiveEmployees) {
-  statuses.set(siteName, "in-process");
+  statuses.set(key, "in-process");
 } else if (hasCompletedEmployees) {
-  statuses.set(siteName, "complete");
+  statuses.set(key, "complete");
 } else {
-  statuses.set(siteName, "incomplete");
+  statuses.set(key, "incomplete");
 }
     }
 
@@ -942,39 +810,38 @@ function buildTsOnDayWithRoll(forDate: Date, now: Date, minTs?: number) {
 
 async function getCloudSiteActiveStatus(
   companyId: string,
-  siteName: string
+  site: Site
 ): Promise<boolean> {
-  const normalizedSiteName = siteName.trim();
-
-  const entriesQuery = query(
-    collection(
-      db,
-      "companies",
-      companyId,
-      "timeclock_entries"
-    ),
-    where("site", "==", normalizedSiteName)
+  const entriesRef = collection(
+    db,
+    "companies",
+    companyId,
+    "timeclock_entries"
   );
 
-  const snapshot = await getDocs(entriesQuery);
-
-  const cloudEntries = snapshot.docs
-    .map(
-      (entryDoc) =>
-        ({
-          id: entryDoc.id,
-          ...entryDoc.data(),
-        } as Entry)
-    )
-    .sort((a, b) => a.ts - b.ts);
+  // Entries from before the siteId backfill only carry the name
+  const snapshots = await Promise.all([
+    getDocs(query(entriesRef, where("siteId", "==", site.id))),
+    getDocs(query(entriesRef, where("site", "==", site.name.trim()))),
+  ]);
+
+  const cloudEntries = Array.from(
+    new Map(
+      snapshots
+        .flatMap((snapshot) => snapshot.docs)
+        .map((entryDoc) => [
+          entryDoc.id,
+          { id: entryDoc.id, ...entryDoc.data() } as Entry,
+        ])
+    ).values()
+  ).sort((a, b) => a.ts - b.ts);
 
   const cloudSessions = groupSessions(cloudEntries);
 
   return cloudSessions.some(
     (session) =>
       session.active &&
-      !!session.in &&
-      (session.in.site || "").trim() === normalizedSiteName
+      entryAtSite(session.in, site)
   );
 }
 
@@ -995,13 +862,12 @@ const getExpenseSitesForSchedule = useCallback(
       return [primarySite];
     }
 
-    const groupedSiteNames =
-      schedule.siteNames?.filter(Boolean) ?? [];
+    const groupedSites = scheduleSiteRefs(schedule).filter((ref) => ref.name);
 
     /*
      * Normal single-site schedule.
      */
-    if (groupedSiteNames.length <= 1) {
+    if (groupedSites.length <= 1) {
       return [primarySite];
     }
 
@@ -1009,16 +875,8 @@ const getExpenseSitesForSchedule = useCallback(
      * Grouped schedule:
      * resolve every scheduled site back to the Site directory.
      */
-    const resolvedSites = groupedSiteNames
-      .map((name) =>
-        (settings.sites ?? []).find(
-          (candidate) =>
-            candidate.name
-              .trim()
-              .toLowerCase() ===
-            name.trim().toLowerCase()
-        )
-      )
+    const resolvedSites = groupedSites
+      .map((ref) => resolveSite(settings.sites ?? [], ref.siteId, ref.name))
       .filter(
         (candidate): candidate is Site =>
           !!candidate
@@ -1035,26 +893,206 @@ const getExpenseSitesForSchedule = useCallback(
   [schedules, settings.sites]
 );
 
-const recordEntry = useCallback(
-  async (
-    action: "in" | "out",
-    site: Site,
-    forDate: Date,
-    scheduleId?: string,
-    scheduleDate?: string,
-    note?: string,
-    employeeId?: string,
-    isManagerOverride: boolean = false,
-    context?: {
-      source:
-        | "employee-clock"
-        | "manager-schedule-view"
-        | "manager-manual-entry";
-      initiatedBy?: string;
-    }
-  ) => {
-    const targetEmployee =
-      employees.find((e) => e.id === (employeeId || loggedInEmployee?.id)) || null;
+// Side effects of a clock entry that has reached Firestore: monthly site
+// fees on the last clock-out at a site, and the manager notification.
+const finishSyncedClockEntry = useCallback(
+  async (item: OutboxEntry) => {
+    const cId = item.companyId;
+    const action = item.entry.action;
+    const site = item.site;
+    const scheduleId = item.entry.scheduleId ?? undefined;
+    const scheduleDate = item.entry.scheduleDate ?? undefined;
+    const forDate = new Date(item.forDate);
+
+       /*
+   * The first completed service for this site during the month
+   * creates its monthly R/S Fee and Other Fee expenses.
+   *
+   * Later clock-outs during the same month are ignored because
+   * the helper uses deterministic duplicate-prevention keys.
+   */
+  if (action === "out") {
+  /*
+   * The current employee's session is still marked active in the
+   * React state until Firestore sends the updated snapshot.
+   *
+   * Therefore, exclude the employee who is clocking out and check
+   * whether another employee remains active at this site.
+   */
+   const completedServiceDate =
+    scheduleDate ||
+    format(forDate, "yyyy-MM-dd");
+
+  try {
+    /*
+     * The clock-out has already been committed.
+     * Read the latest cloud state instead of relying on a possibly
+     * delayed React snapshot.
+     */
+    let employeesStillActive =
+      await getCloudSiteActiveStatus(
+        cId,
+        site
+      );
+
+    /*
+     * A second check protects against two employees clocking out
+     * almost simultaneously from different devices.
+     */
+    if (employeesStillActive) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, 750)
+      );
+
+      employeesStillActive =
+        await getCloudSiteActiveStatus(
+          cId,
+          site
+        );
+    }
+
+    if (!employeesStillActive) {
+  const expenseSites =
+    getExpenseSitesForSchedule(
+      site,
+      scheduleId
+    );
+
+  for (const expenseSite of expenseSites) {
+    await ensureMonthlySiteExpenses({
+      companyId: cId,
+      site: expenseSite,
+      serviceDate: completedServiceDate,
+    });
+  }
+
+  console.log(
+  "[MONTHLY SITE EXPENSES] ensured after final clock-out",
+  {
+    companyId: cId,
+    scheduleId,
+    primarySiteId: site.id,
+    primarySiteName: site.name,
+    expenseSites: expenseSites.map(
+      (item) => ({
+        id: item.id,
+        name: item.name,
+      })
+    ),
+    serviceDate: completedServiceDate,
+  }
+);
+    }
+  } catch (expenseError) {
+    console.error(
+      "[MONTHLY SITE EXPENSES] generation failed",
+      {
+        companyId: cId,
+        siteId: site.id,
+        siteName: site.name,
+        serviceDate: completedServiceDate,
+        error: expenseError,
+      }
+    );
+
+    toast({
+      variant: "destructive",
+      title:
+        "Clock-out saved, but monthly fees were not created",
+      description:
+        "The employee was clocked out successfully. Check the site's fee configuration and cloud permissions.",
+      duration: 9000,
+    });
+  }
+}
+
+      // ✅ CREATE NOTIFICATION
+await addDoc(
+  collection(db, "companies", cId, "notifications"),
+  {
+    type: "clock",
+    employeeId: item.entry.employeeId,
+    employeeName: item.entry.employee,
+    action, // "in" | "out"
+    site: site.name,
+    ts: item.entry.ts,
+    deviceLabel: item.deviceLabel,
+    createdAt: serverTimestamp(),
+    read: false,
+  }
+);
+  },
+  [toast, getExpenseSitesForSchedule]
+);
+
+// Replays queued clock entries. Calls are chained so two flushes never
+// write the same item concurrently.
+const outboxFlushRef = useRef<Promise<OutboxFlushResult | null>>(Promise.resolve(null));
+
+const syncClockOutbox = useCallback(() => {
+  const next = outboxFlushRef.current.then(async () => {
+    if (engine !== "cloud") return null;
+
+    const cId = getCompanyId(settings);
+    const result = await flushClockOutbox(db, cId);
+
+    for (const item of result.synced) {
+      try {
+        await finishSyncedClockEntry(item);
+      } catch (err) {
+        console.error("[CLOCK OUTBOX] post-sync step failed", item.id, err);
+      }
+    }
+
+    if (result.failed.length) {
+      toast({
+        variant: "destructive",
+        title: "Some clock entries could not be saved",
+        description: `${result.failed.length} entr${
+          result.failed.length === 1 ? "y was" : "ies were"
+        } rejected. Please ask your manager to add the time manually.`,
+        duration: 9000,
+      });
+    }
+
+    setPendingEntries(await listClockOutbox(cId));
+    return result;
+  });
+
+  outboxFlushRef.current = next.catch(() => null);
+  return next;
+}, [engine, settings, finishSyncedClockEntry, toast]);
+
+useEffect(() => {
+  if (engine !== "cloud" || !memberAccess.role) return;
+
+  void syncClockOutbox();
+
+  const onOnline = () => void syncClockOutbox();
+  window.addEventListener("online", onOnline);
+  return () => window.removeEventListener("online", onOnline);
+}, [engine, memberAccess.role, syncClockOutbox]);
+
+const recordEntry = useCallback(
+  async (
+    action: "in" | "out",
+    site: Site,
+    forDate: Date,
+    scheduleId?: string,
+    scheduleDate?: string,
+    note?: string,
+    employeeId?: string,
+    isManagerOverride: boolean = false,
+    context?: {
+      source:
+        | "employee-clock"
+        | "manager-schedule-view"
+        | "manager-manual-entry";
+      initiatedBy?: string;
+    }
+  ) => {
+    const targetEmployee =
+      employees.find((e) => e.id === (employeeId || loggedInEmployee?.id)) || null;
 
     if (!targetEmployee) {
       toast({ variant: "destructive", title: "No employee selected." });
@@ -1099,6 +1137,7 @@ const recordEntry = useCallback(
       action: "in",
       ts: manualInTs,
       site: site.name,
+      siteId: site.id,
       note: "[MANUAL] Synthetic IN to pair manual OUT",
     };
 
@@ -1108,6 +1147,7 @@ const recordEntry = useCallback(
       action: "out",
       ts: manualOutTs,
       site: site.name,
+      siteId: site.id,
       note: note || "[MANUAL] Manual OUT",
     };
 
@@ -1142,7 +1182,7 @@ const recordEntry = useCallback(
 let employeesStillActive =
   await getCloudSiteActiveStatus(
     cId,
-    site.name
+    site
   );
 
 if (employeesStillActive) {
@@ -1153,7 +1193,7 @@ if (employeesStillActive) {
   employeesStillActive =
     await getCloudSiteActiveStatus(
       cId,
-      site.name
+      site
     );
 }
 
@@ -1200,11 +1240,8 @@ if (!employeesStillActive) {
 }
 
 } else {
-      setEntries((prev) => [
-        ...prev,
-        { id: uuid(), ...syntheticIn } as Entry,
-        { id: uuid(), ...manualOut } as Entry,
-      ]);
+      await repos.entries.create(getCompanyId(settings), syntheticIn);
+      await repos.entries.create(getCompanyId(settings), manualOut);
     }
 
     toast({ title: `Clock OUT recorded for ${site.name} (manual).` });
@@ -1303,6 +1340,7 @@ if (!isManagerOverride) {
   action: "out",
   ts: finalOutTs,
   site: site.name,
+  siteId: site.id,
 
   scheduleId,
   scheduleDate,
@@ -1311,7 +1349,20 @@ if (!isManagerOverride) {
   // --- CLOCK-IN ---
   const anyShiftActive = isClockedIn(undefined, targetEmployee.id);
 
-  if (!isManagerOverride && anyShiftActive) {
+  // With auto-close on, the forgotten shift is closed server-side (and
+  // queued for manager review) instead of blocking the new clock-in.
+  const closesOpenShiftElsewhere =
+    engine === "cloud" &&
+    !!settings.autoClosePolicy?.enabled &&
+    !!settings.autoClosePolicy?.closeOnClockInElsewhere &&
+    !isClockedIn(site.name, targetEmployee.id);
+
+  if (!isManagerOverride && anyShiftActive && closesOpenShiftElsewhere) {
+    toast({
+      title: "Previous shift will be closed",
+      description: "Your open shift at another site will be closed automatically and reviewed by your manager.",
+    });
+  } else if (!isManagerOverride && anyShiftActive) {
     toast({
       variant: "destructive",
       title: "Shift already active",
@@ -1383,6 +1434,7 @@ if (!isManagerOverride) {
   action: "in",
   ts,
   site: site.name,
+  siteId: site.id,
 
   scheduleId,
   scheduleDate,
@@ -1398,202 +1450,822 @@ if (!isManagerOverride) {
 
     if (engine === "cloud") {
       const cId = getCompanyId(settings);
-      const ref = collection(db, "companies", cId, "timeclock_entries");
-      await addDoc(ref, { ...dataToSave, createdAt: serverTimestamp() });
-       /*
-   * The first completed service for this site during the month
-   * creates its monthly R/S Fee and Other Fee expenses.
-   *
-   * Later clock-outs during the same month are ignored because
-   * the helper uses deterministic duplicate-prevention keys.
-   */
-  if (action === "out") {
-  /*
-   * The current employee's session is still marked active in the
-   * React state until Firestore sends the updated snapshot.
-   *
-   * Therefore, exclude the employee who is clocking out and check
-   * whether another employee remains active at this site.
-   */
-   const completedServiceDate =
-    scheduleDate ||
-    format(forDate, "yyyy-MM-dd");
 
-  try {
-    /*
-     * The clock-out has already been committed.
-     * Read the latest cloud state instead of relying on a possibly
-     * delayed React snapshot.
-     */
-    let employeesStillActive =
-      await getCloudSiteActiveStatus(
-        cId,
-        site.name
-      );
+      const source = context?.source;
 
-    /*
-     * A second check protects against two employees clocking out
-     * almost simultaneously from different devices.
-     */
-    if (employeesStillActive) {
-      await new Promise((resolve) =>
-        setTimeout(resolve, 750)
+const isActualManagerAction =
+  source === "manager-schedule-view" ||
+  source === "manager-manual-entry";
+
+const deviceLabel = isActualManagerAction
+  ? "Manager override"
+  : getDeviceLabel();
+
+      // Queue first so the punch survives a dead connection; the outbox
+      // replays it (and its fees/notification) once the device is back online.
+      const item: OutboxEntry = {
+        id: uuid(),
+        companyId: cId,
+        entry: dataToSave,
+        site,
+        forDate: forDate.getTime(),
+        deviceLabel,
+        capturedAt: Date.now(),
+        attempts: 0,
+      };
+
+      await enqueueClockEntry(item);
+      setPendingEntries((prev) => [...prev, item]);
+
+      const result = await syncClockOutbox();
+
+      if (result?.synced.some((synced) => synced.id === item.id)) {
+        toast({ title: `Clock ${action.toUpperCase()} recorded for ${site.name}.` });
+      } else if (!result?.failed.some((failed) => failed.id === item.id)) {
+        toast({
+          title: `Clock ${action.toUpperCase()} saved offline`,
+          description: "It will sync automatically when you're back online.",
+        });
+      }
+      return;
+    } else {
+      await repos.entries.create(getCompanyId(settings), dataToSave);
+      toast({ title: `Clock ${action.toUpperCase()} recorded for ${site.name}.` });
+    }
+  },
+  [
+    employees,
+    loggedInEmployee,
+    coord,
+    engine,
+    repos,
+    settings,
+    sessions,
+    toast,
+    isClockedIn,
+    requestLocation,
+    getExpenseSitesForSchedule,
+    syncClockOutbox,
+  ]
+);
+
+
+  const deleteEntry = useCallback(
+    async (id: string) => {
+      const reason = window.prompt(
+        "Delete this time entry? Enter a reason for the audit log (optional)."
       );
+      if (reason === null) return;
 
-      employeesStillActive =
-        await getCloudSiteActiveStatus(
+      const before = entries.find((e) => e.id === id) ?? null;
+
+      if (engine === "cloud") {
+        const cId = getCompanyId(settings);
+        const docRef = doc(db, "companies", cId, "timeclock_entries", id);
+        const auditRef = doc(collection(db, "companies", cId, "timeclock_audit"));
+        const audit = buildEntryAudit({
+          id: auditRef.id,
+          change: "delete",
+          before,
+          after: null,
+          reason,
+          changedByUid: user?.uid,
+          changedByLabel,
+        });
+
+        try {
+          const batch = writeBatch(db);
+          batch.delete(docRef);
+          batch.set(auditRef, cleanForFirestore({ ...audit, createdAt: serverTimestamp() }));
+          await batch.commit();
+          toast({ title: "Entry deleted" });
+        } catch (e: any) {
+          errorEmitter.emit("permission-error", new FirestorePermissionError({ path: docRef.path, operation: "delete" }));
+          toast({ variant: "destructive", title: "Cloud delete failed", description: e.message, duration: 9000 });
+        }
+      } else {
+        const cId = getCompanyId(settings);
+        await repos.entries.remove(cId, id);
+        await repos.entryAudits.set(
           cId,
-          site.name
+          buildEntryAudit({ id: uuid(), change: "delete", before, after: null, reason, changedByLabel })
+        );
+        toast({ title: "Entry deleted" });
+      }
+    },
+    [engine, repos, settings, entries, user, changedByLabel, toast]
+  );
+
+  /**
+   * Manager edit of a time entry. Every edit writes an audit record in the
+   * same batch so history cannot drift from the entry itself.
+   */
+  const updateEntry = useCallback(
+    async (id: string, updates: Partial<Entry>, reason?: string) => {
+      const before = entries.find((e) => e.id === id) ?? null;
+
+      if (engine === "cloud") {
+        const cId = getCompanyId(settings);
+        const docRef = doc(db, "companies", cId, "timeclock_entries", id);
+        const auditRef = doc(collection(db, "companies", cId, "timeclock_audit"));
+        const audit = buildEntryAudit({
+          id: auditRef.id,
+          change: "update",
+          before,
+          after: updates,
+          reason,
+          changedByUid: user?.uid,
+          changedByLabel,
+        });
+
+        try {
+          const batch = writeBatch(db);
+          batch.update(docRef, cleanForFirestore({ ...updates, lastAuditId: auditRef.id }));
+          batch.set(auditRef, cleanForFirestore({ ...audit, createdAt: serverTimestamp() }));
+          await batch.commit();
+          toast({ title: "Entry updated" });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: docRef.path, operation: "update", requestResourceData: updates })
+          );
+          toast({ variant: "destructive", title: "Cloud update failed", description: e.message, duration: 9000 });
+        }
+      } else {
+        const cId = getCompanyId(settings);
+        await repos.entries.update(cId, id, updates);
+        await repos.entryAudits.set(
+          cId,
+          buildEntryAudit({ id: uuid(), change: "update", before, after: updates, reason, changedByLabel })
+        );
+        toast({ title: "Entry updated" });
+      }
+    },
+    [engine, repos, settings, entries, user, changedByLabel, toast]
+  );
+
+  // --- Time correction requests ---
+  const submitTimeCorrection = useCallback(
+    async (
+      input: Pick<TimeCorrectionRequest, "entryId" | "action" | "site" | "requestedTs" | "reason">
+    ) => {
+      if (!loggedInEmployee) return;
+
+      const current = input.entryId ? entries.find((e) => e.id === input.entryId) : undefined;
+      const base = {
+        ...input,
+        entryId: input.entryId ?? null,
+        currentTs: current?.ts ?? null,
+        employeeId: loggedInEmployee.id,
+        employeeName: loggedInEmployee.name,
+        status: "pending" as const,
+      };
+
+      if (engine === "cloud") {
+        const cId = getCompanyId(settings);
+        const reqRef = doc(collection(db, "companies", cId, "time_correction_requests"));
+        const payload: TimeCorrectionRequest = {
+          ...base,
+          id: reqRef.id,
+          requestedAt: serverTimestamp() as any,
+          requestedByUid: user?.uid || null,
+        };
+
+        try {
+          await setDoc(reqRef, cleanForFirestore(payload));
+          toast({
+            title: "Correction submitted",
+            description: "Your manager will review the time change.",
+          });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: reqRef.path, operation: "create", requestResourceData: payload })
+          );
+          toast({ variant: "destructive", title: "Could not submit correction", description: e.message, duration: 9000 });
+        }
+      } else {
+        setTimeCorrectionRequests((prev) => [{ ...base, id: uuid() }, ...prev]);
+        toast({ title: "Correction submitted (local mode)" });
+      }
+    },
+    [engine, settings, entries, loggedInEmployee, user, toast]
+  );
+
+  const approveTimeCorrection = useCallback(
+    async (requestId: string) => {
+      const req = timeCorrectionRequests.find((r) => r.id === requestId);
+      if (!req) {
+        toast({ variant: "destructive", title: "Request not found" });
+        return;
+      }
+
+      const before = req.entryId ? entries.find((e) => e.id === req.entryId) ?? null : null;
+      if (req.entryId && !before) {
+        toast({
+          variant: "destructive",
+          title: "Entry no longer exists",
+          description: "Reject this request and add the time manually if needed.",
+        });
+        return;
+      }
+
+      const reason = `Employee correction: ${req.reason}`;
+      const cId = getCompanyId(settings);
+
+      const newEntry: Omit<Entry, "id"> = {
+        employee: req.employeeName,
+        employeeId: req.employeeId,
+        action: req.action,
+        ts: req.requestedTs,
+        site: req.site,
+        siteId: resolveSite(settings.sites ?? [], undefined, req.site)?.id,
+        note: `[CORRECTION] ${req.reason}`,
+      };
+
+      if (engine === "cloud") {
+        const entryRef = before
+          ? doc(db, "companies", cId, "timeclock_entries", before.id)
+          : doc(collection(db, "companies", cId, "timeclock_entries"));
+        const auditRef = doc(collection(db, "companies", cId, "timeclock_audit"));
+
+        const audit = buildEntryAudit({
+          id: auditRef.id,
+          change: before ? "update" : "create",
+          before,
+          after: before ? { ts: req.requestedTs } : { ...newEntry, id: entryRef.id },
+          reason,
+          changedByUid: user?.uid,
+          changedByLabel,
+          correctionRequestId: req.id,
+        });
+
+        const batch = writeBatch(db);
+        if (before) {
+          batch.update(entryRef, { ts: req.requestedTs, lastAuditId: auditRef.id });
+        } else {
+          batch.set(entryRef, { ...cleanForFirestore(newEntry), createdAt: serverTimestamp() });
+        }
+        batch.set(auditRef, cleanForFirestore({ ...audit, createdAt: serverTimestamp() }));
+        batch.update(doc(db, "companies", cId, "time_correction_requests", requestId), {
+          status: "approved",
+          approvedAt: serverTimestamp(),
+          approvedByUid: user?.uid || null,
+          appliedEntryId: entryRef.id,
+        });
+
+        try {
+          await batch.commit();
+          toast({ title: "Time correction approved", description: `Applied for ${req.employeeName}.` });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({
+              path: `companies/${cId}`,
+              operation: "update",
+              requestResourceData: { request: req.id },
+            })
+          );
+          toast({ variant: "destructive", title: "Could not approve correction", description: e.message, duration: 9000 });
+        }
+      } else {
+        const entryId = before?.id ?? uuid();
+        if (before) {
+          await repos.entries.update(cId, before.id, { ts: req.requestedTs });
+        } else {
+          await repos.entries.set(cId, { ...newEntry, id: entryId });
+        }
+        await repos.entryAudits.set(
+          cId,
+          buildEntryAudit({
+            id: uuid(),
+            change: before ? "update" : "create",
+            before,
+            after: before ? { ts: req.requestedTs } : { ...newEntry, id: entryId },
+            reason,
+            changedByLabel,
+            correctionRequestId: req.id,
+          })
+        );
+        setTimeCorrectionRequests((prev) =>
+          prev.map((r) => (r.id === requestId ? { ...r, status: "approved", appliedEntryId: entryId } : r))
+        );
+        toast({ title: "Time correction approved (local mode)" });
+      }
+    },
+    [engine, repos, settings, entries, timeCorrectionRequests, user, changedByLabel, toast]
+  );
+
+  const rejectTimeCorrection = useCallback(
+    async (requestId: string, reason?: string) => {
+      const cId = getCompanyId(settings);
+      const rejectionPayload = {
+        status: "rejected" as const,
+        rejectedAt: serverTimestamp(),
+        rejectedByUid: user?.uid || null,
+        rejectionReason: reason || null,
+      };
+
+      if (engine === "cloud") {
+        const reqRef = doc(db, "companies", cId, "time_correction_requests", requestId);
+        try {
+          await updateDoc(reqRef, cleanForFirestore(rejectionPayload));
+          toast({ title: "Time correction rejected", description: reason || undefined });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: reqRef.path, operation: "update", requestResourceData: rejectionPayload })
+          );
+          toast({ variant: "destructive", title: "Could not reject correction", description: e.message, duration: 9000 });
+        }
+      } else {
+        setTimeCorrectionRequests((prev) =>
+          prev.map((r) => (r.id === requestId ? { ...r, status: "rejected", rejectionReason: reason || null } : r))
+        );
+        toast({ title: "Time correction rejected (local mode)" });
+      }
+    },
+    [engine, settings, user, toast]
+  );
+
+  // --- Time off requests ---
+  const submitTimeOff = useCallback(
+    async (input: Pick<TimeOffRequest, "startDate" | "endDate" | "reason">) => {
+      if (!loggedInEmployee) return;
+
+      const base = {
+        ...input,
+        reason: input.reason || null,
+        employeeId: loggedInEmployee.id,
+        employeeName: loggedInEmployee.name,
+        status: "pending" as const,
+      };
+
+      if (engine === "cloud") {
+        const cId = getCompanyId(settings);
+        const reqRef = doc(collection(db, "companies", cId, "time_off_requests"));
+        const payload: TimeOffRequest = {
+          ...base,
+          id: reqRef.id,
+          requestedAt: serverTimestamp() as any,
+          requestedByUid: user?.uid || null,
+        };
+
+        try {
+          await setDoc(reqRef, cleanForFirestore(payload));
+          toast({
+            title: "Time off requested",
+            description: "Your manager will review the request.",
+          });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: reqRef.path, operation: "create", requestResourceData: payload })
+          );
+          toast({ variant: "destructive", title: "Could not request time off", description: e.message, duration: 9000 });
+        }
+      } else {
+        setTimeOffRequests((prev) => [{ ...base, id: uuid() }, ...prev]);
+        toast({ title: "Time off requested (local mode)" });
+      }
+    },
+    [engine, settings, loggedInEmployee, user, toast]
+  );
+
+  const approveTimeOff = useCallback(
+    async (requestId: string) => {
+      const req = timeOffRequests.find((r) => r.id === requestId);
+      if (!req) {
+        toast({ variant: "destructive", title: "Request not found" });
+        return;
+      }
+
+      const approvalPayload = {
+        status: "approved" as const,
+        approvedAt: serverTimestamp(),
+        approvedByUid: user?.uid || null,
+      };
+
+      if (engine === "cloud") {
+        const cId = getCompanyId(settings);
+        const reqRef = doc(db, "companies", cId, "time_off_requests", requestId);
+        try {
+          await updateDoc(reqRef, cleanForFirestore(approvalPayload));
+          toast({ title: "Time off approved", description: `${req.employeeName}, ${req.startDate} – ${req.endDate}` });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: reqRef.path, operation: "update", requestResourceData: approvalPayload })
+          );
+          toast({ variant: "destructive", title: "Could not approve time off", description: e.message, duration: 9000 });
+        }
+      } else {
+        setTimeOffRequests((prev) =>
+          prev.map((r) => (r.id === requestId ? { ...r, status: "approved" } : r))
+        );
+        toast({ title: "Time off approved (local mode)" });
+      }
+    },
+    [engine, settings, timeOffRequests, user, toast]
+  );
+
+  const rejectTimeOff = useCallback(
+    async (requestId: string, reason?: string) => {
+      const cId = getCompanyId(settings);
+      const rejectionPayload = {
+        status: "rejected" as const,
+        rejectedAt: serverTimestamp(),
+        rejectedByUid: user?.uid || null,
+        rejectionReason: reason || null,
+      };
+
+      if (engine === "cloud") {
+        const reqRef = doc(db, "companies", cId, "time_off_requests", requestId);
+        try {
+          await updateDoc(reqRef, cleanForFirestore(rejectionPayload));
+          toast({ title: "Time off rejected", description: reason || undefined });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: reqRef.path, operation: "update", requestResourceData: rejectionPayload })
+          );
+          toast({ variant: "destructive", title: "Could not reject time off", description: e.message, duration: 9000 });
+        }
+      } else {
+        setTimeOffRequests((prev) =>
+          prev.map((r) => (r.id === requestId ? { ...r, status: "rejected", rejectionReason: reason || null } : r))
+        );
+        toast({ title: "Time off rejected (local mode)" });
+      }
+    },
+    [engine, settings, user, toast]
+  );
+
+  // --- Shift swaps ---
+  const offerShift = useCallback(
+    async (input: Pick<ShiftSwap, "kind" | "scheduleId" | "scheduleDate" | "siteName" | "note">) => {
+      if (!loggedInEmployee) return;
+
+      const base = {
+        ...input,
+        note: input.note || null,
+        employeeId: loggedInEmployee.id,
+        employeeName: loggedInEmployee.name,
+        status: "open" as const,
+      };
+
+      if (engine === "cloud") {
+        const cId = getCompanyId(settings);
+        const swapRef = doc(collection(db, "companies", cId, "shift_swaps"));
+        const payload: ShiftSwap = {
+          ...base,
+          id: swapRef.id,
+          requestedAt: serverTimestamp() as any,
+          requestedByUid: user?.uid || null,
+        };
+
+        try {
+          await setDoc(swapRef, cleanForFirestore(payload));
+          toast({
+            title: input.kind === "swap" ? "Shift offered for swap" : "Shift posted to open shifts",
+            description: "You stay on it until a coworker claims it and your manager approves.",
+          });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: swapRef.path, operation: "create", requestResourceData: payload })
+          );
+          toast({ variant: "destructive", title: "Could not offer shift", description: e.message, duration: 9000 });
+        }
+      } else {
+        setShiftSwaps((prev) => [...prev, { ...base, id: uuid() }]);
+        toast({ title: "Shift offered (local mode)" });
+      }
+    },
+    [engine, settings, loggedInEmployee, user, toast]
+  );
+
+  const claimShift = useCallback(
+    async (
+      swapId: string,
+      returnShift?: Pick<ShiftSwap, "returnScheduleId" | "returnScheduleDate" | "returnSiteName">
+    ) => {
+      if (!loggedInEmployee) return;
+
+      const claim = {
+        status: "claimed" as const,
+        claimedByEmployeeId: loggedInEmployee.id,
+        claimedByName: loggedInEmployee.name,
+        ...(returnShift ?? {}),
+      };
+
+      if (engine === "cloud") {
+        const cId = getCompanyId(settings);
+        const swapRef = doc(db, "companies", cId, "shift_swaps", swapId);
+        const payload = { ...claim, claimedAt: serverTimestamp(), claimedByUid: user?.uid || null };
+
+        try {
+          await updateDoc(swapRef, cleanForFirestore(payload));
+          toast({ title: "Shift claimed", description: "Your manager will review the change." });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: swapRef.path, operation: "update", requestResourceData: payload })
+          );
+          toast({ variant: "destructive", title: "Could not claim shift", description: e.message, duration: 9000 });
+        }
+      } else {
+        setShiftSwaps((prev) => prev.map((s) => (s.id === swapId ? { ...s, ...claim } : s)));
+        toast({ title: "Shift claimed (local mode)" });
+      }
+    },
+    [engine, settings, loggedInEmployee, user, toast]
+  );
+
+  const cancelShiftSwap = useCallback(
+    async (swapId: string) => {
+      if (engine === "cloud") {
+        const cId = getCompanyId(settings);
+        const swapRef = doc(db, "companies", cId, "shift_swaps", swapId);
+        try {
+          await updateDoc(swapRef, { status: "cancelled" });
+          toast({ title: "Shift offer withdrawn" });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: swapRef.path, operation: "update", requestResourceData: { status: "cancelled" } })
+          );
+          toast({ variant: "destructive", title: "Could not withdraw offer", description: e.message, duration: 9000 });
+        }
+      } else {
+        setShiftSwaps((prev) => prev.map((s) => (s.id === swapId ? { ...s, status: "cancelled" } : s)));
+        toast({ title: "Shift offer withdrawn (local mode)" });
+      }
+    },
+    [engine, settings, toast]
+  );
+
+  const approveShiftSwap = useCallback(
+    async (swapId: string) => {
+      const swap = shiftSwaps.find((s) => s.id === swapId);
+      if (!swap || swap.status !== "claimed") {
+        toast({ variant: "destructive", title: "Nothing to approve", description: "The shift has not been claimed." });
+        return;
+      }
+
+      // Handoff dates are the days worked; overrides are keyed by the day
+      // the series generates, which differs for a moved visit.
+      const handoffs = swapHandoffs(swap, employees);
+      const changes = handoffs.map((handoff) => {
+        const schedule = schedules.find((s) => s.id === handoff.scheduleId);
+        const existing = occurrenceOverrideOn(occurrenceOverrides, handoff.scheduleId, handoff.date);
+        const assignment = schedule
+          ? handOffAssignment(applyOccurrenceOverride(schedule, existing), handoff, employees)
+          : null;
+
+        const override: OccurrenceOverride = {
+          ...(existing ?? { scheduleId: handoff.scheduleId, date: handoff.date }),
+          id: existing?.date ?? handoff.date,
+          changes: { ...existing?.changes, ...assignment },
+          shiftSwapId: swap.id,
+        };
+        return { assignment, override };
+      });
+
+      if (!handoffs.length || changes.some((c) => !c.assignment)) {
+        toast({
+          variant: "destructive",
+          title: "Assignments have changed",
+          description: "One of the employees is no longer on that shift. Reject this request instead.",
+        });
+        return;
+      }
+
+      if (engine === "cloud") {
+        const cId = getCompanyId(settings);
+        const batch = writeBatch(db);
+        changes.forEach(({ override }) => {
+          batch.set(
+            doc(db, "companies", cId, "schedules", override.scheduleId, "occurrence_overrides", override.id),
+            {
+              ...cleanForFirestore(override),
+              companyId: cId,
+              updatedAt: serverTimestamp(),
+              updatedByUid: user?.uid || null,
+            }
+          );
+        });
+        batch.update(doc(db, "companies", cId, "shift_swaps", swapId), {
+          status: "approved",
+          approvedAt: serverTimestamp(),
+          approvedByUid: user?.uid || null,
+        });
+
+        try {
+          await batch.commit();
+          toast({
+            title: "Shift change approved",
+            description: `${swap.claimedByName} takes ${swap.siteName} on ${swap.scheduleDate}.`,
+          });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({
+              path: `companies/${cId}`,
+              operation: "update",
+              requestResourceData: { shiftSwap: swapId },
+            })
+          );
+          toast({ variant: "destructive", title: "Could not approve shift change", description: e.message, duration: 9000 });
+        }
+      } else {
+        setOccurrenceOverrides((prev) => [
+          ...prev.filter(
+            (o) => !changes.some((c) => c.override.scheduleId === o.scheduleId && c.override.date === o.date)
+          ),
+          ...changes.map((c) => c.override),
+        ]);
+        setShiftSwaps((prev) => prev.map((s) => (s.id === swapId ? { ...s, status: "approved" } : s)));
+        toast({ title: "Shift change approved (local mode)" });
+      }
+    },
+    [engine, settings, shiftSwaps, schedules, occurrenceOverrides, employees, user, toast]
+  );
+
+  const rejectShiftSwap = useCallback(
+    async (swapId: string, reason?: string) => {
+      const cId = getCompanyId(settings);
+      const rejectionPayload = {
+        status: "rejected" as const,
+        rejectedAt: serverTimestamp(),
+        rejectedByUid: user?.uid || null,
+        rejectionReason: reason || null,
+      };
+
+      if (engine === "cloud") {
+        const swapRef = doc(db, "companies", cId, "shift_swaps", swapId);
+        try {
+          await updateDoc(swapRef, cleanForFirestore(rejectionPayload));
+          toast({ title: "Shift change rejected", description: reason || undefined });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: swapRef.path, operation: "update", requestResourceData: rejectionPayload })
+          );
+          toast({ variant: "destructive", title: "Could not reject shift change", description: e.message, duration: 9000 });
+        }
+      } else {
+        setShiftSwaps((prev) =>
+          prev.map((s) => (s.id === swapId ? { ...s, status: "rejected", rejectionReason: reason || null } : s))
         );
-    }
+        toast({ title: "Shift change rejected (local mode)" });
+      }
+    },
+    [engine, settings, user, toast]
+  );
 
-    if (!employeesStillActive) {
-  const expenseSites =
-    getExpenseSitesForSchedule(
+  // --- Visit checklists ---
+  const setChecklistItem = useCallback(
+    async ({
+      scheduleId,
+      scheduleDate,
       site,
-      scheduleId
-    );
-
-  for (const expenseSite of expenseSites) {
-    await ensureMonthlySiteExpenses({
-      companyId: cId,
-      site: expenseSite,
-      serviceDate: completedServiceDate,
-    });
-  }
+      itemId,
+      checked,
+      photo,
+    }: {
+      scheduleId: string;
+      scheduleDate: string;
+      site: Site;
+      itemId: string;
+      checked: boolean;
+      photo?: Pick<ChecklistCheck, "photoUrl" | "photoPath">;
+    }) => {
+      if (!loggedInEmployee) return;
 
-  console.log(
-  "[MONTHLY SITE EXPENSES] ensured after final clock-out",
-  {
-    companyId: cId,
-    scheduleId,
-    primarySiteId: site.id,
-    primarySiteName: site.name,
-    expenseSites: expenseSites.map(
-      (item) => ({
-        id: item.id,
-        name: item.name,
-      })
-    ),
-    serviceDate: completedServiceDate,
-  }
-);
-    }
-  } catch (expenseError) {
-    console.error(
-      "[MONTHLY SITE EXPENSES] generation failed",
-      {
-        companyId: cId,
-        siteId: site.id,
-        siteName: site.name,
-        serviceDate: completedServiceDate,
-        error: expenseError,
-      }
-    );
+      const id = visitChecklistId(scheduleId, scheduleDate, site.id);
+      const existing = visitChecklists.find((v) => v.id === id);
+      // The first tick of a visit copies the site's template.
+      const template = existing ? null : instantiateVisitChecklist({ scheduleId, scheduleDate, site });
+      const check: ChecklistCheck = cleanForFirestore({
+        checkedAt: Date.now(),
+        employeeId: loggedInEmployee.id,
+        employeeName: loggedInEmployee.name,
+        photoUrl: photo?.photoUrl ?? existing?.checks?.[itemId]?.photoUrl ?? null,
+        photoPath: photo?.photoPath ?? existing?.checks?.[itemId]?.photoPath ?? null,
+      });
 
-    toast({
-      variant: "destructive",
-      title:
-        "Clock-out saved, but monthly fees were not created",
-      description:
-        "The employee was clocked out successfully. Check the site's fee configuration and cloud permissions.",
-      duration: 9000,
-    });
-  }
-}
+      if (engine === "cloud") {
+        const cId = getCompanyId(settings);
+        const ref = doc(db, "companies", cId, "visit_checklists", id);
+        const payload = {
+          ...(template ? { ...cleanForFirestore(template), createdAt: serverTimestamp() } : {}),
+          checks: { [itemId]: checked ? check : deleteField() },
+          ...(checked ? { employeeIds: arrayUnion(loggedInEmployee.id) } : {}),
+          updatedAt: serverTimestamp(),
+        };
 
+        try {
+          await setDoc(ref, payload, { merge: true });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: ref.path, operation: existing ? "update" : "create", requestResourceData: payload })
+          );
+          toast({ variant: "destructive", title: "Could not update checklist", description: e.message, duration: 9000 });
+        }
+      } else {
+        setVisitChecklists((prev) => {
+          const base = prev.find((v) => v.id === id) ?? template;
+          if (!base) return prev;
 
-      const source = context?.source;
+          const checks = { ...base.checks };
+          if (checked) checks[itemId] = check;
+          else delete checks[itemId];
 
-const isActualManagerAction =
-  source === "manager-schedule-view" ||
-  source === "manager-manual-entry";
+          const employeeIds =
+            checked && !base.employeeIds.includes(loggedInEmployee.id)
+              ? [...base.employeeIds, loggedInEmployee.id]
+              : base.employeeIds;
 
-const deviceLabel = isActualManagerAction
-  ? "Manager override"
-  : getDeviceLabel();
-      // ✅ CREATE NOTIFICATION
-await addDoc(
-  collection(db, "companies", cId, "notifications"),
-  {
-    type: "clock",
-    employeeId: targetEmployee.id,
-    employeeName: targetEmployee.name,
-    action, // "in" | "out"
-    site: site.name,
-    ts: dataToSave.ts,
-    deviceLabel,
-    createdAt: serverTimestamp(),
-    read: false,
-  }
-);
-      toast({ title: `Clock ${action.toUpperCase()} recorded for ${site.name}.` });
-    } else {
-      setEntries((prev) => [
-        ...prev,
-        { id: uuid(), ...(dataToSave as any) } as Entry,
-      ]);
-      toast({ title: `Clock ${action.toUpperCase()} recorded for ${site.name}.` });
-    }
-  },
-  [
-    employees,
-    loggedInEmployee,
-    coord,
-    engine,
-    settings,
-    sessions,
-    toast,
-    isClockedIn,
-    requestLocation,
-    getExpenseSitesForSchedule,
-  ]
-);
+          return [...prev.filter((v) => v.id !== id), { ...base, checks, employeeIds }];
+        });
+      }
+    },
+    [engine, settings, visitChecklists, loggedInEmployee, toast]
+  );
 
+  // --- Visit photos ---
+  const addVisitPhoto = useCallback(
+    async (photo: VisitPhoto) => {
+      if (engine === "cloud") {
+        const cId = getCompanyId(settings);
+        const ref = doc(db, "companies", cId, "visit_photos", photo.id);
+        const payload = { ...cleanForFirestore(photo), createdAt: serverTimestamp() };
 
-  const deleteEntry = useCallback(
-    async (id: string) => {
-      if (!window.confirm("Are you sure you want to delete this time entry?")) return;
+        try {
+          await setDoc(ref, payload);
+          toast({ title: "Photo saved", description: `${photo.siteName} • ${photo.kind}` });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: ref.path, operation: "create", requestResourceData: payload })
+          );
+          toast({ variant: "destructive", title: "Could not save photo", description: e.message, duration: 9000 });
+        }
+      } else {
+        setVisitPhotos((prev) => [...prev, photo]);
+        toast({ title: "Photo saved (local mode)" });
+      }
+    },
+    [engine, settings, toast]
+  );
 
+  const updateVisitPhoto = useCallback(
+    async (id: string, updates: Partial<Pick<VisitPhoto, "caption" | "includeInClientReport">>) => {
       if (engine === "cloud") {
         const cId = getCompanyId(settings);
-        const docRef = doc(db, "companies", cId, "timeclock_entries", id);
+        const ref = doc(db, "companies", cId, "visit_photos", id);
         try {
-          await deleteDoc(docRef);
-          toast({ title: "Entry deleted" });
+          await updateDoc(ref, cleanForFirestore(updates));
         } catch (e: any) {
-          errorEmitter.emit("permission-error", new FirestorePermissionError({ path: docRef.path, operation: "delete" }));
-          toast({ variant: "destructive", title: "Cloud delete failed", description: e.message, duration: 9000 });
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: ref.path, operation: "update", requestResourceData: updates })
+          );
+          toast({ variant: "destructive", title: "Could not update photo", description: e.message, duration: 9000 });
         }
       } else {
-        setEntries((prev) => prev.filter((e) => e.id !== id));
-        toast({ title: "Entry deleted" });
+        setVisitPhotos((prev) => prev.map((p) => (p.id === id ? { ...p, ...updates } : p)));
       }
     },
     [engine, settings, toast]
   );
 
-  const updateEntry = useCallback(
-    async (id: string, updates: Partial<Entry>) => {
+  const deleteVisitPhoto = useCallback(
+    async (id: string) => {
+      const photo = visitPhotos.find((p) => p.id === id);
+      if (!photo || !window.confirm("Delete this photo? This cannot be undone.")) return;
+
       if (engine === "cloud") {
         const cId = getCompanyId(settings);
-        const docRef = doc(db, "companies", cId, "timeclock_entries", id);
+        const ref = doc(db, "companies", cId, "visit_photos", id);
         try {
-          await updateDoc(docRef, cleanForFirestore(updates));
-          toast({ title: "Entry updated" });
+          await deleteDoc(ref);
+          await deleteVisitPhotoFile(photo.path);
+          toast({ title: "Photo deleted" });
         } catch (e: any) {
           errorEmitter.emit(
             "permission-error",
-            new FirestorePermissionError({ path: docRef.path, operation: "update", requestResourceData: updates })
+            new FirestorePermissionError({ path: ref.path, operation: "delete" })
           );
-          toast({ variant: "destructive", title: "Cloud update failed", description: e.message, duration: 9000 });
+          toast({ variant: "destructive", title: "Could not delete photo", description: e.message, duration: 9000 });
         }
       } else {
-        setEntries((prev) => prev.map((e) => (e.id === id ? ({ ...e, ...updates } as Entry) : e)));
-        toast({ title: "Entry updated" });
+        setVisitPhotos((prev) => prev.filter((p) => p.id !== id));
       }
     },
-    [engine, settings, toast]
+    [engine, settings, visitPhotos, toast]
   );
 
   // --- Schedule ---
@@ -1695,11 +2367,11 @@ await addDoc(
           });
         }
       } else {
-        setSchedules((prev) => [...prev, { id: uuid(), ...scheduleData, exceptionDates: [] } as CleaningSchedule]);
+        await repos.schedules.create(getCompanyId(settings), { ...scheduleData, exceptionDates: [] });
         toast({ title: "Schedule added" });
       }
     },
-    [engine, settings, toast, notifyEmployeesAboutSchedule]
+    [engine, repos, settings, toast, notifyEmployeesAboutSchedule]
   );
 
   const updateSchedule = useCallback(
@@ -1708,7 +2380,7 @@ await addDoc(
         const cId = getCompanyId(settings);
         const docRef = doc(db, "companies", cId, "schedules", id);
         try {
-          await updateDoc(docRef, cleanForFirestore(updates));
+          await repos.schedules.update(cId, id, updates);
           toast({ title: "Schedule updated" });
           const existing = schedules.find((s) => s.id === id);
           await notifyEmployeesAboutSchedule({
@@ -1724,12 +2396,12 @@ await addDoc(
           toast({ variant: "destructive", title: "Cloud write failed", description: e.message, duration: 9000 });
         }
       } else {
-        setSchedules((prev) => prev.map((s) => (s.id === id ? ({ ...s, ...updates } as CleaningSchedule) : s)));
+        await repos.schedules.update(getCompanyId(settings), id, updates);
         toast({ title: "Schedule updated" });
         
       }
     },
-    [engine, settings, toast, schedules, notifyEmployeesAboutSchedule]
+    [engine, repos, settings, toast, schedules, notifyEmployeesAboutSchedule]
   );
 
   const deleteSchedule = useCallback(
@@ -1741,7 +2413,13 @@ await addDoc(
         const docRef = doc(db, "companies", cId, "schedules", id);
          const existing = schedules.find((s) => s.id === id);
         try {
-          await deleteDoc(docRef);
+          // Subcollections outlive their parent, so remove the overrides too
+          const batch = writeBatch(db);
+          occurrenceOverrides
+            .filter((o) => o.scheduleId === id)
+            .forEach((o) => batch.delete(doc(docRef, "occurrence_overrides", o.id)));
+          batch.delete(docRef);
+          await batch.commit();
           toast({ title: "Schedule deleted" });
          
           if (existing) {
@@ -1755,12 +2433,119 @@ await addDoc(
           toast({ variant: "destructive", title: "Cloud delete failed", description: e.message, duration: 9000 });
         }
       } else {
-        setSchedules((prev) => prev.filter((s) => s.id !== id));
+        await repos.schedules.remove(getCompanyId(settings), id);
+        setOccurrenceOverrides((prev) => prev.filter((o) => o.scheduleId !== id));
         toast({ title: "Schedule deleted" });
       }
     },
-    [engine, settings, toast, schedules, notifyEmployeesAboutSchedule]
+    [engine, repos, settings, toast, schedules, occurrenceOverrides, notifyEmployeesAboutSchedule]
+  );
+
+  // --- Occurrence overrides ---
+  // An override with nothing left in it is removed so the day follows its series again.
+  const saveOccurrenceOverride = useCallback(
+    async (override: Omit<OccurrenceOverride, "id">) => {
+      const isEmpty =
+        !Object.keys(override.changes ?? {}).length && !override.movedTo && !override.cancelled;
+      const record: OccurrenceOverride = { ...override, id: override.date };
+
+      if (engine === "cloud") {
+        const cId = getCompanyId(settings);
+        const ref = doc(
+          db, "companies", cId, "schedules", override.scheduleId, "occurrence_overrides", override.date
+        );
+        const payload = {
+          ...cleanForFirestore(record),
+          companyId: cId,
+          updatedAt: serverTimestamp(),
+          updatedByUid: user?.uid || null,
+        };
+
+        try {
+          if (isEmpty) {
+            await deleteDoc(ref);
+          } else {
+            await setDoc(ref, payload);
+          }
+          toast({ title: isEmpty ? "Visit follows its schedule again" : "Visit updated for this day" });
+        } catch (e: any) {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({
+              path: ref.path,
+              operation: isEmpty ? "delete" : "update",
+              requestResourceData: payload,
+            })
+          );
+          toast({ variant: "destructive", title: "Could not update visit", description: e.message, duration: 9000 });
+        }
+      } else {
+        setOccurrenceOverrides((prev) => [
+          ...prev.filter((o) => !(o.scheduleId === override.scheduleId && o.date === override.date)),
+          ...(isEmpty ? [] : [record]),
+        ]);
+        toast({ title: "Visit updated for this day" });
+      }
+    },
+    [engine, settings, user, toast]
+  );
+
+
+
+  // Company data migrations (src/lib/migrations)
+  const migrationData = useMemo(
+    () => ({
+      schedules,
+      occurrenceOverrides,
+      entries: syncedEntries,
+      invoices,
+      mileageLogs,
+      otherExpenses,
+      employees: employeeDirectory,
+      payrollPeriods,
+    }),
+    [
+      schedules,
+      occurrenceOverrides,
+      syncedEntries,
+      invoices,
+      mileageLogs,
+      otherExpenses,
+      employeeDirectory,
+      payrollPeriods,
+    ]
   );
+  const setMigrationData = useCallback((data: typeof migrationData) => {
+    replaceLocalRows("schedules", data.schedules);
+    replaceLocalRows("entries", data.entries);
+    replaceLocalRows("mileageLogs", data.mileageLogs);
+    replaceLocalRows("otherExpenses", data.otherExpenses);
+    replaceLocalRows("employees", data.employees);
+    replaceLocalRows("payrollPeriods", data.payrollPeriods);
+    saveLocalInvoices(data.invoices);
+    setInvoices(data.invoices);
+    setOccurrenceOverrides(data.occurrenceOverrides);
+  }, []);
+  const migrations = useMigrations({
+    engine,
+    companyId,
+    ready: engine === "cloud" ? cloudReady && isManagerRole(memberAccess.role) : localDataLoaded,
+    settings,
+    updateSettings,
+    localData: migrationData,
+    setLocalData: setMigrationData,
+  });
+
+  // Full company backup (src/lib/backup.ts)
+  const backup = useCompanyBackup({
+    engine,
+    companyId,
+    settings,
+    updateSettings,
+    schemaVersion: migrations.schemaVersion,
+    localData: migrationData,
+    setLocalData: setMigrationData,
+  });
 
   // --- Sites ---
   const deleteSite = useCallback(
@@ -1778,7 +2563,9 @@ await addDoc(
       )
         return;
 
-      const schedulesToDelete = schedules.filter((s) => s.siteName === siteToDelete.name);
+      const isSiteSchedule = (s: CleaningSchedule) =>
+        s.siteId ? s.siteId === siteId : s.siteName === siteToDelete.name;
+      const schedulesToDelete = schedules.filter(isSiteSchedule);
 
       if (engine === "cloud") {
         const cId = getCompanyId(settings);
@@ -1787,9 +2574,7 @@ await addDoc(
         schedulesToDelete.forEach((schedule) => {
           batch.delete(doc(db, "companies", cId, "schedules", schedule.id));
         });
-
-        const updatedSites = (settings.sites ?? []).filter((s) => s.id !== siteId);
-        batch.set(doc(db, "companies", cId, "settings", "main"), { sites: updatedSites }, { merge: true });
+        batch.delete(doc(db, "companies", cId, "sites", siteId));
 
         try {
           await batch.commit();
@@ -1798,20 +2583,20 @@ await addDoc(
           errorEmitter.emit(
             "permission-error",
             new FirestorePermissionError({
-              path: `companies/${cId}`,
-              operation: "update",
-              requestResourceData: { sites: updatedSites },
+              path: `companies/${cId}/sites/${siteId}`,
+              operation: "delete",
             })
           );
           toast({ variant: "destructive", title: "Cloud delete failed", description: e.message, duration: 9000 });
         }
       } else {
-        setSchedules((prev) => prev.filter((s) => s.siteName !== siteToDelete.name));
+        const cId = getCompanyId(settings);
+        await Promise.all(schedulesToDelete.map((schedule) => repos.schedules.remove(cId, schedule.id)));
         updateSettings((s) => ({ ...s, sites: (s.sites ?? []).filter((x) => x.id !== siteId) }));
         toast({ title: `Site "${siteToDelete.name}" and its schedules have been deleted.` });
       }
     },
-    [engine, schedules, settings.sites, toast, updateSettings, settings]
+    [engine, repos, schedules, settings.sites, toast, updateSettings, settings]
   );
 
   // --- Mileage ---
@@ -1839,56 +2624,51 @@ await addDoc(
           });
         }
       } else {
-        setMileageLogs((prev) => [...prev, { id: uuid(), ...logData } as MileageLog]);
+        await repos.mileageLogs.create(getCompanyId(settings), logData);
         toast({ title: "Mileage log added" });
       }
     },
-    [engine, settings, toast]
+    [engine, repos, settings, toast]
   );
 
   const updateMileageLog = useCallback(
     async (id: string, updates: Partial<MileageLog>) => {
-      if (engine === "cloud") {
-        const cId = getCompanyId(settings);
-        const docRef = doc(db, "companies", cId, "mileage_logs", id);
-        try {
-          await updateDoc(docRef, cleanForFirestore(updates));
-          toast({ title: "Mileage log updated" });
-        } catch (e: any) {
-          errorEmitter.emit(
-            "permission-error",
-            new FirestorePermissionError({ path: docRef.path, operation: "update", requestResourceData: updates })
-          );
-          toast({ variant: "destructive", title: "Cloud write failed", description: e.message, duration: 9000 });
-        }
-      } else {
-        setMileageLogs((prev) => prev.map((l) => (l.id === id ? ({ ...l, ...updates } as MileageLog) : l)));
+      const cId = getCompanyId(settings);
+      try {
+        await repos.mileageLogs.update(cId, id, updates);
         toast({ title: "Mileage log updated" });
+      } catch (e: any) {
+        errorEmitter.emit(
+          "permission-error",
+          new FirestorePermissionError({
+            path: `companies/${cId}/mileage_logs/${id}`,
+            operation: "update",
+            requestResourceData: updates,
+          })
+        );
+        toast({ variant: "destructive", title: "Cloud write failed", description: e.message, duration: 9000 });
       }
     },
-    [engine, settings, toast]
+    [repos, settings, toast]
   );
 
   const deleteMileageLog = useCallback(
     async (id: string) => {
       if (!window.confirm("Are you sure you want to delete this mileage log?")) return;
 
-      if (engine === "cloud") {
-        const cId = getCompanyId(settings);
-        const docRef = doc(db, "companies", cId, "mileage_logs", id);
-        try {
-          await deleteDoc(docRef);
-          toast({ title: "Mileage log deleted" });
-        } catch (e: any) {
-          errorEmitter.emit("permission-error", new FirestorePermissionError({ path: docRef.path, operation: "delete" }));
-          toast({ variant: "destructive", title: "Cloud delete failed", description: e.message, duration: 9000 });
-        }
-      } else {
-        setMileageLogs((prev) => prev.filter((l) => l.id !== id));
+      const cId = getCompanyId(settings);
+      try {
+        await repos.mileageLogs.remove(cId, id);
         toast({ title: "Mileage log deleted" });
+      } catch (e: any) {
+        errorEmitter.emit(
+          "permission-error",
+          new FirestorePermissionError({ path: `companies/${cId}/mileage_logs/${id}`, operation: "delete" })
+        );
+        toast({ variant: "destructive", title: "Cloud delete failed", description: e.message, duration: 9000 });
       }
     },
-    [engine, settings, toast]
+    [repos, settings, toast]
   );
 
   // --- Other Expenses ---
@@ -1924,11 +2704,11 @@ await addDoc(
   });
 }
       } else {
-        setOtherExpenses((prev) => [...prev, { id: uuid(), ...expenseData } as OtherExpense]);
+        await repos.otherExpenses.create(cId, expenseData);
         toast({ title: "Expense added (local)" });
       }
     },
-    [engine, settings, toast]
+    [engine, repos, settings, toast]
   );
 
   const updateOtherExpense = useCallback(
@@ -1956,11 +2736,11 @@ await addDoc(
           });
         }
       } else {
-        setOtherExpenses((prev) => prev.map((e) => (e.id === id ? ({ ...e, ...updates } as OtherExpense) : e)));
+        await repos.otherExpenses.update(cId, id, updates);
         toast({ title: "Expense updated (local)" });
       }
     },
-    [engine, settings, toast]
+    [engine, repos, settings, toast]
   );
 
   const deleteOtherExpense = useCallback(
@@ -1989,11 +2769,11 @@ await addDoc(
           });
         }
       } else {
-        setOtherExpenses((prev) => prev.filter((e) => e.id !== id));
+        await repos.otherExpenses.remove(cId, id);
         toast({ title: "Expense deleted (local)" });
       }
     },
-    [engine, settings, toast, otherExpenses]
+    [engine, repos, settings, toast, otherExpenses]
   );
 
   // --- Employees ---
@@ -2004,14 +2784,15 @@ await addDoc(
           const cId = getCompanyId(settings);
           const newDocRef = doc(collection(db, "companies", cId, "employees"));
           const dataToSave: Employee = { ...employeeData, id: newDocRef.id };
+          const { publicData, privateData } = splitEmployeePrivate(dataToSave);
 
-          await writeThenVerify(newDocRef as any, cleanForFirestore(dataToSave) as any, "ADD_EMPLOYEE");
+          await writeThenVerify(newDocRef as any, cleanForFirestore(publicData) as any, "ADD_EMPLOYEE");
+          await writeEmployeePrivate(db, cId, newDocRef.id, cleanForFirestore(privateData));
           toast({ title: "Employee added", description: `${dataToSave.name} has been created.` });
           return;
         }
 
-        const localEmp: Employee = { id: uuid(), ...employeeData } as Employee;
-        setEmployees((prev) => [...prev, localEmp]);
+        const localEmp = await repos.employees.create(getCompanyId(settings), employeeData);
         toast({ title: "Employee added", description: `${localEmp.name} has been created.` });
       } catch (e: any) {
         console.error("addEmployee failed:", e?.code, e?.message, e);
@@ -2023,7 +2804,7 @@ await addDoc(
         throw e;
       }
     },
-    [engine, settings, toast]
+    [engine, repos, settings, toast]
   );
 
   const updateEmployee = useCallback(
@@ -2069,7 +2850,7 @@ await addDoc(
         const docRef = doc(db, "companies", cId, "employees", id);
 
         try {
-          await updateDoc(docRef, cleanForFirestore(updates));
+          await repos.employees.update(cId, id, updates);
           toast({ title: "Employee updated" });
 
           if (loggedInEmployee?.id === id) {
@@ -2083,14 +2864,14 @@ await addDoc(
           toast({ variant: "destructive", title: "Cloud write failed", description: e.message, duration: 9000 });
         }
       } else {
-        setEmployees((prev) => prev.map((emp) => (emp.id === id ? ({ ...emp, ...updates } as Employee) : emp)));
+        await repos.employees.update(cId, id, updates);
         if (loggedInEmployee?.id === id) {
           setLoggedInEmployee((prev) => (prev ? ({ ...prev, ...updates } as Employee) : null));
         }
         toast({ title: "Employee updated (local)" });
       }
     },
-    [engine, settings, toast, loggedInEmployee, unlocked, tab, user, employeeUpdateRequests]
+    [engine, repos, settings, toast, loggedInEmployee, unlocked, tab, user, employeeUpdateRequests]
   );
 
   const handleEmployeeUpdateRequest = useCallback(
@@ -2133,18 +2914,19 @@ await addDoc(
           toast({ variant: "destructive", title: "Cloud delete failed", description: e.message, duration: 9000 });
         }
       } else {
-        setEmployees((prev) => prev.filter((emp) => emp.id !== id));
-        setSchedules((prev) =>
-          prev.map((schedule) =>
-            schedule.assignedTo.includes(employeeName)
-              ? { ...schedule, assignedTo: schedule.assignedTo.filter((n) => n !== employeeName) }
-              : schedule
+        const cId = getCompanyId(settings);
+        await repos.employees.remove(cId, id);
+        await Promise.all(
+          schedulesToUpdate.map((schedule) =>
+            repos.schedules.update(cId, schedule.id, {
+              assignedTo: schedule.assignedTo.filter((n) => n !== employeeName),
+            })
           )
         );
         toast({ title: "Employee deleted and unassigned from schedules." });
       }
     },
-    [employees, engine, schedules, settings, toast]
+    [employees, engine, repos, schedules, settings, toast]
   );
 
   const approveEmployeeUpdate = useCallback(
@@ -2159,7 +2941,17 @@ await addDoc(
 
       if (engine === "cloud") {
         const batch = writeBatch(db);
-        batch.update(doc(db, "companies", cId, "employees", req.employeeId), cleanForFirestore(req.updates));
+        const { publicData, privateData } = splitEmployeePrivate(req.updates);
+        if (Object.keys(publicData).length) {
+          batch.update(doc(db, "companies", cId, "employees", req.employeeId), cleanForFirestore(publicData));
+        }
+        if (Object.keys(privateData).length) {
+          batch.set(
+            doc(db, "companies", cId, "employee_private", req.employeeId),
+            cleanForFirestore(privateData),
+            { merge: true }
+          );
+        }
         batch.update(doc(db, "companies", cId, "employee_update_requests", requestId), {
           status: "approved",
           approvedAt: serverTimestamp(),
@@ -2181,14 +2973,12 @@ await addDoc(
           toast({ variant: "destructive", title: "Could not approve request", description: e.message, duration: 9000 });
         }
       } else {
-        setEmployees((prev) =>
-          prev.map((emp) => (emp.id === req.employeeId ? ({ ...emp, ...req.updates } as Employee) : emp))
-        );
+        await repos.employees.update(cId, req.employeeId, req.updates);
         setEmployeeUpdateRequests((prev) => prev.map((r) => (r.id === requestId ? { ...r, status: "approved" } : r)));
         toast({ title: "Profile update approved (local mode)" });
       }
     },
-    [engine, settings, employeeUpdateRequests, user, toast]
+    [engine, repos, settings, employeeUpdateRequests, user, toast]
   );
 
   const rejectEmployeeUpdate = useCallback(
@@ -2341,16 +3131,12 @@ await addDoc(
           toast({ variant: "destructive", title: "Cloud write failed", description: e.message, duration: 9000 });
         }
       } else {
-        setPayrollPeriods((prev) => {
-          const existing = prev.find((p) => p.id === periodData.id);
-          return existing
-            ? prev.map((p) => (p.id === periodData.id ? { ...p, ...periodData } : p))
-            : [...prev, periodData];
-        });
+        const existing = payrollPeriods.find((p) => p.id === periodData.id);
+        await repos.payrollPeriods.set(getCompanyId(settings), existing ? { ...existing, ...periodData } : periodData);
         toast({ title: `Payroll for period ending ${periodData.endDate.substring(0, 10)} saved.` });
       }
     },
-    [engine, settings, toast, payrollPeriods]
+    [engine, repos, settings, toast, payrollPeriods]
   );
 
   const deletePayrollPeriod = useCallback(
@@ -2358,23 +3144,19 @@ await addDoc(
       if (!window.confirm("Are you sure you want to permanently delete this payroll period? This cannot be undone."))
         return;
 
-      if (engine === "cloud") {
-        const cId = getCompanyId(settings);
-        const docRef = doc(db, "companies", cId, "payroll_periods", periodId);
-
-        try {
-          await deleteDoc(docRef);
-          toast({ title: "Payroll period deleted." });
-        } catch (e: any) {
-          errorEmitter.emit("permission-error", new FirestorePermissionError({ path: docRef.path, operation: "delete" }));
-          toast({ variant: "destructive", title: "Cloud delete failed", description: e.message, duration: 9000 });
-        }
-      } else {
-        setPayrollPeriods((prev) => prev.filter((p) => p.id !== periodId));
+      const cId = getCompanyId(settings);
+      try {
+        await repos.payrollPeriods.remove(cId, periodId);
         toast({ title: "Payroll period deleted." });
+      } catch (e: any) {
+        errorEmitter.emit(
+          "permission-error",
+          new FirestorePermissionError({ path: `companies/${cId}/payroll_periods/${periodId}`, operation: "delete" })
+        );
+        toast({ variant: "destructive", title: "Cloud delete failed", description: e.message, duration: 9000 });
       }
     },
-    [engine, settings, toast]
+    [repos, settings, toast]
   );
 
   const confirmPayroll = useCallback(
@@ -2677,7 +3459,10 @@ if ((employee?.status || "active") === "inactive") {
   },
   [toast]
 );
-  const handleLogout = useCallback(() => setLoggedInEmployee(null), []);
+  const handleLogout = useCallback(() => {
+    setLoggedInEmployee(null);
+    dropAccess();
+  }, [dropAccess]);
 
   const managerChipDate = useMemo(() => (fromDate ? new Date(fromDate + "T00:00:00") : new Date()), [fromDate]);
 
@@ -2690,9 +3475,10 @@ if ((employee?.status || "active") === "inactive") {
       mileageLogs,
       otherExpenses,
       schedules,
+      occurrenceOverrides,
       invoices,
     });
-  }, [managerChipDate, settings, entries, employees, mileageLogs, otherExpenses, schedules, invoices]);
+  }, [managerChipDate, settings, entries, employees, mileageLogs, otherExpenses, schedules, occurrenceOverrides, invoices]);
 
  const getDurationsBySite = useCallback(
   (forDate: Date) => {
@@ -2711,7 +3497,8 @@ if ((employee?.status || "active") === "inactive") {
       if (!s.in) continue;
 
       const site = s.in.site || "Unassigned";
-      const status = statuses.get(site);
+      const directorySite = resolveSite(settings.sites ?? [], s.in.siteId, s.in.site);
+      const status = directorySite ? statuses.get(siteKey(directorySite)) : undefined;
       const current = map.get(site) || { minutes: 0, byEmployee: {} };
 
       // ✅ COMPLETE: anchor the FULL finished shift to the clock-in day
@@ -2757,7 +3544,7 @@ if ((employee?.status || "active") === "inactive") {
 
     return map;
   },
-  [sessions, getSiteStatuses]
+  [sessions, getSiteStatuses, settings.sites]
 );
 if (splashStep === "intro") {
   return <SplashScreen />;
@@ -2855,7 +3642,23 @@ return (
 
         {loggedInEmployee ? (
           <EmployeeView
-            employee={loggedInEmployee}
+            employee={employees.find((e) => e.id === loggedInEmployee.id) ?? loggedInEmployee}
+            timeCorrectionRequests={timeCorrectionRequests}
+            onRequestTimeCorrection={submitTimeCorrection}
+            timeOffRequests={timeOffRequests}
+            onRequestTimeOff={submitTimeOff}
+            employees={employees}
+            shiftSwaps={shiftSwaps}
+            onOfferShift={offerShift}
+            onClaimShift={claimShift}
+            onCancelShiftSwap={cancelShiftSwap}
+            visitChecklists={visitChecklists}
+            onSetChecklistItem={setChecklistItem}
+            visitPhotos={visitPhotos}
+            onAddVisitPhoto={addVisitPhoto}
+            pendingSyncCount={
+              pendingEntries.filter((item) => item.entry.employeeId === loggedInEmployee.id).length
+            }
             onLogout={handleLogout}
             settings={settings}
             recordEntry={recordEntry}
@@ -2863,6 +3666,7 @@ return (
             coord={coord}
             entries={entries ?? []}
             schedules={schedules ?? []}
+            occurrenceOverrides={occurrenceOverrides}
             updateSchedule={updateSchedule}
             isGettingLocation={isGettingLocation}
             isClockedIn={isClockedIn}
@@ -2874,7 +3678,7 @@ return (
             onRequestUpdate={handleEmployeeUpdateRequest}
           />
         ) : tab === "employee" ? (
-          <EmployeeLogin employees={employees} onLogin={handleLogin} />
+          <EmployeeLogin employees={employees} onLogin={handleLogin} verifyPin={verifyEmployeePin} />
         ) : (
           <ManagerView
             unlocked={unlocked}
@@ -2907,7 +3711,13 @@ return (
             addSchedule={addSchedule}
             updateSchedule={updateSchedule}
             deleteSchedule={deleteSchedule}
+            occurrenceOverrides={occurrenceOverrides}
+            saveOccurrenceOverride={saveOccurrenceOverride}
             deleteSite={deleteSite}
+            migrations={migrations}
+            backup={backup}
+            onTabChange={openView}
+            onNeedEntriesFrom={needEntriesFrom}
             mileageLogs={mileageLogs ?? []}
             addMileageLog={addMileageLog}
             updateMileageLog={updateMileageLog}
@@ -2925,10 +3735,15 @@ return (
             recordEntry={recordEntry}
             isClockedIn={isClockedIn}
             invoices={invoices ?? []}
+            invoicePayments={invoicePayments}
             addInvoice={addInvoice}
             updateInvoice={updateInvoice}
             deleteInvoice={deleteInvoice}
            serviceFeedbacks={serviceFeedbacks}
+           visitChecklists={visitChecklists}
+           visitPhotos={visitPhotos}
+           updateVisitPhoto={updateVisitPhoto}
+           deleteVisitPhoto={deleteVisitPhoto}
   onAddServiceFeedbackAction={onAddServiceFeedbackAction}
   onUpdateServiceFeedbackAction={onUpdateServiceFeedbackAction}
             testGeofence={testGeofence}
@@ -2937,8 +3752,19 @@ return (
             employeeUpdateRequests={employeeUpdateRequests}
             approveEmployeeUpdate={approveEmployeeUpdate}
             rejectEmployeeUpdate={rejectEmployeeUpdate}
+            timeCorrectionRequests={timeCorrectionRequests}
+            approveTimeCorrection={approveTimeCorrection}
+            rejectTimeCorrection={rejectTimeCorrection}
+            timeOffRequests={timeOffRequests}
+            approveTimeOff={approveTimeOff}
+            rejectTimeOff={rejectTimeOff}
+            shiftSwaps={shiftSwaps}
+            approveShiftSwap={approveShiftSwap}
+            rejectShiftSwap={rejectShiftSwap}
+            entryAudits={entryAudits}
             engine={engine}
             setEngine={setEngine}
+            verifyManagerPin={verifyManagerPin}
           />
         )}
 
@@ -0,0 +1,322 @@
+"use client";
+
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import type { ClientPortalData } from "@/shared/types/domain";
+import type { ClientFeedbackInput } from "@/lib/client-portal";
+import { CalendarDays, CheckCircle2, FileText, LogOut, MessageSquare } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const COMPLAINT_CATEGORIES = [
+  "Restroom",
+  "Floors",
+  "Trash Removal",
+  "Dusting",
+  "Glass",
+  "Supplies Not Refilled",
+  "Missed Area",
+  "Missed Service",
+  "Late Service",
+  "Quality of Cleaning",
+  "Other",
+];
+
+const COMPLIMENT_CATEGORIES = [
+  "Excellent Cleaning",
+  "Professional Staff",
+  "Reliability",
+  "Good Communication",
+  "Other",
+];
+
+interface ClientPortalViewProps {
+  data: ClientPortalData;
+  // Resolves to false when sending failed, so the form keeps its text
+  onSubmitFeedback: (input: ClientFeedbackInput) => Promise<boolean>;
+  onSignOut: () => void;
+}
+
+const invoiceStatus = (inv: ClientPortalData["invoices"][number]) => {
+  if (inv.status === "paid") return { label: "Paid", className: "bg-green-600" };
+  if (inv.dueDate && inv.dueDate < format(new Date(), "yyyy-MM-dd")) {
+    return { label: "Overdue", className: "bg-red-600" };
+  }
+  if (inv.status === "partially_paid") return { label: "Partially paid", className: "bg-teal-600" };
+  return { label: "Open", className: "bg-amber-500 text-black" };
+};
+
+export function ClientPortalView({ data, onSubmitFeedback, onSignOut }: ClientPortalViewProps) {
+  const [siteId, setSiteId] = useState(data.sites[0]?.id ?? "");
+  const [type, setType] = useState<"complaint" | "compliment">("complaint");
+  const [category, setCategory] = useState("");
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const multiSite = data.sites.length > 1;
+  const categories = type === "complaint" ? COMPLAINT_CATEGORIES : COMPLIMENT_CATEGORIES;
+
+  const handleSubmit = async () => {
+    if (!siteId || !notes.trim()) return;
+    setSubmitting(true);
+    try {
+      const sent = await onSubmitFeedback({ siteId, type, category: category || "Other", notes: notes.trim() });
+      if (sent) {
+        setCategory("");
+        setNotes("");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-4xl space-y-6 px-3 py-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">{data.companyName || "Client Portal"}</h1>
+          <p className="text-sm text-muted-foreground">
+            {data.sites.map((s) => s.name).join(" • ")} — signed in as {data.email}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={onSignOut}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign out
+        </Button>
+      </div>
+
+      <Tabs defaultValue="upcoming">
+        <TabsList className="grid w-full grid-cols-4">
+          <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
+          <TabsTrigger value="visits">Visits</TabsTrigger>
+          <TabsTrigger value="invoices">Invoices</TabsTrigger>
+          <TabsTrigger value="feedback">Feedback</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="upcoming">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="h-5 w-5" />
+                Upcoming Service
+              </CardTitle>
+              <CardDescription>Scheduled cleanings for the next 30 days.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {data.upcoming.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No visits scheduled in the next 30 days.</p>
+              ) : (
+                <ul className="divide-y">
+                  {data.upcoming.map((o) => (
+                    <li key={`${o.scheduleId}-${o.scheduleDate}-${o.siteName}`} className="py-2 text-sm">
+                      <span className="font-medium">
+                        {format(parseISO(o.scheduleDate), "EEEE, MMMM d")}
+                      </span>
+                      {multiSite && <span className="text-muted-foreground"> — {o.siteName}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="visits">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CheckCircle2 className="h-5 w-5" />
+                Completed Visits
+              </CardTitle>
+              <CardDescription>Arrival and departure times from the last 90 days.</CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    {multiSite && <TableHead>Site</TableHead>}
+                    <TableHead>Arrived</TableHead>
+                    <TableHead>Departed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.visits.length > 0 ? (
+                    data.visits.map((v) => (
+                      <TableRow key={`${v.siteName}-${v.date}`}>
+                        <TableCell>{format(parseISO(v.date), "MMM d, yyyy")}</TableCell>
+                        {multiSite && <TableCell>{v.siteName}</TableCell>}
+                        <TableCell>{format(v.arrivedAt, "h:mm a")}</TableCell>
+                        <TableCell>{format(v.departedAt, "h:mm a")}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={multiSite ? 4 : 3} className="h-20 text-center text-muted-foreground">
+                        No completed visits yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="invoices">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Invoices
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice #</TableHead>
+                    {multiSite && <TableHead>Site</TableHead>}
+                    <TableHead>Date</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance Due</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.invoices.length > 0 ? (
+                    data.invoices.map((inv) => {
+                      const status = invoiceStatus(inv);
+                      return (
+                        <TableRow key={inv.id}>
+                          <TableCell className="font-medium">{inv.invoiceNumber}</TableCell>
+                          {multiSite && <TableCell>{inv.siteName}</TableCell>}
+                          <TableCell>{inv.date}</TableCell>
+                          <TableCell>{inv.dueDate}</TableCell>
+                          <TableCell className="text-right tabular-nums">${inv.total.toFixed(2)}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            ${(inv.balanceDue ?? 0).toFixed(2)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={status.className}>{status.label}</Badge>
+                            {inv.paidDate && (
+                              <span className="ml-2 text-xs text-muted-foreground">{inv.paidDate}</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={multiSite ? 7 : 6} className="h-20 text-center text-muted-foreground">
+                        No invoices yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="feedback">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MessageSquare className="h-5 w-5" />
+                Send Feedback
+              </CardTitle>
+              <CardDescription>Tell us about a problem or something we did well.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+                {multiSite && (
+                  <div className="space-y-2">
+                    <Label>Site</Label>
+                    <Select value={siteId} onValueChange={setSiteId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {data.sites.map((s) => (
+                          <SelectItem key={s.id} value={s.id}>
+                            {s.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={type}
+                    onValueChange={(v) => {
+                      setType(v as "complaint" | "compliment");
+                      setCategory("");
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="complaint">Complaint</SelectItem>
+                      <SelectItem value="compliment">Compliment</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select value={category} onValueChange={setCategory}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((c) => (
+                        <SelectItem key={c} value={c}>
+                          {c}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="client-feedback-notes">Details</Label>
+                <Textarea
+                  id="client-feedback-notes"
+                  rows={4}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="What happened, and when?"
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button onClick={handleSubmit} disabled={submitting || !notes.trim()}>
+                  {submitting ? "Sending..." : "Send Feedback"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
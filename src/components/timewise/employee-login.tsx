@@ -19,14 +19,20 @@ import { LogIn } from "lucide-react";
 interface EmployeeLoginProps {
   employees: Employee[];
   onLogin: (employee: Employee) => void;
+  // Cloud mode checks the PIN server-side; local mode compares it here.
+  verifyPin?: (employee: Employee, pin: string) => Promise<boolean>;
 }
 
-export function EmployeeLogin({ employees, onLogin }: EmployeeLoginProps) {
+const comparePin = async (employee: Employee, pin: string) => employee.pin === pin;
+
+export function EmployeeLogin({ employees, onLogin, verifyPin = comparePin }: EmployeeLoginProps) {
   const [name, setName] = useState("");
   const [pin, setPin] = useState("");
   const [error, setError] = useState("");
+  const [verifying, setVerifying] = useState(false);
 
-  const handleLogin = () => {
+  const handleLogin = async () => {
+    if (verifying) return;
     setError("");
     const trimmedName = name.trim().toLowerCase();
     if (!trimmedName) {
@@ -57,10 +63,17 @@ if ((employee.status || "active") === "inactive") {
   return;
 }
 
-if (employee.pin === pin) {
-  onLogin(employee);
-} else {
-  setError("Incorrect PIN. Please try again.");
+setVerifying(true);
+try {
+  if (await verifyPin(employee, pin)) {
+    onLogin(employee);
+  } else {
+    setError("Incorrect PIN. Please try again.");
+  }
+} catch (e: any) {
+  setError(e?.message || "Could not verify your PIN. Please try again.");
+} finally {
+  setVerifying(false);
 }
 };
   return (
@@ -100,7 +113,7 @@ if (employee.pin === pin) {
           )}
         </CardContent>
         <CardFooter>
-          <Button onClick={handleLogin} className="w-full">
+          <Button onClick={handleLogin} className="w-full" disabled={verifying}>
             <LogIn className="mr-2" /> Login
           </Button>
         </CardFooter>
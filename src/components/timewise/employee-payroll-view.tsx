@@ -240,6 +240,8 @@ function PayrollStatusBadge({
 type EmployeeYTD = {
   regularHours: number;
   bonusHours: number;
+  overtimeHours: number;
+  overtimePremium: number;
   flatBonus: number;
   grossPay: number;
 
@@ -262,6 +264,8 @@ function getEmployeeYTD(
   const totals: EmployeeYTD = {
     regularHours: 0,
     bonusHours: 0,
+    overtimeHours: 0,
+    overtimePremium: 0,
     flatBonus: 0,
     grossPay: 0,
 
@@ -342,6 +346,14 @@ function getEmployeeYTD(
         (line as any).bonusMinutes ?? 0
       ) / 60;
 
+    const overtimeHours =
+      (Number(line.overtimeMinutes ?? 0) +
+        Number(line.doubleTimeMinutes ?? 0)) /
+      60;
+
+    const overtimePremium =
+      Number(line.overtimePremium ?? 0);
+
     const flatBonus =
       Number(
         (line as any).flatBonus ?? 0
@@ -404,6 +416,12 @@ function getEmployeeYTD(
     totals.bonusHours +=
       bonusHours;
 
+    totals.overtimeHours +=
+      overtimeHours;
+
+    totals.overtimePremium +=
+      overtimePremium;
+
     totals.flatBonus +=
       flatBonus;
 
@@ -695,6 +713,10 @@ const y = 5;
                   Number((employeeData as any).regularMinutes ?? 0) / 60;
                 const bonusHours =
                   Number((employeeData as any).bonusMinutes ?? 0) / 60;
+                const overtimeHours =
+                  Number(employeeData.overtimeMinutes ?? 0) / 60;
+                const doubleTimeHours =
+                  Number(employeeData.doubleTimeMinutes ?? 0) / 60;
                 const flatBonus = Number(employeeData.flatBonus ?? 0);
                 const gross = Number(employeeData.gross ?? 0);
                 const totalDeductions = Number(employeeData.deductions ?? 0);
@@ -843,6 +865,10 @@ const y = 5;
                               payRate={Number((employee as any).payRate ?? 0)}
                               regularHours={regularHours}
                               bonusHours={bonusHours}
+                              overtimeHours={overtimeHours}
+                              doubleTimeHours={doubleTimeHours}
+                              overtimePremium={Number(employeeData.overtimePremium ?? 0)}
+                              regularRateOfPay={Number(employeeData.regularRateOfPay ?? 0)}
                               flatBonus={flatBonus}
                               grossPay={gross}
                               deductions={deductions}
@@ -851,6 +877,8 @@ const y = 5;
                               ytd={{
   regularHours: ytd.regularHours,
   bonusHours: ytd.bonusHours,
+  overtimeHours: ytd.overtimeHours,
+  overtimePremium: ytd.overtimePremium,
   flatBonus: ytd.flatBonus,
   grossPay: ytd.grossPay,
 
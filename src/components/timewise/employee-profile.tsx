@@ -1,7 +1,12 @@
 "use client";
 
 import React, { useState, useEffect, useMemo } from "react";
-import type { Employee } from "@/shared/types/domain";
+import type {
+  AvailabilityBlock,
+  DayOfWeek,
+  Employee,
+  TimeOffRequest,
+} from "@/shared/types/domain";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -43,12 +48,30 @@ import {
   Sparkles,
   CheckCircle2,
   XCircle,
+  Clock3,
+  CalendarOff,
+  Plus,
+  Trash2,
 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { describeAvailability, formatTimeOffRange } from "@/lib/schedule-conflicts";
 
 type DialogMode = "manager" | "employeeSelf";
 
 type Team = { id: string; name: string };
 
+export type TimeOffInput = Pick<TimeOffRequest, "startDate" | "endDate" | "reason">;
+
+const DAYS: DayOfWeek[] = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
 interface EmployeeProfileDialogProps {
   isOpen: boolean;
   onOpenChange: (isOpen: boolean) => void;
@@ -67,6 +90,10 @@ interface EmployeeProfileDialogProps {
 
   // ✅ NEW: pass settings.teams from ManagerView
   teams?: Team[];
+
+  // Self mode: the employee's own time off, and how to ask for more
+  timeOffRequests?: TimeOffRequest[];
+  onRequestTimeOff?: (input: TimeOffInput) => Promise<void>;
 }
 
 export function EmployeeProfileDialog({
@@ -77,6 +104,8 @@ export function EmployeeProfileDialog({
   addEmployee,
   mode,
   teams = [],
+  timeOffRequests = [],
+  onRequestTimeOff,
 }: EmployeeProfileDialogProps) {
   const { toast } = useToast();
   const isManager = mode === "manager";
@@ -106,6 +135,14 @@ export function EmployeeProfileDialog({
   // ✅ NEW: team state (manager-only editable)
   const [teamId, setTeamId] = useState<string>("");
 const [status, setStatus] = useState<"active" | "inactive">("active");
+  const [maxWeeklyHours, setMaxWeeklyHours] = useState("");
+  const [availability, setAvailability] = useState<AvailabilityBlock[]>([]);
+
+  const [timeOffStart, setTimeOffStart] = useState("");
+  const [timeOffEnd, setTimeOffEnd] = useState("");
+  const [timeOffReason, setTimeOffReason] = useState("");
+  const [submittingTimeOff, setSubmittingTimeOff] = useState(false);
+
   useEffect(() => {
     if (employee) {
       setFirstName(employee.firstName || "");
@@ -130,6 +167,8 @@ const [status, setStatus] = useState<"active" | "inactive">("active");
       // ✅ NEW: load teamId
       setTeamId((employee as any).teamId || "");
       setStatus(employee.status || "active");
+      setMaxWeeklyHours(employee.maxWeeklyHours ? String(employee.maxWeeklyHours) : "");
+      setAvailability(employee.availability ?? []);
     } else {
       setFirstName("");
       setLastName("");
@@ -149,9 +188,52 @@ const [status, setStatus] = useState<"active" | "inactive">("active");
       // ✅ NEW: default to no team
       setTeamId("");
       setStatus("active");
+      setMaxWeeklyHours("");
+      setAvailability([]);
     }
   }, [employee]);
 
+  const updateAvailability = (index: number, updates: Partial<AvailabilityBlock>) =>
+    setAvailability((prev) =>
+      prev.map((block, i) => (i === index ? { ...block, ...updates } : block))
+    );
+
+  const addAvailability = () =>
+    setAvailability((prev) => [...prev, { day: "Monday", start: "08:00", end: "17:00" }]);
+
+  const removeAvailability = (index: number) =>
+    setAvailability((prev) => prev.filter((_, i) => i !== index));
+
+  const availabilityChanged =
+    JSON.stringify(availability) !== JSON.stringify(employee?.availability ?? []);
+
+  const handleRequestTimeOff = async () => {
+    if (!onRequestTimeOff) return;
+
+    if (!timeOffStart || !timeOffEnd || timeOffEnd < timeOffStart) {
+      toast({
+        variant: "destructive",
+        title: "Invalid dates",
+        description: "Pick a start date and an end date on or after it.",
+      });
+      return;
+    }
+
+    setSubmittingTimeOff(true);
+    try {
+      await onRequestTimeOff({
+        startDate: timeOffStart,
+        endDate: timeOffEnd,
+        reason: timeOffReason.trim() || null,
+      });
+      setTimeOffStart("");
+      setTimeOffEnd("");
+      setTimeOffReason("");
+    } finally {
+      setSubmittingTimeOff(false);
+    }
+  };
+
   const handleSubmit = async () => {
     // ✅ EMPLOYEE SELF MODE (restricted fields)
     if (isSelf) {
@@ -176,6 +258,7 @@ const [status, setStatus] = useState<"active" | "inactive">("active");
           bankName || accountNumber || routingNumber
             ? { bankName, accountNumber, routingNumber }
             : undefined,
+        ...(availabilityChanged ? { availability } : {}),
       };
 
       const cleaned = cleanForFirestore(requestUpdates);
@@ -255,6 +338,8 @@ const [status, setStatus] = useState<"active" | "inactive">("active");
           // ✅ NEW: teamId on create
           ...(teamId ? ({ teamId } as any) : {}),
           status,
+          maxWeeklyHours: parseFloat(maxWeeklyHours) > 0 ? parseFloat(maxWeeklyHours) : undefined,
+          availability: availability.length ? availability : undefined,
         };
 
         const cleanedNew = cleanForFirestore(newEmployee) as Omit<Employee, "id">;
@@ -296,6 +381,8 @@ const [status, setStatus] = useState<"active" | "inactive">("active");
         // ✅ NEW: teamId on update
         ...(teamId ? ({ teamId } as any) : ({ teamId: "" } as any)),
         status,
+        maxWeeklyHours: parseFloat(maxWeeklyHours) > 0 ? parseFloat(maxWeeklyHours) : null,
+        availability,
       };
 
       const cleanedUpdates = cleanForFirestore(updatedEmployee);
@@ -395,7 +482,8 @@ const [status, setStatus] = useState<"active" | "inactive">("active");
           <div className="space-y-5 p-5 sm:p-6">
             {isSelf && (
               <div className="rounded-2xl border border-cyan-200 bg-gradient-to-r from-cyan-50 to-blue-50 p-4 text-sm text-cyan-950 shadow-sm dark:border-cyan-900 dark:from-cyan-950/40 dark:to-blue-950/40 dark:text-cyan-100">
-                You can update your contact, emergency contact, and banking information.
+                You can update your contact, emergency contact, banking information, and
+                weekly availability, and request time off.
                 Job title, pay rate, PIN, team, and status remain manager-controlled.
               </div>
             )}
@@ -599,6 +687,23 @@ const [status, setStatus] = useState<"active" | "inactive">("active");
                         </SelectContent>
                       </Select>
                     </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="maxWeeklyHours">Max Weekly Hours</Label>
+                      <Input
+                        id="maxWeeklyHours"
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={maxWeeklyHours}
+                        onChange={(e) => setMaxWeeklyHours(e.target.value)}
+                        placeholder="No cap"
+                        className={fieldClass}
+                      />
+                      <p className="text-[11px] text-muted-foreground">
+                        The schedule flags weeks that go over this.
+                      </p>
+                    </div>
                   </div>
                 )}
 
@@ -669,6 +774,181 @@ const [status, setStatus] = useState<"active" | "inactive">("active");
               </div>
             </section>
 
+            {/* AVAILABILITY */}
+            <section className={`${sectionCard} border-sky-100 dark:border-sky-950`}>
+              <div className="flex items-center gap-3 border-b border-sky-100 bg-gradient-to-r from-sky-50 to-indigo-50 px-5 py-4 dark:border-sky-950 dark:from-sky-950/50 dark:to-indigo-950/40">
+                <div className="rounded-xl bg-sky-600 p-2.5 text-white shadow-md shadow-sky-600/20">
+                  <Clock3 className="h-5 w-5" />
+                </div>
+                <div>
+                  <h3 className="font-semibold text-slate-900 dark:text-white">
+                    Weekly Availability
+                  </h3>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    When you can work. Leave empty if you are available any time.
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-3 p-5">
+                {availability.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Available any time.</p>
+                ) : (
+                  availability.map((block, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-2">
+                      <Select
+                        value={block.day}
+                        onValueChange={(day) => updateAvailability(index, { day: day as DayOfWeek })}
+                      >
+                        <SelectTrigger className={fieldClass}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DAYS.map((day) => (
+                            <SelectItem key={day} value={day}>
+                              {day}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="time"
+                        aria-label="From"
+                        value={block.start}
+                        onChange={(e) => updateAvailability(index, { start: e.target.value })}
+                        className={`${fieldClass} w-32`}
+                      />
+                      <Input
+                        type="time"
+                        aria-label="To"
+                        value={block.end}
+                        onChange={(e) => updateAvailability(index, { end: e.target.value })}
+                        className={`${fieldClass} w-32`}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeAvailability(index)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={addAvailability}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add time block
+                  </Button>
+                  {isSelf && availabilityChanged && (
+                    <p className="text-[11px] text-muted-foreground">
+                      Sent for approval with your profile update. Currently on file:{" "}
+                      {describeAvailability(employee?.availability)}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </section>
+
+            {/* TIME OFF */}
+            {isSelf && onRequestTimeOff && (
+              <section className={`${sectionCard} border-rose-100 dark:border-rose-950`}>
+                <div className="flex items-center gap-3 border-b border-rose-100 bg-gradient-to-r from-rose-50 to-orange-50 px-5 py-4 dark:border-rose-950 dark:from-rose-950/50 dark:to-orange-950/40">
+                  <div className="rounded-xl bg-rose-600 p-2.5 text-white shadow-md shadow-rose-600/20">
+                    <CalendarOff className="h-5 w-5" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-slate-900 dark:text-white">Time Off</h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      Requests go to your manager right away
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-4 p-5">
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="timeOffStart">First Day Off</Label>
+                      <Input
+                        id="timeOffStart"
+                        type="date"
+                        value={timeOffStart}
+                        onChange={(e) => {
+                          setTimeOffStart(e.target.value);
+                          if (!timeOffEnd || timeOffEnd < e.target.value) setTimeOffEnd(e.target.value);
+                        }}
+                        className={fieldClass}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="timeOffEnd">Last Day Off</Label>
+                      <Input
+                        id="timeOffEnd"
+                        type="date"
+                        value={timeOffEnd}
+                        min={timeOffStart || undefined}
+                        onChange={(e) => setTimeOffEnd(e.target.value)}
+                        className={fieldClass}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="timeOffReason">Reason (optional)</Label>
+                    <Input
+                      id="timeOffReason"
+                      value={timeOffReason}
+                      onChange={(e) => setTimeOffReason(e.target.value)}
+                      placeholder="e.g., Family trip"
+                      className={fieldClass}
+                    />
+                  </div>
+
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={submittingTimeOff || !timeOffStart}
+                    onClick={handleRequestTimeOff}
+                  >
+                    Request Time Off
+                  </Button>
+
+                  {timeOffRequests.length > 0 && (
+                    <ul className="space-y-2">
+                      {timeOffRequests.map((req) => (
+                        <li
+                          key={req.id}
+                          className="flex items-center justify-between gap-2 rounded-xl border px-3 py-2 text-sm"
+                        >
+                          <div>
+                            <p className="font-medium">{formatTimeOffRange(req)}</p>
+                            {(req.rejectionReason || req.reason) && (
+                              <p className="text-xs text-muted-foreground">
+                                {req.rejectionReason || req.reason}
+                              </p>
+                            )}
+                          </div>
+                          <Badge
+                            variant={
+                              req.status === "approved"
+                                ? "default"
+                                : req.status === "rejected"
+                                  ? "destructive"
+                                  : "secondary"
+                            }
+                          >
+                            {req.status}
+                          </Badge>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </section>
+            )}
+
             {/* EMERGENCY CONTACT */}
             <section className={`${sectionCard} border-amber-100 dark:border-amber-950`}>
               <div className="flex items-center gap-3 border-b border-amber-100 bg-gradient-to-r from-amber-50 to-orange-50 px-5 py-4 dark:border-amber-950 dark:from-amber-950/50 dark:to-orange-950/40">
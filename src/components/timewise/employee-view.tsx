@@ -31,7 +31,13 @@ import type {
   PayrollPeriod,
   PayrollConfirmation,
   SiteStatus,
+  OccurrenceOverride,
   Session,
+  ShiftSwap,
+  TimeCorrectionRequest,
+  TimeOffRequest,
+  VisitChecklist,
+  VisitPhoto,
 } from "@/shared/types/domain";
 import { formatDT, groupSessions, minutesToHHMM } from "@/lib/time-utils";
 import {
@@ -58,6 +64,8 @@ import {
   WalletCards,
   CircleHelp,
   ClipboardList,
+  CalendarPlus,
+  ArrowLeftRight,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -75,10 +83,6 @@ import {
   endOfDay,
   isSameDay,
   parseISO,
-  differenceInCalendarWeeks,
-  getDate,
-  getMonth,
-  getYear,
   differenceInCalendarDays,
   startOfToday,
   endOfMonth,
@@ -89,13 +93,36 @@ import {
   isToday,
 } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
-import { EmployeeProfileDialog } from "./employee-profile";
+import { EmployeeProfileDialog, type TimeOffInput } from "./employee-profile";
 import { EmployeePayrollView } from "./employee-payroll-view";
+import { TimeCorrectionDialog, type TimeCorrectionInput } from "./time-correction-dialog";
+import { VisitChecklistPanel, type SetChecklistItemArgs } from "./visit-checklist-panel";
+import { VisitPhotoCapture } from "./visit-photo-capture";
+import {
+  OfferShiftDialog,
+  ShiftSwapBoard,
+  type OfferShiftInput,
+  type ReturnShiftInput,
+  type ShiftOccurrence,
+} from "./shift-swap-board";
+import { hasChecklist, visitChecklistId } from "@/lib/checklists";
+import { schedulesOn } from "@/lib/occurrence-overrides";
+import { resolveSite, sameSite, scheduleSiteRefs, siteKey } from "@/lib/site-index";
+import { isActiveSwap } from "@/lib/shift-swaps";
+import {
+  calendarFeedSubscribeUrl,
+  createCalendarFeed,
+} from "@/features/calendar-feeds/calendar-feeds";
 import { cn } from "@/lib/utils";
 import { getGoogleMapsUrl } from "@/lib/navigation";
 import {
-  optimizeRouteFromStart,
-} from "@/lib/routing";
+  describeVisitWindow,
+  hasVisitWindow,
+  visitWindow,
+} from "@/lib/visit-windows";
+import { optimizeRoute } from "@/lib/route-optimizer";
+import { siteLocation } from "@/lib/route-planning";
+import { useTravelTimes } from "@/features/travel-times/hooks/useTravelTimes";
 import {
   Dialog,
   DialogContent,
@@ -155,6 +182,29 @@ interface EmployeeViewProps {
   getSiteStatuses: (forDate: Date) => Map<string, SiteStatus>;
   onRequestUpdate?: (updates: Partial<Employee>) => Promise<void>;
 
+  // Clock entries still waiting in the offline outbox
+  pendingSyncCount?: number;
+
+  timeCorrectionRequests?: TimeCorrectionRequest[];
+  onRequestTimeCorrection?: (input: TimeCorrectionInput) => Promise<void>;
+
+  timeOffRequests?: TimeOffRequest[];
+  onRequestTimeOff?: (input: TimeOffInput) => Promise<void>;
+
+  // Open shifts board; employees is the company directory
+  employees?: Employee[];
+  shiftSwaps?: ShiftSwap[];
+  occurrenceOverrides?: OccurrenceOverride[];
+  onOfferShift?: (input: OfferShiftInput) => Promise<void>;
+  onClaimShift?: (swapId: string, returnShift?: ReturnShiftInput) => Promise<void>;
+  onCancelShiftSwap?: (swapId: string) => Promise<void>;
+
+  visitChecklists?: VisitChecklist[];
+  onSetChecklistItem?: (args: SetChecklistItemArgs) => Promise<void>;
+
+  visitPhotos?: VisitPhoto[];
+  onAddVisitPhoto?: (photo: VisitPhoto) => Promise<void>;
+
   // ✅ OPTION A — Added
   teams?: { id: string; name: string }[];
 }
@@ -277,6 +327,21 @@ export function EmployeeView({
   payrollConfirmations = [],
   getSiteStatuses,
   onRequestUpdate,
+  pendingSyncCount = 0,
+  timeCorrectionRequests = [],
+  onRequestTimeCorrection,
+  timeOffRequests = [],
+  onRequestTimeOff,
+  employees = [],
+  shiftSwaps = [],
+  occurrenceOverrides = [],
+  onOfferShift,
+  onClaimShift,
+  onCancelShiftSwap,
+  visitChecklists = [],
+  onSetChecklistItem,
+  visitPhotos = [],
+  onAddVisitPhoto,
     teams = [], // ✅ default safe fallback
 }: EmployeeViewProps) {
   const { toast } = useToast();
@@ -453,12 +518,28 @@ const markAllHeaderNotificationsRead = useCallback(async () => {
     sessions: Session[];
   }>({ sessions: [] });
 const [employeeNoteOpen, setEmployeeNoteOpen] = useState(false);
+const [offeringShift, setOfferingShift] = useState<ShiftOccurrence | null>(null);
 const [employeeNoteText, setEmployeeNoteText] = useState("");
 const [employeeNoteSite, setEmployeeNoteSite] = useState<string>("");
 const [employeeMessages, setEmployeeMessages] = useState<any[]>([]);
 const [employeeReplyText, setEmployeeReplyText] = useState("");
 const [employeeReplyFile, setEmployeeReplyFile] = useState<File | null>(null);
 const [employeeNoteFile, setEmployeeNoteFile] = useState<File | null>(null);
+const [correctionOpen, setCorrectionOpen] = useState(false);
+const [correctionEntry, setCorrectionEntry] = useState<Entry | null>(null);
+
+const openTimeCorrection = (entry: Entry | null) => {
+  setCorrectionEntry(entry);
+  setCorrectionOpen(true);
+};
+
+const myTimeCorrections = useMemo(
+  () =>
+    timeCorrectionRequests
+      .filter((r) => r.employeeId === employee.id)
+      .slice(0, 10),
+  [timeCorrectionRequests, employee.id]
+);
   const asNoteText = (n: unknown): string => (typeof n === "string" ? n : "");
 
   const userEntries = useMemo(() => {
@@ -488,7 +569,10 @@ const [employeeNoteFile, setEmployeeNoteFile] = useState<File | null>(null);
   const isCurrentDayToday = isToday(currentDate);
 
   const scheduleForDay = (date: Date) => {
-    return schedules.filter((s) => {
+    const dateStr = format(date, "yyyy-MM-dd");
+
+    // Each visit as worked that day, after reassignments, moves and swaps
+    return schedulesOn(schedules, occurrenceOverrides, dateStr, settings.weekStartsOn).filter((s) => {
       if (!s.startDate) return false;
 
      const isAssignedDirect =
@@ -503,7 +587,6 @@ const isAssignedViaTeam =
   !!s.assignedTeamId &&
   !!employeeTeamId &&
   s.assignedTeamId === employeeTeamId;
-const dateStr = format(date, "yyyy-MM-dd");
 
 const viewingPast =
   startOfDay(date) < startOfToday();
@@ -529,7 +612,10 @@ const workedThisOccurrence = entries.some((entry) => {
     entryDate === dateStr;
 
   const siteAndDateMatch =
-    entry.site === s.siteName &&
+    sameSite(
+      { siteId: entry.siteId, name: entry.site },
+      { siteId: s.siteId, name: s.siteName }
+    ) &&
     entryDate === dateStr;
 
   return exactScheduleMatch || siteAndDateMatch;
@@ -547,57 +633,23 @@ if (!isAssigned && !(viewingPast && workedThisOccurrence)) {
   return false;
 }
 
-const schStart = parseISO(s.startDate);
-if (s.exceptionDates?.includes(dateStr)) return false;
-      if (date < startOfDay(schStart)) return false;
-
-      if (s.repeatUntil && date > endOfDay(parseISO(s.repeatUntil))) return false;
-
-      const monthDiff = (getYear(date) - getYear(schStart)) * 12 + (getMonth(date) - getMonth(schStart));
-
-      switch (s.repeatFrequency) {
-        case "does-not-repeat":
-          return isSameDay(date, schStart);
-
-        case "weekly":
-        case "every-2-weeks":
-        case "every-3-weeks": {
-          const dayName = format(date, "EEEE") as any;
-          if (!s.daysOfWeek?.includes(dayName)) return false;
-
-          const weekDiff = differenceInCalendarWeeks(date, schStart, {
-            weekStartsOn: settings.weekStartsOn,
-          });
-
-          if (weekDiff < 0) return false;
-          if (s.repeatFrequency === "weekly") return true;
-          if (s.repeatFrequency === "every-2-weeks" && weekDiff % 2 === 0) return true;
-          if (s.repeatFrequency === "every-3-weeks" && weekDiff % 3 === 0) return true;
-          return false;
-        }
-
-        case "monthly":
-          return getDate(date) === getDate(schStart) && monthDiff >= 0;
-
-        case "every-2-months":
-          return getDate(date) === getDate(schStart) && monthDiff >= 0 && monthDiff % 2 === 0;
-
-        case "quarterly":
-          return getDate(date) === getDate(schStart) && monthDiff >= 0 && monthDiff % 3 === 0;
-
-        case "yearly":
-          return getDate(date) === getDate(schStart) && getMonth(date) === getMonth(schStart) && monthDiff >= 0;
-
-        default:
-          return false;
-      }
+return true;
     });
   };
     const currentSiteStatuses = useMemo(() => getSiteStatuses(currentDate), [getSiteStatuses, currentDate]);
 
+// Statuses are keyed by siteKey; older schedules may carry a stale name
+const siteStatusOf = useCallback(
+  (schedule: CleaningSchedule) => {
+    const site = resolveSite(settings.sites, schedule.siteId, schedule.siteName);
+    return site ? currentSiteStatuses.get(siteKey(site)) : undefined;
+  },
+  [currentSiteStatuses, settings.sites]
+);
+
 const dailySchedules = useMemo(() => {
   return scheduleForDay(currentDate);
-}, [currentDate, schedules, employee.id, settings.weekStartsOn]);
+}, [currentDate, schedules, occurrenceOverrides, employee.id, settings.weekStartsOn]);
 
 const filteredDailySchedules = useMemo(() => {
   const q = dailySearch.trim().toLowerCase();
@@ -615,13 +667,35 @@ const filteredDailySchedules = useMemo(() => {
   s.tasks.toLowerCase().includes(q) ||
   (s.note ?? "").toLowerCase().includes(q);
 
-    const status = currentSiteStatuses.get(s.siteName);
+    const status = siteStatusOf(s);
     const matchesStatus =
       statusFilter === "all" ? true : status === statusFilter;
 
     return matchesSearch && matchesStatus;
   });
-}, [dailySchedules, dailySearch, statusFilter, currentSiteStatuses]);
+}, [dailySchedules, dailySearch, statusFilter, siteStatusOf]);
+
+/*
+ * Road drive times between today's sites. The leg from the employee's
+ * live position is still a straight-line estimate.
+ */
+const routeSites = useMemo(
+  () => [
+    ...filteredDailySchedules.map((schedule) =>
+      resolveSite(settings.sites, schedule.siteId, schedule.siteName)
+    ),
+    settings.sites.find((s) => s.id === settings.routeStartSiteId),
+    settings.sites.find((s) => s.id === settings.routeEndSiteId),
+  ],
+  [filteredDailySchedules, settings.sites, settings.routeStartSiteId, settings.routeEndSiteId]
+);
+
+const routeTravelTimes = useTravelTimes({
+  settings,
+  companyId,
+  cloud: settings.engine === "cloud",
+  sites: settings.enableRouteOptimization ? routeSites : [],
+});
 
 const routedDailySchedules = useMemo(() => {
   if (!settings.enableRouteOptimization) {
@@ -629,38 +703,63 @@ const routedDailySchedules = useMemo(() => {
   }
 
   const incompleteSchedules = filteredDailySchedules.filter((schedule) => {
-    const status = currentSiteStatuses.get(schedule.siteName);
+    const status = siteStatusOf(schedule);
     return status !== "complete";
   });
 
   const completedSchedules = filteredDailySchedules.filter((schedule) => {
-    const status = currentSiteStatuses.get(schedule.siteName);
+    const status = siteStatusOf(schedule);
     return status === "complete";
   });
 
   const scheduleWithSites = incompleteSchedules.map((schedule) => {
-    const site = settings.sites.find((s) => s.name === schedule.siteName);
+    const site = resolveSite(settings.sites, schedule.siteId, schedule.siteName);
+    const { earliest, deadline } = visitWindow(schedule);
 
     return {
       schedule,
       site,
       lat: site?.lat,
       lng: site?.lng,
+      earliest,
+      deadline,
+      serviceMinutes: site?.estimatedWorkMinutes ?? 0,
     };
   });
 
-  const optimizedIncomplete = optimizeRouteFromStart(
-    scheduleWithSites,
-    coord
-  ).map((x) => x.schedule);
+  /*
+   * Visits with a time window are ordered by when they can start.
+   * Today the route starts now; other days at the earliest window.
+   */
+  const windowStarts = scheduleWithSites
+    .map((x) => x.earliest)
+    .filter((minutes): minutes is number => minutes !== null);
+
+  const now = new Date();
+  const startMinutes = isCurrentDayToday
+    ? now.getHours() * 60 + now.getMinutes()
+    : windowStarts.length
+      ? Math.min(...windowStarts)
+      : 0;
+
+  const optimizedIncomplete = optimizeRoute(scheduleWithSites, {
+    start: coord ?? siteLocation(settings.sites, settings.routeStartSiteId),
+    end: siteLocation(settings.sites, settings.routeEndSiteId),
+    startMinutes: incompleteSchedules.some(hasVisitWindow) ? startMinutes : null,
+    travelTimes: routeTravelTimes,
+  }).stops.map((x) => x.item.schedule);
 
   return [...optimizedIncomplete, ...completedSchedules];
 }, [
   filteredDailySchedules,
-  currentSiteStatuses,
+  siteStatusOf,
   settings.enableRouteOptimization,
   settings.sites,
+  settings.routeStartSiteId,
+  settings.routeEndSiteId,
   coord,
+  isCurrentDayToday,
+  routeTravelTimes,
 ]);
 
   // Off-schedule active shifts (for today only)
@@ -670,7 +769,7 @@ const routedDailySchedules = useMemo(() => {
     const scheduledSiteNames = new Set(scheduleForDay(currentDate).map((s) => s.siteName));
 
     return sessionsForEmployee.filter((s) => s.active && s.in?.site && !scheduledSiteNames.has(s.in.site));
-  }, [schedules, employee.id, today, settings.weekStartsOn]);
+  }, [schedules, occurrenceOverrides, employee.id, today, settings.weekStartsOn]);
 
   const weeklySchedule = useMemo(() => {
     const startOfUserWeek = startOfWeek(today, { weekStartsOn: settings.weekStartsOn });
@@ -681,7 +780,32 @@ const routedDailySchedules = useMemo(() => {
       week.push({ date: day, schedules: scheduleForDay(day) });
     }
     return week;
-  }, [schedules, employee.id, today, settings.weekStartsOn]);
+  }, [schedules, occurrenceOverrides, employee.id, today, settings.weekStartsOn]);
+
+  // Shifts this employee already put on the open shifts board
+  const offeredShiftKeys = useMemo(
+    () =>
+      new Set(
+        shiftSwaps
+          .filter((swap) => swap.employeeId === employee.id && isActiveSwap(swap))
+          .map((swap) => `${swap.scheduleId}|${swap.scheduleDate}`)
+      ),
+    [shiftSwaps, employee.id]
+  );
+
+  // The next two weeks of shifts, offered in return when swapping
+  const myUpcomingShifts = useMemo<ShiftOccurrence[]>(() => {
+    const shifts: ShiftOccurrence[] = [];
+    for (let i = 0; i < 14; i++) {
+      const day = add(startOfToday(), { days: i });
+      const date = format(day, "yyyy-MM-dd");
+      for (const schedule of scheduleForDay(day)) {
+        if (offeredShiftKeys.has(`${schedule.id}|${date}`)) continue;
+        shifts.push({ schedule, date, label: schedule.siteName });
+      }
+    }
+    return shifts;
+  }, [schedules, occurrenceOverrides, employee.id, settings.weekStartsOn, offeredShiftKeys]);
 
   const handleOpenNoteDialog = (schedule: CleaningSchedule) => {
     setEditingNoteForSchedule(schedule);
@@ -774,9 +898,10 @@ const getLiveHoursForOpenShift = useCallback(
   (
     action: "in" | "out",
     siteName: string,
-    scheduleId?: string
+    scheduleId?: string,
+    siteId?: string
   ) => {
-    const site = settings.sites.find((candidate) => candidate.name === siteName);
+    const site = resolveSite(settings.sites, siteId, siteName);
 
     if (!site) {
       toast({
@@ -795,7 +920,7 @@ const getLiveHoursForOpenShift = useCallback(
 
     if (action === "in") {
       const activeSomewhere = isClockedIn(undefined, employee.id);
-      const activeHere = isClockedIn(siteName, employee.id);
+      const activeHere = isClockedIn(site.name, employee.id);
 
       if (!isManagerPreview && activeSomewhere && !activeHere) {
         toast({
@@ -1002,7 +1127,8 @@ const dailySiteSummary = useMemo(() => {
   let incomplete = 0;
 
   for (const s of schedulesToday) {
-    const status = statuses.get(s.siteName);
+    const site = resolveSite(settings.sites, s.siteId, s.siteName);
+    const status = site ? statuses.get(siteKey(site)) : undefined;
 
     if (status === "complete") complete++;
     else if (status === "in-process") inProcess++;
@@ -1010,7 +1136,7 @@ const dailySiteSummary = useMemo(() => {
   }
 
   return { total, complete, inProcess, incomplete };
-}, [currentDate, schedules, employee.id, getSiteStatuses]);
+}, [currentDate, schedules, employee.id, getSiteStatuses, settings.sites]);
 
   /**
  * ✅ Anchor cross-midnight sessions to the CLOCK-IN day.
@@ -1018,11 +1144,14 @@ const dailySiteSummary = useMemo(() => {
  */
 
 const getHoursForSiteDay = useCallback(
-  (siteName: string, forDate: Date) => {
+  (visit: Pick<CleaningSchedule, "siteId" | "siteName">, forDate: Date) => {
     const dayStart = startOfDay(forDate).getTime();
+    const target = { siteId: visit.siteId, name: visit.siteName };
 
     const siteEntries = entries
-      .filter((e) => e.employeeId === employee.id && e.site === siteName)
+      .filter(
+        (e) => e.employeeId === employee.id && sameSite({ siteId: e.siteId, name: e.site }, target)
+      )
       .slice()
       .sort((a, b) => a.ts - b.ts);
 
@@ -1154,6 +1283,33 @@ const dailyWorkedHHMM = useMemo(() => {
 
   setIsTimesheetDialogOpen(true);
 };
+/*
+ * Gets (or creates) this employee's calendar feed and copies the
+ * subscribe link for Google/Apple Calendar.
+ */
+const copyCalendarFeedLink = async () => {
+  try {
+    const feedId = await createCalendarFeed(companyId, "employee", employee.id);
+    const url = calendarFeedSubscribeUrl(companyId, feedId);
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Calendar link copied",
+        description: "Add it to Google or Apple Calendar as a subscription (From URL).",
+      });
+    } catch {
+      window.prompt("Copy this calendar link:", url);
+    }
+  } catch (e: any) {
+    toast({
+      variant: "destructive",
+      title: "Calendar feed unavailable",
+      description: e?.message || "Please try again.",
+    });
+  }
+};
+
 const sendEmployeeNoteToManager = async () => {
   if (!employeeNoteText.trim() || !employeeNoteSite) return;
 const attachment = employeeNoteFile
@@ -1562,6 +1718,16 @@ const renderEmployeeSidebar = (
         Activity
       </Button>
 
+      <Button
+        type="button"
+        variant="ghost"
+        onClick={copyCalendarFeedLink}
+        className="h-12 w-full justify-start rounded-2xl px-4"
+      >
+        <CalendarPlus className="mr-3 h-5 w-5" />
+        Calendar Feed
+      </Button>
+
       <Button
         type="button"
         variant="ghost"
@@ -1722,6 +1888,11 @@ const renderEmployeeSidebar = (
         ) : (
           <Badge variant="secondary">Clocked OUT</Badge>
         )}
+        {pendingSyncCount > 0 && (
+          <Badge className="bg-amber-500 text-white" title="Saved on this device and will sync when you're back online">
+            {pendingSyncCount} waiting to sync
+          </Badge>
+        )}
         {isManagerPreview && (
           <Badge variant="destructive">Read-only Preview</Badge>
         )}
@@ -2024,7 +2195,7 @@ const renderEmployeeSidebar = (
   {filteredDailySchedules.length > 0 ? (
     <ul className="space-y-4">
       {routedDailySchedules.map((schedule, index) => {
-  const scheduleSite = settings.sites.find((s) => s.name === schedule.siteName);
+  const scheduleSite = resolveSite(settings.sites, schedule.siteId, schedule.siteName);
 
  
 
@@ -2037,7 +2208,7 @@ const activeShiftForThisSchedule =
   );
 
 const clockedInAtThisSite = !!activeShiftForThisSchedule;
-  const status = currentSiteStatuses.get(schedule.siteName);
+  const status = scheduleSite ? currentSiteStatuses.get(siteKey(scheduleSite)) : undefined;
   const employeeCompletedThisSchedule = entries.some((e) => {
   if (e.employeeId !== employee.id) return false;
   if (e.action !== "out") return false;
@@ -2062,7 +2233,7 @@ const clockInDisabled =
   scheduleCompletedByAnyone;
 
   const hoursForThisSiteDay = getHoursForSiteDay(
-  schedule.siteName,
+  schedule,
   currentDate
 );
 
@@ -2102,6 +2273,12 @@ const hoursSpent =
   <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">
     Scheduled for: <span className="font-semibold text-emerald-700 dark:text-emerald-300">{format(currentDate, "EEEE, MMM d")}</span>
   </p>
+  {hasVisitWindow(schedule) && (
+    <p className="mt-1 flex items-center gap-1 text-sm font-medium text-sky-700 dark:text-sky-300">
+      <Clock3 className="h-4 w-4" />
+      {describeVisitWindow(schedule)}
+    </p>
+  )}
   {scheduleSite?.address && (
     <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
       {scheduleSite.address}
@@ -2136,6 +2313,25 @@ const hoursSpent =
     {asNoteText(schedule.note)}
   </div>
 )}
+{clockedInAtThisSite &&
+  onSetChecklistItem &&
+  scheduleSiteRefs(schedule)
+    .map((ref) => resolveSite(settings.sites, ref.siteId, ref.name))
+    .filter((site): site is Site => hasChecklist(site))
+    .map((site) => (
+      <VisitChecklistPanel
+        key={site.id}
+        companyId={companyId}
+        site={site}
+        scheduleId={schedule.id}
+        scheduleDate={scheduleDateKey}
+        visit={visitChecklists.find(
+          (v) => v.id === visitChecklistId(schedule.id, scheduleDateKey, site.id)
+        )}
+        readOnly={isManagerPreview}
+        onSetItem={onSetChecklistItem}
+      />
+    ))}
       <div className="flex gap-2 mt-2 flex-wrap">
         {clockedInAtThisSite ? (
           <Button
@@ -2145,7 +2341,8 @@ const hoursSpent =
   handleClockInOut(
     "out",
     schedule.siteName,
-    schedule.id
+    schedule.id,
+    schedule.siteId
   )
 }
             disabled={isManagerPreview}
@@ -2160,7 +2357,8 @@ const hoursSpent =
   handleClockInOut(
     "in",
     schedule.siteName,
-    schedule.id
+    schedule.id,
+    schedule.siteId
   )
 }
             disabled={isManagerPreview || clockInDisabled}
@@ -2181,6 +2379,42 @@ const hoursSpent =
   Note to Manager
 </Button>
 
+{onOfferShift && !isManagerPreview && scheduleDateKey >= format(new Date(), "yyyy-MM-dd") &&
+  (offeredShiftKeys.has(`${schedule.id}|${scheduleDateKey}`) ? (
+    <Badge variant="secondary" className="self-center">
+      <ArrowLeftRight className="mr-1 h-3 w-3" />
+      Offered
+    </Badge>
+  ) : (
+    <Button
+      size="sm"
+      variant="outline"
+      disabled={clockedInAtThisSite || employeeCompletedThisSchedule}
+      onClick={() =>
+        setOfferingShift({ schedule, date: scheduleDateKey, label: schedule.siteName })
+      }
+    >
+      <ArrowLeftRight className="mr-2 h-4 w-4" />
+      Give Away / Swap
+    </Button>
+  ))}
+
+{activeShiftForThisSchedule?.in && scheduleSite && onAddVisitPhoto && (
+  <VisitPhotoCapture
+    companyId={companyId}
+    employee={employee}
+    site={scheduleSite}
+    entryId={activeShiftForThisSchedule.in.id}
+    scheduleId={schedule.id}
+    scheduleDate={scheduleDateKey}
+    photos={visitPhotos.filter(
+      (p) => p.entryId === activeShiftForThisSchedule.in?.id
+    )}
+    disabled={isManagerPreview}
+    onAdd={onAddVisitPhoto}
+  />
+)}
+
 {settings.enableNavigationLinks !== false && scheduleSite && (
   <Button
     size="sm"
@@ -2222,9 +2456,7 @@ const hoursSpent =
                               {day.schedules.length > 0 ? (
                                 <div className="pl-4 border-l-2 border-primary/50 space-y-2">
                                   {day.schedules.map((schedule) => {
-  const scheduleSite = settings.sites.find(
-    (s) => s.name === schedule.siteName
-  );
+  const scheduleSite = resolveSite(settings.sites, schedule.siteId, schedule.siteName);
 
   return (
     <div
@@ -2253,6 +2485,12 @@ const hoursSpent =
               </p>
             )}
 
+          {hasVisitWindow(schedule) && (
+            <p className="mt-1 text-xs font-medium text-sky-700">
+              {describeVisitWindow(schedule)}
+            </p>
+          )}
+
           {schedule.tasks && (
             <p className="mt-1 text-muted-foreground">
               {schedule.tasks}
@@ -2283,6 +2521,25 @@ const hoursSpent =
                 </CardContent>
               </Card>
             )}
+
+            {onClaimShift && onCancelShiftSwap && (
+              <div className={cn(schedulePanelMode === "timeclock" && "hidden")}>
+                <ShiftSwapBoard
+                  employee={employee}
+                  employees={employees}
+                  schedules={schedules}
+                  occurrenceOverrides={occurrenceOverrides}
+                  sites={settings.sites}
+                  swaps={shiftSwaps}
+                  timeOffRequests={timeOffRequests}
+                  weekStartsOn={settings.weekStartsOn}
+                  myUpcomingShifts={myUpcomingShifts}
+                  disabled={isManagerPreview}
+                  onClaim={onClaimShift}
+                  onCancel={onCancelShiftSwap}
+                />
+              </div>
+            )}
           </div>
 
           <div
@@ -2528,9 +2785,16 @@ const hoursSpent =
         {/* ACTIVITY TAB */}
         <TabsContent value="activity">
           <Card>
-            <CardHeader>
-              <CardTitle>Your Recent Activity</CardTitle>
-              <CardDescription>Your last 20 clock-in/out events and completed work history.</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div>
+                <CardTitle>Your Recent Activity</CardTitle>
+                <CardDescription>Your last 20 clock-in/out events and completed work history.</CardDescription>
+              </div>
+              {onRequestTimeCorrection && !isManagerPreview && (
+                <Button variant="outline" size="sm" onClick={() => openTimeCorrection(null)}>
+                  Report Missed Punch
+                </Button>
+              )}
             </CardHeader>
             <CardContent className="p-3 sm:p-4">
               <ScrollArea className="h-[500px]">
@@ -2542,6 +2806,7 @@ const hoursSpent =
                       <TableHead>Action</TableHead>
                       <TableHead>Site</TableHead>
                       <TableHead>Note</TableHead>
+                      <TableHead />
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -2560,16 +2825,28 @@ const hoursSpent =
                             >
                               {e.action.toUpperCase()}
                             </Badge>
+                            {e.pendingSync && (
+                              <Badge variant="outline" className="ml-2 border-amber-500 text-amber-600">
+                                Pending sync
+                              </Badge>
+                            )}
                           </TableCell>
                           <TableCell>{e.site || "—"}</TableCell>
                           <TableCell className="truncate max-w-[10rem]" title={asNoteText(e.note)}>
                             {asNoteText(e.note) || "—"}
                           </TableCell>
+                          <TableCell className="text-right">
+                            {onRequestTimeCorrection && !isManagerPreview && !e.pendingSync && (
+                              <Button variant="ghost" size="sm" onClick={() => openTimeCorrection(e)}>
+                                Fix time
+                              </Button>
+                            )}
+                          </TableCell>
                         </TableRow>
                       ))
                     ) : (
                       <TableRow>
-                        <TableCell colSpan={4} className="h-24 text-center text-muted-foreground">
+                        <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
                           {employee.name ? "No entries yet." : "Enter your name to see your activity."}
                         </TableCell>
                       </TableRow>
@@ -2578,6 +2855,26 @@ const hoursSpent =
                     </Table>
   </div>
 </ScrollArea>
+
+              {myTimeCorrections.length > 0 && (
+                <div className="mt-4 space-y-2 border-t pt-4">
+                  <p className="text-sm font-semibold">Your time correction requests</p>
+                  {myTimeCorrections.map((r) => (
+                    <div key={r.id} className="flex items-center justify-between gap-2 text-xs">
+                      <span>
+                        Clock {r.action.toUpperCase()} at {r.site || "—"} → {formatDT(r.requestedTs)}
+                      </span>
+                      <Badge
+                        variant={r.status === "rejected" ? "destructive" : r.status === "approved" ? "default" : "secondary"}
+                        className="capitalize"
+                        title={r.rejectionReason || undefined}
+                      >
+                        {r.status}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -2604,9 +2901,19 @@ const hoursSpent =
         updateEmployee={updateEmployee}
         mode="employeeSelf"
         onRequestUpdate={onRequestUpdate}
-        
+        timeOffRequests={timeOffRequests.filter((r) => r.employeeId === employee.id)}
+        onRequestTimeOff={isManagerPreview ? undefined : onRequestTimeOff}
       />
 
+      {onOfferShift && (
+        <OfferShiftDialog
+          open={!!offeringShift}
+          onOpenChange={(open) => !open && setOfferingShift(null)}
+          shift={offeringShift}
+          onSubmit={onOfferShift}
+        />
+      )}
+
       {/* Schedule Note Dialog */}
       <Dialog open={isNoteDialogOpen} onOpenChange={setIsNoteDialogOpen}>
         <DialogContent>
@@ -2681,6 +2988,16 @@ const hoursSpent =
         </DialogContent>
       </Dialog>
 
+{onRequestTimeCorrection && (
+  <TimeCorrectionDialog
+    open={correctionOpen}
+    onOpenChange={setCorrectionOpen}
+    entry={correctionEntry}
+    sites={settings.sites ?? []}
+    onSubmit={onRequestTimeCorrection}
+  />
+)}
+
 <Dialog open={employeeNoteOpen} onOpenChange={setEmployeeNoteOpen}>
   <DialogContent>
     <DialogHeader>
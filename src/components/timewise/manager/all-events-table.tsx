@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useState, useMemo, useCallback } from "react";
-import type { Session, Entry, Site, Employee, MileageLog, OtherExpense, Settings } from "@/shared/types/domain";
+import type { Session, Entry, EntryAuditRecord, Site, Employee, MileageLog, OtherExpense, Settings } from "@/shared/types/domain";
 import { formatDT } from "@/lib/time-utils";
 import {
   Table,
@@ -14,7 +14,8 @@ import {
 } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
-import { ExternalLink, Trash2, Edit } from "lucide-react";
+import { ExternalLink, Trash2, Edit, History, Download } from "lucide-react";
+import { describeAuditFields, exportEntryAuditCsv } from "@/lib/entry-audit";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -57,13 +58,29 @@ interface AllEventsTableProps {
   otherExpenses: OtherExpense[];
   search: string;
   settings?: { mileageRate?: number; defaultHourlyWage?: number; };
-  updateEntry: (id: string, updates: Partial<Entry>) => Promise<void>;
+  updateEntry: (id: string, updates: Partial<Entry>, reason?: string) => Promise<void>;
   deleteEntry: (id: string) => Promise<void>;
+  entryAudits?: EntryAuditRecord[];
 }
 
-export function AllEventsTable({ sessions, sites, employees, mileageLogs, otherExpenses, search, settings, updateEntry, deleteEntry }: AllEventsTableProps) {
+export function AllEventsTable({ sessions, sites, employees, mileageLogs, otherExpenses, search, settings, updateEntry, deleteEntry, entryAudits = [] }: AllEventsTableProps) {
   const [editingEntry, setEditingEntry] = useState<Entry | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editReason, setEditReason] = useState("");
+  const [historyEntryId, setHistoryEntryId] = useState<string | null>(null);
+
+  const auditsByEntry = useMemo(() => {
+    const m = new Map<string, EntryAuditRecord[]>();
+    entryAudits.forEach((a) => {
+      if (!m.has(a.entryId)) m.set(a.entryId, []);
+      m.get(a.entryId)!.push(a);
+    });
+    return m;
+  }, [entryAudits]);
+
+  const historyAudits = historyEntryId
+    ? (auditsByEntry.get(historyEntryId) ?? []).slice().sort((a, b) => b.changedAt - a.changedAt)
+    : [];
 
   // --- Profitability Calculations ---
   const mileageRate = settings?.mileageRate ?? 0;
@@ -212,6 +229,7 @@ export function AllEventsTable({ sessions, sites, employees, mileageLogs, otherE
     const date = new Date(entry.ts);
     const localISO = new Date(date.getTime() - (date.getTimezoneOffset() * 60000)).toISOString().slice(0, 16);
     setEditingEntry({ ...entry, ts: localISO as any });
+    setEditReason("");
     setIsDialogOpen(true);
   };
   
@@ -249,7 +267,7 @@ export function AllEventsTable({ sessions, sites, employees, mileageLogs, otherE
       return;
     }
 
-    updateEntry(editingEntry.id, updates);
+    updateEntry(editingEntry.id, updates, editReason);
     setIsDialogOpen(false);
     setEditingEntry(null);
   };
@@ -257,7 +275,18 @@ export function AllEventsTable({ sessions, sites, employees, mileageLogs, otherE
 
   return (
     <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-      <h3 className="text-lg font-semibold mb-2">All Clock Events</h3>
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold">All Clock Events</h3>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={entryAudits.length === 0}
+          onClick={() => exportEntryAuditCsv(entryAudits)}
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Export Audit Log
+        </Button>
+      </div>
       <div className="rounded-lg border">
         <ScrollArea className="h-[420px]">
          <TooltipProvider>
@@ -297,6 +326,17 @@ export function AllEventsTable({ sessions, sites, employees, mileageLogs, otherE
                       >
                         {row.action}
                       </Badge>
+                      {row.entry.timeFlagged && (
+                        <Badge
+                          variant="outline"
+                          className="ml-2 border-amber-500 text-amber-600"
+                          title={`Device clock was off by ${Math.round(
+                            Math.abs(row.entry.clockSkewMs ?? 0) / 60000
+                          )} min when this entry synced`}
+                        >
+                          Check time
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>{row.entry.site}</TableCell>
                     <TableCell>
@@ -348,6 +388,15 @@ export function AllEventsTable({ sessions, sites, employees, mileageLogs, otherE
                               <Edit className="h-4 w-4" />
                             </Button>
                           </DialogTrigger>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistoryEntryId(row.entry.id)}
+                            title={`Change history (${auditsByEntry.get(row.entry.id)?.length ?? 0})`}
+                            disabled={!auditsByEntry.has(row.entry.id)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button variant="ghost" size="icon" onClick={() => deleteEntry(row.entry.id)} title="Delete entry">
                             <Trash2 className="h-4 w-4 text-destructive" />
                           </Button>
@@ -421,6 +470,15 @@ export function AllEventsTable({ sessions, sites, employees, mileageLogs, otherE
                   onChange={(e) => handleDataChange('note', e.target.value)}
                 />
               </div>
+               <div className="space-y-2">
+                <Label htmlFor="entry-reason">Reason for change</Label>
+                <Textarea
+                  id="entry-reason"
+                  value={editReason}
+                  onChange={(e) => setEditReason(e.target.value)}
+                  placeholder="Saved to the audit log, e.g. employee forgot to clock out"
+                />
+              </div>
             </div>
           )}
           <DialogFooter>
@@ -430,6 +488,46 @@ export function AllEventsTable({ sessions, sites, employees, mileageLogs, otherE
               <Button onClick={handleSave}>Save Changes</Button>
           </DialogFooter>
       </DialogContent>
+
+      <Dialog open={!!historyEntryId} onOpenChange={(open) => !open && setHistoryEntryId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Change History</DialogTitle>
+          </DialogHeader>
+          <ScrollArea className="max-h-[420px]">
+            <div className="space-y-3">
+              {historyAudits.map((a) => (
+                <div key={a.id} className="rounded-md border p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium capitalize">{a.change}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDT(a.changedAt)} · {a.changedByLabel}
+                    </span>
+                  </div>
+                  {a.before && Object.keys(a.before).length > 0 && (
+                    <p className="mt-1 text-xs text-muted-foreground line-through">
+                      {describeAuditFields(a.before)}
+                    </p>
+                  )}
+                  {a.after && Object.keys(a.after).length > 0 && (
+                    <p className="mt-1 text-xs">{describeAuditFields(a.after)}</p>
+                  )}
+                  {a.reason && <p className="mt-1 text-xs italic">Reason: {a.reason}</p>}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => exportEntryAuditCsv(historyAudits, historyEntryId ?? "entry")}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Dialog>
   );
 }
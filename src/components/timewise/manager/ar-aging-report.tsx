@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { format } from "date-fns";
+import type { Invoice, InvoicePayment } from "@/shared/types/domain";
+import { AGING_BUCKETS, arAging, groupPaymentsByInvoice } from "@/lib/invoice-payments";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Download, Hourglass } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ArAgingReportProps {
+  invoices: Invoice[];
+  payments: InvoicePayment[];
+}
+
+const money = (n: number) =>
+  n ? `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : "—";
+
+export function ArAgingReport({ invoices, payments }: ArAgingReportProps) {
+  const { rows, totals } = useMemo(
+    () => arAging(invoices, groupPaymentsByInvoice(payments)),
+    [invoices, payments]
+  );
+
+  const downloadCSV = () => {
+    const header = ["Site", "Invoices", ...AGING_BUCKETS.map((b) => b.label), "Total"];
+    const lines = [...rows, totals].map((r) => [
+      r.siteName,
+      r.invoiceCount,
+      ...AGING_BUCKETS.map((b) => r.buckets[b.key].toFixed(2)),
+      r.total.toFixed(2),
+    ]);
+
+    const csvContent = [header, ...lines]
+      .map((r) => r.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(","))
+      .join("\n");
+
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute("href", url);
+    link.setAttribute("download", `ar-aging-${format(new Date(), "yyyy-MM-dd")}.csv`);
+    link.style.visibility = "hidden";
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <Card className="mt-5 overflow-hidden border-slate-200 shadow-lg dark:border-slate-800">
+      <CardHeader className="flex flex-row items-start justify-between gap-3 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Hourglass className="h-5 w-5" />
+            Accounts Receivable Aging
+          </CardTitle>
+          <CardDescription>
+            Open balances by days past due, as of {format(new Date(), "MMM d, yyyy")}.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={downloadCSV} disabled={rows.length === 0}>
+          <Download className="mr-2 h-4 w-4" /> CSV
+        </Button>
+      </CardHeader>
+
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Site</TableHead>
+              {AGING_BUCKETS.map((b) => (
+                <TableHead key={b.key} className="text-right">
+                  {b.label}
+                </TableHead>
+              ))}
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length > 0 ? (
+              [...rows, totals].map((r) => {
+                const isTotal = r === totals;
+                return (
+                  <TableRow key={isTotal ? "__total" : r.siteName} className={cn(isTotal && "border-t-2 font-bold")}>
+                    <TableCell>
+                      {r.siteName}
+                      {!isTotal && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          ({r.invoiceCount})
+                        </span>
+                      )}
+                    </TableCell>
+                    {AGING_BUCKETS.map((b) => (
+                      <TableCell
+                        key={b.key}
+                        className={cn(
+                          "text-right font-mono",
+                          b.key === "90+" && r.buckets[b.key] > 0 && "text-rose-700 dark:text-rose-300"
+                        )}
+                      >
+                        {money(r.buckets[b.key])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-mono">{money(r.total)}</TableCell>
+                  </TableRow>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell colSpan={AGING_BUCKETS.length + 2} className="h-20 text-center text-muted-foreground">
+                  Nothing outstanding.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
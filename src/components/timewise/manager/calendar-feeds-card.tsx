@@ -0,0 +1,235 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { CalendarPlus, Copy, Loader2, Trash2 } from "lucide-react";
+import type { CalendarFeed, Employee, Site } from "@/shared/types/domain";
+import {
+  calendarFeedSubscribeUrl,
+  createCalendarFeed,
+  revokeCalendarFeed,
+  watchCalendarFeeds,
+} from "@/features/calendar-feeds/calendar-feeds";
+import { useCompany } from "@/providers/CompanyProvider";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface CalendarFeedsCardProps {
+  engine: "local" | "cloud";
+  employees: Employee[];
+  sites: Site[];
+}
+
+export function CalendarFeedsCard({ engine, employees, sites }: CalendarFeedsCardProps) {
+  const { companyId } = useCompany();
+  const { toast } = useToast();
+
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [kind, setKind] = useState<CalendarFeed["kind"]>("employee");
+  const [targetId, setTargetId] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (engine !== "cloud") return;
+    return watchCalendarFeeds(companyId, setFeeds, (e) =>
+      console.error("[calendar-feeds] listener failed", e)
+    );
+  }, [engine, companyId]);
+
+  const targets = useMemo(
+    () =>
+      (kind === "employee"
+        ? employees
+            .filter((e) => e.status !== "inactive")
+            .map((e) => ({ id: e.id, name: e.name }))
+        : sites
+            .filter((s) => s.status !== "inactive")
+            .map((s) => ({ id: s.id, name: s.name }))
+      ).sort((a, b) => a.name.localeCompare(b.name)),
+    [kind, employees, sites]
+  );
+
+  const sortedFeeds = useMemo(
+    () =>
+      feeds
+        .slice()
+        .sort((a, b) => a.kind.localeCompare(b.kind) || a.label.localeCompare(b.label)),
+    [feeds]
+  );
+
+  const copyLink = async (feedId: string) => {
+    const url = calendarFeedSubscribeUrl(companyId, feedId);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Feed link copied", description: url });
+    } catch {
+      window.prompt("Copy this calendar link:", url);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!targetId) return;
+    setCreating(true);
+    try {
+      const id = await createCalendarFeed(companyId, kind, targetId);
+      await copyLink(id);
+      setTargetId("");
+    } catch (e: any) {
+      toast({
+        variant: "destructive",
+        title: "Could not create feed",
+        description: e?.message || "Please try again.",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (feed: CalendarFeed) => {
+    const ok = window.confirm(
+      `Revoke the calendar feed for ${feed.label}? Calendars subscribed to it stop updating.`
+    );
+    if (!ok) return;
+
+    try {
+      await revokeCalendarFeed(companyId, feed.id);
+      toast({ title: "Feed revoked", description: feed.label });
+    } catch (e: any) {
+      toast({
+        variant: "destructive",
+        title: "Could not revoke feed",
+        description: e?.message || "Please try again.",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Feeds</CardTitle>
+        <CardDescription>
+          Subscribable links for Google or Apple Calendar showing an employee&apos;s or a
+          site&apos;s upcoming visits with address, entrance method and tasks. Alarm codes
+          are never included. Anyone with the link can read it, so revoke links that leak.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {engine !== "cloud" ? (
+          <p className="text-sm text-muted-foreground">
+            Calendar feeds require cloud storage.
+          </p>
+        ) : (
+          <>
+            <div className="grid gap-3 sm:grid-cols-[10rem_1fr_auto] sm:items-end">
+              <div className="space-y-2">
+                <Label>Feed for</Label>
+                <Select
+                  value={kind}
+                  onValueChange={(v) => {
+                    setKind(v as CalendarFeed["kind"]);
+                    setTargetId("");
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="employee">Employee</SelectItem>
+                    <SelectItem value="site">Site</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{kind === "employee" ? "Employee" : "Site"}</Label>
+                <Select value={targetId} onValueChange={setTargetId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={`Choose ${kind === "employee" ? "an employee" : "a site"}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {targets.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Button onClick={handleCreate} disabled={!targetId || creating}>
+                {creating ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <CalendarPlus className="mr-2 h-4 w-4" />
+                )}
+                Get Link
+              </Button>
+            </div>
+
+            {sortedFeeds.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Feed</TableHead>
+                    <TableHead>Last Used</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedFeeds.map((feed) => (
+                    <TableRow key={feed.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="capitalize">
+                            {feed.kind}
+                          </Badge>
+                          <span className="font-medium">{feed.label}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {feed.lastAccessedAt
+                          ? format(feed.lastAccessedAt, "MMM d, yyyy h:mm a")
+                          : "Never"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Copy link"
+                          onClick={() => copyLink(feed.id)}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Revoke"
+                          onClick={() => handleRevoke(feed)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No calendar feeds yet.</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  BACKUP_COLLECTIONS,
+  countBackupDocs,
+  type BackupCheck,
+} from "@/lib/backup";
+import type { CompanyBackup } from "@/features/backup/hooks/useCompanyBackup";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface CompanyBackupProps {
+  backup: CompanyBackup;
+}
+
+/**
+ * Full company backup: download an archive of every collection and the
+ * receipt files, or check one and restore it into this or another
+ * company.
+ */
+export function CompanyBackupPanel({ backup }: CompanyBackupProps) {
+  const { engine, companyId, busy, progress, exportBackup, readBackup, restoreBackup } = backup;
+  const [fileName, setFileName] = useState("");
+  const [check, setCheck] = useState<BackupCheck | null>(null);
+  const [targetId, setTargetId] = useState("");
+  const [notes, setNotes] = useState<string[] | null>(null);
+
+  const archive = check?.archive ?? null;
+
+  const onExport = () => {
+    const ok = window.confirm(
+      "Download a full backup of this company? The file includes PINs and bank details; keep it somewhere safe."
+    );
+    if (ok) void exportBackup();
+  };
+
+  const onPickFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    setNotes(null);
+    const result = await readBackup(file);
+    setCheck(result);
+    setTargetId(result.archive?.companyId === companyId ? "" : result.archive?.companyId ?? "");
+  };
+
+  const onRestore = async () => {
+    if (!archive) return;
+    const target = targetId.trim() || companyId;
+    const ok = window.confirm(
+      `Restore this backup into company "${target}" (${engine} engine)? Records in the backup replace those with the same id; nothing else is deleted.`
+    );
+    if (!ok) return;
+
+    try {
+      setNotes((await restoreBackup(archive, target)).notes);
+      setCheck(null);
+    } catch {
+      // restoreBackup reports the error
+    }
+  };
+
+  return (
+    <div className="border-t pt-3 mt-2 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold">Full company backup</p>
+          <p className="text-xs text-muted-foreground">
+            Every record, the settings and expense receipts in one file. Restore it here, into a
+            new company id, or on the other data engine.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" disabled={busy} onClick={onExport}>
+            {busy && !archive ? "Working…" : "Download backup"}
+          </Button>
+          <label>
+            <input
+              type="file"
+              accept="application/json"
+              className="hidden"
+              disabled={busy}
+              onChange={onPickFile}
+            />
+            <Button asChild size="sm" variant="outline" disabled={busy}>
+              <span>Restore…</span>
+            </Button>
+          </label>
+        </div>
+      </div>
+
+      {check && (
+        <div className="space-y-2 text-xs">
+          <p className="font-medium">{fileName}</p>
+
+          {!!check.errors.length && (
+            <ul className="text-destructive space-y-0.5">
+              {check.errors.map((e) => (
+                <li key={e}>{e}</li>
+              ))}
+            </ul>
+          )}
+
+          {archive && (
+            <>
+              <p className="text-muted-foreground">
+                Company {archive.companyId}, {archive.engine} engine, exported{" "}
+                {new Date(archive.exportedAt).toLocaleString()} (schema {archive.schemaVersion}).
+              </p>
+              <ul className="grid grid-cols-2 gap-x-4">
+                {BACKUP_COLLECTIONS.filter((spec) => archive.collections[spec.name]?.length).map(
+                  (spec) => (
+                    <li key={spec.name}>
+                      {spec.label}: {countBackupDocs(archive.collections[spec.name])}
+                    </li>
+                  )
+                )}
+                <li>Receipt files: {archive.files.length}</li>
+              </ul>
+
+              {!!check.warnings.length && (
+                <ul className="text-muted-foreground space-y-0.5">
+                  {check.warnings.map((w) => (
+                    <li key={w}>{w}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="space-y-1">
+                <Label htmlFor="backup-target" className="text-xs">
+                  Restore into company id
+                </Label>
+                <Input
+                  id="backup-target"
+                  className="h-8 text-xs"
+                  placeholder={companyId}
+                  value={targetId}
+                  onChange={(e) => setTargetId(e.target.value)}
+                />
+                {engine === "cloud" && targetId.trim() && targetId.trim() !== companyId && (
+                  <p className="text-muted-foreground">
+                    You need manager access to {targetId.trim()} to restore into it.
+                  </p>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <Button size="sm" disabled={busy} onClick={onRestore}>
+                  {busy && progress
+                    ? `Restoring… ${progress.written}/${progress.total}`
+                    : busy
+                      ? "Working…"
+                      : "Restore"}
+                </Button>
+                <Button size="sm" variant="ghost" disabled={busy} onClick={() => setCheck(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {notes && (
+        <div className="text-xs space-y-0.5">
+          <p className="font-medium">Restore finished.</p>
+          {notes.map((n) => (
+            <p key={n} className="text-muted-foreground">
+              {n}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Check, Users } from "lucide-react";
+import type { CleaningSchedule, Employee, Settings, Site, Team } from "@/shared/types/domain";
+import {
+  crewsFromRoster,
+  planCrews,
+  type Crew,
+  type CrewProposal,
+} from "@/lib/crew-planning";
+import { formatMinutes, siteLocation } from "@/lib/route-planning";
+import { resolveSite } from "@/lib/site-index";
+import { useTravelTimes } from "@/features/travel-times/hooks/useTravelTimes";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface CrewPlannerCardProps {
+  schedules: CleaningSchedule[];
+  teams: Team[];
+  employees: Employee[];
+  sites: Site[];
+  settings: Settings;
+  companyId: string;
+  cloud: boolean;
+  getScheduleLabel: (schedule: CleaningSchedule) => string;
+  onAcceptProposal: (schedule: CleaningSchedule, crew: Crew) => Promise<void> | void;
+}
+
+export function CrewPlannerCard({
+  schedules,
+  teams,
+  employees,
+  sites,
+  settings,
+  companyId,
+  cloud,
+  getScheduleLabel,
+  onAcceptProposal,
+}: CrewPlannerCardProps) {
+  const crews = useMemo(() => crewsFromRoster(teams, employees), [teams, employees]);
+
+  // Crews left out of today's plan (off, out sick, ...)
+  const [offCrewIds, setOffCrewIds] = useState<string[]>([]);
+  const [accepting, setAccepting] = useState(false);
+
+  const availableCrews = useMemo(
+    () => crews.filter((crew) => !offCrewIds.includes(crew.id)),
+    [crews, offCrewIds]
+  );
+
+  const routeSites = useMemo(
+    () => [
+      ...schedules.map((schedule) => resolveSite(sites, schedule.siteId, schedule.siteName)),
+      sites.find((site) => site.id === settings.routeStartSiteId),
+      sites.find((site) => site.id === settings.routeEndSiteId),
+    ],
+    [schedules, sites, settings.routeStartSiteId, settings.routeEndSiteId]
+  );
+
+  const travelTimes = useTravelTimes({ settings, companyId, cloud, sites: routeSites });
+
+  const plan = useMemo(
+    () =>
+      planCrews({
+        schedules,
+        crews: availableCrews,
+        employees,
+        sites,
+        startingLocation: siteLocation(sites, settings.routeStartSiteId),
+        endingLocation: siteLocation(sites, settings.routeEndSiteId),
+        travelTimes,
+      }),
+    [schedules, availableCrews, employees, sites, settings.routeStartSiteId, settings.routeEndSiteId, travelTimes]
+  );
+
+  const proposedIds = new Set(plan.proposals.map((p) => p.schedule.id));
+
+  const accept = async (proposals: CrewProposal[]) => {
+    setAccepting(true);
+    try {
+      for (const proposal of proposals) {
+        await onAcceptProposal(proposal.schedule, proposal.crew);
+      }
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  if (crews.length === 0) return null;
+
+  return (
+    <Card className="mb-5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Crew Planner
+        </CardTitle>
+        <CardDescription>
+          Splits the day&apos;s visits across crews by workload (cleaning divided by crew size,
+          plus travel). Assigned visits stay put; unassigned ones get a suggested crew.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-3">
+          {crews.map((crew) => (
+            <label key={crew.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={!offCrewIds.includes(crew.id)}
+                onCheckedChange={(checked) =>
+                  setOffCrewIds((ids) =>
+                    checked ? ids.filter((id) => id !== crew.id) : [...ids, crew.id]
+                  )
+                }
+              />
+              {crew.name}
+              {crew.kind === "team" && (
+                <span className="text-xs text-muted-foreground">({crew.size})</span>
+              )}
+            </label>
+          ))}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Crew</TableHead>
+              <TableHead>Visits</TableHead>
+              <TableHead>Cleaning</TableHead>
+              <TableHead>Travel</TableHead>
+              <TableHead>Workload</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {plan.routes.map(({ crew, schedules: crewSchedules, route, workloadMinutes }) => (
+              <TableRow key={crew.id}>
+                <TableCell className="font-medium">{crew.name}</TableCell>
+                <TableCell>
+                  {crewSchedules.length}
+                  {crewSchedules.some((s) => proposedIds.has(s.id)) && (
+                    <span className="ml-1 text-xs text-muted-foreground">
+                      ({crewSchedules.filter((s) => proposedIds.has(s.id)).length} suggested)
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell>{formatMinutes(Math.ceil(route.totalCleaningMinutes / crew.size))}</TableCell>
+                <TableCell>{formatMinutes(route.totalTravelMinutes)}</TableCell>
+                <TableCell>
+                  <span className="font-semibold">{formatMinutes(workloadMinutes)}</span>
+                  {route.lateStopCount > 0 && (
+                    <Badge variant="destructive" className="ml-2">
+                      {route.lateStopCount} late
+                    </Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {plan.imbalanceMinutes > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Longest and shortest crew days differ by {formatMinutes(plan.imbalanceMinutes)}.
+          </p>
+        )}
+
+        {plan.stranded.length > 0 && (
+          <p className="text-sm text-amber-700">
+            Assigned to a crew that is off today:{" "}
+            {plan.stranded.map(getScheduleLabel).join(", ")}
+          </p>
+        )}
+
+        {plan.proposals.length > 0 ? (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">Suggested assignments</p>
+              <Button size="sm" disabled={accepting} onClick={() => accept(plan.proposals)}>
+                <Check className="mr-2 h-4 w-4" />
+                Accept all
+              </Button>
+            </div>
+
+            {plan.proposals.map((proposal) => (
+              <div
+                key={proposal.schedule.id}
+                className="flex flex-col gap-2 rounded-md border p-3 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div>
+                  <p className="text-sm font-medium">
+                    {getScheduleLabel(proposal.schedule)} → {proposal.crew.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    +{formatMinutes(proposal.addedMinutes)} · {proposal.reason}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={accepting}
+                  onClick={() => accept([proposal])}
+                >
+                  Accept
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Every visit today is assigned.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  LATEST_SCHEMA_VERSION,
+  countOps,
+  describeMigrationOp,
+  type PlannedMigration,
+} from "@/lib/migrations";
+import type { CompanyMigrations } from "@/features/migrations/hooks/useMigrations";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+// Diff lines shown per migration before "and N more"
+const PREVIEW_LINES = 25;
+
+interface DataMigrationsProps {
+  migrations: CompanyMigrations;
+}
+
+/**
+ * Pending company data migrations. "Dry run" lists every change without
+ * writing; "Apply" plans again and writes them.
+ */
+export function DataMigrations({ migrations }: DataMigrationsProps) {
+  const { schemaVersion, pending, checkpoint, running, run } = migrations;
+  const [planned, setPlanned] = useState<PlannedMigration[] | null>(null);
+
+  const changeCount = planned?.reduce((n, p) => n + p.changes.length, 0) ?? 0;
+
+  const dryRun = async () => {
+    try {
+      setPlanned((await run({ dryRun: true })).planned);
+    } catch {
+      // run reports the error
+    }
+  };
+
+  const apply = async () => {
+    const ok = window.confirm(
+      `Apply ${pending.length} migration(s)? Changes are written in batches; if a run stops part way, run it again to finish.`
+    );
+    if (!ok) return;
+
+    try {
+      await run();
+      setPlanned(null);
+    } catch {
+      // run reports the error
+    }
+  };
+
+  return (
+    <div className="border-t pt-3 mt-2 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold flex items-center gap-2">
+            Data migrations
+            <Badge variant="outline" className="text-xs">
+              Schema {schemaVersion} of {LATEST_SCHEMA_VERSION}
+            </Badge>
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Moves older records onto the current data format. Do a dry run first to see every
+            change.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" disabled={running || !pending.length} onClick={dryRun}>
+            Dry run
+          </Button>
+          <Button size="sm" disabled={running || !pending.length || !planned} onClick={apply}>
+            {running && checkpoint
+              ? `Applying… ${checkpoint.committed}/${checkpoint.total}`
+              : running
+                ? "Working…"
+                : "Apply"}
+          </Button>
+        </div>
+      </div>
+
+      {!running && checkpoint && (
+        <p className="text-xs text-destructive">
+          Migration {checkpoint.version} stopped after {checkpoint.committed} of {checkpoint.total}{" "}
+          changes. Apply again to finish it.
+        </p>
+      )}
+
+      {!pending.length && (
+        <p className="text-xs text-muted-foreground">Company data is up to date.</p>
+      )}
+
+      {!!pending.length && !planned && (
+        <ul className="text-xs space-y-0.5">
+          {pending.map((m) => (
+            <li key={m.version}>
+              <span className="font-medium">
+                {m.version}. {m.title}
+              </span>{" "}
+              <span className="text-muted-foreground">— {m.description}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {planned && (
+        <div className="space-y-3 text-xs">
+          {changeCount === 0 && (
+            <p className="text-muted-foreground">
+              Nothing to change. Apply records the new schema version.
+            </p>
+          )}
+
+          {planned.map(({ migration, changes, warnings }) => {
+            const lines = changes.flatMap((c) => c.ops.flatMap(describeMigrationOp));
+            return (
+              <div key={migration.version} className="space-y-1">
+                <p className="font-medium">
+                  {migration.version}. {migration.title}{" "}
+                  <span className="text-muted-foreground font-normal">
+                    — {changes.length} change(s), {countOps(changes)} document write(s)
+                  </span>
+                </p>
+
+                {!!warnings?.length && (
+                  <ul className="text-destructive space-y-0.5">
+                    {warnings.map((w) => (
+                      <li key={w}>{w}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {!!lines.length && (
+                  <details>
+                    <summary className="cursor-pointer text-muted-foreground">Show changes</summary>
+                    <ul className="font-mono mt-1 space-y-0.5 break-all">
+                      {lines.slice(0, PREVIEW_LINES).map((line, i) => (
+                        <li key={i}>{line}</li>
+                      ))}
+                      {lines.length > PREVIEW_LINES && (
+                        <li className="text-muted-foreground">
+                          …and {lines.length - PREVIEW_LINES} more
+                        </li>
+                      )}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   Card,
   CardContent,
@@ -16,7 +16,7 @@ import {
   TableBody,
   TableCell,
 } from "@/components/ui/table";
-import { parseISO, isValid } from "date-fns";
+import { format, parseISO, isValid } from "date-fns";
 import {
   ResponsiveContainer,
   BarChart,
@@ -34,6 +34,7 @@ import {
 
 import type {
   Invoice,
+  InvoicePayment,
   OtherExpense,
   PayrollPeriod,
   MileageLog,
@@ -50,6 +51,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { groupSessions } from "@/lib/time-utils";
+import { groupPaymentsByInvoice, isLegacyPaid } from "@/lib/invoice-payments";
+import { resolveSite } from "@/lib/site-index";
 import { Info } from "lucide-react";
 import {
   TooltipProvider,
@@ -169,9 +172,7 @@ function getLivePayrollGrossFromEntries(args: {
   const fromTime = startDate.getTime();
   const toTime = endDate.getTime();
 
-  const siteMap = new Map(
-    (settings?.sites ?? []).map((s) => [s.name, s])
-  );
+  const sites = settings?.sites ?? [];
 
   const filteredEntries = entries.filter(
     (entry) => entry.ts >= fromTime && entry.ts <= toTime
@@ -193,7 +194,7 @@ function getLivePayrollGrossFromEntries(args: {
 
     for (const session of employeeSessions) {
       const sessionMinutes = Number(session.minutes ?? 0);
-      const site = siteMap.get(session.in?.site || "General");
+      const site = resolveSite(sites, session.in?.siteId, session.in?.site || "General");
 
       basePay +=
         (sessionMinutes / 60) *
@@ -259,6 +260,7 @@ function getPayrollProgressForMonth(
 
 export interface FinancialsViewProps {
   invoices?: Invoice[] | null;
+  invoicePayments?: InvoicePayment[] | null;
   otherExpenses?: OtherExpense[] | null;
   mileageLogs?: MileageLog[] | null;
   payrollPeriods?: PayrollPeriod[] | null;
@@ -268,6 +270,8 @@ export interface FinancialsViewProps {
   fromDate?: string;
   toDate?: string;
   mileageRate?: number;
+  // Asks for time entries back to the start of the range (YYYY-MM-DD)
+  onNeedEntriesFrom?: (date: string) => void;
 }
 
 function ensureArray<T>(v: T[] | null | undefined): T[] {
@@ -293,6 +297,7 @@ const months = [
 
 export function FinancialsView({
   invoices,
+  invoicePayments,
   otherExpenses,
   mileageLogs,
   payrollPeriods,
@@ -302,8 +307,13 @@ export function FinancialsView({
   fromDate: customFromDate,
   toDate: customToDate,
   mileageRate = 0.67,
+  onNeedEntriesFrom,
 }: FinancialsViewProps) {
   const invs = ensureArray(invoices);
+  const paymentsByInvoice = useMemo(
+    () => groupPaymentsByInvoice(ensureArray(invoicePayments)),
+    [invoicePayments]
+  );
   const exps = ensureArray(otherExpenses);
   const miles = ensureArray(mileageLogs);
   const pays = ensureArray(payrollPeriods);
@@ -339,6 +349,10 @@ const [accountingView, setAccountingView] =
     return { minDate: start, maxDate: end };
   }, [viewType, selectedYear, selectedMonth, customFromDate, customToDate]);
 
+  useEffect(() => {
+    if (minDate && isValid(minDate)) onNeedEntriesFrom?.(format(minDate, "yyyy-MM-dd"));
+  }, [minDate, onNeedEntriesFrom]);
+
 const buildFinancialData = (view: "operational" | "cash") => {  
     const monthly = new Map<
       MonthKey,
@@ -348,30 +362,51 @@ const buildFinancialData = (view: "operational" | "cash") => {
     const minMs = minDate ? minDate.getTime() : -Infinity;
     const maxMs = maxDate ? maxDate.getTime() : Infinity;
 
-    for (const inv of invs) {
-  const d =
-  view === "cash"
-    ? toDateMaybe(
-        (inv as any).paidDate ??
-          (inv as any).paymentDate ??
-          (inv as any).paidAt
-      )
-    : toDateMaybe(
-        (inv as any).serviceEndDate ??
-          (inv as any).serviceDate ??
-          (inv as any).date ??
-          (inv as any).issuedAt ??
-          (inv as any).createdAt
-      );
-
-  if (!d || !inRange(d, minDate, maxDate)) continue;
-
-  const key = monthKey(d);
+    const addRevenue = (d: Date | null, amount: number) => {
+      if (!d || !inRange(d, minDate, maxDate)) return;
+      const key = monthKey(d);
       const row =
         monthly.get(key) ??
         { revenue: 0, other: 0, payroll: 0, mileage: 0 };
-      row.revenue += getInvoiceTotal(inv);
+      row.revenue += amount;
       monthly.set(key, row);
+    };
+
+    for (const inv of invs) {
+      const ledger = paymentsByInvoice.get(inv.id) ?? [];
+
+      if (view === "cash") {
+        // Cash basis: money counts when it is received
+        if (isLegacyPaid(inv, ledger)) {
+          addRevenue(
+            toDateMaybe(
+              (inv as any).paidDate ??
+                (inv as any).paymentDate ??
+                (inv as any).paidAt
+            ),
+            getInvoiceTotal(inv)
+          );
+        }
+        for (const p of ledger) {
+          if (p.kind === "payment") addRevenue(toDateMaybe(p.date), Number(p.amount) || 0);
+        }
+        continue;
+      }
+
+      // Accrual: billed when the service is delivered, less any credit memos
+      addRevenue(
+        toDateMaybe(
+          (inv as any).serviceEndDate ??
+            (inv as any).serviceDate ??
+            (inv as any).date ??
+            (inv as any).issuedAt ??
+            (inv as any).createdAt
+        ),
+        getInvoiceTotal(inv)
+      );
+      for (const p of ledger) {
+        if (p.kind === "credit_memo") addRevenue(toDateMaybe(p.date), -(Number(p.amount) || 0));
+      }
     }
 
     for (const exp of exps) {
@@ -675,6 +710,7 @@ const revenueVariance =
   () => buildFinancialData("operational"),
   [
     invs,
+    paymentsByInvoice,
     exps,
     miles,
     pays,
@@ -691,6 +727,7 @@ const cashData = useMemo(
   () => buildFinancialData("cash"),
   [
     invs,
+    paymentsByInvoice,
     exps,
     miles,
     pays,
@@ -839,7 +876,7 @@ const {
       <CardHeader className="border-b border-emerald-100 bg-emerald-50/70 dark:border-emerald-900 dark:bg-emerald-950/30">
         <CardTitle className="text-emerald-800 dark:text-emerald-300">Operational P&amp;L</CardTitle>
         <CardDescription>
-          Revenue earned and expenses accrued.
+          Revenue invoiced (net of credit memos) and expenses accrued.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-2 text-sm">
@@ -865,7 +902,7 @@ const {
       <CardHeader className="border-b border-blue-100 bg-blue-50/70 dark:border-blue-900 dark:bg-blue-950/30">
         <CardTitle className="text-blue-800 dark:text-blue-300">Cash Flow</CardTitle>
         <CardDescription>
-          Cash collected and cash-based expenses.
+          Invoice payments received and cash-based expenses.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-2 text-sm">
@@ -0,0 +1,244 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { format } from "date-fns";
+import type { Invoice, InvoicePayment, PaymentMethod } from "@/shared/types/domain";
+import type { NewInvoicePayment } from "@/features/invoices/repositories/types";
+import { invoiceBalance } from "@/lib/invoice-payments";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  check: "Check",
+  ach: "ACH / Bank transfer",
+  card: "Card",
+  cash: "Cash",
+  other: "Other",
+};
+
+interface InvoicePaymentsDialogProps {
+  invoice: Invoice | null;
+  payments: InvoicePayment[];
+  onOpenChange: (open: boolean) => void;
+  onAdd: (invoiceId: string, payment: NewInvoicePayment) => Promise<unknown>;
+  onRemove: (invoiceId: string, paymentId: string) => Promise<unknown>;
+}
+
+const money = (n: number) => `$${n.toFixed(2)}`;
+
+export function InvoicePaymentsDialog({
+  invoice,
+  payments,
+  onOpenChange,
+  onAdd,
+  onRemove,
+}: InvoicePaymentsDialogProps) {
+  const balance = useMemo(
+    () => (invoice ? invoiceBalance(invoice, payments) : null),
+    [invoice, payments]
+  );
+
+  // Rendered with key={invoice.id}, so the form starts from the remaining balance
+  const [kind, setKind] = useState<InvoicePayment["kind"]>("payment");
+  const [amount, setAmount] = useState(() =>
+    balance && balance.balanceDue > 0 ? balance.balanceDue.toFixed(2) : ""
+  );
+  const [method, setMethod] = useState<PaymentMethod>("check");
+  const [reference, setReference] = useState("");
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const sorted = useMemo(
+    () => payments.slice().sort((a, b) => a.date.localeCompare(b.date)),
+    [payments]
+  );
+
+  const handleAdd = async () => {
+    if (!invoice) return;
+    const value = Math.round((parseFloat(amount) || 0) * 100) / 100;
+    if (value <= 0 || !date) return;
+
+    setSaving(true);
+    try {
+      await onAdd(invoice.id, {
+        kind,
+        amount: value,
+        method: kind === "payment" ? method : undefined,
+        reference: reference.trim() || undefined,
+        date,
+        note: note.trim() || undefined,
+      });
+      setAmount("");
+      setReference("");
+      setNote("");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Payments — {invoice?.invoiceNumber}</DialogTitle>
+          <DialogDescription>{invoice?.siteName}</DialogDescription>
+        </DialogHeader>
+
+        {balance && (
+          <div className="grid grid-cols-2 gap-3 text-sm sm:grid-cols-4">
+            <div className="rounded-lg border p-3">
+              <div className="text-muted-foreground">Total</div>
+              <div className="font-mono font-semibold">{money(balance.total)}</div>
+            </div>
+            <div className="rounded-lg border p-3">
+              <div className="text-muted-foreground">Paid</div>
+              <div className="font-mono font-semibold text-emerald-700">{money(balance.paid)}</div>
+            </div>
+            <div className="rounded-lg border p-3">
+              <div className="text-muted-foreground">Credits</div>
+              <div className="font-mono font-semibold">{money(balance.credited)}</div>
+            </div>
+            <div className="rounded-lg border p-3">
+              <div className="text-muted-foreground">Balance Due</div>
+              <div className="font-mono font-semibold text-rose-700">{money(balance.balanceDue)}</div>
+            </div>
+          </div>
+        )}
+
+        <div className="max-h-56 overflow-y-auto rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sorted.length > 0 ? (
+                sorted.map((p) => (
+                  <TableRow key={p.id}>
+                    <TableCell>{p.date}</TableCell>
+                    <TableCell>
+                      <Badge variant={p.kind === "payment" ? "default" : "outline"}>
+                        {p.kind === "payment" ? "Payment" : "Credit memo"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{p.method ? METHOD_LABELS[p.method] : "—"}</TableCell>
+                    <TableCell className="max-w-[160px] truncate" title={p.note || undefined}>
+                      {p.reference || "—"}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{money(Number(p.amount) || 0)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        aria-label="Delete payment"
+                        onClick={() => invoice && onRemove(invoice.id, p.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-16 text-center text-muted-foreground">
+                    {invoice?.status === "paid"
+                      ? `Marked paid${invoice.paidDate ? ` on ${invoice.paidDate}` : ""} before payments were tracked.`
+                      : "No payments recorded yet."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="space-y-3 rounded-lg border bg-muted/30 p-4">
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={kind} onValueChange={(v: InvoicePayment["kind"]) => setKind(v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="payment">Payment</SelectItem>
+                  <SelectItem value="credit_memo">Credit memo</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="paymentAmount">Amount ($)</Label>
+              <Input
+                id="paymentAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="paymentDate">Date</Label>
+              <Input id="paymentDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+
+            {kind === "payment" && (
+              <div className="space-y-1">
+                <Label>Method</Label>
+                <Select value={method} onValueChange={(v: PaymentMethod) => setMethod(v)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(METHOD_LABELS) as PaymentMethod[]).map((m) => (
+                      <SelectItem key={m} value={m}>
+                        {METHOD_LABELS[m]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label htmlFor="paymentReference">
+                {kind === "payment" ? "Reference (check #, txn id)" : "Memo #"}
+              </Label>
+              <Input
+                id="paymentReference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="paymentNote">Note</Label>
+              <Input id="paymentNote" value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleAdd} disabled={saving || !(parseFloat(amount) > 0) || !date}>
+              {kind === "payment" ? "Record Payment" : "Add Credit Memo"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,6 +19,9 @@ import {
   AlertCircle,
   Search,
   RefreshCw,
+  Wallet,
+  Mail,
+  Loader2,
 } from "lucide-react";
 import {
   Dialog,
@@ -42,6 +45,12 @@ import { exportInvoiceToPDF } from "@/lib/invoice-export";
 import { useToast } from "@/hooks/use-toast";
 import { generateRecurringInvoicesForMonth } from "@/lib/recurring-invoices";
 import { Checkbox } from "@/components/ui/checkbox";
+import { groupPaymentsByInvoice, invoiceBalance, ledgerFields } from "@/lib/invoice-payments";
+import { InvoicePaymentsDialog } from "./invoice-payments-dialog";
+import { ArAgingReport } from "./ar-aging-report";
+import { sendInvoiceEmail } from "@/features/invoices/invoice-email";
+import { useEngine } from "@/providers/EngineProvider";
+import { useCompany } from "@/providers/CompanyProvider";
 
 interface InvoiceViewProps {
   sites: Site[];
@@ -52,6 +61,8 @@ const statusColors: Record<Invoice["status"], string> = {
     "border border-amber-200 bg-gradient-to-r from-amber-100 to-orange-100 text-amber-800 shadow-sm dark:border-amber-800 dark:from-amber-950/50 dark:to-orange-950/40 dark:text-amber-300",
   sent:
     "border border-blue-200 bg-gradient-to-r from-blue-100 to-sky-100 text-blue-800 shadow-sm dark:border-blue-800 dark:from-blue-950/50 dark:to-sky-950/40 dark:text-blue-300",
+  partially_paid:
+    "border border-teal-200 bg-gradient-to-r from-teal-100 to-cyan-100 text-teal-800 shadow-sm dark:border-teal-800 dark:from-teal-950/50 dark:to-cyan-950/40 dark:text-teal-300",
   paid:
     "border border-emerald-200 bg-gradient-to-r from-emerald-100 to-green-100 text-emerald-800 shadow-sm dark:border-emerald-800 dark:from-emerald-950/50 dark:to-green-950/40 dark:text-emerald-300",
   void:
@@ -59,13 +70,27 @@ const statusColors: Record<Invoice["status"], string> = {
 };
 
 export function InvoiceView({ sites }: InvoiceViewProps) {
-  const { invoices, create: addInvoice, update: updateInvoice, remove: deleteInvoice } = useInvoices();
+  const {
+    invoices,
+    payments,
+    create: addInvoice,
+    update: updateInvoice,
+    remove: deleteInvoice,
+    addPayment,
+    removePayment,
+  } = useInvoices();
+  const paymentsByInvoice = useMemo(() => groupPaymentsByInvoice(payments), [payments]);
+  const [paymentsInvoiceId, setPaymentsInvoiceId] = useState<string | null>(null);
+  const paymentsInvoice = invoices.find((inv) => inv.id === paymentsInvoiceId) ?? null;
 
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
   const [draftInvoice, setDraftInvoice] = useState<Partial<Invoice>>({});
 
   const { toast } = useToast();
+  const { engine } = useEngine();
+  const { companyId } = useCompany();
+  const [emailingId, setEmailingId] = useState<string | null>(null);
 
   const [monthISO, setMonthISO] = useState(new Date().toISOString().slice(0, 7));
   const [filterMode, setFilterMode] = useState<"all" | "month" | "year">("month");
@@ -164,18 +189,16 @@ if (q) {
 
     return displayedInvoices.reduce(
       (totals, invoice) => {
-        const amount = withComputed(invoice).total || 0;
+        const balance = invoiceBalance(invoice, paymentsByInvoice.get(invoice.id));
 
         if (invoice.status !== "void") {
-          totals.totalInvoiced += amount;
+          totals.totalInvoiced += balance.total;
         }
 
-        if (invoice.status === "paid") {
-          totals.paid += amount;
-        }
+        totals.paid += balance.paid;
 
-        if (invoice.status !== "paid" && invoice.status !== "void") {
-          totals.outstanding += amount;
+        if (balance.balanceDue > 0 && invoice.status !== "void") {
+          totals.outstanding += balance.balanceDue;
 
           if (
             invoice.dueDate &&
@@ -195,7 +218,7 @@ if (q) {
         overdue: 0,
       }
     );
-  }, [displayedInvoices]);
+  }, [displayedInvoices, paymentsByInvoice]);
 
   const handleGenerateRecurring = () => {
     const newInvoices = generateRecurringInvoicesForMonth({
@@ -222,6 +245,23 @@ if (q) {
     });
   };
 
+  const handleEmailInvoice = async (invoice: Invoice) => {
+    setEmailingId(invoice.id);
+    try {
+      const to = await sendInvoiceEmail(companyId, invoice.id);
+      toast({ title: "Invoice emailed", description: `${invoice.invoiceNumber} sent to ${to}.` });
+    } catch (e: any) {
+      toast({
+        variant: "destructive",
+        title: "Email failed",
+        description: e?.message || "Could not send the invoice.",
+        duration: 9000,
+      });
+    } finally {
+      setEmailingId(null);
+    }
+  };
+
   const handleOpenDialog = (invoice: Invoice | null = null) => {
     setEditingInvoice(invoice);
 
@@ -317,7 +357,12 @@ paidDate: (draftInvoice as any).paidDate || null,
     };
 
     const computed = withComputed(baseInvoice);
-    const cleanedData = cleanForFirestore(computed);
+    // A new total can change what is still owed
+    const ledger = editingInvoice ? paymentsByInvoice.get(editingInvoice.id) ?? [] : [];
+    const cleanedData = cleanForFirestore({
+      ...computed,
+      ...ledgerFields({ ...computed, id: editingInvoice?.id ?? "" }, ledger),
+    });
 
     if (editingInvoice) {
       updateInvoice(editingInvoice.id, cleanedData);
@@ -329,9 +374,10 @@ paidDate: (draftInvoice as any).paidDate || null,
   };
 
   const downloadCSV = () => {
-    const header = ["Invoice #", "Date", "Due Date", "Site", "Status", "Subtotal", "Tax", "Discount", "Total"];
+    const header = ["Invoice #", "Date", "Due Date", "Site", "Status", "Subtotal", "Tax", "Discount", "Total", "Paid", "Credits", "Balance Due"];
     const rows = displayedInvoices.map((inv) => {
       const computed = withComputed(inv);
+      const balance = invoiceBalance(inv, paymentsByInvoice.get(inv.id));
       return [
         inv.invoiceNumber,
         inv.date,
@@ -342,6 +388,9 @@ paidDate: (draftInvoice as any).paidDate || null,
         computed.tax.toFixed(2),
         computed.discount.toFixed(2),
         computed.total.toFixed(2),
+        balance.paid.toFixed(2),
+        balance.credited.toFixed(2),
+        balance.balanceDue.toFixed(2),
       ];
     });
 
@@ -526,62 +575,16 @@ paidDate: (draftInvoice as any).paidDate || null,
                           onChange={(e) => setDraftInvoice((prev) => ({ ...prev, dueDate: e.target.value }))}
                         />
                       </div>
-<div className="space-y-2">
-  <Label htmlFor="paidDate">
-    Paid Date
-  </Label>
-
-  <Input
-  id="paidDate"
-  type="date"
-  value={(draftInvoice as any).paidDate || ""}
-  onChange={(e) =>
-    setDraftInvoice((prev) => ({
-      ...prev,
-      paidDate: e.target.value || null,
-      status: e.target.value
-        ? "paid"
-        : prev.status === "paid"
-          ? "sent"
-          : prev.status,
-    }))
-  }
-/>
-</div>
-                      <div className="space-y-2">
-  <Label htmlFor="paidDate">Paid Date</Label>
-
-  <Input
-    id="paidDate"
-    type="date"
-    value={(draftInvoice as any).paidDate || ""}
-    onChange={(e) =>
-      setDraftInvoice((prev) => ({
-        ...prev,
-        paidDate: e.target.value || null,
-        status: e.target.value
-          ? "paid"
-          : prev.status === "paid"
-            ? "sent"
-            : prev.status,
-      }))
-    }
-  />
-</div>
-
 <div className="space-y-2">
   <Label htmlFor="status">Status</Label>
 
+  {/* Paid and partially paid follow from recorded payments */}
   <Select
   value={draftInvoice.status}
   onValueChange={(v: Invoice["status"]) =>
     setDraftInvoice((prev) => ({
       ...prev,
       status: v,
-      paidDate:
-        v === "paid"
-          ? prev.paidDate || format(new Date(), "yyyy-MM-dd")
-          : null,
     }))
   }
 >
@@ -592,7 +595,8 @@ paidDate: (draftInvoice as any).paidDate || null,
   <SelectContent>
     <SelectItem value="draft">Draft</SelectItem>
     <SelectItem value="sent">Sent</SelectItem>
-    <SelectItem value="paid">Paid</SelectItem>
+    <SelectItem value="partially_paid" disabled>Partially Paid</SelectItem>
+    <SelectItem value="paid" disabled>Paid</SelectItem>
     <SelectItem value="void">Void</SelectItem>
   </SelectContent>
 </Select>
@@ -959,6 +963,7 @@ paidDate: (draftInvoice as any).paidDate || null,
                 <TableHead className="text-white">Date</TableHead>
                 <TableHead className="text-white">Due Date</TableHead>
                 <TableHead className="text-right text-white">Total</TableHead>
+                <TableHead className="text-right text-white">Balance</TableHead>
                 <TableHead className="text-right text-white">Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -972,8 +977,15 @@ paidDate: (draftInvoice as any).paidDate || null,
                   >
                     <TableCell>
                       <Badge className={cn("rounded-full px-3 py-1 font-semibold capitalize", statusColors[inv.status])}>
-                        {inv.status}
+                        {inv.status.replace("_", " ")}
                       </Badge>
+                      {inv.lastEmailedAt && (
+                        <div className="mt-1 text-xs text-muted-foreground">
+                          Emailed {format(new Date(inv.lastEmailedAt), "MMM d")}
+                          {!!inv.remindersSent?.length &&
+                            ` · ${inv.remindersSent.length} reminder${inv.remindersSent.length > 1 ? "s" : ""}`}
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell className="font-semibold text-blue-700 dark:text-blue-300">
                       {inv.invoiceNumber}
@@ -992,6 +1004,9 @@ paidDate: (draftInvoice as any).paidDate || null,
                     <TableCell className="text-right font-mono font-bold text-emerald-700 dark:text-emerald-300">
                       ${(withComputed(inv).total || 0).toFixed(2)}
                     </TableCell>
+                    <TableCell className="text-right font-mono">
+                      ${invoiceBalance(inv, paymentsByInvoice.get(inv.id)).balanceDue.toFixed(2)}
+                    </TableCell>
                     <TableCell className="text-right">
                       <Button
                         variant="ghost"
@@ -1001,6 +1016,35 @@ paidDate: (draftInvoice as any).paidDate || null,
                       >
                         <Download className="h-4 w-4" />
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="rounded-full bg-sky-50 text-sky-600 shadow-sm transition-all hover:scale-110 hover:bg-sky-100 hover:text-sky-700 dark:bg-sky-950/30 dark:hover:bg-sky-950/60"
+                        onClick={() => handleEmailInvoice(inv)}
+                        disabled={engine !== "cloud" || inv.status === "void" || emailingId === inv.id}
+                        aria-label="Email invoice"
+                        title={
+                          inv.lastEmailedAt
+                            ? `Last emailed ${format(new Date(inv.lastEmailedAt), "MMM d, yyyy h:mm a")}`
+                            : "Email to billing contact"
+                        }
+                      >
+                        {emailingId === inv.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Mail className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="rounded-full bg-emerald-50 text-emerald-600 shadow-sm transition-all hover:scale-110 hover:bg-emerald-100 hover:text-emerald-700 dark:bg-emerald-950/30 dark:hover:bg-emerald-950/60"
+                        onClick={() => setPaymentsInvoiceId(inv.id)}
+                        disabled={inv.status === "void"}
+                        aria-label="Payments"
+                      >
+                        <Wallet className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -1022,7 +1066,7 @@ paidDate: (draftInvoice as any).paidDate || null,
                 ))
               ) : (
                 <TableRow>
-                  <TableCell colSpan={7} className="h-24 text-center">
+                  <TableCell colSpan={8} className="h-24 text-center">
                     No invoices found for this filter.
                   </TableCell>
                 </TableRow>
@@ -1031,6 +1075,17 @@ paidDate: (draftInvoice as any).paidDate || null,
           </Table>
         </ScrollArea>
         </div>
+
+        <ArAgingReport invoices={invoices} payments={payments} />
+
+        <InvoicePaymentsDialog
+          key={paymentsInvoice?.id ?? "none"}
+          invoice={paymentsInvoice}
+          payments={paymentsInvoice ? paymentsByInvoice.get(paymentsInvoice.id) ?? [] : []}
+          onOpenChange={(open) => !open && setPaymentsInvoiceId(null)}
+          onAdd={addPayment}
+          onRemove={removePayment}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,354 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, LocateFixed, Minus, Plus } from "lucide-react";
+import type { Entry, Session, Settings, Site, SiteStatus } from "@/shared/types/domain";
+import { minutesToHHMM } from "@/lib/time-utils";
+import {
+  clockInsOutsideGeofence,
+  geofenceRadiusFeet,
+  liveSitePins,
+  unmappedShifts,
+  type LiveSitePin,
+} from "@/lib/live-ops";
+import {
+  createTileProvider,
+  fitBounds,
+  project,
+  toViewport,
+  unproject,
+  visibleTiles,
+  type LatLng,
+  type TileProvider,
+} from "@/lib/map-tiles";
+import { cn } from "@/lib/utils";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+const MAP_HEIGHT = 480;
+
+const statusStyle: Record<SiteStatus | "unscheduled", { color: string; label: string }> = {
+  incomplete: { color: "bg-red-500", label: "Incomplete" },
+  "in-process": { color: "bg-lime-400", label: "In Process" },
+  complete: { color: "bg-green-500", label: "Complete" },
+  unscheduled: { color: "bg-slate-400", label: "Not scheduled today" },
+};
+
+interface LiveOpsMapProps {
+  sites: Site[];
+  activeShifts: Session[];
+  entries: Entry[];
+  // Today's status per siteKey, from getSiteStatuses
+  siteStatuses: Map<string, SiteStatus>;
+  settings: Settings;
+  // Defaults to the company's tile server, then OpenStreetMap
+  tileProvider?: TileProvider;
+}
+
+export function LiveOpsMap({
+  sites,
+  activeShifts,
+  entries,
+  siteStatuses,
+  settings,
+  tileProvider,
+}: LiveOpsMapProps) {
+  const provider = useMemo(
+    () => tileProvider ?? createTileProvider(settings.mapTileUrl),
+    [tileProvider, settings.mapTileUrl]
+  );
+
+  const pins = useMemo(
+    () => liveSitePins(sites, siteStatuses, activeShifts),
+    [sites, siteStatuses, activeShifts]
+  );
+  const offsite = useMemo(
+    () => clockInsOutsideGeofence(entries, sites, geofenceRadiusFeet(settings)),
+    [entries, sites, settings]
+  );
+  const unplaced = useMemo(() => unmappedShifts(sites, activeShifts), [sites, activeShifts]);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // null = fit every pin; set once the manager pans or zooms
+  const [view, setView] = useState<{ center: LatLng; zoom: number } | null>(null);
+  const [selectedSiteId, setSelectedSiteId] = useState<string | null>(null);
+
+  const fitted = useMemo(
+    () =>
+      fitBounds(
+        [...pins.map((p) => p.site), ...offsite.map((o) => o.entry)],
+        width || 800,
+        MAP_HEIGHT,
+        provider
+      ),
+    [pins, offsite, width, provider]
+  );
+  const { center, zoom } = view ?? fitted;
+
+  const zoomBy = (delta: number) =>
+    setView({
+      center,
+      zoom: Math.min(provider.maxZoom, Math.max(provider.minZoom, zoom + delta)),
+    });
+
+  // Drag to pan
+  const drag = useRef<{ x: number; y: number; origin: { x: number; y: number } } | null>(null);
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest("button")) return;
+    drag.current = { x: e.clientX, y: e.clientY, origin: project(center, zoom, provider.tileSize) };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const d = drag.current;
+    if (!d) return;
+    setView({
+      center: unproject(
+        { x: d.origin.x - (e.clientX - d.x), y: d.origin.y - (e.clientY - d.y) },
+        zoom,
+        provider.tileSize
+      ),
+      zoom,
+    });
+  };
+  const onPointerUp = () => {
+    drag.current = null;
+  };
+
+  const tiles = width ? visibleTiles(provider, center, zoom, width, MAP_HEIGHT) : [];
+  const at = (point: LatLng) => toViewport(point, center, zoom, width, MAP_HEIGHT, provider.tileSize);
+
+  const selected = pins.find((p) => p.site.id === selectedSiteId);
+  const onSiteCount = pins.reduce((n, p) => n + p.crew.length, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <CardTitle>Live Operations</CardTitle>
+            <CardDescription>
+              {format(new Date(), "EEEE, MMM d")} · {onSiteCount} clocked in on site
+              {offsite.length > 0 &&
+                ` · ${offsite.length} clock-in${offsite.length === 1 ? "" : "s"} outside the geofence`}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2 text-xs">
+            {Object.entries(statusStyle).map(([key, { color, label }]) => (
+              <span key={key} className="flex items-center gap-1">
+                <span className={cn("h-2.5 w-2.5 rounded-full", color)} />
+                {label}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3 text-amber-600" />
+              Outside geofence
+            </span>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div
+          ref={containerRef}
+          className="relative w-full cursor-grab touch-none select-none overflow-hidden rounded-lg border bg-muted active:cursor-grabbing"
+          style={{ height: MAP_HEIGHT }}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={onPointerUp}
+        >
+          {tiles.map((tile) => (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              key={tile.key}
+              src={tile.url}
+              alt=""
+              draggable={false}
+              className="absolute max-w-none"
+              style={{
+                left: tile.left,
+                top: tile.top,
+                width: provider.tileSize,
+                height: provider.tileSize,
+              }}
+            />
+          ))}
+
+          {/* Lines from each off-site clock-in to its site */}
+          {width > 0 && (
+            <svg className="pointer-events-none absolute inset-0" width={width} height={MAP_HEIGHT}>
+              {offsite.map(({ entry, site }) => {
+                const from = at(site);
+                const to = at(entry);
+                return (
+                  <line
+                    key={entry.id}
+                    x1={from.x}
+                    y1={from.y}
+                    x2={to.x}
+                    y2={to.y}
+                    stroke="#d97706"
+                    strokeWidth={2}
+                    strokeDasharray="4 4"
+                  />
+                );
+              })}
+            </svg>
+          )}
+
+          {width > 0 &&
+            pins.map((pin) => {
+              const { x, y } = at(pin.site);
+              const style = statusStyle[pin.status ?? "unscheduled"];
+              return (
+                <button
+                  key={pin.site.id}
+                  type="button"
+                  title={`${pin.site.name} – ${style.label}`}
+                  onClick={() => setSelectedSiteId(pin.site.id)}
+                  className={cn(
+                    "absolute flex h-5 w-5 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border-2 border-white text-[10px] font-bold text-white shadow",
+                    style.color,
+                    selectedSiteId === pin.site.id && "ring-2 ring-primary"
+                  )}
+                  style={{ left: x, top: y }}
+                >
+                  {pin.crew.length > 0 ? pin.crew.length : ""}
+                </button>
+              );
+            })}
+
+          {width > 0 &&
+            offsite.map(({ entry, site, distanceFeet }) => {
+              const { x, y } = at(entry);
+              return (
+                <span
+                  key={entry.id}
+                  title={`${entry.employee} clocked in ${Math.round(distanceFeet)} ft from ${site.name}`}
+                  className="absolute -translate-x-1/2 -translate-y-1/2 text-amber-600"
+                  style={{ left: x, top: y }}
+                >
+                  <AlertTriangle className="h-4 w-4 fill-amber-100" />
+                </span>
+              );
+            })}
+
+          <div className="absolute right-2 top-2 flex flex-col gap-1">
+            <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => zoomBy(1)}>
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => zoomBy(-1)}>
+              <Minus className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="secondary"
+              className="h-8 w-8"
+              title="Show all sites"
+              onClick={() => setView(null)}
+            >
+              <LocateFixed className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {provider.attribution && (
+            <span className="absolute bottom-0 right-0 bg-white/80 px-1 text-[10px] text-slate-700">
+              {provider.attribution}
+            </span>
+          )}
+
+          {pins.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+              No sites have GPS coordinates yet.
+            </div>
+          )}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <SiteDetails pin={selected} />
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Outside the geofence today</p>
+            {offsite.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every clock-in was on site.</p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {offsite.map(({ entry, site, distanceFeet }) => (
+                  <li key={entry.id} className="flex items-center justify-between gap-2">
+                    <span>
+                      {entry.employee} · {site.name}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(entry.ts), "h:mm a")} · {Math.round(distanceFeet)} ft away
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {unplaced.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Not on the map (site has no coordinates):{" "}
+                {unplaced.map((s) => `${s.employee} at ${s.in?.site ?? "unknown site"}`).join(", ")}
+              </p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SiteDetails({ pin }: { pin?: LiveSitePin }) {
+  if (!pin) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Select a site on the map to see who is working there.
+      </p>
+    );
+  }
+
+  const style = statusStyle[pin.status ?? "unscheduled"];
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <p className="text-sm font-medium">{pin.site.name}</p>
+        <Badge variant="outline" className="text-xs">
+          {style.label}
+        </Badge>
+      </div>
+      {pin.site.address && <p className="text-xs text-muted-foreground">{pin.site.address}</p>}
+      {pin.crew.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No one is clocked in here.</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {pin.crew.map((s) => (
+            <li key={s.in?.id ?? s.employeeId} className="flex justify-between">
+              <span>{s.employee}</span>
+              <span className="font-mono text-xs text-muted-foreground">
+                {minutesToHHMM(s.minutes)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,9 @@ import type {
   Invoice,
 ServiceFeedback,
 CleaningSchedule,
+  OccurrenceOverride,
+  EntryAuditRecord,
+  VisitPhoto,
 } from "@/shared/types/domain";
 
 import { DashboardFilters } from "./dashboard-filters";
@@ -36,8 +39,9 @@ interface ManagerDashboardProps {
   exportSessionsCSV: () => void;
   onGenerateSummary: () => void;
   isGenerating: boolean;
-  updateEntry: (id: string, updates: Partial<Entry>) => Promise<void>;
+  updateEntry: (id: string, updates: Partial<Entry>, reason?: string) => Promise<void>;
   deleteEntry: (id: string) => Promise<void>;
+  entryAudits?: EntryAuditRecord[];
   employees: Employee[];
   sites: Site[];
   mileageLogs: MileageLog[];
@@ -45,10 +49,12 @@ interface ManagerDashboardProps {
   allEntries: Entry[];
   invoices: Invoice[];
   schedules: CleaningSchedule[];
+  occurrenceOverrides?: OccurrenceOverride[];
   durationsBySite: Map<string, { minutes: number; byEmployee: Record<string, number> }>;
   deleteSite: (siteId: string) => void;
   settings: Settings;
   serviceFeedbacks: ServiceFeedback[];
+  visitPhotos: VisitPhoto[];
 onAddServiceFeedbackAction: (
   feedback: Omit<ServiceFeedback, "id">
 ) => void;
@@ -70,6 +76,7 @@ export function ManagerDashboard({
   isGenerating,
   updateEntry,
   deleteEntry,
+  entryAudits,
   employees,
   sites,
   mileageLogs,
@@ -77,10 +84,12 @@ export function ManagerDashboard({
   allEntries,
   invoices,
    schedules,
+  occurrenceOverrides,
   deleteSite,
   settings,
   serviceFeedbacks,
 onAddServiceFeedbackAction,
+  visitPhotos,
 }: ManagerDashboardProps) {
   return (
     <div className="space-y-6">
@@ -166,6 +175,7 @@ onAddServiceFeedbackAction,
             search={search}
             updateEntry={updateEntry}
             deleteEntry={deleteEntry}
+            entryAudits={entryAudits}
             employees={employees}
             sites={sites}
             mileageLogs={mileageLogs}
@@ -192,9 +202,11 @@ onAddServiceFeedbackAction,
             mileageLogs={mileageLogs}
             otherExpenses={otherExpenses}
             schedules={schedules}
+            occurrenceOverrides={occurrenceOverrides}
             settings={settings}
             serviceFeedbacks={serviceFeedbacks}
 onAddServiceFeedbackAction={onAddServiceFeedbackAction}
+            visitPhotos={visitPhotos}
             deleteSiteAction={deleteSite}
           />
         </CardContent>
@@ -1,45 +1,22 @@
 "use client";
 
 import React, { useEffect, useMemo, useState } from "react";
-import {
-  addDoc,
-  collection,
-  doc,
-  onSnapshot,
-  orderBy,
-  query,
-  serverTimestamp,
-  updateDoc,
-  where,
-} from "firebase/firestore";
+import { addDoc, collection, serverTimestamp } from "firebase/firestore";
 import { db } from "@/firebase/client";
+import { useEngine } from "@/providers/EngineProvider";
 import { format } from "date-fns";
 import { MessageSquare, Send } from "lucide-react";
 import { uploadMessageAttachment } from "@/features/messages/message-attachments";
-import type { Employee } from "@/shared/types/domain";
+import type { CompanyMessage, Employee } from "@/shared/types/domain";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
-type Message = {
-  id: string;
-  employeeId: string;
-  employeeName: string;
-  site?: string;
-  message: string;
-  sender: "employee" | "manager";
 
-  readByManager?: boolean;
-  readByEmployee?: boolean;
-
-  createdAt?: any;
-
-  attachmentUrl?: string;
-  attachmentName?: string;
-  attachmentPath?: string;
-  attachmentType?: string;
-};
+// createdAt is a Timestamp in the cloud and epoch ms locally
+const createdMillis = (value: any): number =>
+  typeof value === "number" ? value : value?.toMillis?.() ?? 0;
 
 export function ManagerMessagesView({
   companyId,
@@ -48,7 +25,9 @@ export function ManagerMessagesView({
   companyId: string;
   employees: Employee[];
 }) {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const { engine, repo } = useEngine();
+  const messagesRepo = useMemo(() => repo.messages(), [repo]);
+  const [messages, setMessages] = useState<CompanyMessage[]>([]);
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>("");
   const [selectedSite, setSelectedSite] = useState<string>("all");
   const [replyText, setReplyText] = useState("");
@@ -62,23 +41,15 @@ const totalUnreadMessages = useMemo(() => {
   useEffect(() => {
     if (!companyId) return;
 
-    const q = collection(db, "companies", companyId, "messages");
-
-    return onSnapshot(q, (snap) => {
-      const items = snap.docs
-  .map((d) => ({
-    id: d.id,
-    ...(d.data() as Omit<Message, "id">),
-  }))
-  .sort((a, b) => {
-    const aTime = a.createdAt?.toMillis?.() ?? 0;
-    const bTime = b.createdAt?.toMillis?.() ?? 0;
-    return aTime - bTime;
-  });
-
-setMessages(items);
-    });
-  }, [companyId]);
+    const unsubBus = messagesRepo.onChange((rows) =>
+      setMessages([...rows].sort((a, b) => createdMillis(a.createdAt) - createdMillis(b.createdAt)))
+    );
+    const unsubWatch = messagesRepo.watchAll({ companyId });
+    return () => {
+      unsubWatch();
+      unsubBus();
+    };
+  }, [messagesRepo, companyId]);
 
   const employeeList = useMemo(() => {
     return employees.map((emp) => {
@@ -125,11 +96,9 @@ setMessages(items);
 });
 
     unread.forEach((m) => {
-      updateDoc(doc(db, "companies", companyId, "messages", m.id), {
-        readByManager: true,
-      });
+      messagesRepo.update(companyId, m.id, { readByManager: true });
     });
-  }, [companyId, selectedEmployeeId, messages]);
+  }, [messagesRepo, companyId, selectedEmployeeId, messages]);
 
   const sendReply = async () => {
     if (!selectedEmployee || !replyText.trim()) return;
@@ -137,14 +106,16 @@ setMessages(items);
   alert("This employee is inactive. You can view message history, but you cannot send new messages.");
   return;
 }
-const attachment = replyFile
+    // Attachments and employee notifications need the cloud
+    const cloud = engine === "cloud";
+const attachment = cloud && replyFile
   ? await uploadMessageAttachment({
       companyId,
       employeeId: selectedEmployee.id,
       file: replyFile,
     })
   : {};
-    await addDoc(collection(db, "companies", companyId, "messages"), {
+    await messagesRepo.create(companyId, {
       employeeId: selectedEmployee.id,
       employeeName: selectedEmployee.name,
       site: selectedSite === "all" ? "" : selectedSite,
@@ -152,26 +123,28 @@ const attachment = replyFile
       sender: "manager",
       readByManager: true,
       readByEmployee: false,
-      createdAt: serverTimestamp(),
+      createdAt: cloud ? serverTimestamp() : Date.now(),
       ...attachment,
     });
 
-    await addDoc(collection(db, "companies", companyId, "employee_notifications"), {
-  employeeId: selectedEmployee.id,
-  type: "manager-message",
-  title: "New message from manager",
-  message: replyText.trim(),
-  site: selectedSite === "all" ? "" : selectedSite,
-  read: false,
-  createdAt: serverTimestamp(),
-});
+    if (cloud) {
+      await addDoc(collection(db, "companies", companyId, "employee_notifications"), {
+        employeeId: selectedEmployee.id,
+        type: "manager-message",
+        title: "New message from manager",
+        message: replyText.trim(),
+        site: selectedSite === "all" ? "" : selectedSite,
+        read: false,
+        createdAt: serverTimestamp(),
+      });
+    }
 
     setReplyText("");
     setReplyFile(null);
   };
 
   const formatTime = (value: any) => {
-    const date = value?.toDate ? value.toDate() : null;
+    const date = typeof value === "number" ? new Date(value) : value?.toDate ? value.toDate() : null;
     return date ? format(date, "MMM d, h:mm a") : "";
   };
 
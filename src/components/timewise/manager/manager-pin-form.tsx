@@ -18,21 +18,33 @@ import { ShieldCheck } from "lucide-react";
 interface ManagerPinFormProps {
   managerPIN: string;
   setUnlocked: (unlocked: boolean) => void;
+  // Cloud mode checks the PIN server-side and grants the manager role.
+  verifyPin?: (pin: string) => Promise<boolean>;
 }
 
 export function ManagerPinForm({
   managerPIN,
   setUnlocked,
+  verifyPin,
 }: ManagerPinFormProps) {
   const [pin, setPin] = useState("");
-  const [error, setError] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
 
-  const handleUnlock = () => {
-    if (pin === managerPIN) {
-      setUnlocked(true);
-      setError(false);
-    } else {
-      setError(true);
+  const handleUnlock = async () => {
+    if (verifying) return;
+
+    setVerifying(true);
+    try {
+      const ok = verifyPin ? await verifyPin(pin) : pin === managerPIN;
+      setUnlocked(ok);
+      setError(ok ? null : "Incorrect PIN. Please try again.");
+    } catch (e) {
+      setError(
+        (e instanceof Error && e.message) || "Could not verify your PIN. Please try again."
+      );
+    } finally {
+      setVerifying(false);
     }
   };
 
@@ -53,7 +65,7 @@ export function ManagerPinForm({
             value={pin}
             onChange={(e) => {
               setPin(e.target.value);
-              setError(false);
+              setError(null);
             }}
             onKeyDown={(e) => e.key === "Enter" && handleUnlock()}
             placeholder="****"
@@ -62,12 +74,16 @@ export function ManagerPinForm({
         {error && (
           <Alert variant="destructive" className="mt-4">
             <AlertTitle>Error</AlertTitle>
-            <AlertDescription>Incorrect PIN. Please try again.</AlertDescription>
+            <AlertDescription>{error}</AlertDescription>
           </Alert>
         )}
       </CardContent>
       <CardFooter>
-        <Button onClick={handleUnlock} className="w-full bg-accent hover:bg-accent/90">
+        <Button
+          onClick={handleUnlock}
+          disabled={verifying}
+          className="w-full bg-accent hover:bg-accent/90"
+        >
           <ShieldCheck />
           Unlock
         </Button>
@@ -20,7 +20,44 @@ import {
   SelectContent,
   SelectItem,
 } from "@/components/ui/select";
-import type { Settings } from "@/shared/types/domain";
+import type {
+  AutoClosePolicy,
+  Employee,
+  InvoiceReminderPolicy,
+  OvertimeRules,
+  Settings,
+  TravelTimeProviderKind,
+} from "@/shared/types/domain";
+import { DEFAULT_OVERTIME_RULES } from "@/lib/overtime";
+import { CalendarFeedsCard } from "./calendar-feeds-card";
+import { DataMigrations } from "./data-migrations";
+import type { CompanyMigrations } from "@/features/migrations/hooks/useMigrations";
+import { CompanyBackupPanel } from "./company-backup";
+import type { CompanyBackup } from "@/features/backup/hooks/useCompanyBackup";
+import { format } from "date-fns";
+
+const DEFAULT_AUTO_CLOSE_POLICY: AutoClosePolicy = {
+  enabled: false,
+  estimateMultiplier: 2,
+  fallbackMaxMinutes: 12 * 60,
+  fixedHour: null,
+  closeOnClockInElsewhere: true,
+};
+
+const DEFAULT_INVOICE_REMINDERS: InvoiceReminderPolicy = {
+  enabled: false,
+  dayOffsets: [7, 14, 30],
+};
+
+const parseDayOffsets = (text: string) =>
+  Array.from(
+    new Set(
+      text
+        .split(/[\s,]+/)
+        .map((v) => Math.round(Number(v)))
+        .filter((n) => Number.isFinite(n) && n > 0)
+    )
+  ).sort((a, b) => a - b);
 
 /**
  * OPTION 1:
@@ -32,9 +69,12 @@ import type { Settings } from "@/shared/types/domain";
 interface ManagerSettingsViewProps {
   settings: Settings;
   setSettings: (updater: (s: Settings) => Settings) => void;
+  employees?: Employee[];
   engine: "local" | "cloud";
   setEngine: (engine: "local" | "cloud") => void;
   onRecoverSites: () => Promise<void>;
+  migrations: CompanyMigrations;
+  backup: CompanyBackup;
   onExportSettings: () => void;
   onImportSettings: (data: Settings) => void;
 }
@@ -74,6 +114,57 @@ export function ManagerSettingsView(props: ManagerSettingsViewProps) {
     props.onImportSettings(parsed);
   };
 
+  const overtimeRules: OvertimeRules = {
+    ...DEFAULT_OVERTIME_RULES,
+    ...(settings.overtimeRules ?? {}),
+  };
+
+  // Overtime thresholds are stored in MINUTES, edited in HOURS.
+  const updateOvertimeRules = (patch: Partial<OvertimeRules>) =>
+    setSettings((s) => ({
+      ...s,
+      overtimeRules: {
+        ...DEFAULT_OVERTIME_RULES,
+        ...(s.overtimeRules ?? {}),
+        ...patch,
+      },
+    }));
+
+  const autoClosePolicy: AutoClosePolicy = {
+    ...DEFAULT_AUTO_CLOSE_POLICY,
+    ...(settings.autoClosePolicy ?? {}),
+  };
+
+  const updateAutoClosePolicy = (patch: Partial<AutoClosePolicy>) =>
+    setSettings((s) => ({
+      ...s,
+      autoClosePolicy: {
+        ...DEFAULT_AUTO_CLOSE_POLICY,
+        ...(s.autoClosePolicy ?? {}),
+        ...patch,
+      },
+    }));
+
+  const invoiceReminders: InvoiceReminderPolicy = {
+    ...DEFAULT_INVOICE_REMINDERS,
+    ...(settings.invoiceReminders ?? {}),
+  };
+
+  const updateInvoiceReminders = (patch: Partial<InvoiceReminderPolicy>) =>
+    setSettings((s) => ({
+      ...s,
+      invoiceReminders: {
+        ...DEFAULT_INVOICE_REMINDERS,
+        ...(s.invoiceReminders ?? {}),
+        ...patch,
+      },
+    }));
+
+  // Edited as free text, parsed when the field loses focus
+  const [reminderOffsetsText, setReminderOffsetsText] = useState(
+    invoiceReminders.dayOffsets.join(", ")
+  );
+
   // Stored in METERS (Option 1). Display in FEET.
   const radiusMeters = Number(settings.geofenceRadius ?? 0) || 0;
   const radiusFeet = radiusMeters > 0 ? Math.round(metersToFeet(radiusMeters)) : 150;
@@ -444,8 +535,277 @@ export function ManagerSettingsView(props: ManagerSettingsViewProps) {
               }
             />
           </div>
+
+          <div className="space-y-2 border-t pt-3">
+            <Label>Weekly overtime after (hours)</Label>
+            <Input
+              type="number"
+              min={0}
+              step="0.5"
+              value={overtimeRules.weeklyThresholdMinutes / 60}
+              onChange={(e) =>
+                updateOvertimeRules({
+                  weeklyThresholdMinutes: Math.max(0, Number(e.target.value) || 0) * 60,
+                })
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              Federal (FLSA) overtime is 40 hours per week. Weeks start on the day chosen in General.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4 border-t pt-3">
+            <div>
+              <p className="text-sm font-semibold">Daily overtime</p>
+              <p className="text-xs text-muted-foreground">
+                Pay overtime for hours past a daily limit (e.g. 8h in California).
+              </p>
+            </div>
+            <Switch
+              checked={!!overtimeRules.dailyOvertimeEnabled}
+              onCheckedChange={(checked) =>
+                updateOvertimeRules({ dailyOvertimeEnabled: checked })
+              }
+            />
+          </div>
+
+          {overtimeRules.dailyOvertimeEnabled && (
+            <div className="grid gap-2 max-w-xs">
+              <Label className="text-sm">Daily overtime after (hours)</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.5"
+                value={(overtimeRules.dailyOvertimeThresholdMinutes ?? 480) / 60}
+                onChange={(e) =>
+                  updateOvertimeRules({
+                    dailyOvertimeThresholdMinutes:
+                      Math.max(0, Number(e.target.value) || 0) * 60,
+                  })
+                }
+              />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-4 border-t pt-3">
+            <div>
+              <p className="text-sm font-semibold">Daily double time</p>
+              <p className="text-xs text-muted-foreground">
+                Pay double time for hours past a daily limit (e.g. 12h in California).
+              </p>
+            </div>
+            <Switch
+              checked={!!overtimeRules.dailyDoubleTimeEnabled}
+              onCheckedChange={(checked) =>
+                updateOvertimeRules({ dailyDoubleTimeEnabled: checked })
+              }
+            />
+          </div>
+
+          {overtimeRules.dailyDoubleTimeEnabled && (
+            <div className="grid gap-2 max-w-xs">
+              <Label className="text-sm">Daily double time after (hours)</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.5"
+                value={(overtimeRules.dailyDoubleTimeThresholdMinutes ?? 720) / 60}
+                onChange={(e) =>
+                  updateOvertimeRules({
+                    dailyDoubleTimeThresholdMinutes:
+                      Math.max(0, Number(e.target.value) || 0) * 60,
+                  })
+                }
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Missed Clock-outs</CardTitle>
+          <CardDescription>
+            Close shifts automatically when someone forgets to clock out. The earliest
+            matching rule wins, and every auto-closed shift must be reviewed before it
+            is paid. Requires cloud storage.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-semibold">Auto-close missed clock-outs</p>
+              <p className="text-xs text-muted-foreground">
+                Checked every 15 minutes.
+              </p>
+            </div>
+            <Switch
+              checked={autoClosePolicy.enabled}
+              onCheckedChange={(checked) => updateAutoClosePolicy({ enabled: checked })}
+            />
+          </div>
+
+          {autoClosePolicy.enabled && (
+            <>
+              <div className="grid gap-4 border-t pt-3 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Close after estimated time ×</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={autoClosePolicy.estimateMultiplier ?? 0}
+                    onChange={(e) =>
+                      updateAutoClosePolicy({
+                        estimateMultiplier: Math.max(0, Number(e.target.value) || 0),
+                      })
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Uses each site&apos;s estimated work time. 0 turns this rule off.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Sites without an estimate: close after (hours)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={(autoClosePolicy.fallbackMaxMinutes ?? 0) / 60}
+                    onChange={(e) =>
+                      updateAutoClosePolicy({
+                        fallbackMaxMinutes: Math.max(0, Number(e.target.value) || 0) * 60,
+                      })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-4 border-t pt-3 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Daily cut-off</Label>
+                  <Select
+                    value={
+                      typeof autoClosePolicy.fixedHour === "number"
+                        ? String(autoClosePolicy.fixedHour)
+                        : "off"
+                    }
+                    onValueChange={(v) =>
+                      updateAutoClosePolicy({ fixedHour: v === "off" ? null : Number(v) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="off">Off</SelectItem>
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <SelectItem key={hour} value={String(hour)}>
+                          {format(new Date(2000, 0, 1, hour), "h:mm a")}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Time zone</Label>
+                  <Input
+                    placeholder="America/New_York"
+                    value={autoClosePolicy.timeZone ?? ""}
+                    onChange={(e) =>
+                      updateAutoClosePolicy({ timeZone: e.target.value.trim() || undefined })
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Used for the daily cut-off.
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-4 border-t pt-3">
+                <div>
+                  <p className="text-sm font-semibold">Close when clocking in elsewhere</p>
+                  <p className="text-xs text-muted-foreground">
+                    An open shift ends when the same employee clocks in at another site.
+                  </p>
+                </div>
+                <Switch
+                  checked={!!autoClosePolicy.closeOnClockInElsewhere}
+                  onCheckedChange={(checked) =>
+                    updateAutoClosePolicy({ closeOnClockInElsewhere: checked })
+                  }
+                />
+              </div>
+            </>
+          )}
         </CardContent>
       </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>Invoice Reminders</CardTitle>
+          <CardDescription>
+            Email the invoice again to the site&apos;s billing contact while it is unpaid
+            after its due date. Requires cloud storage and outgoing mail (SMTP) on the server.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-semibold">Send overdue reminders</p>
+              <p className="text-xs text-muted-foreground">
+                Checked every morning at 9:00.
+              </p>
+            </div>
+            <Switch
+              checked={invoiceReminders.enabled}
+              onCheckedChange={(checked) => updateInvoiceReminders({ enabled: checked })}
+            />
+          </div>
+
+          {invoiceReminders.enabled && (
+            <div className="grid gap-4 border-t pt-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Days after due date</Label>
+                <Input
+                  placeholder="7, 14, 30"
+                  value={reminderOffsetsText}
+                  onChange={(e) => setReminderOffsetsText(e.target.value)}
+                  onBlur={() => {
+                    const dayOffsets = parseDayOffsets(reminderOffsetsText);
+                    updateInvoiceReminders({ dayOffsets });
+                    setReminderOffsetsText(dayOffsets.join(", "));
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">
+                  One reminder per listed day, at most one per invoice each day.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Time zone</Label>
+                <Input
+                  placeholder="America/New_York"
+                  value={invoiceReminders.timeZone ?? ""}
+                  onChange={(e) =>
+                    updateInvoiceReminders({ timeZone: e.target.value.trim() || undefined })
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  Decides which day counts as past due.
+                </p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CalendarFeedsCard
+        engine={engine}
+        employees={props.employees ?? []}
+        sites={settings.sites ?? []}
+      />
 <Card>
   <CardHeader>
     <CardTitle>Route Optimization</CardTitle>
@@ -543,13 +903,114 @@ export function ManagerSettingsView(props: ManagerSettingsViewProps) {
         }
       />
     </div>
+
+    {settings.enableMapDisplay && (
+      <div className="space-y-2">
+        <Label htmlFor="mapTileUrl">Map tile server</Label>
+        <Input
+          id="mapTileUrl"
+          placeholder="https://tile.openstreetmap.org/{z}/{x}/{y}.png"
+          value={settings.mapTileUrl || ""}
+          onChange={(e) =>
+            setSettings((s) => ({
+              ...s,
+              mapTileUrl: e.target.value.trim() || undefined,
+            }))
+          }
+        />
+        <p className="text-xs text-muted-foreground">
+          Any {"{z}/{x}/{y}"} tile URL. Leave blank to use OpenStreetMap.
+        </p>
+      </div>
+    )}
+
+    <div className="grid gap-4 border-t pt-3 sm:grid-cols-2">
+      {(
+        [
+          ["routeStartSiteId", "Start routes at", "Where the first drive of the day begins."],
+          ["routeEndSiteId", "End routes at", "Where the last drive of the day ends."],
+        ] as const
+      ).map(([key, label, hint]) => (
+        <div key={key} className="space-y-2">
+          <Label>{label}</Label>
+          <Select
+            value={settings[key] || "none"}
+            onValueChange={(value) =>
+              setSettings((s) => ({
+                ...s,
+                [key]: value === "none" ? undefined : value,
+              }))
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No fixed location</SelectItem>
+              {(settings.sites ?? [])
+                .filter((site) => site.lat != null && site.lng != null)
+                .map((site) => (
+                  <SelectItem key={site.id} value={site.id}>
+                    {site.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{hint}</p>
+        </div>
+      ))}
+    </div>
+
+    <div className="grid gap-4 border-t pt-3 sm:grid-cols-[12rem_1fr]">
+      <div className="space-y-2">
+        <Label>Drive times from</Label>
+        <Select
+          value={settings.travelTimeProvider || "straight-line"}
+          onValueChange={(value) =>
+            setSettings((s) => ({
+              ...s,
+              travelTimeProvider: value as TravelTimeProviderKind,
+            }))
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="straight-line">Straight-line estimate</SelectItem>
+            <SelectItem value="osrm">OSRM server</SelectItem>
+            <SelectItem value="valhalla">Valhalla server</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="travelTimeServiceUrl">Routing server URL</Label>
+        <Input
+          id="travelTimeServiceUrl"
+          placeholder="http://localhost:5000"
+          disabled={(settings.travelTimeProvider || "straight-line") === "straight-line"}
+          value={settings.travelTimeServiceUrl || ""}
+          onChange={(e) =>
+            setSettings((s) => ({
+              ...s,
+              travelTimeServiceUrl: e.target.value.trim() || undefined,
+            }))
+          }
+        />
+        <p className="text-xs text-muted-foreground">
+          Road drive times between sites are cached, so repeated plans don&apos;t
+          query the server again. Straight-line estimates are used if it is unreachable.
+        </p>
+      </div>
+    </div>
   </CardContent>
 </Card>
       <Card>
         <CardHeader>
           <CardTitle>Backup & maintenance</CardTitle>
           <CardDescription>
-            Save settings, restore them, or rebuild sites from existing data.
+            Back up the company, restore it, or rebuild sites from existing data.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -592,6 +1053,8 @@ export function ManagerSettingsView(props: ManagerSettingsViewProps) {
             </label>
           </div>
 
+          <CompanyBackupPanel backup={props.backup} />
+
           <div className="border-t pt-3 mt-2 flex items-center justify-between gap-4">
             <div>
               <p className="text-sm font-semibold">Recover sites from data</p>
@@ -613,6 +1076,8 @@ export function ManagerSettingsView(props: ManagerSettingsViewProps) {
               Recover sites
             </Button>
           </div>
+
+          <DataMigrations migrations={props.migrations} />
         </CardContent>
       </Card>
     </div>
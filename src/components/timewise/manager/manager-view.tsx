@@ -10,13 +10,21 @@ import type {
   MileageLog,
   Employee,
   Invoice,
+  InvoicePayment,
 ServiceFeedback,
+VisitChecklist,
+VisitPhoto,
   SiteStatus,
   OtherExpense,
   PayrollPeriod,
   PayrollConfirmation,
   EmployeeUpdateRequest,
   ManagerNotification,
+  TimeCorrectionRequest,
+  TimeOffRequest,
+  ShiftSwap,
+  OccurrenceOverride,
+  EntryAuditRecord,
 } from "@/shared/types/domain";
 import { registerManagerPushToken } from "@/lib/manager-push";
 import { ManagerNotificationsCard } from "./ManagerNotificationsCard";
@@ -24,6 +32,7 @@ import { ManagerPinForm } from "./manager-pin-form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 import { ScheduleView } from "./schedule-view";
+import { LiveOpsMap } from "./live-ops-map";
 import { MileageView } from "./mileage-view";
 import { EmployeeManagerView } from "./employee-view";
 import { PayrollView } from "./payroll-view";
@@ -36,7 +45,15 @@ import { SiteListView } from "./site-list-view";
 import { ManagerSettingsView } from "./manager-settings-view";
 import { ManagerMessagesView } from "@/components/timewise/manager/manager-messages-view";
 import { ServiceReport } from "./service-report";
+import { MissedClockoutReview } from "./missed-clockout-review";
+import { TimeCorrectionRequests } from "./time-correction-requests";
+import { TimeOffRequests } from "./time-off-requests";
+import { ShiftSwapRequests } from "./shift-swap-requests";
+import { describeAvailability } from "@/lib/schedule-conflicts";
+import { groupSessions } from "@/lib/time-utils";
 import type { JobProfitRow } from "@/lib/job-profitability";
+import type { CompanyMigrations } from "@/features/migrations/hooks/useMigrations";
+import type { CompanyBackup } from "@/features/backup/hooks/useCompanyBackup";
 import {
   collection,
   onSnapshot,
@@ -78,7 +95,8 @@ interface ManagerViewProps {
   onGenerateSummary: () => void;
   isGenerating: boolean;
 
-  updateEntry: (id: string, updates: Partial<Entry>) => Promise<void>;
+  updateEntry: (id: string, updates: Partial<Entry>, reason?: string) => Promise<void>;
+  entryAudits: EntryAuditRecord[];
   deleteEntry: (id: string) => Promise<void>;
 
   // Schedule + sites
@@ -87,7 +105,23 @@ interface ManagerViewProps {
   addSchedule: (schedule: Omit<CleaningSchedule, "id">) => void;
   updateSchedule: (id: string, updates: Partial<CleaningSchedule>) => void;
   deleteSchedule: (id: string) => void;
-  deleteSite: (siteName: string) => Promise<void>;
+  deleteSite: (siteId: string) => Promise<void>;
+
+  // Company data migrations (see src/lib/migrations)
+  migrations: CompanyMigrations;
+
+  // Full company backup and restore (see src/lib/backup.ts)
+  backup: CompanyBackup;
+
+  // Tells the page which tab opened, so it can load data only that tab shows
+  onTabChange?: (tab: string) => void;
+
+  // Asks the page to load time entries back to a date (YYYY-MM-DD)
+  onNeedEntriesFrom?: (date: string) => void;
+
+  // Single-day changes to a schedule (see src/lib/occurrence-overrides.ts)
+  occurrenceOverrides: OccurrenceOverride[];
+  saveOccurrenceOverride: (override: Omit<OccurrenceOverride, "id">) => Promise<void>;
 
   // Mileage
   mileageLogs: MileageLog[];
@@ -113,12 +147,20 @@ interface ManagerViewProps {
 
   // Invoices
   invoices: Invoice[];
+  invoicePayments: InvoicePayment[];
   addInvoice: (invoice: Omit<Invoice, "id">) => void;
   updateInvoice: (id: string, updates: Partial<Invoice>) => void;
   deleteInvoice: (id: string) => void;
 
     // Service feedback
 serviceFeedbacks: ServiceFeedback[];
+visitChecklists: VisitChecklist[];
+visitPhotos: VisitPhoto[];
+updateVisitPhoto: (
+  id: string,
+  updates: Partial<Pick<VisitPhoto, "caption" | "includeInClientReport">>
+) => void;
+deleteVisitPhoto: (id: string) => void;
 
 onAddServiceFeedbackAction: (
   feedback: Omit<ServiceFeedback, "id">
@@ -167,8 +209,21 @@ onUpdateServiceFeedbackAction: (
   approveEmployeeUpdate: (requestId: string) => Promise<void> | void;
   rejectEmployeeUpdate: (requestId: string, reason?: string) => Promise<void> | void;
 
+  timeCorrectionRequests: TimeCorrectionRequest[];
+  approveTimeCorrection: (requestId: string) => Promise<void> | void;
+  rejectTimeCorrection: (requestId: string, reason?: string) => Promise<void> | void;
+
+  timeOffRequests: TimeOffRequest[];
+  approveTimeOff: (requestId: string) => Promise<void> | void;
+  rejectTimeOff: (requestId: string, reason?: string) => Promise<void> | void;
+
+  shiftSwaps: ShiftSwap[];
+  approveShiftSwap: (swapId: string) => Promise<void> | void;
+  rejectShiftSwap: (swapId: string, reason?: string) => Promise<void> | void;
+
   engine: "local" | "cloud";
   setEngine: (engine: "local" | "cloud") => void;
+  verifyManagerPin?: (pin: string) => Promise<boolean>;
 }
 
 export function ManagerView(props: ManagerViewProps) {
@@ -189,7 +244,9 @@ export function ManagerView(props: ManagerViewProps) {
 
   const [managerTab, setManagerTab] = useState<
     | "dashboard"
+    | "liveMap"
     | "requests"
+    | "missedClockouts"
     | "messages"
     | "schedule"
     | "serviceReport"
@@ -206,6 +263,27 @@ export function ManagerView(props: ManagerViewProps) {
   
 const [managerUnreadMessages, setManagerUnreadMessages] = useState(0);
 
+// Re-evaluated whenever entries or schedules change
+const todaySiteStatuses = useMemo(
+  () => props.getSiteStatuses(new Date()),
+  [props.getSiteStatuses]
+);
+
+const autoClosedSessions = useMemo(
+  () => groupSessions(props.allEntries).filter((s) => s.needsReview),
+  [props.allEntries]
+);
+
+const reviewAutoClose = async (outEntryId: string, correctedTs?: number) => {
+  await props.updateEntry(
+    outEntryId,
+    correctedTs
+      ? { ts: correctedTs, autoCloseReview: "corrected", reviewedAt: Date.now() }
+      : { autoCloseReview: "approved", reviewedAt: Date.now() },
+    correctedTs ? "Auto-closed shift corrected" : "Auto-closed shift approved"
+  );
+};
+
 useEffect(() => {
   const companyId =
     props.settings.companyId?.trim() ||
@@ -238,6 +316,21 @@ useEffect(() => {
     [props.employeeUpdateRequests]
   );
 
+  const pendingTimeCorrections = useMemo(
+    () => props.timeCorrectionRequests.filter((r) => r.status === "pending"),
+    [props.timeCorrectionRequests]
+  );
+
+  const pendingTimeOff = useMemo(
+    () => props.timeOffRequests.filter((r) => r.status === "pending"),
+    [props.timeOffRequests]
+  );
+
+  const claimedShiftSwaps = useMemo(
+    () => props.shiftSwaps.filter((s) => s.status === "claimed"),
+    [props.shiftSwaps]
+  );
+
   const onRecoverSites = async () => {
     console.log("Recovering sites...");
   };
@@ -267,6 +360,7 @@ useEffect(() => {
       <ManagerPinForm
         managerPIN={props.settings.managerPIN}
         setUnlocked={props.setUnlocked}
+        verifyPin={props.verifyManagerPin}
       />
     );
   }
@@ -309,6 +403,7 @@ useEffect(() => {
     dob: "Date of Birth",
     emergencyContact: "Emergency Contact",
     bankInfo: "Bank Info",
+    availability: "Availability",
   };
 
 
@@ -316,16 +411,33 @@ useEffect(() => {
 
   return (
     <section className="w-full space-y-4">
-      <Tabs value={managerTab} onValueChange={(v) => setManagerTab(v as any)}>
+      <Tabs
+        value={managerTab}
+        onValueChange={(v) => {
+          setManagerTab(v as any);
+          props.onTabChange?.(v);
+        }}
+      >
         <div className="mb-4 w-full overflow-x-auto">
   <TabsList className="flex w-max min-w-full gap-1">
           <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
+          {props.settings.enableMapDisplay && (
+            <TabsTrigger value="liveMap">Live Map</TabsTrigger>
+          )}
 
           <TabsTrigger value="requests" className="relative">
-            Profile Requests
-            {pendingRequests.length > 0 && (
+            Requests
+            {pendingRequests.length + pendingTimeCorrections.length + pendingTimeOff.length + claimedShiftSwaps.length > 0 && (
               <span className="ml-1 inline-flex items-center justify-center rounded-full bg-destructive text-[10px] text-white px-1.5 py-0.5">
-                {pendingRequests.length}
+                {pendingRequests.length + pendingTimeCorrections.length + pendingTimeOff.length + claimedShiftSwaps.length}
+              </span>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="missedClockouts">
+            Missed Clock-outs
+            {autoClosedSessions.length > 0 && (
+              <span className="ml-1 inline-flex items-center justify-center rounded-full bg-destructive text-[10px] text-white px-1.5 py-0.5">
+                {autoClosedSessions.length}
               </span>
             )}
           </TabsTrigger>
@@ -371,9 +483,11 @@ useEffect(() => {
               isGenerating={props.isGenerating}
               updateEntry={props.updateEntry}
               deleteEntry={props.deleteEntry}
+              entryAudits={props.entryAudits}
               employees={props.employees}
               sites={props.sites}
               schedules={props.schedules}
+              occurrenceOverrides={props.occurrenceOverrides}
               mileageLogs={props.mileageLogs}
               otherExpenses={props.otherExpenses}
               allEntries={props.allEntries}
@@ -383,11 +497,24 @@ useEffect(() => {
               settings={props.settings}
                serviceFeedbacks={props.serviceFeedbacks}
   onAddServiceFeedbackAction={props.onAddServiceFeedbackAction}
+              visitPhotos={props.visitPhotos}
             />
           </div>
           </div>
         </TabsContent>
 
+        {props.settings.enableMapDisplay && (
+          <TabsContent value="liveMap" className="mt-2">
+            <LiveOpsMap
+              sites={props.sites}
+              activeShifts={props.activeShifts}
+              entries={props.allEntries}
+              siteStatuses={todaySiteStatuses}
+              settings={props.settings}
+            />
+          </TabsContent>
+        )}
+
         <TabsContent value="requests" className="mt-2">
           <Card>
             <CardHeader>
@@ -455,6 +582,21 @@ useEffect(() => {
                                     ? (employee as any)[key]
                                     : undefined;
 
+                                  if (key === "availability") {
+                                    return (
+                                      <li key={field}>
+                                        <span className="font-semibold">{label}</span>:{" "}
+                                        <span className="line-through text-muted-foreground">
+                                          {describeAvailability(employee?.availability)}
+                                        </span>{" "}
+                                        →{" "}
+                                        <span className="text-primary font-medium">
+                                          {describeAvailability(req.updates.availability)}
+                                        </span>
+                                      </li>
+                                    );
+                                  }
+
                                   if (
                                     typeof currentValue === "object" &&
                                     currentValue !== null &&
@@ -532,6 +674,43 @@ useEffect(() => {
               )}
             </CardContent>
           </Card>
+
+          <div className="mt-4">
+            <TimeCorrectionRequests
+              requests={props.timeCorrectionRequests}
+              approve={props.approveTimeCorrection}
+              reject={props.rejectTimeCorrection}
+            />
+          </div>
+
+          <div className="mt-4">
+            <TimeOffRequests
+              requests={props.timeOffRequests}
+              approve={props.approveTimeOff}
+              reject={props.rejectTimeOff}
+            />
+          </div>
+
+          <div className="mt-4">
+            <ShiftSwapRequests
+              swaps={props.shiftSwaps}
+              schedules={props.schedules}
+              occurrenceOverrides={props.occurrenceOverrides}
+              employees={props.employees}
+              sites={props.sites}
+              timeOffRequests={props.timeOffRequests}
+              weekStartsOn={props.settings.weekStartsOn}
+              approve={props.approveShiftSwap}
+              reject={props.rejectShiftSwap}
+            />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="missedClockouts" className="mt-2">
+          <MissedClockoutReview
+            sessions={autoClosedSessions}
+            onReview={reviewAutoClose}
+          />
         </TabsContent>
 
         <TabsContent value="messages">
@@ -553,6 +732,8 @@ useEffect(() => {
             addSchedule={props.addSchedule}
             updateSchedule={props.updateSchedule}
             deleteSchedule={props.deleteSchedule}
+            occurrenceOverrides={props.occurrenceOverrides}
+            saveOccurrenceOverride={props.saveOccurrenceOverride}
             weekStartsOn={props.settings.weekStartsOn as any}
             getSiteStatuses={props.getSiteStatuses}
             recordEntry={recordEntryAsManager}
@@ -561,19 +742,27 @@ useEffect(() => {
             teams={props.settings.teams ?? []}
             entries={props.allEntries}
 updateEntry={props.updateEntry}
+            timeOffRequests={props.timeOffRequests}
           />
         </TabsContent>
 
         <TabsContent value="serviceReport" className="mt-2">
  <ServiceReport
   schedules={props.schedules}
+  occurrenceOverrides={props.occurrenceOverrides}
   entries={props.allEntries}
   employees={props.employees}
   sites={props.sites}
   weekStartsOn={props.settings.weekStartsOn as any}
   serviceFeedbacks={props.serviceFeedbacks}
+  visitChecklists={props.visitChecklists}
+  visitPhotos={props.visitPhotos}
+  companyName={props.settings.companyName}
+  onUpdateVisitPhotoAction={props.updateVisitPhoto}
+  onDeleteVisitPhotoAction={props.deleteVisitPhoto}
   onAddServiceFeedbackAction={props.onAddServiceFeedbackAction}
   onUpdateServiceFeedbackAction={props.onUpdateServiceFeedbackAction}
+  onNeedEntriesFrom={props.onNeedEntriesFrom}
 />
 </TabsContent>
 
@@ -595,6 +784,7 @@ updateEntry={props.updateEntry}
         <TabsContent value="financials" className="mt-2">
           <FinancialsView
             invoices={props.invoices}
+            invoicePayments={props.invoicePayments}
             otherExpenses={props.otherExpenses}
             mileageLogs={props.mileageLogs}
             payrollPeriods={props.payrollPeriods}
@@ -604,6 +794,7 @@ updateEntry={props.updateEntry}
             fromDate={props.fromDate}
             toDate={props.toDate}
             mileageRate={props.settings.mileageRate}
+            onNeedEntriesFrom={props.onNeedEntriesFrom}
           />
         </TabsContent>
 
@@ -659,6 +850,9 @@ updateEntry={props.updateEntry}
               process.env.NEXT_PUBLIC_COMPANY_ID ||
               "default-company"
             }
+            weekStartsOn={props.settings.weekStartsOn}
+            overtimeRules={props.settings.overtimeRules}
+            onNeedEntriesFrom={props.onNeedEntriesFrom}
           />
         </TabsContent>
 
@@ -682,9 +876,12 @@ updateEntry={props.updateEntry}
           <ManagerSettingsView
             settings={props.settings}
             setSettings={props.setSettings}
+            employees={props.employees}
             engine={props.engine}
             setEngine={props.setEngine}
             onRecoverSites={onRecoverSites}
+            migrations={props.migrations}
+            backup={props.backup}
             onExportSettings={onExportSettings}
             onImportSettings={onImportSettings}
           />
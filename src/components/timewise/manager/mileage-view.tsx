@@ -2,6 +2,7 @@
 
 import React, { useMemo, useState } from "react";
 import type { MileageLog, Site } from "@/shared/types/domain";
+import { resolveSite } from "@/lib/site-index";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -206,7 +207,10 @@ export function MileageView({
     }
 
     const dataToSave: Partial<MileageLog> = { date, distance: numDistance, purpose };
-    if (siteName) dataToSave.siteName = siteName;
+    if (siteName) {
+      dataToSave.siteName = siteName;
+      dataToSave.siteId = resolveSite(sites, undefined, siteName)?.id;
+    }
 
     if (editingLog) {
       updateMileageLog(editingLog.id, dataToSave);
@@ -255,6 +259,7 @@ export function MileageView({
           distance: calculatedDistance,
           purpose: tripPurpose,
           siteName: tripSiteName || undefined,
+          siteId: tripSiteName ? resolveSite(sites, undefined, tripSiteName)?.id : undefined,
           startCoords,
           endCoords,
         } as any;
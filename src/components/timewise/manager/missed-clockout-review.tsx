@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useState } from "react";
+import { format } from "date-fns";
+import type { AutoCloseReason, Session } from "@/shared/types/domain";
+import { minutesToHHMM } from "@/lib/time-utils";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const REASON_LABELS: Record<AutoCloseReason, string> = {
+  estimate: "Past expected length",
+  "fixed-hour": "Daily cut-off",
+  "clocked-in-elsewhere": "Clocked in elsewhere",
+};
+
+type ReviewableSession = Session & {
+  in: NonNullable<Session["in"]>;
+  out: NonNullable<Session["out"]>;
+};
+
+interface MissedClockoutReviewProps {
+  sessions: Session[];
+  // Omit correctedTs to approve the auto-close time as-is.
+  onReview: (outEntryId: string, correctedTs?: number) => Promise<void>;
+}
+
+export function MissedClockoutReview({ sessions, onReview }: MissedClockoutReviewProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [correctedValue, setCorrectedValue] = useState("");
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const rows = sessions
+    .filter((s): s is ReviewableSession => !!s.needsReview && !!s.in && !!s.out)
+    .sort((a, b) => a.in.ts - b.in.ts);
+
+  const submit = async (session: ReviewableSession, correctedTs?: number) => {
+    setSavingId(session.out.id);
+    try {
+      await onReview(session.out.id, correctedTs);
+      setEditingId(null);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const startCorrecting = (session: ReviewableSession) => {
+    setEditingId(session.out.id);
+    setCorrectedValue(format(session.out.ts, "yyyy-MM-dd'T'HH:mm"));
+  };
+
+  const correctedTs = (session: ReviewableSession) => {
+    const ts = new Date(correctedValue).getTime();
+    return Number.isFinite(ts) && ts > session.in.ts ? ts : null;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Missed Clock-outs</CardTitle>
+        <CardDescription>
+          Shifts that were closed automatically. Each one is held out of payroll
+          until you approve the auto-close time or enter the correct one.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        <div className="w-full overflow-x-auto">
+          <Table className="min-w-[760px]">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Site</TableHead>
+                <TableHead>Clock In</TableHead>
+                <TableHead>Auto Clock Out</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+
+            <TableBody>
+              {rows.length > 0 ? (
+                rows.map((s) => {
+                  const isEditing = editingId === s.out.id;
+                  const isSaving = savingId === s.out.id;
+                  const nextTs = isEditing ? correctedTs(s) : null;
+
+                  return (
+                    <TableRow key={s.out.id}>
+                      <TableCell className="font-medium">{s.employee}</TableCell>
+                      <TableCell>{s.in.site || "—"}</TableCell>
+                      <TableCell className="text-xs">{format(s.in.ts, "MMM d, hh:mm a")}</TableCell>
+                      <TableCell className="text-xs">
+                        {isEditing ? (
+                          <Input
+                            type="datetime-local"
+                            value={correctedValue}
+                            onChange={(e) => setCorrectedValue(e.target.value)}
+                            className="h-8 w-[200px]"
+                          />
+                        ) : (
+                          format(s.out.ts, "MMM d, hh:mm a")
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {s.out.autoCloseReason
+                            ? REASON_LABELS[s.out.autoCloseReason]
+                            : "Auto-closed"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {minutesToHHMM(s.minutes)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isEditing ? (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={isSaving}
+                              onClick={() => setEditingId(null)}
+                            >
+                              Cancel
+                            </Button>
+                            <Button
+                              size="sm"
+                              disabled={isSaving || nextTs === null}
+                              onClick={() => nextTs !== null && submit(s, nextTs)}
+                            >
+                              Save
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={isSaving}
+                              onClick={() => startCorrecting(s)}
+                            >
+                              Correct
+                            </Button>
+                            <Button size="sm" disabled={isSaving} onClick={() => submit(s)}>
+                              Approve
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                    No auto-closed shifts waiting for review.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,6 +10,7 @@ import type {
   PayrollConfirmation,
   Session,
   PayrollStatus,
+  OvertimeRules,
 } from "@/shared/types/domain";
 import {
   Card,
@@ -56,6 +57,8 @@ import {
   Settings2,
 } from "lucide-react";
 import { groupSessions } from "@/lib/time-utils";
+import { calculateOvertime, DEFAULT_OVERTIME_RULES } from "@/lib/overtime";
+import { resolveSite } from "@/lib/site-index";
 import {
   Tooltip,
   TooltipContent,
@@ -268,6 +271,10 @@ interface PayrollViewProps {
   deletePayrollPeriod: (periodId: string) => Promise<void>;
   payrollConfirmations: PayrollConfirmation[];
   companyId: string;
+  weekStartsOn?: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+  overtimeRules?: OvertimeRules;
+  // Asks for time entries back to the first workweek's start (YYYY-MM-DD)
+  onNeedEntriesFrom?: (date: string) => void;
 }
 
 function getPayrollLineEmployeeIds(period: PayrollPeriod): string[] {
@@ -380,6 +387,9 @@ export function PayrollView({
   deletePayrollPeriod,
   payrollConfirmations = [],
   companyId,
+  weekStartsOn = 0,
+  overtimeRules = DEFAULT_OVERTIME_RULES,
+  onNeedEntriesFrom,
 }: PayrollViewProps) {
   const [payFrequency, setPayFrequency] = useState<PayFrequency>("monthly");
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -477,15 +487,17 @@ export function PayrollView({
 };
   }, [currentDate, payFrequency, customStartDate, customEndDate]);
 
+  // Weekly overtime counts the whole first workweek, from before the period
+  useEffect(() => {
+    const weekStart = startOfWeek(parseISO(startDate), { weekStartsOn });
+    onNeedEntriesFrom?.(format(weekStart, "yyyy-MM-dd"));
+  }, [startDate, weekStartsOn, onNeedEntriesFrom]);
+
   const currentPeriod = useMemo(
     () => payrollPeriods.find((p) => p.id === periodId),
     [payrollPeriods, periodId]
   );
 
-  const siteMap = useMemo(
-    () => new Map(sites.map((s) => [s.name, s])),
-    [sites]
-  );
   const employeeMap = useMemo(
     () => new Map(employees.map((e) => [e.id, e])),
     [employees]
@@ -531,6 +543,23 @@ const payableLineItems = useMemo(() => {
   );
 }, [lineItems]);
 
+/*
+ * Auto-closed shifts stay out of payroll until a manager approves or
+ * corrects them in Missed Clock-outs.
+ */
+const pendingAutoCloseCount = useMemo(() => {
+  const fromTime = parseISO(startDate).getTime();
+  const toTime = new Date(parseISO(endDate)).setHours(23, 59, 59, 999);
+
+  return groupSessions(timeEntries).filter(
+    (s) =>
+      s.needsReview &&
+      !!s.in &&
+      s.in.ts >= fromTime &&
+      s.in.ts <= toTime
+  ).length;
+}, [timeEntries, startDate, endDate]);
+
 const paidCount = useMemo(() => {
   return payableLineItems.filter((item) => item.paid).length;
 }, [payableLineItems]);
@@ -608,7 +637,8 @@ const sessions = allSessions.filter((session) => {
           ): s is Session & {
             in: NonNullable<Session["in"]>;
             out: NonNullable<Session["out"]>;
-          } => s.employee === employee.name && !!s.in && !!s.out
+          } =>
+            s.employee === employee.name && !!s.in && !!s.out && !s.needsReview
         );
 
         let totalMinutes = 0;
@@ -621,7 +651,7 @@ const sessions = allSessions.filter((session) => {
           const sessionMinutes = Number(session.minutes ?? 0);
           totalMinutes += sessionMinutes;
 
-          const site = siteMap.get(session.in.site || "General");
+          const site = resolveSite(sites, session.in.siteId, session.in.site || "General");
 
           basePay += (sessionMinutes / 60) * employee.payRate;
 
@@ -637,7 +667,22 @@ const sessions = allSessions.filter((session) => {
           }
         });
 
-        const grossPay = basePay + flatBonus;
+        /*
+         * Overtime is evaluated per workweek, so sessions from the
+         * same weeks that fall outside this period still count toward
+         * the weekly threshold.
+         */
+        const overtime = calculateOvertime({
+          sessions: allSessions.filter((s) => s.employee === employee.name),
+          baseRate: employee.payRate,
+          sites,
+          weekStartsOn,
+          rules: overtimeRules,
+          periodStart: fromTime,
+          periodEnd: toTime,
+        });
+
+        const grossPay = basePay + flatBonus + overtime.overtimePremium;
 
         const baseLine = {
           employeeId: employee.id,
@@ -646,6 +691,10 @@ const sessions = allSessions.filter((session) => {
           minutes: totalMinutes,
           regularMinutes,
           bonusMinutes,
+          overtimeMinutes: overtime.overtimeMinutes,
+          doubleTimeMinutes: overtime.doubleTimeMinutes,
+          overtimePremium: overtime.overtimePremium,
+          regularRateOfPay: overtime.regularRateOfPay,
           flatBonus,
           gross: grossPay,
           deductions: 0,
@@ -671,11 +720,13 @@ const sessions = allSessions.filter((session) => {
     endDate,
     timeEntries,
     employees,
-    siteMap,
+    sites,
     currentPeriod,
     currentStatus,
     taxCalculationMode,
     taxSettings,
+    weekStartsOn,
+    overtimeRules,
   ]);
 
   const yearlySummary = useMemo(() => {
@@ -1075,6 +1126,9 @@ const allPaid =
       "Employee Name",
       "Regular Hours",
       "Bonus Hours",
+      "Overtime Hours",
+      "Double-Time Hours",
+      "Overtime Premium",
       "Gross Pay",
       "Taxable Wages",
       "Federal Withholding",
@@ -1100,6 +1154,9 @@ const allPaid =
       item.employeeName,
       ((item.regularMinutes || 0) / 60).toFixed(2),
       ((item.bonusMinutes || 0) / 60).toFixed(2),
+      ((item.overtimeMinutes || 0) / 60).toFixed(2),
+      ((item.doubleTimeMinutes || 0) / 60).toFixed(2),
+      money(item.overtimePremium).toFixed(2),
       money(item.gross).toFixed(2),
       money(item.taxableWages).toFixed(2),
       money(item.federalWithholding).toFixed(2),
@@ -1264,6 +1321,19 @@ console.log("Payroll Confirmations", payrollConfirmations);
       14,
       93
     );
+    doc.text(
+      `Overtime Hours: ${(
+        ((item.overtimeMinutes || 0) + (item.doubleTimeMinutes || 0)) /
+        60
+      ).toFixed(2)}`,
+      110,
+      85
+    );
+    doc.text(
+      `Overtime Premium: $${money(item.overtimePremium).toFixed(2)}`,
+      110,
+      93
+    );
     const taxItem = item as TaxReadyPayrollLineItem;
     doc.text(`Gross Pay: $${money(taxItem.gross).toFixed(2)}`, 14, 101);
     doc.text(`Taxable Wages: $${money(taxItem.taxableWages).toFixed(2)}`, 14, 109);
@@ -1386,6 +1456,16 @@ console.log("Payroll Confirmations", payrollConfirmations);
                 </div>
               </div>
 
+              {pendingAutoCloseCount > 0 && (
+                <div className="mb-4 rounded-xl border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-100">
+                  {pendingAutoCloseCount} auto-closed shift
+                  {pendingAutoCloseCount === 1 ? " is" : "s are"} waiting for review and
+                  {pendingAutoCloseCount === 1 ? " is" : " are"} not included in this payroll.
+                  Approve or correct {pendingAutoCloseCount === 1 ? "it" : "them"} under
+                  Missed Clock-outs.
+                </div>
+              )}
+
               <div className="mb-4 flex flex-wrap justify-end gap-2">
                 <Button
                   onClick={downloadCSV}
@@ -1554,6 +1634,7 @@ console.log("Payroll Confirmations", payrollConfirmations);
                       <TableHead className="text-white">Employee</TableHead>
                       <TableHead className="text-white">Regular Hours</TableHead>
                       <TableHead className="text-white">Bonus Hours</TableHead>
+                      <TableHead className="text-white">Overtime</TableHead>
                       <TableHead className="text-white">Gross</TableHead>
                       <TableHead className="text-white">Flat Bonus</TableHead>
                       <TableHead className="text-white">Taxes & Deductions</TableHead>
@@ -1669,6 +1750,22 @@ console.log("Payroll Confirmations", payrollConfirmations);
                               {((item.bonusMinutes || 0) / 60).toFixed(2)}
                             </TableCell>
 
+                            <TableCell>
+                              <div>
+                                {((item.overtimeMinutes || 0) / 60).toFixed(2)}
+                                {(item.doubleTimeMinutes || 0) > 0 && (
+                                  <span className="text-xs text-muted-foreground">
+                                    {" "}+ {((item.doubleTimeMinutes || 0) / 60).toFixed(2)} DT
+                                  </span>
+                                )}
+                              </div>
+                              {money(item.overtimePremium) > 0 && (
+                                <div className="text-xs text-amber-700 dark:text-amber-300">
+                                  +${money(item.overtimePremium).toFixed(2)} premium
+                                </div>
+                              )}
+                            </TableCell>
+
                             <TableCell>
                               ${(item.gross || 0).toFixed(2)}
                             </TableCell>
@@ -1778,7 +1875,7 @@ console.log("Payroll Confirmations", payrollConfirmations);
                       })
                     ) : (
                       <TableRow>
-                        <TableCell colSpan={8} className="h-24 text-center">
+                        <TableCell colSpan={9} className="h-24 text-center">
                           No employees or time entries for this period.
                         </TableCell>
                       </TableRow>
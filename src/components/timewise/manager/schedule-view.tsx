@@ -7,9 +7,11 @@ import type {
   CleaningSchedule,
   DayOfWeek,
   Employee,
+  OccurrenceOverride,
   RepeatFrequency,
   SiteStatus,
   Entry,
+  TimeOffRequest,
 } from "@/shared/types/domain";
 import { Button } from "@/components/ui/button";
 import {
@@ -63,10 +65,6 @@ import {
   parseISO,
   isYesterday,
   isTomorrow,
-  differenceInCalendarWeeks,
-  getDate,
-  getMonth,
-  getYear,
   startOfDay,
   addDays,
 } from "date-fns";
@@ -105,12 +103,40 @@ import { db } from "@/firebase/client";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useEngine } from "@/providers/EngineProvider";
 import { useSettings } from "@/features/settings/hooks/useSettings";
+import { useTravelTimes } from "@/features/travel-times/hooks/useTravelTimes";
+import type { Crew } from "@/lib/crew-planning";
+import { CrewPlannerCard } from "./crew-planner-card";
 import {
   buildDailyRoutePlan,
   formatClockTime,
   formatMinutes,
+  siteLocation,
   subtractMinutesFromTime,
 } from "@/lib/route-planning";
+import {
+  describeVisitWindow,
+  formatWindowTime,
+  hasVisitWindow,
+} from "@/lib/visit-windows";
+import {
+  detectScheduleConflicts,
+  occurrenceKey,
+  type ScheduleConflict,
+} from "@/lib/schedule-conflicts";
+import {
+  formatRRule,
+  nextOccurrences,
+  rruleError,
+  scheduleRRule,
+} from "@/lib/recurrence";
+import {
+  describeOccurrenceOverride,
+  findOccurrenceOverride,
+  occurrenceChanges,
+  occurrenceOverrideOn,
+  occurrencesOn,
+} from "@/lib/occurrence-overrides";
+import { entryAtSite, resolveSite, scheduleSiteRefs, siteKey, siteServiceCharge } from "@/lib/site-index";
 
 
 interface Team {
@@ -122,6 +148,8 @@ interface ScheduleViewProps {
   sites: Site[];
   employees: Employee[];
   schedules: CleaningSchedule[];
+  occurrenceOverrides?: OccurrenceOverride[];
+  saveOccurrenceOverride: (override: Omit<OccurrenceOverride, "id">) => Promise<void> | void;
   addSchedule: (schedule: Omit<CleaningSchedule, "id">) => void;
   updateSchedule: (id: string, updates: Partial<CleaningSchedule>) => void;
   deleteSchedule: (id: string) => void;
@@ -151,6 +179,7 @@ interface ScheduleViewProps {
   teams: Team[];
   entries: Entry[];
 updateEntry: (id: string, updates: Partial<Entry>) => Promise<void>;
+  timeOffRequests?: TimeOffRequest[];
 }
 
 
@@ -163,8 +192,18 @@ const repeatFrequencies: RepeatFrequency[] = [
   "every-2-months",
   "quarterly",
   "yearly",
+  "custom",
 ];
 
+const parseDateList = (text: string) =>
+  Array.from(
+    new Set(
+      text
+        .split(/[\s,]+/)
+        .filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d))
+    )
+  ).sort();
+
 
 const getStatusIndicator = (
   status: SiteStatus | undefined,
@@ -231,18 +270,9 @@ const getScheduleEstimatedMinutes = (
   schedule: CleaningSchedule,
   sites: Site[]
 ): number => {
-  const scheduleSiteNames =
-    schedule.siteNames?.length
-      ? schedule.siteNames
-      : [schedule.siteName];
-
-  return scheduleSiteNames.reduce(
-    (total, siteName) => {
-      const matchedSite = sites.find(
-        (site) =>
-          site.name.trim().toLowerCase() ===
-          siteName.trim().toLowerCase()
-      );
+  return scheduleSiteRefs(schedule).reduce(
+    (total, ref) => {
+      const matchedSite = resolveSite(sites, ref.siteId, ref.name);
 
       return (
         total +
@@ -323,6 +353,8 @@ export function ScheduleView({
   sites,
   employees,
   schedules,
+  occurrenceOverrides = [],
+  saveOccurrenceOverride,
   addSchedule,
   updateSchedule,
   deleteSchedule,
@@ -334,6 +366,7 @@ export function ScheduleView({
   teams,
   entries,
 updateEntry,
+  timeOffRequests = [],
 }: ScheduleViewProps) {
   const { engine } = useEngine();
   const { settings } = useSettings();
@@ -383,6 +416,14 @@ const [note, setNote] = useState("");
     useState<RepeatFrequency>("weekly");
   const [daysOfWeek, setDaysOfWeek] = useState<DayOfWeek[]>([]);
   const [repeatUntil, setRepeatUntil] = useState<Date | undefined>();
+  // custom RRULE and extra visit dates (RDATE), edited as text
+  const [rrule, setRrule] = useState("");
+  const [rdatesText, setRdatesText] = useState("");
+
+  // visit window, "HH:mm" or ""
+  const [startTime, setStartTime] = useState("");
+  const [windowStart, setWindowStart] = useState("");
+  const [windowEnd, setWindowEnd] = useState("");
 
   const [serviceCharge, setServiceCharge] = useState<number | undefined>();
   const [siteServiceCharges, setSiteServiceCharges] =
@@ -424,6 +465,8 @@ const [fixOut, setFixOut] = useState("");
   const [editingOccurrenceDate, setEditingOccurrenceDate] = useState<
     Date | undefined
   >(undefined);
+  // yyyy-MM-dd the edited occurrence is moved to ("" = its own day)
+  const [moveTo, setMoveTo] = useState("");
 
   const goPrev = () => setCurrentDate((d) => addDays(d, -1));
   const goNext = () => setCurrentDate((d) => addDays(d, 1));
@@ -561,6 +604,56 @@ const resolveAssignedEmployeeIds = (names: string[]): string[] => {
 
   const allDaysSelected = daysOfWeek.length === 7;
 
+  const customRuleError =
+    repeatFrequency === "custom" ? rruleError(rrule) : null;
+
+  // Upcoming visits for the repeat settings being edited
+  const recurrencePreview = useMemo(() => {
+    if (!startDate || repeatFrequency === "does-not-repeat") return [];
+    if (customRuleError) return [];
+
+    const draft: Pick<
+      CleaningSchedule,
+      "startDate" | "repeatFrequency" | "daysOfWeek" | "repeatUntil" | "rrule" | "rdates" | "exceptionDates"
+    > = {
+      startDate: format(startDate, "yyyy-MM-dd"),
+      repeatFrequency,
+      daysOfWeek,
+      repeatUntil: repeatUntil ? format(repeatUntil, "yyyy-MM-dd") : undefined,
+      rrule,
+      rdates: parseDateList(rdatesText),
+      exceptionDates: editingSchedule?.exceptionDates,
+    };
+
+    const from = format(
+      startOfDay(startDate) > startOfDay(new Date()) ? startDate : new Date(),
+      "yyyy-MM-dd"
+    );
+    return nextOccurrences(draft, from, 5, weekStartsOn);
+  }, [
+    startDate,
+    repeatFrequency,
+    daysOfWeek,
+    repeatUntil,
+    rrule,
+    rdatesText,
+    customRuleError,
+    editingSchedule,
+    weekStartsOn,
+  ]);
+
+  const handleRepeatFrequencyChange = (next: RepeatFrequency) => {
+    // Start a custom rule from the pattern that was selected before
+    if (next === "custom" && !rrule.trim() && startDate) {
+      const current = scheduleRRule(
+        { startDate: format(startDate, "yyyy-MM-dd"), repeatFrequency, daysOfWeek },
+        weekStartsOn
+      );
+      if (current) setRrule(formatRRule(current));
+    }
+    setRepeatFrequency(next);
+  };
+
   const handleDayToggle = (day: DayOfWeek, checked: boolean) => {
     setDaysOfWeek((prev) =>
       checked ? [...prev, day] : prev.filter((d) => d !== day)
@@ -697,10 +790,17 @@ const openFixShiftModal = (data: {
 };
    
   const handleOpenDialog = (
-    schedule: CleaningSchedule | null = null,
+    occurrence: CleaningSchedule | null = null,
     occurrenceDate?: Date
   ) => {
-    setEditingSchedule(schedule);
+    /*
+     * editingSchedule is the stored series; the form starts from the
+     * occurrence as worked that day so day-only edits build on it.
+     */
+    const schedule = occurrence;
+    setEditingSchedule(
+      occurrence ? schedules.find((s) => s.id === occurrence.id) ?? occurrence : null
+    );
 
     if (schedule) {
   const scheduleSiteNames =
@@ -709,9 +809,18 @@ const openFixShiftModal = (data: {
       : [schedule.siteName];
 
   setSelectedSiteNames(scheduleSiteNames);
+
+  // The form keys charges by name; stored ones are keyed by site id
+  const storedCharges = schedule.siteServiceCharges ?? {};
   setSiteServiceCharges(
-  schedule.siteServiceCharges || {}
-);
+    Object.fromEntries(
+      scheduleSiteRefs(schedule).flatMap((ref) => {
+        const site = resolveSite(sites, ref.siteId, ref.name);
+        const amount = (site && storedCharges[site.id]) ?? storedCharges[ref.name];
+        return amount === undefined ? [] : [[ref.name, amount]];
+      })
+    )
+  );
 
   // Keep the legacy primary site populated.
   setSiteName(
@@ -745,11 +854,22 @@ const openFixShiftModal = (data: {
       setRepeatFrequency(schedule.repeatFrequency || "does-not-repeat");
       setDaysOfWeek(schedule.daysOfWeek || []);
       setRepeatUntil(schedule.repeatUntil ? parseISO(schedule.repeatUntil) : undefined);
+      setRrule(schedule.rrule || "");
+      setRdatesText((schedule.rdates || []).join(", "));
+
+      setStartTime(schedule.startTime || "");
+      setWindowStart(schedule.windowStart || "");
+      setWindowEnd(schedule.windowEnd || "");
 
       setServiceCharge(schedule.serviceCharge);
 
       setEditingOccurrenceDate(occurrenceDate);
       setApplyScope("single");
+      setMoveTo(
+        occurrenceDate
+          ? format(occurrenceDate, "yyyy-MM-dd")
+          : ""
+      );
     } else {
       setSiteName("");
 setSelectedSiteNames([]);
@@ -767,11 +887,18 @@ setNote("");
       setRepeatFrequency("weekly");
       setDaysOfWeek([]);
       setRepeatUntil(undefined);
+      setRrule("");
+      setRdatesText("");
+
+      setStartTime("");
+      setWindowStart("");
+      setWindowEnd("");
 
       setServiceCharge(undefined);
 setSiteServiceCharges({});
       setEditingOccurrenceDate(undefined);
       setApplyScope("series");
+      setMoveTo("");
     }
 
     setIsDialogOpen(true);
@@ -814,6 +941,14 @@ if (
   return;
 }
 
+if (repeatFrequency === "custom") {
+  const error = rruleError(rrule);
+  if (error) {
+    alert(`The custom repeat rule is not valid: ${error}`);
+    return;
+  }
+}
+
 if (selectedSiteNames.length > 1) {
   const missingChargeSite =
     selectedSiteNames.find(
@@ -841,6 +976,10 @@ if (selectedSiteNames.length > 1) {
 const isSiteGroup =
   selectedSiteNames.length > 1;
 
+const selectedSites = selectedSiteNames.map((name) =>
+  resolveSite(sites, undefined, name)
+);
+
 const resolvedSiteGroupName =
   isSiteGroup &&
   siteGroupLabelMode === "custom"
@@ -848,8 +987,9 @@ const resolvedSiteGroupName =
     : undefined;
 
   const baseData: Omit<CleaningSchedule, "id"> = {
-  // Keep the first site as the legacy primary site.
+  // Keep the first site as the primary site.
   siteName: primarySiteName,
+  siteId: selectedSites[0]?.id,
 
   // Store every selected site for grouped schedules.
   siteNames:
@@ -857,6 +997,12 @@ const resolvedSiteGroupName =
       ? selectedSiteNames
       : undefined,
 
+  // Only a complete list, so ids stay paired with siteNames
+  siteIds:
+    isSiteGroup && selectedSites.every(Boolean)
+      ? selectedSites.map((site) => site!.id)
+      : undefined,
+
   siteGroupLabelMode:
     isSiteGroup
       ? siteGroupLabelMode
@@ -887,6 +1033,22 @@ const resolvedSiteGroupName =
       ? format(repeatUntil, "yyyy-MM-dd")
       : undefined,
 
+    rrule:
+      repeatFrequency === "custom"
+        ? rrule.trim().replace(/^RRULE:/i, "")
+        : undefined,
+
+    // Kept as [] when cleared so an update removes the old dates
+    rdates:
+      repeatFrequency !== "does-not-repeat"
+        ? parseDateList(rdatesText)
+        : undefined,
+
+    // Kept as "" when cleared so an update removes the old time
+    startTime,
+    windowStart,
+    windowEnd,
+
     serviceCharge:
   !isSiteGroup
     ? serviceCharge
@@ -901,7 +1063,7 @@ siteServiceCharges:
               siteServiceCharges[name] !== undefined
           )
           .map((name) => [
-            name,
+            resolveSite(sites, undefined, name)?.id ?? name,
             siteServiceCharges[name],
           ])
       )
@@ -953,42 +1115,37 @@ siteServiceCharges:
    * OPTION 1:
    * Change only the selected scheduled day.
    *
-   * The original recurring schedule remains unchanged for
-   * past and future dates, except that this date becomes
-   * an exception.
+   * The series is left as is; the day's differences (and a new
+   * date, if it was moved) are saved as its occurrence override.
    */
   if (applyScope === "single") {
-    const existingExceptions =
-      editingSchedule.exceptionDates || [];
-
-    const updatedExceptions = Array.from(
-      new Set([...existingExceptions, selectedDateStr])
+    // The date the series generates, which may differ if it was moved before
+    const originalDate =
+      occurrenceOverrideOn(
+        occurrenceOverrides,
+        editingSchedule.id,
+        selectedDateStr
+      )?.date ?? selectedDateStr;
+
+    const existing = findOccurrenceOverride(
+      occurrenceOverrides,
+      editingSchedule.id,
+      originalDate
     );
 
     await Promise.resolve(
-      updateSchedule(editingSchedule.id, {
-        exceptionDates: updatedExceptions,
+      saveOccurrenceOverride({
+        scheduleId: editingSchedule.id,
+        date: originalDate,
+        changes: occurrenceChanges(editingSchedule, baseData),
+        movedTo:
+          moveTo && moveTo !== originalDate ? moveTo : undefined,
+        cancelled: existing?.cancelled,
+        cancelReason: existing?.cancelReason,
+        shiftSwapId: existing?.shiftSwapId,
       })
     );
 
-    const singleDaySchedule: Omit<CleaningSchedule, "id"> = {
-      ...baseData,
-
-      startDate: selectedDateStr,
-      repeatFrequency: "does-not-repeat",
-      daysOfWeek: undefined,
-      repeatUntil: undefined,
-      exceptionDates: undefined,
-    };
-
-    await Promise.resolve(
-      addSchedule(
-        cleanForFirestore(
-          singleDaySchedule
-        ) as Omit<CleaningSchedule, "id">
-      )
-    );
-
     setIsDialogOpen(false);
     setEditingOccurrenceDate(undefined);
     setApplyScope("series");
@@ -1060,6 +1217,10 @@ siteServiceCharges:
 
     startDate: selectedDateStr,
 
+    rdates: baseData.rdates?.filter(
+      (date) => date >= selectedDateStr
+    ),
+
     exceptionDates:
       futureExceptionDates.length > 0
         ? futureExceptionDates
@@ -1079,86 +1240,40 @@ siteServiceCharges:
   setApplyScope("series");
 };
 
-  const getSchedulesForDate = (date: Date) => {
-  const dateStr = format(date, "yyyy-MM-dd");
-
-  // 1. overrides (single-day)
-  const overrides = schedules.filter(
-    (s) =>
-      s.repeatFrequency === "does-not-repeat" &&
-      s.startDate === dateStr
+  // Every visit on `date` as worked that day, cancelled ones included
+  const getOccurrencesForDate = (date: Date) => {
+  const occurrences = occurrencesOn(
+    schedules,
+    occurrenceOverrides,
+    format(date, "yyyy-MM-dd"),
+    weekStartsOn
   );
 
-  // 2. recurring
-  const recurring = schedules.filter(
-    (s) => s.repeatFrequency !== "does-not-repeat"
+  // A one-off visit at a site wins over a repeating one that day
+  const oneOffs = occurrences.filter(
+    (o) => o.schedule.repeatFrequency === "does-not-repeat"
   );
 
-  const resolvedRecurring = recurring.filter((s) => {
-    if (!s.startDate) return false;
-
-    const schStart = parseISO(s.startDate);
-
-    // ❌ skip exception
-    if (s.exceptionDates?.includes(dateStr)) return false;
-
-    if (date < startOfDay(schStart)) return false;
-    if (s.repeatUntil && date > parseISO(s.repeatUntil)) return false;
-
-    const monthDiff =
-      (getYear(date) - getYear(schStart)) * 12 +
-      (getMonth(date) - getMonth(schStart));
-
-    switch (s.repeatFrequency) {
-      case "weekly":
-      case "every-2-weeks":
-      case "every-3-weeks": {
-        const dayName = format(date, "EEEE") as DayOfWeek;
-        if (!s.daysOfWeek?.includes(dayName)) return false;
-
-        const weekDiff = differenceInCalendarWeeks(date, schStart, {
-          weekStartsOn,
-        });
-
-        if (s.repeatFrequency === "weekly") return weekDiff >= 0;
-        if (s.repeatFrequency === "every-2-weeks")
-          return weekDiff >= 0 && weekDiff % 2 === 0;
-        if (s.repeatFrequency === "every-3-weeks")
-          return weekDiff >= 0 && weekDiff % 3 === 0;
-        return false;
-      }
-
-      case "monthly":
-        return getDate(date) === getDate(schStart) && monthDiff >= 0;
-
-      case "every-2-months":
-        return getDate(date) === getDate(schStart) && monthDiff >= 0 && monthDiff % 2 === 0;
+  return occurrences.filter(
+    (o) =>
+      o.schedule.repeatFrequency === "does-not-repeat" ||
+      !oneOffs.some((x) => x.schedule.siteName === o.schedule.siteName)
+  );
+};
 
-      case "quarterly":
-        return getDate(date) === getDate(schStart) && monthDiff >= 0 && monthDiff % 3 === 0;
+  const getSchedulesForDate = (date: Date) =>
+    getOccurrencesForDate(date)
+      .filter((o) => !o.cancelled)
+      .map((o) => o.schedule);
 
-      case "yearly":
-        return (
-          getDate(date) === getDate(schStart) &&
-          getMonth(date) === getMonth(schStart) &&
-          monthDiff >= 0
-        );
-
-      default:
-        return false;
-    }
-  });
-
-  // 🚨 KEY: override wins over recurring
-  const filteredRecurring = resolvedRecurring.filter((base) => {
-    const hasOverride = overrides.some(
-      (o) => o.siteName === base.siteName
+  const overrideLabels = (s: CleaningSchedule, date: Date) => {
+    const override = occurrenceOverrideOn(
+      occurrenceOverrides,
+      s.id,
+      format(date, "yyyy-MM-dd")
     );
-    return !hasOverride;
-  });
-
-  return [...filteredRecurring, ...overrides];
-};
+    return override ? describeOccurrenceOverride(override) : [];
+  };
 
   // calendar view
   const startOfCurrentMonth = startOfMonth(currentDate);
@@ -1279,12 +1394,66 @@ useEffect(() => {
 
 const dailySchedules = useMemo(() => {
   return getSchedulesForDate(currentDate);
-}, [currentDate, schedules]);
+}, [currentDate, schedules, occurrenceOverrides]);
+
+const cancelledToday = useMemo(
+  () => getOccurrencesForDate(currentDate).filter((o) => o.cancelled),
+  [currentDate, schedules, occurrenceOverrides]
+);
+
+const restoreOccurrence = (override: OccurrenceOverride) => {
+  const { id: _id, ...rest } = override;
+  saveOccurrenceOverride({
+    ...rest,
+    cancelled: undefined,
+    cancelReason: undefined,
+  });
+};
+
+/*
+ * Assignee conflicts for the week around currentDate, keyed by
+ * occurrenceKey(scheduleId, yyyy-MM-dd). The whole week is checked so
+ * weekly hour caps count every visit, whichever day is on screen.
+ */
+const weekConflicts = useMemo(() => {
+  const weekStart = startOfWeek(currentDate, { weekStartsOn });
+  const occurrences = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)).flatMap(
+    (day) =>
+      getSchedulesForDate(day).map((schedule) => ({
+        schedule,
+        date: format(day, "yyyy-MM-dd"),
+      }))
+  );
+
+  return detectScheduleConflicts({
+    occurrences,
+    employees,
+    sites,
+    timeOffRequests,
+    weekStartsOn,
+  });
+}, [currentDate, schedules, occurrenceOverrides, employees, sites, timeOffRequests, weekStartsOn]);
+
+const conflictsFor = (s: CleaningSchedule, day: Date): ScheduleConflict[] =>
+  weekConflicts.get(occurrenceKey(s.id, format(day, "yyyy-MM-dd"))) ?? [];
+
+const dailyConflictCount = dailySchedules.filter(
+  (s) => conflictsFor(s, currentDate).length > 0
+).length;
 
 const dailyStatuses = useMemo(
     () => getSiteStatuses(currentDate),
     [getSiteStatuses, currentDate]
   );
+
+// Statuses are keyed by siteKey; older schedules may carry a stale name
+const siteStatusOf = useCallback(
+  (statuses: Map<string, SiteStatus>, schedule: CleaningSchedule) => {
+    const site = resolveSite(sites, schedule.siteId, schedule.siteName);
+    return site ? statuses.get(siteKey(site)) : undefined;
+  },
+  [sites]
+);
 const filteredDailySchedules = useMemo(() => {
   const q = dailySearch.trim().toLowerCase();
 
@@ -1314,7 +1483,7 @@ const filteredDailySchedules = useMemo(() => {
       assignedEmployeeNames.some((name) => name.toLowerCase().includes(q)) ||
       teamName.toLowerCase().includes(q);
 
-    const status = dailyStatuses.get(s.siteName);
+    const status = siteStatusOf(dailyStatuses, s);
     const matchesStatus =
       statusFilter === "all" ? true : status === statusFilter;
 
@@ -1327,6 +1496,7 @@ const filteredDailySchedules = useMemo(() => {
   employeeById,
   teamsById,
   dailyStatuses,
+  siteStatusOf,
 ]);
 
 /*
@@ -1382,21 +1552,50 @@ const planningSchedules = useMemo(() => {
  * - estimated travel time
  * - total estimated time
  */
+// Sites on the route plus its start and end, for road drive times
+const planningRouteSites = useMemo(
+  () => [
+    ...planningSchedules.map((schedule) =>
+      resolveSite(sites, schedule.siteId, schedule.siteName)
+    ),
+    sites.find((site) => site.id === settings.routeStartSiteId),
+    sites.find((site) => site.id === settings.routeEndSiteId),
+  ],
+  [planningSchedules, sites, settings.routeStartSiteId, settings.routeEndSiteId]
+);
+
+const planningTravelTimes = useTravelTimes({
+  settings,
+  companyId: cId,
+  cloud: engine === "cloud",
+  sites: planningRouteSites,
+});
+
 const planningRoutePlan = useMemo(() => {
   return buildDailyRoutePlan({
     schedules: planningSchedules,
     sites,
 
     /*
-     * No starting location is available in ScheduleView yet.
-     * Therefore, travel to the first site is currently zero.
-     * Travel between sites is still calculated automatically.
+     * Without a configured start site, travel to the first
+     * site is zero. Travel between sites is still calculated
+     * automatically.
      */
-    startingLocation: null,
+    startingLocation: siteLocation(sites, settings.routeStartSiteId),
+    endingLocation: siteLocation(sites, settings.routeEndSiteId),
+    finishByTime: planningSchedules.find(
+      (schedule) => Boolean(schedule.finishByTime)
+    )?.finishByTime,
+    crewSize: planningCrewSize,
+    travelTimes: planningTravelTimes,
   });
 }, [
   planningSchedules,
   sites,
+  planningCrewSize,
+  planningTravelTimes,
+  settings.routeStartSiteId,
+  settings.routeEndSiteId,
 ]);
 
 const adjustedCleaningMinutes = useMemo(() => {
@@ -1446,6 +1645,53 @@ const recommendedStartTime = useMemo(() => {
   adjustedTotalEstimatedMinutes,
 ]);
 
+/*
+ * Assigns a visit to a crew from the crew planner. Repeating
+ * schedules get an occurrence override so other days keep their
+ * assignment, like "edit this day only".
+ */
+const acceptCrewProposal = async (
+  schedule: CleaningSchedule,
+  crew: Crew
+) => {
+  const assignment: Partial<CleaningSchedule> =
+    crew.kind === "team"
+      ? { assignedTeamId: crew.refId, assignedEmployeeIds: [], assignedTo: [] }
+      : {
+          assignedTeamId: "",
+          assignedEmployeeIds: [crew.refId],
+          assignedTo: [crew.name],
+        };
+
+  if (schedule.repeatFrequency === "does-not-repeat") {
+    await Promise.resolve(
+      updateSchedule(schedule.id, {
+        ...assignment,
+        assignedTeamId: assignment.assignedTeamId || undefined,
+      })
+    );
+    return;
+  }
+
+  const dateStr = format(currentDate, "yyyy-MM-dd");
+  const series = schedules.find((s) => s.id === schedule.id) ?? schedule;
+  const originalDate =
+    occurrenceOverrideOn(occurrenceOverrides, series.id, dateStr)?.date ?? dateStr;
+  const existing = findOccurrenceOverride(occurrenceOverrides, series.id, originalDate);
+
+  await Promise.resolve(
+    saveOccurrenceOverride({
+      scheduleId: series.id,
+      date: originalDate,
+      ...existing,
+      changes: {
+        ...existing?.changes,
+        ...occurrenceChanges(series, assignment),
+      },
+    })
+  );
+};
+
 const handleFinishByTimeChange = (
   value: string
 ) => {
@@ -1467,14 +1713,20 @@ const dailySiteCount = new Set(
   
 
   const { completeCount, incompleteCount, inProcessCount } = useMemo(() => {
-    const siteNamesForToday = new Set(filteredDailySchedules.map((s) => s.siteName));
+    // One schedule per site; statuses are per site
+    const sitesForToday = new Map(
+      filteredDailySchedules.map((s) => {
+        const site = resolveSite(sites, s.siteId, s.siteName);
+        return [site ? siteKey(site) : s.siteName, s] as const;
+      })
+    );
 
     let complete = 0;
     let incomplete = 0;
     let inProcess = 0;
 
-    siteNamesForToday.forEach((name) => {
-      const status = dailyStatuses.get(name);
+    sitesForToday.forEach((s) => {
+      const status = siteStatusOf(dailyStatuses, s);
       if (status === "complete") complete++;
       else if (status === "incomplete") incomplete++;
       else if (status === "in-process") inProcess++;
@@ -1485,7 +1737,7 @@ const dailySiteCount = new Set(
       incompleteCount: incomplete,
       inProcessCount: inProcess,
     };
-  }, [filteredDailySchedules, dailyStatuses]);
+  }, [filteredDailySchedules, dailyStatuses, sites, siteStatusOf]);
   const listSchedules = useMemo(() => {
   return schedules.filter((s) => {
     // hide one-off overrides from the main list
@@ -1531,7 +1783,9 @@ const downloadScheduleListCSV = useCallback(() => {
               ?.map((day) => day.substring(0, 3))
               .join(", ") || ""
           }`
-        : repeatFrequency.replace(/-/g, " ");
+        : repeatFrequency === "custom"
+          ? `custom (${schedule.rrule || ""})`
+          : repeatFrequency.replace(/-/g, " ");
 
     const assignedEmployees =
       schedule.assignedEmployeeIds?.length
@@ -1568,13 +1822,12 @@ const downloadScheduleListCSV = useCallback(() => {
     const serviceCharge =
       schedule.siteNames &&
       schedule.siteNames.length > 1
-        ? schedule.siteNames
-            .map((siteName) => {
-              const amount = Number(
-                schedule.siteServiceCharges?.[
-                  siteName
-                ] ?? 0
-              );
+        ? scheduleSiteRefs(schedule)
+            .map(({ siteId, name: siteName }) => {
+              const amount = siteServiceCharge(schedule, {
+                id: resolveSite(sites, siteId, siteName)?.id ?? "",
+                name: siteName,
+              });
 
               return `${siteName}: $${amount.toFixed(
                 2
@@ -1648,16 +1901,20 @@ const downloadScheduleListCSV = useCallback(() => {
 
 const getScheduleHours = useCallback(
   (
-    siteName: string,
+    visit: Pick<CleaningSchedule, "siteId" | "siteName">,
     employeeId: string,
     scheduleId: string,
     scheduleDate: string
   ) => {
+    const site = resolveSite(sites, visit.siteId, visit.siteName);
+    const atSite = (e: Entry) =>
+      site ? entryAtSite(e, site) : e.site === visit.siteName;
+
     let employeeEntries = entries
       .filter(
         (e) =>
           e.employeeId === employeeId &&
-          e.site === siteName &&
+          atSite(e) &&
           e.scheduleId === scheduleId &&
           e.scheduleDate === scheduleDate
       )
@@ -1669,7 +1926,7 @@ const getScheduleHours = useCallback(
       employeeEntries = entries
         .filter((e) => {
           if (e.employeeId !== employeeId) return false;
-          if (e.site !== siteName) return false;
+          if (!atSite(e)) return false;
 
           return (
             format(startOfDay(new Date(e.ts)), "yyyy-MM-dd") ===
@@ -1700,7 +1957,7 @@ const getScheduleHours = useCallback(
 
     return formatHHMM(totalMinutes);
   },
-  [entries]
+  [entries, sites]
 );
 
  const handleDeleteScheduleChoice = (
@@ -1715,14 +1972,23 @@ const getScheduleHours = useCallback(
     deleteSchedule(schedule.id);
   }
 
+  /*
+   * Cancelling one visit keeps it on the calendar as cancelled, with
+   * the reason, so it can be restored.
+   */
   if (scope === "single" && occurrenceDate) {
     const dateStr = format(occurrenceDate, "yyyy-MM-dd");
-
-    const existingExceptions =
-      (schedule.exceptionDates as string[] | undefined) || [];
-
-    updateSchedule(schedule.id, {
-      exceptionDates: Array.from(new Set([...existingExceptions, dateStr])),
+    const originalDate =
+      occurrenceOverrideOn(occurrenceOverrides, schedule.id, dateStr)?.date ?? dateStr;
+    const existing = findOccurrenceOverride(occurrenceOverrides, schedule.id, originalDate);
+    const reason = window.prompt("Optional: Reason for cancelling this visit?");
+
+    saveOccurrenceOverride({
+      scheduleId: schedule.id,
+      date: originalDate,
+      ...existing,
+      cancelled: true,
+      cancelReason: reason?.trim() || undefined,
     });
   }
 
@@ -2062,7 +2328,7 @@ const getScheduleHours = useCallback(
                       <Select
                         value={repeatFrequency}
                         onValueChange={(v: RepeatFrequency) =>
-                          setRepeatFrequency(v)
+                          handleRepeatFrequencyChange(v)
                         }
                       >
                         <SelectTrigger>
@@ -2125,6 +2391,54 @@ const getScheduleHours = useCallback(
                     </div>
                   )}
 
+                  {/* Custom RRULE */}
+                  {repeatFrequency === "custom" && (
+                    <div className="space-y-2">
+                      <Label>Repeat Rule (RRULE)</Label>
+                      <Input
+                        className="font-mono"
+                        placeholder="FREQ=MONTHLY;BYDAY=2TU"
+                        value={rrule}
+                        onChange={(e) => setRrule(e.target.value)}
+                      />
+                      {rrule.trim() && customRuleError ? (
+                        <p className="text-xs text-destructive">
+                          {customRuleError}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">
+                          e.g. FREQ=MONTHLY;BYDAY=2TU (second Tuesday),
+                          FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1 (last
+                          business day), FREQ=WEEKLY;BYDAY=MO;COUNT=10
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Extra visits */}
+                  {repeatFrequency !== "does-not-repeat" && (
+                    <div className="space-y-2">
+                      <Label>Extra Visit Dates (Optional)</Label>
+                      <Input
+                        placeholder="2025-07-03, 2025-12-22"
+                        value={rdatesText}
+                        onChange={(e) => setRdatesText(e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        One-off visits on top of the repeat pattern (yyyy-MM-dd).
+                      </p>
+                    </div>
+                  )}
+
+                  {recurrencePreview.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Next visits:{" "}
+                      {recurrencePreview
+                        .map((d) => format(parseISO(d), "EEE, MMM d yyyy"))
+                        .join(" • ")}
+                    </p>
+                  )}
+
                   {/* Repeat until */}
                   <div className="space-y-2">
                     <Label>Repeat Until (Optional)</Label>
@@ -2156,6 +2470,50 @@ const getScheduleHours = useCallback(
                     </Popover>
                   </div>
 
+                  {/* Visit window */}
+                  <div className="space-y-2">
+                    <Label>Visit Time (Optional)</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="visitStartTime" className="text-xs text-muted-foreground">
+                          Start at
+                        </Label>
+                        <Input
+                          id="visitStartTime"
+                          type="time"
+                          value={startTime}
+                          onChange={(e) => setStartTime(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="visitWindowStart" className="text-xs text-muted-foreground">
+                          Not before
+                        </Label>
+                        <Input
+                          id="visitWindowStart"
+                          type="time"
+                          value={windowStart}
+                          onChange={(e) => setWindowStart(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="visitWindowEnd" className="text-xs text-muted-foreground">
+                          Done by
+                        </Label>
+                        <Input
+                          id="visitWindowEnd"
+                          type="time"
+                          value={windowEnd}
+                          onChange={(e) => setWindowEnd(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Used to order routes and to flag late arrivals and early
+                      departures. A window ending before it starts runs past midnight.
+                    </p>
+                  </div>
+
                   {/* ✅ Assignment */}
                   <div className="space-y-2">
                     <Label>Assign By</Label>
@@ -2303,6 +2661,18 @@ const getScheduleHours = useCallback(
 </Label>
         </div>
       </RadioGroup>
+
+      {applyScope === "single" && (
+        <div className="space-y-1 pt-2">
+          <Label htmlFor="move-to">Move this visit to</Label>
+          <Input
+            id="move-to"
+            type="date"
+            value={moveTo}
+            onChange={(e) => setMoveTo(e.target.value)}
+          />
+        </div>
+      )}
     </div>
 )}   
                 </div>
@@ -2421,6 +2791,11 @@ const getScheduleHours = useCallback(
                     ?.map((d) => d.substring(0, 3))
                     .join(", ")}`
                 : ""}
+              {repeatFreq === "custom" && schedule.rrule && (
+                <div className="font-mono text-xs normal-case text-muted-foreground">
+                  {schedule.rrule}
+                </div>
+              )}
             </TableCell>
             <TableCell>{schedule.startDate}</TableCell>
            <TableCell>
@@ -2445,7 +2820,7 @@ const getScheduleHours = useCallback(
   schedule.siteNames.length > 1 &&
   schedule.siteServiceCharges ? (
     <div className="space-y-1 text-xs">
-      {schedule.siteNames.map((name) => (
+      {scheduleSiteRefs(schedule).map(({ siteId, name }) => (
         <div
           key={name}
           className="flex items-center justify-between gap-3"
@@ -2456,9 +2831,10 @@ const getScheduleHours = useCallback(
 
           <span className="font-medium tabular-nums">
             $
-            {Number(
-              schedule.siteServiceCharges?.[name] ?? 0
-            ).toFixed(2)}
+            {siteServiceCharge(schedule, {
+              id: resolveSite(sites, siteId, name)?.id ?? "",
+              name,
+            }).toFixed(2)}
           </span>
         </div>
       ))}
@@ -2567,6 +2943,14 @@ const getScheduleHours = useCallback(
                       </span>
                     </div>
                   )}
+
+                  {dailyConflictCount > 0 && (
+                    <p className="mt-1 inline-flex items-center gap-1 text-xs font-medium text-destructive">
+                      <AlertCircle className="h-3.5 w-3.5" />
+                      {dailyConflictCount} visit{dailyConflictCount === 1 ? " has" : "s have"} assignee
+                      conflicts
+                    </p>
+                  )}
                 </div>
 
                 <div className="flex items-center gap-2">
@@ -2648,6 +3032,18 @@ const getScheduleHours = useCallback(
   </Select>
 </div>
 
+<CrewPlannerCard
+  schedules={dailySchedules}
+  teams={teams}
+  employees={employees}
+  sites={sites}
+  settings={settings}
+  companyId={cId}
+  cloud={engine === "cloud"}
+  getScheduleLabel={getScheduleDisplayName}
+  onAcceptProposal={acceptCrewProposal}
+/>
+
 {/* Manager-only estimated workload planner */}
 <div
   className="
@@ -2948,6 +3344,40 @@ style={{
   </span>
 )}
                       </p>
+
+                      {hasVisitWindow(stop.schedule) && (
+                        <p className="text-xs text-muted-foreground">
+                          {describeVisitWindow(stop.schedule)}
+                        </p>
+                      )}
+
+                      {stop.startMinutes !== undefined && (
+                        <p className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+                          <span className="font-medium">
+                            ETA {formatWindowTime(stop.startMinutes)}
+                            {stop.finishMinutes !== undefined &&
+                              ` – ${formatWindowTime(stop.finishMinutes)}`}
+                          </span>
+
+                          {stop.waitMinutes > 0 && (
+                            <span className="text-muted-foreground">
+                              waits {formatMinutes(stop.waitMinutes)}
+                            </span>
+                          )}
+
+                          {stop.lateMinutes > 0 && (
+                            <Badge variant="destructive">
+                              {formatMinutes(stop.lateMinutes)} late
+                            </Badge>
+                          )}
+                        </p>
+                      )}
+
+                      {stop.reasons.length > 0 && (
+                        <p className="mt-1 text-[11px] italic text-muted-foreground">
+                          {stop.reasons.join(" · ")}
+                        </p>
+                      )}
                     </div>
 
                     <div className="sm:text-right">
@@ -3059,6 +3489,16 @@ style={{
               );
             }
           )}
+
+          {planningRoutePlan.returnTravelMinutes > 0 && (
+            <p className="text-sm text-muted-foreground">
+              <span className="font-semibold text-amber-700 dark:text-amber-300">
+                Return travel:
+              </span>{" "}
+              {formatMinutes(planningRoutePlan.returnTravelMinutes)} to{" "}
+              {sites.find((site) => site.id === settings.routeEndSiteId)?.name}
+            </p>
+          )}
         </div>
       </>
     ) : (
@@ -3082,8 +3522,8 @@ style={{
                   <div className="space-y-4">
         
                     {filteredDailySchedules.map((s) => {
-                      const site = sites.find((x) => x.name === s.siteName);
-                      const status = dailyStatuses.get(s.siteName);
+                      const site = resolveSite(sites, s.siteId, s.siteName);
+                      const status = siteStatusOf(dailyStatuses, s);
 
                       const siteBonus =
                         site?.bonusType && site.bonusAmount
@@ -3152,9 +3592,28 @@ style={{
                                   {s.tasks}
                                 </CardDescription>
 
-                                <div className="mt-2">
+                                <div className="mt-2 flex flex-wrap items-center gap-2">
                                   {renderAssignmentBadges(s)}
+                                  {overrideLabels(s, currentDate).map((label) => (
+                                    <Badge key={label} variant="outline" className="text-xs">
+                                      {label}
+                                    </Badge>
+                                  ))}
                                 </div>
+
+                                {conflictsFor(s, currentDate).length > 0 && (
+                                  <ul className="mt-2 space-y-0.5 text-xs text-destructive">
+                                    {conflictsFor(s, currentDate).map((conflict, index) => (
+                                      <li
+                                        key={`${conflict.kind}-${conflict.employeeId}-${index}`}
+                                        className="flex items-start gap-1"
+                                      >
+                                        <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" />
+                                        {conflict.message}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
                               </div>
 
                               <div className="flex items-center gap-2">
@@ -3168,7 +3627,7 @@ style={{
 
   const totalScheduleMinutes = assignedEmployees.reduce((sum, emp) => {
     const time = getScheduleHours(
-      s.siteName,
+      s,
       emp.id,
       s.id,
       scheduleDateKey
@@ -3179,20 +3638,9 @@ style={{
   }, 0);
 
   const estimatedMinutes = (() => {
-  const scheduleSiteNames =
-    s.siteNames?.length
-      ? s.siteNames
-      : [s.siteName];
-
-  return scheduleSiteNames.reduce(
-    (total, name) => {
-      const matchedSite = sites.find(
-        (siteItem) =>
-          siteItem.name
-            .trim()
-            .toLowerCase() ===
-          name.trim().toLowerCase()
-      );
+  return scheduleSiteRefs(s).reduce(
+    (total, ref) => {
+      const matchedSite = resolveSite(sites, ref.siteId, ref.name);
 
       return (
         total +
@@ -3273,7 +3721,7 @@ if (!site) return null;
                                 const scheduleDateKey = format(currentDate, "yyyy-MM-dd");
 
 const formattedEmpTime = getScheduleHours(
-  s.siteName,
+  s,
   emp.id,
   s.id,
   scheduleDateKey
@@ -3417,6 +3865,32 @@ const siteScheduleCompleted = entries.some((e) => {
                   </div>
              
                 )}
+
+                {cancelledToday.length > 0 && (
+                  <div className="mt-4 space-y-2 border-t pt-3">
+                    <p className="text-sm font-medium">Cancelled visits</p>
+                    {cancelledToday.map(({ schedule, override }) => (
+                      <div
+                        key={schedule.id}
+                        className="flex items-center justify-between gap-2 text-sm"
+                      >
+                        <span className="text-muted-foreground line-through">
+                          {getScheduleDisplayName(schedule)}
+                        </span>
+                        <span className="flex-1 text-xs text-muted-foreground">
+                          {override?.cancelReason}
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => override && restoreOccurrence(override)}
+                        >
+                          Restore
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </ScrollArea>
             </CardContent>
               </Card>
@@ -3476,8 +3950,8 @@ const siteScheduleCompleted = entries.some((e) => {
                         {getSchedulesForDate(day).length > 0 ? (
                           <ul className="space-y-2">
                             {getSchedulesForDate(day).map((s) => {
-                              const site = sites.find((x) => x.name === s.siteName);
-                              const status = statuses.get(s.siteName);
+                              const site = resolveSite(sites, s.siteId, s.siteName);
+                              const status = siteStatusOf(statuses, s);
                               const siteColor = site?.color || "#888888";
 
                               return (
@@ -3534,6 +4008,17 @@ const siteScheduleCompleted = entries.some((e) => {
   {getScheduleDisplayName(s)}
 </p>
 
+{conflictsFor(s, day).length > 0 && (
+  <p
+    className="flex items-center gap-1 text-destructive"
+    title={conflictsFor(s, day).map((c) => c.message).join("\n")}
+  >
+    <AlertCircle className="h-3 w-3 shrink-0" />
+    {conflictsFor(s, day).length} conflict
+    {conflictsFor(s, day).length === 1 ? "" : "s"}
+  </p>
+)}
+
                                   <p className="my-1 text-muted-foreground truncate">{s.tasks}</p>
 
                                   {s.note && (
@@ -3637,8 +4122,8 @@ const siteScheduleCompleted = entries.some((e) => {
 
                         <div className="flex-grow overflow-y-auto text-xs space-y-1 mt-1">
                           {getSchedulesForDate(day).map((s) => {
-                            const site = sites.find((x) => x.name === s.siteName);
-                            const status = statuses.get(s.siteName);
+                            const site = resolveSite(sites, s.siteId, s.siteName);
+                            const status = siteStatusOf(statuses, s);
                             const siteColor = site?.color || "#888888";
 
                             const team = s.assignedTeamId
@@ -3785,7 +4270,7 @@ const siteScheduleCompleted = entries.some((e) => {
         onClick={() => handleDeleteScheduleChoice("single")}
         disabled={!deleteTarget.occurrenceDate}
       >
-        This occurrence only
+        Cancel this visit only
       </Button>
 
       <Button
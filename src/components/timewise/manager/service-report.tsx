@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   format,
   parseISO,
@@ -8,11 +8,6 @@ import {
   endOfMonth,
   eachDayOfInterval,
   startOfDay,
-  endOfDay,
-  differenceInCalendarWeeks,
-  getDate,
-  getMonth,
-  getYear,
   subMonths,
 } from "date-fns";
 import {
@@ -34,10 +29,25 @@ import type {
   CleaningSchedule,
   Employee,
   Entry,
+  OccurrenceOverride,
   Site,
-  DayOfWeek,
   ServiceFeedback,
+  VisitChecklist,
+  VisitPhoto,
 } from "@/shared/types/domain";
+import { summarizeChecklists, type ChecklistCompletionRow } from "@/lib/checklists";
+import { occurrencesBetween } from "@/lib/occurrence-overrides";
+import { refersToSite, resolveSite, sameSite } from "@/lib/site-index";
+import { groupSessions } from "@/lib/time-utils";
+import { formatMinutes } from "@/lib/route-planning";
+import {
+  formatWindowTime,
+  hasVisitWindow,
+  visitTimeExceptions,
+  type VisitTimeException,
+} from "@/lib/visit-windows";
+import { exportVisitReport } from "@/lib/visit-report";
+import { VisitPhotoGallery } from "./visit-photo-gallery";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -53,11 +63,20 @@ import {
 
 type Props = {
   schedules: CleaningSchedule[];
+  occurrenceOverrides?: OccurrenceOverride[];
   entries: Entry[];
   employees: Employee[];
   sites: Site[];
   weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6;
   serviceFeedbacks: ServiceFeedback[];
+  visitChecklists?: VisitChecklist[];
+  visitPhotos?: VisitPhoto[];
+  companyName?: string;
+  onUpdateVisitPhotoAction?: (
+    id: string,
+    updates: Partial<Pick<VisitPhoto, "caption" | "includeInClientReport">>
+  ) => void;
+  onDeleteVisitPhotoAction?: (id: string) => void;
   onAddServiceFeedbackAction: (
     feedback: Omit<ServiceFeedback, "id">
   ) => void;
@@ -65,13 +84,17 @@ type Props = {
     id: string,
     updates: Partial<ServiceFeedback>
 ) => void;
+  // Asks for time entries back to the report start (YYYY-MM-DD)
+  onNeedEntriesFrom?: (date: string) => void;
 };
 
 type ScheduleOccurrence = {
   scheduleId: string;
   scheduleDate: string;
+  siteId?: string;
   siteName: string;
   assignedEmployeeIds: string[];
+  schedule?: CleaningSchedule; // as scheduled that day
 };
 
 function downloadCSV(filename: string, rows: string[][]) {
@@ -92,76 +115,55 @@ function downloadCSV(filename: string, rows: string[][]) {
   URL.revokeObjectURL(url);
 }
 
-function scheduleOccursOnDate(
-  schedule: CleaningSchedule,
-  date: Date,
-  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6
-) {
-  if (!schedule.startDate) return false;
-
-  const dateStr = format(date, "yyyy-MM-dd");
-  const schStart = parseISO(schedule.startDate);
-
-  if (schedule.exceptionDates?.includes(dateStr)) return false;
-  if (date < startOfDay(schStart)) return false;
-  if (schedule.repeatUntil && date > endOfDay(parseISO(schedule.repeatUntil))) {
-    return false;
-  }
-
-  const monthDiff =
-    (getYear(date) - getYear(schStart)) * 12 +
-    (getMonth(date) - getMonth(schStart));
-
-  switch (schedule.repeatFrequency) {
-    case "does-not-repeat":
-      return dateStr === schedule.startDate;
-
-    case "weekly":
-    case "every-2-weeks":
-    case "every-3-weeks": {
-      const dayName = format(date, "EEEE") as DayOfWeek;
-      if (!schedule.daysOfWeek?.includes(dayName)) return false;
-
-      const weekDiff = differenceInCalendarWeeks(date, schStart, {
-        weekStartsOn,
-      });
-
-      if (weekDiff < 0) return false;
-      if (schedule.repeatFrequency === "weekly") return true;
-      if (schedule.repeatFrequency === "every-2-weeks") return weekDiff % 2 === 0;
-      if (schedule.repeatFrequency === "every-3-weeks") return weekDiff % 3 === 0;
-
-      return false;
-    }
+/*
+ * Share of checklist items done across the visits in range,
+ * e.g. "92% (46/50)".
+ */
+function ChecklistRate({ row }: { row?: ChecklistCompletionRow }) {
+  if (!row) return <span className="text-muted-foreground">—</span>;
 
-    case "monthly":
-      return getDate(date) === getDate(schStart) && monthDiff >= 0;
+  return (
+    <span
+      className={
+        row.rate >= 95
+          ? "font-semibold text-green-600"
+          : row.rate >= 80
+          ? "font-semibold text-yellow-600"
+          : "font-semibold text-red-600"
+      }
+      title={`${row.visits} visit(s)${
+        row.missingPhotos > 0 ? `, ${row.missingPhotos} item(s) missing a required photo` : ""
+      }`}
+    >
+      {row.rate.toFixed(0)}% ({row.done}/{row.total})
+    </span>
+  );
+}
 
-    case "every-2-months":
-      return (
-        getDate(date) === getDate(schStart) &&
-        monthDiff >= 0 &&
-        monthDiff % 2 === 0
-      );
+const isForOccurrence = (
+  item: { scheduleId?: string | null; scheduleDate?: string; siteName?: string },
+  occurrence: ScheduleOccurrence
+) =>
+  item.scheduleDate === occurrence.scheduleDate &&
+  (item.scheduleId
+    ? item.scheduleId === occurrence.scheduleId
+    : item.siteName === occurrence.siteName);
 
-    case "quarterly":
-      return (
-        getDate(date) === getDate(schStart) &&
-        monthDiff >= 0 &&
-        monthDiff % 3 === 0
-      );
+type TimeExceptionRow = VisitTimeException & {
+  scheduleId: string;
+  scheduleDate: string;
+  siteName: string;
+  employeeId: string;
+  employeeName: string;
+};
 
-    case "yearly":
-      return (
-        getDate(date) === getDate(schStart) &&
-        getMonth(date) === getMonth(schStart) &&
-        monthDiff >= 0
-      );
+const describeTimeException = (x: VisitTimeException) =>
+  x.kind === "late-arrival"
+    ? `Late arrival +${formatMinutes(x.minutes)}`
+    : `Early departure -${formatMinutes(x.minutes)}`;
 
-    default:
-      return false;
-  }
-}
+const checklistCsvValue = (row?: ChecklistCompletionRow) =>
+  row ? `${row.rate.toFixed(2)}% (${row.done}/${row.total})` : "";
 
 function isOccurrenceCompleted(
   occurrence: ScheduleOccurrence,
@@ -182,21 +184,30 @@ function isOccurrenceCompleted(
     const entryDate = format(new Date(e.ts), "yyyy-MM-dd");
 
     return (
-      e.site === occurrence.siteName &&
-      entryDate === occurrence.scheduleDate
+      sameSite(
+        { siteId: e.siteId, name: e.site },
+        { siteId: occurrence.siteId, name: occurrence.siteName }
+      ) && entryDate === occurrence.scheduleDate
     );
   });
 }
 
 export function ServiceReport({
   schedules,
+  occurrenceOverrides = [],
   entries,
   employees,
   sites,
   weekStartsOn,
   serviceFeedbacks,
+  visitChecklists = [],
+  visitPhotos = [],
+  companyName,
+  onUpdateVisitPhotoAction,
+  onDeleteVisitPhotoAction,
    onAddServiceFeedbackAction,
    onUpdateServiceFeedbackAction,
+   onNeedEntriesFrom,
 }: Props) {
   const today = new Date();
 
@@ -207,11 +218,16 @@ export function ServiceReport({
   const [toDate, setToDate] = useState(
     format(endOfMonth(today), "yyyy-MM-dd")
   );
+
+  useEffect(() => {
+    if (fromDate) onNeedEntriesFrom?.(fromDate);
+  }, [fromDate, onNeedEntriesFrom]);
 const [selectedSiteName, setSelectedSiteName] = useState<string | null>(null);
 const [sitePerformanceFilter, setSitePerformanceFilter] = useState<
   "all" | "missed" | "complaints" | "compliments" | "low-completion"
 >("all");
 const [feedbackFor, setFeedbackFor] = useState<ScheduleOccurrence | null>(null);
+const [photosFor, setPhotosFor] = useState<ScheduleOccurrence | null>(null);
 const [editingFeedbackId, setEditingFeedbackId] =
   useState<string | null>(null);
 const [feedbackType, setFeedbackType] = useState<"complaint" | "compliment">("complaint");
@@ -223,39 +239,40 @@ const feedbackInRange = useMemo(() => {
     return f.scheduleDate >= fromDate && f.scheduleDate <= toDate;
   });
 }, [serviceFeedbacks, fromDate, toDate]);
+const checklistSummary = useMemo(() => {
+  const inRange = visitChecklists.filter(
+    (v) => v.scheduleDate >= fromDate && v.scheduleDate <= toDate
+  );
 
-  const report = useMemo(() => {
-    const from = parseISO(fromDate);
-    const to = parseISO(toDate);
-
-    const days = eachDayOfInterval({
-      start: startOfDay(from),
-      end: startOfDay(to),
-    });
-
-    
-
-    const occurrences: ScheduleOccurrence[] = [];
-
-    for (const day of days) {
-      const scheduleDate = format(day, "yyyy-MM-dd");
-
-      for (const schedule of schedules) {
-        if (!scheduleOccursOnDate(schedule, day, weekStartsOn)) continue;
+  return {
+    bySite: summarizeChecklists(inRange, (v) => [v.siteName]),
+    byEmployee: summarizeChecklists(inRange, (v) => v.employeeIds ?? []),
+  };
+}, [visitChecklists, fromDate, toDate]);
 
-        occurrences.push({
-          scheduleId: schedule.id,
-          scheduleDate,
-          siteName: schedule.siteName,
-          assignedEmployeeIds: schedule.assignedEmployeeIds ?? [],
-        });
-      }
-    }
+  const report = useMemo(() => {
+    // Cancelled visits are not due; moved ones count on their new day
+    const occurrences: ScheduleOccurrence[] = occurrencesBetween(
+      schedules,
+      occurrenceOverrides,
+      fromDate,
+      toDate,
+      weekStartsOn
+    )
+      .filter((o) => !o.cancelled)
+      .map((o) => ({
+        scheduleId: o.schedule.id,
+        scheduleDate: o.date,
+        siteId: o.schedule.siteId,
+        siteName: o.schedule.siteName,
+        assignedEmployeeIds: o.schedule.assignedEmployeeIds ?? [],
+        schedule: o.schedule,
+      }));
 
     
     const siteRows = sites.map((site) => {
-      const siteOccurrences = occurrences.filter(
-        (o) => o.siteName === site.name
+      const siteOccurrences = occurrences.filter((o) =>
+        refersToSite(o.siteId, o.siteName, site)
       );
 
       const scheduled = siteOccurrences.length;
@@ -298,7 +315,10 @@ siteRows.sort((a, b) =>
 
     const entryDate = format(new Date(e.ts), "yyyy-MM-dd");
 
-    return e.site === o.siteName && entryDate === o.scheduleDate;
+    return (
+      sameSite({ siteId: e.siteId, name: e.site }, { siteId: o.siteId, name: o.siteName }) &&
+      entryDate === o.scheduleDate
+    );
   })
 ).length;
 
@@ -335,6 +355,7 @@ const rawQualityScore =
 const qualityScore = Math.max(0, Math.min(100, rawQualityScore));
 
 return {
+  employeeId: employee.id,
   employeeName: employee.name,
   assigned,
   completed,
@@ -363,7 +384,80 @@ employeeRows.sort((a, b) =>
       totalMissed,
       completionRate,
     };
-  }, [fromDate, toDate, schedules, entries, employees, sites, weekStartsOn, feedbackInRange]);
+  }, [fromDate, toDate, schedules, occurrenceOverrides, entries, employees, sites, weekStartsOn, feedbackInRange]);
+
+/*
+ * Clock-ins against visit windows. Each employee's first clock-in and
+ * last clock-out of the visit count; the site's estimated work is
+ * shared by everyone who worked it.
+ */
+const timeExceptions = useMemo(() => {
+  const rows: TimeExceptionRow[] = [];
+
+  for (const o of report.occurrences) {
+    const schedule = o.schedule;
+    if (!schedule || !hasVisitWindow(schedule)) continue;
+
+    const sessions = groupSessions(
+      entries.filter((e) =>
+        isForOccurrence(
+          {
+            scheduleId: e.scheduleId,
+            scheduleDate: e.scheduleDate || format(new Date(e.ts), "yyyy-MM-dd"),
+            siteName: e.site,
+          },
+          o
+        )
+      )
+    ).filter((session) => session.in);
+    if (!sessions.length) continue;
+
+    const byEmployee = new Map<string, typeof sessions>();
+    for (const session of sessions) {
+      const list = byEmployee.get(session.employeeId) ?? [];
+      list.push(session);
+      byEmployee.set(session.employeeId, list);
+    }
+
+    const site = resolveSite(sites, o.siteId, o.siteName);
+    const workMinutes = Math.ceil(
+      (site?.estimatedWorkMinutes ?? 0) / byEmployee.size
+    );
+
+    byEmployee.forEach((list, employeeId) => {
+      const arrivedAt = Math.min(...list.map((x) => x.in!.ts));
+      const stillWorking = list.some((x) => !x.out);
+      const departedAt = stillWorking
+        ? null
+        : Math.max(...list.map((x) => x.out!.ts));
+
+      for (const exception of visitTimeExceptions({
+        schedule,
+        scheduleDate: o.scheduleDate,
+        arrivedAt,
+        departedAt,
+        workMinutes,
+      })) {
+        rows.push({
+          ...exception,
+          scheduleId: o.scheduleId,
+          scheduleDate: o.scheduleDate,
+          siteName: o.siteName,
+          employeeId,
+          employeeName:
+            employees.find((e) => e.id === employeeId)?.name ||
+            list[0].employee,
+        });
+      }
+    });
+  }
+
+  return rows.sort(
+    (a, b) =>
+      b.scheduleDate.localeCompare(a.scheduleDate) ||
+      a.siteName.localeCompare(b.siteName)
+  );
+}, [report.occurrences, entries, employees, sites]);
 
 
 
@@ -432,13 +526,14 @@ const mostComplimentedSite = complimentsBySite[0];
     downloadCSV("service-report-sites.csv", [
       ["Period", `${fromDate} to ${toDate}`],
       [],
-      ["Site", "Scheduled Visits", "Completed Visits", "Missed Visits", "Completion Rate"],
+      ["Site", "Scheduled Visits", "Completed Visits", "Missed Visits", "Completion Rate", "Checklist Completion"],
       ...report.siteRows.map((r) => [
         r.siteName,
         String(r.scheduled),
         String(r.completed),
         String(r.missed),
         `${r.rate.toFixed(2)}%`,
+        checklistCsvValue(checklistSummary.bySite.get(r.siteName)),
       ]),
     ]);
   };
@@ -447,13 +542,14 @@ const mostComplimentedSite = complimentsBySite[0];
     downloadCSV("service-report-employees.csv", [
       ["Period", `${fromDate} to ${toDate}`],
       [],
-      ["Employee", "Assigned Shifts", "Completed Shifts", "Missed Shifts", "Completion Rate"],
+      ["Employee", "Assigned Shifts", "Completed Shifts", "Missed Shifts", "Completion Rate", "Checklist Completion"],
       ...report.employeeRows.map((r) => [
         r.employeeName,
         String(r.assigned),
         String(r.completed),
         String(r.missed),
         `${r.rate.toFixed(2)}%`,
+        checklistCsvValue(checklistSummary.byEmployee.get(r.employeeId)),
       ]),
     ]);
   };
@@ -462,7 +558,7 @@ const mostComplimentedSite = complimentsBySite[0];
     downloadCSV("service-report-details.csv", [
       ["Period", `${fromDate} to ${toDate}`],
       [],
-      ["Date", "Site", "Schedule ID", "Status"],
+      ["Date", "Site", "Schedule ID", "Status", "Time Exceptions"],
       ...report.occurrences.map((o) => {
         const completed = isOccurrenceCompleted(o, entries);
 
@@ -471,6 +567,14 @@ const mostComplimentedSite = complimentsBySite[0];
           o.siteName,
           o.scheduleId,
           completed ? "Complete" : "Missed",
+          timeExceptions
+            .filter(
+              (x) =>
+                x.scheduleId === o.scheduleId &&
+                x.scheduleDate === o.scheduleDate
+            )
+            .map((x) => `${x.employeeName}: ${describeTimeException(x)}`)
+            .join("; "),
         ];
       }),
     ]);
@@ -750,6 +854,11 @@ const filteredSiteRows = report.siteRows.filter((row) => {
               >
                 {f.type === "complaint" ? "Complaint" : "Compliment"}
               </span>
+              {f.source === "client" && (
+                <Badge variant="outline" className="ml-1" title={f.submittedByEmail ?? undefined}>
+                  From client
+                </Badge>
+              )}
             </TableCell>
 
             <TableCell>{f.category || "Other"}</TableCell>
@@ -863,6 +972,7 @@ const filteredSiteRows = report.siteRows.filter((row) => {
   </TooltipProvider>
 </TableHead>
 <TableHead>Completion Rate</TableHead>
+<TableHead>Checklist</TableHead>
 <TableHead>Complaints</TableHead>
 <TableHead>Compliments</TableHead>
 <TableHead>Complaint Rate</TableHead>
@@ -963,6 +1073,9 @@ const missedServiceReason =
 >
   {row.rate.toFixed(2)}%
 </TableCell>
+<TableCell>
+  <ChecklistRate row={checklistSummary.bySite.get(row.siteName)} />
+</TableCell>
 
 <TableCell>{siteComplaints.length}</TableCell>
 <TableCell>{siteCompliments.length}</TableCell>
@@ -1006,6 +1119,7 @@ const missedServiceReason =
     <TableHead>Complaint</TableHead>
     <TableHead>Compliment</TableHead>
     <TableHead>Notes</TableHead>
+    <TableHead>Photos</TableHead>
     <TableHead>Feedback</TableHead>
 </TableRow>
         </TableHeader>
@@ -1022,8 +1136,7 @@ const assignedEmployees = employees
   .filter((emp) => o.assignedEmployeeIds.includes(emp.id))
   .map((emp) => emp.name)
   .join(", ");
-
-  
+const occurrencePhotos = visitPhotos.filter((p) => isForOccurrence(p, o));
 
             return (
               <TableRow
@@ -1062,6 +1175,16 @@ const assignedEmployees = employees
     {feedback?.notes || "—"}
 </TableCell>
 
+<TableCell>
+  {occurrencePhotos.length > 0 ? (
+    <Button size="sm" variant="outline" onClick={() => setPhotosFor(o)}>
+      📷 {occurrencePhotos.length}
+    </Button>
+  ) : (
+    "—"
+  )}
+</TableCell>
+
 <TableCell>
   {feedback ? (
     <Button
@@ -1116,6 +1239,62 @@ const assignedEmployees = employees
 
       
 
+<Dialog open={!!photosFor} onOpenChange={(open) => !open && setPhotosFor(null)}>
+  <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+    <DialogHeader>
+      <DialogTitle>{photosFor?.siteName} — Visit Photos</DialogTitle>
+      <p className="text-sm text-muted-foreground">
+        {photosFor && format(parseISO(photosFor.scheduleDate), "MMMM d, yyyy")} • Toggle
+        &quot;Client report&quot; to include a photo in the visit report.
+      </p>
+    </DialogHeader>
+
+    {photosFor && (
+      <div className="space-y-4">
+        <VisitPhotoGallery
+          photos={visitPhotos.filter((p) => isForOccurrence(p, photosFor))}
+          onUpdate={onUpdateVisitPhotoAction}
+          onDelete={onDeleteVisitPhotoAction}
+        />
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => {
+              const site = resolveSite(sites, photosFor.siteId, photosFor.siteName);
+              exportVisitReport({
+                orgName: companyName || undefined,
+                siteName: photosFor.siteName,
+                siteAddress: site?.address,
+                scheduleDate: photosFor.scheduleDate,
+                sessions: groupSessions(
+                  entries.filter((e) =>
+                    isForOccurrence(
+                      {
+                        scheduleId: e.scheduleId,
+                        scheduleDate: e.scheduleDate || format(new Date(e.ts), "yyyy-MM-dd"),
+                        siteName: e.site,
+                      },
+                      photosFor
+                    )
+                  )
+                ),
+                checklist: visitChecklists.find(
+                  (v) => site && v.siteId === site.id && isForOccurrence(v, photosFor)
+                ),
+                photos: visitPhotos.filter(
+                  (p) => p.includeInClientReport && isForOccurrence(p, photosFor)
+                ),
+              });
+            }}
+          >
+            Client Visit Report
+          </Button>
+        </div>
+      </div>
+    )}
+  </DialogContent>
+</Dialog>
+
        <Dialog
   open={!!feedbackFor}
   onOpenChange={(open) => {
@@ -1252,7 +1431,7 @@ const assignedEmployees = employees
               } else {
                 onAddServiceFeedbackAction({
                   siteId:
-                    sites.find((s) => s.name === feedbackFor.siteName)?.id ??
+                    resolveSite(sites, feedbackFor.siteId, feedbackFor.siteName)?.id ??
                     feedbackFor.siteName,
                   siteName: feedbackFor.siteName,
                   scheduleId: feedbackFor.scheduleId,
@@ -1276,6 +1455,47 @@ const assignedEmployees = employees
     )}
   </DialogContent>
 </Dialog>
+{timeExceptions.length > 0 && (
+  <Card>
+    <CardHeader>
+      <CardTitle>Visit Time Exceptions</CardTitle>
+    </CardHeader>
+
+    <CardContent>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Site</TableHead>
+            <TableHead>Employee</TableHead>
+            <TableHead>Exception</TableHead>
+            <TableHead>Expected</TableHead>
+            <TableHead>Actual</TableHead>
+          </TableRow>
+        </TableHeader>
+
+        <TableBody>
+          {timeExceptions.map((x) => (
+            <TableRow key={`${x.scheduleId}-${x.scheduleDate}-${x.employeeId}-${x.kind}`}>
+              <TableCell>{format(parseISO(x.scheduleDate), "MMM d, yyyy")}</TableCell>
+              <TableCell>{x.siteName}</TableCell>
+              <TableCell>{x.employeeName}</TableCell>
+              <TableCell>
+                <Badge
+                  variant={x.kind === "late-arrival" ? "destructive" : "secondary"}
+                >
+                  {describeTimeException(x)}
+                </Badge>
+              </TableCell>
+              <TableCell>{formatWindowTime(x.expected)}</TableCell>
+              <TableCell>{formatWindowTime(x.actual)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </CardContent>
+  </Card>
+)}
 <Card>
         <CardHeader>
           <CardTitle>Employee Performance</CardTitle>
@@ -1289,6 +1509,7 @@ const assignedEmployees = employees
 <TableHead>Assigned</TableHead>
 <TableHead>Completed</TableHead>
 <TableHead>Missed</TableHead>
+<TableHead>Checklist</TableHead>
 <TableHead>Complaints</TableHead>
 <TableHead>Compliments</TableHead>
 <TableHead>Quality Score</TableHead>
@@ -1297,11 +1518,14 @@ const assignedEmployees = employees
 
             <TableBody>
               {report.employeeRows.map((row) => (
-                <TableRow key={row.employeeName}>
+                <TableRow key={row.employeeId}>
                   <TableCell>{row.employeeName}</TableCell>
 <TableCell>{row.assigned}</TableCell>
 <TableCell>{row.completed}</TableCell>
 <TableCell>{row.missed}</TableCell>
+<TableCell>
+  <ChecklistRate row={checklistSummary.byEmployee.get(row.employeeId)} />
+</TableCell>
 <TableCell>{row.complaints}</TableCell>
 <TableCell>{row.compliments}</TableCell>
 <TableCell>
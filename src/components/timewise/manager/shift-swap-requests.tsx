@@ -0,0 +1,165 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertCircle } from "lucide-react";
+import type {
+  CleaningSchedule,
+  Employee,
+  OccurrenceOverride,
+  ShiftSwap,
+  Site,
+  TimeOffRequest,
+} from "@/shared/types/domain";
+import { handoffConflicts, swapHandoffs, weekOccurrences } from "@/lib/shift-swaps";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+interface ShiftSwapRequestsProps {
+  swaps: ShiftSwap[];
+  schedules: CleaningSchedule[];
+  occurrenceOverrides: OccurrenceOverride[];
+  employees: Employee[];
+  sites: Site[];
+  timeOffRequests: TimeOffRequest[];
+  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+  approve: (swapId: string) => Promise<void> | void;
+  reject: (swapId: string, reason?: string) => Promise<void> | void;
+}
+
+const dayLabel = (date: string) => format(parseISO(date), "EEE, MMM d");
+
+export function ShiftSwapRequests({
+  swaps,
+  schedules,
+  occurrenceOverrides,
+  employees,
+  sites,
+  timeOffRequests,
+  weekStartsOn,
+  approve,
+  reject,
+}: ShiftSwapRequestsProps) {
+  const claimed = useMemo(() => swaps.filter((s) => s.status === "claimed"), [swaps]);
+  const open = swaps.filter((s) => s.status === "open");
+
+  // What each claim would break if approved, checked against the whole week
+  const warnings = useMemo(() => {
+    const handoffsBySwap = claimed.map((swap) => ({
+      swap,
+      handoffs: swapHandoffs(swap, employees),
+    }));
+    const occurrences = weekOccurrences(
+      schedules,
+      occurrenceOverrides,
+      handoffsBySwap.flatMap(({ handoffs }) => handoffs.map((h) => h.date)),
+      weekStartsOn
+    );
+
+    return new Map(
+      handoffsBySwap.map(({ swap, handoffs }) => [
+        swap.id,
+        handoffConflicts({
+          handoffs,
+          occurrences,
+          employees,
+          sites,
+          timeOffRequests,
+          weekStartsOn,
+        }),
+      ])
+    );
+  }, [claimed, schedules, occurrenceOverrides, employees, sites, timeOffRequests, weekStartsOn]);
+
+  const rejectWithReason = (swapId: string) => {
+    const reason = window.prompt("Optional: Reason for rejecting this shift change?");
+    reject(swapId, reason || undefined);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Shift Swaps</CardTitle>
+        <CardDescription>
+          Claimed shifts waiting for approval. Approving changes only that day&apos;s
+          assignment; the recurring schedule is left as is.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {claimed.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No shift changes to approve.</p>
+        ) : (
+          <div className="space-y-3">
+            {claimed.map((swap) => (
+              <div
+                key={swap.id}
+                className="border rounded-md p-3 flex flex-col gap-2 md:flex-row md:items-center md:justify-between"
+              >
+                <div className="space-y-1">
+                  <p className="font-medium text-sm">
+                    {swap.employeeName} → {swap.claimedByName}
+                    <Badge variant="outline" className="ml-2">
+                      {swap.kind === "swap" ? "Swap" : "Pick-up"}
+                    </Badge>
+                  </p>
+                  <p className="text-xs">
+                    <span className="font-semibold">{swap.siteName}</span> ·{" "}
+                    {dayLabel(swap.scheduleDate)}
+                  </p>
+                  {swap.kind === "swap" && swap.returnScheduleDate && (
+                    <p className="text-xs">
+                      In return: <span className="font-semibold">{swap.returnSiteName}</span> ·{" "}
+                      {dayLabel(swap.returnScheduleDate)}
+                    </p>
+                  )}
+                  {swap.note && (
+                    <p className="text-xs text-muted-foreground">“{swap.note}”</p>
+                  )}
+                  {(warnings.get(swap.id) ?? []).map((message) => (
+                    <p key={message} className="flex items-start gap-1 text-xs text-destructive">
+                      <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" />
+                      {message}
+                    </p>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-2 mt-2 md:mt-0">
+                  <Button size="sm" variant="outline" onClick={() => rejectWithReason(swap.id)}>
+                    Reject
+                  </Button>
+                  <Button size="sm" variant="default" onClick={() => approve(swap.id)}>
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {open.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">On the open shifts board</p>
+            {open.map((swap) => (
+              <div key={swap.id} className="flex items-center justify-between gap-2 text-xs">
+                <span>
+                  {swap.siteName} · {dayLabel(swap.scheduleDate)} — offered by {swap.employeeName}
+                  {swap.kind === "swap" ? " (swap)" : ""}
+                </span>
+                <Button size="sm" variant="ghost" onClick={() => rejectWithReason(swap.id)}>
+                  Close
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import React from "react";
+import type { ChecklistItem, ChecklistSection } from "@/shared/types/domain";
+import { uuid } from "@/lib/time-utils";
+import { Camera, PlusCircle, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+
+interface SiteChecklistEditorProps {
+  value: ChecklistSection[];
+  onChange: (sections: ChecklistSection[]) => void;
+}
+
+export function SiteChecklistEditor({ value, onChange }: SiteChecklistEditorProps) {
+  const updateSection = (sectionId: string, updates: Partial<ChecklistSection>) =>
+    onChange(value.map((s) => (s.id === sectionId ? { ...s, ...updates } : s)));
+
+  const updateItem = (section: ChecklistSection, itemId: string, updates: Partial<ChecklistItem>) =>
+    updateSection(section.id, {
+      items: section.items.map((i) => (i.id === itemId ? { ...i, ...updates } : i)),
+    });
+
+  const addSection = () =>
+    onChange([...value, { id: uuid(), name: "", items: [{ id: uuid(), label: "" }] }]);
+
+  const addItem = (section: ChecklistSection) =>
+    updateSection(section.id, { items: [...section.items, { id: uuid(), label: "" }] });
+
+  return (
+    <div className="space-y-4">
+      {value.map((section) => (
+        <div key={section.id} className="space-y-2 rounded-xl border bg-white/80 p-3 dark:bg-slate-950/60">
+          <div className="flex items-center gap-2">
+            <Input
+              value={section.name}
+              onChange={(e) => updateSection(section.id, { name: e.target.value })}
+              placeholder="Room or area, e.g. Lobby"
+              className="font-semibold"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(value.filter((s) => s.id !== section.id))}
+              aria-label="Remove section"
+            >
+              <Trash2 className="h-4 w-4 text-red-600" />
+            </Button>
+          </div>
+
+          {section.items.map((item) => (
+            <div key={item.id} className="flex items-center gap-2 pl-3">
+              <Input
+                value={item.label}
+                onChange={(e) => updateItem(section, item.id, { label: e.target.value })}
+                placeholder="Task, e.g. Empty trash"
+              />
+              <label className="flex shrink-0 items-center gap-1 text-xs text-muted-foreground">
+                <Camera className="h-3 w-3" />
+                Photo
+                <Switch
+                  checked={!!item.photoRequired}
+                  onCheckedChange={(checked) => updateItem(section, item.id, { photoRequired: checked })}
+                />
+              </label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() =>
+                  updateSection(section.id, { items: section.items.filter((i) => i.id !== item.id) })
+                }
+                aria-label="Remove task"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button type="button" variant="link" size="sm" className="pl-3" onClick={() => addItem(section)}>
+            <PlusCircle className="mr-1 h-4 w-4" />
+            Add task
+          </Button>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={addSection}>
+        <PlusCircle className="mr-2 h-4 w-4" />
+        Add room / area
+      </Button>
+    </div>
+  );
+}
@@ -29,6 +29,7 @@ import {
   ShieldCheck,
   Clock3,
   WalletCards,
+  ClipboardCheck,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -57,6 +58,7 @@ import {
 } from "@/components/ui/accordion";
 import { useToast } from "@/hooks/use-toast";
 import { uuid } from "@/lib/time-utils";
+import { SiteChecklistEditor } from "./site-checklist-editor";
 
 
 interface SiteListViewProps {
@@ -319,6 +321,18 @@ const groupedSites = useMemo(() => {
       }
     });
 
+    if (cleanSiteData.checklist) {
+      cleanSiteData.checklist = cleanSiteData.checklist
+        .map((section) => ({
+          ...section,
+          name: section.name.trim(),
+          items: section.items
+            .map((item) => ({ ...item, label: item.label.trim() }))
+            .filter((item) => item.label),
+        }))
+        .filter((section) => section.items.length > 0);
+    }
+
     if (editingSite) {
       // Check for duplicate names when renaming
       if (
@@ -1223,6 +1237,24 @@ const groupedSites = useMemo(() => {
         </div>
       </div>
     </section>
+
+    {/* =========================================================
+        CLEANING CHECKLIST
+    ========================================================== */}
+    <section className="space-y-5 rounded-2xl border border-teal-100 bg-teal-50/55 p-5 shadow-sm dark:border-teal-900/50 dark:bg-teal-950/20">
+      <div className="border-b pb-2">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-teal-900 dark:text-teal-200"><ClipboardCheck className="h-5 w-5" />Cleaning Checklist</h3>
+        <p className="text-sm text-muted-foreground">
+          Tasks employees tick off during each visit, grouped by room.
+          Changes apply to visits that have not started yet.
+        </p>
+      </div>
+
+      <SiteChecklistEditor
+        value={siteData.checklist ?? []}
+        onChange={(sections) => handleDataChange("checklist", sections)}
+      />
+    </section>
   </div>
 </ScrollArea>
                   <DialogFooter className="border-t border-slate-200 bg-white px-6 py-4 dark:border-slate-800 dark:bg-slate-950">
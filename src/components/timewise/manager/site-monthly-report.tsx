@@ -9,10 +9,13 @@ import type {
     MileageLog,
     OtherExpense,
      CleaningSchedule,
+    OccurrenceOverride,
     Settings,
     ServiceFeedback,
      Site,
+    VisitPhoto,
   } from "@/shared/types/domain";
+import { VisitPhotoGallery } from "./visit-photo-gallery";
 import { Button } from "@/components/ui/button";
 import { Trash2 } from "lucide-react";
 
@@ -24,9 +27,11 @@ type Props = {
   mileageLogs: any[];
   otherExpenses: any[];
   schedules: CleaningSchedule[];
+  occurrenceOverrides?: OccurrenceOverride[];
   settings: Settings;
   serviceFeedbacks: ServiceFeedback[];
 onAddServiceFeedbackAction: (feedback: Omit<ServiceFeedback, "id">) => void;
+  visitPhotos?: VisitPhoto[];
   deleteSiteAction: (siteId: string) => void;
 };
 
@@ -91,10 +96,12 @@ export function SiteMonthlyReport({
   mileageLogs,
   otherExpenses,
    schedules,
+  occurrenceOverrides,
   settings,
   deleteSiteAction,
 serviceFeedbacks,
 onAddServiceFeedbackAction,
+  visitPhotos = [],
 }: Props) {
   const [selectedRow, setSelectedRow] = React.useState<any | null>(null);
   const [feedbackType, setFeedbackType] = React.useState<
@@ -120,10 +127,11 @@ const [feedbackNotes, setFeedbackNotes] = React.useState("");
         mileageLogs,
         otherExpenses,
         schedules,
+        occurrenceOverrides,
         settings,
         monthISO,
       }),
-    [entries, employees,  sites, mileageLogs, otherExpenses, schedules,monthISO, settings]
+    [entries, employees,  sites, mileageLogs, otherExpenses, schedules, occurrenceOverrides, monthISO, settings]
   );
 
   if (!rows.length) {
@@ -539,6 +547,34 @@ const [feedbackNotes, setFeedbackNotes] = React.useState("");
       ))}
   </div>
 </div>
+
+    {(() => {
+      const sitePhotos = visitPhotos.filter(
+        (p) =>
+          (p.siteId ? p.siteId === selectedRow.siteId : p.siteName === selectedRow.siteName) &&
+          (!monthISO || p.scheduleDate.startsWith(monthISO))
+      );
+      const dates = Array.from(new Set(sitePhotos.map((p) => p.scheduleDate))).sort().reverse();
+
+      return (
+        <div className="mt-4 border-t pt-4 space-y-3">
+          <h5 className="font-semibold">Visit Photos ({sitePhotos.length})</h5>
+
+          {dates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No photos for this month.</p>
+          ) : (
+            dates.map((date) => (
+              <div key={date} className="space-y-2">
+                <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                  {date}
+                </p>
+                <VisitPhotoGallery photos={sitePhotos.filter((p) => p.scheduleDate === date)} />
+              </div>
+            ))
+          )}
+        </div>
+      );
+    })()}
   </div>
 )}
       </div>
@@ -0,0 +1,88 @@
+"use client";
+
+import React from "react";
+import type { TimeCorrectionRequest } from "@/shared/types/domain";
+import { formatDT } from "@/lib/time-utils";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+interface TimeCorrectionRequestsProps {
+  requests: TimeCorrectionRequest[];
+  approve: (requestId: string) => Promise<void> | void;
+  reject: (requestId: string, reason?: string) => Promise<void> | void;
+}
+
+export function TimeCorrectionRequests({ requests, approve, reject }: TimeCorrectionRequestsProps) {
+  const pending = requests.filter((r) => r.status === "pending");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Time Correction Requests</CardTitle>
+        <CardDescription>
+          Employees asking to fix a missed or wrong clock time. Approved changes are
+          recorded in the entry&apos;s audit history.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {pending.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pending time corrections.</p>
+        ) : (
+          <div className="space-y-3">
+            {pending.map((req) => (
+              <div
+                key={req.id}
+                className="border rounded-md p-3 flex flex-col gap-2 md:flex-row md:items-center md:justify-between"
+              >
+                <div className="space-y-1">
+                  <p className="font-medium text-sm">
+                    {req.employeeName}{" "}
+                    <Badge variant="outline" className="ml-1">
+                      {req.entryId ? "Change" : "Add"} clock {req.action.toUpperCase()}
+                    </Badge>
+                  </p>
+                  <p className="text-xs">
+                    <span className="font-semibold">{req.site || "—"}</span>:{" "}
+                    {req.currentTs ? (
+                      <>
+                        <span className="line-through text-muted-foreground">
+                          {formatDT(req.currentTs)}
+                        </span>{" "}
+                        →{" "}
+                      </>
+                    ) : null}
+                    <span className="text-primary font-medium">{formatDT(req.requestedTs)}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">“{req.reason}”</p>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mt-2 md:mt-0">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      const reason = window.prompt("Optional: Reason for rejecting this correction?");
+                      reject(req.id, reason || undefined);
+                    }}
+                  >
+                    Reject
+                  </Button>
+                  <Button size="sm" variant="default" onClick={() => approve(req.id)}>
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import React from "react";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import type { TimeOffRequest } from "@/shared/types/domain";
+import { formatTimeOffRange } from "@/lib/schedule-conflicts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+interface TimeOffRequestsProps {
+  requests: TimeOffRequest[];
+  approve: (requestId: string) => Promise<void> | void;
+  reject: (requestId: string, reason?: string) => Promise<void> | void;
+}
+
+export function TimeOffRequests({ requests, approve, reject }: TimeOffRequestsProps) {
+  const pending = requests
+    .filter((r) => r.status === "pending")
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Time Off Requests</CardTitle>
+        <CardDescription>
+          Approved time off is flagged on any visit the employee is scheduled for.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {pending.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pending time off requests.</p>
+        ) : (
+          <div className="space-y-3">
+            {pending.map((req) => {
+              const days =
+                differenceInCalendarDays(parseISO(req.endDate), parseISO(req.startDate)) + 1;
+
+              return (
+                <div
+                  key={req.id}
+                  className="border rounded-md p-3 flex flex-col gap-2 md:flex-row md:items-center md:justify-between"
+                >
+                  <div className="space-y-1">
+                    <p className="font-medium text-sm">
+                      {req.employeeName}{" "}
+                      <Badge variant="outline" className="ml-1">
+                        {days} day{days === 1 ? "" : "s"}
+                      </Badge>
+                    </p>
+                    <p className="text-xs text-primary font-medium">{formatTimeOffRange(req)}</p>
+                    {req.reason && (
+                      <p className="text-xs text-muted-foreground">“{req.reason}”</p>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 mt-2 md:mt-0">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        const reason = window.prompt("Optional: Reason for rejecting this time off?");
+                        reject(req.id, reason || undefined);
+                      }}
+                    >
+                      Reject
+                    </Button>
+                    <Button size="sm" variant="default" onClick={() => approve(req.id)}>
+                      Approve
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import React from "react";
+import { format } from "date-fns";
+import type { VisitPhoto } from "@/shared/types/domain";
+import { MapPin, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+
+interface VisitPhotoGalleryProps {
+  photos: VisitPhoto[];
+  onUpdate?: (id: string, updates: Partial<Pick<VisitPhoto, "caption" | "includeInClientReport">>) => void;
+  onDelete?: (id: string) => void;
+}
+
+const KIND_ORDER: Record<VisitPhoto["kind"], number> = { before: 0, after: 1, other: 2 };
+
+export function VisitPhotoGallery({ photos, onUpdate, onDelete }: VisitPhotoGalleryProps) {
+  if (photos.length === 0) {
+    return <p className="text-sm text-muted-foreground">No photos for this visit.</p>;
+  }
+
+  const sorted = photos
+    .slice()
+    .sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.takenAt - b.takenAt);
+
+  return (
+    <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+      {sorted.map((photo) => (
+        <div key={photo.id} className="overflow-hidden rounded-lg border bg-white dark:bg-slate-950">
+          <a href={photo.url} target="_blank" rel="noopener noreferrer">
+            <img
+              src={photo.url}
+              alt={`${photo.kind} photo at ${photo.siteName}`}
+              className="aspect-[4/3] w-full object-cover"
+              loading="lazy"
+            />
+          </a>
+
+          <div className="space-y-1 p-2 text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <Badge variant={photo.kind === "after" ? "default" : "outline"} className="capitalize">
+                {photo.kind}
+              </Badge>
+              <span className="text-muted-foreground">{format(photo.takenAt, "MMM d, h:mm a")}</span>
+            </div>
+
+            <p className="font-medium">{photo.employeeName}</p>
+
+            {photo.lat != null && photo.lng != null ? (
+              <a
+                href={`https://www.google.com/maps?q=${photo.lat},${photo.lng}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-blue-700 underline"
+              >
+                <MapPin className="h-3 w-3" />
+                {photo.lat.toFixed(5)}, {photo.lng.toFixed(5)}
+                {photo.accuracyMeters != null && ` (±${photo.accuracyMeters}m)`}
+              </a>
+            ) : (
+              <p className="text-muted-foreground">No location</p>
+            )}
+
+            {(onUpdate || onDelete) && (
+              <div className="flex items-center justify-between gap-2 pt-1">
+                {onUpdate ? (
+                  <label className="flex items-center gap-2">
+                    <Switch
+                      checked={!!photo.includeInClientReport}
+                      onCheckedChange={(checked) => onUpdate(photo.id, { includeInClientReport: checked })}
+                    />
+                    Client report
+                  </label>
+                ) : (
+                  <span />
+                )}
+                {onDelete && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => onDelete(photo.id)}
+                    aria-label="Delete photo"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
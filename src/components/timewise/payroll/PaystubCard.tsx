@@ -13,6 +13,8 @@ type PaystubYTD = {
   grossPay: number;
   regularPay?: number;
   bonusPay?: number;
+  overtimeHours?: number;
+  overtimePremium?: number;
 
   federalTax: number;
   stateTax: number;
@@ -37,6 +39,10 @@ type PaystubCardProps = {
   payRate?: number;
   regularHours?: number;
   bonusHours?: number;
+  overtimeHours?: number;
+  doubleTimeHours?: number;
+  overtimePremium?: number;
+  regularRateOfPay?: number;
   flatBonus?: number;
   grossPay: number;
   deductions: PaystubDeduction[];
@@ -133,6 +139,10 @@ export function PaystubCard({
   payRate,
   regularHours = 0,
   bonusHours = 0,
+  overtimeHours = 0,
+  doubleTimeHours = 0,
+  overtimePremium = 0,
+  regularRateOfPay = 0,
   flatBonus = 0,
   grossPay,
   deductions,
@@ -185,6 +195,18 @@ export function PaystubCard({
       ? (ytd?.bonusHours ?? bonusHours) * bonusRate
       : bonusAmount);
 
+  /*
+   * Overtime hours are already paid at straight time inside Regular/Bonus.
+   * The premium rows show only the extra half-time (OT) and full-time (DT).
+   */
+  const overtimeRate = regularRateOfPay * 0.5;
+  const doubleTimeRate = regularRateOfPay;
+  const doubleTimeAmount =
+    doubleTimeHours > 0 ? Math.min(overtimePremium, doubleTimeHours * doubleTimeRate) : 0;
+  const overtimeAmount = Math.max(0, overtimePremium - doubleTimeAmount);
+  const showOvertime =
+    overtimeHours + doubleTimeHours > 0 || (ytd?.overtimePremium ?? 0) > 0;
+
   const ytdTaxes =
     (ytd?.federalTax ?? 0) +
     (ytd?.stateTax ?? 0) +
@@ -494,6 +516,36 @@ export function PaystubCard({
                   </td>
                 </tr>
 
+                {showOvertime && (
+                  <tr>
+                    <td className="px-5 py-3.5 font-medium">Overtime Premium</td>
+                    <td className="px-4 py-3.5 text-right">{overtimeHours.toFixed(2)}</td>
+                    <td className="px-4 py-3.5 text-right">
+                      {regularRateOfPay > 0 ? formatMoney(overtimeRate) : "—"}
+                    </td>
+                    <td className="px-4 py-3.5 text-right font-bold">
+                      {formatMoney(overtimeAmount)}
+                    </td>
+                    <td className="px-5 py-3.5 text-right font-bold text-blue-800">
+                      {formatMoney(ytd?.overtimePremium ?? overtimePremium)}
+                    </td>
+                  </tr>
+                )}
+
+                {doubleTimeHours > 0 && (
+                  <tr>
+                    <td className="px-5 py-3.5 font-medium">Double-Time Premium</td>
+                    <td className="px-4 py-3.5 text-right">{doubleTimeHours.toFixed(2)}</td>
+                    <td className="px-4 py-3.5 text-right">
+                      {formatMoney(doubleTimeRate)}
+                    </td>
+                    <td className="px-4 py-3.5 text-right font-bold">
+                      {formatMoney(doubleTimeAmount)}
+                    </td>
+                    <td className="px-5 py-3.5 text-right font-bold text-blue-800">—</td>
+                  </tr>
+                )}
+
                 <tr>
                   <td className="px-5 py-3.5 font-medium">Flat Bonus</td>
                   <td className="px-4 py-3.5 text-right">—</td>
@@ -0,0 +1,437 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertCircle, ArrowLeftRight, Hand } from "lucide-react";
+import type {
+  CleaningSchedule,
+  Employee,
+  OccurrenceOverride,
+  ShiftSwap,
+  Site,
+  TimeOffRequest,
+} from "@/shared/types/domain";
+import { handoffConflicts, weekOccurrences } from "@/lib/shift-swaps";
+import { scheduleAssigneeIds } from "@/lib/schedule-conflicts";
+import { applyOccurrenceOverride, occurrenceOverrideOn } from "@/lib/occurrence-overrides";
+import { describeVisitWindow } from "@/lib/visit-windows";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+export type ShiftOccurrence = {
+  schedule: CleaningSchedule;
+  date: string; // yyyy-MM-dd
+  label: string;
+};
+
+export type OfferShiftInput = Pick<
+  ShiftSwap,
+  "kind" | "scheduleId" | "scheduleDate" | "siteName" | "note"
+>;
+
+export type ReturnShiftInput = Pick<
+  ShiftSwap,
+  "returnScheduleId" | "returnScheduleDate" | "returnSiteName"
+>;
+
+const dayLabel = (date: string) => format(parseISO(date), "EEE, MMM d");
+
+const occurrenceValue = (o: Pick<ShiftOccurrence, "schedule" | "date">) =>
+  `${o.schedule.id}|${o.date}`;
+
+// ---------------------------------------------------------------
+// Offer dialog
+// ---------------------------------------------------------------
+
+interface OfferShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shift: ShiftOccurrence | null;
+  onSubmit: (input: OfferShiftInput) => Promise<void>;
+}
+
+export function OfferShiftDialog({ open, onOpenChange, shift, onSubmit }: OfferShiftDialogProps) {
+  const [kind, setKind] = useState<ShiftSwap["kind"]>("drop");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setKind("drop");
+      setNote("");
+    }
+  }, [open]);
+
+  const submit = async () => {
+    if (!shift) return;
+    setSaving(true);
+    try {
+      await onSubmit({
+        kind,
+        scheduleId: shift.schedule.id,
+        scheduleDate: shift.date,
+        siteName: shift.label,
+        note: note.trim() || null,
+      });
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Give Away Shift</DialogTitle>
+          <DialogDescription>
+            {shift ? `${shift.label} · ${dayLabel(shift.date)}` : ""}. You stay on this shift
+            until a coworker claims it and your manager approves.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>How</Label>
+            <Select value={kind} onValueChange={(v) => setKind(v as ShiftSwap["kind"])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="drop">Drop it — anyone can pick it up</SelectItem>
+                <SelectItem value="swap">Swap — take one of their shifts in return</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="swapNote">Note (optional)</Label>
+            <Textarea
+              id="swapNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g., Doctor's appointment"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={saving || !shift}>
+            Post Shift
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------------------------------------------------
+// Open shifts board
+// ---------------------------------------------------------------
+
+interface ShiftSwapBoardProps {
+  employee: Employee;
+  employees: Employee[];
+  schedules: CleaningSchedule[];
+  occurrenceOverrides: OccurrenceOverride[];
+  sites: Site[];
+  swaps: ShiftSwap[];
+  timeOffRequests: TimeOffRequest[];
+  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+  // The employee's own upcoming shifts, offered in return for a swap
+  myUpcomingShifts: ShiftOccurrence[];
+
+  disabled?: boolean;
+  onClaim: (swapId: string, returnShift?: ReturnShiftInput) => Promise<void>;
+  onCancel: (swapId: string) => Promise<void>;
+}
+
+export function ShiftSwapBoard({
+  employee,
+  employees,
+  schedules,
+  occurrenceOverrides,
+  sites,
+  swaps,
+  timeOffRequests,
+  weekStartsOn,
+  myUpcomingShifts,
+  disabled,
+  onClaim,
+  onCancel,
+}: ShiftSwapBoardProps) {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [returnPick, setReturnPick] = useState<Record<string, string>>({});
+
+  /*
+   * Shifts this employee could pick up, with anything that would make
+   * them a bad fit (time off, availability, overlap, weekly hours).
+   */
+  const openShifts = useMemo(() => {
+    // The offered visit as worked that day
+    const shiftOf = (swap: ShiftSwap) => {
+      const schedule = schedules.find((s) => s.id === swap.scheduleId);
+      return (
+        schedule &&
+        applyOccurrenceOverride(
+          schedule,
+          occurrenceOverrideOn(occurrenceOverrides, swap.scheduleId, swap.scheduleDate)
+        )
+      );
+    };
+
+    const candidates = swaps.flatMap((swap) => {
+      if (swap.status !== "open" || swap.employeeId === employee.id) return [];
+      if (swap.scheduleDate < today) return [];
+
+      const schedule = shiftOf(swap);
+      if (!schedule || scheduleAssigneeIds(schedule, employees).includes(employee.id)) return [];
+      return [{ swap, schedule }];
+    });
+
+    const occurrences = weekOccurrences(
+      schedules,
+      occurrenceOverrides,
+      candidates.map(({ swap }) => swap.scheduleDate),
+      weekStartsOn
+    );
+
+    return candidates.map(({ swap, schedule }) => ({
+      swap,
+      schedule,
+      conflicts: handoffConflicts({
+        handoffs: [
+          {
+            scheduleId: swap.scheduleId,
+            date: swap.scheduleDate,
+            fromEmployeeId: swap.employeeId,
+            to: employee,
+          },
+        ],
+        occurrences,
+        employees,
+        sites,
+        timeOffRequests,
+        weekStartsOn,
+      }),
+    }));
+  }, [
+    swaps,
+    schedules,
+    occurrenceOverrides,
+    employees,
+    employee,
+    sites,
+    timeOffRequests,
+    weekStartsOn,
+    today,
+  ]);
+
+  const myOffers = swaps.filter(
+    (swap) => swap.employeeId === employee.id && swap.scheduleDate >= today
+  );
+  const myClaims = swaps.filter(
+    (swap) => swap.claimedByEmployeeId === employee.id && swap.scheduleDate >= today
+  );
+
+  const claim = (swap: ShiftSwap) => {
+    if (swap.kind !== "swap") return onClaim(swap.id);
+
+    const picked = myUpcomingShifts.find(
+      (shift) => occurrenceValue(shift) === returnPick[swap.id]
+    );
+    if (!picked) return;
+
+    return onClaim(swap.id, {
+      returnScheduleId: picked.schedule.id,
+      returnScheduleDate: picked.date,
+      returnSiteName: picked.label,
+    });
+  };
+
+  const statusBadge = (swap: ShiftSwap) => (
+    <Badge
+      variant={
+        swap.status === "approved"
+          ? "default"
+          : swap.status === "rejected" || swap.status === "cancelled"
+            ? "destructive"
+            : "secondary"
+      }
+    >
+      {swap.status === "claimed" ? "awaiting approval" : swap.status}
+    </Badge>
+  );
+
+  if (!openShifts.length && !myOffers.length && !myClaims.length) return null;
+
+  return (
+    <Card className="rounded-3xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="h-5 w-5" />
+          Open Shifts
+        </CardTitle>
+        <CardDescription>
+          Shifts coworkers need covered. A pick-up only counts once your manager approves it.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-5">
+        {openShifts.length > 0 && (
+          <ul className="space-y-3">
+            {openShifts.map(({ swap, schedule, conflicts }) => (
+              <li key={swap.id} className="rounded-xl border p-3 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium">
+                      {swap.siteName} · {dayLabel(swap.scheduleDate)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      From {swap.employeeName}
+                      {describeVisitWindow(schedule) && ` · ${describeVisitWindow(schedule)}`}
+                    </p>
+                    {swap.note && (
+                      <p className="text-xs text-muted-foreground">“{swap.note}”</p>
+                    )}
+                  </div>
+                  <Badge variant="outline">{swap.kind === "swap" ? "Swap" : "Pick-up"}</Badge>
+                </div>
+
+                {conflicts.map((message) => (
+                  <p key={message} className="flex items-start gap-1 text-xs text-destructive">
+                    <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" />
+                    {message}
+                  </p>
+                ))}
+
+                <div className="flex flex-wrap items-center gap-2">
+                  {swap.kind === "swap" && (
+                    <Select
+                      value={returnPick[swap.id] ?? ""}
+                      onValueChange={(value) =>
+                        setReturnPick((prev) => ({ ...prev, [swap.id]: value }))
+                      }
+                    >
+                      <SelectTrigger className="h-9 w-64">
+                        <SelectValue placeholder="Shift to give in return" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {myUpcomingShifts.map((shift) => (
+                          <SelectItem key={occurrenceValue(shift)} value={occurrenceValue(shift)}>
+                            {shift.label} · {dayLabel(shift.date)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  <Button
+                    size="sm"
+                    disabled={
+                      disabled ||
+                      conflicts.length > 0 ||
+                      (swap.kind === "swap" && !returnPick[swap.id])
+                    }
+                    onClick={() => claim(swap)}
+                  >
+                    <Hand className="mr-2 h-4 w-4" />
+                    {swap.kind === "swap" ? "Swap" : "Pick Up"}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {myOffers.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Shifts you offered</p>
+            {myOffers.map((swap) => (
+              <div
+                key={swap.id}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-xl border px-3 py-2 text-sm"
+              >
+                <div>
+                  <p>
+                    {swap.siteName} · {dayLabel(swap.scheduleDate)}
+                  </p>
+                  {swap.claimedByName && (
+                    <p className="text-xs text-muted-foreground">
+                      Claimed by {swap.claimedByName}
+                      {swap.returnSiteName && swap.returnScheduleDate
+                        ? `, you get ${swap.returnSiteName} · ${dayLabel(swap.returnScheduleDate)}`
+                        : ""}
+                    </p>
+                  )}
+                  {swap.rejectionReason && (
+                    <p className="text-xs text-muted-foreground">{swap.rejectionReason}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {statusBadge(swap)}
+                  {(swap.status === "open" || swap.status === "claimed") && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={disabled}
+                      onClick={() => onCancel(swap.id)}
+                    >
+                      Withdraw
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {myClaims.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Shifts you picked up</p>
+            {myClaims.map((swap) => (
+              <div
+                key={swap.id}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-xl border px-3 py-2 text-sm"
+              >
+                <p>
+                  {swap.siteName} · {dayLabel(swap.scheduleDate)}
+                  <span className="text-xs text-muted-foreground"> from {swap.employeeName}</span>
+                </p>
+                {statusBadge(swap)}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import type { Entry, Site, TimeCorrectionRequest } from "@/shared/types/domain";
+import { formatDT } from "@/lib/time-utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+export type TimeCorrectionInput = Pick<
+  TimeCorrectionRequest,
+  "entryId" | "action" | "site" | "requestedTs" | "reason"
+>;
+
+interface TimeCorrectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Entry being corrected; omit to report a missing clock in/out.
+  entry?: Entry | null;
+  sites: Site[];
+  onSubmit: (input: TimeCorrectionInput) => Promise<void>;
+}
+
+const toLocalInput = (ts: number) => format(ts, "yyyy-MM-dd'T'HH:mm");
+
+export function TimeCorrectionDialog({
+  open,
+  onOpenChange,
+  entry,
+  sites,
+  onSubmit,
+}: TimeCorrectionDialogProps) {
+  const [action, setAction] = useState<"in" | "out">("out");
+  const [site, setSite] = useState("");
+  const [when, setWhen] = useState("");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setAction(entry?.action ?? "out");
+    setSite(entry?.site ?? sites[0]?.name ?? "");
+    setWhen(toLocalInput(entry?.ts ?? Date.now()));
+    setReason("");
+  }, [open, entry, sites]);
+
+  const requestedTs = new Date(when).getTime();
+  const canSubmit =
+    !!site &&
+    Number.isFinite(requestedTs) &&
+    !!reason.trim() &&
+    (!entry || requestedTs !== entry.ts);
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        entryId: entry?.id ?? null,
+        action,
+        site,
+        requestedTs,
+        reason: reason.trim(),
+      });
+      onOpenChange(false);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Time Correction</DialogTitle>
+          <DialogDescription>
+            {entry
+              ? `Your clock ${entry.action.toUpperCase()} at ${entry.site || "this site"} was recorded as ${formatDT(entry.ts)}.`
+              : "Forgot to clock in or out? Tell your manager the correct time."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {!entry && (
+            <>
+              <div className="space-y-2">
+                <Label>Missing</Label>
+                <Select value={action} onValueChange={(v) => setAction(v as "in" | "out")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="out">Clock out</SelectItem>
+                    <SelectItem value="in">Clock in</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Site</Label>
+                <Select value={site} onValueChange={setSite}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a site" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sites.map((s) => (
+                      <SelectItem key={s.name} value={s.name}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="correction-time">Correct time</Label>
+            <Input
+              id="correction-time"
+              type="datetime-local"
+              value={when}
+              onChange={(e) => setWhen(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="correction-reason">Reason</Label>
+            <Textarea
+              id="correction-reason"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. I forgot to clock out when I left at 9:40"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || submitting}>
+            {submitting ? "Submitting..." : "Submit Request"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
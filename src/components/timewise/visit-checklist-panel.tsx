@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import type { ChecklistCheck, ChecklistItem, Site, VisitChecklist } from "@/shared/types/domain";
+import { checklistProgress, instantiateVisitChecklist } from "@/lib/checklists";
+import { uploadChecklistPhoto } from "@/features/checklists/checklist-photos";
+import { useToast } from "@/hooks/use-toast";
+import { Camera, ClipboardCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { cn } from "@/lib/utils";
+
+export type SetChecklistItemArgs = {
+  scheduleId: string;
+  scheduleDate: string;
+  site: Site;
+  itemId: string;
+  checked: boolean;
+  photo?: Pick<ChecklistCheck, "photoUrl" | "photoPath">;
+};
+
+interface VisitChecklistPanelProps {
+  companyId: string;
+  site: Site;
+  scheduleId: string;
+  scheduleDate: string;
+  // Undefined until the first item of this visit is ticked
+  visit?: VisitChecklist;
+  readOnly?: boolean;
+  onSetItem: (args: SetChecklistItemArgs) => Promise<void>;
+}
+
+export function VisitChecklistPanel({
+  companyId,
+  site,
+  scheduleId,
+  scheduleDate,
+  visit,
+  readOnly = false,
+  onSetItem,
+}: VisitChecklistPanelProps) {
+  const { toast } = useToast();
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const photoItemRef = useRef<ChecklistItem | null>(null);
+
+  const checklist = visit ?? instantiateVisitChecklist({ scheduleId, scheduleDate, site });
+  const progress = checklistProgress(checklist);
+
+  if (progress.total === 0) return null;
+
+  const setItem = async (item: ChecklistItem, checked: boolean, photo?: SetChecklistItemArgs["photo"]) => {
+    setBusyItemId(item.id);
+    try {
+      await onSetItem({ scheduleId, scheduleDate, site, itemId: item.id, checked, photo });
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const toggle = (item: ChecklistItem, checked: boolean) => {
+    // Photo items are ticked by attaching the photo.
+    if (checked && item.photoRequired && !checklist.checks?.[item.id]?.photoUrl) {
+      photoItemRef.current = item;
+      photoInputRef.current?.click();
+      return;
+    }
+    setItem(item, checked);
+  };
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const item = photoItemRef.current;
+    e.target.value = "";
+    if (!file || !item) return;
+
+    setBusyItemId(item.id);
+    try {
+      const photo = await uploadChecklistPhoto({
+        companyId,
+        visitId: checklist.id,
+        itemId: item.id,
+        file,
+      });
+      await setItem(item, true, photo);
+    } catch (error) {
+      console.error("Checklist photo upload failed:", error);
+      toast({
+        variant: "destructive",
+        title: "Photo upload failed",
+        description: "Please try again when you have a connection.",
+      });
+      setBusyItemId(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 rounded-lg border bg-white/70 p-3 dark:bg-slate-950/40">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <p className="flex items-center gap-2 text-sm font-semibold">
+          <ClipboardCheck className="h-4 w-4 text-emerald-600" />
+          Checklist{site.name ? ` — ${site.name}` : ""}
+        </p>
+        <Badge variant={progress.done === progress.total ? "default" : "outline"}>
+          {progress.done}/{progress.total} done
+        </Badge>
+      </div>
+
+      <div className="space-y-3">
+        {checklist.sections.map((section) => (
+          <div key={section.id}>
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              {section.name || "General"}
+            </p>
+            <ul className="mt-1 space-y-1">
+              {section.items.map((item) => {
+                const check = checklist.checks?.[item.id];
+                const needsPhoto = !!item.photoRequired && !check?.photoUrl;
+                const inputId = `${checklist.id}-${item.id}`;
+
+                return (
+                  <li key={item.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      id={inputId}
+                      checked={!!check && !needsPhoto}
+                      disabled={readOnly || busyItemId === item.id}
+                      onCheckedChange={(value) => toggle(item, value === true)}
+                    />
+                    <label
+                      htmlFor={inputId}
+                      className={cn("flex-1", check && !needsPhoto && "text-muted-foreground line-through")}
+                    >
+                      {item.label}
+                    </label>
+                    {item.photoRequired &&
+                      (check?.photoUrl ? (
+                        <a
+                          href={check.photoUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-emerald-700 underline"
+                        >
+                          Photo
+                        </a>
+                      ) : (
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          className="h-7 px-2 text-xs"
+                          disabled={readOnly || busyItemId === item.id}
+                          onClick={() => toggle(item, true)}
+                        >
+                          <Camera className="mr-1 h-3 w-3" />
+                          Photo required
+                        </Button>
+                      ))}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <input
+        ref={photoInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={handlePhoto}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import type { Employee, Site, VisitPhoto, VisitPhotoKind } from "@/shared/types/domain";
+import { uuid } from "@/lib/time-utils";
+import { getPhotoLocation, uploadVisitPhoto } from "@/features/visit-photos/visit-photos";
+import { useToast } from "@/hooks/use-toast";
+import { Camera, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface VisitPhotoCaptureProps {
+  companyId: string;
+  employee: Employee;
+  site: Site;
+  entryId: string; // clock-in entry of the active session
+  scheduleId?: string;
+  scheduleDate: string;
+  photos: VisitPhoto[]; // already taken for this visit
+  disabled?: boolean;
+  onAdd: (photo: VisitPhoto) => Promise<void>;
+}
+
+export function VisitPhotoCapture({
+  companyId,
+  employee,
+  site,
+  entryId,
+  scheduleId,
+  scheduleDate,
+  photos,
+  disabled = false,
+  onAdd,
+}: VisitPhotoCaptureProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [kind, setKind] = useState<VisitPhotoKind>("before");
+  const [uploading, setUploading] = useState(false);
+
+  const pick = (next: VisitPhotoKind) => {
+    setKind(next);
+    inputRef.current?.click();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const takenAt = Date.now();
+      const location = await getPhotoLocation();
+      const id = uuid();
+      const uploaded = await uploadVisitPhoto({
+        companyId,
+        photoId: id,
+        scheduleDate,
+        file,
+        takenAt,
+        location,
+      });
+
+      await onAdd({
+        id,
+        entryId,
+        scheduleId: scheduleId ?? null,
+        scheduleDate,
+        siteId: site.id ?? null,
+        siteName: site.name,
+        employeeId: employee.id,
+        employeeName: employee.name,
+        kind,
+        ...uploaded,
+        takenAt,
+        lat: location?.lat ?? null,
+        lng: location?.lng ?? null,
+        accuracyMeters: location?.accuracyMeters ?? null,
+        includeInClientReport: false,
+      });
+    } catch (error) {
+      console.error("Visit photo upload failed:", error);
+      toast({
+        variant: "destructive",
+        title: "Photo upload failed",
+        description: "Please try again when you have a connection.",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const count = (k: VisitPhotoKind) => photos.filter((p) => p.kind === k).length;
+
+  return (
+    <>
+      {(["before", "after"] as const).map((k) => (
+        <Button
+          key={k}
+          size="sm"
+          variant="outline"
+          disabled={disabled || uploading}
+          onClick={() => pick(k)}
+        >
+          {uploading && kind === k ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Camera className="mr-2 h-4 w-4" />
+          )}
+          {k === "before" ? "Before" : "After"} Photo
+          {count(k) > 0 && ` (${count(k)})`}
+        </Button>
+      ))}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={handleFile}
+      />
+    </>
+  );
+}
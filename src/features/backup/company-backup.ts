@@ -0,0 +1,409 @@
+import {
+  collection,
+  deleteField,
+  doc,
+  documentId,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  startAfter,
+  writeBatch,
+  type CollectionReference,
+  type DocumentReference,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { getBlob, getDownloadURL, ref, uploadBytes } from "firebase/storage";
+import { db, storage } from "@/firebase/client";
+import { cleanForFirestore } from "@/lib/firestore-utils";
+import { writeCloudSettings } from "@/lib/cloud-settings";
+import { splitEmployeePrivate } from "@/lib/member-auth";
+import {
+  BACKUP_COLLECTIONS,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  backupFileName,
+  decodeBackupValue,
+  encodeBackupValue,
+  type BackupArchive,
+  type BackupDoc,
+  type BackupFile,
+} from "@/lib/backup";
+import type { MigrationData } from "@/lib/migrations";
+import type { Settings } from "@/shared/types/domain";
+
+/*
+ * Reading and writing src/lib/backup archives for both engines. A restore
+ * only writes: documents in the archive overwrite those with the same id
+ * and nothing else in the company is deleted.
+ */
+
+const PAGE_SIZE = 1000;
+const BATCH_SIZE = 450; // Firestore allows 500 writes per batch
+
+// What the local engine keeps (src/lib/storage.ts), plus overrides held in memory
+export type LocalBackupData = Omit<MigrationData, "settings">;
+
+// Settings that belong to this install, never to an archive
+const withInstallSettings = (archived: Settings, current: Settings, companyId: string): Settings => ({
+  ...archived,
+  engine: current.engine,
+  firebaseConfig: current.firebaseConfig,
+  companyId,
+});
+
+function archiveSettings(settings: Settings) {
+  const toSave = { ...settings };
+  delete toSave.firebaseConfig;
+  return encodeBackupValue(toSave) as Settings;
+}
+
+// ---------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------
+
+function blobToBase64(bytes: Uint8Array) {
+  let binary = "";
+  // Chunked so large receipts don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(data: string) {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function downloadBackup(archive: BackupArchive) {
+  const blob = new Blob([JSON.stringify(archive)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = backupFileName(archive);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+
+  URL.revokeObjectURL(url);
+}
+
+// ---------------------------------------------------------------
+// Cloud
+// ---------------------------------------------------------------
+
+async function readPages(ref: CollectionReference): Promise<QueryDocumentSnapshot[]> {
+  const rows: QueryDocumentSnapshot[] = [];
+  let last: QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    const page = last
+      ? query(ref, orderBy(documentId()), startAfter(last), limit(PAGE_SIZE))
+      : query(ref, orderBy(documentId()), limit(PAGE_SIZE));
+    const snap = await getDocs(page);
+    rows.push(...snap.docs);
+    if (snap.size < PAGE_SIZE) return rows;
+    last = snap.docs[snap.docs.length - 1];
+  }
+}
+
+async function readBackupDocs(ref: CollectionReference, subs: string[] = []): Promise<BackupDoc[]> {
+  const snaps = await readPages(ref);
+  const docs: BackupDoc[] = [];
+
+  // One parent at a time; subcollections are small but there can be many parents
+  for (const snap of snaps) {
+    const row: BackupDoc = { id: snap.id, data: encodeBackupValue(snap.data()) as BackupDoc["data"] };
+    if (subs.length) {
+      row.sub = {};
+      for (const name of subs) {
+        row.sub[name] = await readBackupDocs(collection(snap.ref, name));
+      }
+    }
+    docs.push(row);
+  }
+  return docs;
+}
+
+/**
+ * Reads the whole company. Settings come from the app, already merged
+ * with the site directory and private fields; employee PINs and bank
+ * details are merged back into each employee.
+ */
+export async function exportCloudBackup(
+  companyId: string,
+  settings: Settings,
+  schemaVersion: number
+): Promise<{ archive: BackupArchive; warnings: string[] }> {
+  const warnings: string[] = [];
+  const col = (name: string) => collection(db, "companies", companyId, name);
+  const collections: BackupArchive["collections"] = {};
+
+  for (const spec of BACKUP_COLLECTIONS) {
+    collections[spec.name] = await readBackupDocs(col(spec.name), spec.sub);
+  }
+
+  const privates = new Map((await readPages(col("employee_private"))).map((d) => [d.id, d.data()]));
+  collections.employees = collections.employees?.map((d) => ({
+    ...d,
+    data: { ...d.data, ...(encodeBackupValue(privates.get(d.id) ?? {}) as BackupDoc["data"]) },
+  }));
+
+  const files: BackupFile[] = [];
+  for (const d of collections.other_expenses ?? []) {
+    const path = d.data.receiptPath;
+    if (typeof path !== "string" || !path) continue;
+    try {
+      const blob = await getBlob(ref(storage, path));
+      files.push({
+        path,
+        contentType: blob.type || undefined,
+        data: blobToBase64(new Uint8Array(await blob.arrayBuffer())),
+      });
+    } catch (e: any) {
+      warnings.push(`Receipt for expense ${d.id} could not be read (${e?.code ?? e?.message}).`);
+    }
+  }
+
+  return {
+    archive: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      schemaVersion,
+      exportedAt: new Date().toISOString(),
+      companyId,
+      engine: "cloud",
+      settings: archiveSettings(settings),
+      collections,
+      files,
+    },
+    warnings,
+  };
+}
+
+type PendingWrite = { ref: DocumentReference; data: Record<string, unknown> };
+
+function collectWrites(parent: CollectionReference, docs: BackupDoc[], out: PendingWrite[]) {
+  for (const d of docs) {
+    const docRef = doc(parent, d.id);
+    out.push({ ref: docRef, data: d.data });
+    for (const [name, list] of Object.entries(d.sub ?? {})) {
+      collectWrites(collection(docRef, name), list, out);
+    }
+  }
+}
+
+/**
+ * Restores an archive (already retargeted to `companyId`) into the cloud.
+ * Receipts are uploaded again under the restoring user, then documents
+ * are written in batches and the company takes the archive's schema
+ * version so pending migrations run on the restored data.
+ */
+export async function restoreCloudBackup(
+  archive: BackupArchive,
+  companyId: string,
+  currentSettings: Settings,
+  uid: string,
+  onProgress?: (written: number, total: number) => void
+): Promise<string[]> {
+  const notes: string[] = [];
+  const col = (name: string) => collection(db, "companies", companyId, name);
+
+  // Old receipt path -> new location
+  const receipts = new Map<string, { receiptPath: string; receiptUrl: string }>();
+  for (const file of archive.files) {
+    const name = file.path.split("/").pop() || "receipt";
+    const path = `companies/${companyId}/receipts/${uid}/${name}`;
+    try {
+      const snap = await uploadBytes(ref(storage, path), base64ToBytes(file.data), {
+        contentType: file.contentType,
+      });
+      receipts.set(file.path, { receiptPath: path, receiptUrl: await getDownloadURL(snap.ref) });
+    } catch (e: any) {
+      notes.push(`Receipt ${name} could not be uploaded (${e?.code ?? e?.message}).`);
+    }
+  }
+
+  const writes: PendingWrite[] = [];
+  for (const spec of BACKUP_COLLECTIONS) {
+    const docs = archive.collections[spec.name];
+    if (!docs?.length) continue;
+
+    if (spec.name === "employees") {
+      for (const d of docs) {
+        const { publicData, privateData } = splitEmployeePrivate(d.data);
+        writes.push({ ref: doc(col("employees"), d.id), data: publicData });
+        if (Object.keys(privateData).length) {
+          writes.push({ ref: doc(col("employee_private"), d.id), data: privateData });
+        }
+      }
+      continue;
+    }
+
+    if (spec.name === "other_expenses") {
+      collectWrites(
+        col(spec.name),
+        docs.map((d) => {
+          const moved = receipts.get(String(d.data.receiptPath));
+          return moved ? { ...d, data: { ...d.data, ...moved } } : d;
+        }),
+        writes
+      );
+      continue;
+    }
+
+    // Audit rows are append-only (firestore.rules); ones already here stay
+    // as they are, and restored ones name who restored them
+    if (spec.name === "timeclock_audit") {
+      const existing = new Set((await readPages(col(spec.name))).map((d) => d.id));
+      collectWrites(
+        col(spec.name),
+        docs
+          .filter((d) => !existing.has(d.id))
+          .map((d) => ({ ...d, data: { ...d.data, restoredByUid: uid } })),
+        writes
+      );
+      continue;
+    }
+
+    collectWrites(col(spec.name), docs, writes);
+  }
+
+  await writeCloudSettings(
+    db,
+    companyId,
+    withInstallSettings(decodeBackupValue(archive.settings) as Settings, currentSettings, companyId),
+    uid
+  );
+
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    writes
+      .slice(i, i + BATCH_SIZE)
+      .forEach((w) =>
+        batch.set(w.ref, cleanForFirestore(decodeBackupValue(w.data) as Record<string, unknown>))
+      );
+    await batch.commit();
+    onProgress?.(Math.min(i + BATCH_SIZE, writes.length), writes.length);
+  }
+
+  await setDoc(
+    doc(db, "companies", companyId),
+    { schemaVersion: archive.schemaVersion, migration: deleteField() },
+    { merge: true }
+  );
+
+  return notes;
+}
+
+// ---------------------------------------------------------------
+// Local
+// ---------------------------------------------------------------
+
+const toBackupDocs = (rows: { id: string }[]): BackupDoc[] =>
+  rows.map((row) => ({ id: row.id, data: encodeBackupValue(row) as BackupDoc["data"] }));
+
+// Local records are plain JSON, so timestamps are kept as millis
+const fromBackupDocs = <T>(docs: BackupDoc[] = []): T[] =>
+  docs.map((d) => ({ ...(decodeBackupValue(d.data, (ms) => ms) as object), id: d.id }) as T);
+
+export function exportLocalBackup(
+  companyId: string,
+  settings: Settings,
+  schemaVersion: number,
+  data: LocalBackupData
+): BackupArchive {
+  const overridesBySchedule = new Map<string, BackupDoc[]>();
+  for (const o of data.occurrenceOverrides) {
+    const list = overridesBySchedule.get(o.scheduleId) ?? [];
+    list.push({ id: o.id, data: encodeBackupValue(o) as BackupDoc["data"] });
+    overridesBySchedule.set(o.scheduleId, list);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion,
+    exportedAt: new Date().toISOString(),
+    companyId,
+    engine: "local",
+    settings: archiveSettings(settings),
+    collections: {
+      employees: toBackupDocs(data.employees),
+      schedules: toBackupDocs(data.schedules).map((d) => {
+        const overrides = overridesBySchedule.get(d.id);
+        return overrides ? { ...d, sub: { occurrence_overrides: overrides } } : d;
+      }),
+      timeclock_entries: toBackupDocs(data.entries),
+      invoices: toBackupDocs(data.invoices),
+      other_expenses: toBackupDocs(data.otherExpenses),
+      mileage_logs: toBackupDocs(data.mileageLogs),
+      payroll_periods: toBackupDocs(data.payrollPeriods),
+    },
+    files: [],
+  };
+}
+
+/**
+ * Reads what the local engine keeps from a backup, for the caller to
+ * store, and lists what it had to leave out. Receipt files stay in the
+ * cloud; expenses keep their old links.
+ */
+export function restoreLocalBackup(
+  archive: BackupArchive,
+  companyId: string,
+  currentSettings: Settings
+): { settings: Settings; data: LocalBackupData; notes: string[] } {
+  const notes: string[] = [];
+  const { collections } = archive;
+
+  const schedules = collections.schedules ?? [];
+  const data: LocalBackupData = {
+    employees: fromBackupDocs(collections.employees),
+    schedules: fromBackupDocs(schedules),
+    occurrenceOverrides: fromBackupDocs(
+      schedules.flatMap((d) => d.sub?.occurrence_overrides ?? [])
+    ),
+    entries: fromBackupDocs(collections.timeclock_entries),
+    invoices: fromBackupDocs(collections.invoices),
+    otherExpenses: fromBackupDocs(collections.other_expenses),
+    mileageLogs: fromBackupDocs(collections.mileage_logs),
+    payrollPeriods: fromBackupDocs(collections.payroll_periods),
+  };
+
+  const skipped = BACKUP_COLLECTIONS.filter(
+    (spec) => !spec.local && collections[spec.name]?.length
+  ).map((spec) => spec.label);
+  if (skipped.length) {
+    notes.push(`Not kept by the local engine: ${skipped.join(", ")}.`);
+  }
+  const payments = (collections.invoices ?? []).some((d) => d.sub?.payments?.length);
+  const confirmations = (collections.payroll_periods ?? []).some((d) => d.sub?.confirmations?.length);
+  if (payments || confirmations) {
+    notes.push("Invoice payments and payroll confirmations are only kept by the cloud engine.");
+  }
+  if (archive.files.length) {
+    notes.push(
+      `${archive.files.length} receipt file(s) were not restored; expenses keep their links to the original copies.`
+    );
+  }
+
+  const settings = withInstallSettings(
+    decodeBackupValue(archive.settings, (ms) => ms) as Settings,
+    currentSettings,
+    companyId
+  );
+  return {
+    settings: {
+      ...settings,
+      meta: { ...settings.meta, schemaVersion: archive.schemaVersion, migration: null },
+    },
+    data,
+    notes,
+  };
+}
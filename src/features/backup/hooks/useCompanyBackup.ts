@@ -0,0 +1,127 @@
+import { useCallback, useState } from "react";
+import type { Settings } from "@/shared/types/domain";
+import { checkBackup, retargetBackup, type BackupArchive, type BackupCheck } from "@/lib/backup";
+import {
+  downloadBackup,
+  exportCloudBackup,
+  exportLocalBackup,
+  restoreCloudBackup,
+  restoreLocalBackup,
+  type LocalBackupData,
+} from "../company-backup";
+import { auth } from "@/firebase/client";
+import { useToast } from "@/hooks/use-toast";
+import { errorEmitter } from "@/firebase/error-emitter";
+import { FirestorePermissionError } from "@/firebase/errors";
+
+type Options = {
+  engine: "cloud" | "local";
+  companyId: string;
+  settings: Settings;
+  updateSettings: (updater: (s: Settings) => Settings) => void;
+  schemaVersion: number;
+  // Local engine only; setLocalData stores the rows
+  localData: LocalBackupData;
+  setLocalData: (data: LocalBackupData) => void;
+};
+
+export type BackupRestore = { notes: string[] };
+
+/**
+ * Export and restore of the whole company as a src/lib/backup archive.
+ */
+export function useCompanyBackup({
+  engine,
+  companyId,
+  settings,
+  updateSettings,
+  schemaVersion,
+  localData,
+  setLocalData,
+}: Options) {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<{ written: number; total: number } | null>(null);
+
+  const fail = useCallback(
+    (title: string, e: { code?: string; message?: string }, operation: "list" | "create") => {
+      if (e?.code === "permission-denied") {
+        errorEmitter.emit(
+          "permission-error",
+          new FirestorePermissionError({ path: `companies/${companyId}`, operation })
+        );
+      }
+      toast({ variant: "destructive", title, description: e?.message, duration: 9000 });
+    },
+    [companyId, toast]
+  );
+
+  const exportBackup = useCallback(async () => {
+    setBusy(true);
+    try {
+      const { archive, warnings } =
+        engine === "cloud"
+          ? await exportCloudBackup(companyId, settings, schemaVersion)
+          : { archive: exportLocalBackup(companyId, settings, schemaVersion, localData), warnings: [] };
+
+      downloadBackup(archive);
+      updateSettings((s) => ({ ...s, lastBackupAt: archive.exportedAt }));
+      toast({
+        title: "Backup downloaded",
+        description: warnings.length ? warnings.join(" ") : undefined,
+        duration: warnings.length ? 9000 : undefined,
+      });
+    } catch (e: any) {
+      fail("Backup failed", e, "list");
+    } finally {
+      setBusy(false);
+    }
+  }, [engine, companyId, settings, schemaVersion, localData, updateSettings, toast, fail]);
+
+  const readBackup = useCallback(async (file: File): Promise<BackupCheck> => {
+    try {
+      return checkBackup(JSON.parse(await file.text()));
+    } catch {
+      return { archive: null, errors: ["The file is not valid JSON."], warnings: [] };
+    }
+  }, []);
+
+  /**
+   * Restores into `targetCompanyId` (this company unless given). Cloud
+   * restores need manager access to the target company.
+   */
+  const restoreBackup = useCallback(
+    async (archive: BackupArchive, targetCompanyId = companyId): Promise<BackupRestore> => {
+      const target = targetCompanyId.trim() || companyId;
+      const retargeted = retargetBackup(archive, target);
+
+      setBusy(true);
+      try {
+        if (engine === "local") {
+          const restored = restoreLocalBackup(retargeted, target, settings);
+          setLocalData(restored.data);
+          updateSettings(() => restored.settings);
+          return { notes: restored.notes };
+        }
+
+        const uid = auth.currentUser?.uid;
+        if (!uid) throw new Error("Not signed in");
+        const notes = await restoreCloudBackup(retargeted, target, settings, uid, (written, total) =>
+          setProgress({ written, total })
+        );
+        return { notes };
+      } catch (e: any) {
+        fail("Restore failed", e, "create");
+        throw e;
+      } finally {
+        setBusy(false);
+        setProgress(null);
+      }
+    },
+    [engine, companyId, settings, setLocalData, updateSettings, fail]
+  );
+
+  return { engine, companyId, busy, progress, exportBackup, readBackup, restoreBackup };
+}
+
+export type CompanyBackup = ReturnType<typeof useCompanyBackup>;
@@ -0,0 +1,56 @@
+import { httpsCallable } from "firebase/functions";
+import { collection, deleteDoc, doc, onSnapshot } from "firebase/firestore";
+import { app, db, functions } from "@/firebase/client";
+import type { CalendarFeed } from "@/shared/types/domain";
+
+/**
+ * Base URL of the calendarFeed function. NEXT_PUBLIC_CALENDAR_FEED_URL
+ * overrides it, e.g. for a hosting rewrite on the app's own domain.
+ */
+const feedBaseUrl = () =>
+  process.env.NEXT_PUBLIC_CALENDAR_FEED_URL ||
+  `https://us-central1-${app.options.projectId}.cloudfunctions.net/calendarFeed`;
+
+export const calendarFeedUrl = (companyId: string, feedId: string) =>
+  `${feedBaseUrl()}/${encodeURIComponent(companyId)}/${feedId}.ics`;
+
+/**
+ * webcal:// makes Apple Calendar and most phones offer to subscribe.
+ */
+export const calendarFeedSubscribeUrl = (companyId: string, feedId: string) =>
+  calendarFeedUrl(companyId, feedId).replace(/^https?:/, "webcal:");
+
+/**
+ * Returns the feed id for an employee or site, creating the feed on
+ * first use (server side, so the token is never chosen by a client).
+ */
+export async function createCalendarFeed(
+  companyId: string,
+  kind: CalendarFeed["kind"],
+  targetId: string
+) {
+  const call = httpsCallable<
+    { companyId: string; kind: CalendarFeed["kind"]; targetId: string },
+    { id: string }
+  >(functions, "createCalendarFeed");
+  const result = await call({ companyId, kind, targetId });
+  return result.data.id;
+}
+
+export function watchCalendarFeeds(
+  companyId: string,
+  onChange: (feeds: CalendarFeed[]) => void,
+  onError?: (e: Error) => void
+) {
+  return onSnapshot(
+    collection(db, "companies", companyId, "calendar_feeds"),
+    (snap) =>
+      onChange(
+        snap.docs.map((d) => ({ ...(d.data() as Omit<CalendarFeed, "id">), id: d.id }))
+      ),
+    onError
+  );
+}
+
+export const revokeCalendarFeed = (companyId: string, feedId: string) =>
+  deleteDoc(doc(db, "companies", companyId, "calendar_feeds", feedId));
@@ -0,0 +1,24 @@
+import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
+import { storage } from "@/firebase/client";
+import { compressImage } from "@/lib/image-compress";
+import { photoStamp } from "@/features/visit-photos/visit-photos";
+
+export async function uploadChecklistPhoto(args: {
+  companyId: string;
+  visitId: string;
+  itemId: string;
+  file: File;
+}) {
+  const { companyId, visitId, itemId, file } = args;
+
+  const { blob } = await compressImage(file, { stamp: photoStamp(Date.now()) });
+  const path = `companies/${companyId}/visit_checklists/${visitId}/${itemId}-${Date.now()}.jpg`;
+
+  const snap = await uploadBytes(ref(storage, path), blob, {
+    contentType: "image/jpeg",
+  });
+
+  const url = await getDownloadURL(snap.ref);
+
+  return { photoUrl: url, photoPath: path };
+}
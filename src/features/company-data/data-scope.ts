@@ -0,0 +1,115 @@
+import { where } from "firebase/firestore";
+import { format, subDays } from "date-fns";
+import { isManagerRole, type MemberAccess } from "@/lib/member-auth";
+import type { Repos } from "@/lib/repositories";
+import type { SnapshotErrorHandler } from "./hooks/useCompanyCollection";
+
+// Manager tabs (manager-view.tsx); the dashboard opens with the manager view
+const MANAGER_VIEWS = [
+  "dashboard",
+  "liveMap",
+  "requests",
+  "missedClockouts",
+  "messages",
+  "schedule",
+  "serviceReport",
+  "sites",
+  "invoices",
+  "financials",
+  "mileage",
+  "otherExpenses",
+  "employees",
+  "payroll",
+  "employeeView",
+  "settings",
+] as const;
+
+// Views that need a collection; it is listened to once one of them opens
+export type DataView =
+  | "employee" // an employee is signed in on the employee screen
+  | (typeof MANAGER_VIEWS)[number];
+
+// Manager-only collections, and the few employees share, by the views showing them
+export const VIEWS_NEEDING = {
+  // With "employee", a manager's device running the employee screen
+  companyEntries: ["employee", ...MANAGER_VIEWS],
+  entryAudits: ["dashboard"],
+  mileageLogs: ["dashboard", "financials", "mileage"],
+  otherExpenses: ["dashboard", "financials", "otherExpenses"],
+  payrollPeriods: ["employee", "financials", "payroll", "employeeView"],
+  invoices: ["financials"],
+  invoicePayments: ["financials"],
+  serviceFeedbacks: ["dashboard", "serviceReport"],
+  payrollConfirmations: ["employee", "payroll", "employeeView"],
+  visitChecklists: ["employee", "serviceReport"],
+} satisfies Record<string, readonly DataView[]>;
+
+/**
+ * Who the company data hooks load for: the engine, the signed-in role
+ * and the views opened so far. Employees may only list their own
+ * records in most collections, managers the whole company.
+ */
+export type DataScope = {
+  engine: "cloud" | "local";
+  repos: Repos;
+  companyId: string;
+  // Listening to Firestore at all, as a company member, and as a manager
+  cloud: boolean;
+  member: boolean;
+  manager: boolean;
+  // Set for employees; their queries are limited to their own records
+  ownEmployeeId: string | null;
+  // Day granularity, so scoped queries re-subscribe at most once a day
+  today: string;
+  openedViews: ReadonlySet<DataView>;
+  onError: SnapshotErrorHandler;
+};
+
+export function companyDataScope({
+  engine,
+  repos,
+  companyId,
+  ready,
+  access,
+  openedViews,
+  onError,
+}: {
+  engine: "cloud" | "local";
+  repos: Repos;
+  companyId: string;
+  // Signed in and settings loaded
+  ready: boolean;
+  access: MemberAccess;
+  openedViews: ReadonlySet<DataView>;
+  onError: SnapshotErrorHandler;
+}): DataScope {
+  const cId = (companyId || "").trim().toLowerCase().replace(/\s+/g, "-");
+  const cloud = engine === "cloud" && ready && !!cId;
+
+  // Everything but the employee directory requires a company role (firestore.rules)
+  const isManager = isManagerRole(access.role);
+  const ownEmployeeId = isManager ? null : access.employeeId;
+
+  return {
+    engine,
+    repos,
+    companyId: cId,
+    cloud,
+    member: cloud && (isManager || !!ownEmployeeId),
+    manager: cloud && isManager,
+    ownEmployeeId,
+    today: format(new Date(), "yyyy-MM-dd"),
+    openedViews,
+    onError,
+  };
+}
+
+// Employees may only list their own documents in most collections
+export const ownRecords = (scope: DataScope) =>
+  scope.ownEmployeeId ? [where("employeeId", "==", scope.ownEmployeeId)] : [];
+
+export const opened = (scope: DataScope, views: readonly DataView[]) =>
+  views.some((v) => scope.openedViews.has(v));
+
+export const daysAgo = (scope: DataScope, days: number) =>
+  format(subDays(new Date(scope.today + "T00:00:00"), days), "yyyy-MM-dd");
@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState, type Dispatch, type SetStateAction } from "react";
+import {
+  collection,
+  collectionGroup,
+  onSnapshot,
+  query,
+  where,
+  type DocumentData,
+  type FirestoreError,
+  type QueryConstraint,
+} from "firebase/firestore";
+import { db } from "@/firebase/client";
+import { recordListenerReads } from "../read-stats";
+
+export type SnapshotErrorHandler = (path: string, error: FirestoreError) => void;
+
+type Options<T> = {
+  companyId: string;
+  // Collection under companies/{companyId}; with `group`, a collection
+  // group filtered by a companyId field
+  path: string;
+  group?: boolean;
+  // Cloud engine with the access this query needs. Rows are cleared when
+  // a subscription ends, so the next viewer never sees them; they can
+  // still be set while disabled, which is how the local engine works
+  enabled: boolean;
+  constraints?: QueryConstraint[];
+  // Re-subscribes when it changes; constraints themselves are not compared
+  scopeKey?: string;
+  map?: (id: string, data: DocumentData) => T;
+  sort?: (a: T, b: T) => number;
+  onError?: SnapshotErrorHandler;
+};
+
+const defaultMap = <T>(id: string, data: DocumentData) => ({ id, ...data }) as T;
+
+// For collections whose stored id fields must not replace the document id
+export const docIdWins = <T>(id: string, data: DocumentData) => ({ ...data, id }) as T;
+
+/**
+ * Rows of one company collection, live from Firestore while `enabled`.
+ * Returns the rows, their setter and whether the first snapshot arrived.
+ */
+export function useCompanyCollection<T>({
+  companyId,
+  path,
+  group = false,
+  enabled,
+  constraints = [],
+  scopeKey = "",
+  map = defaultMap,
+  sort,
+  onError,
+}: Options<T>): [T[], Dispatch<SetStateAction<T[]>>, boolean] {
+  const [rows, setRows] = useState<T[]>([]);
+  // The subscription whose first snapshot arrived
+  const [loadedKey, setLoadedKey] = useState("");
+  const key = `${companyId}|${path}|${group}|${scopeKey}`;
+
+  // Read when subscribing; callers rebuild these every render. Declared
+  // before the listener effect, so it sees this render's values.
+  const latest = useRef({ constraints, map, sort, onError });
+  useEffect(() => {
+    latest.current = { constraints, map, sort, onError };
+  });
+
+  useEffect(() => {
+    if (!enabled || !companyId) return;
+
+    const { constraints, map, sort } = latest.current;
+    const source = group
+      ? query(collectionGroup(db, path), where("companyId", "==", companyId), ...constraints)
+      : query(collection(db, "companies", companyId, path), ...constraints);
+
+    const off = onSnapshot(
+      source,
+      (snap) => {
+        recordListenerReads(path, snap.docChanges().length);
+        const next = snap.docs.map((d) => map(d.id, d.data()));
+        setRows(sort ? next.sort(sort) : next);
+        setLoadedKey(key);
+      },
+      (error) => {
+        setLoadedKey("");
+        latest.current.onError?.(path, error);
+      }
+    );
+    return () => {
+      off();
+      setRows([]);
+    };
+  }, [enabled, companyId, path, group, key]);
+
+  return [rows, setRows, enabled && loadedKey === key];
+}
@@ -0,0 +1,39 @@
+import { useEffect } from "react";
+import { orderBy } from "firebase/firestore";
+import { loadLocalInvoices } from "@/lib/storage";
+import type { Invoice, InvoicePayment } from "@/shared/types/domain";
+import { opened, VIEWS_NEEDING, type DataScope } from "../data-scope";
+import { docIdWins, useCompanyCollection } from "./useCompanyCollection";
+
+/**
+ * Invoices, newest first, and the payments recorded against them, for
+ * the manager views that total them once one opens. The invoices tab
+ * itself keeps its own (useInvoices).
+ */
+export function useCompanyInvoices(scope: DataScope) {
+  const { companyId, manager, onError } = scope;
+
+  const [invoices, setInvoices] = useCompanyCollection<Invoice>({
+    companyId,
+    path: "invoices",
+    enabled: manager && opened(scope, VIEWS_NEEDING.invoices),
+    constraints: [orderBy("date", "desc")],
+    onError,
+  });
+
+  const [invoicePayments] = useCompanyCollection<InvoicePayment>({
+    companyId,
+    path: "payments",
+    group: true,
+    enabled: manager && opened(scope, VIEWS_NEEDING.invoicePayments),
+    map: docIdWins,
+    onError,
+  });
+
+  // Invoices have no repo on the local engine
+  useEffect(() => {
+    if (scope.engine === "local") setInvoices(loadLocalInvoices());
+  }, [scope.engine, setInvoices]);
+
+  return { invoices, setInvoices, invoicePayments };
+}
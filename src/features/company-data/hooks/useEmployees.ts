@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import { db } from "@/firebase/client";
+import { subscribeEmployeePrivates, subscribeOwnEmployeePrivate } from "@/lib/member-auth";
+import type { Employee, EmployeePrivate } from "@/shared/types/domain";
+import type { DataScope } from "../data-scope";
+import { useCompanyCollection } from "./useCompanyCollection";
+import { useRepoRows } from "./useRepoRows";
+
+/**
+ * The employee directory, public so the PIN login screen can list
+ * names, and the private fields the signed-in member may read: every
+ * employee's for managers, their own for an employee.
+ */
+export function useEmployees(scope: DataScope) {
+  const { companyId, member, manager, ownEmployeeId } = scope;
+
+  const [directory, setDirectory, syncedLoaded] = useCompanyCollection<Employee>({
+    companyId,
+    path: "employees",
+    enabled: scope.cloud,
+    onError: scope.onError,
+  });
+
+  const [privates, setPrivates] = useState<Map<string, EmployeePrivate>>(() => new Map());
+  useEffect(() => {
+    if (!member) return;
+    const off = manager
+      ? subscribeEmployeePrivates(db, companyId, setPrivates)
+      : ownEmployeeId
+        ? subscribeOwnEmployeePrivate(db, companyId, ownEmployeeId, (data) =>
+            setPrivates(data ? new Map([[ownEmployeeId, data]]) : new Map())
+          )
+        : null;
+    if (!off) return;
+    // PINs and bank details never outlive the access that read them
+    return () => {
+      off();
+      setPrivates(new Map());
+    };
+  }, [member, manager, companyId, ownEmployeeId]);
+
+  const localLoaded = useRepoRows({
+    repo: scope.repos.employees,
+    companyId,
+    enabled: scope.engine === "local",
+    setRows: setDirectory,
+  });
+
+  return { directory, privates, loaded: syncedLoaded || localLoaded };
+}
@@ -0,0 +1,49 @@
+import { orderBy, where } from "firebase/firestore";
+import type { Entry } from "@/shared/types/domain";
+import { daysAgo, opened, VIEWS_NEEDING, type DataScope } from "../data-scope";
+import { useCompanyCollection } from "./useCompanyCollection";
+import { useRepoRows } from "./useRepoRows";
+
+/*
+ * How far back entries load by default. Payroll periods up to a month
+ * long that ended in the window still have all their entries; views
+ * reaching further back ask for more through `range.from`.
+ */
+const EMPLOYEE_ENTRY_DAYS = 120;
+const MANAGER_ENTRY_DAYS = 120;
+
+/**
+ * Time entries, oldest first. Employees get their own (which is all
+ * firestore.rules lets them list) from the last EMPLOYEE_ENTRY_DAYS;
+ * managers the whole company's, once a view showing them opens, from
+ * MANAGER_ENTRY_DAYS ago or `range.from` if earlier.
+ */
+export function useEntries(scope: DataScope, range: { from?: string } = {}) {
+  const employeeId = scope.ownEmployeeId;
+  const defaultFrom = daysAgo(scope, employeeId ? EMPLOYEE_ENTRY_DAYS : MANAGER_ENTRY_DAYS);
+  const from = !employeeId && range.from && range.from < defaultFrom ? range.from : defaultFrom;
+  const sinceTs = new Date(from + "T00:00:00").getTime();
+
+  const [entries, setEntries, syncedLoaded] = useCompanyCollection<Entry>({
+    companyId: scope.companyId,
+    path: "timeclock_entries",
+    enabled: employeeId ? scope.member : scope.manager && opened(scope, VIEWS_NEEDING.companyEntries),
+    constraints: [
+      ...(employeeId ? [where("employeeId", "==", employeeId)] : []),
+      where("ts", ">=", sinceTs),
+      orderBy("ts", "asc"),
+    ],
+    scopeKey: `${employeeId ?? "*"}|${sinceTs}`,
+    sort: (a, b) => a.ts - b.ts,
+    onError: scope.onError,
+  });
+
+  const localLoaded = useRepoRows({
+    repo: scope.repos.entries,
+    companyId: scope.companyId,
+    enabled: scope.engine === "local",
+    setRows: setEntries,
+  });
+
+  return { entries, loaded: syncedLoaded || localLoaded };
+}
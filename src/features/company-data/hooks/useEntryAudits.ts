@@ -0,0 +1,35 @@
+import { useCallback } from "react";
+import { orderBy } from "firebase/firestore";
+import type { EntryAuditRecord } from "@/shared/types/domain";
+import { opened, VIEWS_NEEDING, type DataScope } from "../data-scope";
+import { useCompanyCollection } from "./useCompanyCollection";
+import { useRepoRows } from "./useRepoRows";
+
+const newestFirst = (a: EntryAuditRecord, b: EntryAuditRecord) => b.changedAt - a.changedAt;
+
+/**
+ * The audit trail of changes to time entries, newest first. Managers
+ * only, once a view showing it opens; the local engine keeps its own.
+ */
+export function useEntryAudits(scope: DataScope) {
+  const [entryAudits, setEntryAudits] = useCompanyCollection<EntryAuditRecord>({
+    companyId: scope.companyId,
+    path: "timeclock_audit",
+    enabled: scope.manager && opened(scope, VIEWS_NEEDING.entryAudits),
+    constraints: [orderBy("changedAt", "desc")],
+    onError: scope.onError,
+  });
+
+  const setLocalAudits = useCallback(
+    (rows: EntryAuditRecord[]) => setEntryAudits([...rows].sort(newestFirst)),
+    [setEntryAudits]
+  );
+  useRepoRows({
+    repo: scope.repos.entryAudits,
+    companyId: scope.companyId,
+    enabled: scope.engine === "local",
+    setRows: setLocalAudits,
+  });
+
+  return { entryAudits };
+}
@@ -0,0 +1,47 @@
+import { orderBy } from "firebase/firestore";
+import type { MileageLog, OtherExpense } from "@/shared/types/domain";
+import { opened, VIEWS_NEEDING, type DataScope } from "../data-scope";
+import { useCompanyCollection } from "./useCompanyCollection";
+import { useRepoRows } from "./useRepoRows";
+
+/**
+ * Mileage logs and other expenses, each listened to by managers once a
+ * view showing it opens. The local engine reads both from its repos.
+ */
+export function useExpenses(scope: DataScope) {
+  const { companyId, manager, onError } = scope;
+  const local = scope.engine === "local";
+
+  const [mileageLogs, setMileageLogs, mileageSynced] = useCompanyCollection<MileageLog>({
+    companyId,
+    path: "mileage_logs",
+    enabled: manager && opened(scope, VIEWS_NEEDING.mileageLogs),
+    onError,
+  });
+  const mileageLocal = useRepoRows({
+    repo: scope.repos.mileageLogs,
+    companyId,
+    enabled: local,
+    setRows: setMileageLogs,
+  });
+
+  const [otherExpenses, setOtherExpenses, expensesSynced] = useCompanyCollection<OtherExpense>({
+    companyId,
+    path: "other_expenses",
+    enabled: manager && opened(scope, VIEWS_NEEDING.otherExpenses),
+    constraints: [orderBy("date", "desc")],
+    onError,
+  });
+  const expensesLocal = useRepoRows({
+    repo: scope.repos.otherExpenses,
+    companyId,
+    enabled: local,
+    setRows: setOtherExpenses,
+  });
+
+  return {
+    mileageLogs,
+    otherExpenses,
+    loaded: (mileageSynced || mileageLocal) && (expensesSynced || expensesLocal),
+  };
+}
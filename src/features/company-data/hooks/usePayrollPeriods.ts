@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from "react";
+import { collection, onSnapshot, orderBy, query, where, type DocumentData } from "firebase/firestore";
+import { db } from "@/firebase/client";
+import type { PayrollConfirmation, PayrollPeriod, PayrollStatement } from "@/shared/types/domain";
+import { daysAgo, opened, VIEWS_NEEDING, type DataScope } from "../data-scope";
+import { recordListenerReads } from "../read-stats";
+import { useCompanyCollection } from "./useCompanyCollection";
+import { useRepoRows } from "./useRepoRows";
+
+// An employee's statement, shaped as a period holding only their line
+const statementToPeriod = (_id: string, data: DocumentData): PayrollPeriod => {
+  const { periodId, lineItem, startDate, endDate, status, revision, sentForConfirmationAt, paidAt } =
+    data as PayrollStatement;
+  return {
+    id: periodId,
+    startDate,
+    endDate,
+    status,
+    revision,
+    sentForConfirmationAt,
+    paidAt,
+    lineItems: [lineItem],
+  };
+};
+
+// How far back an employee's own payroll statements are loaded
+const EMPLOYEE_PAYROLL_DAYS = 90;
+
+/**
+ * Payroll periods, newest first, and their confirmations (one listener
+ * per period), each listened to once a view showing them opens.
+ * Employees get their own statements from the last
+ * EMPLOYEE_PAYROLL_DAYS, shaped as periods, and only their own
+ * confirmations.
+ */
+export function usePayrollPeriods(scope: DataScope) {
+  const { companyId, member, ownEmployeeId: employeeId, onError } = scope;
+  const enabled = member && (!!employeeId || opened(scope, VIEWS_NEEDING.payrollPeriods));
+  const withConfirmations = opened(scope, VIEWS_NEEDING.payrollConfirmations);
+  const sinceDate = employeeId ? daysAgo(scope, EMPLOYEE_PAYROLL_DAYS) : undefined;
+
+  const [payrollPeriods, setPayrollPeriods, syncedLoaded] = useCompanyCollection<PayrollPeriod>({
+    companyId,
+    path: employeeId ? "payroll_statements" : "payroll_periods",
+    enabled,
+    constraints: [
+      ...(employeeId ? [where("employeeId", "==", employeeId)] : []),
+      ...(sinceDate ? [where("endDate", ">=", sinceDate)] : []),
+      orderBy("endDate", "desc"),
+    ],
+    scopeKey: `${employeeId ?? "*"}|${sinceDate ?? ""}`,
+    map: employeeId ? statementToPeriod : undefined,
+    onError,
+  });
+  const localLoaded = useRepoRows({
+    repo: scope.repos.payrollPeriods,
+    companyId,
+    enabled: scope.engine === "local",
+    setRows: setPayrollPeriods,
+  });
+
+  const [payrollConfirmations, setPayrollConfirmations] = useState<PayrollConfirmation[]>([]);
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onErrorRef.current = onError;
+  });
+
+  const periodIds = payrollPeriods.map((p) => p.id).join("|");
+
+  useEffect(() => {
+    if (!enabled || !withConfirmations || !companyId || !periodIds) return;
+
+    const unsubs = periodIds.split("|").map((periodId) => {
+      const confirmationsRef = collection(
+        db, "companies", companyId, "payroll_periods", periodId, "confirmations"
+      );
+      return onSnapshot(
+        employeeId ? query(confirmationsRef, where("employeeId", "==", employeeId)) : confirmationsRef,
+        (snap) => {
+          recordListenerReads("payroll_periods/confirmations", snap.docChanges().length);
+          const periodConfirmations = snap.docs.map((d) => ({
+            ...(d.data() as PayrollConfirmation),
+            id: d.id,
+            periodId,
+          }));
+
+          setPayrollConfirmations((prev) => [
+            ...prev.filter((c) => c.periodId !== periodId),
+            ...periodConfirmations,
+          ]);
+        },
+        (error) => onErrorRef.current?.(`payroll_periods/${periodId}/confirmations`, error)
+      );
+    });
+
+    return () => unsubs.forEach((u) => u());
+  }, [enabled, withConfirmations, companyId, employeeId, periodIds]);
+
+  return {
+    payrollPeriods,
+    payrollConfirmations,
+    setPayrollConfirmations,
+    loaded: syncedLoaded || localLoaded,
+  };
+}
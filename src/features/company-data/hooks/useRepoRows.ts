@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import type { Repo } from "@/lib/repositories";
+
+/**
+ * Keeps `setRows` in step with a repo while `enabled`. The local engine
+ * reads its collections this way; a write through any instance of the
+ * repo reaches every subscriber. Returns whether rows have arrived.
+ */
+export function useRepoRows<T extends { id: string }>({
+  repo,
+  companyId,
+  enabled,
+  setRows,
+}: {
+  repo: Repo<T>;
+  companyId: string;
+  enabled: boolean;
+  setRows: (rows: T[]) => void;
+}) {
+  const [loadedFrom, setLoadedFrom] = useState<Repo<T> | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const off = repo.onChange((rows) => {
+      setRows(rows);
+      setLoadedFrom(repo);
+    });
+    const unwatch = repo.watchAll({ companyId });
+    return () => {
+      off();
+      unwatch();
+    };
+  }, [enabled, repo, companyId, setRows]);
+
+  return enabled && loadedFrom === repo;
+}
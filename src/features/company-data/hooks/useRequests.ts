@@ -0,0 +1,72 @@
+import { orderBy, where } from "firebase/firestore";
+import type {
+  EmployeeUpdateRequest,
+  ShiftSwap,
+  TimeCorrectionRequest,
+  TimeOffRequest,
+} from "@/shared/types/domain";
+import { daysAgo, ownRecords, type DataScope } from "../data-scope";
+import { useCompanyCollection } from "./useCompanyCollection";
+
+/**
+ * What employees ask managers for: profile updates, time corrections,
+ * time off and shift swaps. Employees see their own requests, and every
+ * recent swap since the open shifts board is shared.
+ */
+export function useRequests(scope: DataScope) {
+  const { companyId, member, onError } = scope;
+  const own = ownRecords(scope);
+  const ownKey = scope.ownEmployeeId ?? "*";
+
+  const [employeeUpdateRequests, setEmployeeUpdateRequests] =
+    useCompanyCollection<EmployeeUpdateRequest>({
+      companyId,
+      path: "employee_update_requests",
+      enabled: member,
+      constraints: scope.ownEmployeeId ? own : [orderBy("requestedAt", "desc")],
+      scopeKey: ownKey,
+      onError,
+    });
+
+  const [timeCorrectionRequests, setTimeCorrectionRequests] =
+    useCompanyCollection<TimeCorrectionRequest>({
+      companyId,
+      path: "time_correction_requests",
+      enabled: member,
+      constraints: own,
+      scopeKey: ownKey,
+      sort: (a, b) => (b.requestedAt?.toMillis?.() ?? 0) - (a.requestedAt?.toMillis?.() ?? 0),
+      onError,
+    });
+
+  const [timeOffRequests, setTimeOffRequests] = useCompanyCollection<TimeOffRequest>({
+    companyId,
+    path: "time_off_requests",
+    enabled: member,
+    constraints: own,
+    scopeKey: ownKey,
+    sort: (a, b) => b.startDate.localeCompare(a.startDate),
+    onError,
+  });
+
+  const [shiftSwaps, setShiftSwaps] = useCompanyCollection<ShiftSwap>({
+    companyId,
+    path: "shift_swaps",
+    enabled: member,
+    constraints: [where("scheduleDate", ">=", daysAgo(scope, 30))],
+    scopeKey: scope.today,
+    sort: (a, b) => a.scheduleDate.localeCompare(b.scheduleDate),
+    onError,
+  });
+
+  return {
+    employeeUpdateRequests,
+    setEmployeeUpdateRequests,
+    timeCorrectionRequests,
+    setTimeCorrectionRequests,
+    timeOffRequests,
+    setTimeOffRequests,
+    shiftSwaps,
+    setShiftSwaps,
+  };
+}
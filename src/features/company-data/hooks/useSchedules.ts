@@ -0,0 +1,41 @@
+import type { CleaningSchedule, OccurrenceOverride } from "@/shared/types/domain";
+import type { DataScope } from "../data-scope";
+import { docIdWins, useCompanyCollection } from "./useCompanyCollection";
+import { useRepoRows } from "./useRepoRows";
+
+/**
+ * Every schedule of the company and the changes made to single days of
+ * them. Employees get them all too: a team assignment, an occurrence
+ * override or a shift swap can put them on a series they are not in.
+ */
+export function useSchedules(scope: DataScope) {
+  const [schedules, setSchedules, syncedLoaded] = useCompanyCollection<CleaningSchedule>({
+    companyId: scope.companyId,
+    path: "schedules",
+    enabled: scope.member,
+    onError: scope.onError,
+  });
+
+  const [occurrenceOverrides, setOccurrenceOverrides] = useCompanyCollection<OccurrenceOverride>({
+    companyId: scope.companyId,
+    path: "occurrence_overrides",
+    group: true,
+    enabled: scope.member,
+    map: docIdWins,
+    onError: scope.onError,
+  });
+
+  const localLoaded = useRepoRows({
+    repo: scope.repos.schedules,
+    companyId: scope.companyId,
+    enabled: scope.engine === "local",
+    setRows: setSchedules,
+  });
+
+  return {
+    schedules,
+    occurrenceOverrides,
+    setOccurrenceOverrides,
+    loaded: syncedLoaded || localLoaded,
+  };
+}
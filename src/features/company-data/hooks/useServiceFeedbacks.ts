@@ -0,0 +1,28 @@
+import { orderBy } from "firebase/firestore";
+import type { ServiceFeedback } from "@/shared/types/domain";
+import { opened, VIEWS_NEEDING, type DataScope } from "../data-scope";
+import { useCompanyCollection } from "./useCompanyCollection";
+import { useRepoRows } from "./useRepoRows";
+
+/**
+ * Complaints and compliments logged against visits, newest visit first.
+ * Managers only, once a view showing them opens.
+ */
+export function useServiceFeedbacks(scope: DataScope) {
+  const [serviceFeedbacks, setServiceFeedbacks, syncedLoaded] = useCompanyCollection<ServiceFeedback>({
+    companyId: scope.companyId,
+    path: "service_feedbacks",
+    enabled: scope.manager && opened(scope, VIEWS_NEEDING.serviceFeedbacks),
+    constraints: [orderBy("scheduleDate", "desc")],
+    onError: scope.onError,
+  });
+
+  const localLoaded = useRepoRows({
+    repo: scope.repos.serviceFeedbacks,
+    companyId: scope.companyId,
+    enabled: scope.engine === "local",
+    setRows: setServiceFeedbacks,
+  });
+
+  return { serviceFeedbacks, loaded: syncedLoaded || localLoaded };
+}
@@ -0,0 +1,35 @@
+import { where } from "firebase/firestore";
+import type { VisitChecklist, VisitPhoto } from "@/shared/types/domain";
+import { daysAgo, opened, ownRecords, VIEWS_NEEDING, type DataScope } from "../data-scope";
+import { useCompanyCollection } from "./useCompanyCollection";
+
+/**
+ * Checklists and photos recorded on visits. Checklists are shared by the
+ * whole crew, so employees see every recent visit rather than only the
+ * ones they ticked; photos are their own.
+ */
+export function useVisitRecords(scope: DataScope) {
+  const { companyId, member, onError } = scope;
+  const ownKey = scope.ownEmployeeId ?? "*";
+
+  const [visitChecklists, setVisitChecklists] = useCompanyCollection<VisitChecklist>({
+    companyId,
+    path: "visit_checklists",
+    enabled: member && opened(scope, VIEWS_NEEDING.visitChecklists),
+    constraints: scope.ownEmployeeId ? [where("scheduleDate", ">=", daysAgo(scope, 14))] : [],
+    scopeKey: `${ownKey}|${scope.today}`,
+    onError,
+  });
+
+  const [visitPhotos, setVisitPhotos] = useCompanyCollection<VisitPhoto>({
+    companyId,
+    path: "visit_photos",
+    enabled: member,
+    constraints: ownRecords(scope),
+    scopeKey: ownKey,
+    sort: (a, b) => a.takenAt - b.takenAt,
+    onError,
+  });
+
+  return { visitChecklists, setVisitChecklists, visitPhotos, setVisitPhotos };
+}
@@ -0,0 +1,27 @@
+/*
+ * Documents delivered to each company listener this session. A first
+ * snapshot counts every document and later ones only what changed, which
+ * is roughly what Firestore bills as reads (cached results excepted).
+ * In development, run firestoreReads() in the console for a table.
+ */
+
+const reads = new Map<string, number>();
+
+export function recordListenerReads(path: string, count: number) {
+  if (!count) return;
+  reads.set(path, (reads.get(path) ?? 0) + count);
+}
+
+export function listenerReadStats() {
+  const byPath = Object.fromEntries(reads);
+  const total = Array.from(reads.values()).reduce((n, c) => n + c, 0);
+  return { total, byPath };
+}
+
+if (typeof window !== "undefined" && process.env.NODE_ENV !== "production") {
+  (window as unknown as { firestoreReads: () => number }).firestoreReads = () => {
+    const { total, byPath } = listenerReadStats();
+    console.table(byPath);
+    return total;
+  };
+}
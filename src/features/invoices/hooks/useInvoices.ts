@@ -1,5 +1,6 @@
-import { useEffect, useState } from "react";
-import type { Invoice } from "@/shared/types/domain";
+import { useEffect, useMemo, useState } from "react";
+import type { Invoice, InvoicePayment } from "@/shared/types/domain";
+import type { NewInvoicePayment } from "../repositories/types";
 import { useEngine } from "@/providers/EngineProvider";
 import { useCompany } from "@/providers/CompanyProvider";
 
@@ -7,19 +8,28 @@ export function useInvoices() {
   const { repo } = useEngine();
   const { companyId } = useCompany();
   const [data, setData] = useState<Invoice[]>([]);
+  const [payments, setPayments] = useState<InvoicePayment[]>([]);
   const [loading, setLoading] = useState(true);
 
+  // One instance per engine, so local writes reach the listeners below
+  const r = useMemo(() => repo.invoices(), [repo]);
+
   useEffect(() => {
-    const r = repo.invoices();
     const unsubBus = r.onChange(setData);
     const unsubFs = r.watchAll({ companyId });
+    const unsubPaymentsBus = r.onPaymentsChange(setPayments);
+    const unsubPaymentsFs = r.watchPayments({ companyId });
     setLoading(false);
-    return () => { unsubFs?.(); unsubBus?.(); };
-  }, [repo, companyId]);
+    return () => { unsubFs?.(); unsubBus?.(); unsubPaymentsFs?.(); unsubPaymentsBus?.(); };
+  }, [r, companyId]);
 
-  const create = (payload: Omit<Invoice, "id">) => repo.invoices().create(companyId, payload);
-  const update = (id: string, patch: Partial<Invoice>) => repo.invoices().update(companyId, id, patch);
-  const remove = (id: string) => repo.invoices().remove(companyId, id);
+  const create = (payload: Omit<Invoice, "id">) => r.create(companyId, payload);
+  const update = (id: string, patch: Partial<Invoice>) => r.update(companyId, id, patch);
+  const remove = (id: string) => r.remove(companyId, id);
+  const addPayment = (invoiceId: string, payment: NewInvoicePayment) =>
+    r.addPayment(companyId, invoiceId, payment);
+  const removePayment = (invoiceId: string, paymentId: string) =>
+    r.removePayment(companyId, invoiceId, paymentId);
 
-  return { invoices: data, create, update, remove, loading };
+  return { invoices: data, payments, create, update, remove, addPayment, removePayment, loading };
 }
@@ -0,0 +1,15 @@
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/firebase/client";
+
+/**
+ * Emails the invoice PDF to the site's billing contact (server side).
+ * Resolves to the address it was sent to.
+ */
+export async function sendInvoiceEmail(companyId: string, invoiceId: string) {
+  const call = httpsCallable<{ companyId: string; invoiceId: string }, { to: string }>(
+    functions,
+    "sendInvoiceEmail"
+  );
+  const result = await call({ companyId, invoiceId });
+  return result.data.to;
+}
@@ -1,19 +1,28 @@
 // src/features/invoices/repositories/FirestoreInvoicesRepo.ts
 import {
   collection,
+  collectionGroup,
   doc,
+  getDoc,
+  getDocs,
   onSnapshot,
+  query,
+  serverTimestamp,
   setDoc,
   updateDoc,
   deleteDoc,
+  where,
+  writeBatch,
   type Firestore,
 } from "firebase/firestore";
-import type { Invoice } from "@/shared/types/domain";
-import type { InvoicesRepo } from "./types";
+import type { Invoice, InvoicePayment } from "@/shared/types/domain";
+import type { InvoicesRepo, NewInvoicePayment } from "./types";
+import { LEGACY_PAYMENT_ID, legacyPaymentSeed, ledgerFields } from "@/lib/invoice-payments";
+import { cleanForFirestore } from "@/lib/firestore-utils";
 import mitt from "mitt";
 
 export class FirestoreInvoicesRepo implements InvoicesRepo {
-  private bus = mitt<{ change: Invoice[] }>();
+  private bus = mitt<{ change: Invoice[]; payments: InvoicePayment[] }>();
 
   constructor(private db: Firestore) {}
 
@@ -48,14 +57,87 @@ export class FirestoreInvoicesRepo implements InvoicesRepo {
     return updateDoc(doc(this.db, "companies", companyId, "invoices", id), patch);
   }
 
-  remove(companyId: string, id: string) {
-    return deleteDoc(doc(this.db, "companies", companyId, "invoices", id));
+  async remove(companyId: string, id: string) {
+    const invoiceRef = doc(this.db, "companies", companyId, "invoices", id);
+    const payments = await getDocs(collection(invoiceRef, "payments"));
+
+    // Subcollections outlive their parent doc, so drop the ledger too
+    const batch = writeBatch(this.db);
+    payments.docs.forEach((d) => batch.delete(d.ref));
+    batch.delete(invoiceRef);
+    await batch.commit();
+  }
+
+  onPaymentsChange(fn: (list: InvoicePayment[]) => void) {
+    this.bus.on("payments", fn);
+    return () => this.bus.off("payments", fn);
+  }
+
+  watchPayments({ companyId }: { companyId: string }) {
+    // Every invoice's ledger at once; companyId is stored on each row for this
+    const q = query(collectionGroup(this.db, "payments"), where("companyId", "==", companyId));
+
+    return onSnapshot(
+      q,
+      (snap) => {
+        const rows = snap.docs.map((d) => ({ ...d.data(), id: d.id } as InvoicePayment));
+        this.bus.emit("payments", rows);
+      },
+      (err) => {
+        console.error("[FirestoreInvoicesRepo] watchPayments failed:", err);
+      }
+    );
+  }
+
+  async addPayment(companyId: string, invoiceId: string, data: NewInvoicePayment) {
+    const paymentsRef = collection(this.db, "companies", companyId, "invoices", invoiceId, "payments");
+    const ref = doc(paymentsRef);
+    const payload: InvoicePayment = { ...data, id: ref.id, companyId, invoiceId };
+
+    const batch = writeBatch(this.db);
+    const { invoice, payments } = await this.readLedger(companyId, invoiceId);
+    const seed = invoice && legacyPaymentSeed(invoice, payments);
+    if (seed) {
+      batch.set(doc(paymentsRef, LEGACY_PAYMENT_ID), {
+        ...cleanForFirestore({ ...seed, id: LEGACY_PAYMENT_ID, companyId, invoiceId }),
+        createdAt: serverTimestamp(),
+      });
+    }
+    batch.set(ref, { ...cleanForFirestore(payload), createdAt: serverTimestamp() });
+    await batch.commit();
+
+    await this.syncLedger(companyId, invoiceId);
+    return payload;
+  }
+
+  async removePayment(companyId: string, invoiceId: string, paymentId: string) {
+    await deleteDoc(doc(this.db, "companies", companyId, "invoices", invoiceId, "payments", paymentId));
+    await this.syncLedger(companyId, invoiceId);
+  }
+
+  private async readLedger(companyId: string, invoiceId: string) {
+    const invoiceRef = doc(this.db, "companies", companyId, "invoices", invoiceId);
+    const [invoiceSnap, paymentsSnap] = await Promise.all([
+      getDoc(invoiceRef),
+      getDocs(collection(invoiceRef, "payments")),
+    ]);
+
+    const invoice = invoiceSnap.exists() ? ({ ...invoiceSnap.data(), id: invoiceSnap.id } as Invoice) : null;
+    const payments = paymentsSnap.docs.map((d) => ({ ...d.data(), id: d.id } as InvoicePayment));
+    return { invoiceRef, invoice, payments };
+  }
+
+  private async syncLedger(companyId: string, invoiceId: string) {
+    const { invoiceRef, invoice, payments } = await this.readLedger(companyId, invoiceId);
+    if (!invoice) return;
+    await updateDoc(invoiceRef, ledgerFields(invoice, payments));
   }
 }
 
 export class LocalInvoicesRepo implements InvoicesRepo {
   private key = "timewise.v1.invoices";
-  private bus = mitt<{ change: Invoice[] }>();
+  private paymentsKey = "timewise.v1.invoice_payments";
+  private bus = mitt<{ change: Invoice[]; payments: InvoicePayment[] }>();
 
   private read(): Invoice[] {
     try {
@@ -99,5 +181,59 @@ export class LocalInvoicesRepo implements InvoicesRepo {
   async remove(_companyId: string, id: string) {
     const v = this.read().filter((x) => x.id !== id);
     this.write(v);
+    this.writePayments(this.readPayments().filter((p) => p.invoiceId !== id));
+  }
+
+  private readPayments(): InvoicePayment[] {
+    try {
+      return JSON.parse(localStorage.getItem(this.paymentsKey) || "[]");
+    } catch {
+      return [];
+    }
+  }
+
+  private writePayments(v: InvoicePayment[]) {
+    try {
+      localStorage.setItem(this.paymentsKey, JSON.stringify(v));
+      this.bus.emit("payments", v);
+    } catch (e) {
+      console.error(e);
+    }
+  }
+
+  onPaymentsChange(fn: (list: InvoicePayment[]) => void) {
+    this.bus.on("payments", fn);
+    return () => this.bus.off("payments", fn);
+  }
+
+  watchPayments() {
+    setTimeout(() => this.bus.emit("payments", this.readPayments()), 5);
+    return () => {};
+  }
+
+  async addPayment(companyId: string, invoiceId: string, data: NewInvoicePayment) {
+    const row: InvoicePayment = { ...data, id: String(Date.now()), companyId, invoiceId };
+    const existing = this.readPayments();
+    const invoice = this.read().find((x) => x.id === invoiceId);
+    const seed =
+      invoice && legacyPaymentSeed(invoice, existing.filter((p) => p.invoiceId === invoiceId));
+    const seeded: InvoicePayment[] = seed
+      ? [{ ...seed, id: `${LEGACY_PAYMENT_ID}-${invoiceId}`, companyId, invoiceId }]
+      : [];
+    const payments = [...existing, ...seeded, row];
+    this.writePayments(payments);
+    this.syncLedger(invoiceId, payments);
+    return row;
+  }
+
+  async removePayment(_companyId: string, invoiceId: string, paymentId: string) {
+    const payments = this.readPayments().filter((p) => p.id !== paymentId);
+    this.writePayments(payments);
+    this.syncLedger(invoiceId, payments);
+  }
+
+  private syncLedger(invoiceId: string, payments: InvoicePayment[]) {
+    const ledger = payments.filter((p) => p.invoiceId === invoiceId);
+    this.write(this.read().map((x) => (x.id === invoiceId ? { ...x, ...ledgerFields(x, ledger) } : x)));
   }
 }
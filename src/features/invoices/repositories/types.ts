@@ -1,4 +1,6 @@
-import type { Invoice } from "@/shared/types/domain";
+import type { Invoice, InvoicePayment } from "@/shared/types/domain";
+
+export type NewInvoicePayment = Omit<InvoicePayment, "id" | "companyId" | "invoiceId" | "createdAt">;
 
 export interface InvoicesRepo {
   onChange(fn: (list: Invoice[]) => void): () => void;
@@ -6,4 +8,11 @@ export interface InvoicesRepo {
   create(companyId: string, data: Omit<Invoice, "id">): Promise<Invoice>;
   update(companyId: string, id: string, patch: Partial<Invoice>): Promise<void>;
   remove(companyId: string, id: string): Promise<void>;
+
+  // Payments ledger; adding or removing a row also refreshes the invoice's
+  // status, paidDate and balance fields
+  onPaymentsChange(fn: (list: InvoicePayment[]) => void): () => void;
+  watchPayments(opts: { companyId: string; }): () => void;
+  addPayment(companyId: string, invoiceId: string, data: NewInvoicePayment): Promise<InvoicePayment>;
+  removePayment(companyId: string, invoiceId: string, paymentId: string): Promise<void>;
 }
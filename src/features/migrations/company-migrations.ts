@@ -0,0 +1,188 @@
+import {
+  collection,
+  collectionGroup,
+  deleteField,
+  doc,
+  documentId,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  startAfter,
+  where,
+  writeBatch,
+  type CollectionReference,
+  type QueryDocumentSnapshot,
+  type WriteBatch,
+} from "firebase/firestore";
+import { auth, db } from "@/firebase/client";
+import { writeCloudSettings } from "@/lib/cloud-settings";
+import { cleanForFirestore } from "@/lib/firestore-utils";
+import { migrationBatches, type MigrationData, type MigrationOp, type PlannedMigration } from "@/lib/migrations";
+import type { CompanySchemaState, Settings } from "@/shared/types/domain";
+
+/*
+ * Cloud side of src/lib/migrations. Data is read fresh (not from the
+ * app's listeners) so a plan never runs against a half-loaded snapshot,
+ * and large collections are read in pages.
+ */
+
+const PAGE_SIZE = 1000;
+
+const companyRef = (companyId: string) => doc(db, "companies", companyId);
+
+export function watchSchemaState(
+  companyId: string,
+  onChange: (state: CompanySchemaState) => void,
+  onError?: (error: Error) => void
+) {
+  return onSnapshot(
+    companyRef(companyId),
+    (snap) => {
+      const data = snap.data() ?? {};
+      onChange({ schemaVersion: data.schemaVersion, migration: data.migration ?? null });
+    },
+    onError
+  );
+}
+
+async function readAll<T>(ref: CollectionReference): Promise<T[]> {
+  const rows: T[] = [];
+  let last: QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    const page = last
+      ? query(ref, orderBy(documentId()), startAfter(last), limit(PAGE_SIZE))
+      : query(ref, orderBy(documentId()), limit(PAGE_SIZE));
+    const snap = await getDocs(page);
+    rows.push(...snap.docs.map((d) => ({ ...d.data(), id: d.id } as T)));
+    if (snap.size < PAGE_SIZE) return rows;
+    last = snap.docs[snap.docs.length - 1];
+  }
+}
+
+/**
+ * Everything the migrations read. Settings come from the app since they
+ * are already merged with the site directory and private fields.
+ */
+export async function loadMigrationData(
+  companyId: string,
+  settings: Settings
+): Promise<MigrationData> {
+  const col = (name: string) => collection(db, "companies", companyId, name);
+
+  const [
+    schedules,
+    entries,
+    invoices,
+    mileageLogs,
+    otherExpenses,
+    employees,
+    payrollPeriods,
+    overridesSnap,
+  ] = await Promise.all([
+      readAll<MigrationData["schedules"][number]>(col("schedules")),
+      readAll<MigrationData["entries"][number]>(col("timeclock_entries")),
+      readAll<MigrationData["invoices"][number]>(col("invoices")),
+      readAll<MigrationData["mileageLogs"][number]>(col("mileage_logs")),
+      readAll<MigrationData["otherExpenses"][number]>(col("other_expenses")),
+      readAll<MigrationData["employees"][number]>(col("employees")),
+      readAll<MigrationData["payrollPeriods"][number]>(col("payroll_periods")),
+      getDocs(query(collectionGroup(db, "occurrence_overrides"), where("companyId", "==", companyId))),
+    ]);
+
+  return {
+    settings,
+    schedules,
+    entries,
+    invoices,
+    mileageLogs,
+    otherExpenses,
+    employees,
+    payrollPeriods,
+    occurrenceOverrides: overridesSnap.docs.map(
+      (d) => ({ ...d.data(), id: d.id } as MigrationData["occurrenceOverrides"][number])
+    ),
+  };
+}
+
+function writeOp(batch: WriteBatch, companyId: string, op: Exclude<MigrationOp, { type: "settings" }>) {
+  const ref = doc(db, `companies/${companyId}/${op.path}`);
+
+  switch (op.type) {
+    case "set":
+      batch.set(ref, cleanForFirestore(op.data));
+      return;
+    case "update":
+      batch.update(ref, {
+        ...cleanForFirestore(op.changes),
+        ...Object.fromEntries((op.removes ?? []).map((key) => [key, deleteField()])),
+      });
+      return;
+    case "delete":
+      batch.delete(ref);
+      return;
+  }
+}
+
+/**
+ * Writes one planned migration and then records its version. Each batch
+ * also saves a checkpoint, so an interrupted run shows how far it got;
+ * resuming is planning again, which leaves out what was written.
+ *
+ * Settings are written first and awaited: the documents may point at
+ * what they add (site ids), and a failed settings write fails the run.
+ * Returns the settings as the migration leaves them.
+ */
+export async function commitMigration(
+  companyId: string,
+  planned: PlannedMigration,
+  settings: Settings,
+  onProgress?: (committed: number, total: number) => void
+): Promise<Settings> {
+  const { migration, changes } = planned;
+  const total = changes.length;
+  let committed = 0;
+
+  let next = settings;
+  changes.forEach((change) =>
+    change.ops.forEach((op) => {
+      if (op.type === "settings") next = { ...next, ...op.changes };
+    })
+  );
+
+  if (next !== settings) {
+    const uid = auth.currentUser?.uid;
+    if (!uid) throw new Error("Sign in again to update the company settings.");
+    await writeCloudSettings(db, companyId, next, uid);
+  }
+
+  for (const group of migrationBatches(changes)) {
+    const batch = writeBatch(db);
+    group.forEach((change) =>
+      change.ops.forEach((op) => {
+        if (op.type !== "settings") writeOp(batch, companyId, op);
+      })
+    );
+
+    committed += group.length;
+    batch.set(
+      companyRef(companyId),
+      { migration: { version: migration.version, committed, total, updatedAt: serverTimestamp() } },
+      { merge: true }
+    );
+    await batch.commit();
+    onProgress?.(committed, total);
+  }
+
+  await setDoc(
+    companyRef(companyId),
+    { schemaVersion: migration.version, migration: deleteField() },
+    { merge: true }
+  );
+
+  return next;
+}
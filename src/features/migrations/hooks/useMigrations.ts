@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { CompanySchemaState, Settings } from "@/shared/types/domain";
+import {
+  applyMigrationOps,
+  pendingMigrations,
+  planMigrations,
+  schemaVersionOf,
+  type MigrationData,
+  type PlannedMigration,
+} from "@/lib/migrations";
+import { commitMigration, loadMigrationData, watchSchemaState } from "../company-migrations";
+import { useToast } from "@/hooks/use-toast";
+import { errorEmitter } from "@/firebase/error-emitter";
+import { FirestorePermissionError } from "@/firebase/errors";
+
+type Options = {
+  engine: "cloud" | "local";
+  companyId: string;
+  // Manager signed in (cloud) or local data loaded; nothing runs before
+  ready: boolean;
+  settings: Settings;
+  updateSettings: (updater: (s: Settings) => Settings) => void;
+  // Local engine only; setLocalData stores the rows
+  localData: Omit<MigrationData, "settings">;
+  setLocalData: (data: Omit<MigrationData, "settings">) => void;
+};
+
+export type MigrationRun = { planned: PlannedMigration[]; applied: boolean };
+
+/**
+ * Schema version, pending migrations, dry run and apply for the active
+ * company. Migrations marked auto are applied as soon as `ready`.
+ */
+export function useMigrations({
+  engine,
+  companyId,
+  ready,
+  settings,
+  updateSettings,
+  localData,
+  setLocalData,
+}: Options) {
+  const { toast } = useToast();
+  const [cloudState, setCloudState] = useState<CompanySchemaState | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<{ version: number; committed: number; total: number } | null>(
+    null
+  );
+
+  useEffect(() => {
+    setCloudState(null);
+    if (engine !== "cloud" || !ready || !companyId) return;
+    return watchSchemaState(companyId, setCloudState, (e) =>
+      console.error("[migrations] company doc listener failed", e)
+    );
+  }, [engine, ready, companyId]);
+
+  const meta = settings.meta;
+  const state: CompanySchemaState | null = engine === "cloud" ? cloudState : meta ?? null;
+  const schemaVersion = schemaVersionOf(state, meta);
+  const pending = useMemo(() => pendingMigrations(schemaVersion), [schemaVersion]);
+
+  const loadData = useCallback(
+    async (): Promise<MigrationData> =>
+      engine === "cloud"
+        ? loadMigrationData(companyId, settings)
+        : { ...localData, settings },
+    [engine, companyId, settings, localData]
+  );
+
+  const plan = useCallback(
+    async (autoOnly = false) =>
+      planMigrations(await loadData(), schemaVersion, { companyId }, { autoOnly }),
+    [loadData, schemaVersion, companyId]
+  );
+
+  const apply = useCallback(
+    async (planned: PlannedMigration[]) => {
+      if (!planned.length) return;
+
+      if (engine === "local") {
+        const next = applyMigrationOps(
+          { ...localData, settings },
+          planned.flatMap((p) => p.changes.flatMap((c) => c.ops))
+        );
+        const { settings: nextSettings, ...data } = next;
+        setLocalData(data);
+        updateSettings((s) => ({
+          ...s,
+          ...nextSettings,
+          meta: {
+            ...s.meta,
+            schemaVersion: planned[planned.length - 1].migration.version,
+            migration: null,
+          },
+        }));
+        return;
+      }
+
+      // The settings listener picks up what each migration writes
+      let current = settings;
+      for (const p of planned) {
+        current = await commitMigration(companyId, p, current, (committed, total) =>
+          setProgress({ version: p.migration.version, committed, total })
+        );
+      }
+    },
+    [engine, companyId, localData, settings, setLocalData, updateSettings]
+  );
+
+  /**
+   * Plans (dry run) or plans and applies every pending migration.
+   * Applying plans again first, so it always works on current data.
+   */
+  const run = useCallback(
+    async (options: { dryRun?: boolean; autoOnly?: boolean } = {}): Promise<MigrationRun> => {
+      setRunning(true);
+      try {
+        const planned = await plan(options.autoOnly);
+        if (!options.dryRun) await apply(planned);
+        return { planned, applied: !options.dryRun };
+      } catch (e: any) {
+        // Committed batches stay; the next run plans only what is left
+        if (e?.code === "permission-denied") {
+          errorEmitter.emit(
+            "permission-error",
+            new FirestorePermissionError({ path: `companies/${companyId}`, operation: "update" })
+          );
+        }
+        toast({
+          variant: "destructive",
+          title: "Data migration failed",
+          description: e?.message,
+          duration: 9000,
+        });
+        throw e;
+      } finally {
+        setRunning(false);
+        setProgress(null);
+      }
+    },
+    [plan, apply, companyId, toast]
+  );
+
+  // Migrations that need no review run once per session
+  const autoRanRef = useRef("");
+  useEffect(() => {
+    if (!ready || running || !pending[0]?.auto) return;
+    if (engine === "cloud" && !cloudState) return;
+
+    const key = `${engine}|${companyId}|${schemaVersion}`;
+    if (autoRanRef.current === key) return;
+    autoRanRef.current = key;
+
+    run({ autoOnly: true })
+      .then(({ planned }) => {
+        const changed = planned.reduce((n, p) => n + p.changes.length, 0);
+        if (changed) {
+          toast({
+            title: "Company data updated",
+            description: planned.map((p) => p.migration.title).join("; "),
+          });
+        }
+      })
+      .catch((e) => console.error("[migrations] automatic run failed", e));
+  }, [ready, running, pending, engine, cloudState, companyId, schemaVersion, run, toast]);
+
+  return {
+    schemaVersion,
+    pending,
+    checkpoint: progress ?? state?.migration ?? null,
+    running,
+    run,
+  };
+}
+
+export type CompanyMigrations = ReturnType<typeof useMigrations>;
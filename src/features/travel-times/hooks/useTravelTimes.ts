@@ -0,0 +1,76 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { Settings, Site } from "@/shared/types/domain";
+import { db } from "@/firebase/client";
+import { straightLineTravel, type TravelTimes } from "@/lib/routing";
+import {
+  cachedTravelTimeProvider,
+  createTravelTimeProvider,
+  loadTravelTimes,
+  type TravelPoint,
+} from "@/lib/travel-time";
+import { FirestoreTravelMatrixStore } from "../repositories/FirestoreTravelMatrixStore";
+
+type Options = {
+  settings: Pick<Settings, "travelTimeProvider" | "travelTimeServiceUrl">;
+  companyId: string;
+  cloud: boolean;
+
+  // Sites on the route, plus its start and end
+  sites: (Site | null | undefined)[];
+};
+
+/*
+ * Drive times for a set of sites from the configured provider, cached
+ * per site pair in Firestore when the cloud engine is on. Straight-line
+ * estimates are used until the matrix loads and if it fails.
+ */
+export function useTravelTimes({ settings, companyId, cloud, sites }: Options): TravelTimes {
+  // Tagged with the request it answers, so stale matrices are ignored
+  const [loaded, setLoaded] = useState<{ key: string; travelTimes: TravelTimes } | null>(
+    null
+  );
+
+  // Serialized so the matrix is re-fetched only when the places change
+  const pointsJson = useMemo(
+    () =>
+      JSON.stringify(
+        sites
+          .filter((s): s is Site => s?.lat != null && s?.lng != null)
+          .map((s): TravelPoint => ({ key: s.id, lat: s.lat!, lng: s.lng! }))
+          .sort((a, b) => a.key.localeCompare(b.key))
+      ),
+    [sites]
+  );
+
+  const { travelTimeProvider, travelTimeServiceUrl } = settings;
+  const requestKey = [pointsJson, travelTimeProvider, travelTimeServiceUrl, cloud, companyId].join(
+    "\n"
+  );
+
+  useEffect(() => {
+    const points = JSON.parse(pointsJson) as TravelPoint[];
+    const remote = createTravelTimeProvider(travelTimeProvider, travelTimeServiceUrl);
+    if (remote.name === "straight-line" || points.length < 2) return;
+
+    let cancelled = false;
+    const provider = cloud
+      ? cachedTravelTimeProvider(remote, new FirestoreTravelMatrixStore(db, companyId))
+      : remote;
+
+    loadTravelTimes(provider, points)
+      .then((travelTimes) => {
+        if (!cancelled) setLoaded({ key: requestKey, travelTimes });
+      })
+      .catch((e) => {
+        console.warn("[travel-time] falling back to straight-line estimates", e);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey, pointsJson, travelTimeProvider, travelTimeServiceUrl, cloud, companyId]);
+
+  return loaded?.key === requestKey ? loaded.travelTimes : straightLineTravel;
+}
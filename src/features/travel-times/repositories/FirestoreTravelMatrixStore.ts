@@ -0,0 +1,46 @@
+// src/features/travel-times/repositories/FirestoreTravelMatrixStore.ts
+import {
+  doc,
+  getDoc,
+  serverTimestamp,
+  writeBatch,
+  type Firestore,
+} from "firebase/firestore";
+import type { CachedTravelLeg, TravelMatrixStore } from "@/lib/travel-time";
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
+
+/*
+ * Drive times between site pairs at companies/{companyId}/travel_times/{from}__{to},
+ * shared by every route plan in the company.
+ */
+export class FirestoreTravelMatrixStore implements TravelMatrixStore {
+  constructor(private db: Firestore, private companyId: string) {}
+
+  private ref(pairKey: string) {
+    return doc(this.db, "companies", this.companyId, "travel_times", pairKey);
+  }
+
+  async getMany(pairKeys: string[]) {
+    const snaps = await Promise.all(pairKeys.map((key) => getDoc(this.ref(key))));
+
+    const legs = new Map<string, CachedTravelLeg>();
+    snaps.forEach((snap, i) => {
+      if (snap.exists()) legs.set(pairKeys[i], snap.data() as CachedTravelLeg);
+    });
+    return legs;
+  }
+
+  async putMany(legs: Map<string, CachedTravelLeg>) {
+    const entries = Array.from(legs.entries());
+
+    for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+      const batch = writeBatch(this.db);
+      for (const [key, leg] of entries.slice(i, i + BATCH_SIZE)) {
+        batch.set(this.ref(key), { ...leg, updatedAt: serverTimestamp() });
+      }
+      await batch.commit();
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { ref, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage";
+import { format } from "date-fns";
+import { storage } from "@/firebase/client";
+import { compressImage } from "@/lib/image-compress";
+import type { VisitPhoto } from "@/shared/types/domain";
+
+export type PhotoLocation = Pick<VisitPhoto, "lat" | "lng" | "accuracyMeters">;
+
+/**
+ * Best-effort GPS fix for geotagging a photo. Resolves to null instead of
+ * failing so a denied permission never blocks the upload.
+ */
+export function getPhotoLocation(timeoutMs = 8000): Promise<PhotoLocation | null> {
+  if (typeof navigator === "undefined" || !navigator.geolocation) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (pos) =>
+        resolve({
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+          accuracyMeters: Math.round(pos.coords.accuracy),
+        }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60_000 }
+    );
+  });
+}
+
+export const photoStamp = (takenAt: number, location?: PhotoLocation | null) =>
+  [
+    format(takenAt, "MMM d, yyyy h:mm a"),
+    location?.lat != null && location?.lng != null
+      ? `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join("  •  ");
+
+export async function uploadVisitPhoto(args: {
+  companyId: string;
+  photoId: string;
+  scheduleDate: string;
+  file: File;
+  takenAt: number;
+  location?: PhotoLocation | null;
+}) {
+  const { companyId, photoId, scheduleDate, file, takenAt, location } = args;
+
+  const { blob, width, height } = await compressImage(file, {
+    stamp: photoStamp(takenAt, location),
+  });
+
+  const path = `companies/${companyId}/visit_photos/${scheduleDate}/${photoId}.jpg`;
+  const snap = await uploadBytes(ref(storage, path), blob, {
+    contentType: "image/jpeg",
+    customMetadata: {
+      takenAt: String(takenAt),
+      ...(location?.lat != null && location?.lng != null
+        ? { lat: String(location.lat), lng: String(location.lng) }
+        : {}),
+    },
+  });
+
+  const url = await getDownloadURL(snap.ref);
+
+  return {
+    url,
+    path,
+    contentType: "image/jpeg",
+    width,
+    height,
+    bytes: blob.size,
+  };
+}
+
+export async function deleteVisitPhotoFile(path?: string) {
+  if (!path) return;
+  try {
+    await deleteObject(ref(storage, path));
+  } catch (e: unknown) {
+    if ((e as { code?: string })?.code !== "storage/object-not-found") {
+      console.warn("[deleteVisitPhotoFile] failed", e);
+    }
+  }
+}
@@ -0,0 +1,326 @@
+// src/lib/backup.ts
+import { Timestamp } from "firebase/firestore";
+import type { Settings } from "@/shared/types/domain";
+import { LATEST_SCHEMA_VERSION } from "@/lib/migrations";
+
+/*
+ * Company backup archive: one JSON file holding settings, every company
+ * collection and the expense receipt files (base64), so a company can be
+ * restored, copied to a new company id, or moved between the local and
+ * cloud engines.
+ *
+ * Bump BACKUP_VERSION when the archive layout changes. Changes to the
+ * records themselves are covered by schemaVersion: an archive from an
+ * older schema restores as-is and the pending migrations bring it up to
+ * date (src/lib/migrations).
+ */
+
+export const BACKUP_FORMAT = "managewise-backup";
+export const BACKUP_VERSION = 1;
+
+export type BackupCollection =
+  | "employees"
+  | "schedules"
+  | "timeclock_entries"
+  | "timeclock_audit"
+  | "time_correction_requests"
+  | "time_off_requests"
+  | "shift_swaps"
+  | "invoices"
+  | "other_expenses"
+  | "mileage_logs"
+  | "payroll_periods"
+  | "messages"
+  | "employee_update_requests"
+  | "employee_notifications"
+  | "visit_checklists"
+  | "visit_photos"
+  | "service_feedbacks";
+
+type CollectionSpec = {
+  name: BackupCollection;
+  label: string;
+  // Subcollections kept with each doc
+  sub?: string[];
+  // Kept by the local engine (src/lib/storage.ts)
+  local?: boolean;
+  // Fields every doc must have, with their typeof
+  required?: Record<string, "string" | "number">;
+};
+
+/*
+ * Push tokens, members, calendar feed tokens, notifications and the
+ * travel time cache are tied to devices, accounts or can be rebuilt,
+ * so they are left out.
+ */
+export const BACKUP_COLLECTIONS: CollectionSpec[] = [
+  { name: "employees", label: "Employees", local: true, required: { name: "string" } },
+  {
+    name: "schedules",
+    label: "Schedules",
+    sub: ["occurrence_overrides"],
+    local: true,
+    required: { siteName: "string", repeatFrequency: "string" },
+  },
+  {
+    name: "timeclock_entries",
+    label: "Time entries",
+    local: true,
+    required: { employeeId: "string", action: "string", ts: "number" },
+  },
+  { name: "timeclock_audit", label: "Time entry history" },
+  { name: "time_correction_requests", label: "Time corrections" },
+  { name: "time_off_requests", label: "Time off requests" },
+  { name: "shift_swaps", label: "Shift swaps" },
+  {
+    name: "invoices",
+    label: "Invoices",
+    sub: ["payments"],
+    local: true,
+    required: { invoiceNumber: "string", date: "string" },
+  },
+  {
+    name: "other_expenses",
+    label: "Expenses",
+    local: true,
+    required: { date: "string", amount: "number" },
+  },
+  {
+    name: "mileage_logs",
+    label: "Mileage logs",
+    local: true,
+    required: { date: "string", distance: "number" },
+  },
+  {
+    name: "payroll_periods",
+    label: "Payroll periods",
+    sub: ["confirmations"],
+    local: true,
+    required: { startDate: "string", endDate: "string" },
+  },
+  { name: "messages", label: "Messages" },
+  { name: "employee_update_requests", label: "Profile update requests" },
+  { name: "employee_notifications", label: "Employee notifications" },
+  { name: "visit_checklists", label: "Visit checklists" },
+  { name: "visit_photos", label: "Visit photos" },
+  { name: "service_feedbacks", label: "Service feedback" },
+];
+
+export type BackupDoc = {
+  id: string;
+  data: Record<string, unknown>;
+  sub?: Record<string, BackupDoc[]>;
+};
+
+export type BackupFile = {
+  path: string; // Storage path, companies/{companyId}/...
+  contentType?: string;
+  data: string; // base64
+};
+
+export type BackupArchive = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string; // ISO
+  companyId: string;
+  engine: "local" | "cloud";
+  settings: Settings;
+  collections: Partial<Record<BackupCollection, BackupDoc[]>>;
+  files: BackupFile[];
+};
+
+// ---------------------------------------------------------------
+// Values
+// ---------------------------------------------------------------
+
+type EncodedTimestamp = { __type: "timestamp"; ms: number };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null &&
+  typeof value === "object" &&
+  [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+/**
+ * Firestore Timestamps become tagged objects so they survive JSON.
+ */
+export function encodeBackupValue(value: unknown): unknown {
+  if (value instanceof Timestamp) return { __type: "timestamp", ms: value.toMillis() };
+  if (Array.isArray(value)) return value.map(encodeBackupValue);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => [k, encodeBackupValue(v)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Reverses encodeBackupValue. `revive` turns millis back into a
+ * Timestamp; the local engine keeps plain numbers instead.
+ */
+export function decodeBackupValue(
+  value: unknown,
+  revive: (ms: number) => unknown = Timestamp.fromMillis
+): unknown {
+  if (Array.isArray(value)) return value.map((v) => decodeBackupValue(v, revive));
+  if (isPlainObject(value)) {
+    if (value.__type === "timestamp" && typeof value.ms === "number") {
+      return revive((value as EncodedTimestamp).ms);
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, decodeBackupValue(v, revive)])
+    );
+  }
+  return value;
+}
+
+export const backupFileName = (archive: Pick<BackupArchive, "companyId" | "exportedAt">) =>
+  `${archive.companyId}-backup-${archive.exportedAt.slice(0, 10)}.json`;
+
+export const countBackupDocs = (docs: BackupDoc[] = []): number =>
+  docs.reduce(
+    (n, d) => n + 1 + Object.values(d.sub ?? {}).reduce((m, list) => m + countBackupDocs(list), 0),
+    0
+  );
+
+// ---------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------
+
+export type BackupCheck = {
+  archive: BackupArchive | null;
+  errors: string[]; // restore is refused
+  warnings: string[];
+};
+
+// Problems listed per archive before "and N more"
+const MAX_LISTED = 10;
+
+/**
+ * Checks a parsed file is an archive this app can restore: the layout
+ * version, a schema no newer than this build's migrations, and the
+ * fields each collection's records need.
+ */
+export function checkBackup(parsed: unknown): BackupCheck {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const fail = (message: string): BackupCheck => ({ archive: null, errors: [message], warnings });
+
+  if (!isPlainObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+    return fail("This is not a company backup file.");
+  }
+  if (typeof parsed.version !== "number" || parsed.version > BACKUP_VERSION) {
+    return fail("This backup was made by a newer version of the app.");
+  }
+  if (typeof parsed.schemaVersion !== "number" || parsed.schemaVersion > LATEST_SCHEMA_VERSION) {
+    return fail(
+      `This backup uses data schema ${String(parsed.schemaVersion)}; this app supports up to ${LATEST_SCHEMA_VERSION}.`
+    );
+  }
+  if (!isPlainObject(parsed.settings) || !Array.isArray(parsed.settings.sites)) {
+    return fail("The backup has no settings.");
+  }
+  if (!isPlainObject(parsed.collections) || !Array.isArray(parsed.files)) {
+    return fail("The backup is incomplete.");
+  }
+
+  const archive = parsed as unknown as BackupArchive;
+  const problems: string[] = [];
+
+  for (const spec of BACKUP_COLLECTIONS) {
+    const docs = archive.collections[spec.name];
+    if (docs === undefined) continue;
+    if (!Array.isArray(docs)) {
+      problems.push(`${spec.label}: not a list`);
+      continue;
+    }
+
+    docs.forEach((d, i) => {
+      if (!isPlainObject(d) || typeof d.id !== "string" || !d.id || !isPlainObject(d.data)) {
+        problems.push(`${spec.label} #${i + 1}: missing id or data`);
+        return;
+      }
+      for (const [field, type] of Object.entries(spec.required ?? {})) {
+        if (typeof d.data[field] !== type) {
+          problems.push(`${spec.label} ${d.id}: ${field} should be a ${type}`);
+        }
+      }
+    });
+  }
+
+  archive.files.forEach((f, i) => {
+    if (!isPlainObject(f) || typeof f.path !== "string" || typeof f.data !== "string") {
+      problems.push(`File #${i + 1}: missing path or data`);
+    }
+  });
+
+  errors.push(...problems.slice(0, MAX_LISTED));
+  if (problems.length > MAX_LISTED) errors.push(`…and ${problems.length - MAX_LISTED} more`);
+
+  const unknown = Object.keys(archive.collections).filter(
+    (name) => !BACKUP_COLLECTIONS.some((spec) => spec.name === name)
+  );
+  if (unknown.length) warnings.push(`Skipped unknown collections: ${unknown.join(", ")}`);
+  if (archive.schemaVersion < LATEST_SCHEMA_VERSION) {
+    warnings.push(
+      `The backup uses data schema ${archive.schemaVersion}; pending data migrations will run after the restore.`
+    );
+  }
+
+  return { archive: errors.length ? null : archive, errors, warnings };
+}
+
+// ---------------------------------------------------------------
+// Restoring into another company
+// ---------------------------------------------------------------
+
+const retargetDocs = (docs: BackupDoc[], from: string, to: string): BackupDoc[] =>
+  docs.map((d) => ({
+    id: d.id,
+    data: d.data.companyId === from ? { ...d.data, companyId: to } : d.data,
+    ...(d.sub
+      ? {
+          sub: Object.fromEntries(
+            Object.entries(d.sub).map(([name, list]) => [name, retargetDocs(list, from, to)])
+          ),
+        }
+      : {}),
+  }));
+
+/**
+ * The archive as it would be exported from `companyId`: companyId fields
+ * and the stored receipt paths move over. Other Storage links (photos,
+ * attachments) keep pointing at the original company's files.
+ */
+export function retargetBackup(archive: BackupArchive, companyId: string): BackupArchive {
+  const from = archive.companyId;
+  if (from === companyId) return archive;
+
+  const prefix = `companies/${from}/`;
+  const movePath = (path: string) =>
+    path.startsWith(prefix) ? `companies/${companyId}/${path.slice(prefix.length)}` : path;
+
+  const collections = Object.fromEntries(
+    Object.entries(archive.collections).map(([name, docs]) => [
+      name,
+      retargetDocs(docs ?? [], from, companyId),
+    ])
+  ) as BackupArchive["collections"];
+
+  collections.other_expenses = collections.other_expenses?.map((d) =>
+    typeof d.data.receiptPath === "string"
+      ? { ...d, data: { ...d.data, receiptPath: movePath(d.data.receiptPath) } }
+      : d
+  );
+
+  return {
+    ...archive,
+    companyId,
+    settings: { ...archive.settings, companyId },
+    collections,
+    files: archive.files.map((f) => ({ ...f, path: movePath(f.path) })),
+  };
+}
@@ -0,0 +1,114 @@
+// src/lib/checklists.ts
+import type {
+  ChecklistSection,
+  Site,
+  VisitChecklist,
+} from "@/shared/types/domain";
+
+export const visitChecklistId = (scheduleId: string, scheduleDate: string, siteId: string) =>
+  `${scheduleId}_${scheduleDate}_${siteId}`;
+
+export const countChecklistItems = (sections: ChecklistSection[] | undefined) =>
+  (sections ?? []).reduce((sum, section) => sum + section.items.length, 0);
+
+export const hasChecklist = (site: Site | undefined) => countChecklistItems(site?.checklist) > 0;
+
+/**
+ * Copies the site's current template into a new visit checklist.
+ * The snapshot keeps past visits stable when the template is edited later.
+ */
+export function instantiateVisitChecklist(args: {
+  scheduleId: string;
+  scheduleDate: string;
+  site: Site;
+}): Omit<VisitChecklist, "createdAt" | "updatedAt"> {
+  const { scheduleId, scheduleDate, site } = args;
+  const sections = (site.checklist ?? [])
+    .map((section) => ({
+      ...section,
+      items: section.items.filter((item) => item.label.trim()),
+    }))
+    .filter((section) => section.items.length > 0);
+
+  return {
+    id: visitChecklistId(scheduleId, scheduleDate, site.id),
+    scheduleId,
+    scheduleDate,
+    siteId: site.id,
+    siteName: site.name,
+    sections,
+    totalItems: countChecklistItems(sections),
+    checks: {},
+    employeeIds: [],
+  };
+}
+
+export type ChecklistProgress = {
+  done: number;
+  total: number;
+  missingPhotos: number;
+  rate: number; // 0-100
+};
+
+/**
+ * An item counts as done once it is checked and, when the template asks
+ * for one, has a photo attached.
+ */
+export function checklistProgress(visit: Pick<VisitChecklist, "sections" | "checks">): ChecklistProgress {
+  let done = 0;
+  let total = 0;
+  let missingPhotos = 0;
+
+  for (const section of visit.sections ?? []) {
+    for (const item of section.items) {
+      total += 1;
+      const check = visit.checks?.[item.id];
+      if (!check) continue;
+
+      if (item.photoRequired && !check.photoUrl) {
+        missingPhotos += 1;
+        continue;
+      }
+      done += 1;
+    }
+  }
+
+  return { done, total, missingPhotos, rate: total > 0 ? (done / total) * 100 : 0 };
+}
+
+export type ChecklistCompletionRow = {
+  key: string;
+  visits: number;
+  done: number;
+  total: number;
+  missingPhotos: number;
+  rate: number;
+};
+
+/**
+ * Totals checklist progress per group. A visit can land in several groups
+ * (e.g. every employee who worked it).
+ */
+export function summarizeChecklists(
+  visits: VisitChecklist[],
+  groupKeys: (visit: VisitChecklist) => string[]
+): Map<string, ChecklistCompletionRow> {
+  const rows = new Map<string, ChecklistCompletionRow>();
+
+  for (const visit of visits) {
+    const progress = checklistProgress(visit);
+    if (progress.total === 0) continue;
+
+    for (const key of groupKeys(visit)) {
+      const row = rows.get(key) ?? { key, visits: 0, done: 0, total: 0, missingPhotos: 0, rate: 0 };
+      row.visits += 1;
+      row.done += progress.done;
+      row.total += progress.total;
+      row.missingPhotos += progress.missingPhotos;
+      row.rate = row.total > 0 ? (row.done / row.total) * 100 : 0;
+      rows.set(key, row);
+    }
+  }
+
+  return rows;
+}
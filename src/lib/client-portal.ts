@@ -0,0 +1,73 @@
+"use client";
+
+import { httpsCallable } from "firebase/functions";
+import {
+  isSignInWithEmailLink,
+  sendSignInLinkToEmail,
+  signInWithEmailLink,
+  signOut,
+} from "firebase/auth";
+import { auth, functions } from "@/firebase/client";
+import type { ClientPortalData, ServiceFeedback } from "@/shared/types/domain";
+
+// The email is needed again when the link is opened; keep it on this device.
+const KEY_CLIENT_EMAIL = "managewise.clientPortalEmail";
+
+/**
+ * Emails a one-time sign-in link. Whether the address belongs to a site
+ * contact is only checked when the portal loads, so the response never
+ * reveals which emails are on file.
+ */
+export async function sendClientPortalLink(email: string) {
+  const trimmed = email.trim();
+  await sendSignInLinkToEmail(auth, trimmed, {
+    url: `${window.location.origin}/client`,
+    handleCodeInApp: true,
+  });
+  window.localStorage.setItem(KEY_CLIENT_EMAIL, trimmed);
+}
+
+/**
+ * Completes sign-in when the page was opened from the emailed link.
+ * Resolves to false when the current URL is not a sign-in link.
+ */
+export async function completeClientPortalSignIn(
+  promptForEmail: () => string | null
+): Promise<boolean> {
+  const href = window.location.href;
+  if (!isSignInWithEmailLink(auth, href)) return false;
+
+  // Opening the link on another device loses the stored email.
+  const email = window.localStorage.getItem(KEY_CLIENT_EMAIL) || promptForEmail();
+  if (!email) return false;
+
+  await signInWithEmailLink(auth, email, href);
+  window.localStorage.removeItem(KEY_CLIENT_EMAIL);
+  window.history.replaceState(null, "", "/client");
+  return true;
+}
+
+export const signOutClientPortal = () => signOut(auth);
+
+export async function fetchClientPortal(companyId: string) {
+  const call = httpsCallable<{ companyId: string }, ClientPortalData>(
+    functions,
+    "getClientPortal"
+  );
+  const result = await call({ companyId });
+  return result.data;
+}
+
+export type ClientFeedbackInput = Pick<ServiceFeedback, "siteId" | "category" | "notes"> & {
+  type: "complaint" | "compliment";
+  scheduleDate?: string;
+};
+
+export async function submitClientFeedback(companyId: string, input: ClientFeedbackInput) {
+  const call = httpsCallable<ClientFeedbackInput & { companyId: string }, { id: string }>(
+    functions,
+    "submitClientFeedback"
+  );
+  const result = await call({ companyId, ...input });
+  return result.data;
+}
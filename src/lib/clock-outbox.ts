@@ -0,0 +1,234 @@
+"use client";
+
+import {
+  doc,
+  getDoc,
+  setDoc,
+  serverTimestamp,
+  type Firestore,
+} from "firebase/firestore";
+import type { Entry, Site } from "@/shared/types/domain";
+
+/**
+ * IndexedDB outbox for clock in/out writes.
+ *
+ * Every employee clock event is queued here first with a client-generated id
+ * and then replayed against `timeclock_entries/{id}`. Because the Firestore doc
+ * id is the outbox id, replaying the same item twice never creates a duplicate.
+ */
+
+const DB_NAME = "managewise-outbox";
+const DB_VERSION = 1;
+const STORE = "clock_entries";
+
+export type OutboxEntry = {
+  id: string; // also the timeclock_entries doc id
+  companyId: string;
+  entry: Omit<Entry, "id" | "createdAt">;
+
+  // Context needed to finish side effects (fees, notifications) after sync
+  site: Site;
+  forDate: number;
+  deviceLabel: string;
+
+  capturedAt: number; // device clock when the employee tapped clock in/out
+  attempts: number;
+  lastError?: string;
+
+  // Set when Firestore refused the item, or an earlier one of the same
+  // employee. Kept on the device for the record but never replayed.
+  rejectedAt?: number;
+};
+
+export type OutboxFlushResult = {
+  synced: OutboxEntry[];
+  duplicates: OutboxEntry[];
+  failed: OutboxEntry[];
+  offline: boolean;
+};
+
+const hasIndexedDb = () =>
+  typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
+
+// Fallback for browsers without IndexedDB (private mode on some devices).
+// Items survive until the tab is closed.
+const memoryOutbox = new Map<string, OutboxEntry>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openOutbox(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("companyId", "companyId", { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function run<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return openOutbox().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE, mode);
+        const request = fn(tx.objectStore(STORE));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+export async function enqueueClockEntry(item: OutboxEntry) {
+  if (!hasIndexedDb()) {
+    memoryOutbox.set(item.id, item);
+    return;
+  }
+  await run("readwrite", (store) => store.put(item));
+}
+
+// Items still waiting to be written; rejected ones are left out.
+export async function listClockOutbox(companyId: string): Promise<OutboxEntry[]> {
+  const items = hasIndexedDb()
+    ? await run<OutboxEntry[]>("readonly", (store) =>
+        store.index("companyId").getAll(companyId)
+      )
+    : [...memoryOutbox.values()].filter((item) => item.companyId === companyId);
+
+  return items
+    .filter((item) => !item.rejectedAt)
+    .sort((a, b) => a.capturedAt - b.capturedAt);
+}
+
+export async function removeFromClockOutbox(id: string) {
+  if (!hasIndexedDb()) {
+    memoryOutbox.delete(id);
+    return;
+  }
+  await run("readwrite", (store) => store.delete(id));
+}
+
+const errorCode = (e: unknown) =>
+  (e as { code?: string } | null)?.code;
+
+const isOfflineError = (e: unknown) =>
+  errorCode(e) === "unavailable" ||
+  errorCode(e) === "deadline-exceeded" ||
+  (typeof navigator !== "undefined" && navigator.onLine === false);
+
+/**
+ * Writes one queued item. Resolves to "duplicate" when the entry already
+ * reached Firestore on an earlier attempt.
+ *
+ * `syncedAt` is the device clock at write time; the server compares it with
+ * the commit time to detect device clock skew (see flagClockEntrySkew).
+ */
+async function writeQueuedEntry(db: Firestore, item: OutboxEntry) {
+  const ref = doc(db, "companies", item.companyId, "timeclock_entries", item.id);
+
+  // Throws "unavailable" while offline, which doubles as a connectivity check.
+  const existing = await getDoc(ref);
+  if (existing.exists()) return "duplicate" as const;
+
+  await setDoc(ref, {
+    ...item.entry,
+    capturedAt: item.capturedAt,
+    syncedAt: Date.now(),
+    queued: item.attempts > 0,
+    createdAt: serverTimestamp(),
+  });
+
+  return "synced" as const;
+}
+
+/**
+ * Replays the company's outbox in capture order. Stops at the first
+ * connectivity error so that in/out pairs are never written out of order.
+ * Any other error rejects the item for good, along with that employee's
+ * later items, so an OUT is never written after its IN was refused.
+ * Each rejection is reported in `failed` once.
+ */
+export async function flushClockOutbox(
+  db: Firestore,
+  companyId: string
+): Promise<OutboxFlushResult> {
+  const result: OutboxFlushResult = {
+    synced: [],
+    duplicates: [],
+    failed: [],
+    offline: false,
+  };
+
+  const items = await listClockOutbox(companyId);
+  const refusedEmployees = new Set<string>();
+
+  const reject = async (item: OutboxEntry, lastError: string) => {
+    const rejected: OutboxEntry = { ...item, lastError, rejectedAt: Date.now() };
+    await enqueueClockEntry(rejected);
+    result.failed.push(rejected);
+  };
+
+  for (const item of items) {
+    if (refusedEmployees.has(item.entry.employeeId)) {
+      await reject(item, "earlier-entry-rejected");
+      continue;
+    }
+
+    try {
+      const status = await writeQueuedEntry(db, item);
+      await removeFromClockOutbox(item.id);
+
+      if (status === "duplicate") result.duplicates.push(item);
+      else result.synced.push(item);
+    } catch (e) {
+      const lastError = errorCode(e) || (e as Error)?.message || String(e);
+
+      if (isOfflineError(e)) {
+        await enqueueClockEntry({ ...item, attempts: item.attempts + 1, lastError });
+        result.offline = true;
+        break;
+      }
+
+      console.warn("[clock-outbox] entry rejected", item.id, e);
+      refusedEmployees.add(item.entry.employeeId);
+      await reject({ ...item, attempts: item.attempts + 1 }, lastError);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Overlays queued entries on top of the synced ones so sessions and
+ * clock state reflect actions taken while offline.
+ */
+export function mergePendingEntries(
+  synced: Entry[],
+  pending: OutboxEntry[]
+): Entry[] {
+  if (!pending.length) return synced;
+
+  const syncedIds = new Set(synced.map((e) => e.id));
+  const extra = pending
+    .filter((item) => !syncedIds.has(item.id))
+    .map((item) => ({ ...item.entry, id: item.id, pendingSync: true } as Entry));
+
+  return [...synced, ...extra];
+}
@@ -1,6 +1,134 @@
 // src/lib/cloud-settings.ts
-import { doc, getDoc, onSnapshot, setDoc, type Firestore } from "firebase/firestore";
-import type { Settings } from "@/shared/types/domain";
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  setDoc,
+  writeBatch,
+  type Firestore,
+  type WriteBatch,
+} from "firebase/firestore";
+import { getAuth, onIdTokenChanged } from "firebase/auth";
+import type { Settings, Site } from "@/shared/types/domain";
+
+/*
+ * settings/main is readable by every signed-in user (the login screen needs
+ * it), so secrets are kept in private/settings, which only managers can read.
+ *
+ * The site directory lives in companies/{companyId}/sites/{siteId}, one doc
+ * per site, and is merged back into Settings.sites for the app. Companies
+ * that still keep the `sites` array in settings/main are moved over by
+ * ensureCloudSettings the first time a manager loads them.
+ */
+type PrivateSettings = {
+  managerPIN?: string;
+  siteAlarmCodes?: Record<string, string>; // key = site id (or name if no id)
+};
+
+const siteKey = (site: { id?: string; name: string }) => site.id || site.name;
+
+function splitPrivateSettings(s: Settings) {
+  const { managerPIN, ...rest } = s;
+  const siteAlarmCodes: Record<string, string> = {};
+
+  const sites = (rest.sites ?? []).map((site) => {
+    const { alarmCode, ...publicSite } = site;
+    if (alarmCode) siteAlarmCodes[siteKey(site)] = alarmCode;
+    return publicSite;
+  });
+
+  const privateSettings: PrivateSettings = {};
+  if (managerPIN !== undefined) privateSettings.managerPIN = managerPIN;
+  if (s.sites) privateSettings.siteAlarmCodes = siteAlarmCodes;
+
+  return { publicSettings: { ...rest, sites } as Settings, privateSettings };
+}
+
+function mergePrivateSettings(s: Settings, p: PrivateSettings | null): Settings {
+  if (!p) return s;
+
+  const codes = p.siteAlarmCodes ?? {};
+  return {
+    ...s,
+    ...(p.managerPIN !== undefined ? { managerPIN: p.managerPIN } : {}),
+    sites: (s.sites ?? []).map((site) =>
+      codes[siteKey(site)] ? { ...site, alarmCode: codes[siteKey(site)] } : site
+    ),
+  };
+}
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
+
+const sitesRef = (db: Firestore, companyId: string) =>
+  collection(db, "companies", companyId, "sites");
+
+// Directory order, then name for sites saved before order was kept
+const byDirectoryOrder = (a: Site, b: Site) =>
+  (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER) ||
+  a.name.localeCompare(b.name);
+
+// Firestore does not keep field order, so compare with sorted keys
+const canonical = (value: unknown): unknown =>
+  Array.isArray(value)
+    ? value.map(canonical)
+    : value && typeof value === "object"
+      ? Object.fromEntries(
+          Object.keys(value)
+            .sort()
+            .map((key) => [key, canonical((value as Record<string, unknown>)[key])])
+        )
+      : value;
+
+/**
+ * Writes the directory to the sites collection: changed sites are set,
+ * removed ones deleted. Alarm codes are stripped by the caller.
+ */
+async function writeSites(db: Firestore, companyId: string, sites: Site[]) {
+  const snap = await getDocs(sitesRef(db, companyId));
+  const stored = new Map(snap.docs.map((d) => [d.id, JSON.stringify(canonical(d.data()))]));
+
+  const writes: ((batch: WriteBatch) => void)[] = [];
+  const keep = new Set<string>();
+
+  sites.forEach((site, order) => {
+    // Sites get an id on load (page.tsx); one without is not saved yet
+    if (!site.id) return;
+    keep.add(site.id);
+
+    const data = JSON.parse(JSON.stringify({ ...site, order }));
+    if (stored.get(site.id) === JSON.stringify(canonical(data))) return;
+    writes.push((batch) => batch.set(doc(sitesRef(db, companyId), site.id), data));
+  });
+
+  for (const id of stored.keys()) {
+    if (!keep.has(id)) writes.push((batch) => batch.delete(doc(sitesRef(db, companyId), id)));
+  }
+
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+  }
+}
+
+async function writePrivateSettings(db: Firestore, companyId: string, p: PrivateSettings) {
+  if (!Object.keys(p).length) return;
+
+  try {
+    // mergeFields replaces siteAlarmCodes whole, so removed codes are
+    // dropped, and leaves fields that were not passed alone.
+    await setDoc(doc(db, "companies", companyId, "private", "settings"), p, {
+      mergeFields: Object.keys(p),
+    });
+  } catch (error: any) {
+    // Employees cannot write secrets; the public part is still saved.
+    if (error?.code !== "permission-denied") throw error;
+  }
+}
 
 /**
  * Ensures the settings doc exists.
@@ -18,13 +146,29 @@ export async function ensureCloudSettings(
   const snap = await getDoc(ref);
 
   if (!snap.exists()) {
-    const settingsToSave: Settings = { ...defaults, companyId };
-    await setDoc(ref, settingsToSave as any, { merge: true });
+    await writeCloudSettings(db, companyId, defaults, uid);
+    return;
+  }
+
+  // Move a legacy `sites` array into the sites collection. Sites without
+  // an id wait until page.tsx assigns one and the next save writes them.
+  const legacySites = (snap.data() as Settings).sites;
+  if (!legacySites || legacySites.some((site) => !site.id)) return;
+
+  try {
+    if ((await getDocs(sitesRef(db, companyId))).empty) {
+      await writeSites(db, companyId, legacySites);
+    }
+    await setDoc(ref, { sites: deleteField() }, { merge: true });
+  } catch (error: any) {
+    // Only managers may move it; everyone reads the array until then.
+    if (error?.code !== "permission-denied") throw error;
   }
 }
 
 /**
  * Subscribes to cloud settings.
+ * - Merges private/settings in when the user may read it (managers)
  * - Calls onChange when data arrives
  * - Calls onReady the FIRST time we get a snapshot (exists or not)
  * - Calls onError if listener fails (permission-denied, etc)
@@ -44,10 +188,23 @@ export function subscribeCloudSettings(
   if (!opts?.uid) return () => {};
 
   const ref = doc(db, "companies", companyId, "settings", "main");
+  const privateRef = doc(db, "companies", companyId, "private", "settings");
 
   let didReady = false;
+  let latest: Settings | null = null;
+  let latestSites: Site[] | null = null;
+  let latestPrivate: PrivateSettings | null = null;
+
+  const emit = () => {
+    if (!latest) return;
+
+    // The legacy array is used until the collection has been seeded
+    const sites = latestSites?.length || !latest.sites ? latestSites : latest.sites;
+    const merged = sites ? { ...latest, sites } : latest;
+    onChange(mergePrivateSettings(merged, latestPrivate));
+  };
 
-  return onSnapshot(
+  const unsubMain = onSnapshot(
     ref,
     (snap) => {
       // mark ready on first snapshot (even if doc doesn't exist yet)
@@ -57,13 +214,52 @@ export function subscribeCloudSettings(
       }
 
       if (snap.exists()) {
-        onChange(snap.data() as Settings);
+        latest = snap.data() as Settings;
+        emit();
       }
     },
     (error) => {
       opts?.onError?.(error);
     }
   );
+
+  const unsubSites = onSnapshot(
+    sitesRef(db, companyId),
+    (snap) => {
+      latestSites = snap.docs
+        .map((d) => ({ ...(d.data() as Site), id: d.id }))
+        .sort(byDirectoryOrder);
+      emit();
+    },
+    (error) => {
+      opts?.onError?.(error);
+    }
+  );
+
+  // Re-attach whenever the ID token changes: a manager PIN sign-in adds the
+  // claims that make private/settings readable.
+  let unsubPrivate: () => void = () => {};
+  const unsubToken = onIdTokenChanged(getAuth(db.app), () => {
+    unsubPrivate();
+    unsubPrivate = onSnapshot(
+      privateRef,
+      (snap) => {
+        latestPrivate = snap.exists() ? (snap.data() as PrivateSettings) : null;
+        emit();
+      },
+      () => {
+        // Not a manager (yet): secrets stay hidden.
+        latestPrivate = null;
+      }
+    );
+  });
+
+  return () => {
+    unsubMain();
+    unsubSites();
+    unsubToken();
+    unsubPrivate();
+  };
 }
 
 /**
@@ -79,6 +275,10 @@ export async function writeCloudSettings(
   if (!uid) return;
 
   const ref = doc(db, "companies", companyId, "settings", "main");
-  const settingsToSave: Settings = { ...s, companyId };
-  await setDoc(ref, settingsToSave as any, { merge: true });
+  const { publicSettings, privateSettings } = splitPrivateSettings({ ...s, companyId });
+  const { sites, ...mainSettings } = publicSettings;
+
+  await setDoc(ref, mainSettings as any, { merge: true });
+  if (sites) await writeSites(db, companyId, sites);
+  await writePrivateSettings(db, companyId, privateSettings);
 }
\ No newline at end of file
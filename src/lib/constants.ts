@@ -8,6 +8,9 @@ export const KEY_EMPLOYEES = "timewise.v1.employees";
 export const KEY_INVOICES = "timewise.v1.invoices";
 export const KEY_OTHER_EXPENSES = "timewise.v1.other_expenses";
 export const KEY_PAYROLL_PERIODS = "timewise.v1.payroll_periods";
+export const KEY_SERVICE_FEEDBACKS = "timewise.v1.service_feedbacks";
+export const KEY_MESSAGES = "timewise.v1.messages";
+export const KEY_ENTRY_AUDITS = "timewise.v1.entry_audits";
 
 export const DEFAULT_PIN = "1953";
 
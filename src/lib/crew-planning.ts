@@ -0,0 +1,288 @@
+// src/lib/crew-planning.ts
+import type {
+  CleaningSchedule,
+  Employee,
+  Site,
+  Team,
+} from "@/shared/types/domain";
+import {
+  buildDailyRoutePlan,
+  type DailyRoutePlan,
+} from "@/lib/route-planning";
+import type { TravelTimes } from "@/lib/routing";
+import { resolveSite } from "@/lib/site-index";
+
+/*
+ * Splits one day's visits across crews.
+ *
+ * A crew is a team (everyone whose teamId matches) or an employee who
+ * is not on a team. Visits already assigned to a team or to employees
+ * stay with that crew. Unassigned visits are placed one at a time,
+ * longest first, on the crew whose day ends up shortest (cleaning
+ * divided by crew size, plus travel), avoiding any placement that makes
+ * a visit late. The result is a proposal; nothing is saved here.
+ */
+
+export type Crew = {
+  id: string; // "team:{teamId}" or "employee:{employeeId}"
+  kind: "team" | "employee";
+  refId: string; // Team.id or Employee.id
+  name: string;
+  memberIds: string[];
+  size: number;
+};
+
+export type CrewRoute = {
+  crew: Crew;
+  schedules: CleaningSchedule[];
+  route: DailyRoutePlan;
+
+  // Cleaning divided by crew size, plus travel
+  workloadMinutes: number;
+};
+
+export type CrewProposal = {
+  schedule: CleaningSchedule;
+  crew: Crew;
+  addedMinutes: number;
+  reason: string;
+};
+
+export type MultiCrewPlan = {
+  routes: CrewRoute[];
+  proposals: CrewProposal[];
+
+  // Fixed to a crew that is not available today
+  stranded: CleaningSchedule[];
+
+  // Longest minus shortest crew day
+  imbalanceMinutes: number;
+};
+
+type PlanCrewsOptions = {
+  schedules: CleaningSchedule[];
+  crews: Crew[];
+  employees: Employee[];
+  sites: Site[];
+
+  startingLocation?: { lat: number; lng: number } | null;
+  endingLocation?: { lat: number; lng: number } | null;
+  startTime?: string | null;
+  finishByTime?: string | null;
+  travelTimes?: TravelTimes;
+};
+
+export const crewKey = (kind: Crew["kind"], refId: string) => `${kind}:${refId}`;
+
+export function crewsFromRoster(teams: Team[], employees: Employee[]): Crew[] {
+  const active = employees.filter(
+    (employee) => (employee.status || "active") !== "inactive"
+  );
+  const teamIds = new Set(teams.map((team) => team.id));
+
+  const teamCrews = teams
+    .map((team): Crew => {
+      const memberIds = active
+        .filter((employee) => employee.teamId === team.id)
+        .map((employee) => employee.id);
+
+      return {
+        id: crewKey("team", team.id),
+        kind: "team",
+        refId: team.id,
+        name: team.name,
+        memberIds,
+        size: Math.max(1, memberIds.length),
+      };
+    })
+    .filter((crew) => crew.memberIds.length > 0);
+
+  const soloCrews = active
+    .filter((employee) => !employee.teamId || !teamIds.has(employee.teamId))
+    .map(
+      (employee): Crew => ({
+        id: crewKey("employee", employee.id),
+        kind: "employee",
+        refId: employee.id,
+        name: employee.name,
+        memberIds: [employee.id],
+        size: 1,
+      })
+    );
+
+  return [...teamCrews, ...soloCrews];
+}
+
+export const isUnassigned = (schedule: CleaningSchedule) =>
+  !schedule.assignedTeamId &&
+  !schedule.assignedEmployeeIds?.length &&
+  !schedule.assignedTo?.length;
+
+/*
+ * The crew a visit is already assigned to, or null when that crew is
+ * not in `crews`. Employee assignments follow the first assigned
+ * employee to their crew.
+ */
+function fixedCrew(
+  schedule: CleaningSchedule,
+  crews: Crew[],
+  employees: Employee[]
+) {
+  if (schedule.assignedTeamId) {
+    return crews.find(
+      (crew) => crew.kind === "team" && crew.refId === schedule.assignedTeamId
+    ) ?? null;
+  }
+
+  const employeeIds = schedule.assignedEmployeeIds?.length
+    ? schedule.assignedEmployeeIds
+    : (schedule.assignedTo ?? [])
+        .map((name) => employees.find((e) => e.name === name)?.id)
+        .filter((id): id is string => Boolean(id));
+
+  for (const employeeId of employeeIds) {
+    const crew = crews.find((c) => c.memberIds.includes(employeeId));
+    if (crew) return crew;
+  }
+
+  return null;
+}
+
+export function planCrews({
+  schedules,
+  crews,
+  employees,
+  sites,
+  startingLocation,
+  endingLocation,
+  startTime,
+  finishByTime,
+  travelTimes,
+}: PlanCrewsOptions): MultiCrewPlan {
+  const byCrew = new Map<string, CleaningSchedule[]>(
+    crews.map((crew) => [crew.id, []])
+  );
+  const stranded: CleaningSchedule[] = [];
+  const unassigned: CleaningSchedule[] = [];
+
+  for (const schedule of schedules) {
+    if (isUnassigned(schedule)) {
+      unassigned.push(schedule);
+      continue;
+    }
+
+    const crew = fixedCrew(schedule, crews, employees);
+    if (crew) byCrew.get(crew.id)!.push(schedule);
+    else stranded.push(schedule);
+  }
+
+  const plan = (crew: Crew, list: CleaningSchedule[]) => {
+    const route = buildDailyRoutePlan({
+      schedules: list,
+      sites,
+      startingLocation,
+      endingLocation,
+      startTime,
+      finishByTime,
+      travelTimes,
+      crewSize: crew.size,
+    });
+
+    return {
+      route,
+      workloadMinutes:
+        Math.ceil(route.totalCleaningMinutes / crew.size) +
+        route.totalTravelMinutes,
+    };
+  };
+
+  const current = new Map(
+    crews.map((crew) => [crew.id, plan(crew, byCrew.get(crew.id)!)])
+  );
+
+  const siteMinutes = (schedule: CleaningSchedule) =>
+    resolveSite(sites, schedule.siteId, schedule.siteName)
+      ?.estimatedWorkMinutes ?? 0;
+
+  // Longest first, then by name so the proposal is stable
+  const queue = unassigned
+    .slice()
+    .sort(
+      (a, b) =>
+        siteMinutes(b) - siteMinutes(a) ||
+        a.siteName.localeCompare(b.siteName) ||
+        a.id.localeCompare(b.id)
+    );
+
+  const proposals: CrewProposal[] = [];
+
+  for (const schedule of queue) {
+    let best: {
+      crew: Crew;
+      next: ReturnType<typeof plan>;
+      addedMinutes: number;
+      newLate: number;
+    } | null = null;
+
+    for (const crew of crews) {
+      const before = current.get(crew.id)!;
+      const next = plan(crew, [...byCrew.get(crew.id)!, schedule]);
+      const candidate = {
+        crew,
+        next,
+        addedMinutes: next.workloadMinutes - before.workloadMinutes,
+        newLate: next.route.lateStopCount - before.route.lateStopCount,
+      };
+
+      if (
+        !best ||
+        candidate.newLate < best.newLate ||
+        (candidate.newLate === best.newLate &&
+          (candidate.next.workloadMinutes < best.next.workloadMinutes ||
+            (candidate.next.workloadMinutes === best.next.workloadMinutes &&
+              candidate.addedMinutes < best.addedMinutes)))
+      ) {
+        best = candidate;
+      }
+    }
+
+    if (!best) break; // no crews at all
+
+    byCrew.get(best.crew.id)!.push(schedule);
+    current.set(best.crew.id, best.next);
+
+    const travelAdded =
+      best.addedMinutes -
+      Math.ceil(siteMinutes(schedule) / best.crew.size);
+
+    proposals.push({
+      schedule,
+      crew: best.crew,
+      addedMinutes: best.addedMinutes,
+      reason:
+        best.newLate > 0
+          ? "Every crew would be late somewhere; this one the least"
+          : travelAdded <= 0
+            ? "Lightest day, and on the way"
+            : `Lightest day after adding it (+${travelAdded} min travel)`,
+    });
+  }
+
+  const routes: CrewRoute[] = crews.map((crew) => ({
+    crew,
+    schedules: byCrew.get(crew.id)!,
+    route: current.get(crew.id)!.route,
+    workloadMinutes: current.get(crew.id)!.workloadMinutes,
+  }));
+
+  const busy = routes
+    .filter((r) => r.schedules.length > 0)
+    .map((r) => r.workloadMinutes);
+
+  return {
+    routes,
+    proposals,
+    stranded,
+    imbalanceMinutes: busy.length ? Math.max(...busy) - Math.min(...busy) : 0,
+  };
+}
@@ -0,0 +1,145 @@
+// src/lib/entry-audit.ts
+import type { Entry, EntryAuditRecord } from "@/shared/types/domain";
+
+// Fields worth recording; Firestore metadata and client-only flags are skipped.
+const AUDITED_FIELDS: (keyof Entry)[] = [
+  "employee",
+  "employeeId",
+  "action",
+  "ts",
+  "siteId",
+  "site",
+  "note",
+  "lat",
+  "lng",
+  "scheduleId",
+  "scheduleDate",
+  "autoCloseReview",
+];
+
+type AuditFields = Record<string, unknown>;
+
+function pickAudited(entry: Partial<Entry> | null | undefined): AuditFields | null {
+  if (!entry) return null;
+
+  const picked: AuditFields = {};
+  for (const key of AUDITED_FIELDS) {
+    const value = entry[key];
+    if (value === undefined) continue;
+    // Field sentinels such as deleteField() are recorded as a removal.
+    picked[key] = typeof value === "object" ? null : value;
+  }
+  return picked;
+}
+
+type BuildEntryAuditArgs = {
+  id: string;
+  change: EntryAuditRecord["change"];
+  before: Entry | null;
+  after: Partial<Entry> | null;
+  reason?: string | null;
+  changedByUid?: string | null;
+  changedByLabel: string;
+  correctionRequestId?: string | null;
+};
+
+/**
+ * Builds an audit record for a change to a timeclock entry.
+ * For updates only the fields that actually changed are kept.
+ */
+export function buildEntryAudit({
+  id,
+  change,
+  before,
+  after,
+  reason,
+  changedByUid,
+  changedByLabel,
+  correctionRequestId,
+}: BuildEntryAuditArgs): EntryAuditRecord {
+  let beforeData = pickAudited(before);
+  let afterData = pickAudited(after);
+
+  if (change === "update" && beforeData && afterData) {
+    const from = beforeData;
+    const to = afterData;
+    const changedKeys = Object.keys(to).filter((key) => from[key] !== to[key]);
+
+    beforeData = Object.fromEntries(changedKeys.map((key) => [key, from[key] ?? null]));
+    afterData = Object.fromEntries(changedKeys.map((key) => [key, to[key] ?? null]));
+  }
+
+  const subject = { ...(before ?? {}), ...(after ?? {}) };
+
+  return {
+    id,
+    entryId: before?.id ?? (after as Entry | null)?.id ?? "",
+    employeeId: subject.employeeId ?? "",
+    employeeName: subject.employee ?? "",
+    change,
+    before: beforeData as Partial<Entry> | null,
+    after: afterData as Partial<Entry> | null,
+    reason: reason?.trim() || null,
+    changedByUid: changedByUid ?? null,
+    changedByLabel,
+    correctionRequestId: correctionRequestId ?? null,
+    changedAt: Date.now(),
+  };
+}
+
+const formatValue = (key: string, value: unknown) => {
+  if (value === null || value === undefined) return "";
+  if (key === "ts" && typeof value === "number") return new Date(value).toLocaleString();
+  return String(value);
+};
+
+export const describeAuditFields = (data: Partial<Entry> | null) =>
+  Object.entries(data ?? {})
+    .map(([key, value]) => `${key}=${formatValue(key, value)}`)
+    .join("; ");
+
+/**
+ * Downloads the audit trail as CSV, oldest change first.
+ */
+export function exportEntryAuditCsv(audits: EntryAuditRecord[], fileLabel = "all") {
+  const esc = (v: unknown) => `"${String(v ?? "").replace(/"/g, '""')}"`;
+  const header = [
+    "Changed At",
+    "Employee",
+    "Entry ID",
+    "Change",
+    "Before",
+    "After",
+    "Reason",
+    "Changed By",
+    "Correction Request",
+  ];
+
+  const rows = audits
+    .slice()
+    .sort((a, b) => a.changedAt - b.changedAt)
+    .map((a) =>
+      [
+        new Date(a.changedAt).toLocaleString(),
+        a.employeeName,
+        a.entryId,
+        a.change,
+        describeAuditFields(a.before),
+        describeAuditFields(a.after),
+        a.reason,
+        a.changedByLabel,
+        a.correctionRequestId,
+      ]
+        .map(esc)
+        .join(",")
+    );
+
+  const csv = [header.map(esc).join(","), ...rows].join("\n");
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `timeclock-audit-${fileLabel}-${new Date().toISOString().slice(0, 10)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
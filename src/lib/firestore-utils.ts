@@ -12,7 +12,13 @@ export function cleanForFirestore<T>(input: T): T {
         .filter((item) => item !== undefined);
     }
 
-    if (value !== null && typeof value === "object") {
+    // Only plain objects are walked; FieldValues such as serverTimestamp()
+    // are class instances and must reach Firestore untouched.
+    if (
+      value !== null &&
+      typeof value === "object" &&
+      [Object.prototype, null].includes(Object.getPrototypeOf(value))
+    ) {
       const cleanedObj: Record<string, unknown> = {};
 
       for (const [key, nestedValue] of Object.entries(
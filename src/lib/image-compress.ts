@@ -0,0 +1,73 @@
+// src/lib/image-compress.ts
+
+export type CompressedImage = {
+  blob: Blob;
+  width: number;
+  height: number;
+};
+
+type CompressOptions = {
+  maxDimension?: number;
+  quality?: number;
+  // Burned into the bottom edge, e.g. time and coordinates
+  stamp?: string;
+};
+
+function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read image"));
+    };
+    img.src = url;
+  });
+}
+
+function drawStamp(ctx: CanvasRenderingContext2D, text: string, width: number, height: number) {
+  const fontSize = Math.max(14, Math.round(width / 45));
+  const padding = Math.round(fontSize / 2);
+
+  ctx.font = `600 ${fontSize}px sans-serif`;
+  ctx.textBaseline = "bottom";
+  ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+  ctx.fillRect(0, height - fontSize - padding * 2, width, fontSize + padding * 2);
+  ctx.fillStyle = "#fff";
+  ctx.fillText(text, padding, height - padding, width - padding * 2);
+}
+
+/**
+ * Downscales a camera photo to a JPEG suitable for upload.
+ * Phone photos are typically 3-8 MB; the result is usually under 400 KB.
+ */
+export async function compressImage(
+  file: Blob,
+  { maxDimension = 1600, quality = 0.75, stamp }: CompressOptions = {}
+): Promise<CompressedImage> {
+  const img = await loadImage(file);
+  const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.round(img.naturalWidth * scale);
+  const height = Math.round(img.naturalHeight * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+
+  ctx.drawImage(img, 0, 0, width, height);
+  if (stamp) drawStamp(ctx, stamp, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", quality)
+  );
+  if (!blob) throw new Error("Could not compress image");
+
+  return { blob, width, height };
+}
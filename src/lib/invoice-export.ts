@@ -53,7 +53,7 @@ export function exportInvoiceToPDF(inv: Invoice, orgName = "ManageWise") {
               <div># ${escapeHtml(inv.invoiceNumber ?? "")}</div>
               <div class="muted">Date: ${escapeHtml(inv.date ?? "")}</div>
               <div class="muted">Due: ${escapeHtml(inv.dueDate ?? "")}</div>
-              ${inv.status ? `<div class="badge" style="margin-top:6px">${escapeHtml(inv.status)}</div>` : ""}
+              ${inv.status ? `<div class="badge" style="margin-top:6px">${escapeHtml(inv.status.replace("_", " "))}</div>` : ""}
             </div>
           </div>
 
@@ -84,6 +84,9 @@ export function exportInvoiceToPDF(inv: Invoice, orgName = "ManageWise") {
             <div class="line"><div>Tax</div><div>$${num(computed.tax)}</div></div>
             <div class="line"><div>Discount</div><div>−$${num(computed.discount)}</div></div>
             <div class="line grand"><div>Total</div><div>$${num(computed.total)}</div></div>
+            ${inv.amountPaid ? `<div class="line"><div>Payments</div><div>−$${num(inv.amountPaid)}</div></div>` : ""}
+            ${inv.amountCredited ? `<div class="line"><div>Credits</div><div>−$${num(inv.amountCredited)}</div></div>` : ""}
+            ${inv.amountPaid || inv.amountCredited ? `<div class="line grand"><div>Balance Due</div><div>$${num(inv.balanceDue)}</div></div>` : ""}
           </div>
 
           ${inv.notes ? `<div style="margin-top:16px"><h3>Notes</h3><div class="muted">${escapeHtml(inv.notes)}</div></div>` : ""}
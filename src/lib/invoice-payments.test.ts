@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { Invoice, InvoicePayment } from "@/shared/types/domain";
+import { invoiceBalance, isLegacyPaid, legacyPaymentSeed, ledgerFields } from "./invoice-payments";
+
+const invoice = (patch: Partial<Invoice> = {}): Invoice => ({
+  id: "inv-1",
+  siteName: "Main St",
+  invoiceNumber: "1001",
+  date: "2025-03-01",
+  dueDate: "2025-03-31",
+  lineItems: [{ id: "li-1", description: "Cleaning", quantity: 1, unitPrice: 200, total: 200 }],
+  subtotal: 200,
+  tax: 0,
+  discount: 0,
+  total: 200,
+  status: "sent",
+  ...patch,
+});
+
+const payment = (amount: number, patch: Partial<InvoicePayment> = {}): InvoicePayment => ({
+  id: `p-${amount}`,
+  companyId: "acme",
+  invoiceId: "inv-1",
+  kind: "payment",
+  amount,
+  date: "2025-03-10",
+  ...patch,
+});
+
+describe("invoice ledger", () => {
+  it("counts invoices paid before the ledger as paid in full", () => {
+    const legacy = invoice({ status: "paid", paidDate: "2025-02-01" });
+    expect(isLegacyPaid(legacy, [])).toBe(true);
+    expect(invoiceBalance(legacy, [])).toMatchObject({ status: "paid", balanceDue: 0, paidDate: "2025-02-01" });
+  });
+
+  it("stamps ledgerVersion once a ledger row is written", () => {
+    expect(ledgerFields(invoice(), [])).not.toHaveProperty("ledgerVersion");
+    expect(ledgerFields(invoice(), [payment(200)])).toMatchObject({ status: "paid", ledgerVersion: 1 });
+  });
+
+  it("keeps a legacy paid invoice paid once its first ledger row is added", () => {
+    const legacy = invoice({ status: "paid", paidDate: "2025-02-01" });
+    const seed = legacyPaymentSeed(legacy, []);
+    expect(seed).toMatchObject({ kind: "payment", amount: 200, date: "2025-02-01" });
+
+    const ledger = [payment(200, { id: "legacy", ...seed }), payment(20, { kind: "credit_memo" })];
+    expect(invoiceBalance(legacy, ledger)).toMatchObject({
+      status: "paid",
+      paid: 200,
+      credited: 20,
+      balanceDue: 0,
+    });
+  });
+
+  it("seeds only invoices paid before the ledger", () => {
+    expect(legacyPaymentSeed(invoice(), [])).toBeNull();
+    expect(legacyPaymentSeed(invoice({ status: "paid", ledgerVersion: 1 }), [])).toBeNull();
+    expect(legacyPaymentSeed(invoice({ status: "paid" }), [payment(200)])).toBeNull();
+  });
+
+  it("goes back to sent when the last payment is removed", () => {
+    const paid = { ...invoice(), ...ledgerFields(invoice(), [payment(200)]) };
+    const afterRemoval = { ...paid, ...ledgerFields(paid, []) };
+
+    expect(isLegacyPaid(paid, [])).toBe(false);
+    expect(afterRemoval).toMatchObject({ status: "sent", amountPaid: 0, balanceDue: 200, ledgerVersion: 1 });
+  });
+});
@@ -0,0 +1,197 @@
+// src/lib/invoice-payments.ts
+import { differenceInCalendarDays, isValid, parseISO } from "date-fns";
+import type { Invoice, InvoicePayment } from "@/shared/types/domain";
+import { withComputed } from "./invoice-math";
+
+export type InvoiceBalance = {
+  total: number;
+  paid: number;
+  credited: number;
+  balanceDue: number;
+  status: Invoice["status"];
+  paidDate: string | null;
+};
+
+export function groupPaymentsByInvoice(payments: InvoicePayment[]) {
+  const map = new Map<string, InvoicePayment[]>();
+  for (const p of payments) {
+    const list = map.get(p.invoiceId) ?? [];
+    list.push(p);
+    map.set(p.invoiceId, list);
+  }
+  return map;
+}
+
+// Stamped on an invoice once its first ledger row is written
+export const LEDGER_VERSION = 1;
+
+/**
+ * Invoices marked paid before the ledger existed have no payment rows;
+ * they count as paid in full on their paidDate. An invoice that has had
+ * ledger rows carries ledgerVersion, so removing its last payment makes
+ * it owed again instead of legacy-paid.
+ */
+export function isLegacyPaid(
+  inv: Pick<Invoice, "status" | "ledgerVersion">,
+  payments: InvoicePayment[]
+) {
+  return !inv.ledgerVersion && payments.length === 0 && inv.status === "paid";
+}
+
+// Doc id of the seeded row, so seeding twice writes the same row
+export const LEGACY_PAYMENT_ID = "legacy";
+
+/**
+ * The payment to write before a legacy-paid invoice's first ledger row:
+ * the paid-in-full amount on its paidDate, so the new row adds to it
+ * instead of replacing it. Null for any other invoice.
+ */
+export function legacyPaymentSeed(
+  inv: Invoice,
+  payments: InvoicePayment[]
+): Omit<InvoicePayment, "id" | "companyId" | "invoiceId" | "createdAt"> | null {
+  if (!isLegacyPaid(inv, payments)) return null;
+  return {
+    kind: "payment",
+    amount: withComputed(inv).total || 0,
+    date: inv.paidDate || inv.date,
+    note: "Paid in full before payments were recorded",
+  };
+}
+
+/**
+ * Derives what has been paid, credited and is still owed on an invoice,
+ * and the status that follows from it. Draft and void are set by hand
+ * and are kept unless money has already been recorded against a draft.
+ */
+export function invoiceBalance(inv: Invoice, payments: InvoicePayment[] = []): InvoiceBalance {
+  const total = withComputed(inv).total || 0;
+
+  if (inv.status === "void") {
+    return { total, paid: 0, credited: 0, balanceDue: 0, status: "void", paidDate: null };
+  }
+
+  if (isLegacyPaid(inv, payments)) {
+    return { total, paid: total, credited: 0, balanceDue: 0, status: "paid", paidDate: inv.paidDate ?? null };
+  }
+
+  const paid = round2(sumOf(payments, "payment"));
+  const credited = round2(sumOf(payments, "credit_memo"));
+  const balanceDue = Math.max(0, round2(total - paid - credited));
+  const applied = paid + credited;
+
+  let status: Invoice["status"];
+  if (applied > 0 && balanceDue === 0) status = "paid";
+  else if (applied > 0) status = "partially_paid";
+  else status = inv.status === "draft" ? "draft" : "sent";
+
+  // The invoice is paid on the day of the ledger row that settled it
+  const paidDate =
+    status === "paid"
+      ? payments.reduce((latest, p) => (p.date > latest ? p.date : latest), "")
+      : null;
+
+  return { total, paid, credited, balanceDue, status, paidDate: paidDate || null };
+}
+
+/**
+ * Fields stored on the invoice doc so lists, exports and the client
+ * portal can show the balance without reading the ledger.
+ */
+export function ledgerFields(inv: Invoice, payments: InvoicePayment[]) {
+  const b = invoiceBalance(inv, payments);
+  const ledgerVersion = payments.length ? LEDGER_VERSION : inv.ledgerVersion;
+  return {
+    status: b.status,
+    paidDate: b.paidDate,
+    amountPaid: b.paid,
+    amountCredited: b.credited,
+    balanceDue: b.balanceDue,
+    ...(ledgerVersion ? { ledgerVersion } : {}),
+  } satisfies Partial<Invoice>;
+}
+
+// ---------------------------------------------------------------
+// Accounts-receivable aging
+// ---------------------------------------------------------------
+
+export const AGING_BUCKETS = [
+  { key: "current", label: "Current" },
+  { key: "1-30", label: "1–30 days" },
+  { key: "31-60", label: "31–60 days" },
+  { key: "61-90", label: "61–90 days" },
+  { key: "90+", label: "90+ days" },
+] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number]["key"];
+
+export type AgingRow = {
+  siteName: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  invoiceCount: number;
+};
+
+function agingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return "current";
+  if (daysPastDue <= 30) return "1-30";
+  if (daysPastDue <= 60) return "31-60";
+  if (daysPastDue <= 90) return "61-90";
+  return "90+";
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  current: 0,
+  "1-30": 0,
+  "31-60": 0,
+  "61-90": 0,
+  "90+": 0,
+});
+
+/**
+ * Open balances per site, bucketed by how far past the due date they are.
+ * Drafts are not receivables yet and are left out.
+ */
+export function arAging(
+  invoices: Invoice[],
+  paymentsByInvoice: Map<string, InvoicePayment[]>,
+  asOf: Date = new Date()
+) {
+  const bySite = new Map<string, AgingRow>();
+  const totals: AgingRow = { siteName: "Total", buckets: emptyBuckets(), total: 0, invoiceCount: 0 };
+
+  for (const inv of invoices) {
+    if (inv.status === "draft" || inv.status === "void") continue;
+
+    const { balanceDue } = invoiceBalance(inv, paymentsByInvoice.get(inv.id));
+    if (balanceDue <= 0) continue;
+
+    const due = parseISO(inv.dueDate || inv.date);
+    const daysPastDue = isValid(due) ? differenceInCalendarDays(asOf, due) : 0;
+    const bucket = agingBucket(daysPastDue);
+
+    const siteName = inv.siteName || "Unassigned";
+    const row =
+      bySite.get(siteName) ?? { siteName, buckets: emptyBuckets(), total: 0, invoiceCount: 0 };
+
+    row.buckets[bucket] = round2(row.buckets[bucket] + balanceDue);
+    row.total = round2(row.total + balanceDue);
+    row.invoiceCount += 1;
+    bySite.set(siteName, row);
+
+    totals.buckets[bucket] = round2(totals.buckets[bucket] + balanceDue);
+    totals.total = round2(totals.total + balanceDue);
+    totals.invoiceCount += 1;
+  }
+
+  const rows = [...bySite.values()].sort((a, b) => b.total - a.total);
+  return { rows, totals };
+}
+
+function sumOf(payments: InvoicePayment[], kind: InvoicePayment["kind"]) {
+  return payments
+    .filter((p) => p.kind === kind)
+    .reduce((s, p) => s + (Number(p.amount) || 0), 0);
+}
+
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
@@ -1,9 +1,11 @@
 
 // src/lib/job-profitability.ts
-import { startOfDay, parseISO, differenceInCalendarWeeks, getDate, getMonth, getYear, isSameDay, format } from "date-fns";
+import { startOfDay } from "date-fns";
 import { groupSessions } from "@/lib/time-utils";
+import { schedulesOn } from "@/lib/occurrence-overrides";
+import { entryAtSite, refersToSite } from "@/lib/site-index";
 import type {
-  Entry, CleaningSchedule, MileageLog, OtherExpense, Employee, Settings, Invoice, DayOfWeek
+  Entry, CleaningSchedule, MileageLog, OtherExpense, Employee, Settings, Invoice, OccurrenceOverride, Site
 } from "@/shared/types/domain";
 
 export type JobProfitRow = {
@@ -25,6 +27,7 @@ type Args = {
   mileageLogs: MileageLog[];
   otherExpenses: OtherExpense[];
   schedules: CleaningSchedule[];
+  occurrenceOverrides?: OccurrenceOverride[];
   invoices: Invoice[];
 };
 
@@ -41,56 +44,15 @@ function getMileageRate(settings?: Settings) {
 }
 function sameDayISO(d: Date){ return d.toISOString().slice(0,10); }
 
-function isScheduleActiveOnDate(schedule: CleaningSchedule, date: Date, weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6): boolean {
-    if (!schedule.startDate) return false;
-    const schStart = parseISO(schedule.startDate);
-    
-    if (date < startOfDay(schStart)) return false;
-    if (schedule.repeatUntil && date > parseISO(schedule.repeatUntil)) return false;
-    
-    const monthDiff = (getYear(date) - getYear(schStart)) * 12 + (getMonth(date) - getMonth(schStart));
-
-    switch (schedule.repeatFrequency) {
-        case 'does-not-repeat':
-            return isSameDay(date, schStart);
-
-        case 'weekly':
-        case 'every-2-weeks':
-        case 'every-3-weeks':
-            const dayName = format(date, 'EEEE') as DayOfWeek;
-            if (!schedule.daysOfWeek?.includes(dayName)) return false;
-
-            const weekDiff = differenceInCalendarWeeks(date, schStart, { weekStartsOn });
-            if (schedule.repeatFrequency === 'weekly') return weekDiff >= 0;
-            if (schedule.repeatFrequency === 'every-2-weeks') return weekDiff >= 0 && weekDiff % 2 === 0;
-            if (schedule.repeatFrequency === 'every-3-weeks') return weekDiff >= 0 && weekDiff % 3 === 0;
-            return false;
-        
-        case 'monthly':
-            return getDate(date) === getDate(schStart) && monthDiff >= 0;
-        
-        case 'every-2-months':
-            return getDate(date) === getDate(schStart) && monthDiff >= 0 && monthDiff % 2 === 0;
-
-        case 'quarterly':
-            return getDate(date) === getDate(schStart) && monthDiff >= 0 && monthDiff % 3 === 0;
-
-        case 'yearly':
-            return getDate(date) === getDate(schStart) && getMonth(date) === getMonth(schStart) && monthDiff >= 0;
-
-        default:
-            return false;
-    }
-}
-
-function resolveRevenueForSiteDay(siteName: string, isoDate: string, opts: {
+function resolveRevenueForSiteDay(site: Site, isoDate: string, opts: {
   schedules: CleaningSchedule[],
+  occurrenceOverrides: OccurrenceOverride[],
   invoices: Invoice[],
   settings: Settings
 }) {
   // 1) If there is an invoice for this site/date, prefer it
   const inv = opts.invoices.find((i) => {
-  if ((i.siteName ?? "") !== siteName) return false;
+  if (!refersToSite(i.siteId, i.siteName, site)) return false;
 
   const start =
     (i as any).serviceStartDate ??
@@ -108,17 +70,14 @@ function resolveRevenueForSiteDay(siteName: string, isoDate: string, opts: {
   if (inv?.total != null) return Number(inv.total) || 0;
 
   // 2) If schedule has an explicit daily revenue/rate for that site/date
-  const activeDate = new Date(isoDate + "T12:00:00");
-  const sched = opts.schedules.find(s =>
-    s.siteName === siteName && isScheduleActiveOnDate(s, activeDate, opts.settings.weekStartsOn)
-  );
+  const sched = schedulesOn(opts.schedules, opts.occurrenceOverrides, isoDate, opts.settings.weekStartsOn)
+    .find(s => refersToSite(s.siteId, s.siteName, site));
 
   const schedRevenue = Number((sched as any)?.servicePrice ?? 0);
   if (schedRevenue) return schedRevenue;
 
   // 3) Site-level default rate in settings (if present)
-  const siteCfg = (opts.settings.sites ?? []).find(s => s.name === siteName);
-  const defaultSiteRate = Number((siteCfg as any)?.servicePrice ?? 0);
+  const defaultSiteRate = Number((site as any)?.servicePrice ?? 0);
   if (defaultSiteRate) return defaultSiteRate;
 
   // 4) No revenue known
@@ -127,6 +86,7 @@ function resolveRevenueForSiteDay(siteName: string, isoDate: string, opts: {
 
 export function computeJobProfitability(args: Args): Map<string, JobProfitRow> {
   const { date, settings, entries, employees, mileageLogs, otherExpenses, schedules, invoices } = args;
+  const occurrenceOverrides = args.occurrenceOverrides ?? [];
 
   const dayStart = startOfDay(date).getTime();
   const dayEnd = dayStart + 24*60*60*1000;
@@ -138,27 +98,21 @@ export function computeJobProfitability(args: Args): Map<string, JobProfitRow> {
   // sessions already contains minutes + employee
   const sessions = groupSessions(dayEntries);
 
-  // Build set of sites we care about (from settings list only)
-  const siteSet = new Set<string>();
-  (settings.sites ?? []).forEach(s => siteSet.add(s.name));
-  
+  // Sites we care about (from settings list only); rows are keyed by name
   const rows = new Map<string, JobProfitRow>();
 
-  for (const site of Array.from(siteSet).filter(Boolean)) {
+  for (const siteCfg of (settings.sites ?? []).filter(s => s.name)) {
+    const site = siteCfg.name;
+
     // Labor
     let labor = 0;
     for (const s of sessions) {
-      const sSite = s.in?.site ?? s.out?.site;
-      if (!sSite || sSite !== site) continue;
+      if (!entryAtSite(s.in ?? s.out, siteCfg)) continue;
       if (!s.out) continue; // open shifts don’t count yet
       const emp = employees.find(e => e.id === (s as any).employeeId) ?? employees.find(e => e.name === s.employee);
      const rate = getEmployeeRate(emp, settings);
 const hours = (s.minutes ?? 0) / 60;
 
-const siteCfg = (settings.sites ?? []).find(
-  (x) => x.name === sSite
-);
-
 let laborRate = rate;
 
 // Only apply bonus rate to sessions on bonus sites
@@ -175,21 +129,18 @@ labor += laborRate * hours;
     // Mileage ($)
     const mileageRate = getMileageRate(settings);
     const mileageMiles = mileageLogs
-      .filter(m => (m.date ?? "").slice(0,10) === iso && (m.siteName ?? "") === site)
+      .filter(m => (m.date ?? "").slice(0,10) === iso && refersToSite(m.siteId, m.siteName, siteCfg))
       .reduce((sum, m) => sum + getMiles(m), 0);
     const mileage = mileageRate * mileageMiles;
 
     // Expenses ($)
     const expenses = otherExpenses
   .filter(o => (o.date ?? "").slice(0,10) === iso)
-  .filter(o => {
-    const siteName = (o as any).siteName ?? (o as any).site ?? null;
-    return siteName === site;
-  })
+  .filter(o => refersToSite(o.siteId, o.siteName ?? o.site, siteCfg))
   .reduce((sum, o) => sum + Number((o as any).amount ?? 0), 0);
 
     // Revenue
-    const revenue = resolveRevenueForSiteDay(site, iso, { schedules, invoices, settings });
+    const revenue = resolveRevenueForSiteDay(siteCfg, iso, { schedules, occurrenceOverrides, invoices, settings });
 
     // Profit
     const profit = round2(revenue - labor - mileage - expenses);
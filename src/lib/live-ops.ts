@@ -0,0 +1,93 @@
+// src/lib/live-ops.ts
+import { format } from "date-fns";
+import type { Entry, Session, Settings, Site, SiteStatus } from "@/shared/types/domain";
+import { haversineDistance } from "@/lib/time-utils";
+import { entryAtSite, resolveSite, siteKey } from "@/lib/site-index";
+
+/*
+ * What the live operations map shows: every site with coordinates,
+ * colored by today's status, who is clocked in there, and clock-ins
+ * recorded outside the geofence.
+ */
+
+const FEET_PER_METER = 3.28084;
+
+export type MappedSite = Site & { lat: number; lng: number };
+
+export type LiveSitePin = {
+  site: MappedSite;
+  status?: SiteStatus; // undefined when the site is not scheduled today
+  crew: Session[];
+};
+
+export type OffsiteClockIn = {
+  entry: Entry & { lat: number; lng: number };
+  site: MappedSite;
+  distanceFeet: number;
+};
+
+const hasCoords = (site: Site): site is MappedSite =>
+  typeof site.lat === "number" && typeof site.lng === "number";
+
+// Same fallback as clock-in/out: 150 ft when no radius is set
+export const geofenceRadiusFeet = (settings: Pick<Settings, "geofenceRadius">) =>
+  settings.geofenceRadius > 0 ? settings.geofenceRadius * FEET_PER_METER : 150;
+
+// `statuses` is keyed by siteKey, as getSiteStatuses returns it
+export function liveSitePins(
+  sites: Site[],
+  statuses: Map<string, SiteStatus>,
+  activeShifts: Session[]
+): LiveSitePin[] {
+  return sites
+    .filter((site) => (site.status || "active") !== "inactive")
+    .filter(hasCoords)
+    .map((site) => ({
+      site,
+      status: statuses.get(siteKey(site)),
+      crew: activeShifts.filter((s) => entryAtSite(s.in, site)),
+    }));
+}
+
+/**
+ * Active sessions the map cannot place: the site is unknown or has no
+ * coordinates.
+ */
+export function unmappedShifts(sites: Site[], activeShifts: Session[]): Session[] {
+  return activeShifts.filter((s) => {
+    const site = resolveSite(sites, s.in?.siteId, s.in?.site);
+    return !site || !hasCoords(site);
+  });
+}
+
+/**
+ * Clock-ins on `day` whose recorded position was farther from the site
+ * than the geofence allows. Manager clock-ins carry no position and are
+ * skipped.
+ */
+export function clockInsOutsideGeofence(
+  entries: Entry[],
+  sites: Site[],
+  radiusFeet: number,
+  day: Date = new Date()
+): OffsiteClockIn[] {
+  const dayStr = format(day, "yyyy-MM-dd");
+  const out: OffsiteClockIn[] = [];
+
+  for (const entry of entries) {
+    if (entry.action !== "in" || entry.lat == null || entry.lng == null) continue;
+    if ((entry.scheduleDate || format(new Date(entry.ts), "yyyy-MM-dd")) !== dayStr) continue;
+
+    const site = resolveSite(sites, entry.siteId, entry.site);
+    if (!site || !hasCoords(site)) continue;
+
+    const distanceFeet =
+      haversineDistance({ lat: site.lat, lng: site.lng }, { lat: entry.lat, lng: entry.lng }) *
+      FEET_PER_METER;
+    if (distanceFeet <= radiusFeet) continue;
+
+    out.push({ entry: { ...entry, lat: entry.lat, lng: entry.lng }, site, distanceFeet });
+  }
+
+  return out.sort((a, b) => b.entry.ts - a.entry.ts);
+}
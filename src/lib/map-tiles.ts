@@ -0,0 +1,202 @@
+// src/lib/map-tiles.ts
+
+/*
+ * Map tile providers and Web Mercator math for the live operations map.
+ *
+ * Tiles are plain XYZ raster tiles, so any server that speaks
+ * {z}/{x}/{y} can stand in for OpenStreetMap, e.g. a local
+ * tileserver-gl in development and tests:
+ *   docker run -p 8080:8080 maptiler/tileserver-gl
+ *   -> http://localhost:8080/styles/basic-preview/{z}/{x}/{y}.png
+ */
+
+export interface TileProvider {
+  readonly name: string;
+  readonly tileSize: number;
+  readonly minZoom: number;
+  readonly maxZoom: number;
+  readonly attribution: string;
+
+  tileUrl(z: number, x: number, y: number): string;
+}
+
+export type XyzTileOptions = {
+  name?: string;
+  attribution?: string;
+  minZoom?: number;
+  maxZoom?: number;
+  tileSize?: number;
+  // Values for {s} in the template, picked per tile
+  subdomains?: string[];
+};
+
+export function xyzTileProvider(template: string, options: XyzTileOptions = {}): TileProvider {
+  const subdomains = options.subdomains?.length ? options.subdomains : ["a", "b", "c"];
+
+  return {
+    name: options.name ?? "xyz",
+    tileSize: options.tileSize ?? 256,
+    minZoom: options.minZoom ?? 0,
+    maxZoom: options.maxZoom ?? 19,
+    attribution: options.attribution ?? "",
+
+    tileUrl(z, x, y) {
+      return template
+        .replace("{s}", subdomains[Math.abs(x + y) % subdomains.length])
+        .replace("{z}", String(z))
+        .replace("{x}", String(x))
+        .replace("{y}", String(y));
+    },
+  };
+}
+
+export const openStreetMapTiles = xyzTileProvider(
+  "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+  {
+    name: "openstreetmap",
+    attribution: "© OpenStreetMap contributors",
+    subdomains: [""],
+  }
+);
+
+/*
+ * The company's tile server if one is set, then NEXT_PUBLIC_MAP_TILE_URL,
+ * then OpenStreetMap.
+ */
+export function createTileProvider(template?: string): TileProvider {
+  const url = template?.trim() || process.env.NEXT_PUBLIC_MAP_TILE_URL?.trim();
+  if (!url) return openStreetMapTiles;
+
+  return xyzTileProvider(url, { name: "custom" });
+}
+
+// ---------------------------------------------------------------
+// Web Mercator
+// ---------------------------------------------------------------
+
+export type LatLng = { lat: number; lng: number };
+export type PixelPoint = { x: number; y: number };
+
+const MAX_LAT = 85.05112878;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+// World pixel coordinates at `zoom`; the world is tileSize * 2^zoom wide
+export function project({ lat, lng }: LatLng, zoom: number, tileSize = 256): PixelPoint {
+  const scale = tileSize * 2 ** zoom;
+  const sin = Math.sin((clamp(lat, -MAX_LAT, MAX_LAT) * Math.PI) / 180);
+
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+export function unproject({ x, y }: PixelPoint, zoom: number, tileSize = 256): LatLng {
+  const scale = tileSize * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / scale) * 360 - 180,
+  };
+}
+
+/**
+ * The center and the highest zoom that shows every point inside a
+ * width x height viewport with `padding` pixels to spare.
+ */
+export function fitBounds(
+  points: LatLng[],
+  width: number,
+  height: number,
+  provider: Pick<TileProvider, "tileSize" | "minZoom" | "maxZoom">,
+  padding = 40
+): { center: LatLng; zoom: number } {
+  if (!points.length) return { center: { lat: 39.8283, lng: -98.5795 }, zoom: 3 };
+
+  const lats = points.map((p) => p.lat);
+  const lngs = points.map((p) => p.lng);
+  const north = Math.max(...lats);
+  const south = Math.min(...lats);
+  const east = Math.max(...lngs);
+  const west = Math.min(...lngs);
+
+  // A single site shows at street level rather than the max zoom
+  const maxZoom = points.length === 1 ? Math.min(provider.maxZoom, 15) : provider.maxZoom;
+
+  let zoom = provider.minZoom;
+  for (let z = maxZoom; z >= provider.minZoom; z--) {
+    const ne = project({ lat: north, lng: east }, z, provider.tileSize);
+    const sw = project({ lat: south, lng: west }, z, provider.tileSize);
+    if (ne.x - sw.x <= width - padding * 2 && sw.y - ne.y <= height - padding * 2) {
+      zoom = z;
+      break;
+    }
+  }
+
+  const ne = project({ lat: north, lng: east }, zoom, provider.tileSize);
+  const sw = project({ lat: south, lng: west }, zoom, provider.tileSize);
+  return {
+    center: unproject({ x: (ne.x + sw.x) / 2, y: (ne.y + sw.y) / 2 }, zoom, provider.tileSize),
+    zoom,
+  };
+}
+
+export type VisibleTile = {
+  key: string;
+  url: string;
+  // Top-left corner in viewport pixels
+  left: number;
+  top: number;
+};
+
+/**
+ * The tiles covering a width x height viewport centered on `center`.
+ * Columns wrap around the antimeridian; rows past the poles are skipped.
+ */
+export function visibleTiles(
+  provider: TileProvider,
+  center: LatLng,
+  zoom: number,
+  width: number,
+  height: number
+): VisibleTile[] {
+  const size = provider.tileSize;
+  const count = 2 ** zoom;
+  const c = project(center, zoom, size);
+  const originX = c.x - width / 2;
+  const originY = c.y - height / 2;
+
+  const tiles: VisibleTile[] = [];
+  for (let ty = Math.floor(originY / size); ty <= Math.floor((originY + height) / size); ty++) {
+    if (ty < 0 || ty >= count) continue;
+    for (let tx = Math.floor(originX / size); tx <= Math.floor((originX + width) / size); tx++) {
+      const x = ((tx % count) + count) % count;
+      tiles.push({
+        key: `${zoom}/${tx}/${ty}`,
+        url: provider.tileUrl(zoom, x, ty),
+        left: tx * size - originX,
+        top: ty * size - originY,
+      });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Where a point lands in a width x height viewport centered on `center`.
+ */
+export function toViewport(
+  point: LatLng,
+  center: LatLng,
+  zoom: number,
+  width: number,
+  height: number,
+  tileSize = 256
+): PixelPoint {
+  const p = project(point, zoom, tileSize);
+  const c = project(center, zoom, tileSize);
+  return { x: p.x - c.x + width / 2, y: p.y - c.y + height / 2 };
+}
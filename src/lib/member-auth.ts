@@ -0,0 +1,166 @@
+"use client";
+
+import { signInAnonymously, signOut } from "firebase/auth";
+import { httpsCallable } from "firebase/functions";
+import {
+  doc,
+  onSnapshot,
+  collection,
+  setDoc,
+  type Firestore,
+} from "firebase/firestore";
+import { auth, functions } from "@/firebase/client";
+import type {
+  Employee,
+  EmployeePrivate,
+  MemberRole,
+} from "@/shared/types/domain";
+
+export type MemberAccess = {
+  role: MemberRole | null;
+  employeeId: string | null;
+};
+
+export const NO_ACCESS: MemberAccess = { role: null, employeeId: null };
+
+export const isManagerRole = (role: MemberRole | null | undefined) =>
+  role === "owner" || role === "manager";
+
+/**
+ * Reads the company role from the current user's ID token claims.
+ * Claims for a different company are ignored.
+ */
+export async function readMemberAccess(
+  companyId: string,
+  forceRefresh = false
+): Promise<MemberAccess> {
+  const user = auth.currentUser;
+  if (!user) return NO_ACCESS;
+
+  const token = await user.getIdTokenResult(forceRefresh);
+  if (token.claims.companyId !== companyId) return NO_ACCESS;
+
+  const role = token.claims.role as MemberRole | undefined;
+  const employeeId = token.claims.employeeId as string | null | undefined;
+
+  return { role: role ?? null, employeeId: employeeId ?? null };
+}
+
+/**
+ * Verifies a PIN server-side and stores the resulting role as custom claims.
+ * Omit employeeId to sign in as a manager.
+ *
+ * Resolves to the refreshed access, or null when the PIN is rejected.
+ */
+export async function signInWithPin(args: {
+  companyId: string;
+  pin: string;
+  employeeId?: string;
+}): Promise<MemberAccess | null> {
+  const call = httpsCallable<typeof args, MemberAccess>(functions, "signInWithPin");
+
+  try {
+    await call(args);
+  } catch (e: any) {
+    if (e?.code === "functions/permission-denied") return null;
+    throw e;
+  }
+
+  return readMemberAccess(args.companyId, true);
+}
+
+/**
+ * Drops the company role a shared device holds: signs its anonymous user
+ * out and in again, so the next person starts without the last one's
+ * claims. Personal (non-anonymous) accounts keep theirs.
+ */
+export async function dropMemberAccess() {
+  if (auth.currentUser && !auth.currentUser.isAnonymous) return;
+
+  await signOut(auth);
+  await signInAnonymously(auth);
+}
+
+// --- Private employee fields (pin, bankInfo) ---
+
+const PRIVATE_EMPLOYEE_KEYS: (keyof EmployeePrivate)[] = ["pin", "bankInfo"];
+
+export function splitEmployeePrivate<T extends Partial<Employee>>(data: T) {
+  const publicData = { ...data };
+  const privateData: Partial<EmployeePrivate> = {};
+
+  for (const key of PRIVATE_EMPLOYEE_KEYS) {
+    if (key in publicData) {
+      (privateData as any)[key] = publicData[key];
+      delete publicData[key];
+    }
+  }
+
+  return { publicData, privateData };
+}
+
+export async function writeEmployeePrivate(
+  db: Firestore,
+  companyId: string,
+  employeeId: string,
+  data: Partial<EmployeePrivate>
+) {
+  if (!Object.keys(data).length) return;
+
+  await setDoc(
+    doc(db, "companies", companyId, "employee_private", employeeId),
+    data,
+    { merge: true }
+  );
+}
+
+/**
+ * Managers: all private employee docs, keyed by employee id.
+ */
+export function subscribeEmployeePrivates(
+  db: Firestore,
+  companyId: string,
+  onChange: (byId: Map<string, EmployeePrivate>) => void
+) {
+  return onSnapshot(
+    collection(db, "companies", companyId, "employee_private"),
+    (snap) => {
+      onChange(
+        new Map(snap.docs.map((d) => [d.id, d.data() as EmployeePrivate]))
+      );
+    },
+    (error) => {
+      console.warn("[member-auth] employee_private listener failed", error?.code);
+    }
+  );
+}
+
+/**
+ * Employees: only their own private doc.
+ */
+export function subscribeOwnEmployeePrivate(
+  db: Firestore,
+  companyId: string,
+  employeeId: string,
+  onChange: (data: EmployeePrivate | null) => void
+) {
+  return onSnapshot(
+    doc(db, "companies", companyId, "employee_private", employeeId),
+    (snap) => onChange(snap.exists() ? (snap.data() as EmployeePrivate) : null),
+    (error) => {
+      console.warn("[member-auth] own employee_private listener failed", error?.code);
+    }
+  );
+}
+
+export function mergeEmployeePrivate(
+  employees: Employee[],
+  byId: Map<string, EmployeePrivate>
+): Employee[] {
+  if (!byId.size) return employees;
+
+  return employees.map((employee) => {
+    const extra = byId.get(employee.id);
+    return extra ? { ...employee, ...extra } : employee;
+  });
+}
@@ -0,0 +1,35 @@
+// src/lib/migrations/001-site-ids.ts
+import { uuid } from "@/lib/time-utils";
+import type { Migration } from "./types";
+
+/*
+ * Sites from before the directory had ids. Everything else joins on
+ * site ids, and cloud companies only move their sites to the sites
+ * collection once every site has one.
+ */
+export const siteIds: Migration = {
+  version: 1,
+  title: "Give every site an id",
+  description: "Sites created before site ids existed get one.",
+  auto: true,
+  plan: ({ settings }) => {
+    const sites = settings.sites ?? [];
+    const missing = sites.filter((site) => !site.id);
+    if (!missing.length) return { changes: [] };
+
+    return {
+      changes: [
+        {
+          label: `Add ids to ${missing.map((site) => site.name).join(", ")}`,
+          ops: [
+            {
+              type: "settings",
+              before: { sites },
+              changes: { sites: sites.map((site) => (site.id ? site : { ...site, id: uuid() })) },
+            },
+          ],
+        },
+      ],
+    };
+  },
+};
@@ -0,0 +1,78 @@
+// src/lib/migrations/002-occurrence-overrides.ts
+import type { CleaningSchedule, OccurrenceOverride } from "@/shared/types/domain";
+import { planOccurrenceOverrideMigration } from "@/lib/occurrence-overrides";
+import type { Migration, MigrationChange, MigrationOp } from "./types";
+
+const overridePath = (o: OccurrenceOverride) =>
+  `schedules/${o.scheduleId}/occurrence_overrides/${o.id}`;
+
+/*
+ * "Only this day" copies of a series, and the per-day assignment maps
+ * written by shift swaps, become occurrence overrides. Each copy is one
+ * change: the override, the series' exception date, the copy's entries
+ * and the copy itself are written together.
+ */
+export const occurrenceOverrides: Migration = {
+  version: 2,
+  title: "Keep single-day changes with their series",
+  description:
+    "One-day copies of a recurring schedule and shift swap assignments become changes on the series itself.",
+  auto: true,
+  plan: ({ schedules, occurrenceOverrides: existing, entries, settings }, { companyId }) => {
+    const plan = planOccurrenceOverrideMigration(schedules, existing, settings.weekStartsOn);
+    const byId = new Map(schedules.map((s) => [s.id, s]));
+    const overrideOf = (scheduleId: string, date: string) =>
+      plan.overrides.find((o) => o.scheduleId === scheduleId && o.date === date);
+    const setOverride = (o: OccurrenceOverride): MigrationOp => ({
+      type: "set",
+      path: overridePath(o),
+      data: { ...o, companyId },
+    });
+
+    const changes: MigrationChange[] = [];
+
+    for (const r of plan.replaced) {
+      const series = byId.get(r.scheduleId) as CleaningSchedule;
+      const override = overrideOf(r.scheduleId, r.date);
+      const ops: MigrationOp[] = [];
+
+      if (override) ops.push(setOverride(override));
+      ops.push({
+        type: "update",
+        path: `schedules/${r.scheduleId}`,
+        before: { exceptionDates: series.exceptionDates ?? [] },
+        changes: { exceptionDates: (series.exceptionDates ?? []).filter((d) => d !== r.date) },
+      });
+      for (const e of entries.filter((e) => e.scheduleId === r.copyId)) {
+        ops.push({
+          type: "update",
+          path: `timeclock_entries/${e.id}`,
+          before: { scheduleId: e.scheduleId, scheduleDate: e.scheduleDate ?? null },
+          changes: { scheduleId: r.scheduleId, scheduleDate: e.scheduleDate || r.date },
+        });
+      }
+      ops.push({ type: "delete", path: `schedules/${r.copyId}` });
+
+      changes.push({ label: `${series.siteName} on ${r.date}: fold the one-day copy into its series`, ops });
+    }
+
+    for (const scheduleId of plan.clearedAssignmentMaps) {
+      const schedule = byId.get(scheduleId) as CleaningSchedule & { assignmentOverrides?: unknown };
+      changes.push({
+        label: `${schedule.siteName}: move shift swap assignments to overrides`,
+        ops: [
+          ...plan.overrides.filter((o) => o.scheduleId === scheduleId).map(setOverride),
+          {
+            type: "update",
+            path: `schedules/${scheduleId}`,
+            before: { assignmentOverrides: schedule.assignmentOverrides },
+            changes: {},
+            removes: ["assignmentOverrides"],
+          },
+        ],
+      });
+    }
+
+    return { changes };
+  },
+};
@@ -0,0 +1,158 @@
+// src/lib/migrations/003-site-id-backfill.ts
+import type { CleaningSchedule } from "@/shared/types/domain";
+import { indexSites, resolveSite, siteNameKey, type SiteIndex } from "@/lib/site-index";
+import type { Migration, MigrationChange } from "./types";
+
+/*
+ * Backfills siteId onto records that only name their site. Names that
+ * match no site in the directory are reported, never guessed; fix them
+ * (or add the site) and run the migration again.
+ */
+
+type SiteLinkedCollection =
+  | "schedules"
+  | "timeclock_entries"
+  | "invoices"
+  | "mileage_logs"
+  | "other_expenses";
+
+const LABELS: Record<SiteLinkedCollection, string> = {
+  schedules: "Schedule",
+  timeclock_entries: "Time entry",
+  invoices: "Invoice",
+  mileage_logs: "Mileage log",
+  other_expenses: "Expense",
+};
+
+export const siteIdBackfill: Migration = {
+  version: 3,
+  title: "Link records to sites by id",
+  description:
+    "Schedules, time entries, invoices, mileage and expenses that only name their site get its id.",
+  plan: (data) => {
+    const index = indexSites(data.settings.sites ?? []);
+    const changes: MigrationChange[] = [];
+    const unmatched = new Map<string, { name: string; collection: SiteLinkedCollection; count: number }>();
+
+    const miss = (collection: SiteLinkedCollection, name: string) => {
+      const key = `${collection}|${siteNameKey(name)}`;
+      const row = unmatched.get(key) ?? { name: name.trim(), collection, count: 0 };
+      row.count += 1;
+      unmatched.set(key, row);
+    };
+
+    // Plans siteId for one record, or reports its name when nothing matches
+    const link = (
+      collection: SiteLinkedCollection,
+      id: string,
+      siteId: string | null | undefined,
+      name: string | null | undefined
+    ) => {
+      if ((siteId && index.byId.has(siteId)) || !name?.trim()) return;
+
+      const site = resolveSite(index, undefined, name);
+      if (!site) {
+        miss(collection, name);
+        return;
+      }
+      changes.push({
+        label: `${LABELS[collection]} at ${site.name}`,
+        ops: [
+          {
+            type: "update",
+            path: `${collection}/${id}`,
+            before: { siteId: siteId ?? null },
+            changes: { siteId: site.id },
+          },
+        ],
+      });
+    };
+
+    for (const schedule of data.schedules) {
+      const update = scheduleUpdate(schedule, index, (name) => miss("schedules", name));
+      if (!update) continue;
+      changes.push({
+        label: `${LABELS.schedules} at ${schedule.siteName}`,
+        ops: [
+          {
+            type: "update",
+            path: `schedules/${schedule.id}`,
+            before: Object.fromEntries(
+              Object.keys(update).map((key) => [key, schedule[key as keyof CleaningSchedule] ?? null])
+            ),
+            changes: update,
+          },
+        ],
+      });
+    }
+
+    for (const entry of data.entries) {
+      link("timeclock_entries", entry.id, entry.siteId, entry.site);
+    }
+    for (const invoice of data.invoices) {
+      link("invoices", invoice.id, invoice.siteId, invoice.siteName);
+    }
+    for (const log of data.mileageLogs) {
+      link("mileage_logs", log.id, log.siteId, log.siteName);
+    }
+    for (const expense of data.otherExpenses) {
+      link("other_expenses", expense.id, expense.siteId, expense.siteName ?? expense.site);
+    }
+
+    const warnings = Array.from(unmatched.values())
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+      .map(
+        (u) =>
+          `"${u.name}" matches no site (${u.count} ${LABELS[u.collection].toLowerCase()}${u.count === 1 ? "" : "s"}). Rename or add it in the Site Directory, then run this again.`
+      );
+
+    return { changes, warnings };
+  },
+};
+
+/*
+ * A schedule needs siteId, siteIds for a group, and group charges keyed
+ * by site id. Returns only what changes, or null if nothing does.
+ */
+function scheduleUpdate(
+  schedule: CleaningSchedule,
+  index: SiteIndex,
+  onMiss: (name: string) => void
+): Record<string, unknown> | null {
+  const update: Record<string, unknown> = {};
+
+  if (!schedule.siteId || !index.byId.has(schedule.siteId)) {
+    const site = resolveSite(index, undefined, schedule.siteName);
+    if (site) update.siteId = site.id;
+    else if (schedule.siteName?.trim()) onMiss(schedule.siteName);
+  }
+
+  const names = schedule.siteNames ?? [];
+  if (names.length) {
+    const sites = names.map((name, i) => resolveSite(index, schedule.siteIds?.[i], name));
+    sites.forEach((site, i) => {
+      if (!site) onMiss(names[i]);
+    });
+
+    const ids = sites.map((site) => site?.id);
+    // Only a complete list; a partial one would misalign with siteNames
+    if (
+      ids.every((id): id is string => !!id) &&
+      ids.join("|") !== (schedule.siteIds ?? []).join("|")
+    ) {
+      update.siteIds = ids;
+    }
+
+    const charges = schedule.siteServiceCharges ?? {};
+    const rekeyed: Record<string, number> = {};
+    let changed = false;
+    for (const [key, amount] of Object.entries(charges)) {
+      const site = index.byId.has(key) ? undefined : resolveSite(index, undefined, key);
+      if (site) changed = true;
+      rekeyed[site ? site.id : key] = amount;
+    }
+    if (changed) update.siteServiceCharges = rekeyed;
+  }
+
+  return Object.keys(update).length ? update : null;
+}
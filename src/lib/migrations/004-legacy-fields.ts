@@ -0,0 +1,107 @@
+// src/lib/migrations/004-legacy-fields.ts
+import type { Site } from "@/shared/types/domain";
+import type { Migration, MigrationChange } from "./types";
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+/*
+ * Moves legacy fields onto the ones the app reads:
+ *   Site.serviceCharge        -> Site.revenue
+ *   Employee.hourlyRate       -> Employee.payRate
+ *   OtherExpense.site         -> OtherExpense.siteName
+ *   CleaningSchedule.assignedTo names -> assignedEmployeeIds (when empty)
+ * assignedTo itself stays; forms still write it for display.
+ */
+export const legacyFields: Migration = {
+  version: 4,
+  title: "Retire legacy fields",
+  description:
+    "Site service charges, employee hourly rates, free-text expense sites and name-only schedule assignments move to the current fields.",
+  plan: ({ settings, schedules, employees, otherExpenses }) => {
+    const changes: MigrationChange[] = [];
+    const warnings: string[] = [];
+
+    const sites = settings.sites ?? [];
+    const legacySites = sites.filter((site) => site.serviceCharge !== undefined);
+    if (legacySites.length) {
+      changes.push({
+        label: `Sites: service charge becomes revenue for ${legacySites.map((s) => s.name).join(", ")}`,
+        ops: [
+          {
+            type: "settings",
+            before: { sites },
+            changes: {
+              sites: sites.map((site): Site => {
+                if (site.serviceCharge === undefined) return site;
+                const { serviceCharge, ...rest } = site;
+                return { ...rest, revenue: site.revenue ?? serviceCharge };
+              }),
+            },
+          },
+        ],
+      });
+    }
+
+    for (const employee of employees) {
+      if (employee.hourlyRate === undefined) continue;
+      const hasPayRate = Number.isFinite(employee.payRate);
+      changes.push({
+        label: `Employee ${employee.name}: hourly rate becomes pay rate`,
+        ops: [
+          {
+            type: "update",
+            path: `employees/${employee.id}`,
+            before: { payRate: employee.payRate ?? null, hourlyRate: employee.hourlyRate },
+            changes: hasPayRate ? {} : { payRate: employee.hourlyRate },
+            removes: ["hourlyRate"],
+          },
+        ],
+      });
+    }
+
+    for (const expense of otherExpenses) {
+      if (expense.site === undefined) continue;
+      changes.push({
+        label: `Expense ${expense.description || expense.id}: site name`,
+        ops: [
+          {
+            type: "update",
+            path: `other_expenses/${expense.id}`,
+            before: { site: expense.site, siteName: expense.siteName ?? null },
+            changes: expense.siteName ? {} : { siteName: expense.site },
+            removes: ["site"],
+          },
+        ],
+      });
+    }
+
+    const employeeIdByName = new Map(employees.map((e) => [nameKey(e.name), e.id]));
+    for (const schedule of schedules) {
+      const names = schedule.assignedTo ?? [];
+      if (schedule.assignedEmployeeIds?.length || !names.length) continue;
+
+      const ids = names.map((name) => employeeIdByName.get(nameKey(name)));
+      const missing = names.filter((_, i) => !ids[i]);
+      if (missing.length) {
+        warnings.push(
+          `${schedule.siteName}: no employee named ${missing.join(", ")}. Reassign the schedule, then run this again.`
+        );
+        continue;
+      }
+
+      changes.push({
+        label: `Schedule at ${schedule.siteName}: assign ${names.join(", ")} by id`,
+        ops: [
+          {
+            type: "update",
+            path: `schedules/${schedule.id}`,
+            before: { assignedEmployeeIds: schedule.assignedEmployeeIds ?? [] },
+            changes: { assignedEmployeeIds: ids },
+          },
+        ],
+      });
+    }
+
+    return { changes, warnings };
+  },
+};
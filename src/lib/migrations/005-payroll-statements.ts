@@ -0,0 +1,32 @@
+// src/lib/migrations/005-payroll-statements.ts
+import type { Migration } from "./types";
+
+export const PAYROLL_STATEMENTS_VERSION = 1;
+
+/*
+ * Employees no longer read payroll periods, only their own line from
+ * payroll_statements, which the syncPayrollStatements function writes
+ * when a period changes. Bumping statementsVersion has it write the
+ * statements for periods saved before that.
+ */
+export const payrollStatements: Migration = {
+  version: 5,
+  title: "Publish payroll statements",
+  description: "Each employee gets their own copy of their line in every payroll period.",
+  auto: true,
+  plan: ({ payrollPeriods }) => ({
+    changes: payrollPeriods
+      .filter((period) => (period.statementsVersion ?? 0) < PAYROLL_STATEMENTS_VERSION)
+      .map((period) => ({
+        label: `Payroll period ending ${period.endDate}`,
+        ops: [
+          {
+            type: "update" as const,
+            path: `payroll_periods/${period.id}`,
+            before: { statementsVersion: period.statementsVersion ?? null },
+            changes: { statementsVersion: PAYROLL_STATEMENTS_VERSION },
+          },
+        ],
+      })),
+  }),
+};
@@ -0,0 +1,251 @@
+// src/lib/migrations/index.ts
+import type { CompanySchemaState, OccurrenceOverride } from "@/shared/types/domain";
+import { siteIds } from "./001-site-ids";
+import { occurrenceOverrides } from "./002-occurrence-overrides";
+import { siteIdBackfill } from "./003-site-id-backfill";
+import { legacyFields } from "./004-legacy-fields";
+import { payrollStatements } from "./005-payroll-statements";
+import type {
+  Migration,
+  MigrationChange,
+  MigrationContext,
+  MigrationData,
+  MigrationOp,
+  PlannedMigration,
+} from "./types";
+
+export type {
+  Migration,
+  MigrationChange,
+  MigrationContext,
+  MigrationData,
+  MigrationOp,
+  PlannedMigration,
+} from "./types";
+
+/*
+ * Company data migrations.
+ *
+ * Each company records the last migration applied as schemaVersion on
+ * companies/{companyId} (settings.meta in the local engine). Pending
+ * migrations are planned in order, each against the data as the ones
+ * before it leave it, so the whole run can be shown as a dry run before
+ * anything is written.
+ *
+ * To add one: create NNN-name.ts exporting a Migration with the next
+ * version and append it below. Never renumber or edit a migration that
+ * has shipped; write a new one.
+ */
+export const MIGRATIONS: Migration[] = [
+  siteIds,
+  occurrenceOverrides,
+  siteIdBackfill,
+  legacyFields,
+  payrollStatements,
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Firestore allows 500 writes per batch; one more is the checkpoint
+export const MIGRATION_BATCH_SIZE = 450;
+
+/**
+ * The company's schema version. Companies from before schemaVersion are
+ * placed by the flags the one-time migrations used to leave in
+ * settings.meta.
+ */
+export function schemaVersionOf(
+  state: CompanySchemaState | null | undefined,
+  meta?: Record<string, unknown> | null
+): number {
+  if (typeof state?.schemaVersion === "number") return state.schemaVersion;
+  if (Number(meta?.siteIdsVersion ?? 0) >= 1) return siteIdBackfill.version;
+  if (meta?.migratedOccurrenceOverrides) return occurrenceOverrides.version;
+  if (meta?.migratedSiteIds) return siteIds.version;
+  return 0;
+}
+
+export const pendingMigrations = (version: number) =>
+  MIGRATIONS.filter((m) => m.version > version);
+
+/**
+ * Plans every migration after `fromVersion`. With autoOnly, stops at the
+ * first one that needs a manager to review it.
+ */
+export function planMigrations(
+  data: MigrationData,
+  fromVersion: number,
+  ctx: MigrationContext,
+  options: { autoOnly?: boolean } = {}
+): PlannedMigration[] {
+  const planned: PlannedMigration[] = [];
+  let current = data;
+
+  for (const migration of pendingMigrations(fromVersion)) {
+    if (options.autoOnly && !migration.auto) break;
+
+    const result = migration.plan(current, ctx);
+    planned.push({ migration, ...result });
+    current = applyMigrationOps(
+      current,
+      result.changes.flatMap((c) => c.ops)
+    );
+  }
+
+  return planned;
+}
+
+export const countOps = (changes: MigrationChange[]) =>
+  changes.reduce((n, c) => n + c.ops.filter((op) => op.type !== "settings").length, 0);
+
+/**
+ * Packs whole changes into batches of at most `size` document writes.
+ * A change is never split, so one bigger than a batch goes alone.
+ */
+export function migrationBatches(
+  changes: MigrationChange[],
+  size = MIGRATION_BATCH_SIZE
+): MigrationChange[][] {
+  const batches: MigrationChange[][] = [];
+  let current: MigrationChange[] = [];
+  let writes = 0;
+
+  for (const change of changes) {
+    const n = countOps([change]);
+    if (current.length && writes + n > size) {
+      batches.push(current);
+      current = [];
+      writes = 0;
+    }
+    current.push(change);
+    writes += n;
+  }
+  if (current.length) batches.push(current);
+
+  return batches;
+}
+
+// ---------------------------------------------------------------
+// In-memory apply, for the local engine and for chaining plans
+// ---------------------------------------------------------------
+
+type ListKey =
+  | "schedules"
+  | "entries"
+  | "invoices"
+  | "mileageLogs"
+  | "otherExpenses"
+  | "employees"
+  | "payrollPeriods";
+
+const LIST_KEYS: Record<string, ListKey> = {
+  schedules: "schedules",
+  timeclock_entries: "entries",
+  invoices: "invoices",
+  mileage_logs: "mileageLogs",
+  other_expenses: "otherExpenses",
+  employees: "employees",
+  payroll_periods: "payrollPeriods",
+};
+
+type DocOp = Exclude<MigrationOp, { type: "settings" }>;
+
+function applyToRecord<T extends { id: string }>(record: T, op: DocOp): T | null {
+  if (op.type === "delete") return null;
+  if (op.type === "set") return { ...op.data, id: record.id } as unknown as T;
+
+  const next: Record<string, unknown> = { ...record, ...op.changes };
+  op.removes?.forEach((key) => delete next[key]);
+  return next as T;
+}
+
+function applyToList<T extends { id: string }>(
+  list: T[],
+  matches: (record: T) => boolean,
+  op: DocOp,
+  id: string
+): T[] {
+  const index = list.findIndex(matches);
+  if (index === -1) {
+    return op.type === "set" ? [...list, applyToRecord({ id } as T, op)!] : list;
+  }
+
+  const next = applyToRecord(list[index], op);
+  return next
+    ? list.map((record, i) => (i === index ? next : record))
+    : list.filter((_, i) => i !== index);
+}
+
+/**
+ * Returns `data` with the ops applied. Paths the app does not hold in
+ * memory are ignored.
+ */
+export function applyMigrationOps(data: MigrationData, ops: MigrationOp[]): MigrationData {
+  let next = data;
+
+  for (const op of ops) {
+    if (op.type === "settings") {
+      next = { ...next, settings: { ...next.settings, ...op.changes } };
+      continue;
+    }
+
+    const [collection, id, sub, subId] = op.path.split("/");
+
+    if (collection === "schedules" && sub === "occurrence_overrides" && subId) {
+      next = {
+        ...next,
+        occurrenceOverrides: applyToList<OccurrenceOverride>(
+          next.occurrenceOverrides,
+          (o) => o.scheduleId === id && o.id === subId,
+          op,
+          subId
+        ),
+      };
+      continue;
+    }
+
+    const key = LIST_KEYS[collection];
+    if (!key || sub) continue;
+
+    const list = next[key] as { id: string }[];
+    next = { ...next, [key]: applyToList(list, (r) => r.id === id, op, id) };
+  }
+
+  return next;
+}
+
+// ---------------------------------------------------------------
+// Dry run
+// ---------------------------------------------------------------
+
+const show = (value: unknown) => {
+  if (value === undefined || value === null) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+};
+
+/**
+ * One line per field an op changes, e.g. `schedules/abc siteId: — → site-1`.
+ */
+export function describeMigrationOp(op: MigrationOp): string[] {
+  switch (op.type) {
+    case "settings":
+      return Object.keys(op.changes).map(
+        (key) =>
+          `settings ${key}: ${show(op.before[key as keyof typeof op.before])} → ${show(
+            op.changes[key as keyof typeof op.changes]
+          )}`
+      );
+    case "set":
+      return [`${op.path}: create`];
+    case "delete":
+      return [`${op.path}: delete`];
+    case "update":
+      return [
+        ...Object.keys(op.changes).map(
+          (key) => `${op.path} ${key}: ${show(op.before[key])} → ${show(op.changes[key])}`
+        ),
+        ...(op.removes ?? []).map((key) => `${op.path} ${key}: ${show(op.before[key])} → removed`),
+      ];
+  }
+}
@@ -0,0 +1,83 @@
+// src/lib/migrations/types.ts
+import type {
+  CleaningSchedule,
+  Employee,
+  Entry,
+  Invoice,
+  MileageLog,
+  OccurrenceOverride,
+  OtherExpense,
+  PayrollPeriod,
+  Settings,
+} from "@/shared/types/domain";
+
+/**
+ * Everything a migration may read. Cloud loads it fresh from Firestore
+ * before planning; the local engine passes its in-memory state.
+ */
+export type MigrationData = {
+  settings: Settings;
+  schedules: CleaningSchedule[];
+  occurrenceOverrides: OccurrenceOverride[];
+  entries: Entry[];
+  invoices: Invoice[];
+  mileageLogs: MileageLog[];
+  otherExpenses: OtherExpense[];
+  employees: Employee[];
+  payrollPeriods: PayrollPeriod[];
+};
+
+export type MigrationContext = {
+  companyId: string;
+};
+
+/*
+ * One write. Paths are relative to companies/{companyId}, e.g.
+ * "schedules/abc" or "schedules/abc/occurrence_overrides/2025-03-04".
+ * Settings go through the normal settings writer (it splits private
+ * fields and the site directory), so they get their own kind.
+ */
+export type MigrationOp =
+  | { type: "settings"; before: Partial<Settings>; changes: Partial<Settings> }
+  | { type: "set"; path: string; data: Record<string, unknown> }
+  | {
+      type: "update";
+      path: string;
+      before: Record<string, unknown>;
+      changes: Record<string, unknown>;
+      removes?: string[];
+    }
+  | { type: "delete"; path: string };
+
+/**
+ * A unit of work that is written atomically (one batch), described for
+ * the dry run.
+ */
+export type MigrationChange = {
+  label: string;
+  ops: MigrationOp[];
+};
+
+export type MigrationResult = {
+  changes: MigrationChange[];
+  // Things the migration could not fix on its own
+  warnings?: string[];
+};
+
+/*
+ * A numbered, idempotent step. plan() must return no changes once its
+ * changes are in place, so an interrupted run is resumed by planning
+ * again and applying whatever is left.
+ */
+export type Migration = {
+  version: number;
+  title: string;
+  description: string;
+  // Applied on load without review; only for changes with no judgement calls
+  auto?: boolean;
+  plan: (data: MigrationData, ctx: MigrationContext) => MigrationResult;
+};
+
+export type PlannedMigration = MigrationResult & {
+  migration: Migration;
+};
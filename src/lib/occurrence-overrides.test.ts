@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { CleaningSchedule, OccurrenceOverride } from "@/shared/types/domain";
+import { applyOccurrenceOverride } from "./occurrence-overrides";
+
+const schedule: CleaningSchedule = {
+  id: "sch-1",
+  siteName: "Main St",
+  tasks: "Floors",
+  assignedTo: [],
+  assignedEmployeeIds: [],
+  assignedTeamId: "team-a",
+  startDate: "2025-03-03",
+  repeatFrequency: "weekly",
+  daysOfWeek: ["Monday"],
+};
+
+const override = (changes: OccurrenceOverride["changes"]): OccurrenceOverride => ({
+  id: "2025-03-10",
+  scheduleId: "sch-1",
+  date: "2025-03-10",
+  changes,
+});
+
+describe("applyOccurrenceOverride", () => {
+  it("keeps the series team when the day's changes leave assignment alone", () => {
+    const applied = applyOccurrenceOverride(schedule, override({ tasks: "Windows" }));
+    expect(applied).toMatchObject({ tasks: "Windows", assignedTeamId: "team-a" });
+  });
+
+  it("drops the team when the day is given to people instead", () => {
+    const applied = applyOccurrenceOverride(
+      schedule,
+      override({ assignedTo: ["Ann"], assignedEmployeeIds: ["e1"], assignedTeamId: "" })
+    );
+    expect(applied).not.toHaveProperty("assignedTeamId");
+    expect(applied.assignedEmployeeIds).toEqual(["e1"]);
+  });
+
+  it("switches to another team", () => {
+    expect(applyOccurrenceOverride(schedule, override({ assignedTeamId: "team-b" })).assignedTeamId).toBe(
+      "team-b"
+    );
+  });
+});
@@ -0,0 +1,381 @@
+// src/lib/occurrence-overrides.ts
+import { format, parseISO } from "date-fns";
+import type {
+  CleaningSchedule,
+  OccurrenceChanges,
+  OccurrenceOverride,
+} from "@/shared/types/domain";
+import { scheduleOccurrences, scheduleOccursOn } from "@/lib/recurrence";
+
+/*
+ * Per-occurrence overrides for CleaningSchedule.
+ *
+ * Changing "only this day" used to add an exception date to the series
+ * and create a one-off copy, so the day's entries pointed at a schedule
+ * id that no longer matched the series. An override instead sits next
+ * to the series (schedules/{id}/occurrence_overrides/{date}) and can
+ * reassign, move, edit or cancel that one occurrence.
+ *
+ * Every consumer that expands schedules into days should go through
+ * occurrencesOn / occurrencesBetween so overrides apply everywhere.
+ */
+
+export type ResolvedOccurrence = {
+  // The series with the day's changes applied
+  schedule: CleaningSchedule;
+  date: string; // yyyy-MM-dd, the day it is worked
+  originalDate: string; // yyyy-MM-dd, the day the series generates
+  override?: OccurrenceOverride;
+  cancelled: boolean;
+};
+
+type OverrideIndex = {
+  byOccurrence: Map<string, OccurrenceOverride>;
+  movedIn: Map<string, OccurrenceOverride[]>; // key = movedTo
+};
+
+// Fields an occurrence may change (OccurrenceChanges)
+export const OCCURRENCE_FIELDS = [
+  "siteId",
+  "siteName",
+  "siteIds",
+  "siteNames",
+  "siteGroupLabelMode",
+  "siteGroupName",
+  "tasks",
+  "note",
+  "assignedTo",
+  "assignedEmployeeIds",
+  "assignedTeamId",
+  "startTime",
+  "windowStart",
+  "windowEnd",
+  "finishByTime",
+  "serviceCharge",
+  "siteServiceCharges",
+] as const satisfies readonly (keyof OccurrenceChanges)[];
+
+const ASSIGNMENT_FIELDS = ["assignedTo", "assignedEmployeeIds", "assignedTeamId"] as const;
+
+const key = (scheduleId: string, date: string) => `${scheduleId}|${date}`;
+
+const isMoved = (override?: OccurrenceOverride) =>
+  !!override?.movedTo && override.movedTo !== override.date;
+
+const indexCache = new WeakMap<OccurrenceOverride[], OverrideIndex>();
+
+function indexOverrides(overrides: OccurrenceOverride[]): OverrideIndex {
+  const cached = indexCache.get(overrides);
+  if (cached) return cached;
+
+  const index: OverrideIndex = { byOccurrence: new Map(), movedIn: new Map() };
+  for (const override of overrides) {
+    index.byOccurrence.set(key(override.scheduleId, override.date), override);
+    if (isMoved(override)) {
+      const list = index.movedIn.get(override.movedTo!) ?? [];
+      list.push(override);
+      index.movedIn.set(override.movedTo!, list);
+    }
+  }
+
+  indexCache.set(overrides, index);
+  return index;
+}
+
+/**
+ * The override for the occurrence the series generates on `date`.
+ */
+export const findOccurrenceOverride = (
+  overrides: OccurrenceOverride[],
+  scheduleId: string,
+  date: string
+) => indexOverrides(overrides).byOccurrence.get(key(scheduleId, date));
+
+/**
+ * The override behind the occurrence worked on `day`, following moves:
+ * a visit moved to `day` is found by its new date.
+ */
+export function occurrenceOverrideOn(
+  overrides: OccurrenceOverride[],
+  scheduleId: string,
+  day: string
+) {
+  const index = indexOverrides(overrides);
+  const movedHere = index.movedIn.get(day)?.find((o) => o.scheduleId === scheduleId);
+  if (movedHere) return movedHere;
+
+  const own = index.byOccurrence.get(key(scheduleId, day));
+  return isMoved(own) ? undefined : own;
+}
+
+/**
+ * The schedule as worked on one day. The series fields are kept, so
+ * startDate and the recurrence still describe the whole series.
+ */
+export function applyOccurrenceOverride(
+  schedule: CleaningSchedule,
+  override?: OccurrenceOverride
+): CleaningSchedule {
+  if (!override?.changes) return schedule;
+
+  const applied = { ...schedule, ...override.changes };
+  // An empty team id means the day is assigned to people, not a team;
+  // changes that leave the assignment alone keep the series team
+  if ("assignedTeamId" in override.changes && !override.changes.assignedTeamId) {
+    delete applied.assignedTeamId;
+  }
+  return applied;
+}
+
+function resolve(
+  schedule: CleaningSchedule,
+  date: string,
+  originalDate: string,
+  override?: OccurrenceOverride
+): ResolvedOccurrence {
+  return {
+    schedule: applyOccurrenceOverride(schedule, override),
+    date,
+    originalDate,
+    override,
+    cancelled: !!override?.cancelled,
+  };
+}
+
+/**
+ * Every occurrence worked on `day`, cancelled ones included.
+ */
+export function occurrencesOn(
+  schedules: CleaningSchedule[],
+  overrides: OccurrenceOverride[],
+  day: string,
+  weekStartsOn: number
+): ResolvedOccurrence[] {
+  const index = indexOverrides(overrides);
+  const out: ResolvedOccurrence[] = [];
+
+  for (const schedule of schedules) {
+    if (!schedule.startDate || !scheduleOccursOn(schedule, day, weekStartsOn)) continue;
+
+    const override = index.byOccurrence.get(key(schedule.id, day));
+    if (isMoved(override)) continue;
+    out.push(resolve(schedule, day, day, override));
+  }
+
+  for (const override of index.movedIn.get(day) ?? []) {
+    const schedule = schedules.find((s) => s.id === override.scheduleId);
+    if (!schedule?.startDate) continue;
+    if (!scheduleOccursOn(schedule, override.date, weekStartsOn)) continue;
+    out.push(resolve(schedule, day, override.date, override));
+  }
+
+  return out;
+}
+
+/**
+ * The schedules worked on `day`, without cancelled occurrences.
+ */
+export const schedulesOn = (
+  schedules: CleaningSchedule[],
+  overrides: OccurrenceOverride[],
+  day: string,
+  weekStartsOn: number
+) =>
+  occurrencesOn(schedules, overrides, day, weekStartsOn)
+    .filter((o) => !o.cancelled)
+    .map((o) => o.schedule);
+
+/**
+ * Every occurrence worked between `from` and `to` (inclusive), sorted by
+ * day, cancelled ones included.
+ */
+export function occurrencesBetween(
+  schedules: CleaningSchedule[],
+  overrides: OccurrenceOverride[],
+  from: string,
+  to: string,
+  weekStartsOn: number
+): ResolvedOccurrence[] {
+  const index = indexOverrides(overrides);
+  const out: ResolvedOccurrence[] = [];
+
+  for (const schedule of schedules) {
+    if (!schedule.startDate) continue;
+
+    for (const date of scheduleOccurrences(schedule, from, to, weekStartsOn)) {
+      const override = index.byOccurrence.get(key(schedule.id, date));
+      if (isMoved(override)) continue;
+      out.push(resolve(schedule, date, date, override));
+    }
+  }
+
+  for (const [day, moved] of index.movedIn) {
+    if (day < from || day > to) continue;
+    for (const override of moved) {
+      const schedule = schedules.find((s) => s.id === override.scheduleId);
+      if (!schedule?.startDate) continue;
+      if (!scheduleOccursOn(schedule, override.date, weekStartsOn)) continue;
+      out.push(resolve(schedule, day, override.date, override));
+    }
+  }
+
+  return out.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null) ||
+  ((a ?? "") === "" && (b ?? "") === "");
+
+/**
+ * The fields of `edited` that differ from the series. A changed
+ * assignment always carries all three assignment fields so the override
+ * replaces the series' assignees rather than mixing with them.
+ */
+export function occurrenceChanges(
+  series: CleaningSchedule,
+  edited: Partial<CleaningSchedule>
+): OccurrenceChanges {
+  const changes: Record<string, unknown> = {};
+
+  for (const field of OCCURRENCE_FIELDS) {
+    if (!(field in edited)) continue;
+    if (!sameValue(series[field], edited[field])) changes[field] = edited[field];
+  }
+
+  if (ASSIGNMENT_FIELDS.some((field) => field in changes)) {
+    changes.assignedTo = edited.assignedTo ?? [];
+    changes.assignedEmployeeIds = edited.assignedEmployeeIds ?? [];
+    changes.assignedTeamId = edited.assignedTeamId ?? "";
+  }
+
+  return changes as OccurrenceChanges;
+}
+
+/**
+ * Short labels for what an override does, for badges and tooltips.
+ */
+export function describeOccurrenceOverride(override: OccurrenceOverride): string[] {
+  const labels: string[] = [];
+  const changes = override.changes ?? {};
+
+  if (override.cancelled) {
+    labels.push(override.cancelReason ? `Cancelled: ${override.cancelReason}` : "Cancelled");
+  }
+  if (isMoved(override)) labels.push(`Moved from ${format(parseISO(override.date), "MMM d")}`);
+  if (ASSIGNMENT_FIELDS.some((field) => field in changes)) {
+    labels.push(override.shiftSwapId ? "Shift swap" : "Reassigned");
+  }
+  if ("tasks" in changes || "note" in changes) labels.push("Tasks changed");
+  if ("serviceCharge" in changes || "siteServiceCharges" in changes) {
+    labels.push("Charge adjusted");
+  }
+  if (["startTime", "windowStart", "windowEnd", "finishByTime"].some((f) => f in changes)) {
+    labels.push("Time changed");
+  }
+  if (["siteName", "siteNames"].some((f) => f in changes)) labels.push("Site changed");
+
+  return labels;
+}
+
+// ---------------------------------------------------------------
+// Migration from split series
+// ---------------------------------------------------------------
+
+export type OccurrenceOverrideMigration = {
+  overrides: OccurrenceOverride[];
+  // One-off copies to delete; the series drops `date` from its
+  // exceptionDates and takes over the copy's entries
+  replaced: { copyId: string; scheduleId: string; date: string }[];
+  // Series whose legacy assignmentOverrides map was folded in
+  clearedAssignmentMaps: string[];
+};
+
+const sameSite = (a: CleaningSchedule, b: CleaningSchedule) =>
+  a.siteName?.trim().toLowerCase() === b.siteName?.trim().toLowerCase();
+
+/**
+ * Plans the move from "edit only this day" copies to overrides.
+ *
+ * A copy is a does-not-repeat schedule on a date that a series at the
+ * same site skips with an exception date it would otherwise generate.
+ * The copy becomes an override on that series, the exception date is
+ * dropped, and entries pointing at the copy should be moved to the
+ * series (see replaced). Legacy per-day assignment maps written by
+ * shift swaps are folded in as well.
+ */
+export function planOccurrenceOverrideMigration(
+  schedules: CleaningSchedule[],
+  existing: OccurrenceOverride[],
+  weekStartsOn: number
+): OccurrenceOverrideMigration {
+  const plan: OccurrenceOverrideMigration = {
+    overrides: [],
+    replaced: [],
+    clearedAssignmentMaps: [],
+  };
+  const planned = new Map<string, OccurrenceOverride>();
+  const overrideFor = (scheduleId: string, date: string) =>
+    planned.get(key(scheduleId, date)) ??
+    findOccurrenceOverride(existing, scheduleId, date) ?? {
+      id: date,
+      scheduleId,
+      date,
+    };
+
+  const series = schedules.filter((s) => s.repeatFrequency !== "does-not-repeat");
+
+  for (const copy of schedules) {
+    if (copy.repeatFrequency !== "does-not-repeat" || !copy.startDate) continue;
+    const date = copy.startDate;
+
+    const base = series.find((s) => {
+      if (!sameSite(s, copy) || !s.exceptionDates?.includes(date)) return false;
+      return scheduleOccursOn(
+        { ...s, exceptionDates: s.exceptionDates.filter((d) => d !== date) },
+        date,
+        weekStartsOn
+      );
+    });
+    if (!base || planned.has(key(base.id, date))) continue;
+
+    const current = overrideFor(base.id, date);
+    planned.set(key(base.id, date), {
+      ...current,
+      changes: { ...current.changes, ...occurrenceChanges(base, copy) },
+    });
+    plan.replaced.push({ copyId: copy.id, scheduleId: base.id, date });
+  }
+
+  for (const schedule of schedules) {
+    const legacy = (schedule as { assignmentOverrides?: Record<string, LegacyAssignment> })
+      .assignmentOverrides;
+    if (!legacy || plan.replaced.some((r) => r.copyId === schedule.id)) continue;
+
+    for (const [date, assignment] of Object.entries(legacy)) {
+      const current = overrideFor(schedule.id, date);
+      planned.set(key(schedule.id, date), {
+        ...current,
+        changes: {
+          ...current.changes,
+          assignedEmployeeIds: assignment.assignedEmployeeIds ?? [],
+          assignedTo: assignment.assignedTo ?? [],
+          assignedTeamId: "",
+        },
+        shiftSwapId: assignment.shiftSwapId ?? current.shiftSwapId ?? null,
+      });
+    }
+    plan.clearedAssignmentMaps.push(schedule.id);
+  }
+
+  plan.overrides = Array.from(planned.values());
+  return plan;
+}
+
+type LegacyAssignment = {
+  assignedEmployeeIds?: string[];
+  assignedTo?: string[];
+  shiftSwapId?: string | null;
+};
+
+export const isEmptyMigration = (plan: OccurrenceOverrideMigration) =>
+  !plan.overrides.length && !plan.clearedAssignmentMaps.length;
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import type { Entry, OvertimeRules, Session, Site } from "@/shared/types/domain";
+import { calculateOvertime, DEFAULT_OVERTIME_RULES } from "./overtime";
+
+const sites: Site[] = [{ id: "site-h", name: "Harbor Hospital", bonusType: "hourly", bonusAmount: 5 }];
+
+// Local time, like the engine's day and week keys. March 2, 2025 is a Sunday.
+const at = (day: number, hour = 8) => new Date(2025, 2, day, hour).getTime();
+
+const shift = (day: number, hours: number, entry: Partial<Entry> = {}, patch: Partial<Session> = {}): Session => {
+  const base = { employee: "Ann Lee", employeeId: "e1", ...entry };
+  return {
+    employee: "Ann Lee",
+    employeeId: "e1",
+    in: { id: `in-${day}`, action: "in", ts: at(day), ...base },
+    out: { id: `out-${day}`, action: "out", ts: at(day) + hours * 60 * 60 * 1000, ...base },
+    minutes: hours * 60,
+    ...patch,
+  };
+};
+
+const overtime = (
+  sessions: Session[],
+  {
+    rules = DEFAULT_OVERTIME_RULES,
+    weekStartsOn = 0,
+    periodStart = at(1, 0),
+    periodEnd = at(31, 23),
+  }: Partial<{ rules: OvertimeRules; weekStartsOn: 0 | 1 | 4; periodStart: number; periodEnd: number }> = {}
+) => calculateOvertime({ sessions, baseRate: 20, sites, weekStartsOn, rules, periodStart, periodEnd });
+
+describe("weekly overtime", () => {
+  // Mon and Tue before the period starts on Wednesday, Wed to Fri inside it
+  const week = [shift(3, 10), shift(4, 10), shift(5, 10), shift(6, 10), shift(7, 10)];
+
+  it("counts the workweek's hours from before the period", () => {
+    const result = overtime(week, { periodStart: at(5, 0) });
+
+    expect(result.totalMinutes).toBe(30 * 60);
+    expect(result.regularMinutes).toBe(20 * 60);
+    expect(result.overtimeMinutes).toBe(10 * 60);
+    expect(result.overtimePremium).toBe(100);
+  });
+
+  it("leaves the overtime to the period it falls in", () => {
+    const result = overtime(week, { periodEnd: at(4, 23) });
+
+    expect(result.totalMinutes).toBe(20 * 60);
+    expect(result.overtimeMinutes).toBe(0);
+    expect(result.overtimePremium).toBe(0);
+  });
+});
+
+describe("daily thresholds", () => {
+  const rules: OvertimeRules = {
+    ...DEFAULT_OVERTIME_RULES,
+    dailyOvertimeEnabled: true,
+    dailyDoubleTimeEnabled: true,
+  };
+
+  it("splits a long day into regular, overtime and double time", () => {
+    const result = overtime([shift(3, 13)], { rules });
+
+    expect(result.regularMinutes).toBe(8 * 60);
+    expect(result.overtimeMinutes).toBe(4 * 60);
+    expect(result.doubleTimeMinutes).toBe(60);
+  });
+
+  it("adds up sessions on the same day", () => {
+    const split = shift(3, 4);
+    split.in!.ts = at(3, 15);
+    split.out!.ts = at(3, 19);
+
+    const result = overtime([shift(3, 6), split], { rules });
+    expect(result.regularMinutes).toBe(8 * 60);
+    expect(result.overtimeMinutes).toBe(2 * 60);
+  });
+
+  it("counts only regular minutes toward the weekly threshold, never a minute twice", () => {
+    const result = overtime(
+      [shift(3, 13), shift(4, 8), shift(5, 8), shift(6, 8), shift(7, 8), shift(8, 5)],
+      { rules }
+    );
+
+    // Monday's 5 daily premium hours leave Saturday's 5 as weekly overtime
+    expect(result.totalMinutes).toBe(50 * 60);
+    expect(result.regularMinutes).toBe(40 * 60);
+    expect(result.overtimeMinutes).toBe(9 * 60);
+    expect(result.doubleTimeMinutes).toBe(60);
+    expect(result.regularMinutes + result.overtimeMinutes + result.doubleTimeMinutes).toBe(
+      result.totalMinutes
+    );
+    expect(result.overtimePremium).toBe(9 * 20 * 0.5 + 20);
+  });
+});
+
+describe("regular rate", () => {
+  it("blends the hourly site bonus into the week's regular rate", () => {
+    const hospital = { siteId: "site-h", site: "Harbor Hospital" };
+    const result = overtime([
+      shift(3, 10),
+      shift(4, 10),
+      shift(5, 10),
+      shift(6, 8, hospital),
+      shift(7, 7, hospital),
+    ]);
+
+    // (30h x $20 + 15h x $25) / 45h
+    expect(result.regularRateOfPay).toBe(21.67);
+    expect(result.weeks[0].straightTimePay).toBe(975);
+    expect(result.overtimeMinutes).toBe(5 * 60);
+    expect(result.overtimePremium).toBe(54.17);
+  });
+
+  it("finds a renamed site by id", () => {
+    const renamed = { siteId: "site-h", site: "Old Hospital Name" };
+    const result = overtime([shift(3, 10, renamed), shift(4, 10, renamed), shift(5, 10, renamed), shift(6, 20, renamed)]);
+
+    expect(result.regularRateOfPay).toBe(25);
+  });
+});
+
+describe("workweek start", () => {
+  // Thursday to Monday, ten hours a day
+  const run = [shift(6, 10), shift(7, 10), shift(8, 10), shift(9, 10), shift(10, 10)];
+
+  it("splits weeks on the company's start day", () => {
+    expect(overtime(run, { weekStartsOn: 0 }).overtimeMinutes).toBe(0);
+    expect(overtime(run, { weekStartsOn: 1 }).overtimeMinutes).toBe(0);
+    expect(overtime(run, { weekStartsOn: 4 }).overtimeMinutes).toBe(10 * 60);
+  });
+
+  it("labels each week by its first day", () => {
+    expect(overtime(run, { weekStartsOn: 0 }).weeks.map((w) => w.weekStart)).toEqual([
+      "2025-03-02",
+      "2025-03-09",
+    ]);
+    expect(overtime(run, { weekStartsOn: 4 }).weeks.map((w) => w.weekStart)).toEqual(["2025-03-06"]);
+  });
+});
+
+describe("sessions awaiting review", () => {
+  const week = [shift(3, 10), shift(4, 10), shift(5, 10), shift(6, 10)];
+
+  it("leaves them out of hours and overtime until a manager settles them", () => {
+    const pending = shift(7, 5, {}, { needsReview: true });
+
+    expect(overtime([...week, pending]).totalMinutes).toBe(40 * 60);
+    expect(overtime([...week, pending]).overtimeMinutes).toBe(0);
+    expect(overtime([...week, { ...pending, needsReview: false }]).overtimeMinutes).toBe(5 * 60);
+  });
+});
@@ -0,0 +1,220 @@
+// src/lib/overtime.ts
+import { format, startOfWeek } from "date-fns";
+import type { Entry, OvertimeRules, Session, Site } from "@/shared/types/domain";
+import { resolveSite } from "@/lib/site-index";
+
+export const DEFAULT_OVERTIME_RULES: OvertimeRules = {
+  weeklyThresholdMinutes: 40 * 60,
+  dailyOvertimeEnabled: false,
+  dailyOvertimeThresholdMinutes: 8 * 60,
+  dailyDoubleTimeEnabled: false,
+  dailyDoubleTimeThresholdMinutes: 12 * 60,
+};
+
+type WeekStartsOn = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+type CompletedSession = Session & {
+  in: NonNullable<Session["in"]>;
+  out: NonNullable<Session["out"]>;
+};
+
+export type OvertimeWeek = {
+  weekStart: string; // yyyy-MM-dd
+  totalMinutes: number;
+  straightTimePay: number;
+  regularRateOfPay: number;
+  overtimeMinutes: number;
+  doubleTimeMinutes: number;
+};
+
+export type OvertimeBreakdown = {
+  totalMinutes: number;
+  regularMinutes: number;
+  overtimeMinutes: number;
+  doubleTimeMinutes: number;
+
+  // Half-time on overtime hours, full-time on double-time hours.
+  // Straight time for every hour is already part of base pay.
+  overtimePremium: number;
+
+  // Hours-weighted regular rate across weeks that had overtime.
+  regularRateOfPay: number;
+
+  weeks: OvertimeWeek[];
+};
+
+type CalculateOvertimeArgs = {
+  sessions: Session[];
+  baseRate: number;
+  sites: Site[];
+  weekStartsOn: WeekStartsOn;
+  rules?: OvertimeRules;
+
+  // Only sessions clocked in within [periodStart, periodEnd] are reported.
+  // Sessions outside the period still count toward their workweek totals.
+  periodStart: number;
+  periodEnd: number;
+};
+
+function round2(n: number) {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+function isCompleted(session: Session): session is CompletedSession {
+  return !!session.in && !!session.out;
+}
+
+function hourlyBonusFor(entry: Pick<Entry, "siteId" | "site">, sites: Site[]) {
+  const site = resolveSite(sites, entry.siteId, entry.site || "General");
+  return site?.bonusType === "hourly" ? Number(site.bonusAmount ?? 0) || 0 : 0;
+}
+
+/**
+ * Splits an employee's session minutes into regular / overtime / double-time
+ * buckets and computes the FLSA overtime premium.
+ *
+ * Workweeks start on `weekStartsOn`. Each session is attributed to the day and
+ * week in which it was clocked in. Daily rules are applied first, then the
+ * remaining regular minutes are checked against the weekly threshold so the
+ * same minute is never counted as overtime twice.
+ *
+ * The regular rate of pay is the week's straight-time earnings (base rate plus
+ * hourly site bonus) divided by the week's total hours.
+ */
+export function calculateOvertime({
+  sessions,
+  baseRate,
+  sites,
+  weekStartsOn,
+  rules = DEFAULT_OVERTIME_RULES,
+  periodStart,
+  periodEnd,
+}: CalculateOvertimeArgs): OvertimeBreakdown {
+  const weeklyThreshold = Math.max(0, rules.weeklyThresholdMinutes || 0) || Infinity;
+
+  const dailyOvertimeThreshold = rules.dailyOvertimeEnabled
+    ? Math.max(0, rules.dailyOvertimeThresholdMinutes ?? 8 * 60)
+    : Infinity;
+
+  const dailyDoubleTimeThreshold = rules.dailyDoubleTimeEnabled
+    ? Math.max(0, rules.dailyDoubleTimeThresholdMinutes ?? 12 * 60)
+    : Infinity;
+
+  // Auto-closed sessions awaiting review are left out until a manager settles them
+  const completed = sessions
+    .filter((session) => !session.needsReview)
+    .filter(isCompleted)
+    .sort((a, b) => a.in.ts - b.in.ts);
+
+  const byWeek = new Map<string, CompletedSession[]>();
+
+  for (const session of completed) {
+    const weekKey = format(
+      startOfWeek(new Date(session.in.ts), { weekStartsOn }),
+      "yyyy-MM-dd"
+    );
+
+    if (!byWeek.has(weekKey)) byWeek.set(weekKey, []);
+    byWeek.get(weekKey)!.push(session);
+  }
+
+  const result: OvertimeBreakdown = {
+    totalMinutes: 0,
+    regularMinutes: 0,
+    overtimeMinutes: 0,
+    doubleTimeMinutes: 0,
+    overtimePremium: 0,
+    regularRateOfPay: 0,
+    weeks: [],
+  };
+
+  let weightedRateHours = 0;
+  let weightedRateTotal = 0;
+
+  for (const [weekStart, weekSessions] of byWeek) {
+    const weekMinutes = weekSessions.reduce(
+      (sum, s) => sum + Number(s.minutes ?? 0),
+      0
+    );
+
+    const straightTimePay = weekSessions.reduce((sum, s) => {
+      const rate = baseRate + hourlyBonusFor(s.in, sites);
+      return sum + (Number(s.minutes ?? 0) / 60) * rate;
+    }, 0);
+
+    const regularRateOfPay = weekMinutes > 0 ? straightTimePay / (weekMinutes / 60) : 0;
+
+    const minutesByDay = new Map<string, number>();
+    let weekRegularMinutes = 0;
+
+    const week: OvertimeWeek = {
+      weekStart,
+      totalMinutes: 0,
+      straightTimePay: 0,
+      regularRateOfPay: round2(regularRateOfPay),
+      overtimeMinutes: 0,
+      doubleTimeMinutes: 0,
+    };
+
+    for (const session of weekSessions) {
+      const minutes = Math.max(0, Number(session.minutes ?? 0));
+      const dayKey = format(new Date(session.in.ts), "yyyy-MM-dd");
+      const dayBefore = minutesByDay.get(dayKey) ?? 0;
+      const dayAfter = dayBefore + minutes;
+      minutesByDay.set(dayKey, dayAfter);
+
+      // Daily buckets: minutes past each threshold within this session's slice of the day
+      const overlap = (threshold: number, cap: number) =>
+        Math.max(0, Math.min(dayAfter, cap) - Math.max(dayBefore, threshold));
+
+      const doubleTime = overlap(dailyDoubleTimeThreshold, Infinity);
+      let overtime = overlap(dailyOvertimeThreshold, dailyDoubleTimeThreshold);
+      let regular = minutes - doubleTime - overtime;
+
+      // Weekly bucket: regular minutes beyond the weekly threshold become overtime
+      const weeklyRemaining = Math.max(0, weeklyThreshold - weekRegularMinutes);
+      if (regular > weeklyRemaining) {
+        overtime += regular - weeklyRemaining;
+        regular = weeklyRemaining;
+      }
+      weekRegularMinutes += regular;
+
+      const inPeriod =
+        session.in.ts >= periodStart && session.in.ts <= periodEnd;
+      if (!inPeriod) continue;
+
+      const premium =
+        (overtime / 60) * regularRateOfPay * 0.5 +
+        (doubleTime / 60) * regularRateOfPay;
+
+      week.totalMinutes += minutes;
+      week.straightTimePay +=
+        (minutes / 60) * (baseRate + hourlyBonusFor(session.in, sites));
+      week.overtimeMinutes += overtime;
+      week.doubleTimeMinutes += doubleTime;
+
+      result.totalMinutes += minutes;
+      result.regularMinutes += regular;
+      result.overtimeMinutes += overtime;
+      result.doubleTimeMinutes += doubleTime;
+      result.overtimePremium += premium;
+    }
+
+    if (week.totalMinutes <= 0) continue;
+
+    week.straightTimePay = round2(week.straightTimePay);
+    result.weeks.push(week);
+
+    const premiumMinutes = week.overtimeMinutes + week.doubleTimeMinutes;
+    if (premiumMinutes > 0) {
+      weightedRateHours += premiumMinutes / 60;
+      weightedRateTotal += (premiumMinutes / 60) * regularRateOfPay;
+    }
+  }
+
+  result.overtimePremium = round2(result.overtimePremium);
+  result.regularRateOfPay =
+    weightedRateHours > 0 ? round2(weightedRateTotal / weightedRateHours) : 0;
+
+  return result;
+}
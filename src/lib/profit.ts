@@ -6,9 +6,11 @@ import type {
   Employee,
   MileageLog,
   CleaningSchedule,
+  OccurrenceOverride,
   Site,
 } from "@/shared/types/domain";
-import { indexSites } from "@/lib/site-index";
+import { indexSites, scheduleSiteRefs, scheduleVisitsSite, siteServiceCharge } from "@/lib/site-index";
+import { applyOccurrenceOverride, occurrenceOverrideOn } from "@/lib/occurrence-overrides";
 import {
   startOfMonth,
   endOfMonth,
@@ -58,6 +60,7 @@ export function aggregateMonthlySiteProfit(params: {
   mileageLogs: MileageLog[];
   otherExpenses: OtherExpense[];
   schedules: CleaningSchedule[];
+  occurrenceOverrides?: OccurrenceOverride[];
   settings?: Settings | null;
   monthISO?: string; // "YYYY-MM"
 }) {
@@ -68,6 +71,7 @@ export function aggregateMonthlySiteProfit(params: {
     mileageLogs,
     otherExpenses,
     schedules,
+    occurrenceOverrides = [],
     settings,
     monthISO,
   } = params;
@@ -150,10 +154,8 @@ const chargedOccurrences = new Set<string>();
 
     // Prefer IN site but fall back to OUT site
     const legacySiteName = session.in?.site ?? session.out?.site;
-    if (!legacySiteName) continue;
-
     const { siteId, siteName } = resolveToDirectorySiteId(
-      undefined,
+      session.in?.siteId ?? session.out?.siteId,
       legacySiteName,
       idx
     );
@@ -256,12 +258,30 @@ const scheduleId =
   session.in?.scheduleId ??
   session.out?.scheduleId;
 
-const sessionSchedule = scheduleId
+const seriesSchedule = scheduleId
   ? schedules.find(
       (schedule) => schedule.id === scheduleId
     )
   : undefined;
 
+/*
+ * The visit as scheduled that day, so a per-day
+ * charge adjustment is what gets counted.
+ */
+const sessionSchedule =
+  seriesSchedule && scheduleId
+    ? applyOccurrenceOverride(
+        seriesSchedule,
+        occurrenceOverrideOn(
+          occurrenceOverrides,
+          scheduleId,
+          session.in?.scheduleDate ??
+            session.out?.scheduleDate ??
+            dayKey
+        )
+      )
+    : undefined;
+
   /*
  * Service Charge for this completed scheduled visit.
  *
@@ -280,8 +300,9 @@ const occurrenceKey =
   if (!chargedOccurrences.has(occurrenceKey)) {
     chargedOccurrences.add(occurrenceKey);
 
-    const groupedNames =
-      sessionSchedule.siteNames?.filter(Boolean) ?? [];
+    const groupedSites = scheduleSiteRefs(sessionSchedule).filter(
+      (ref) => ref.name
+    );
 
     /*
      * GROUPED SCHEDULE
@@ -292,12 +313,12 @@ const occurrenceKey =
      * B = $28.77
      * C = $75.00
      */
-    if (groupedNames.length > 1) {
-      for (const groupSiteName of groupedNames) {
+    if (groupedSites.length > 1) {
+      for (const groupSite of groupedSites) {
         const resolved =
           resolveToDirectorySiteId(
-            undefined,
-            groupSiteName,
+            groupSite.siteId,
+            groupSite.name,
             idx
           );
 
@@ -308,17 +329,10 @@ const occurrenceKey =
           continue;
         }
 
-        const chargeEntry =
-          Object.entries(
-            sessionSchedule.siteServiceCharges ?? {}
-          ).find(
-            ([name]) =>
-              name.trim().toLowerCase() ===
-              groupSiteName.trim().toLowerCase()
-          );
-
-        const siteCharge =
-          Number(chargeEntry?.[1] ?? 0);
+        const siteCharge = siteServiceCharge(
+          sessionSchedule,
+          { id: resolved.siteId, name: groupSite.name }
+        );
 
         const siteRow = ensure(
           resolved.siteId,
@@ -365,31 +379,12 @@ if (!sessionSchedule || !scheduleId) {
       legacyOccurrenceKey
     );
 
-    const normalizedSiteName =
-      siteName.trim().toLowerCase();
-
     const legacySchedule =
   [...schedules]
     .reverse()
-    .find((schedule) => {
-      const primaryName =
-        schedule.siteName
-          ?.trim()
-          .toLowerCase();
-
-      const groupedNames =
-        (schedule.siteNames ?? []).map(
-          (name) =>
-            name.trim().toLowerCase()
-        );
-
-      return (
-        primaryName === normalizedSiteName ||
-        groupedNames.includes(
-          normalizedSiteName
-        )
-      );
-    });
+    .find((schedule) =>
+      scheduleVisitsSite(schedule, { id: siteId, name: siteName })
+    );
 
 let legacyCharge = 0;
 
@@ -398,17 +393,10 @@ if (legacySchedule) {
     (legacySchedule.siteNames?.length ?? 0) > 1;
 
   if (isGrouped) {
-    const chargeEntry =
-      Object.entries(
-        legacySchedule.siteServiceCharges ?? {}
-      ).find(
-        ([name]) =>
-          name.trim().toLowerCase() ===
-          normalizedSiteName
-      );
-
-    legacyCharge =
-      Number(chargeEntry?.[1] ?? 0);
+    legacyCharge = siteServiceCharge(legacySchedule, {
+      id: siteId,
+      name: siteName,
+    });
   } else {
     legacyCharge =
       Number(
@@ -431,19 +419,20 @@ if (legacySchedule) {
  * A grouped schedule contains siteNames with more
  * than one site.
  */
-const groupedSiteNames =
-  sessionSchedule?.siteNames?.filter(Boolean) ?? [];
+const groupedSiteRefs = sessionSchedule
+  ? scheduleSiteRefs(sessionSchedule).filter((ref) => ref.name)
+  : [];
 
-if (groupedSiteNames.length > 1) {
+if (groupedSiteRefs.length > 1) {
   /*
    * Resolve every group member back to the Site directory.
    */
-  const groupSites = groupedSiteNames
-    .map((groupSiteName) => {
+  const groupSites = groupedSiteRefs
+    .map((groupSite) => {
       const resolved =
         resolveToDirectorySiteId(
-          undefined,
-          groupSiteName,
+          groupSite.siteId,
+          groupSite.name,
           idx
         );
 
@@ -540,7 +529,7 @@ if (groupedSiteNames.length > 1) {
     if (ts < min || ts > max) continue;
 
     const { siteId, siteName } = resolveToDirectorySiteId(
-      (m as any).siteId,
+      m.siteId,
       (m as any).site ?? m.siteName,
       idx
     );
@@ -0,0 +1,347 @@
+import fc from "fast-check";
+import { afterEach, describe, expect, it } from "vitest";
+import type { CleaningSchedule, DayOfWeek } from "@/shared/types/domain";
+import * as web from "./recurrence";
+import * as functions from "../../functions/src/recurrence";
+import type { RRule, RRuleByDay } from "./recurrence";
+
+type RecurringSchedule = Parameters<typeof web.scheduleOccurrences>[0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_NAMES: DayOfWeek[] = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const toDay = (iso: string) => Date.parse(`${iso}T00:00:00Z`) / DAY_MS;
+const fromDay = (n: number) => new Date(n * DAY_MS).toISOString().slice(0, 10);
+const addDays = (iso: string, days: number) => fromDay(toDay(iso) + days);
+
+// ---------------------------------------------------------------
+// Arbitraries
+// ---------------------------------------------------------------
+
+const isoDay = (from = "2020-01-01", to = "2030-12-31") =>
+  fc.integer({ min: toDay(from), max: toDay(to) }).map(fromDay);
+
+const weekday = fc.integer({ min: 0, max: 6 });
+
+const plainByDay = fc.uniqueArray(weekday, { minLength: 1, maxLength: 7 }).map((days) =>
+  days.map((d): RRuleByDay => ({ weekday: d }))
+);
+
+const numberedByDay = fc
+  .uniqueArray(
+    fc.record({ weekday, nth: fc.constantFrom(-1, 1, 2, 3, 4) }),
+    { minLength: 1, maxLength: 3, selector: (b) => `${b.nth}${b.weekday}` }
+  )
+  .map((days) => days as RRuleByDay[]);
+
+const monthDays = fc.uniqueArray(fc.constantFrom(-1, 1, 2, 15, 28, 29, 30, 31), {
+  minLength: 1,
+  maxLength: 3,
+});
+
+// COUNT or UNTIL (never both, which parseRRule rejects)
+const ending = fc.oneof(
+  fc.constant({}),
+  fc.integer({ min: 1, max: 40 }).map((count) => ({ count })),
+  isoDay("2024-01-01", "2032-12-31").map((until) => ({ until }))
+);
+
+const rrule: fc.Arbitrary<RRule> = fc
+  .tuple(
+    fc.oneof(
+      fc.record({ freq: fc.constant("DAILY" as const) }),
+      fc.record({ freq: fc.constant("WEEKLY" as const), byDay: plainByDay }),
+      fc.record({ freq: fc.constant("MONTHLY" as const), byMonthDay: monthDays }),
+      fc.record({
+        freq: fc.constant("MONTHLY" as const),
+        byDay: numberedByDay,
+        bySetPos: fc.option(fc.constantFrom(1, -1).map((pos) => [pos]), { nil: undefined }),
+      }),
+      fc.record({
+        freq: fc.constant("YEARLY" as const),
+        byMonth: fc.uniqueArray(fc.integer({ min: 1, max: 12 }), { minLength: 1, maxLength: 3 }),
+        byDay: fc.option(numberedByDay, { nil: undefined }),
+      })
+    ),
+    fc.integer({ min: 1, max: 4 }),
+    fc.option(weekday, { nil: undefined }),
+    ending
+  )
+  .map(([parts, interval, wkst, end]) => {
+    const rule: RRule = { ...parts, interval, ...end };
+    if (wkst !== undefined) rule.wkst = wkst;
+    return rule;
+  });
+
+const legacyFrequency = fc.constantFrom<CleaningSchedule["repeatFrequency"]>(
+  "does-not-repeat",
+  "weekly",
+  "every-2-weeks",
+  "every-3-weeks",
+  "monthly",
+  "every-2-months",
+  "quarterly",
+  "yearly"
+);
+
+const dayList = fc.uniqueArray(isoDay("2024-01-01", "2027-12-31"), { maxLength: 6 });
+
+const schedule: fc.Arbitrary<RecurringSchedule> = fc
+  .record({
+    startDate: isoDay("2024-01-01", "2026-12-31"),
+    legacy: fc.option(
+      fc.record({
+        repeatFrequency: legacyFrequency,
+        daysOfWeek: fc.uniqueArray(fc.constantFrom(...DAY_NAMES), { maxLength: 7 }),
+      }),
+      { nil: undefined }
+    ),
+    rule: rrule,
+    repeatUntil: fc.option(isoDay("2024-06-01", "2028-12-31"), { nil: undefined }),
+    exceptionDates: dayList,
+    rdates: dayList,
+  })
+  .map(({ startDate, legacy, rule, repeatUntil, exceptionDates, rdates }) => ({
+    startDate,
+    ...(legacy ?? { repeatFrequency: "custom" as const, rrule: web.formatRRule(rule) }),
+    repeatUntil,
+    exceptionDates,
+    rdates,
+  }));
+
+// A window of up to about two years
+const window = fc
+  .tuple(isoDay("2023-10-01", "2027-06-30"), fc.integer({ min: 0, max: 720 }))
+  .map(([from, days]) => ({ from, to: addDays(from, days) }));
+
+const weekStartsOn = fc.constantFrom(0, 1);
+
+// ---------------------------------------------------------------
+// Properties
+// ---------------------------------------------------------------
+
+describe("recurrence engine", () => {
+  it("expands the same in the web app and in the Cloud Functions copy", () => {
+    fc.assert(
+      fc.property(schedule, window, weekStartsOn, (s, { from, to }, wkst) => {
+        expect(functions.scheduleOccurrences(s, from, to, wkst)).toEqual(
+          web.scheduleOccurrences(s, from, to, wkst)
+        );
+      })
+    );
+  });
+
+  it("parses and formats rules the same in both copies", () => {
+    fc.assert(
+      fc.property(rrule, (rule) => {
+        const text = web.formatRRule(rule);
+        expect(functions.formatRRule(rule)).toBe(text);
+        expect(functions.parseRRule(text)).toEqual(web.parseRRule(text));
+        expect(web.formatRRule(web.parseRRule(text))).toBe(text);
+      })
+    );
+  });
+
+  // Hand-picked rules, including ones parseRRule must refuse
+  const RRULE_CASES = [
+    "FREQ=DAILY",
+    "FREQ=DAILY;INTERVAL=3;COUNT=10",
+    "FREQ=WEEKLY;BYDAY=MO,WE,FR",
+    "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;WKST=SU",
+    "FREQ=WEEKLY;INTERVAL=3;UNTIL=20260630",
+    "FREQ=WEEKLY;UNTIL=20260630T235959Z;BYDAY=SA",
+    "FREQ=MONTHLY;BYMONTHDAY=1,15",
+    "FREQ=MONTHLY;BYMONTHDAY=-1",
+    "FREQ=MONTHLY;BYMONTHDAY=31",
+    "FREQ=MONTHLY;BYDAY=2TU",
+    "FREQ=MONTHLY;BYDAY=-1FR",
+    "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1",
+    "FREQ=MONTHLY;INTERVAL=3;BYDAY=1MO;COUNT=6",
+    "FREQ=YEARLY",
+    "FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29",
+    "FREQ=YEARLY;BYMONTH=11;BYDAY=4TH",
+    "FREQ=YEARLY;BYMONTH=1,7;BYDAY=1MO",
+    "FREQ=HOURLY",
+    "FREQ=WEEKLY;INTERVAL=0",
+    "FREQ=WEEKLY;BYDAY=XX",
+    "FREQ=MONTHLY;BYDAY=0MO",
+    "FREQ=DAILY;COUNT=5;UNTIL=20260101",
+    "FREQ=DAILY;BYHOUR=9",
+    "INTERVAL=2",
+    "",
+  ];
+
+  it.each(RRULE_CASES)("treats %j the same in both copies", (text) => {
+    expect(functions.rruleError(text)).toBe(web.rruleError(text));
+    if (web.rruleError(text)) return;
+
+    expect(functions.parseRRule(text)).toEqual(web.parseRRule(text));
+    for (const wkst of [0, 1]) {
+      for (const startDate of ["2024-02-29", "2025-01-31", "2025-03-09"]) {
+        const s = { startDate, repeatFrequency: "custom" as const, rrule: text };
+        expect(functions.nextOccurrences(s, "2025-01-01", 30, wkst)).toEqual(
+          web.nextOccurrences(s, "2025-01-01", 30, wkst)
+        );
+      }
+    }
+  });
+
+  it("answers single days the same in both copies", () => {
+    fc.assert(
+      fc.property(schedule, isoDay("2023-10-01", "2027-06-30"), weekStartsOn, (s, day, wkst) => {
+        expect(functions.scheduleOccursOn(s, day, wkst)).toBe(web.scheduleOccursOn(s, day, wkst));
+      })
+    );
+  });
+
+  it("returns sorted, distinct days inside the window and the series", () => {
+    fc.assert(
+      fc.property(schedule, window, weekStartsOn, (s, { from, to }, wkst) => {
+        const days = web.scheduleOccurrences(s, from, to, wkst);
+        expect(days).toEqual([...new Set(days)].sort());
+        for (const day of days) {
+          expect(day >= from && day <= to).toBe(true);
+          if (s.repeatUntil) expect(day <= s.repeatUntil).toBe(true);
+        }
+      })
+    );
+  });
+
+  describe("exception dates", () => {
+    it("removes exactly the excluded days", () => {
+      fc.assert(
+        fc.property(schedule, window, weekStartsOn, (s, { from, to }, wkst) => {
+          const withExceptions = web.scheduleOccurrences(s, from, to, wkst);
+          const without = web.scheduleOccurrences({ ...s, exceptionDates: [] }, from, to, wkst);
+          const excluded = new Set(s.exceptionDates);
+
+          expect(withExceptions).toEqual(without.filter((d) => !excluded.has(d)));
+        })
+      );
+    });
+
+    it("win over extra visits on the same day", () => {
+      fc.assert(
+        fc.property(schedule, window, weekStartsOn, (s, { from, to }, wkst) => {
+          const both = { ...s, rdates: [...(s.rdates ?? []), ...(s.exceptionDates ?? [])] };
+          const days = new Set(web.scheduleOccurrences(both, from, to, wkst));
+          for (const d of s.exceptionDates ?? []) expect(days.has(d)).toBe(false);
+        })
+      );
+    });
+
+    it("leave the rest of the series alone", () => {
+      expect(
+        web.scheduleOccurrences(
+          {
+            startDate: "2025-03-03",
+            repeatFrequency: "weekly",
+            daysOfWeek: ["Monday"],
+            exceptionDates: ["2025-03-17"],
+          },
+          "2025-03-01",
+          "2025-03-31",
+          0
+        )
+      ).toEqual(["2025-03-03", "2025-03-10", "2025-03-24", "2025-03-31"]);
+    });
+  });
+
+  describe("daylight saving time", () => {
+    const originalTz = process.env.TZ;
+    afterEach(() => {
+      process.env.TZ = originalTz;
+    });
+
+    // Zones with DST on both hemispheres, a half-hour shift, and a zone
+    // that skipped a whole calendar day (2011-12-30 in Samoa)
+    const TIME_ZONES = [
+      "America/New_York",
+      "Europe/London",
+      "Australia/Sydney",
+      "Australia/Lord_Howe",
+      "Pacific/Apia",
+    ];
+
+    // US, EU and southern-hemisphere changes in 2024 and 2025
+    const DST_CHANGES = [
+      "2024-03-10",
+      "2024-03-31",
+      "2024-04-07",
+      "2024-10-06",
+      "2024-10-27",
+      "2024-11-03",
+      "2025-03-09",
+      "2025-03-30",
+      "2025-10-26",
+      "2025-11-02",
+    ];
+
+    const aroundDstChange = fc
+      .tuple(fc.constantFrom(...DST_CHANGES), fc.integer({ min: -20, max: 0 }), fc.integer({ min: 1, max: 40 }))
+      .map(([change, before, days]) => ({ from: addDays(change, before), to: addDays(change, before + days) }));
+
+    it("does not depend on the device time zone", () => {
+      fc.assert(
+        fc.property(schedule, aroundDstChange, weekStartsOn, (s, { from, to }, wkst) => {
+          process.env.TZ = "UTC";
+          const expected = web.scheduleOccurrences(s, from, to, wkst);
+
+          for (const tz of TIME_ZONES) {
+            process.env.TZ = tz;
+            // Fresh object each time: results are cached per schedule
+            expect(web.scheduleOccurrences({ ...s }, from, to, wkst)).toEqual(expected);
+            expect(functions.scheduleOccurrences({ ...s }, from, to, wkst)).toEqual(expected);
+          }
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it("keeps weekly visits exactly seven days apart across the change", () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...DST_CHANGES), weekday, (change, day) => {
+          for (const tz of TIME_ZONES) {
+            process.env.TZ = tz;
+            const days = web.scheduleOccurrences(
+              {
+                startDate: addDays(change, -28),
+                repeatFrequency: "weekly",
+                daysOfWeek: [DAY_NAMES[day]],
+              },
+              addDays(change, -28),
+              addDays(change, 28),
+              0
+            );
+
+            expect(days.length).toBeGreaterThanOrEqual(8);
+            for (const d of days) expect(new Date(`${d}T12:00:00Z`).getUTCDay()).toBe(day);
+            for (let i = 1; i < days.length; i++) {
+              expect(toDay(days[i]) - toDay(days[i - 1])).toBe(7);
+            }
+          }
+        })
+      );
+    });
+
+    it("keeps daily visits on every calendar day across the change", () => {
+      process.env.TZ = "America/New_York";
+      expect(
+        web.scheduleOccurrences(
+          { startDate: "2024-03-08", repeatFrequency: "custom", rrule: "FREQ=DAILY;COUNT=5" },
+          "2024-03-01",
+          "2024-03-31",
+          0
+        )
+      ).toEqual(["2024-03-08", "2024-03-09", "2024-03-10", "2024-03-11", "2024-03-12"]);
+    });
+  });
+});
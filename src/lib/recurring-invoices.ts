@@ -32,7 +32,15 @@ export function generateRecurringInvoicesForMonth(args: {
     const dayPadded = String(day).padStart(2, "0");
     const targetDateStr = `${targetMonthISO}-${dayPadded}`;
 
-    const { id: _ignore, ...rest } = tmpl;
+    // Payment state belongs to the template's own month, not the copy
+    const {
+      id: _ignore,
+      paidDate: _paidDate,
+      amountPaid: _amountPaid,
+      amountCredited: _amountCredited,
+      balanceDue: _balanceDue,
+      ...rest
+    } = tmpl;
 
     results.push({
       ...rest,
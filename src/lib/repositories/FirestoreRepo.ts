@@ -0,0 +1,95 @@
+// src/lib/repositories/FirestoreRepo.ts
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  onSnapshot,
+  setDoc,
+  updateDoc,
+  type Firestore,
+} from "firebase/firestore";
+import mitt from "mitt";
+import type { Employee } from "@/shared/types/domain";
+import { cleanForFirestore } from "@/lib/firestore-utils";
+import { splitEmployeePrivate, writeEmployeePrivate } from "@/lib/member-auth";
+import type { Repo } from "./types";
+
+export class FirestoreRepo<T extends { id: string }> implements Repo<T> {
+  private bus = mitt<{ change: T[] }>();
+
+  constructor(
+    protected db: Firestore,
+    protected collectionName: string
+  ) {}
+
+  protected col(companyId: string) {
+    return collection(this.db, "companies", companyId, this.collectionName);
+  }
+
+  onChange(fn: (list: T[]) => void) {
+    this.bus.on("change", fn);
+    return () => this.bus.off("change", fn);
+  }
+
+  watchAll({ companyId }: { companyId: string }) {
+    return onSnapshot(
+      this.col(companyId),
+      (snap) => {
+        const rows = snap.docs.map((d) => ({ ...d.data(), id: d.id } as T));
+        this.bus.emit("change", rows);
+      },
+      (err) => {
+        console.error(`[FirestoreRepo:${this.collectionName}] watchAll failed:`, err);
+      }
+    );
+  }
+
+  async list(companyId: string) {
+    const snap = await getDocs(this.col(companyId));
+    return snap.docs.map((d) => ({ ...d.data(), id: d.id } as T));
+  }
+
+  async create(companyId: string, data: Omit<T, "id">): Promise<T> {
+    const ref = doc(this.col(companyId));
+    const payload = { ...data, id: ref.id } as T;
+    await this.set(companyId, payload);
+    return payload;
+  }
+
+  set(companyId: string, row: T) {
+    return setDoc(doc(this.col(companyId), row.id), cleanForFirestore(row));
+  }
+
+  update(companyId: string, id: string, patch: Partial<T>) {
+    return updateDoc(doc(this.col(companyId), id), cleanForFirestore(patch) as Record<string, unknown>);
+  }
+
+  remove(companyId: string, id: string) {
+    return deleteDoc(doc(this.col(companyId), id));
+  }
+}
+
+/**
+ * PINs and bank details live in employee_private (managers only), so
+ * writes split them off; reads return the public fields.
+ */
+export class FirestoreEmployeesRepo extends FirestoreRepo<Employee> {
+  constructor(db: Firestore) {
+    super(db, "employees");
+  }
+
+  async set(companyId: string, row: Employee) {
+    const { publicData, privateData } = splitEmployeePrivate(row);
+    await setDoc(doc(this.col(companyId), row.id), cleanForFirestore(publicData));
+    await writeEmployeePrivate(this.db, companyId, row.id, cleanForFirestore(privateData));
+  }
+
+  async update(companyId: string, id: string, patch: Partial<Employee>) {
+    const { publicData, privateData } = splitEmployeePrivate(patch);
+    if (Object.keys(publicData).length) {
+      await updateDoc(doc(this.col(companyId), id), cleanForFirestore(publicData) as Record<string, unknown>);
+    }
+    await writeEmployeePrivate(this.db, companyId, id, cleanForFirestore(privateData));
+  }
+}
@@ -0,0 +1,87 @@
+// src/lib/repositories/LocalRepo.ts
+import mitt, { type Emitter } from "mitt";
+import { uuid } from "@/lib/time-utils";
+import type { Repo } from "./types";
+
+// One bus per key, so every repo instance on a key sees the others' writes
+const buses = new Map<string, Emitter<{ change: unknown[] }>>();
+
+const busFor = (key: string) => {
+  let bus = buses.get(key);
+  if (!bus) {
+    bus = mitt<{ change: unknown[] }>();
+    buses.set(key, bus);
+  }
+  return bus;
+};
+
+/**
+ * A collection kept as one JSON array in localStorage, under the same
+ * keys as src/lib/storage.ts. The local engine has a single company, so
+ * companyId is ignored.
+ */
+export class LocalRepo<T extends { id: string }> implements Repo<T> {
+  constructor(private key: string) {}
+
+  private get bus() {
+    return busFor(this.key);
+  }
+
+  private read(): T[] {
+    if (typeof window === "undefined") return [];
+    try {
+      return JSON.parse(localStorage.getItem(this.key) || "[]");
+    } catch {
+      return [];
+    }
+  }
+
+  private write(v: T[]) {
+    try {
+      localStorage.setItem(this.key, JSON.stringify(v));
+      this.bus.emit("change", v);
+    } catch (e) {
+      console.error(e);
+    }
+  }
+
+  onChange(fn: (list: T[]) => void) {
+    const handler = fn as (list: unknown[]) => void;
+    this.bus.on("change", handler);
+    return () => this.bus.off("change", handler);
+  }
+
+  watchAll() {
+    setTimeout(() => this.bus.emit("change", this.read()), 5);
+    return () => {};
+  }
+
+  async list() {
+    return this.read();
+  }
+
+  async create(_companyId: string, data: Omit<T, "id">) {
+    const row = { ...data, id: uuid() } as T;
+    this.write([...this.read(), row]);
+    return row;
+  }
+
+  async set(_companyId: string, row: T) {
+    const v = this.read();
+    const exists = v.some((x) => x.id === row.id);
+    this.write(exists ? v.map((x) => (x.id === row.id ? row : x)) : [...v, row]);
+  }
+
+  async update(_companyId: string, id: string, patch: Partial<T>) {
+    this.write(this.read().map((x) => (x.id === id ? ({ ...x, ...patch } as T) : x)));
+  }
+
+  async remove(_companyId: string, id: string) {
+    this.write(this.read().filter((x) => x.id !== id));
+  }
+
+  // The whole collection at once, for restores and migrations
+  async replaceAll(_companyId: string, rows: T[]) {
+    this.write(rows);
+  }
+}
@@ -0,0 +1,84 @@
+// src/lib/repositories/index.ts
+import type { Firestore } from "firebase/firestore";
+import type {
+  CleaningSchedule,
+  CompanyMessage,
+  Employee,
+  Entry,
+  EntryAuditRecord,
+  MileageLog,
+  OtherExpense,
+  PayrollPeriod,
+  ServiceFeedback,
+} from "@/shared/types/domain";
+import {
+  KEY_EMPLOYEES,
+  KEY_ENTRY_AUDITS,
+  KEY_LOCAL,
+  KEY_MESSAGES,
+  KEY_MILEAGE,
+  KEY_OTHER_EXPENSES,
+  KEY_PAYROLL_PERIODS,
+  KEY_SCHEDULES,
+  KEY_SERVICE_FEEDBACKS,
+} from "@/lib/constants";
+import { FirestoreEmployeesRepo, FirestoreRepo } from "./FirestoreRepo";
+import { LocalRepo } from "./LocalRepo";
+import type { Repo } from "./types";
+
+export type { Repo } from "./types";
+export { FirestoreRepo, FirestoreEmployeesRepo } from "./FirestoreRepo";
+export { LocalRepo } from "./LocalRepo";
+
+type RepoRows = {
+  employees: Employee;
+  schedules: CleaningSchedule;
+  entries: Entry;
+  entryAudits: EntryAuditRecord;
+  mileageLogs: MileageLog;
+  otherExpenses: OtherExpense;
+  payrollPeriods: PayrollPeriod;
+  serviceFeedbacks: ServiceFeedback;
+  messages: CompanyMessage;
+};
+
+export type RepoName = keyof RepoRows;
+export type Repos = { [K in RepoName]: Repo<RepoRows[K]> };
+
+// Firestore collection under companies/{companyId}, and the local key
+export const REPO_COLLECTIONS: Record<RepoName, { collection: string; localKey: string }> = {
+  employees: { collection: "employees", localKey: KEY_EMPLOYEES },
+  schedules: { collection: "schedules", localKey: KEY_SCHEDULES },
+  entries: { collection: "timeclock_entries", localKey: KEY_LOCAL },
+  entryAudits: { collection: "timeclock_audit", localKey: KEY_ENTRY_AUDITS },
+  mileageLogs: { collection: "mileage_logs", localKey: KEY_MILEAGE },
+  otherExpenses: { collection: "other_expenses", localKey: KEY_OTHER_EXPENSES },
+  payrollPeriods: { collection: "payroll_periods", localKey: KEY_PAYROLL_PERIODS },
+  serviceFeedbacks: { collection: "service_feedbacks", localKey: KEY_SERVICE_FEEDBACKS },
+  messages: { collection: "messages", localKey: KEY_MESSAGES },
+};
+
+export const REPO_NAMES = Object.keys(REPO_COLLECTIONS) as RepoName[];
+
+export function createRepo<K extends RepoName>(
+  name: K,
+  engine: "cloud" | "local",
+  db: Firestore
+): Repo<RepoRows[K]> {
+  const { collection, localKey } = REPO_COLLECTIONS[name];
+  if (engine === "local") return new LocalRepo<RepoRows[K]>(localKey);
+  if (name === "employees") return new FirestoreEmployeesRepo(db) as unknown as Repo<RepoRows[K]>;
+  return new FirestoreRepo<RepoRows[K]>(db, collection);
+}
+
+export function createRepos(engine: "cloud" | "local", db: Firestore): Repos {
+  return Object.fromEntries(REPO_NAMES.map((name) => [name, createRepo(name, engine, db)])) as Repos;
+}
+
+/**
+ * Replaces a local engine collection whole. Subscribers get the rows as
+ * after any other local write.
+ */
+export function replaceLocalRows<K extends RepoName>(name: K, rows: RepoRows[K][]) {
+  return new LocalRepo<RepoRows[K]>(REPO_COLLECTIONS[name].localKey).replaceAll("", rows);
+}
@@ -0,0 +1,14 @@
+/**
+ * One company collection, the same for both engines. The invoices repo
+ * (src/features/invoices/repositories) follows this shape too, plus its
+ * payments ledger.
+ */
+export interface Repo<T extends { id: string }> {
+  onChange(fn: (list: T[]) => void): () => void;
+  watchAll(opts: { companyId: string }): () => void; // returns unsubscribe; rows arrive through onChange
+  list(companyId: string): Promise<T[]>;
+  create(companyId: string, data: Omit<T, "id">): Promise<T>;
+  set(companyId: string, row: T): Promise<void>; // create or replace, keeping row.id
+  update(companyId: string, id: string, patch: Partial<T>): Promise<void>;
+  remove(companyId: string, id: string): Promise<void>;
+}
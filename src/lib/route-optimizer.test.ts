@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { optimizeRoute, type LatLng, type OptimizerStop } from "./route-optimizer";
+import { optimizeRouteFromStart, optimizeRouteWithTimeWindows, straightLineTravel } from "./routing";
+
+type Stop = OptimizerStop & { id: string };
+
+// mulberry32: small, fast and the same on every machine
+const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const HOME: LatLng = { lat: 40.7128, lng: -74.006 };
+
+// `count` stops scattered over roughly 30 miles around HOME
+const scatter = (seed: number, count: number, windows = false): Stop[] => {
+  const next = random(seed);
+  return Array.from({ length: count }, (_, i) => {
+    const stop: Stop = {
+      id: `s${i}`,
+      lat: HOME.lat + (next() - 0.5) * 0.45,
+      lng: HOME.lng + (next() - 0.5) * 0.6,
+      serviceMinutes: 30 + Math.floor(next() * 4) * 15,
+    };
+    if (windows && next() < 0.4) {
+      const earliest = 8 * 60 + Math.floor(next() * 16) * 30;
+      stop.earliest = earliest;
+      stop.deadline = earliest + 120;
+    }
+    return stop;
+  });
+};
+
+const driveMinutes = (order: Stop[], start: LatLng, end?: LatLng) => {
+  let total = 0;
+  let at = start;
+  for (const stop of [...order, ...(end ? [end] : [])]) {
+    const to = { lat: stop.lat!, lng: stop.lng! };
+    total += straightLineTravel.leg(at, to).minutes;
+    at = to;
+  }
+  return total;
+};
+
+const ids = (route: { stops: { item: Stop }[] }) => route.stops.map((s) => s.item.id);
+
+const SEEDS = [1, 7, 42, 99, 123, 2024, 31337, 65535];
+const SIZES = [5, 12, 20, 30];
+// Both sides sum the same legs, possibly in a different order
+const EPSILON = 1e-9;
+
+describe("optimizeRoute benchmarks", () => {
+  it("never drives further than nearest-neighbour", () => {
+    let nearestTotal = 0;
+    let optimizedTotal = 0;
+
+    for (const seed of SEEDS) {
+      for (const size of SIZES) {
+        const stops = scatter(seed, size);
+        const nearest = driveMinutes(optimizeRouteFromStart(stops, HOME), HOME);
+        const route = optimizeRoute(stops, { start: HOME });
+
+        expect(route.stops).toHaveLength(size);
+        expect(new Set(ids(route)).size).toBe(size);
+        expect(route.totalTravelMinutes).toBeLessThanOrEqual(nearest + EPSILON);
+        expect(route.seedTravelMinutes).toBeCloseTo(nearest, 6);
+
+        nearestTotal += nearest;
+        optimizedTotal += route.totalTravelMinutes;
+      }
+    }
+
+    // Across the whole set the improvement passes should pay for themselves
+    expect(optimizedTotal).toBeLessThan(nearestTotal * 0.95);
+  });
+
+  it("never drives further than nearest-neighbour with a fixed end", () => {
+    const office: LatLng = { lat: HOME.lat + 0.1, lng: HOME.lng - 0.1 };
+
+    for (const seed of SEEDS) {
+      const stops = scatter(seed, 15);
+      const nearest = driveMinutes(optimizeRouteFromStart(stops, HOME), HOME, office);
+      const route = optimizeRoute(stops, { start: HOME, end: office });
+
+      expect(route.totalTravelMinutes).toBeLessThanOrEqual(nearest + EPSILON);
+    }
+  });
+
+  it("is never later than the greedy time-window order", () => {
+    for (const seed of SEEDS) {
+      const stops = scatter(seed, 15, true);
+      const greedy = optimizeRouteWithTimeWindows(stops, HOME, 7 * 60);
+      const greedyRoute = optimizeRoute(greedy, { start: HOME, startMinutes: 7 * 60, maxPasses: 0 });
+      const route = optimizeRoute(stops, { start: HOME, startMinutes: 7 * 60 });
+
+      expect(ids(greedyRoute)).toEqual(greedy.map((s) => s.id));
+      expect(route.lateMinutes).toBeLessThanOrEqual(greedyRoute.lateMinutes);
+      if (route.lateMinutes === greedyRoute.lateMinutes) {
+        expect(route.totalTravelMinutes).toBeLessThanOrEqual(greedyRoute.totalTravelMinutes + EPSILON);
+      }
+    }
+  });
+
+  it("gives the same route every run", () => {
+    for (const seed of SEEDS) {
+      const stops = scatter(seed, 20, seed % 2 === 0);
+      const options = { start: HOME, startMinutes: seed % 2 === 0 ? 7 * 60 : null };
+
+      const first = optimizeRoute(stops, options);
+      for (let run = 0; run < 3; run++) {
+        expect(optimizeRoute(scatter(seed, 20, seed % 2 === 0), options)).toEqual(first);
+      }
+    }
+  });
+
+  it("keeps a known route stable", () => {
+    expect(ids(optimizeRoute(scatter(42, 8), { start: HOME }))).toEqual([
+      "s3", "s1", "s4", "s0", "s5", "s2", "s7", "s6",
+    ]);
+  });
+});
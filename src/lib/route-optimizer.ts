@@ -0,0 +1,341 @@
+// src/lib/route-optimizer.ts
+import {
+  optimizeRouteFromStart,
+  optimizeRouteWithTimeWindows,
+  straightLineTravel,
+  type TimeWindowedStop,
+  type TravelTimes,
+} from "@/lib/routing";
+import { formatWindowTime } from "@/lib/visit-windows";
+
+/*
+ * Route ordering for one person's day: a travelling-salesman tour with
+ * time windows, solved well enough for the 2–30 stops a cleaner visits.
+ *
+ * 1. Seed with the greedy orderings from routing.ts.
+ * 2. Improve with 2-opt (reverse a run of stops) and or-opt (move a run
+ *    of 1–3 stops elsewhere) until neither helps.
+ *
+ * Orders are compared on minutes late first (visit deadlines plus the
+ * route's finish-by time), then total drive time, then finish time.
+ * Everything is deterministic: the same input gives the same route.
+ */
+
+export type LatLng = { lat: number; lng: number };
+
+export type OptimizerStop = TimeWindowedStop & {
+  // Keep this stop at the start or end of the day, e.g. the office
+  pin?: "first" | "last";
+};
+
+export type RouteOptimizerOptions = {
+  // Where the day starts (home) and ends (office). Not stops themselves.
+  start?: LatLng | null;
+  end?: LatLng | null;
+
+  // Clock at `start`, minutes since midnight. Without it nothing is late.
+  startMinutes?: number | null;
+
+  // The whole route, including the drive to `end`, should be done by
+  finishBy?: number | null;
+
+  travelTimes?: TravelTimes;
+
+  // Upper bound on improvement passes; each pass tries every move once
+  maxPasses?: number;
+};
+
+export type OptimizedRouteStop<T> = {
+  item: T;
+
+  travelMinutes: number;
+  arrivalMinutes: number;
+  startMinutes: number;
+  finishMinutes: number;
+  waitMinutes: number;
+  lateMinutes: number;
+
+  // Why the stop is where it is, most important first
+  reasons: string[];
+};
+
+export type OptimizedRoute<T> = {
+  stops: OptimizedRouteStop<T>[];
+
+  returnTravelMinutes: number;
+  totalTravelMinutes: number;
+  totalWaitMinutes: number;
+  lateMinutes: number;
+  finishMinutes: number;
+
+  // Drive time of the greedy seed, to show what the improvement saved
+  seedTravelMinutes: number;
+  improvements: number;
+};
+
+type Score = {
+  late: number;
+  travel: number;
+  finish: number;
+};
+
+const DEFAULT_MAX_PASSES = 50;
+
+// Reasons mention a deadline only when it was this close
+const TIGHT_DEADLINE_MINUTES = 30;
+
+const better = (a: Score, b: Score) =>
+  a.late !== b.late
+    ? a.late < b.late
+    : a.travel !== b.travel
+      ? a.travel < b.travel
+      : a.finish < b.finish;
+
+const minutesLabel = (minutes: number) => `${Math.round(minutes)} min`;
+
+export function optimizeRoute<T extends OptimizerStop>(
+  stops: T[],
+  options: RouteOptimizerOptions = {}
+): OptimizedRoute<T> {
+  const travelTimes = options.travelTimes ?? straightLineTravel;
+  const startMinutes = options.startMinutes ?? 0;
+  const timed = options.startMinutes != null;
+  const finishBy = timed ? options.finishBy ?? null : null;
+
+  const first = stops.filter((s) => s.pin === "first");
+  const last = stops.filter((s) => s.pin === "last");
+  const free = stops.filter((s) => !s.pin);
+
+  /*
+   * Node 0 is the start location, nodes 1..n the stops and n+1 the end
+   * location. Drive times are looked up once; the improvement loop
+   * evaluates thousands of orders.
+   */
+  const nodes: { lat?: number; lng?: number }[] = [
+    options.start ?? {},
+    ...stops,
+    options.end ?? {},
+  ];
+  const matrix = nodes.map((from) =>
+    nodes.map((to) =>
+      from.lat == null || from.lng == null || to.lat == null || to.lng == null
+        ? 0
+        : travelTimes.leg(
+            { lat: from.lat, lng: from.lng },
+            { lat: to.lat, lng: to.lng }
+          ).minutes
+    )
+  );
+  const nodeOf = new Map(stops.map((s, i) => [s, i + 1] as const));
+  const endNode = nodes.length - 1;
+
+  // Position after the pinned-first stops, for seeding the free ones
+  const seedFrom = [...first]
+    .reverse()
+    .find((s) => s.lat != null && s.lng != null);
+  const seedStart =
+    seedFrom ? { lat: seedFrom.lat!, lng: seedFrom.lng! } : options.start ?? null;
+
+  const timeline = (order: T[]) => {
+    let clock = startMinutes;
+    let node = 0;
+    let travelTotal = 0;
+    let late = 0;
+
+    const legs = order.map((stop) => {
+      const to = nodeOf.get(stop)!;
+      const travelMinutes = matrix[node][to];
+      const arrivalMinutes = clock + travelMinutes;
+      const begin = timed
+        ? Math.max(arrivalMinutes, stop.earliest ?? arrivalMinutes)
+        : arrivalMinutes;
+      const finishMinutes = begin + stop.serviceMinutes;
+      const lateMinutes =
+        timed && stop.deadline != null
+          ? Math.max(0, finishMinutes - stop.deadline)
+          : 0;
+
+      travelTotal += travelMinutes;
+      late += lateMinutes;
+      clock = finishMinutes;
+      if (stop.lat != null && stop.lng != null) node = to;
+
+      return {
+        item: stop,
+        travelMinutes,
+        arrivalMinutes,
+        startMinutes: begin,
+        finishMinutes,
+        waitMinutes: begin - arrivalMinutes,
+        lateMinutes,
+      };
+    });
+
+    const returnTravelMinutes = options.end ? matrix[node][endNode] : 0;
+    const finish = clock + returnTravelMinutes;
+    travelTotal += returnTravelMinutes;
+    if (finishBy !== null) late += Math.max(0, finish - finishBy);
+
+    return {
+      legs,
+      returnTravelMinutes,
+      score: { late, travel: travelTotal, finish } as Score,
+    };
+  };
+
+  const withPins = (middle: T[]) => [...first, ...middle, ...last];
+  const score = (middle: T[]) => timeline(withPins(middle)).score;
+
+  const hasWindows = free.some((s) => s.earliest != null || s.deadline != null);
+  let middle: T[] =
+    timed && hasWindows
+      ? optimizeRouteWithTimeWindows(free, seedStart, startMinutes, travelTimes)
+      : optimizeRouteFromStart(free, seedStart);
+
+  const seedScore = score(middle);
+  let best = seedScore;
+  let improvements = 0;
+
+  const tryOrder = (candidate: T[]) => {
+    const candidateScore = score(candidate);
+    if (!better(candidateScore, best)) return false;
+
+    middle = candidate;
+    best = candidateScore;
+    improvements++;
+    return true;
+  };
+
+  const maxPasses = options.maxPasses ?? DEFAULT_MAX_PASSES;
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let improved = false;
+    const n = middle.length;
+
+    // 2-opt: reverse middle[i..j]
+    for (let i = 0; i < n - 1; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const candidate = [
+          ...middle.slice(0, i),
+          ...middle.slice(i, j + 1).reverse(),
+          ...middle.slice(j + 1),
+        ];
+        if (tryOrder(candidate)) improved = true;
+      }
+    }
+
+    // or-opt: move a run of 1–3 stops to another position
+    for (let size = 1; size <= 3; size++) {
+      for (let i = 0; i + size <= middle.length; i++) {
+        const run = middle.slice(i, i + size);
+        const rest = [...middle.slice(0, i), ...middle.slice(i + size)];
+
+        for (let k = 0; k <= rest.length; k++) {
+          if (k === i) continue;
+          const candidate = [...rest.slice(0, k), ...run, ...rest.slice(k)];
+          if (tryOrder(candidate)) {
+            improved = true;
+            break;
+          }
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  const final = timeline(withPins(middle));
+
+  const stopsOut: OptimizedRouteStop<T>[] = final.legs.map((leg, index) => ({
+    ...leg,
+    reasons: explainStop(final.legs, index, matrix, nodeOf, timed),
+  }));
+
+  return {
+    stops: stopsOut,
+    returnTravelMinutes: final.returnTravelMinutes,
+    totalTravelMinutes: final.score.travel,
+    totalWaitMinutes: final.legs.reduce((sum, leg) => sum + leg.waitMinutes, 0),
+    lateMinutes: final.score.late,
+    finishMinutes: final.score.finish,
+    seedTravelMinutes: seedScore.travel,
+    improvements,
+  };
+}
+
+type Leg<T> = Omit<OptimizedRouteStop<T>, "reasons">;
+
+function explainStop<T extends OptimizerStop>(
+  legs: Leg<T>[],
+  index: number,
+  matrix: number[][],
+  nodeOf: Map<T, number>,
+  timed: boolean
+) {
+  const leg = legs[index];
+  const stop = leg.item;
+  const reasons: string[] = [];
+
+  if (stop.pin === "first") reasons.push("Fixed as a first stop");
+  if (stop.pin === "last") reasons.push("Fixed as a last stop");
+
+  if (timed && stop.deadline != null) {
+    if (leg.lateMinutes > 0) {
+      reasons.push(
+        `Finishes ${minutesLabel(leg.lateMinutes)} after its ${formatWindowTime(stop.deadline)} deadline; no order found finishes it in time`
+      );
+    } else if (stop.deadline - leg.finishMinutes <= TIGHT_DEADLINE_MINUTES) {
+      reasons.push(
+        `Placed here to finish before ${formatWindowTime(stop.deadline)} (${minutesLabel(stop.deadline - leg.finishMinutes)} to spare)`
+      );
+    }
+  }
+
+  if (timed && leg.waitMinutes > 0 && stop.earliest != null) {
+    reasons.push(
+      `Waits ${minutesLabel(leg.waitMinutes)} for its window to open at ${formatWindowTime(stop.earliest)}`
+    );
+  }
+
+  if (stop.pin) return reasons;
+
+  /*
+   * Compare with the closest stop that was still to be visited. The
+   * previous position is the last stop with coordinates, or the start.
+   */
+  let from = 0;
+  for (let i = index - 1; i >= 0; i--) {
+    const item = legs[i].item;
+    if (item.lat != null && item.lng != null) {
+      from = nodeOf.get(item)!;
+      break;
+    }
+  }
+
+  const later = legs
+    .slice(index + 1)
+    .filter((l) => !l.item.pin && l.item.lat != null && l.item.lng != null);
+  const closest = later.reduce<Leg<T> | null>((found, l) => {
+    const minutes = matrix[from][nodeOf.get(l.item)!];
+    return !found || minutes < matrix[from][nodeOf.get(found.item)!] ? l : found;
+  }, null);
+
+  if (stop.lat == null || stop.lng == null) {
+    reasons.push("No map location, so it costs no drive time");
+  } else if (!closest || matrix[from][nodeOf.get(closest.item)!] >= leg.travelMinutes) {
+    reasons.push(
+      index === 0 && from === 0 && leg.travelMinutes === 0
+        ? "Starts the route"
+        : `Closest remaining stop (${minutesLabel(leg.travelMinutes)} drive)`
+    );
+  } else if (reasons.length === 0) {
+    const saved = leg.travelMinutes - matrix[from][nodeOf.get(closest.item)!];
+    reasons.push(
+      timed && stop.deadline != null
+        ? `Visited ahead of a closer stop to finish before ${formatWindowTime(stop.deadline)}`
+        : `Not the closest next stop (another is ${minutesLabel(saved)} closer), but this order shortens the whole route`
+    );
+  }
+
+  return reasons;
+}
@@ -5,8 +5,15 @@ import type {
 
 import {
   addTravelEstimates,
-  optimizeRouteFromStart,
+  straightLineTravel,
+  type TravelTimes,
 } from "@/lib/routing";
+import { optimizeRoute } from "@/lib/route-optimizer";
+import { resolveSite } from "@/lib/site-index";
+import {
+  timeToMinutes,
+  visitWindow,
+} from "@/lib/visit-windows";
 
 export type PlannedRouteStop = {
   schedule: CleaningSchedule;
@@ -19,11 +26,34 @@ export type PlannedRouteStop = {
   effectiveTravelMinutes: number;
 
   distanceMiles: number;
+
+  /*
+   * Timeline, in minutes since midnight. Only set when the
+   * route has a start time (given, or the earliest window).
+   */
+  arrivalMinutes?: number;
+  startMinutes?: number;
+  finishMinutes?: number;
+
+  // Waiting for the visit window to open
+  waitMinutes: number;
+
+  // Past the scheduled start or the must-be-done-by time
+  lateMinutes: number;
+
+  // Why the optimizer put the stop here
+  reasons: string[];
 };
 
 export type DailyRoutePlan = {
   stops: PlannedRouteStop[];
 
+  startMinutes: number | null;
+  lateStopCount: number;
+
+  // Drive from the last stop to the ending location
+  returnTravelMinutes: number;
+
   totalCleaningMinutes: number;
   totalTravelMinutes: number;
   totalEstimatedMinutes: number;
@@ -37,37 +67,119 @@ type BuildDailyRoutePlanOptions = {
     lat: number;
     lng: number;
   } | null;
+
+  // Where the day ends, e.g. the office
+  endingLocation?: {
+    lat: number;
+    lng: number;
+  } | null;
+
+  // Whole route done by, "HH:mm"
+  finishByTime?: string | null;
+
+  // Drive times, e.g. from useTravelTimes. Straight-line by default.
+  travelTimes?: TravelTimes;
+
+  /*
+   * When the route begins, "HH:mm". Defaults to the earliest
+   * visit window of the day.
+   */
+  startTime?: string | null;
+
+  /*
+   * Cleaning time per stop is divided by the crew size
+   * for the timeline.
+   */
+  crewSize?: number;
 };
 
+/*
+ * Map location of a configured site, e.g. the route start or end.
+ */
+export function siteLocation(
+  sites: Site[],
+  siteId?: string | null
+) {
+  const site = siteId
+    ? sites.find((candidate) => candidate.id === siteId)
+    : undefined;
+
+  return site?.lat != null && site?.lng != null
+    ? { lat: site.lat, lng: site.lng }
+    : null;
+}
+
 export function buildDailyRoutePlan({
   schedules,
   sites,
   startingLocation,
+  endingLocation,
+  finishByTime,
+  travelTimes = straightLineTravel,
+  startTime,
+  crewSize = 1,
 }: BuildDailyRoutePlanOptions): DailyRoutePlan {
+  const crew = Math.max(1, crewSize);
+
   const schedulesWithSites = schedules.map((schedule) => {
-    const site = sites.find(
-      (candidate) =>
-        candidate.name === schedule.siteName
+    const site = resolveSite(sites, schedule.siteId, schedule.siteName);
+    const window = visitWindow(schedule);
+    const serviceMinutes = Math.ceil(
+      Math.max(0, site?.estimatedWorkMinutes ?? 0) / crew
     );
 
+    // Starting after the planned time counts as late too
+    const finishDeadlines = [
+      window.deadline,
+      window.planned !== null ? window.planned + serviceMinutes : null,
+    ].filter((minutes): minutes is number => minutes !== null);
+
     return {
       schedule,
       site,
       lat: site?.lat,
       lng: site?.lng,
+      window,
+      earliest: window.earliest,
+      deadline: finishDeadlines.length ? Math.min(...finishDeadlines) : null,
+      serviceMinutes,
     };
   });
 
-  const orderedStops = optimizeRouteFromStart(
-    schedulesWithSites,
-    startingLocation
+  const earliestWindow = schedulesWithSites
+    .map((stop) => stop.earliest)
+    .filter((minutes): minutes is number => minutes !== null);
+
+  const routeStartMinutes =
+    timeToMinutes(startTime) ??
+    (earliestWindow.length ? Math.min(...earliestWindow) : null);
+
+  const optimized = optimizeRoute(schedulesWithSites, {
+    start: startingLocation,
+    end: endingLocation,
+    startMinutes: routeStartMinutes,
+    finishBy: timeToMinutes(finishByTime),
+    travelTimes,
+  });
+
+  const orderedStops = optimized.stops.map(
+    (stop) => stop.item
+  );
+
+  const reasonsByStop = new Map(
+    optimized.stops.map(
+      (stop) => [stop.item, stop.reasons] as const
+    )
   );
 
   const stopsWithTravel = addTravelEstimates(
     orderedStops,
-    startingLocation
+    startingLocation,
+    travelTimes
   );
 
+  let clock = routeStartMinutes;
+
   const stops: PlannedRouteStop[] =
     stopsWithTravel.map(
       ({
@@ -87,6 +199,31 @@ export function buildDailyRoutePlan({
               )
             : automaticTravelMinutes;
 
+        let timeline: Pick<
+          PlannedRouteStop,
+          "arrivalMinutes" | "startMinutes" | "finishMinutes" | "waitMinutes" | "lateMinutes"
+        > = { waitMinutes: 0, lateMinutes: 0 };
+
+        if (clock !== null) {
+          const { planned, earliest, deadline } = item.window;
+          const arrivalMinutes = clock + effectiveTravelMinutes;
+          const startMinutes = Math.max(arrivalMinutes, earliest ?? arrivalMinutes);
+          const finishMinutes = startMinutes + item.serviceMinutes;
+
+          timeline = {
+            arrivalMinutes,
+            startMinutes,
+            finishMinutes,
+            waitMinutes: startMinutes - arrivalMinutes,
+            lateMinutes: Math.max(
+              0,
+              planned !== null ? startMinutes - planned : 0,
+              deadline !== null ? finishMinutes - deadline : 0
+            ),
+          };
+          clock = finishMinutes;
+        }
+
         return {
           schedule: item.schedule,
           site: item.site,
@@ -104,6 +241,10 @@ export function buildDailyRoutePlan({
           effectiveTravelMinutes,
 
           distanceMiles,
+
+          ...timeline,
+
+          reasons: reasonsByStop.get(item) ?? [],
         };
       }
     );
@@ -114,15 +255,25 @@ export function buildDailyRoutePlan({
     0
   );
 
+  const returnTravelMinutes =
+    optimized.returnTravelMinutes;
+
   const totalTravelMinutes = stops.reduce(
     (total, stop) =>
       total + stop.effectiveTravelMinutes,
-    0
+    returnTravelMinutes
   );
 
   return {
     stops,
 
+    startMinutes: routeStartMinutes,
+    lateStopCount: stops.filter(
+      (stop) => stop.lateMinutes > 0
+    ).length,
+
+    returnTravelMinutes,
+
     totalCleaningMinutes,
 
     totalTravelMinutes,
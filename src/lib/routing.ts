@@ -23,6 +23,30 @@ export function estimateDriveMinutes(miles: number, avgMph = 35) {
   return Math.max(1, Math.round((miles / avgMph) * 60));
 }
 
+export type TravelLeg = {
+  minutes: number;
+  miles: number;
+};
+
+/*
+ * Synchronous drive time lookup between two map points. Road-based
+ * times are loaded ahead of time by a TravelTimeProvider
+ * (src/lib/travel-time.ts); straight-line is the fallback.
+ */
+export type TravelTimes = {
+  leg(
+    from: { lat: number; lng: number },
+    to: { lat: number; lng: number }
+  ): TravelLeg;
+};
+
+export const straightLineTravel: TravelTimes = {
+  leg(from, to) {
+    const miles = haversineMiles(from.lat, from.lng, to.lat, to.lng);
+    return { miles, minutes: estimateDriveMinutes(miles) };
+  },
+};
+
 export function optimizeRouteByNearest<T extends {
   lat?: number;
   lng?: number;
@@ -125,7 +149,8 @@ export function addTravelEstimates<
   }
 >(
   orderedStops: T[],
-  start?: { lat: number; lng: number } | null
+  start?: { lat: number; lng: number } | null,
+  travel: TravelTimes = straightLineTravel
 ): RouteStopWithTravel<T>[] {
   let previousLat = start?.lat;
   let previousLng = start?.lng;
@@ -143,15 +168,13 @@ if (
   currentLat !== undefined &&
   currentLng !== undefined
 ) {
-  distanceMiles = haversineMiles(
-    previousLat,
-    previousLng,
-    currentLat,
-    currentLng
+  const leg = travel.leg(
+    { lat: previousLat, lng: previousLng },
+    { lat: currentLat, lng: currentLng }
   );
 
-  automaticTravelMinutes =
-    estimateDriveMinutes(distanceMiles);
+  distanceMiles = leg.miles;
+  automaticTravelMinutes = leg.minutes;
 }
 
 if (
@@ -168,4 +191,93 @@ if (
       automaticTravelMinutes,
     };
   });
-}
\ No newline at end of file
+}
+
+export type TimeWindowedStop = {
+  lat?: number;
+  lng?: number;
+
+  // minutes since midnight
+  earliest?: number | null;
+  deadline?: number | null;
+
+  serviceMinutes: number;
+};
+
+function travelMinutesBetween(
+  from: { lat?: number; lng?: number } | null | undefined,
+  to: { lat?: number; lng?: number },
+  travel: TravelTimes
+) {
+  if (
+    from?.lat == null ||
+    from?.lng == null ||
+    to.lat == null ||
+    to.lng == null
+  ) {
+    return 0;
+  }
+
+  return travel.leg(
+    { lat: from.lat, lng: from.lng },
+    { lat: to.lat, lng: to.lng }
+  ).minutes;
+}
+
+/*
+ * Greedy route order that respects visit time windows.
+ *
+ * The next stop is the one that can be started soonest (travel plus
+ * any wait for its window to open), unless going there first would
+ * make another stop miss its deadline; then that stop goes first.
+ * Stops without coordinates cost no travel.
+ */
+export function optimizeRouteWithTimeWindows<T extends TimeWindowedStop>(
+  stops: T[],
+  start: { lat: number; lng: number } | null | undefined,
+  startMinutes: number,
+  travel: TravelTimes = straightLineTravel
+) {
+  const remaining = [...stops];
+  const ordered: T[] = [];
+
+  let position: { lat?: number; lng?: number } | null = start ?? null;
+  let clock = startMinutes;
+
+  const timing = (stop: T, from: typeof position, at: number) => {
+    const arrive = at + travelMinutesBetween(from, stop, travel);
+    const begin = Math.max(arrive, stop.earliest ?? arrive);
+    return { begin, finish: begin + stop.serviceMinutes };
+  };
+
+  while (remaining.length > 0) {
+    const options = remaining
+      .map((stop) => ({ stop, ...timing(stop, position, clock) }))
+      .sort((a, b) => a.begin - b.begin);
+
+    let pick = options[0];
+
+    const endangered = options
+      .filter((option) => {
+        const deadline = option.stop.deadline;
+        if (option === pick || deadline == null) return false;
+        if (option.finish > deadline) return false; // already lost
+
+        const after = timing(option.stop, pick.stop, pick.finish);
+        return after.finish > deadline;
+      })
+      .sort((a, b) => (a.stop.deadline ?? 0) - (b.stop.deadline ?? 0));
+
+    if (endangered.length) pick = endangered[0];
+
+    ordered.push(pick.stop);
+    remaining.splice(remaining.indexOf(pick.stop), 1);
+
+    clock = pick.finish;
+    if (pick.stop.lat != null && pick.stop.lng != null) {
+      position = pick.stop;
+    }
+  }
+
+  return ordered;
+}
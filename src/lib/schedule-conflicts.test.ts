@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { CleaningSchedule, Employee, Site } from "@/shared/types/domain";
+import { liveSitePins } from "./live-ops";
+import { detectScheduleConflicts, occurrenceKey } from "./schedule-conflicts";
+
+const sites: Site[] = [
+  { id: "site-1", name: "Main St Office", estimatedWorkMinutes: 120, lat: 40.7, lng: -74 },
+  { id: "site-2", name: "Harbor Plaza", estimatedWorkMinutes: 120, lat: 40.8, lng: -74.1 },
+];
+
+const ann: Employee = { id: "e1", name: "Ann Lee", firstName: "Ann", lastName: "Lee", payRate: 20 };
+
+const visit = (id: string, patch: Partial<CleaningSchedule>): CleaningSchedule => ({
+  id,
+  siteName: "Main St Office",
+  siteId: "site-1",
+  tasks: "Floors",
+  assignedTo: [],
+  assignedEmployeeIds: ["e1"],
+  startDate: "2025-03-10",
+  repeatFrequency: "does-not-repeat",
+  startTime: "09:00",
+  ...patch,
+});
+
+const conflicts = (schedules: CleaningSchedule[]) =>
+  detectScheduleConflicts({
+    occurrences: schedules.map((schedule) => ({ schedule, date: "2025-03-10" })),
+    employees: [ann],
+    sites,
+    timeOffRequests: [],
+    weekStartsOn: 0,
+  });
+
+const doubleBookings = (found: ReturnType<typeof conflicts>, scheduleId: string) =>
+  (found.get(occurrenceKey(scheduleId, "2025-03-10")) ?? []).filter((c) => c.kind === "double-booked");
+
+describe("site joins", () => {
+  it("treats overlapping visits to one site as one place, even under an old name", () => {
+    const found = conflicts([
+      visit("a", {}),
+      visit("b", { siteName: "Main Street Office (old name)" }),
+    ]);
+    expect(doubleBookings(found, "a")).toEqual([]);
+  });
+
+  it("double-books overlapping visits to different sites that share a name", () => {
+    const found = conflicts([
+      visit("a", {}),
+      visit("b", { siteId: "site-2", siteName: "Main St Office" }),
+    ]);
+    expect(doubleBookings(found, "a")).toHaveLength(1);
+  });
+
+  it("colors live map pins by site id", () => {
+    const renamed = sites.map((s) => (s.id === "site-1" ? { ...s, name: "Main St HQ" } : s));
+    const pins = liveSitePins(renamed, new Map([["site-1", "complete"]]), []);
+
+    expect(pins.map((p) => [p.site.id, p.status])).toEqual([
+      ["site-1", "complete"],
+      ["site-2", undefined],
+    ]);
+  });
+});
@@ -0,0 +1,308 @@
+// src/lib/schedule-conflicts.ts
+import { format, parseISO, startOfWeek } from "date-fns";
+import type {
+  AvailabilityBlock,
+  CleaningSchedule,
+  DayOfWeek,
+  Employee,
+  Site,
+  TimeOffRequest,
+} from "@/shared/types/domain";
+import {
+  formatWindowTime,
+  timeToMinutes,
+  visitWindow,
+} from "@/lib/visit-windows";
+import { resolveSite, scheduleSiteRefs, siteKey, siteNameKey } from "@/lib/site-index";
+
+/*
+ * Flags scheduled visits whose assignees cannot (or should not) work
+ * them:
+ *
+ * - time-off: approved time off covers the day
+ * - unavailable: outside the employee's weekly availability
+ * - double-booked: a timed visit at another site overlaps this one
+ * - over-hours: the week's estimated work passes maxWeeklyHours
+ *
+ * Visit length is the sites' estimated work split across the assignees.
+ * Visits without a start time or window only count as untimed, so they
+ * never double-book and only need some availability that day.
+ */
+
+export type ScheduleConflictKind =
+  | "time-off"
+  | "unavailable"
+  | "double-booked"
+  | "over-hours";
+
+export type ScheduleConflict = {
+  kind: ScheduleConflictKind;
+  scheduleId: string;
+  date: string; // yyyy-MM-dd
+  employeeId: string;
+  employeeName: string;
+  message: string;
+};
+
+// `schedule` is the occurrence as worked, with its override applied
+export type ScheduleOccurrence = {
+  schedule: CleaningSchedule;
+  date: string; // yyyy-MM-dd
+};
+
+type VisitInterval = { start: number; end: number }; // minutes since midnight
+
+type DetectConflictsOptions = {
+  occurrences: ScheduleOccurrence[];
+  employees: Employee[];
+  sites: Site[];
+  timeOffRequests: TimeOffRequest[];
+  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+};
+
+export const occurrenceKey = (scheduleId: string, date: string) =>
+  `${scheduleId}_${date}`;
+
+/**
+ * Employees working a visit: explicit ids, then legacy names, then the
+ * active members of the assigned team.
+ */
+export function scheduleAssigneeIds(
+  schedule: CleaningSchedule,
+  employees: Employee[]
+): string[] {
+  if (schedule.assignedEmployeeIds?.length) return schedule.assignedEmployeeIds;
+
+  if (schedule.assignedTo?.length) {
+    return schedule.assignedTo
+      .map((name) => employees.find((e) => e.name === name)?.id)
+      .filter((id): id is string => Boolean(id));
+  }
+
+  if (schedule.assignedTeamId) {
+    return employees
+      .filter(
+        (e) =>
+          e.teamId === schedule.assignedTeamId &&
+          (e.status || "active") !== "inactive"
+      )
+      .map((e) => e.id);
+  }
+
+  return [];
+}
+
+export function approvedTimeOffOn(
+  requests: TimeOffRequest[],
+  employeeId: string,
+  date: string
+) {
+  return requests.find(
+    (r) =>
+      r.status === "approved" &&
+      r.employeeId === employeeId &&
+      r.startDate <= date &&
+      r.endDate >= date
+  );
+}
+
+export const formatTimeOffRange = (
+  request: Pick<TimeOffRequest, "startDate" | "endDate">
+) =>
+  request.startDate === request.endDate
+    ? format(parseISO(request.startDate), "EEE, MMM d, yyyy")
+    : `${format(parseISO(request.startDate), "EEE, MMM d")} – ${format(parseISO(request.endDate), "EEE, MMM d, yyyy")}`;
+
+const blockRange = (block: AvailabilityBlock): VisitInterval | null => {
+  const start = timeToMinutes(block.start);
+  let end = timeToMinutes(block.end);
+  if (start === null || end === null) return null;
+  if (end <= start) end += 24 * 60; // overnight
+  return { start, end };
+};
+
+/**
+ * Whether the employee's weekly availability allows working `interval`
+ * on `date`. No availability on file means no limits.
+ */
+export function isAvailable(
+  employee: Employee,
+  date: string,
+  interval: VisitInterval | null
+) {
+  if (!employee.availability?.length) return true;
+
+  const day = format(parseISO(date), "EEEE") as DayOfWeek;
+  const ranges = employee.availability
+    .filter((block) => block.day === day)
+    .map(blockRange)
+    .filter((range): range is VisitInterval => range !== null);
+
+  if (!interval) return ranges.length > 0;
+  return ranges.some((r) => r.start <= interval.start && r.end >= interval.end);
+}
+
+export function describeAvailability(blocks: AvailabilityBlock[] | undefined) {
+  if (!blocks?.length) return "Any time";
+
+  return blocks
+    .map((block) => {
+      const range = blockRange(block);
+      return range
+        ? `${block.day.slice(0, 3)} ${formatWindowTime(range.start)}–${formatWindowTime(range.end)}`
+        : null;
+    })
+    .filter(Boolean)
+    .join(", ");
+}
+
+function estimatedMinutes(schedule: CleaningSchedule, sites: Site[]) {
+  return scheduleSiteRefs(schedule).reduce((total, ref) => {
+    const site = resolveSite(sites, ref.siteId, ref.name);
+    return total + Number(site?.estimatedWorkMinutes ?? 0);
+  }, 0);
+}
+
+// Which site a visit is at, for telling two visits apart by place
+function visitSiteKey(schedule: CleaningSchedule, sites: Site[]) {
+  const site = resolveSite(sites, schedule.siteId, schedule.siteName);
+  return site ? siteKey(site) : schedule.siteId || siteNameKey(schedule.siteName);
+}
+
+function visitInterval(schedule: CleaningSchedule, minutes: number): VisitInterval | null {
+  const { planned, earliest, deadline } = visitWindow(schedule);
+  const start = planned ?? earliest;
+
+  if (start !== null) return { start, end: start + minutes };
+  if (deadline !== null) return { start: deadline - minutes, end: deadline };
+  return null;
+}
+
+const rangeLabel = (interval: VisitInterval) =>
+  `${formatWindowTime(interval.start)}–${formatWindowTime(interval.end)}`;
+
+const scheduleLabel = (schedule: CleaningSchedule) =>
+  schedule.siteNames?.length && schedule.siteNames.length > 1
+    ? schedule.siteNames.join(" + ")
+    : schedule.siteName;
+
+/**
+ * Conflicts per occurrence, keyed by occurrenceKey(scheduleId, date).
+ * Pass whole weeks of occurrences so the weekly hour totals are right.
+ */
+export function detectScheduleConflicts({
+  occurrences,
+  employees,
+  sites,
+  timeOffRequests,
+  weekStartsOn,
+}: DetectConflictsOptions): Map<string, ScheduleConflict[]> {
+  const employeeById = new Map(employees.map((e) => [e.id, e]));
+  const out = new Map<string, ScheduleConflict[]>();
+
+  const add = (conflict: Omit<ScheduleConflict, "employeeName">) => {
+    const key = occurrenceKey(conflict.scheduleId, conflict.date);
+    const list = out.get(key) ?? [];
+    list.push({
+      ...conflict,
+      employeeName: employeeById.get(conflict.employeeId)?.name ?? conflict.employeeId,
+    });
+    out.set(key, list);
+  };
+
+  const visits = occurrences
+    .map(({ schedule, date }) => {
+      const assignees = scheduleAssigneeIds(schedule, employees);
+      const minutes = Math.ceil(
+        estimatedMinutes(schedule, sites) / Math.max(1, assignees.length)
+      );
+
+      return {
+        schedule,
+        date,
+        assignees,
+        minutes,
+        interval: visitInterval(schedule, minutes),
+        siteKey: visitSiteKey(schedule, sites),
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        (a.interval?.start ?? Infinity) - (b.interval?.start ?? Infinity) ||
+        a.schedule.siteName.localeCompare(b.schedule.siteName)
+    );
+
+  const weeklyMinutes = new Map<string, number>();
+
+  visits.forEach((visit, index) => {
+    const { schedule, date, interval } = visit;
+
+    for (const employeeId of visit.assignees) {
+      const employee = employeeById.get(employeeId);
+      if (!employee) continue;
+
+      const timeOff = approvedTimeOffOn(timeOffRequests, employeeId, date);
+      if (timeOff) {
+        add({
+          kind: "time-off",
+          scheduleId: schedule.id,
+          date,
+          employeeId,
+          message: `${employee.name} has approved time off (${formatTimeOffRange(timeOff)})`,
+        });
+      } else if (!isAvailable(employee, date, interval)) {
+        add({
+          kind: "unavailable",
+          scheduleId: schedule.id,
+          date,
+          employeeId,
+          message: `${employee.name} is not available${interval ? ` ${rangeLabel(interval)}` : " this day"} (${describeAvailability(employee.availability)})`,
+        });
+      }
+
+      if (interval) {
+        const overlaps = visits.filter(
+          (other, otherIndex) =>
+            otherIndex !== index &&
+            other.date === date &&
+            other.interval &&
+            other.siteKey !== visit.siteKey &&
+            other.assignees.includes(employeeId) &&
+            other.interval.start < interval.end &&
+            interval.start < other.interval.end
+        );
+
+        for (const other of overlaps) {
+          add({
+            kind: "double-booked",
+            scheduleId: schedule.id,
+            date,
+            employeeId,
+            message: `${employee.name} is also at ${scheduleLabel(other.schedule)} ${rangeLabel(other.interval!)}`,
+          });
+        }
+      }
+
+      const cap = Number(employee.maxWeeklyHours ?? 0);
+      const weekKey = `${employeeId}_${format(
+        startOfWeek(parseISO(date), { weekStartsOn }),
+        "yyyy-MM-dd"
+      )}`;
+      const total = (weeklyMinutes.get(weekKey) ?? 0) + visit.minutes;
+      weeklyMinutes.set(weekKey, total);
+
+      if (cap > 0 && visit.minutes > 0 && total > cap * 60) {
+        add({
+          kind: "over-hours",
+          scheduleId: schedule.id,
+          date,
+          employeeId,
+          message: `${employee.name} reaches ${(total / 60).toFixed(1)}h this week (cap ${cap}h)`,
+        });
+      }
+    }
+  });
+
+  return out;
+}
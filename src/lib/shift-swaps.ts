@@ -0,0 +1,169 @@
+// src/lib/shift-swaps.ts
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+import type {
+  CleaningSchedule,
+  Employee,
+  OccurrenceChanges,
+  OccurrenceOverride,
+  ShiftSwap,
+  Site,
+  TimeOffRequest,
+} from "@/shared/types/domain";
+import {
+  detectScheduleConflicts,
+  occurrenceKey,
+  scheduleAssigneeIds,
+  type ScheduleOccurrence,
+} from "@/lib/schedule-conflicts";
+import { occurrencesBetween } from "@/lib/occurrence-overrides";
+
+/*
+ * Shift swaps move one occurrence between employees. The series is
+ * never edited; the new assignment is written to the occurrence's
+ * OccurrenceOverride.
+ */
+
+export type OccurrenceAssignment = Pick<
+  OccurrenceChanges,
+  "assignedEmployeeIds" | "assignedTo" | "assignedTeamId"
+>;
+
+export type Handoff = {
+  scheduleId: string;
+  date: string; // yyyy-MM-dd, the day the occurrence is worked
+  fromEmployeeId: string;
+  to: Employee;
+};
+
+export const isActiveSwap = (swap: ShiftSwap) =>
+  swap.status === "open" || swap.status === "claimed";
+
+/**
+ * The handoffs a swap makes once approved: the offered shift to the
+ * claimer and, for a swap, the return shift to the offering employee.
+ */
+export function swapHandoffs(swap: ShiftSwap, employees: Employee[]): Handoff[] {
+  const claimer = employees.find((e) => e.id === swap.claimedByEmployeeId);
+  const offerer = employees.find((e) => e.id === swap.employeeId);
+  if (!claimer || !offerer) return [];
+
+  const handoffs: Handoff[] = [
+    {
+      scheduleId: swap.scheduleId,
+      date: swap.scheduleDate,
+      fromEmployeeId: offerer.id,
+      to: claimer,
+    },
+  ];
+
+  if (swap.kind === "swap" && swap.returnScheduleId && swap.returnScheduleDate) {
+    handoffs.push({
+      scheduleId: swap.returnScheduleId,
+      date: swap.returnScheduleDate,
+      fromEmployeeId: claimer.id,
+      to: offerer,
+    });
+  }
+
+  return handoffs;
+}
+
+/**
+ * The occurrence's assignment after the handoff, or null when the
+ * giving employee is no longer on it. `occurrence` is the schedule as
+ * worked that day. Team assignments become the team's members so the
+ * rest of the team stays on the visit.
+ */
+export function handOffAssignment(
+  occurrence: CleaningSchedule,
+  handoff: Handoff,
+  employees: Employee[]
+): OccurrenceAssignment | null {
+  const current = scheduleAssigneeIds(occurrence, employees);
+  if (!current.includes(handoff.fromEmployeeId)) return null;
+
+  const ids = Array.from(
+    new Set(current.map((id) => (id === handoff.fromEmployeeId ? handoff.to.id : id)))
+  );
+
+  return {
+    assignedEmployeeIds: ids,
+    assignedTo: ids
+      .map((id) => employees.find((e) => e.id === id)?.name)
+      .filter((name): name is string => Boolean(name)),
+    assignedTeamId: "",
+  };
+}
+
+/**
+ * Every occurrence worked in the weeks containing `dates`, for
+ * conflict checks. Cancelled occurrences are left out.
+ */
+export function weekOccurrences(
+  schedules: CleaningSchedule[],
+  overrides: OccurrenceOverride[],
+  dates: string[],
+  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6
+): ScheduleOccurrence[] {
+  const weeks = Array.from(
+    new Set(
+      dates.map((date) =>
+        format(startOfWeek(parseISO(date), { weekStartsOn }), "yyyy-MM-dd")
+      )
+    )
+  );
+
+  return weeks.flatMap((from) => {
+    const to = format(addDays(parseISO(from), 6), "yyyy-MM-dd");
+    return occurrencesBetween(schedules, overrides, from, to, weekStartsOn)
+      .filter((o) => !o.cancelled)
+      .map(({ schedule, date }) => ({ schedule, date }));
+  });
+}
+
+/**
+ * Conflicts the receiving employees would have after the handoffs.
+ * `occurrences` should cover the weeks involved so hour caps count.
+ */
+export function handoffConflicts({
+  handoffs,
+  occurrences,
+  employees,
+  sites,
+  timeOffRequests,
+  weekStartsOn,
+}: {
+  handoffs: Handoff[];
+  occurrences: ScheduleOccurrence[];
+  employees: Employee[];
+  sites: Site[];
+  timeOffRequests: TimeOffRequest[];
+  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+}): string[] {
+  const after = occurrences.map((occurrence) => {
+    const handoff = handoffs.find(
+      (h) => h.scheduleId === occurrence.schedule.id && h.date === occurrence.date
+    );
+    const assignment =
+      handoff && handOffAssignment(occurrence.schedule, handoff, employees);
+    if (!assignment) return occurrence;
+
+    const schedule = { ...occurrence.schedule, ...assignment };
+    delete schedule.assignedTeamId;
+    return { ...occurrence, schedule };
+  });
+
+  const conflicts = detectScheduleConflicts({
+    occurrences: after,
+    employees,
+    sites,
+    timeOffRequests,
+    weekStartsOn,
+  });
+
+  return handoffs.flatMap((h) =>
+    (conflicts.get(occurrenceKey(h.scheduleId, h.date)) ?? [])
+      .filter((c) => c.employeeId === h.to.id)
+      .map((c) => c.message)
+  );
+}
@@ -1,19 +1,130 @@
-import type { Site } from "@/shared/types/domain";
+import type { CleaningSchedule, Entry, Site } from "@/shared/types/domain";
+
+/*
+ * Records point at a site by siteId. Names are display-only, but rows
+ * written before the siteId backfill (src/lib/migrations/003-site-id-backfill.ts) still
+ * only carry one, so every lookup falls back to the name.
+ */
 
 export type SiteIndex = {
   byId: Map<string, Site>;
   byName: Map<string, Site>;
 };
 
+export const siteNameKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * What maps keyed by site use: the id, or the name for sites saved
+ * before ids.
+ */
+export const siteKey = (site: Pick<Site, "id" | "name">) => site.id ?? site.name;
+
 export function indexSites(sites: Site[] = []): SiteIndex {
   const byId = new Map<string, Site>();
   const byName = new Map<string, Site>();
 
   for (const s of sites) {
-    const id = s.id ?? s.name;
-    byId.set(id, s);
-    byName.set(s.name.trim().toLowerCase(), s);
+    byId.set(siteKey(s), s);
+    byName.set(siteNameKey(s.name), s);
   }
 
   return { byId, byName };
 }
+
+const indexCache = new WeakMap<Site[], SiteIndex>();
+
+// indexSites, reused for the same sites array
+function cachedIndex(sites: Site[]) {
+  let index = indexCache.get(sites);
+  if (!index) {
+    index = indexSites(sites);
+    indexCache.set(sites, index);
+  }
+  return index;
+}
+
+/**
+ * The directory site a record points at: by siteId, else by name.
+ */
+export function resolveSite(
+  sites: Site[] | SiteIndex,
+  siteId: string | null | undefined,
+  name?: string | null
+): Site | undefined {
+  const index = Array.isArray(sites) ? cachedIndex(sites) : sites;
+  if (siteId) {
+    const byId = index.byId.get(siteId);
+    if (byId) return byId;
+  }
+  return name ? index.byName.get(siteNameKey(name)) : undefined;
+}
+
+export type ScheduleSiteRef = { siteId?: string; name: string };
+
+/**
+ * Every site a schedule visits, in order. Grouped schedules pair
+ * siteIds with siteNames by position.
+ */
+export function scheduleSiteRefs(
+  schedule: Pick<CleaningSchedule, "siteId" | "siteIds" | "siteName" | "siteNames">
+): ScheduleSiteRef[] {
+  if (schedule.siteNames?.length) {
+    return schedule.siteNames.map((name, i) => ({ siteId: schedule.siteIds?.[i], name }));
+  }
+  return [{ siteId: schedule.siteId, name: schedule.siteName }];
+}
+
+/**
+ * Whether a schedule visits `site`.
+ */
+export const scheduleVisitsSite = (
+  schedule: Pick<CleaningSchedule, "siteId" | "siteIds" | "siteName" | "siteNames">,
+  site: Pick<Site, "id" | "name">
+) => scheduleSiteRefs(schedule).some((ref) => refersToSite(ref.siteId, ref.name, site));
+
+/**
+ * Whether a record with this siteId (or, without one, this name)
+ * points at `site`.
+ */
+export const refersToSite = (
+  siteId: string | null | undefined,
+  name: string | null | undefined,
+  site: Pick<Site, "id" | "name">
+) => (siteId ? siteId === site.id : !!name && siteNameKey(name) === siteNameKey(site.name));
+
+/**
+ * Whether two records point at the same site: by id when both carry
+ * one, else by name.
+ */
+export const sameSite = (
+  a: { siteId?: string | null; name?: string | null },
+  b: { siteId?: string | null; name?: string | null }
+) =>
+  a.siteId && b.siteId
+    ? a.siteId === b.siteId
+    : !!a.name && !!b.name && siteNameKey(a.name) === siteNameKey(b.name);
+
+/**
+ * Whether a time entry was recorded at `site`.
+ */
+export const entryAtSite = (
+  entry: Pick<Entry, "siteId" | "site"> | null | undefined,
+  site: Pick<Site, "id" | "name">
+) => !!entry && refersToSite(entry.siteId, entry.site, site);
+
+/**
+ * A grouped schedule's charge for one of its sites. Charges are keyed
+ * by site id; older schedules keyed them by site name.
+ */
+export function siteServiceCharge(
+  schedule: Pick<CleaningSchedule, "siteServiceCharges">,
+  site: Pick<Site, "id" | "name">
+): number {
+  const charges = schedule.siteServiceCharges ?? {};
+  if (site.id && charges[site.id] !== undefined) return Number(charges[site.id]);
+
+  const byName = Object.entries(charges).find(
+    ([key]) => siteNameKey(key) === siteNameKey(site.name)
+  );
+  return Number(byName?.[1] ?? 0);
+}
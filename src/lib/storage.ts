@@ -1,7 +1,7 @@
 
 
-import type { Settings, Entry, CleaningSchedule, MileageLog, Employee, Invoice, OtherExpense, PayrollPeriod } from "@/shared/types/domain";
-import { defaultSettings, KEY_SETTINGS, KEY_LOCAL, KEY_SCHEDULES, KEY_MILEAGE, KEY_EMPLOYEES, KEY_OTHER_EXPENSES, KEY_INVOICES, KEY_PAYROLL_PERIODS } from "@/lib/constants";
+import type { Settings, Entry, CleaningSchedule, MileageLog, Employee, Invoice, OtherExpense, PayrollPeriod, ServiceFeedback } from "@/shared/types/domain";
+import { defaultSettings, KEY_SETTINGS, KEY_LOCAL, KEY_SCHEDULES, KEY_MILEAGE, KEY_EMPLOYEES, KEY_OTHER_EXPENSES, KEY_INVOICES, KEY_PAYROLL_PERIODS, KEY_SERVICE_FEEDBACKS } from "@/lib/constants";
 
 function safeJsonParse<T>(key: string, defaultValue: T): T {
   if (typeof window === "undefined") return defaultValue;
@@ -107,5 +107,13 @@ export function saveLocalPayrollPeriods(periods: PayrollPeriod[]) {
     localStorage.setItem(KEY_PAYROLL_PERIODS, JSON.stringify(periods));
 }
 
+// --- Functions for Service Feedback ---
 
-    
+export function loadLocalServiceFeedbacks(): ServiceFeedback[] {
+    return safeJsonParse<ServiceFeedback[]>(KEY_SERVICE_FEEDBACKS, []);
+}
+
+export function saveLocalServiceFeedbacks(feedbacks: ServiceFeedback[]) {
+    if (typeof window === "undefined") return;
+    localStorage.setItem(KEY_SERVICE_FEEDBACKS, JSON.stringify(feedbacks));
+}
@@ -92,6 +92,7 @@ export function groupSessions(entries: Entry[]): Session[] {
         open.out = e;
         open.minutes = (endTs - open.in.ts) / 60000;
         open.active = false;
+        open.needsReview = !!e.autoClosed && e.autoCloseReview === "pending";
 
         // Remove from indexes
         openByKey.delete(makeKey(open.in)); // remove original IN-key mapping
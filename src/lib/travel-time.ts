@@ -0,0 +1,302 @@
+// src/lib/travel-time.ts
+import type { TravelTimeProviderKind } from "@/shared/types/domain";
+import {
+  straightLineTravel,
+  type TravelLeg,
+  type TravelTimes,
+} from "@/lib/routing";
+
+/*
+ * Travel time providers.
+ *
+ * Route planning runs synchronously inside render, so road-based drive
+ * times are fetched ahead of time as a matrix for the day's points and
+ * handed to the planner as a TravelTimes lookup. Pairs the matrix does
+ * not cover fall back to straight-line estimates.
+ */
+
+export type TravelPoint = {
+  // Stable id for caching, e.g. the site id
+  key: string;
+  lat: number;
+  lng: number;
+};
+
+export interface TravelTimeProvider {
+  readonly name: string;
+
+  // legs[i][j] is the drive from points[i] to points[j]
+  matrix(points: TravelPoint[]): Promise<TravelLeg[][]>;
+}
+
+const METERS_PER_MILE = 1609.344;
+
+export const straightLineProvider: TravelTimeProvider = {
+  name: "straight-line",
+
+  async matrix(points) {
+    return points.map((from) => points.map((to) => straightLineTravel.leg(from, to)));
+  },
+};
+
+/*
+ * OSRM table service (http://project-osrm.org/docs/v5.24.0/api/#table-service).
+ * For local development: docker run -p 5000:5000 osrm/osrm-backend osrm-routed ...
+ */
+export function osrmProvider(baseUrl: string, profile = "driving"): TravelTimeProvider {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  return {
+    name: "osrm",
+
+    async matrix(points) {
+      if (points.length < 2) return points.map(() => points.map(() => zeroLeg()));
+
+      const coords = points.map((p) => `${p.lng},${p.lat}`).join(";");
+      const res = await fetch(
+        `${root}/table/v1/${profile}/${coords}?annotations=duration,distance`
+      );
+      if (!res.ok) throw new Error(`OSRM table request failed (${res.status})`);
+
+      const body = (await res.json()) as {
+        code: string;
+        message?: string;
+        durations?: (number | null)[][];
+        distances?: (number | null)[][];
+      };
+      if (body.code !== "Ok" || !body.durations) {
+        throw new Error(body.message || `OSRM returned ${body.code}`);
+      }
+
+      return points.map((from, i) =>
+        points.map((to, j) => {
+          const seconds = body.durations?.[i]?.[j];
+          const meters = body.distances?.[i]?.[j];
+          return seconds == null
+            ? straightLineTravel.leg(from, to)
+            : toLeg(seconds, meters == null ? null : meters / METERS_PER_MILE, from, to);
+        })
+      );
+    },
+  };
+}
+
+/*
+ * Valhalla matrix service (sources_to_targets).
+ * For local development: docker run -p 8002:8002 ghcr.io/gis-ops/docker-valhalla/valhalla
+ */
+export function valhallaProvider(baseUrl: string, costing = "auto"): TravelTimeProvider {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  return {
+    name: "valhalla",
+
+    async matrix(points) {
+      if (points.length < 2) return points.map(() => points.map(() => zeroLeg()));
+
+      const locations = points.map((p) => ({ lat: p.lat, lon: p.lng }));
+      const res = await fetch(`${root}/sources_to_targets`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sources: locations,
+          targets: locations,
+          costing,
+          units: "miles",
+        }),
+      });
+      if (!res.ok) throw new Error(`Valhalla matrix request failed (${res.status})`);
+
+      const body = (await res.json()) as {
+        sources_to_targets?: { time: number | null; distance: number | null }[][];
+      };
+      if (!body.sources_to_targets) throw new Error("Valhalla returned no matrix");
+
+      return points.map((from, i) =>
+        points.map((to, j) => {
+          const cell = body.sources_to_targets?.[i]?.[j];
+          return cell?.time == null
+            ? straightLineTravel.leg(from, to)
+            : toLeg(cell.time, cell.distance, from, to);
+        })
+      );
+    },
+  };
+}
+
+const zeroLeg = (): TravelLeg => ({ minutes: 0, miles: 0 });
+
+function toLeg(
+  seconds: number,
+  miles: number | null,
+  from: TravelPoint,
+  to: TravelPoint
+): TravelLeg {
+  if (from.key === to.key) return zeroLeg();
+
+  return {
+    minutes: seconds > 0 ? Math.max(1, Math.round(seconds / 60)) : 0,
+    miles: miles ?? straightLineTravel.leg(from, to).miles,
+  };
+}
+
+export function createTravelTimeProvider(
+  kind: TravelTimeProviderKind | undefined,
+  serviceUrl: string | undefined
+): TravelTimeProvider {
+  if (!serviceUrl?.trim()) return straightLineProvider;
+
+  switch (kind) {
+    case "osrm":
+      return osrmProvider(serviceUrl.trim());
+    case "valhalla":
+      return valhallaProvider(serviceUrl.trim());
+    default:
+      return straightLineProvider;
+  }
+}
+
+// ---------------------------------------------------------------
+// Cached matrix
+// ---------------------------------------------------------------
+
+export type CachedTravelLeg = TravelLeg & {
+  provider: string;
+
+  // Coordinates the leg was computed for; a moved site invalidates it
+  fromLat: number;
+  fromLng: number;
+  toLat: number;
+  toLng: number;
+};
+
+/*
+ * Persistent site-pair cache, e.g. FirestoreTravelMatrixStore.
+ * Pairs are keyed `${from.key}__${to.key}`.
+ */
+export interface TravelMatrixStore {
+  getMany(pairKeys: string[]): Promise<Map<string, CachedTravelLeg>>;
+  putMany(legs: Map<string, CachedTravelLeg>): Promise<void>;
+}
+
+export const travelPairKey = (from: TravelPoint, to: TravelPoint) =>
+  `${from.key}__${to.key}`;
+
+const samePlace = (a: number, b: number) => Math.abs(a - b) < 1e-5;
+
+/*
+ * Serves what the store already has and asks the wrapped provider only
+ * when a pair is missing, stale or from another provider. A failing
+ * store never fails the plan; it just isn't used.
+ */
+export function cachedTravelTimeProvider(
+  inner: TravelTimeProvider,
+  store: TravelMatrixStore
+): TravelTimeProvider {
+  return {
+    name: inner.name,
+
+    async matrix(points) {
+      const pairs = points.flatMap((from, i) =>
+        points.map((to, j) => ({ i, j, key: travelPairKey(from, to) }))
+      );
+
+      const cached = await store
+        .getMany(pairs.filter((p) => p.i !== p.j).map((p) => p.key))
+        .catch((e) => {
+          console.warn("[travel-time] cache read failed", e);
+          return new Map<string, CachedTravelLeg>();
+        });
+
+      const isFresh = (i: number, j: number, leg?: CachedTravelLeg) =>
+        !!leg &&
+        leg.provider === inner.name &&
+        samePlace(leg.fromLat, points[i].lat) &&
+        samePlace(leg.fromLng, points[i].lng) &&
+        samePlace(leg.toLat, points[j].lat) &&
+        samePlace(leg.toLng, points[j].lng);
+
+      const missing = pairs.filter(
+        (p) => p.i !== p.j && !isFresh(p.i, p.j, cached.get(p.key))
+      );
+
+      if (missing.length) {
+        // One request for every point that has a missing pair
+        const involved = Array.from(new Set(missing.flatMap((p) => [p.i, p.j]))).sort(
+          (a, b) => a - b
+        );
+        const fresh = await inner.matrix(involved.map((i) => points[i]));
+
+        const toStore = new Map<string, CachedTravelLeg>();
+        involved.forEach((i, a) =>
+          involved.forEach((j, b) => {
+            if (i === j) return;
+            const from = points[i];
+            const to = points[j];
+            const leg: CachedTravelLeg = {
+              ...fresh[a][b],
+              provider: inner.name,
+              fromLat: from.lat,
+              fromLng: from.lng,
+              toLat: to.lat,
+              toLng: to.lng,
+            };
+            cached.set(travelPairKey(from, to), leg);
+            toStore.set(travelPairKey(from, to), leg);
+          })
+        );
+
+        await store.putMany(toStore).catch((e) => {
+          console.warn("[travel-time] cache write failed", e);
+        });
+      }
+
+      return points.map((_, i) =>
+        points.map((__, j) =>
+          i === j ? zeroLeg() : cached.get(travelPairKey(points[i], points[j]))!
+        )
+      );
+    },
+  };
+}
+
+// ---------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------
+
+const coordKey = (p: { lat: number; lng: number }) =>
+  `${p.lat.toFixed(5)},${p.lng.toFixed(5)}`;
+
+/*
+ * Turns a loaded matrix into the synchronous lookup the planner uses.
+ */
+export function travelTimesFromMatrix(
+  points: TravelPoint[],
+  legs: TravelLeg[][],
+  fallback: TravelTimes = straightLineTravel
+): TravelTimes {
+  const table = new Map<string, TravelLeg>();
+  points.forEach((from, i) =>
+    points.forEach((to, j) => {
+      const leg = legs[i]?.[j];
+      if (leg) table.set(`${coordKey(from)}>${coordKey(to)}`, leg);
+    })
+  );
+
+  return {
+    leg(from, to) {
+      return table.get(`${coordKey(from)}>${coordKey(to)}`) ?? fallback.leg(from, to);
+    },
+  };
+}
+
+export async function loadTravelTimes(
+  provider: TravelTimeProvider,
+  points: TravelPoint[]
+): Promise<TravelTimes> {
+  const unique = Array.from(new Map(points.map((p) => [p.key, p])).values());
+  if (unique.length < 2) return straightLineTravel;
+
+  const legs = await provider.matrix(unique);
+  return travelTimesFromMatrix(unique, legs);
+}
@@ -0,0 +1,172 @@
+// src/lib/visit-report.ts
+import { format, parseISO } from "date-fns";
+import type { Session, VisitChecklist, VisitPhoto } from "@/shared/types/domain";
+import { checklistProgress } from "./checklists";
+
+type VisitReportArgs = {
+  orgName?: string;
+  siteName: string;
+  siteAddress?: string;
+  scheduleDate: string; // YYYY-MM-DD
+  sessions: Session[];
+  checklist?: VisitChecklist;
+  // Only photos the manager marked for the client are passed in
+  photos: VisitPhoto[];
+};
+
+/**
+ * Opens a printable, client-facing summary of one visit:
+ * crew times, checklist completion and selected photos.
+ */
+export function exportVisitReport({
+  orgName = "ManageWise",
+  siteName,
+  siteAddress,
+  scheduleDate,
+  sessions,
+  checklist,
+  photos,
+}: VisitReportArgs) {
+  const styles = `
+    <style>
+      *{box-sizing:border-box}
+      body{font-family:ui-sans-serif,system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif;color:#111;margin:0;padding:24px}
+      .wrap{max-width:800px;margin:0 auto}
+      h1,h2,h3{margin:0 0 8px}
+      .muted{color:#555}
+      .row{display:flex;gap:24px;justify-content:space-between;align-items:flex-start;margin-bottom:24px}
+      table{width:100%;border-collapse:collapse;margin-top:12px}
+      th,td{border-bottom:1px solid #e5e7eb;padding:10px;text-align:left;font-size:14px}
+      th{background:#f9fafb;font-weight:600}
+      section{margin-top:24px}
+      .photos{display:grid;grid-template-columns:repeat(2,1fr);gap:12px;margin-top:12px}
+      figure{margin:0;break-inside:avoid}
+      figure img{width:100%;border-radius:6px;border:1px solid #e5e7eb}
+      figcaption{font-size:12px;color:#555;margin-top:4px}
+      .done{color:#15803d}
+      @media print {.no-print{display:none}}
+    </style>
+  `;
+
+  const sessionRows = sessions
+    .filter((s) => s.in)
+    .map(
+      (s) => `
+      <tr>
+        <td>${escapeHtml(s.employee)}</td>
+        <td>${s.in ? format(s.in.ts, "h:mm a") : ""}</td>
+        <td>${s.out ? format(s.out.ts, "h:mm a") : "—"}</td>
+      </tr>
+    `
+    )
+    .join("");
+
+  const checklistHtml = checklist
+    ? (() => {
+        const progress = checklistProgress(checklist);
+        const sections = checklist.sections
+          .map(
+            (section) => `
+            <h3 style="margin-top:12px">${escapeHtml(section.name || "General")}</h3>
+            <ul>
+              ${section.items
+                .map((item) =>
+                  checklist.checks?.[item.id]
+                    ? `<li class="done">✓ ${escapeHtml(item.label)}</li>`
+                    : `<li class="muted">${escapeHtml(item.label)}</li>`
+                )
+                .join("")}
+            </ul>
+          `
+          )
+          .join("");
+
+        return `
+          <section>
+            <h2>Checklist</h2>
+            <div class="muted">${progress.done} of ${progress.total} tasks completed</div>
+            ${sections}
+          </section>
+        `;
+      })()
+    : "";
+
+  const photoHtml = photos.length
+    ? `
+      <section>
+        <h2>Photos</h2>
+        <div class="photos">
+          ${photos
+            .map(
+              (p) => `
+              <figure>
+                <img src="${escapeHtml(p.url)}" alt="${escapeHtml(p.kind)} photo" />
+                <figcaption>
+                  ${escapeHtml(p.kind === "before" ? "Before" : p.kind === "after" ? "After" : "Photo")}
+                  • ${format(p.takenAt, "h:mm a")}
+                  ${p.caption ? ` • ${escapeHtml(p.caption)}` : ""}
+                </figcaption>
+              </figure>
+            `
+            )
+            .join("")}
+        </div>
+      </section>
+    `
+    : "";
+
+  const html = `
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <title>Visit Report ${escapeHtml(siteName)} ${escapeHtml(scheduleDate)}</title>
+        ${styles}
+      </head>
+      <body>
+        <div class="wrap">
+          <div class="row">
+            <div>
+              <h1>${escapeHtml(orgName)}</h1>
+              <div class="muted">Service Visit Report</div>
+            </div>
+            <div style="text-align:right">
+              <h2>${escapeHtml(siteName)}</h2>
+              <div class="muted">${escapeHtml(siteAddress ?? "")}</div>
+              <div class="muted">${format(parseISO(scheduleDate), "EEEE, MMMM d, yyyy")}</div>
+            </div>
+          </div>
+
+          <section>
+            <h2>Service Times</h2>
+            <table>
+              <thead>
+                <tr><th>Team Member</th><th>Arrived</th><th>Departed</th></tr>
+              </thead>
+              <tbody>
+                ${sessionRows || `<tr><td colspan="3" class="muted">No clock entries for this visit</td></tr>`}
+              </tbody>
+            </table>
+          </section>
+
+          ${checklistHtml}
+          ${photoHtml}
+
+          <div class="no-print" style="margin-top:24px;text-align:right">
+            <button onclick="window.print()">Print / Save as PDF</button>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  // No "noopener" here: it makes window.open return null, leaving nothing to write into.
+  const w = window.open("", "_blank", "width=900,height=800");
+  if (!w) return;
+  w.document.open();
+  w.document.write(html);
+  w.document.close();
+}
+
+function escapeHtml(s: string){
+  return String(s).replace(/[&<>'"]/g, c => ({'&':'&amp;','<':'&lt;','>':'&gt;',"'":'&#39;','"':'&quot;'}[c]!));
+}
@@ -0,0 +1,137 @@
+// src/lib/visit-windows.ts
+import { format } from "date-fns";
+import type { CleaningSchedule } from "@/shared/types/domain";
+
+/*
+ * Per-visit time windows. All times are "HH:mm" on the visit's own
+ * day, handled here as minutes since midnight. A window that ends
+ * before it starts (22:00 – 02:00) runs past midnight.
+ */
+
+export const DEFAULT_VISIT_GRACE_MINUTES = 10;
+
+type WindowFields = Pick<CleaningSchedule, "startTime" | "windowStart" | "windowEnd">;
+
+export type VisitWindow = {
+  planned: number | null; // scheduled arrival
+  earliest: number | null; // do not arrive before
+  deadline: number | null; // be finished by
+};
+
+export type VisitTimeExceptionKind = "late-arrival" | "early-departure";
+
+export type VisitTimeException = {
+  kind: VisitTimeExceptionKind;
+  expected: number; // minutes since midnight of the visit day
+  actual: number;
+  minutes: number; // how far off
+};
+
+export function timeToMinutes(time?: string | null): number | null {
+  if (!time || !/^\d{2}:\d{2}$/.test(time)) return null;
+  const [h, m] = time.split(":").map(Number);
+  if (h > 23 || m > 59) return null;
+  return h * 60 + m;
+}
+
+/**
+ * "6:00 PM" for minutes since midnight (wraps past midnight).
+ */
+export function formatWindowTime(total: number) {
+  const m = ((Math.round(total) % 1440) + 1440) % 1440;
+  return format(new Date(2000, 0, 1, Math.floor(m / 60), m % 60), "h:mm a");
+}
+
+export const hasVisitWindow = (schedule: WindowFields) =>
+  Boolean(schedule.startTime || schedule.windowStart || schedule.windowEnd);
+
+export function visitWindow(schedule: WindowFields): VisitWindow {
+  const planned = timeToMinutes(schedule.startTime);
+  const earliest = timeToMinutes(schedule.windowStart) ?? planned;
+  let deadline = timeToMinutes(schedule.windowEnd);
+
+  if (deadline !== null && earliest !== null && deadline <= earliest) {
+    deadline += 24 * 60;
+  }
+
+  return { planned, earliest, deadline };
+}
+
+/**
+ * "Starts 6:00 PM · after 6:00 PM · done by 10:00 PM", or "" when the
+ * visit has no window.
+ */
+export function describeVisitWindow(schedule: WindowFields) {
+  const clock = (time?: string) => {
+    const minutes = timeToMinutes(time);
+    return minutes === null ? null : formatWindowTime(minutes);
+  };
+
+  return [
+    clock(schedule.startTime) && `Starts ${clock(schedule.startTime)}`,
+    clock(schedule.windowStart) && `after ${clock(schedule.windowStart)}`,
+    clock(schedule.windowEnd) && `done by ${clock(schedule.windowEnd)}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+const minutesIntoDay = (ts: number, scheduleDate: string) =>
+  Math.round((ts - new Date(`${scheduleDate}T00:00:00`).getTime()) / 60000);
+
+/**
+ * Compares an actual visit against its window.
+ *
+ * - Late arrival: after the scheduled start, or too late to finish the
+ *   estimated work before the deadline when there is no start time.
+ * - Early departure: left before the estimated work could be done,
+ *   counted from the later of arrival and the window opening, but never
+ *   past the deadline.
+ *
+ * Both allow `graceMinutes` of slack. Visits without a window produce
+ * no exceptions.
+ */
+export function visitTimeExceptions(args: {
+  schedule: WindowFields;
+  scheduleDate: string;
+  arrivedAt: number;
+  departedAt?: number | null;
+  workMinutes: number;
+  graceMinutes?: number;
+}): VisitTimeException[] {
+  const { schedule, scheduleDate, arrivedAt, departedAt, workMinutes } = args;
+  const grace = args.graceMinutes ?? DEFAULT_VISIT_GRACE_MINUTES;
+  if (!hasVisitWindow(schedule)) return [];
+
+  const { planned, earliest, deadline } = visitWindow(schedule);
+  const arrival = minutesIntoDay(arrivedAt, scheduleDate);
+  const out: VisitTimeException[] = [];
+
+  const latestArrival =
+    planned ?? (deadline !== null && workMinutes > 0 ? deadline - workMinutes : null);
+  if (latestArrival !== null && arrival > latestArrival + grace) {
+    out.push({
+      kind: "late-arrival",
+      expected: latestArrival,
+      actual: arrival,
+      minutes: arrival - latestArrival,
+    });
+  }
+
+  if (departedAt != null && workMinutes > 0) {
+    const departure = minutesIntoDay(departedAt, scheduleDate);
+    const workStart = Math.max(arrival, earliest ?? arrival);
+    const expectedEnd = Math.min(workStart + workMinutes, deadline ?? Infinity);
+
+    if (departure < expectedEnd - grace) {
+      out.push({
+        kind: "early-departure",
+        expected: expectedEnd,
+        actual: departure,
+        minutes: expectedEnd - departure,
+      });
+    }
+  }
+
+  return out;
+}
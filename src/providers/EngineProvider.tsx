@@ -15,12 +15,13 @@ import {
   LocalInvoicesRepo,
 } from "@/features/invoices/repositories/FirestoreInvoicesRepo";
 import type { InvoicesRepo } from "@/features/invoices/repositories/types";
+import { createRepo, createRepos, type RepoName, type Repos } from "@/lib/repositories";
 
 type Engine = "cloud" | "local";
 
 type RepoFactory = {
   invoices: () => InvoicesRepo;
-};
+} & { [K in RepoName]: () => Repos[K] };
 
 type Events = {
   "permission-error": any;
@@ -32,6 +33,8 @@ type EngineCtx = {
   engine: Engine;
   setEngine: (e: Engine) => void;
   repo: RepoFactory;
+  // One instance of each collection repo for the current engine
+  repos: Repos;
   bus: typeof bus;
 
   // ✅ NEW: lets the rest of the app know engine/localStorage has been read
@@ -69,11 +72,22 @@ export function EngineProvider({ children }: { children: React.ReactNode }) {
         engine === "cloud"
           ? new FirestoreInvoicesRepo(db)
           : new LocalInvoicesRepo(),
+      employees: () => createRepo("employees", engine, db),
+      schedules: () => createRepo("schedules", engine, db),
+      entries: () => createRepo("entries", engine, db),
+      entryAudits: () => createRepo("entryAudits", engine, db),
+      mileageLogs: () => createRepo("mileageLogs", engine, db),
+      otherExpenses: () => createRepo("otherExpenses", engine, db),
+      payrollPeriods: () => createRepo("payrollPeriods", engine, db),
+      serviceFeedbacks: () => createRepo("serviceFeedbacks", engine, db),
+      messages: () => createRepo("messages", engine, db),
     };
   }, [engine]);
 
+  const repos = useMemo(() => createRepos(engine, db), [engine]);
+
   return (
-    <Ctx.Provider value={{ engine, setEngine, repo, bus, hydrated }}>
+    <Ctx.Provider value={{ engine, setEngine, repo, repos, bus, hydrated }}>
       {children}
     </Ctx.Provider>
   );
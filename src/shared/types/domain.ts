@@ -13,7 +13,27 @@ export type Entry = {
   note?: string;
   scheduleId?: string | null;
 scheduleDate?: string | null;
-  site?: string;
+  siteId?: string; // canonical site ID
+  site?: string; // site display name
+
+  // Offline outbox (src/lib/clock-outbox.ts)
+  capturedAt?: number; // device clock when recorded
+  syncedAt?: number; // device clock when written to Firestore
+  queued?: boolean; // replayed after a failed first attempt
+  clockSkewMs?: number; // server commit time minus syncedAt
+  timeFlagged?: boolean; // device clock was far from server time
+  pendingSync?: boolean; // client-only: still waiting in the outbox
+
+  // Missed clock-out auto-close (functions/src/timeclock.ts)
+  autoClosed?: boolean;
+  autoCloseReason?: AutoCloseReason;
+  autoCloseReview?: AutoCloseReviewStatus;
+  autoClosedInEntryId?: string;
+  reviewedAt?: number;
+
+  // The audit row written with the last manager edit (src/lib/entry-audit.ts)
+  lastAuditId?: string;
+
   // Firestore-specific fields
   createdAt?: Timestamp;
 };
@@ -66,7 +86,7 @@ export type Site = {
   estimatedWorkMinutes?: number;
 
   revenue?: number;
-  serviceCharge?: number; // temporary legacy compatibility
+  serviceCharge?: number; // legacy; moved to revenue by migration 4 (src/lib/migrations)
   billingFrequency?: BillingFrequency;
 
   rsFeeType?: "none" | "percent" | "fixed";
@@ -82,20 +102,40 @@ export type Site = {
   bonusAmount?: number;
 
   geofenceRadiusFeet?: number;
+
+  // Position in the site directory (companies/{cid}/sites is unordered)
+  order?: number;
+
+  // Cleaning checklist template, grouped by room/area
+  checklist?: ChecklistSection[];
+};
+
+export type ChecklistItem = {
+  id: string;
+  label: string;
+  photoRequired?: boolean;
+};
+
+export type ChecklistSection = {
+  id: string;
+  name: string; // room or area, e.g. "Lobby"
+  items: ChecklistItem[];
 };
 
 export type DayOfWeek = 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
 
 export type BillingFrequency = 'One-Time' | 'Daily' | 'Weekly' | 'Bi-Weekly' | 'Monthly' | 'Quarterly' | 'Yearly';
 
-export type RepeatFrequency = 'does-not-repeat' | 'weekly' | 'every-2-weeks' | 'every-3-weeks' | 'monthly' | 'every-2-months' | 'quarterly' | 'yearly';
+export type RepeatFrequency = 'does-not-repeat' | 'weekly' | 'every-2-weeks' | 'every-3-weeks' | 'monthly' | 'every-2-months' | 'quarterly' | 'yearly' | 'custom';
 
 export type CleaningSchedule = {
   id: string;
-  siteName: string;
+  siteId?: string; // canonical site ID
+  siteName: string; // site display name
   // Optional multi-site schedule group.
   // Existing single-site schedules continue using siteName only.
   siteNames?: string[];
+  siteIds?: string[]; // same order as siteNames
 
   // Optional custom label for a grouped visit.
   // Example: "ABC Complex"
@@ -121,19 +161,23 @@ export type CleaningSchedule = {
   startDate: string; // YYYY-MM-DD, the anchor date for the recurrence
   repeatFrequency: RepeatFrequency;
   daysOfWeek?: DayOfWeek[]; // Only for 'weekly', 'every-2-weeks', 'every-3-weeks'
+  // Only for 'custom': an RFC 5545 RRULE value, e.g. "FREQ=MONTHLY;BYDAY=2TU".
+  // Expanded by src/lib/recurrence.ts together with rdates and exceptionDates.
+  rrule?: string;
+  rdates?: string[]; // yyyy-MM-dd, one-off extra visits (RDATE)
 
   repeatUntil?: string; // yyyy-MM-dd, optional end date
   serviceCharge?: number;
     // Per-site service charge for grouped schedules.
-  // Key = exact Site name.
+  // Key = site ID (schedules saved before the siteId backfill: exact Site name).
   // Example:
   // {
-  //   "Business A": 43.50,
-  //   "Business B": 28.77,
-  //   "Business C": 75.00
+  //   "site-a": 43.50,
+  //   "site-b": 28.77,
+  //   "site-c": 75.00
   // }
   siteServiceCharges?: Record<string, number>;
-  exceptionDates?: string[];
+  exceptionDates?: string[]; // yyyy-MM-dd, skipped occurrences (EXDATE)
   assignedTeamId?: string; // references settings.teams[].id
 
   /*
@@ -166,6 +210,74 @@ export type CleaningSchedule = {
    * "23:00"
    */
   finishByTime?: string;
+
+  /*
+   * Optional time window for this visit, 24-hour "HH:mm".
+   *
+   * startTime:   scheduled arrival
+   * windowStart: earliest arrival, e.g. "18:00" after the office closes
+   * windowEnd:   the visit must be finished by this time
+   *
+   * Used for route ordering and for late-arrival / early-departure
+   * exceptions in the service report (src/lib/visit-windows.ts).
+   */
+  startTime?: string;
+  windowStart?: string;
+  windowEnd?: string;
+};
+
+/*
+ * Fields a single occurrence may change without touching the series.
+ * An empty assignedTeamId means the day has no team assignment.
+ */
+export type OccurrenceChanges = Partial<
+  Pick<
+    CleaningSchedule,
+    | "siteId"
+    | "siteName"
+    | "siteIds"
+    | "siteNames"
+    | "siteGroupLabelMode"
+    | "siteGroupName"
+    | "tasks"
+    | "note"
+    | "assignedTo"
+    | "assignedEmployeeIds"
+    | "assignedTeamId"
+    | "startTime"
+    | "windowStart"
+    | "windowEnd"
+    | "finishByTime"
+    | "serviceCharge"
+    | "siteServiceCharges"
+  >
+>;
+
+/*
+ * One occurrence of a CleaningSchedule that differs from its series,
+ * stored at schedules/{scheduleId}/occurrence_overrides/{date}.
+ *
+ * `date` is always the day the series generates, so entries, checklists
+ * and photos keep pointing at the same scheduleId. A moved occurrence
+ * is shown (and worked) on movedTo instead.
+ */
+export type OccurrenceOverride = {
+  id: string; // same as date
+  companyId?: string; // for the collection group listener
+  scheduleId: string;
+  date: string; // yyyy-MM-dd
+
+  changes?: OccurrenceChanges;
+  movedTo?: string | null; // yyyy-MM-dd
+
+  cancelled?: boolean;
+  cancelReason?: string | null;
+
+  // Set when an approved shift swap wrote the assignment
+  shiftSwapId?: string | null;
+
+  updatedAt?: any;
+  updatedByUid?: string | null;
 };
 
 
@@ -174,6 +286,7 @@ export type MileageLog = {
   date: string; // yyyy-MM-dd
   distance: number;
   purpose: string;
+  siteId?: string; // canonical site ID
   siteName?: string;
   startCoords?: { lat: number; lng: number };
   endCoords?: { lat: number; lng: number };
@@ -191,7 +304,7 @@ export type OtherExpense = {
   amount: number;
 
   siteId?: string; // canonical site ID
-  site?: string; // legacy free-text site name
+  site?: string; // legacy free-text site name; moved to siteName by migration 4
   siteName?: string; // site display name
 
   /*
@@ -262,8 +375,8 @@ export type Employee = {
   address?: string;
   phone?: string;
   payRate: number; // Default dollars per hour
-  hourlyRate?: number;
-  pin: string;
+  hourlyRate?: number; // legacy; moved to payRate by migration 4
+  pin?: string; // cloud: stored in employee_private, merged in for managers
   color?: string;
 
   // Manager-only organization
@@ -271,6 +384,13 @@ export type Employee = {
   teamName?: string;
   status?: "active" | "inactive";
 
+  // Hours per week before the schedule flags them as over-scheduled
+  maxWeeklyHours?: number | null;
+
+  // Recurring weekly availability; none means available any time.
+  // Employees change it through an EmployeeUpdateRequest.
+  availability?: AvailabilityBlock[];
+
   emergencyContact?: {
     name: string;
     phone: string;
@@ -282,6 +402,31 @@ export type Employee = {
     routingNumber: string;
   };
 };
+export type AvailabilityBlock = {
+  day: DayOfWeek;
+  start: string; // "HH:mm"
+  end: string; // "HH:mm"
+};
+
+/*
+ * Fields split off the employee directory doc in cloud mode.
+ * Stored at companies/{companyId}/employee_private/{employeeId}.
+ */
+export type EmployeePrivate = Pick<Employee, "pin" | "bankInfo">;
+
+export type MemberRole = "owner" | "manager" | "employee";
+
+/*
+ * companies/{companyId}/members/{uid}
+ * Mirrors the custom claims set by the signInWithPin function.
+ */
+export type CompanyMember = {
+  uid: string;
+  role: MemberRole;
+  employeeId?: string | null;
+  updatedAt?: any;
+};
+
 // shared/types/domain.ts
 export type Team = {
   id: string;   // "team-a" (stable id)
@@ -307,7 +452,20 @@ paidDate?: string | null;
   tax: number;
   discount: number;
   total: number;
-  status: 'draft' | 'sent' | 'paid' | 'void';
+  // paid / partially_paid are derived from the payments ledger
+  status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'void';
+
+  // Maintained from invoices/{id}/payments whenever the ledger changes
+  amountPaid?: number;
+  amountCredited?: number;
+  balanceDue?: number;
+  // Set once the first ledger row is written (see isLegacyPaid)
+  ledgerVersion?: number;
+
+  // Written by the sendInvoiceEmail / reminder functions
+  emailLog?: InvoiceEmailRecord[];
+  lastEmailedAt?: string; // ISO
+  remindersSent?: number[]; // day offsets already reminded
 
   // 🔁 Recurring metadata
   recurring?: boolean;              // true if this is a monthly template
@@ -317,6 +475,32 @@ paidDate?: string | null;
   recurringTemplateId?: string;     // stable key linking all generated copies to the template
 }
 
+export type InvoiceEmailRecord = {
+  kind: "invoice" | "reminder";
+  to: string;
+  sentAt: string; // ISO
+  messageId?: string;
+  reminderOffset?: number; // days after dueDate
+  sentBy?: string; // uid; absent for scheduled reminders
+};
+
+export type PaymentMethod = "check" | "ach" | "card" | "cash" | "other";
+
+// One row of an invoice's ledger (companies/{cid}/invoices/{invoiceId}/payments).
+// Credit memos reduce the balance without any cash changing hands.
+export type InvoicePayment = {
+  id: string;
+  companyId: string;
+  invoiceId: string;
+  kind: "payment" | "credit_memo";
+  amount: number;
+  method?: PaymentMethod;
+  reference?: string; // check #, transaction id, memo #
+  date: string; // yyyy-MM-dd
+  note?: string;
+  createdAt?: any;
+};
+
 export type InvoiceLineItem = {
   id: string;
   description: string;
@@ -325,6 +509,8 @@ export type InvoiceLineItem = {
   total: number;
 }
 
+export type TravelTimeProviderKind = "straight-line" | "osrm" | "valhalla";
+
 export type Settings = {
   engine: "local" | "cloud";
   managerPIN: string;
@@ -333,6 +519,14 @@ export type Settings = {
 enableTravelDurations?: boolean;
 enableNavigationLinks?: boolean;
 enableMapDisplay?: boolean;
+  // XYZ tile template for the live operations map, e.g. a local tile server
+  mapTileUrl?: string;
+  // Sites every optimized route starts and ends at, e.g. home or the office
+  routeStartSiteId?: string;
+  routeEndSiteId?: string;
+  // Road drive times from an OSRM or Valhalla server instead of straight-line
+  travelTimeProvider?: TravelTimeProviderKind;
+  travelTimeServiceUrl?: string;
   sites: Site[];
   firebaseConfig?: FirebaseOptions;
   companyId?: string;
@@ -347,8 +541,64 @@ enableMapDisplay?: boolean;
   lastBackupAt?: string;
   readOnlyMode?: boolean;
    teams?: Team[];
+  overtimeRules?: OvertimeRules;
+  autoClosePolicy?: AutoClosePolicy;
+  invoiceReminders?: InvoiceReminderPolicy;
+  // Local engine schema state, plus the flags older one-time migrations left
+  meta?: CompanySchemaState & Record<string, unknown>;
+};
+
+/*
+ * Overtime thresholds applied per workweek (Settings.weekStartsOn).
+ *
+ * Weekly overtime follows FLSA (over 40h). The daily rules are
+ * optional state rules, e.g. California daily 8h overtime and
+ * 12h double time.
+ */
+export type OvertimeRules = {
+  weeklyThresholdMinutes: number;
+
+  dailyOvertimeEnabled?: boolean;
+  dailyOvertimeThresholdMinutes?: number;
+
+  dailyDoubleTimeEnabled?: boolean;
+  dailyDoubleTimeThresholdMinutes?: number;
+};
+
+/*
+ * Closes shifts when an employee forgets to clock out. Every enabled rule
+ * yields a deadline and the earliest one wins. Auto-closed shifts are held
+ * out of payroll until a manager approves or corrects them.
+ */
+export type AutoClosePolicy = {
+  enabled: boolean;
+
+  // Close at site.estimatedWorkMinutes × N (0 = off)
+  estimateMultiplier?: number;
+  // Used by the estimate rule when the site has no estimate
+  fallbackMaxMinutes?: number;
+
+  // Close at this local hour (0–23); null = off
+  fixedHour?: number | null;
+  timeZone?: string; // IANA, e.g. "America/New_York"
+
+  closeOnClockInElsewhere?: boolean;
+};
+
+/*
+ * Emails the billing contact again when an invoice is still unpaid
+ * N days after its due date. Checked once a day.
+ */
+export type InvoiceReminderPolicy = {
+  enabled: boolean;
+  dayOffsets: number[]; // e.g. [7, 14, 30]
+  timeZone?: string; // IANA; decides when "today" starts
 };
 
+export type AutoCloseReason = "estimate" | "fixed-hour" | "clocked-in-elsewhere";
+
+export type AutoCloseReviewStatus = "pending" | "approved" | "corrected";
+
 export type Session = {
   employee: string;
   employeeId: string;
@@ -356,6 +606,8 @@ export type Session = {
   out: Entry | null;
   minutes: number;
   active?: boolean;
+  // Auto-closed and not yet approved/corrected by a manager
+  needsReview?: boolean;
 };
 
 export type SiteStatus = 'incomplete' | 'in-process' | 'complete';
@@ -374,8 +626,134 @@ export type ServiceFeedback = {
 
   resolved?: boolean;
   createdAt?: any;
+
+  // Set when a site contact submits through the client portal
+  source?: "manager" | "client";
+  submittedByEmail?: string | null;
+};
+
+/**
+ * Employee <-> manager chat, stored at companies/{companyId}/messages.
+ */
+export type CompanyMessage = {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  site?: string;
+  message: string;
+  sender: "employee" | "manager";
+  type?: string;
+  conversationKey?: string;
+  date?: string; // YYYY-MM-DD
+
+  readByManager?: boolean;
+  readByEmployee?: boolean;
+
+  createdAt?: any; // cloud: Timestamp, local: epoch ms
+
+  attachmentUrl?: string;
+  attachmentName?: string;
+  attachmentPath?: string;
+  attachmentType?: string;
+};
+
+
+export type ChecklistCheck = {
+  checkedAt: number; // epoch ms
+  employeeId: string;
+  employeeName: string;
+  photoUrl?: string | null;
+  photoPath?: string | null;
+};
+
+/*
+ * A site's checklist template instantiated for one schedule occurrence.
+ * Stored in companies/{cid}/visit_checklists/{scheduleId}_{scheduleDate}_{siteId}.
+ */
+export type VisitChecklist = {
+  id: string;
+  scheduleId: string;
+  scheduleDate: string; // YYYY-MM-DD
+  siteId: string;
+  siteName: string;
+
+  // Snapshot of Site.checklist when the visit started
+  sections: ChecklistSection[];
+  totalItems: number;
+
+  checks: Record<string, ChecklistCheck>; // keyed by ChecklistItem.id
+  employeeIds: string[]; // everyone who ticked an item
+
+  createdAt?: any;
+  updatedAt?: any;
+};
+
+export type VisitPhotoKind = "before" | "after" | "other";
+
+/*
+ * Proof-of-service photo taken during an active session.
+ * The image lives in Storage at `path`; this doc is in companies/{cid}/visit_photos.
+ */
+export type VisitPhoto = {
+  id: string;
+  entryId: string; // clock-in entry of the session
+  scheduleId?: string | null;
+  scheduleDate: string; // YYYY-MM-DD
+  siteId?: string | null;
+  siteName: string;
+  employeeId: string;
+  employeeName: string;
+
+  kind: VisitPhotoKind;
+  caption?: string | null;
+
+  url: string;
+  path: string;
+  contentType: string;
+  width: number;
+  height: number;
+  bytes: number;
+
+  takenAt: number; // device clock, epoch ms
+  lat?: number | null;
+  lng?: number | null;
+  accuracyMeters?: number | null;
+
+  includeInClientReport?: boolean;
+  createdAt?: any;
 };
 
+/*
+ * Client-safe summary returned by the getClientPortal function
+ * (functions/src/client-portal.ts) for a signed-in site contact.
+ */
+export type ClientPortalData = {
+  companyName: string;
+  email: string;
+  sites: { id: string; name: string; address: string }[];
+  upcoming: { scheduleId: string; scheduleDate: string; siteName: string }[];
+  visits: { siteName: string; date: string; arrivedAt: number; departedAt: number }[];
+  invoices: Pick<
+    Invoice,
+    "id" | "siteName" | "invoiceNumber" | "date" | "dueDate" | "total" | "status" | "paidDate" | "balanceDue"
+  >[];
+};
+
+/*
+ * Subscribable iCalendar feed of an employee's or a site's visits,
+ * served by the calendarFeed function (functions/src/calendar-feed.ts).
+ * The doc id is the secret token in the feed URL; deleting the doc
+ * revokes the feed.
+ */
+export type CalendarFeed = {
+  id: string;
+  kind: "employee" | "site";
+  targetId: string; // employee id or site id
+  label: string;
+  createdBy?: string;
+  createdAt?: any;
+  lastAccessedAt?: number;
+};
 
 export type PayrollStatus =
   | "draft"
@@ -400,8 +778,22 @@ export interface PayrollPeriod {
   sentForConfirmationByUid?: string | null;
   paidAt?: string;
    paidByUid?: string | null;
+
+  // Bumped to have syncPayrollStatements rewrite the period's statements
+  statementsVersion?: number;
 }
 
+// One employee's line of a payroll period, the only part they may read
+export type PayrollStatement = Pick<
+  PayrollPeriod,
+  "startDate" | "endDate" | "status" | "revision" | "sentForConfirmationAt" | "paidAt"
+> & {
+  id: string; // {periodId}__{employeeId}
+  periodId: string;
+  employeeId: string;
+  lineItem: PayrollLineItem;
+};
+
 export interface PayrollLineItem {
   employeeId: string;
   employeeName: string;
@@ -410,6 +802,12 @@ export interface PayrollLineItem {
   regularMinutes?: number;
   bonusMinutes?: number;
 
+  // Overtime buckets are a subset of `minutes`, paid as a premium on top
+  overtimeMinutes?: number;
+  doubleTimeMinutes?: number;
+  overtimePremium?: number;
+  regularRateOfPay?: number;
+
   gross?: number;
   flatBonus?: number;
   deductions?: number;
@@ -487,6 +885,125 @@ export type EmployeeUpdateRequest = {
   reason?: string | null;
 };
 
+/*
+ * Employee-submitted fix for their own time, e.g. "I forgot to clock out
+ * at 9:40". With entryId the existing entry's time is changed; without it
+ * a new entry is created on approval.
+ */
+export type TimeCorrectionRequest = {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+
+  entryId?: string | null;
+  action: "in" | "out";
+  site: string;
+  requestedTs: number; // epoch ms
+  currentTs?: number | null; // entry time when the request was made
+  reason: string;
+
+  status: "pending" | "approved" | "rejected";
+  requestedAt?: any;
+  requestedByUid?: string | null;
+  approvedAt?: any;
+  approvedByUid?: string | null;
+  appliedEntryId?: string | null;
+  rejectedAt?: any;
+  rejectedByUid?: string | null;
+  rejectionReason?: string | null;
+};
+
+/*
+ * Employee request to be off for a date range (inclusive). Approved
+ * requests mark the employee unavailable in the schedule.
+ */
+export type TimeOffRequest = {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd
+  reason?: string | null;
+
+  status: "pending" | "approved" | "rejected";
+  requestedAt?: any;
+  requestedByUid?: string | null;
+  approvedAt?: any;
+  approvedByUid?: string | null;
+  rejectedAt?: any;
+  rejectedByUid?: string | null;
+  rejectionReason?: string | null;
+};
+
+/*
+ * An employee giving up one scheduled occurrence.
+ *
+ * drop: anyone qualified can pick it up from the open shifts board.
+ * swap: the coworker who claims it gives one of their own occurrences
+ *       (the return shift) to the offering employee in exchange.
+ *
+ * A claim only takes effect once a manager approves it; the change is
+ * written as an OccurrenceOverride, not to the series.
+ */
+export type ShiftSwap = {
+  id: string;
+  kind: "drop" | "swap";
+
+  // The employee offering the shift
+  employeeId: string;
+  employeeName: string;
+
+  scheduleId: string;
+  scheduleDate: string; // yyyy-MM-dd
+  siteName: string; // display label when offered
+  note?: string | null;
+
+  status: "open" | "claimed" | "approved" | "rejected" | "cancelled";
+  requestedAt?: any;
+  requestedByUid?: string | null;
+
+  claimedByEmployeeId?: string | null;
+  claimedByName?: string | null;
+  claimedAt?: any;
+  claimedByUid?: string | null;
+
+  // swap only: what the claimer gives back
+  returnScheduleId?: string | null;
+  returnScheduleDate?: string | null;
+  returnSiteName?: string | null;
+
+  approvedAt?: any;
+  approvedByUid?: string | null;
+  rejectedAt?: any;
+  rejectedByUid?: string | null;
+  rejectionReason?: string | null;
+};
+
+/*
+ * Immutable history of a manager change to a timeclock entry.
+ * Stored in companies/{cid}/timeclock_audit; never updated or deleted.
+ */
+export type EntryAuditRecord = {
+  id: string;
+  entryId: string;
+  employeeId: string;
+  employeeName: string;
+
+  change: "create" | "update" | "delete";
+  before: Partial<Entry> | null;
+  after: Partial<Entry> | null;
+  reason?: string | null;
+
+  changedByUid?: string | null;
+  restoredByUid?: string; // written by a backup restore (src/features/backup)
+  changedByLabel: string;
+  correctionRequestId?: string | null;
+
+  changedAt: number; // epoch ms
+  createdAt?: any;
+};
+
 export type ManagerNotificationType =
   | "clock-in"
   | "clock-out"
@@ -518,4 +1035,20 @@ export interface PayrollNotification {
   revision: number;
   createdAt?: any;
   read: boolean;
-}
\ No newline at end of file
+}
+/*
+ * Data migration bookkeeping (src/lib/migrations), kept on the
+ * companies/{companyId} doc. The local engine keeps the same fields in
+ * settings.meta.
+ */
+export type MigrationCheckpoint = {
+  version: number; // migration being applied
+  committed: number; // changes written so far
+  total: number;
+  updatedAt?: any;
+};
+
+export type CompanySchemaState = {
+  schemaVersion?: number;
+  migration?: MigrationCheckpoint | null;
+};
@@ -0,0 +1,18 @@
+// Shared setup for the suites that need the Firebase emulators.
+// `npm run test:emulators` starts them; plain `npm test` skips these suites.
+
+export const EMULATOR_PROJECT_ID = "demo-managewisemd";
+
+export const hasFirestoreEmulator = !!process.env.FIRESTORE_EMULATOR_HOST;
+
+// test:emulators starts auth and functions alongside Firestore
+export const hasFunctionsEmulator =
+  hasFirestoreEmulator && !!process.env.FIREBASE_AUTH_EMULATOR_HOST;
+
+export const emulatorHost = (envVar: string) => {
+  const [host, port] = (process.env[envVar] ?? "").split(":");
+  return { host, port: Number(port) };
+};
+
+// Same port as emulators.functions in firebase.json
+export const FUNCTIONS_EMULATOR = { host: "127.0.0.1", port: 5001 };
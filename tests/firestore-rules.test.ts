@@ -0,0 +1,197 @@
+import { readFileSync } from "node:fs";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import { EMULATOR_PROJECT_ID, emulatorHost, hasFirestoreEmulator } from "./emulators";
+
+const COMPANY = "acme";
+const company = (path: string) => `companies/${COMPANY}/${path}`;
+
+const claims = {
+  owner: { companyId: COMPANY, role: "owner", employeeId: null },
+  manager: { companyId: COMPANY, role: "manager", employeeId: null },
+  employee: { companyId: COMPANY, role: "employee", employeeId: "e1" },
+};
+
+describe.skipIf(!hasFirestoreEmulator)("firestore.rules", () => {
+  let env: RulesTestEnvironment;
+
+  const owner = () => env.authenticatedContext("owner-uid", claims.owner).firestore();
+  const manager = () => env.authenticatedContext("manager-uid", claims.manager).firestore();
+  const employee = () => env.authenticatedContext("employee-uid", claims.employee).firestore();
+  // A manager whose ID token has not picked up claims yet; role() falls back to members/
+  const managerByDoc = () => env.authenticatedContext("doc-manager-uid").firestore();
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: EMULATOR_PROJECT_ID,
+      firestore: {
+        ...emulatorHost("FIRESTORE_EMULATOR_HOST"),
+        rules: readFileSync("firestore.rules", "utf8"),
+      },
+    });
+  });
+
+  afterAll(() => env.cleanup());
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const db = ctx.firestore();
+      await Promise.all([
+        db.doc(company("members/owner-uid")).set({ uid: "owner-uid", role: "owner", employeeId: null }),
+        db.doc(company("members/manager-uid")).set({ uid: "manager-uid", role: "manager", employeeId: null }),
+        db.doc(company("members/doc-manager-uid")).set({ uid: "doc-manager-uid", role: "manager", employeeId: null }),
+        db.doc(company("members/employee-uid")).set({ uid: "employee-uid", role: "employee", employeeId: "e1" }),
+        db.doc(company("timeclock_audit/a1")).set({ entryId: "t1", change: "update", changedByLabel: "Owner" }),
+        db.doc(company("payroll_periods/p1")).set({
+          startDate: "2025-03-01",
+          endDate: "2025-03-14",
+          status: "waiting_for_confirmation",
+          revision: 1,
+          lineItems: [
+            { employeeId: "e1", employeeName: "Ann", minutes: 4800, net: 900, revision: 1 },
+            { employeeId: "e2", employeeName: "Bo", minutes: 2400, net: 450, revision: 1 },
+          ],
+        }),
+        db.doc(company("payroll_statements/p1__e1")).set({
+          periodId: "p1",
+          employeeId: "e1",
+          endDate: "2025-03-14",
+          lineItem: { employeeId: "e1", employeeName: "Ann", net: 900, revision: 1 },
+        }),
+        db.doc(company("payroll_statements/p1__e2")).set({
+          periodId: "p1",
+          employeeId: "e2",
+          endDate: "2025-03-14",
+          lineItem: { employeeId: "e2", employeeName: "Bo", net: 450, revision: 1 },
+        }),
+        db.doc(company("invoices/i1")).set({ clientName: "Client", total: 100 }),
+        db.doc(company("pin_attempts/company")).set({ failures: 3, lastFailureAt: 0, lockedUntil: 0 }),
+      ]);
+    });
+  });
+
+  describe("members (privilege escalation)", () => {
+    it("does not let a manager make another account owner", async () => {
+      await assertFails(
+        manager().doc(company("members/attacker-uid")).set({ uid: "attacker-uid", role: "owner" })
+      );
+    });
+
+    it("does not let a manager promote themselves", async () => {
+      await assertFails(manager().doc(company("members/manager-uid")).update({ role: "owner" }));
+      await assertFails(managerByDoc().doc(company("members/doc-manager-uid")).update({ role: "owner" }));
+    });
+
+    it("does not let a manager set the company owner", async () => {
+      await assertFails(manager().doc(`companies/${COMPANY}`).set({ ownerUid: "manager-uid" }, { merge: true }));
+    });
+
+    it("lets the owner grant roles", async () => {
+      await assertSucceeds(
+        owner().doc(company("members/new-uid")).set({ uid: "new-uid", role: "manager", employeeId: null })
+      );
+    });
+  });
+
+  describe("timeclock_audit", () => {
+    it("lets managers append", async () => {
+      await assertSucceeds(
+        manager().doc(company("timeclock_audit/a2")).set({
+          entryId: "t1",
+          change: "delete",
+          changedByUid: "manager-uid",
+          changedByLabel: "Manager",
+        })
+      );
+    });
+
+    it("lets a manager restore rows from a backup under their own uid", async () => {
+      await assertSucceeds(
+        manager().doc(company("timeclock_audit/a2")).set({
+          entryId: "t1",
+          changedByUid: "former-manager-uid",
+          restoredByUid: "manager-uid",
+        })
+      );
+    });
+
+    it("refuses rows signed by someone else, or by no one", async () => {
+      await assertFails(
+        manager().doc(company("timeclock_audit/a2")).set({ entryId: "t1", changedByUid: "owner-uid" })
+      );
+      await assertFails(manager().doc(company("timeclock_audit/a3")).set({ entryId: "t1" }));
+    });
+
+    it("is never updated or deleted, even by the owner", async () => {
+      for (const db of [owner(), manager(), managerByDoc()]) {
+        await assertFails(db.doc(company("timeclock_audit/a1")).update({ changedByLabel: "Someone else" }));
+        await assertFails(db.doc(company("timeclock_audit/a1")).set({ entryId: "t2" }));
+        await assertFails(db.doc(company("timeclock_audit/a1")).delete());
+      }
+    });
+
+    it("is closed to employees", async () => {
+      await assertFails(employee().doc(company("timeclock_audit/a1")).get());
+      await assertFails(employee().doc(company("timeclock_audit/a3")).set({ entryId: "t1" }));
+    });
+  });
+
+  describe("payroll", () => {
+    it("keeps periods, with every employee's pay, from employees", async () => {
+      await assertFails(employee().doc(company("payroll_periods/p1")).get());
+      await assertFails(employee().collection(company("payroll_periods")).get());
+      await assertSucceeds(manager().doc(company("payroll_periods/p1")).get());
+    });
+
+    it("lets an employee read only their own statement", async () => {
+      await assertSucceeds(employee().doc(company("payroll_statements/p1__e1")).get());
+      await assertSucceeds(
+        employee().collection(company("payroll_statements")).where("employeeId", "==", "e1").get()
+      );
+      await assertFails(employee().doc(company("payroll_statements/p1__e2")).get());
+      await assertFails(employee().collection(company("payroll_statements")).get());
+    });
+
+    it("leaves statements to the sync function", async () => {
+      await assertFails(manager().doc(company("payroll_statements/p1__e1")).update({ status: "paid" }));
+      await assertFails(employee().doc(company("payroll_statements/p1__e1")).update({ status: "paid" }));
+    });
+
+    it("lets an employee confirm only as themselves", async () => {
+      await assertSucceeds(
+        employee()
+          .doc(company("payroll_periods/p1/confirmations/e1__rev1"))
+          .set({ periodId: "p1", employeeId: "e1", uid: "employee-uid", revision: 1, confirmed: true })
+      );
+      await assertFails(
+        employee()
+          .doc(company("payroll_periods/p1/confirmations/e2__rev1"))
+          .set({ periodId: "p1", employeeId: "e2", uid: "employee-uid", revision: 1, confirmed: true })
+      );
+    });
+  });
+
+  describe("manager-only collections", () => {
+    it("are closed to employees", async () => {
+      await assertFails(employee().doc(company("invoices/i1")).get());
+      await assertFails(employee().collection(company("mileage_logs")).get());
+      await assertFails(employee().collection(company("other_expenses")).get());
+      await assertSucceeds(manager().doc(company("invoices/i1")).get());
+    });
+
+    it("keep PIN attempt counters from every client", async () => {
+      await assertFails(owner().doc(company("pin_attempts/company")).get());
+      await assertFails(owner().doc(company("pin_attempts/company")).delete());
+    });
+
+    it("do not open unmatched paths to managers", async () => {
+      await assertFails(manager().doc(company("anything_else/x")).set({ a: 1 }));
+    });
+  });
+});
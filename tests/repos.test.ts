@@ -0,0 +1,198 @@
+import { initializeApp, deleteApp, type FirebaseApp } from "firebase/app";
+import { connectFirestoreEmulator, getFirestore, type Firestore } from "firebase/firestore";
+import { initializeTestEnvironment, type RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { FirestoreRepo, LocalRepo, type Repo } from "@/lib/repositories";
+import { EMULATOR_PROJECT_ID, emulatorHost, hasFirestoreEmulator } from "./emulators";
+
+// The repos are handed their Firestore; the app's client needs real config
+vi.mock("@/firebase/client", () => ({ auth: null, functions: null }));
+
+type Row = { id: string; name: string; count?: number };
+
+const COMPANY = "acme";
+
+const byId = (rows: Row[]) => [...rows].sort((a, b) => a.id.localeCompare(b.id));
+
+// Resolves with the first change whose rows pass `test`
+const nextChange = (repo: Repo<Row>, test: (rows: Row[]) => boolean) =>
+  new Promise<Row[]>((resolve) => {
+    const off = repo.onChange((rows) => {
+      if (!test(rows)) return;
+      off();
+      resolve(rows);
+    });
+  });
+
+/**
+ * What every Repo<T> promises, whichever engine is behind it. Each test
+ * gets an empty collection.
+ */
+function repoContract(makeRepo: () => Repo<Row>) {
+  let repo: Repo<Row>;
+  let unwatch: (() => void) | undefined;
+
+  beforeEach(() => {
+    repo = makeRepo();
+  });
+
+  afterEach(() => {
+    unwatch?.();
+    unwatch = undefined;
+  });
+
+  it("lists nothing in an empty collection", async () => {
+    expect(await repo.list(COMPANY)).toEqual([]);
+  });
+
+  it("creates rows with a new id", async () => {
+    const a = await repo.create(COMPANY, { name: "Ann" });
+    const b = await repo.create(COMPANY, { name: "Bo" });
+
+    expect(a.id).toBeTruthy();
+    expect(b.id).not.toBe(a.id);
+    expect(byId(await repo.list(COMPANY))).toEqual(byId([a, b]));
+  });
+
+  it("sets a row under its own id, replacing what was there", async () => {
+    await repo.set(COMPANY, { id: "r1", name: "Ann", count: 1 });
+    await repo.set(COMPANY, { id: "r1", name: "Ann Lee" });
+
+    expect(await repo.list(COMPANY)).toEqual([{ id: "r1", name: "Ann Lee" }]);
+  });
+
+  it("updates only the patched fields", async () => {
+    await repo.set(COMPANY, { id: "r1", name: "Ann", count: 1 });
+    await repo.set(COMPANY, { id: "r2", name: "Bo", count: 2 });
+    await repo.update(COMPANY, "r1", { count: 5 });
+
+    expect(byId(await repo.list(COMPANY))).toEqual([
+      { id: "r1", name: "Ann", count: 5 },
+      { id: "r2", name: "Bo", count: 2 },
+    ]);
+  });
+
+  it("removes one row", async () => {
+    await repo.set(COMPANY, { id: "r1", name: "Ann" });
+    await repo.set(COMPANY, { id: "r2", name: "Bo" });
+    await repo.remove(COMPANY, "r1");
+
+    expect(await repo.list(COMPANY)).toEqual([{ id: "r2", name: "Bo" }]);
+  });
+
+  it("reports the rows when watched, and again after each write", async () => {
+    await repo.set(COMPANY, { id: "r1", name: "Ann" });
+
+    const first = nextChange(repo, (rows) => rows.length === 1);
+    unwatch = repo.watchAll({ companyId: COMPANY });
+    expect(await first).toEqual([{ id: "r1", name: "Ann" }]);
+
+    const created = nextChange(repo, (rows) => rows.length === 2);
+    const bo = await repo.create(COMPANY, { name: "Bo" });
+    expect(byId(await created)).toEqual(byId([{ id: "r1", name: "Ann" }, bo]));
+
+    const updated = nextChange(repo, (rows) => rows.some((r) => r.count === 3));
+    await repo.update(COMPANY, "r1", { count: 3 });
+    expect(byId(await updated)).toEqual(byId([{ id: "r1", name: "Ann", count: 3 }, bo]));
+
+    const removed = nextChange(repo, (rows) => rows.length === 1);
+    await repo.remove(COMPANY, "r1");
+    expect(await removed).toEqual([bo]);
+  });
+
+  it("stops reporting once the listener is removed", async () => {
+    const seen: Row[][] = [];
+    const off = repo.onChange((rows) => seen.push(rows));
+    unwatch = repo.watchAll({ companyId: COMPANY });
+    await nextChange(repo, () => true);
+
+    off();
+    const settled = nextChange(repo, (rows) => rows.length === 1);
+    await repo.set(COMPANY, { id: "r1", name: "Ann" });
+    await settled;
+
+    expect(seen.every((rows) => rows.length === 0)).toBe(true);
+  });
+}
+
+// ---------------------------------------------------------------
+// Local engine
+// ---------------------------------------------------------------
+
+describe("LocalRepo", () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal("window", globalThis);
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  repoContract(() => new LocalRepo<Row>("test.rows"));
+
+  it("shares writes between instances on one key", async () => {
+    const reader: Repo<Row> = new LocalRepo<Row>("test.rows");
+    const seen = nextChange(reader, (rows) => rows.length === 1);
+
+    await new LocalRepo<Row>("test.rows").set(COMPANY, { id: "r1", name: "Ann" });
+
+    expect(await seen).toEqual([{ id: "r1", name: "Ann" }]);
+    expect(await reader.list(COMPANY)).toEqual([{ id: "r1", name: "Ann" }]);
+  });
+});
+
+// ---------------------------------------------------------------
+// Cloud engine
+// ---------------------------------------------------------------
+
+describe.skipIf(!hasFirestoreEmulator)("FirestoreRepo", () => {
+  // A project of its own, so the open rules below never reach the rules suite
+  const projectId = `${EMULATOR_PROJECT_ID}-repos`;
+  let env: RulesTestEnvironment;
+  let app: FirebaseApp;
+  let db: Firestore;
+
+  beforeAll(async () => {
+    const host = emulatorHost("FIRESTORE_EMULATOR_HOST");
+    env = await initializeTestEnvironment({
+      projectId,
+      firestore: {
+        ...host,
+        rules: `rules_version = '2';
+          service cloud.firestore {
+            match /databases/{database}/documents {
+              match /{document=**} { allow read, write: if true; }
+            }
+          }`,
+      },
+    });
+
+    app = initializeApp({ projectId }, "repo-tests");
+    db = getFirestore(app);
+    connectFirestoreEmulator(db, host.host, host.port);
+  });
+
+  afterAll(async () => {
+    await deleteApp(app);
+    await env.cleanup();
+  });
+
+  beforeEach(() => env.clearFirestore());
+
+  repoContract(() => new FirestoreRepo<Row>(db, "contract_rows"));
+
+  it("keeps each company's rows apart", async () => {
+    const repo = new FirestoreRepo<Row>(db, "contract_rows");
+    await repo.set(COMPANY, { id: "r1", name: "Ann" });
+    await repo.set("other-co", { id: "r2", name: "Bo" });
+
+    expect(await repo.list(COMPANY)).toEqual([{ id: "r1", name: "Ann" }]);
+    expect(await repo.list("other-co")).toEqual([{ id: "r2", name: "Bo" }]);
+  });
+});
@@ -0,0 +1,153 @@
+import { initializeApp, deleteApp, type FirebaseApp } from "firebase/app";
+import { connectAuthEmulator, getAuth, signInAnonymously, signOut, type Auth } from "firebase/auth";
+import { connectFunctionsEmulator, getFunctions, httpsCallable, type Functions } from "firebase/functions";
+import {
+  initializeTestEnvironment,
+  type RulesTestContext,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  EMULATOR_PROJECT_ID,
+  FUNCTIONS_EMULATOR,
+  emulatorHost,
+  hasFunctionsEmulator,
+} from "./emulators";
+
+const COMPANY = "acme";
+const company = (path: string) => `companies/${COMPANY}/${path}`;
+
+type PinArgs = { companyId: string; pin: string; employeeId?: string };
+type TestFirestore = ReturnType<RulesTestContext["firestore"]>;
+
+describe.skipIf(!hasFunctionsEmulator)("signInWithPin", () => {
+  let env: RulesTestEnvironment;
+  let app: FirebaseApp;
+  let auth: Auth;
+  let functions: Functions;
+
+  const seed = (write: (db: TestFirestore) => Promise<unknown>) =>
+    env.withSecurityRulesDisabled(async (ctx) => {
+      await write(ctx.firestore());
+    });
+
+  const signInWithPin = (args: PinArgs) =>
+    httpsCallable<PinArgs, { role: string; employeeId: string | null }>(functions, "signInWithPin")(args);
+
+  const freshUser = async () => {
+    await signOut(auth);
+    return (await signInAnonymously(auth)).user;
+  };
+
+  const claimsOf = async () => (await auth.currentUser!.getIdTokenResult(true)).claims;
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: EMULATOR_PROJECT_ID,
+      firestore: emulatorHost("FIRESTORE_EMULATOR_HOST"),
+    });
+
+    app = initializeApp({ projectId: EMULATOR_PROJECT_ID, apiKey: "demo-key" }, "pin-tests");
+    auth = getAuth(app);
+    connectAuthEmulator(auth, `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+    functions = getFunctions(app);
+    connectFunctionsEmulator(functions, FUNCTIONS_EMULATOR.host, FUNCTIONS_EMULATOR.port);
+  });
+
+  afterAll(async () => {
+    await deleteApp(app);
+    await env.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await seed((db) =>
+      Promise.all([
+        db.doc(`companies/${COMPANY}`).set({ ownerUid: "provisioned-owner" }),
+        db.doc(company("private/settings")).set({ managerPIN: "9999" }),
+        db.doc(company("employees/e1")).set({ name: "Ann", status: "active" }),
+        db.doc(company("employee_private/e1")).set({ pin: "1234" }),
+      ])
+    );
+  });
+
+  it("grants employee claims for the right employee PIN", async () => {
+    const user = await freshUser();
+    await signInWithPin({ companyId: COMPANY, employeeId: "e1", pin: "1234" });
+
+    expect(await claimsOf()).toMatchObject({ companyId: COMPANY, role: "employee", employeeId: "e1" });
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const member = await ctx.firestore().doc(company(`members/${user.uid}`)).get();
+      expect(member.data()).toMatchObject({ role: "employee", employeeId: "e1" });
+    });
+  });
+
+  it("refuses a wrong PIN without granting anything", async () => {
+    await freshUser();
+    await expect(
+      signInWithPin({ companyId: COMPANY, employeeId: "e1", pin: "0000" })
+    ).rejects.toMatchObject({ code: "functions/permission-denied" });
+    expect((await claimsOf()).role).toBeUndefined();
+  });
+
+  it("makes the first manager of a company with no owner members a manager, not owner", async () => {
+    await freshUser();
+    await signInWithPin({ companyId: COMPANY, pin: "9999" });
+    expect(await claimsOf()).toMatchObject({ companyId: COMPANY, role: "manager" });
+  });
+
+  it("makes the provisioned ownerUid the owner", async () => {
+    const user = await freshUser();
+    await seed((db) => db.doc(`companies/${COMPANY}`).set({ ownerUid: user.uid }));
+
+    await signInWithPin({ companyId: COMPANY, pin: "9999" });
+    expect(await claimsOf()).toMatchObject({ companyId: COMPANY, role: "owner" });
+  });
+
+  it("signs an employee in as an employee on a device a manager used", async () => {
+    await freshUser();
+    await signInWithPin({ companyId: COMPANY, pin: "9999" });
+    await signInWithPin({ companyId: COMPANY, employeeId: "e1", pin: "1234" });
+
+    expect(await claimsOf()).toMatchObject({ role: "employee", employeeId: "e1" });
+  });
+
+  it("lets a manager keep their role on their own employee record", async () => {
+    const user = await freshUser();
+    await seed((db) =>
+      db.doc(company(`members/${user.uid}`)).set({ role: "manager", linkedEmployeeId: "e1" })
+    );
+
+    await signInWithPin({ companyId: COMPANY, employeeId: "e1", pin: "1234" });
+    expect(await claimsOf()).toMatchObject({ role: "manager", employeeId: "e1" });
+  });
+
+  it("locks an employee PIN after repeated failures, even for the right PIN", async () => {
+    await freshUser();
+    for (let i = 0; i < 5; i++) {
+      await expect(
+        signInWithPin({ companyId: COMPANY, employeeId: "e1", pin: String(1000 + i) })
+      ).rejects.toMatchObject({ code: "functions/permission-denied" });
+    }
+
+    await expect(
+      signInWithPin({ companyId: COMPANY, employeeId: "e1", pin: "1234" })
+    ).rejects.toMatchObject({ code: "functions/resource-exhausted" });
+    expect((await claimsOf()).role).toBeUndefined();
+  });
+
+  it("locks the whole company after many failures across PINs", async () => {
+    await seed((db) =>
+      db.doc(company("pin_attempts/company")).set({
+        failures: 20,
+        lastFailureAt: Date.now(),
+        lockedUntil: Date.now() + 60 * 1000,
+      })
+    );
+
+    await freshUser();
+    await expect(signInWithPin({ companyId: COMPANY, pin: "9999" })).rejects.toMatchObject({
+      code: "functions/resource-exhausted",
+    });
+  });
+});